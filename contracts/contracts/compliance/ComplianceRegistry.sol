@@ -4,19 +4,36 @@ pragma solidity ^0.8.20;
 import "@openzeppelin/contracts/access/AccessControl.sol";
 import "@openzeppelin/contracts/utils/Pausable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
 
 /**
  * @title ComplianceRegistry
  * @dev KYC/AML and jurisdiction management for regulatory compliance
  * @notice Manages accredited investor verification and compliance status
  */
-contract ComplianceRegistry is AccessControl, Pausable, ReentrancyGuard {
+contract ComplianceRegistry is AccessControl, Pausable, ReentrancyGuard, EIP712 {
     
     // Role definitions
     bytes32 public constant COMPLIANCE_OFFICER_ROLE = keccak256("COMPLIANCE_OFFICER_ROLE");
     bytes32 public constant KYC_PROVIDER_ROLE = keccak256("KYC_PROVIDER_ROLE");
     bytes32 public constant JURISDICTION_MANAGER_ROLE = keccak256("JURISDICTION_MANAGER_ROLE");
     
+    // ERC-1404 transfer restriction codes
+    uint8 public constant SUCCESS = 0;
+    uint8 public constant SENDER_KYC_REQUIRED = 1;
+    uint8 public constant SENDER_ACCREDITATION_REQUIRED = 2;
+    uint8 public constant SENDER_RESTRICTED = 3;
+    uint8 public constant SENDER_UNDER_LOCKUP = 4;
+    uint8 public constant RECEIVER_KYC_REQUIRED = 5;
+    uint8 public constant RECEIVER_ACCREDITATION_REQUIRED = 6;
+    uint8 public constant RECEIVER_RESTRICTED = 7;
+    uint8 public constant JURISDICTION_NOT_ALLOWED = 8;
+    
+    bytes32 public constant KYC_ATTESTATION_TYPEHASH = keccak256(
+        "KYCAttestation(address user,uint256 jurisdictionCode,uint256 expiry,string kycHash,bytes32 nonce)"
+    );
+    
     // Compliance status structure
     struct ComplianceStatus {
         bool isKYCVerified;
@@ -50,11 +67,21 @@ contract ComplianceRegistry is AccessControl, Pausable, ReentrancyGuard {
         uint256[] supportedJurisdictions;
     }
     
+    // KYC verification signed off-chain by a registered provider (EIP-712)
+    struct KYCAttestation {
+        address user;
+        uint256 jurisdictionCode;
+        uint256 expiry;
+        string kycHash;
+        bytes32 nonce;
+    }
+    
     // Storage
     mapping(address => ComplianceStatus) private _complianceStatus;
     mapping(uint256 => JurisdictionInfo) private _jurisdictions;
     mapping(address => KYCProvider) private _kycProviders;
-    mapping(bytes32 => bool) private _usedNonces;
+    mapping(address => mapping(bytes32 => bool)) private _usedNonces; // Per provider
+    mapping(address => uint256) public providerFees; // Verification fees owed to each provider
     
     // Global settings
     uint256 public defaultLockupPeriod = 365 days; // Rule 144 lockup
@@ -77,6 +104,19 @@ contract ComplianceRegistry is AccessControl, Pausable, ReentrancyGuard {
     event KYCProviderUpdated(address indexed provider, bool active);
     event LockupPeriodUpdated(address indexed user, uint256 expiry);
     event ComplianceParametersUpdated(uint256 lockupPeriod, uint256 kycValidity, uint256 accreditationValidity);
+    event KYCAttestationSubmitted(address indexed user, address indexed provider, bytes32 nonce, address relayer);
+    event ProviderFeesWithdrawn(address indexed provider, uint256 amount);
+    event ComplianceStatusImported(
+        address indexed user,
+        bool kycVerified,
+        bool accredited,
+        bool restricted,
+        uint256 jurisdictionCode,
+        uint256 kycExpiry,
+        uint256 accreditationExpiry,
+        uint256 lockupExpiry,
+        address kycProvider
+    );
     
     // Modifiers
     modifier validAddress(address account) {
@@ -84,13 +124,7 @@ contract ComplianceRegistry is AccessControl, Pausable, ReentrancyGuard {
         _;
     }
     
-    modifier nonceNotUsed(bytes32 nonce) {
-        require(!_usedNonces[nonce], "ComplianceRegistry: Nonce already used");
-        _usedNonces[nonce] = true;
-        _;
-    }
-    
-    constructor() {
+    constructor() EIP712("ComplianceRegistry", "1") {
         _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
         _grantRole(COMPLIANCE_OFFICER_ROLE, msg.sender);
         _grantRole(KYC_PROVIDER_ROLE, msg.sender);
@@ -109,21 +143,96 @@ contract ComplianceRegistry is AccessControl, Pausable, ReentrancyGuard {
         string memory kycHash,
         uint256 jurisdictionCode,
         bytes32 nonce
-    ) external validAddress(user) onlyRole(KYC_PROVIDER_ROLE) nonceNotUsed(nonce) {
+    ) external validAddress(user) onlyRole(KYC_PROVIDER_ROLE) {
         require(_jurisdictions[jurisdictionCode].isAllowed, "ComplianceRegistry: Jurisdiction not allowed");
+        _useNonce(msg.sender, nonce);
+        
+        // Providers may only verify users in the jurisdictions they registered for
+        if (isVerified) {
+            require(
+                _supportsJurisdiction(_kycProviders[msg.sender], jurisdictionCode),
+                "ComplianceRegistry: Jurisdiction not supported by provider"
+            );
+        }
+        
+        _setKYCStatus(user, isVerified, kycHash, jurisdictionCode, block.timestamp + kycValidityPeriod, msg.sender);
+    }
+    
+    /**
+     * @dev Record a KYC verification signed off-chain by a registered provider.
+     * Anyone may relay the attestation; the provider's verification fee must be attached.
+     */
+    function submitKYCAttestation(
+        KYCAttestation calldata attestation,
+        bytes calldata signature
+    ) external payable nonReentrant validAddress(attestation.user) {
+        require(attestation.expiry > block.timestamp, "ComplianceRegistry: Attestation expired");
+        require(
+            attestation.expiry <= block.timestamp + kycValidityPeriod,
+            "ComplianceRegistry: Expiry beyond KYC validity period"
+        );
+        
+        address signer = ECDSA.recover(hashKYCAttestation(attestation), signature);
+        KYCProvider storage provider = _kycProviders[signer];
+        require(
+            provider.isActive && hasRole(KYC_PROVIDER_ROLE, signer),
+            "ComplianceRegistry: Unknown or inactive provider"
+        );
+        _useNonce(signer, attestation.nonce);
+        require(
+            _supportsJurisdiction(provider, attestation.jurisdictionCode),
+            "ComplianceRegistry: Jurisdiction not supported by provider"
+        );
+        require(_jurisdictions[attestation.jurisdictionCode].isAllowed, "ComplianceRegistry: Jurisdiction not allowed");
+        require(msg.value == provider.verificationFee, "ComplianceRegistry: Incorrect verification fee");
+        
+        providerFees[signer] += msg.value;
+        _setKYCStatus(
+            attestation.user,
+            true,
+            attestation.kycHash,
+            attestation.jurisdictionCode,
+            attestation.expiry,
+            signer
+        );
+        
+        emit KYCAttestationSubmitted(attestation.user, signer, attestation.nonce, msg.sender);
+    }
+    
+    /**
+     * @dev Withdraw the verification fees paid with the caller's attestations
+     */
+    function withdrawProviderFees() external nonReentrant {
+        uint256 amount = providerFees[msg.sender];
+        require(amount > 0, "ComplianceRegistry: No fees");
+        
+        providerFees[msg.sender] = 0;
+        (bool success, ) = payable(msg.sender).call{value: amount}("");
+        require(success, "ComplianceRegistry: Fee transfer failed");
         
+        emit ProviderFeesWithdrawn(msg.sender, amount);
+    }
+    
+    function _setKYCStatus(
+        address user,
+        bool isVerified,
+        string memory kycHash,
+        uint256 jurisdictionCode,
+        uint256 kycExpiry,
+        address provider
+    ) internal {
         ComplianceStatus storage status = _complianceStatus[user];
         
         bool wasVerified = status.isKYCVerified;
         
         status.isKYCVerified = isVerified;
-        status.kycProvider = msg.sender;
+        status.kycProvider = provider;
         status.kycHash = kycHash;
         status.jurisdictionCode = jurisdictionCode;
         status.lastUpdateTimestamp = block.timestamp;
         
         if (isVerified) {
-            status.kycExpiry = block.timestamp + kycValidityPeriod;
+            status.kycExpiry = kycExpiry;
             
             // Apply jurisdiction-specific requirements
             JurisdictionInfo storage jurisdiction = _jurisdictions[jurisdictionCode];
@@ -145,10 +254,24 @@ contract ComplianceRegistry is AccessControl, Pausable, ReentrancyGuard {
             }
         }
         
-        emit UserKYCUpdated(user, isVerified, status.kycExpiry, msg.sender);
+        emit UserKYCUpdated(user, isVerified, status.kycExpiry, provider);
         emit LockupPeriodUpdated(user, status.lockupExpiry);
     }
     
+    function _useNonce(address provider, bytes32 nonce) internal {
+        require(!_usedNonces[provider][nonce], "ComplianceRegistry: Nonce already used");
+        _usedNonces[provider][nonce] = true;
+    }
+    
+    function _supportsJurisdiction(KYCProvider storage provider, uint256 jurisdictionCode) internal view returns (bool) {
+        for (uint256 i = 0; i < provider.supportedJurisdictions.length; i++) {
+            if (provider.supportedJurisdictions[i] == jurisdictionCode) {
+                return true;
+            }
+        }
+        return false;
+    }
+    
     /**
      * @dev Update accredited investor status
      */
@@ -168,7 +291,7 @@ contract ComplianceRegistry is AccessControl, Pausable, ReentrancyGuard {
             status.accreditationExpiry = customExpiry > 0 ? 
                 customExpiry : 
                 block.timestamp + accreditationValidityPeriod;
-                
+            
             if (!wasAccredited) {
                 totalAccreditedInvestors++;
             }
@@ -284,7 +407,9 @@ contract ComplianceRegistry is AccessControl, Pausable, ReentrancyGuard {
     }
     
     /**
-     * @dev Batch update multiple users (for migration)
+     * @dev Batch update multiple users (for migration and bulk imports).
+     * Statuses are stored as given; the statistics are kept in step and each
+     * import is logged with the full record for the audit trail.
      */
     function batchUpdateCompliance(
         address[] memory users,
@@ -294,7 +419,35 @@ contract ComplianceRegistry is AccessControl, Pausable, ReentrancyGuard {
         
         for (uint256 i = 0; i < users.length; i++) {
             require(users[i] != address(0), "ComplianceRegistry: Invalid address");
-            _complianceStatus[users[i]] = statuses[i];
+            ComplianceStatus storage previous = _complianceStatus[users[i]];
+            ComplianceStatus memory status = statuses[i];
+            
+            if (status.isKYCVerified != previous.isKYCVerified) {
+                if (status.isKYCVerified) totalVerifiedUsers++;
+                else totalVerifiedUsers--;
+            }
+            if (status.isAccredited != previous.isAccredited) {
+                if (status.isAccredited) totalAccreditedInvestors++;
+                else totalAccreditedInvestors--;
+            }
+            if (status.isRestricted != previous.isRestricted) {
+                if (status.isRestricted) totalRestrictedUsers++;
+                else totalRestrictedUsers--;
+            }
+            
+            _complianceStatus[users[i]] = status;
+            
+            emit ComplianceStatusImported(
+                users[i],
+                status.isKYCVerified,
+                status.isAccredited,
+                status.isRestricted,
+                status.jurisdictionCode,
+                status.kycExpiry,
+                status.accreditationExpiry,
+                status.lockupExpiry,
+                status.kycProvider
+            );
         }
     }
     
@@ -327,6 +480,9 @@ contract ComplianceRegistry is AccessControl, Pausable, ReentrancyGuard {
         return _complianceStatus[user];
     }
     
+    /**
+     * @dev Whether the user may hold tokens: KYC and accreditation current, not restricted and in an allowed jurisdiction
+     */
     function isCompliant(address user) external view returns (bool) {
         ComplianceStatus storage status = _complianceStatus[user];
         
@@ -335,46 +491,72 @@ contract ComplianceRegistry is AccessControl, Pausable, ReentrancyGuard {
             status.kycExpiry > block.timestamp &&
             status.isAccredited && 
             status.accreditationExpiry > block.timestamp &&
-            !status.isRestricted
+            !status.isRestricted &&
+            _jurisdictions[status.jurisdictionCode].isAllowed
         );
     }
     
     function isTransferAllowed(address from, address to) external view returns (bool, string memory) {
+        uint8 code = detectTransferRestriction(from, to, 0);
+        return (code == SUCCESS, messageForTransferRestriction(code));
+    }
+    
+    /**
+     * @dev ERC-1404: restriction code for a transfer; `SUCCESS` when allowed.
+     * The registry's rules do not depend on the amount.
+     */
+    function detectTransferRestriction(address from, address to, uint256) public view returns (uint8) {
         ComplianceStatus storage fromStatus = _complianceStatus[from];
         ComplianceStatus storage toStatus = _complianceStatus[to];
         
         // Check sender compliance
         if (!fromStatus.isKYCVerified || fromStatus.kycExpiry <= block.timestamp) {
-            return (false, "Sender KYC verification required or expired");
+            return SENDER_KYC_REQUIRED;
         }
         if (!fromStatus.isAccredited || fromStatus.accreditationExpiry <= block.timestamp) {
-            return (false, "Sender accreditation required or expired");
+            return SENDER_ACCREDITATION_REQUIRED;
         }
         if (fromStatus.isRestricted) {
-            return (false, "Sender account restricted");
+            return SENDER_RESTRICTED;
         }
         if (fromStatus.lockupExpiry > block.timestamp) {
-            return (false, "Sender under lockup period");
+            return SENDER_UNDER_LOCKUP;
         }
         
         // Check receiver compliance
         if (!toStatus.isKYCVerified || toStatus.kycExpiry <= block.timestamp) {
-            return (false, "Receiver KYC verification required or expired");
+            return RECEIVER_KYC_REQUIRED;
         }
         if (!toStatus.isAccredited || toStatus.accreditationExpiry <= block.timestamp) {
-            return (false, "Receiver accreditation required or expired");
+            return RECEIVER_ACCREDITATION_REQUIRED;
         }
         if (toStatus.isRestricted) {
-            return (false, "Receiver account restricted");
+            return RECEIVER_RESTRICTED;
         }
         
         // Check jurisdiction compatibility
         if (!_jurisdictions[fromStatus.jurisdictionCode].isAllowed || 
             !_jurisdictions[toStatus.jurisdictionCode].isAllowed) {
-            return (false, "Jurisdiction not allowed");
+            return JURISDICTION_NOT_ALLOWED;
         }
         
-        return (true, "Transfer allowed");
+        return SUCCESS;
+    }
+    
+    /**
+     * @dev ERC-1404: human-readable message for a restriction code
+     */
+    function messageForTransferRestriction(uint8 restrictionCode) public pure returns (string memory) {
+        if (restrictionCode == SUCCESS) return "Transfer allowed";
+        if (restrictionCode == SENDER_KYC_REQUIRED) return "Sender KYC verification required or expired";
+        if (restrictionCode == SENDER_ACCREDITATION_REQUIRED) return "Sender accreditation required or expired";
+        if (restrictionCode == SENDER_RESTRICTED) return "Sender account restricted";
+        if (restrictionCode == SENDER_UNDER_LOCKUP) return "Sender under lockup period";
+        if (restrictionCode == RECEIVER_KYC_REQUIRED) return "Receiver KYC verification required or expired";
+        if (restrictionCode == RECEIVER_ACCREDITATION_REQUIRED) return "Receiver accreditation required or expired";
+        if (restrictionCode == RECEIVER_RESTRICTED) return "Receiver account restricted";
+        if (restrictionCode == JURISDICTION_NOT_ALLOWED) return "Jurisdiction not allowed";
+        return "Unknown restriction code";
     }
     
     function getJurisdictionInfo(uint256 code) external view returns (JurisdictionInfo memory) {
@@ -385,9 +567,27 @@ contract ComplianceRegistry is AccessControl, Pausable, ReentrancyGuard {
         return _kycProviders[provider];
     }
     
-    function getUsersByJurisdiction(uint256 jurisdictionCode) external view returns (uint256 count) {
-        // Note: This would require an enumerable mapping in production
-        // For now, returning 0 as placeholder
+    /**
+     * @dev EIP-712 digest a provider signs for `submitKYCAttestation`
+     */
+    function hashKYCAttestation(KYCAttestation calldata attestation) public view returns (bytes32) {
+        return _hashTypedDataV4(keccak256(abi.encode(
+            KYC_ATTESTATION_TYPEHASH,
+            attestation.user,
+            attestation.jurisdictionCode,
+            attestation.expiry,
+            keccak256(bytes(attestation.kycHash)),
+            attestation.nonce
+        )));
+    }
+    
+    function isNonceUsed(address provider, bytes32 nonce) external view returns (bool) {
+        return _usedNonces[provider][nonce];
+    }
+    
+    function getUsersByJurisdiction(uint256 /* jurisdictionCode */) external pure returns (uint256 count) {
+        // Note: Not enumerable on-chain; the indexer in services/ serves this
+        // count from UserKYCUpdated events (GET /api/v1/compliance/jurisdictions/:code)
         return 0;
     }
     
@@ -464,5 +664,11 @@ contract ComplianceRegistry is AccessControl, Pausable, ReentrancyGuard {
             additionalLockupPeriod: 0,
             restrictedSecurityTypes: restrictedTypes
         });
+        
+        // Logged like any later registration so the jurisdictions can be listed from events
+        emit JurisdictionUpdated(1, "US", true);
+        emit JurisdictionUpdated(2, "CA", true);
+        emit JurisdictionUpdated(3, "EU", true);
+        emit JurisdictionUpdated(999, "XX", false);
     }
 }
\ No newline at end of file
@@ -6,6 +6,7 @@ import "@openzeppelin/contracts/access/AccessControl.sol";
 import "@openzeppelin/contracts/utils/Pausable.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
 import "./ERCRWACSV.sol";
 
 /**
@@ -20,10 +21,26 @@ contract CSVLiquidityPool is ReentrancyGuard, AccessControl, Pausable {
     bytes32 public constant POOL_MANAGER_ROLE = keccak256("POOL_MANAGER_ROLE");
     bytes32 public constant YIELD_DISTRIBUTOR_ROLE = keccak256("YIELD_DISTRIBUTOR_ROLE");
     bytes32 public constant ORACLE_ROLE = keccak256("ORACLE_ROLE");
+    bytes32 public constant LOSS_REPORTER_ROLE = keccak256("LOSS_REPORTER_ROLE");
     
     // Tranche types
     enum TrancheType { SENIOR, JUNIOR }
     
+    // Period between two yield distributions, closed by the later one
+    struct Epoch {
+        uint256 end;
+        uint256 yieldPerShareSecond; // Scaled by PRECISION
+        uint256 accYieldPerShare; // Tranche accumulator once the epoch closed
+    }
+    
+    // A user's yield settled up to `updatedAt`
+    struct Accrual {
+        uint256 epoch; // Epoch `shareSeconds` belongs to
+        uint256 shareSeconds; // Held in that epoch up to `updatedAt`
+        uint256 updatedAt;
+        uint256 pending; // Accrued in closed epochs, not yet claimed or compounded
+    }
+    
     // Tranche structure
     struct Tranche {
         uint256 totalDeposits;
@@ -37,6 +54,21 @@ contract CSVLiquidityPool is ReentrancyGuard, AccessControl, Pausable {
         mapping(address => uint256) userDeposits;
         mapping(address => uint256) depositTimestamp;
         mapping(address => uint256) lastYieldClaim;
+        // Yield accrual: each distribution pays the epoch since the previous one
+        // pro rata to the share-seconds held in it
+        uint256 accYieldPerShare; // Yield of a share held through every closed epoch, scaled by PRECISION
+        uint256 epochStart;
+        uint256 epochShareSeconds;
+        uint256 epochValueSeconds; // totalDeposits integrated over the epoch, for the senior coupon
+        uint256 lastCheckpoint;
+        uint256 carriedYield; // Distributed within the second the epoch started; paid with the next epoch
+        Epoch[] epochs;
+        mapping(address => Accrual) accruals;
+        // Withdrawal queue, filled first in first out from `queueHead`
+        WithdrawalRequest[] withdrawalQueue;
+        uint256 queueHead;
+        uint256 queuedTotal; // Unfilled shares across open requests
+        mapping(address => uint256) queuedShares;
     }
     
     // Pool configuration
@@ -58,6 +90,24 @@ contract CSVLiquidityPool is ReentrancyGuard, AccessControl, Pausable {
         uint256 protocolFee;
     }
     
+    // Shares queued for withdrawal until the pool has the liquidity to pay them
+    struct WithdrawalRequest {
+        address user;
+        uint256 shares;
+        uint256 filled;
+        uint256 requestedAt;
+        bool cancelled;
+    }
+    
+    // Loss written down across the tranches, junior first
+    struct LossRecord {
+        uint256 timestamp;
+        uint256 totalLoss;
+        uint256 juniorLoss;
+        uint256 seniorLoss;
+        string reason;
+    }
+    
     // Storage
     mapping(TrancheType => Tranche) private _tranches;
     ERCRWACSV public immutable csvToken;
@@ -67,19 +117,45 @@ contract CSVLiquidityPool is ReentrancyGuard, AccessControl, Pausable {
     uint256 public totalPoolValue;
     uint256 public protocolFeeReserve;
     uint256 public lastYieldDistribution;
+    uint256 public deployedCapital; // Base tokens lent out against CSV collateral and not yet returned
     
     YieldDistribution[] public yieldHistory;
+    LossRecord[] public lossHistory;
+    
+    uint256 public impairmentPeriod = 7 days; // Withdrawals stay suspended this long after a loss
+    uint256 public impairedUntil;
+    // ERC-4626 tranche wrappers pool many holders' deposits and apply the
+    // minimum deposit, lockup and early withdrawal fee per holder themselves
+    mapping(address => bool) public trancheWrappers;
     
     // Constants
     uint256 public constant BASIS_POINTS = 10000;
     uint256 public constant SECONDS_PER_YEAR = 365 days;
+    uint256 public constant PRECISION = 1e27;
     
     // Events
     event TrancheDeposit(TrancheType indexed tranche, address indexed user, uint256 amount, uint256 shares);
     event TrancheWithdrawal(TrancheType indexed tranche, address indexed user, uint256 amount, uint256 shares);
     event YieldDistributed(uint256 totalYield, uint256 seniorYield, uint256 juniorYield, uint256 protocolFee);
     event YieldClaimed(TrancheType indexed tranche, address indexed user, uint256 amount);
+    event YieldCompounded(TrancheType indexed tranche, address indexed user, uint256 amount, uint256 shares);
     event TrancheConfigured(TrancheType indexed tranche, uint256 yieldRate, uint256 minDeposit, uint256 lockupPeriod);
+    event LossRecorded(uint256 totalLoss, uint256 juniorLoss, uint256 seniorLoss, string reason);
+    event TrancheLoss(TrancheType indexed tranche, uint256 loss, uint256 remainingDeposits);
+    event ImpairmentPeriodUpdated(uint256 oldPeriod, uint256 newPeriod);
+    event TrancheWrapperUpdated(address indexed wrapper, bool enabled);
+    event CapitalDeployed(address indexed to, uint256 amount, uint256 deployedCapital);
+    event CapitalReturned(address indexed from, uint256 amount, uint256 deployedCapital);
+    event WithdrawalRequested(TrancheType indexed tranche, uint256 indexed requestId, address indexed user, uint256 shares);
+    event WithdrawalCancelled(TrancheType indexed tranche, uint256 indexed requestId, address indexed user, uint256 shares);
+    event WithdrawalFilled(
+        TrancheType indexed tranche,
+        uint256 indexed requestId,
+        address indexed user,
+        uint256 shares,
+        uint256 value, // Liquidity used, early withdrawal fee included
+        uint256 remainingShares
+    );
     
     // Modifiers
     modifier validTranche(TrancheType tranche) {
@@ -112,10 +188,16 @@ contract CSVLiquidityPool is ReentrancyGuard, AccessControl, Pausable {
         _tranches[TrancheType.JUNIOR].minDeposit = 10000 * 10**6; // 10000 USDC
         _tranches[TrancheType.JUNIOR].lockupPeriod = 180 days;
         
+        _tranches[TrancheType.SENIOR].epochStart = block.timestamp;
+        _tranches[TrancheType.SENIOR].lastCheckpoint = block.timestamp;
+        _tranches[TrancheType.JUNIOR].epochStart = block.timestamp;
+        _tranches[TrancheType.JUNIOR].lastCheckpoint = block.timestamp;
+        
         _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
         _grantRole(POOL_MANAGER_ROLE, msg.sender);
         _grantRole(YIELD_DISTRIBUTOR_ROLE, msg.sender);
         _grantRole(ORACLE_ROLE, msg.sender);
+        _grantRole(LOSS_REPORTER_ROLE, msg.sender);
         
         lastYieldDistribution = block.timestamp;
     }
@@ -127,22 +209,18 @@ contract CSVLiquidityPool is ReentrancyGuard, AccessControl, Pausable {
         TrancheType tranche,
         uint256 amount
     ) external validTranche(tranche) nonReentrant whenNotPaused {
-        require(amount >= _tranches[tranche].minDeposit, "CSVLiquidityPool: Below minimum deposit");
+        require(
+            amount >= _tranches[tranche].minDeposit || trancheWrappers[msg.sender],
+            "CSVLiquidityPool: Below minimum deposit"
+        );
         
         Tranche storage trancheData = _tranches[tranche];
         
-        // Check compliance
-        ERCRWACSV.ComplianceData memory compliance = csvToken.getComplianceData(msg.sender);
-        require(compliance.isKYCVerified, "CSVLiquidityPool: KYC verification required");
-        require(compliance.isAccredited, "CSVLiquidityPool: Accredited investor required");
+        _requireEligible(msg.sender);
+        _accrue(trancheData, msg.sender);
         
         // Calculate shares
-        uint256 shares;
-        if (trancheData.totalShares == 0) {
-            shares = amount;
-        } else {
-            shares = (amount * trancheData.totalShares) / trancheData.totalDeposits;
-        }
+        uint256 shares = _sharesFor(trancheData, amount);
         
         // Transfer tokens
         baseToken.safeTransferFrom(msg.sender, address(this), amount);
@@ -168,11 +246,139 @@ contract CSVLiquidityPool is ReentrancyGuard, AccessControl, Pausable {
         uint256 shares
     ) external validTranche(tranche) nonReentrant {
         Tranche storage trancheData = _tranches[tranche];
-        require(shares <= trancheData.userShares[msg.sender], "CSVLiquidityPool: Insufficient shares");
+        // Also keeps an empty tranche (no shares at all) out of the division below
+        require(shares > 0, "CSVLiquidityPool: Invalid shares");
+        require(
+            shares <= trancheData.userShares[msg.sender] - trancheData.queuedShares[msg.sender],
+            "CSVLiquidityPool: Insufficient shares"
+        );
+        require(block.timestamp >= impairedUntil, "CSVLiquidityPool: Withdrawals suspended during impairment");
+        
+        uint256 liquidity = availableLiquidity();
+        uint256 value = (shares * trancheData.totalDeposits) / trancheData.totalShares;
+        require(value <= liquidity, "CSVLiquidityPool: Insufficient liquidity");
+        // Queued requests are paid first, senior ones also ahead of junior
+        // withdrawals, but they only hold back what they would use up
+        uint256 valueAhead = _queuedValue(_tranches[TrancheType.SENIOR]);
+        if (tranche == TrancheType.JUNIOR) valueAhead += _queuedValue(trancheData);
+        require(value + valueAhead <= liquidity, "CSVLiquidityPool: Withdrawal queue not empty");
+        
+        _redeem(tranche, msg.sender, shares);
+    }
+    
+    /**
+     * @dev Queue `shares` for withdrawal when the pool lacks the liquidity to
+     *      pay them now. Queued shares keep earning yield and bearing losses
+     *      until `processWithdrawals` fills them at the share price of the day.
+     */
+    function requestWithdrawal(
+        TrancheType tranche,
+        uint256 shares
+    ) external validTranche(tranche) nonReentrant returns (uint256 requestId) {
+        Tranche storage trancheData = _tranches[tranche];
+        require(shares > 0, "CSVLiquidityPool: Invalid shares");
+        require(
+            shares <= trancheData.userShares[msg.sender] - trancheData.queuedShares[msg.sender],
+            "CSVLiquidityPool: Insufficient shares"
+        );
+        
+        requestId = trancheData.withdrawalQueue.length;
+        trancheData.withdrawalQueue.push(WithdrawalRequest({
+            user: msg.sender,
+            shares: shares,
+            filled: 0,
+            requestedAt: block.timestamp,
+            cancelled: false
+        }));
+        trancheData.queuedShares[msg.sender] += shares;
+        trancheData.queuedTotal += shares;
+        
+        emit WithdrawalRequested(tranche, requestId, msg.sender, shares);
+    }
+    
+    /**
+     * @dev Cancel the unfilled part of a withdrawal request
+     */
+    function cancelWithdrawal(TrancheType tranche, uint256 requestId) external nonReentrant {
+        Tranche storage trancheData = _tranches[tranche];
+        require(requestId < trancheData.withdrawalQueue.length, "CSVLiquidityPool: Invalid request");
+        WithdrawalRequest storage request = trancheData.withdrawalQueue[requestId];
+        require(request.user == msg.sender, "CSVLiquidityPool: Not request owner");
+        uint256 remaining = request.shares - request.filled;
+        require(!request.cancelled && remaining > 0, "CSVLiquidityPool: Request closed");
+        
+        request.cancelled = true;
+        trancheData.queuedShares[msg.sender] -= remaining;
+        trancheData.queuedTotal -= remaining;
+        
+        emit WithdrawalCancelled(tranche, requestId, msg.sender, remaining);
+    }
+    
+    /**
+     * @dev Fill queued withdrawals with the liquidity available, first in
+     *      first out, the whole senior queue before any junior request. The
+     *      request at the head is filled partially when liquidity runs out.
+     *      Anyone may call it; `maxRequests` bounds the gas used.
+     */
+    function processWithdrawals(uint256 maxRequests) external nonReentrant returns (uint256 processed) {
+        require(block.timestamp >= impairedUntil, "CSVLiquidityPool: Withdrawals suspended during impairment");
+        uint256 liquidity = availableLiquidity();
+        
+        for (uint256 i = 0; i < 2; i++) {
+            TrancheType tranche = i == 0 ? TrancheType.SENIOR : TrancheType.JUNIOR;
+            Tranche storage trancheData = _tranches[tranche];
+            
+            while (trancheData.queueHead < trancheData.withdrawalQueue.length) {
+                if (processed == maxRequests) return processed;
+                uint256 requestId = trancheData.queueHead;
+                WithdrawalRequest storage request = trancheData.withdrawalQueue[requestId];
+                uint256 remaining = request.shares - request.filled;
+                if (request.cancelled || remaining == 0) {
+                    trancheData.queueHead++;
+                    continue;
+                }
+                
+                uint256 fillShares = remaining;
+                if ((remaining * trancheData.totalDeposits) / trancheData.totalShares > liquidity) {
+                    fillShares = (liquidity * trancheData.totalShares) / trancheData.totalDeposits;
+                    if (fillShares == 0) return processed;
+                }
+                
+                request.filled += fillShares;
+                trancheData.queuedShares[request.user] -= fillShares;
+                trancheData.queuedTotal -= fillShares;
+                uint256 value = _redeem(tranche, request.user, fillShares);
+                liquidity -= value;
+                processed++;
+                
+                emit WithdrawalFilled(tranche, requestId, request.user, fillShares, value, request.shares - request.filled);
+                
+                if (request.filled < request.shares) return processed;
+                trancheData.queueHead++;
+            }
+        }
+    }
+    
+    /**
+     * @dev Current value of a tranche's unfilled withdrawal requests
+     */
+    function _queuedValue(Tranche storage trancheData) internal view returns (uint256) {
+        if (trancheData.queuedTotal == 0) return 0;
+        return (trancheData.queuedTotal * trancheData.totalDeposits) / trancheData.totalShares;
+    }
+    
+    /**
+     * @dev Burn `shares` of `user` and pay out their value, less the early
+     *      withdrawal fee while the lockup runs. Returns the value taken out
+     *      of the tranche, fee included.
+     */
+    function _redeem(TrancheType tranche, address user, uint256 shares) internal returns (uint256) {
+        Tranche storage trancheData = _tranches[tranche];
+        _accrue(trancheData, user);
         
         // Check lockup period
-        uint256 timeSinceDeposit = block.timestamp - trancheData.depositTimestamp[msg.sender];
-        bool isEarlyWithdrawal = timeSinceDeposit < trancheData.lockupPeriod;
+        uint256 timeSinceDeposit = block.timestamp - trancheData.depositTimestamp[user];
+        bool isEarlyWithdrawal = timeSinceDeposit < trancheData.lockupPeriod && !trancheWrappers[user];
         
         // Calculate withdrawal amount
         uint256 amount = (shares * trancheData.totalDeposits) / trancheData.totalShares;
@@ -184,26 +390,36 @@ contract CSVLiquidityPool is ReentrancyGuard, AccessControl, Pausable {
             protocolFeeReserve += withdrawalFee;
         }
         
+        // Principal leaves pro rata to shares; compounded yield makes shares worth more than it
+        uint256 principal = (trancheData.userDeposits[user] * shares) / trancheData.userShares[user];
+        
         // Update state
         trancheData.totalDeposits -= (amount + withdrawalFee);
         trancheData.totalShares -= shares;
-        trancheData.userShares[msg.sender] -= shares;
-        trancheData.userDeposits[msg.sender] -= (amount + withdrawalFee);
+        trancheData.userShares[user] -= shares;
+        trancheData.userDeposits[user] -= principal;
         
         totalPoolValue -= (amount + withdrawalFee);
         
         // Transfer tokens
-        baseToken.safeTransfer(msg.sender, amount);
+        baseToken.safeTransfer(user, amount);
         
-        emit TrancheWithdrawal(tranche, msg.sender, amount, shares);
+        emit TrancheWithdrawal(tranche, user, amount, shares);
+        return amount + withdrawalFee;
     }
     
     /**
-     * @dev Distribute yield following waterfall structure
+     * @dev Distribute yield following waterfall structure. The distributor
+     *      pays `totalYield` in base tokens; it covers the epoch since the
+     *      previous distribution. Senior is due its annual rate on the value
+     *      it held over the epoch, junior takes the rest, and each tranche's
+     *      share is split pro rata to the share-seconds its holders held.
      */
     function distributeYield(uint256 totalYield) external onlyRole(YIELD_DISTRIBUTOR_ROLE) nonReentrant {
         require(totalYield > 0, "CSVLiquidityPool: No yield to distribute");
         
+        baseToken.safeTransferFrom(msg.sender, address(this), totalYield);
+        
         uint256 protocolFee = (totalYield * poolConfig.protocolFeeRate) / BASIS_POINTS;
         uint256 remainingYield = totalYield - protocolFee;
         
@@ -212,21 +428,16 @@ contract CSVLiquidityPool is ReentrancyGuard, AccessControl, Pausable {
         // Senior tranche gets priority
         Tranche storage seniorTranche = _tranches[TrancheType.SENIOR];
         Tranche storage juniorTranche = _tranches[TrancheType.JUNIOR];
+        _checkpoint(seniorTranche);
+        _checkpoint(juniorTranche);
         
-        uint256 seniorYieldDue = (seniorTranche.totalDeposits * seniorTranche.yieldRate) / BASIS_POINTS;
+        uint256 seniorYieldDue = (seniorTranche.epochValueSeconds * seniorTranche.yieldRate) /
+            (BASIS_POINTS * SECONDS_PER_YEAR);
         uint256 seniorYield = seniorYieldDue > remainingYield ? remainingYield : seniorYieldDue;
         uint256 juniorYield = remainingYield - seniorYield;
         
-        // Update tranche values
-        if (seniorYield > 0 && seniorTranche.totalShares > 0) {
-            seniorTranche.totalDeposits += seniorYield;
-            totalPoolValue += seniorYield;
-        }
-        
-        if (juniorYield > 0 && juniorTranche.totalShares > 0) {
-            juniorTranche.totalDeposits += juniorYield;
-            totalPoolValue += juniorYield;
-        }
+        _closeEpoch(seniorTranche, seniorYield);
+        _closeEpoch(juniorTranche, juniorYield);
         
         // Record distribution
         yieldHistory.push(YieldDistribution({
@@ -243,23 +454,25 @@ contract CSVLiquidityPool is ReentrancyGuard, AccessControl, Pausable {
     }
     
     /**
-     * @dev Claim accrued yield for user
+     * @dev Claim accrued yield for user, less the performance fee. Yield
+     *      accrued before a full withdrawal stays claimable.
      */
     function claimYield(TrancheType tranche) external validTranche(tranche) nonReentrant {
         Tranche storage trancheData = _tranches[tranche];
-        require(trancheData.userShares[msg.sender] > 0, "CSVLiquidityPool: No shares");
-        
-        uint256 currentValue = (trancheData.userShares[msg.sender] * trancheData.totalDeposits) / trancheData.totalShares;
-        uint256 originalDeposit = trancheData.userDeposits[msg.sender];
+        _accrue(trancheData, msg.sender);
+        Accrual storage accrual = trancheData.accruals[msg.sender];
+        require(
+            trancheData.userShares[msg.sender] > 0 || accrual.pending > 0,
+            "CSVLiquidityPool: No shares"
+        );
         
-        if (currentValue > originalDeposit) {
-            uint256 yield = currentValue - originalDeposit;
+        uint256 yield = accrual.pending;
+        if (yield > 0) {
+            accrual.pending = 0;
             uint256 performanceFee = (yield * poolConfig.performanceFeeRate) / BASIS_POINTS;
             uint256 netYield = yield - performanceFee;
             
             protocolFeeReserve += performanceFee;
-            trancheData.totalDeposits -= yield;
-            totalPoolValue -= yield;
             
             baseToken.safeTransfer(msg.sender, netYield);
             
@@ -269,13 +482,189 @@ contract CSVLiquidityPool is ReentrancyGuard, AccessControl, Pausable {
         trancheData.lastYieldClaim[msg.sender] = block.timestamp;
     }
     
+    /**
+     * @dev Reinvest accrued yield, less the performance fee, as shares of the
+     *      tranche. Compounded yield counts as position value, not deposits,
+     *      and does not restart the lockup.
+     */
+    function compoundYield(TrancheType tranche) external validTranche(tranche) nonReentrant whenNotPaused {
+        Tranche storage trancheData = _tranches[tranche];
+        _requireEligible(msg.sender);
+        _accrue(trancheData, msg.sender);
+        Accrual storage accrual = trancheData.accruals[msg.sender];
+        require(accrual.pending > 0, "CSVLiquidityPool: No yield to compound");
+        
+        uint256 yield = accrual.pending;
+        accrual.pending = 0;
+        uint256 performanceFee = (yield * poolConfig.performanceFeeRate) / BASIS_POINTS;
+        uint256 netYield = yield - performanceFee;
+        protocolFeeReserve += performanceFee;
+        
+        uint256 shares = _sharesFor(trancheData, netYield);
+        
+        trancheData.totalDeposits += netYield;
+        trancheData.totalShares += shares;
+        trancheData.userShares[msg.sender] += shares;
+        totalPoolValue += netYield;
+        trancheData.lastYieldClaim[msg.sender] = block.timestamp;
+        
+        emit YieldCompounded(tranche, msg.sender, netYield, shares);
+    }
+    
+    /**
+     * @dev Write off deployed capital that will not come back, such as a loan
+     *      whose vault auction settled under water or a carrier default. No
+     *      tokens move: the loss leaves `deployedCapital`, and junior deposits
+     *      take it first and senior only what junior cannot cover.
+     *      Withdrawals are suspended for `impairmentPeriod` so holders cannot
+     *      exit ahead of a loss still being assessed.
+     */
+    function recordLoss(uint256 amount, string calldata reason) external onlyRole(LOSS_REPORTER_ROLE) nonReentrant {
+        require(amount > 0, "CSVLiquidityPool: No loss to record");
+        
+        require(amount <= deployedCapital, "CSVLiquidityPool: Loss exceeds deployed capital");
+        
+        Tranche storage seniorTranche = _tranches[TrancheType.SENIOR];
+        Tranche storage juniorTranche = _tranches[TrancheType.JUNIOR];
+        
+        // Value held before the loss still earns the senior coupon up to now
+        _checkpoint(seniorTranche);
+        _checkpoint(juniorTranche);
+        
+        uint256 juniorLoss = amount > juniorTranche.totalDeposits ? juniorTranche.totalDeposits : amount;
+        uint256 seniorLoss = amount - juniorLoss;
+        juniorTranche.totalDeposits -= juniorLoss;
+        seniorTranche.totalDeposits -= seniorLoss;
+        totalPoolValue -= amount;
+        deployedCapital -= amount;
+        
+        lossHistory.push(LossRecord({
+            timestamp: block.timestamp,
+            totalLoss: amount,
+            juniorLoss: juniorLoss,
+            seniorLoss: seniorLoss,
+            reason: reason
+        }));
+        impairedUntil = block.timestamp + impairmentPeriod;
+        
+        if (juniorLoss > 0) {
+            emit TrancheLoss(TrancheType.JUNIOR, juniorLoss, juniorTranche.totalDeposits);
+        }
+        if (seniorLoss > 0) {
+            emit TrancheLoss(TrancheType.SENIOR, seniorLoss, seniorTranche.totalDeposits);
+        }
+        emit LossRecorded(amount, juniorLoss, seniorLoss, reason);
+    }
+    
+    function _requireEligible(address account) internal view {
+        ERCRWACSV.ComplianceData memory compliance = csvToken.getComplianceData(account);
+        require(compliance.isKYCVerified, "CSVLiquidityPool: KYC verification required");
+        require(compliance.isAccredited, "CSVLiquidityPool: Accredited investor required");
+    }
+    
+    /**
+     * @dev Shares worth `amount` at the current price. A tranche whose
+     *      deposits were written off entirely has no price until its last
+     *      shares are withdrawn.
+     */
+    function _sharesFor(Tranche storage trancheData, uint256 amount) internal view returns (uint256) {
+        if (trancheData.totalShares == 0) return amount;
+        require(trancheData.totalDeposits > 0, "CSVLiquidityPool: Tranche written off");
+        return (amount * trancheData.totalShares) / trancheData.totalDeposits;
+    }
+    
+    /**
+     * @dev Integrate shares and value over the time since the last checkpoint
+     */
+    function _checkpoint(Tranche storage trancheData) internal {
+        uint256 elapsed = block.timestamp - trancheData.lastCheckpoint;
+        if (elapsed == 0) return;
+        trancheData.epochShareSeconds += trancheData.totalShares * elapsed;
+        trancheData.epochValueSeconds += trancheData.totalDeposits * elapsed;
+        trancheData.lastCheckpoint = block.timestamp;
+    }
+    
+    /**
+     * @dev Pay `amount` to the share-seconds of the current epoch and start a
+     *      new one. Yield of an epoch nobody held shares in goes to the
+     *      protocol; an epoch that has not lasted a second yet keeps it for the
+     *      next distribution.
+     */
+    function _closeEpoch(Tranche storage trancheData, uint256 amount) internal {
+        amount += trancheData.carriedYield;
+        trancheData.carriedYield = 0;
+        
+        if (trancheData.epochShareSeconds == 0) {
+            if (block.timestamp == trancheData.epochStart && trancheData.totalShares > 0) {
+                trancheData.carriedYield = amount;
+                return;
+            }
+            protocolFeeReserve += amount;
+            amount = 0;
+        }
+        
+        uint256 yieldPerShareSecond = trancheData.epochShareSeconds == 0
+            ? 0
+            : (amount * PRECISION) / trancheData.epochShareSeconds;
+        trancheData.accYieldPerShare += yieldPerShareSecond * (block.timestamp - trancheData.epochStart);
+        trancheData.epochs.push(Epoch({
+            end: block.timestamp,
+            yieldPerShareSecond: yieldPerShareSecond,
+            accYieldPerShare: trancheData.accYieldPerShare
+        }));
+        trancheData.epochStart = block.timestamp;
+        trancheData.epochShareSeconds = 0;
+        trancheData.epochValueSeconds = 0;
+    }
+    
+    /**
+     * @dev Yield `user` has accrued in closed epochs
+     */
+    function _accrued(Tranche storage trancheData, address user) internal view returns (uint256 pending) {
+        Accrual storage accrual = trancheData.accruals[user];
+        pending = accrual.pending;
+        if (accrual.epoch == trancheData.epochs.length) return pending;
+        
+        // The rest of the epoch last settled in, then every later closed epoch in full
+        uint256 shares = trancheData.userShares[user];
+        Epoch storage settled = trancheData.epochs[accrual.epoch];
+        uint256 shareSeconds = accrual.shareSeconds + shares * (settled.end - accrual.updatedAt);
+        uint256 laterYieldPerShare = trancheData.accYieldPerShare - settled.accYieldPerShare;
+        pending += (shareSeconds * settled.yieldPerShareSecond + shares * laterYieldPerShare) / PRECISION;
+    }
+    
+    /**
+     * @dev Settle `user`'s yield up to now; call before their shares change
+     */
+    function _accrue(Tranche storage trancheData, address user) internal {
+        _checkpoint(trancheData);
+        Accrual storage accrual = trancheData.accruals[user];
+        uint256 shares = trancheData.userShares[user];
+        
+        if (accrual.epoch < trancheData.epochs.length) {
+            accrual.pending = _accrued(trancheData, user);
+            accrual.epoch = trancheData.epochs.length;
+            accrual.shareSeconds = shares * (block.timestamp - trancheData.epochStart);
+        } else {
+            accrual.shareSeconds += shares * (block.timestamp - accrual.updatedAt);
+        }
+        accrual.updatedAt = block.timestamp;
+    }
+    
     // View functions
+    /**
+     * @dev `claimableYield` is accrued in distributions so far, before the
+     *      performance fee; `compoundedYield` is how much of `currentValue`
+     *      is yield reinvested with `compoundYield`
+     */
     function getUserPosition(TrancheType tranche, address user) external view returns (
         uint256 shares,
         uint256 deposits,
         uint256 currentValue,
         uint256 depositTimestamp,
-        uint256 lockupExpiry
+        uint256 lockupExpiry,
+        uint256 claimableYield,
+        uint256 compoundedYield
     ) {
         Tranche storage trancheData = _tranches[tranche];
         shares = trancheData.userShares[user];
@@ -287,6 +676,8 @@ contract CSVLiquidityPool is ReentrancyGuard, AccessControl, Pausable {
         
         depositTimestamp = trancheData.depositTimestamp[user];
         lockupExpiry = depositTimestamp + trancheData.lockupPeriod;
+        claimableYield = _accrued(trancheData, user);
+        compoundedYield = currentValue > deposits ? currentValue - deposits : 0;
     }
     
     function getTrancheInfo(TrancheType tranche) external view returns (
@@ -310,10 +701,45 @@ contract CSVLiquidityPool is ReentrancyGuard, AccessControl, Pausable {
         );
     }
     
+    /**
+     * @dev Pool value that can be paid out while keeping `deployedCapital`
+     *      within `maxUtilization` of what remains
+     */
+    function availableLiquidity() public view returns (uint256) {
+        if (deployedCapital == 0) return totalPoolValue;
+        if (poolConfig.maxUtilization == 0) return 0;
+        uint256 requiredValue = Math.ceilDiv(deployedCapital * BASIS_POINTS, poolConfig.maxUtilization);
+        return totalPoolValue > requiredValue ? totalPoolValue - requiredValue : 0;
+    }
+    
+    function getWithdrawalRequest(
+        TrancheType tranche,
+        uint256 requestId
+    ) external view returns (WithdrawalRequest memory) {
+        require(requestId < _tranches[tranche].withdrawalQueue.length, "CSVLiquidityPool: Invalid request");
+        return _tranches[tranche].withdrawalQueue[requestId];
+    }
+    
+    /**
+     * @dev Requests from `head` up to `length` may still be open; `queuedShares`
+     *      is their unfilled total
+     */
+    function getWithdrawalQueue(TrancheType tranche) external view returns (
+        uint256 head,
+        uint256 length,
+        uint256 queuedShares
+    ) {
+        Tranche storage trancheData = _tranches[tranche];
+        return (trancheData.queueHead, trancheData.withdrawalQueue.length, trancheData.queuedTotal);
+    }
+    
+    function getQueuedShares(TrancheType tranche, address user) external view returns (uint256) {
+        return _tranches[tranche].queuedShares[user];
+    }
+    
     function getPoolUtilization() external view returns (uint256) {
         if (totalPoolValue == 0) return 0;
-        uint256 utilizedValue = csvToken.totalCSVValue();
-        return (utilizedValue * BASIS_POINTS) / totalPoolValue;
+        return (deployedCapital * BASIS_POINTS) / totalPoolValue;
     }
     
     function getYieldHistory(uint256 index) external view returns (YieldDistribution memory) {
@@ -325,6 +751,26 @@ contract CSVLiquidityPool is ReentrancyGuard, AccessControl, Pausable {
         return yieldHistory.length;
     }
     
+    function getLossHistory(uint256 index) external view returns (LossRecord memory) {
+        require(index < lossHistory.length, "CSVLiquidityPool: Invalid index");
+        return lossHistory[index];
+    }
+    
+    function getLossHistoryLength() external view returns (uint256) {
+        return lossHistory.length;
+    }
+    
+    /**
+     * @dev Junior deposits as a share of the pool's capital, in basis points:
+     *      how much of the pool can be lost before senior takes a loss
+     */
+    function getSubordination() external view returns (uint256) {
+        uint256 juniorDeposits = _tranches[TrancheType.JUNIOR].totalDeposits;
+        uint256 capital = _tranches[TrancheType.SENIOR].totalDeposits + juniorDeposits;
+        if (capital == 0) return 0;
+        return (juniorDeposits * BASIS_POINTS) / capital;
+    }
+    
     // Admin functions
     function configureTrancheData(
         TrancheType tranche,
@@ -349,6 +795,56 @@ contract CSVLiquidityPool is ReentrancyGuard, AccessControl, Pausable {
         poolConfig = newConfig;
     }
     
+    function setImpairmentPeriod(uint256 newPeriod) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(newPeriod <= 90 days, "CSVLiquidityPool: Invalid impairment period");
+        emit ImpairmentPeriodUpdated(impairmentPeriod, newPeriod);
+        impairmentPeriod = newPeriod;
+    }
+    
+    /**
+     * @dev Exempt `wrapper` from the minimum deposit and the early withdrawal
+     *      fee, which it charges its own holders instead
+     */
+    function setTrancheWrapper(address wrapper, bool enabled) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(wrapper != address(0), "CSVLiquidityPool: Invalid wrapper");
+        trancheWrappers[wrapper] = enabled;
+        emit TrancheWrapperUpdated(wrapper, enabled);
+    }
+    
+    /**
+     * @dev Lend `amount` of the pool's capital out to `to`, such as a vault
+     *      operator funding loans against CSV collateral. Deployed capital
+     *      stays part of `totalPoolValue` but cannot be withdrawn until it
+     *      comes back through `returnCapital`.
+     */
+    function deployCapital(address to, uint256 amount) external onlyRole(POOL_MANAGER_ROLE) nonReentrant whenNotPaused {
+        require(to != address(0), "CSVLiquidityPool: Invalid recipient");
+        require(amount > 0, "CSVLiquidityPool: Invalid amount");
+        require(
+            (deployedCapital + amount) * BASIS_POINTS <= totalPoolValue * poolConfig.maxUtilization,
+            "CSVLiquidityPool: Exceeds max utilization"
+        );
+        
+        deployedCapital += amount;
+        baseToken.safeTransfer(to, amount);
+        
+        emit CapitalDeployed(to, amount, deployedCapital);
+    }
+    
+    /**
+     * @dev Repay deployed capital into the pool. Interest earned on it comes
+     *      in through `distributeYield` instead.
+     */
+    function returnCapital(uint256 amount) external onlyRole(POOL_MANAGER_ROLE) nonReentrant {
+        require(amount > 0, "CSVLiquidityPool: Invalid amount");
+        require(amount <= deployedCapital, "CSVLiquidityPool: Exceeds deployed capital");
+        
+        deployedCapital -= amount;
+        baseToken.safeTransferFrom(msg.sender, address(this), amount);
+        
+        emit CapitalReturned(msg.sender, amount, deployedCapital);
+    }
+    
     function withdrawProtocolFees(address to, uint256 amount) external onlyRole(DEFAULT_ADMIN_ROLE) {
         require(amount <= protocolFeeReserve, "CSVLiquidityPool: Insufficient reserves");
         protocolFeeReserve -= amount;
@@ -0,0 +1,292 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "./CSVLiquidityPool.sol";
+
+/**
+ * @title CSVTrancheVault
+ * @dev ERC-4626 wrapper around one tranche of a CSVLiquidityPool
+ * @notice Shares are a transferable claim on the wrapper's tranche position.
+ * Minting and transfers are gated by the ComplianceRegistry behind the pool's
+ * CSV token. As in the pool, each deposit restarts the receiver's tranche
+ * lockup, and shares received by transfer keep the later of the two lockups;
+ * redeeming before it ends costs the pool's early withdrawal fee, which stays
+ * in the wrapper for the remaining holders.
+ * The pool must register the wrapper with `setTrancheWrapper`, and the wrapper
+ * itself must be KYC verified and accredited to deposit.
+ */
+contract CSVTrancheVault is ERC4626 {
+    using Math for uint256;
+    using SafeERC20 for IERC20;
+    
+    CSVLiquidityPool public immutable pool;
+    CSVLiquidityPool.TrancheType public immutable tranche;
+    
+    // Time of each holder's latest deposit, or of the latest one behind shares they received; the lockup runs from it
+    mapping(address => uint256) public depositTimestamp;
+    
+    uint256 public constant BASIS_POINTS = 10000;
+    
+    event Harvested(uint256 yield, uint256 redeployed);
+    
+    constructor(
+        CSVLiquidityPool _pool,
+        CSVLiquidityPool.TrancheType _tranche,
+        string memory name,
+        string memory symbol
+    ) ERC20(name, symbol) ERC4626(_pool.baseToken()) {
+        pool = _pool;
+        tranche = _tranche;
+    }
+    
+    /**
+     * @dev Idle base tokens, the tranche position and its claimable yield net
+     *      of the performance fee
+     */
+    function totalAssets() public view override returns (uint256) {
+        (, , uint256 currentValue, , , uint256 claimableYield, ) = pool.getUserPosition(tranche, address(this));
+        return IERC20(asset()).balanceOf(address(this)) + currentValue + _netYield(claimableYield);
+    }
+    
+    /**
+     * @dev Zero unless `receiver` is compliant and the tranche takes deposits
+     */
+    function maxDeposit(address receiver) public view override returns (uint256) {
+        (uint256 totalDeposits, uint256 totalShares, , , , , bool isActive) = pool.getTrancheInfo(tranche);
+        if (pool.paused() || !isActive || !registry().isCompliant(receiver)) return 0;
+        // A written-off tranche takes no new money until its last shares are gone
+        if (totalShares > 0 && totalDeposits == 0) return 0;
+        return type(uint256).max;
+    }
+    
+    function maxMint(address receiver) public view override returns (uint256) {
+        return maxDeposit(receiver) == 0 ? 0 : type(uint256).max;
+    }
+    
+    /**
+     * @dev What `owner` would receive for all their shares, less the early
+     *      withdrawal fee, capped at what the wrapper can pay out now
+     */
+    function maxWithdraw(address owner) public view override returns (uint256) {
+        return Math.min(_previewRedeem(balanceOf(owner), withdrawalFeeRate(owner)), _liquidAssets());
+    }
+    
+    function maxRedeem(address owner) public view override returns (uint256) {
+        uint256 shares = balanceOf(owner);
+        uint256 liquid = _liquidAssets();
+        if (_previewRedeem(shares, withdrawalFeeRate(owner)) <= liquid) return shares;
+        
+        uint256 gross = liquid.mulDiv(BASIS_POINTS, BASIS_POINTS - withdrawalFeeRate(owner));
+        return _convertToShares(gross, Math.Rounding.Floor);
+    }
+    
+    /**
+     * @dev Shares burned to withdraw `assets`, early withdrawal fee included
+     *      whenever the tranche has a lockup. The fee depends on the owner,
+     *      which the preview does not know, so it never understates the
+     *      shares; owners past their lockup burn fewer.
+     */
+    function previewWithdraw(uint256 assets) public view override returns (uint256) {
+        return _previewWithdraw(assets, _previewFeeRate());
+    }
+    
+    /**
+     * @dev Assets paid for `shares`, less the early withdrawal fee whenever the
+     *      tranche has a lockup; owners past their lockup receive more
+     */
+    function previewRedeem(uint256 shares) public view override returns (uint256) {
+        return _previewRedeem(shares, _previewFeeRate());
+    }
+    
+    /**
+     * @dev Same as ERC-4626 `withdraw`, with the fee set by the owner's lockup
+     */
+    function withdraw(uint256 assets, address receiver, address owner) public override returns (uint256) {
+        uint256 maxAssets = maxWithdraw(owner);
+        if (assets > maxAssets) {
+            revert ERC4626ExceededMaxWithdraw(owner, assets, maxAssets);
+        }
+        
+        uint256 shares = _previewWithdraw(assets, withdrawalFeeRate(owner));
+        _withdraw(_msgSender(), receiver, owner, assets, shares);
+        return shares;
+    }
+    
+    /**
+     * @dev Same as ERC-4626 `redeem`, with the fee set by the owner's lockup
+     */
+    function redeem(uint256 shares, address receiver, address owner) public override returns (uint256) {
+        uint256 maxShares = maxRedeem(owner);
+        if (shares > maxShares) {
+            revert ERC4626ExceededMaxRedeem(owner, shares, maxShares);
+        }
+        
+        uint256 assets = _previewRedeem(shares, withdrawalFeeRate(owner));
+        _withdraw(_msgSender(), receiver, owner, assets, shares);
+        return assets;
+    }
+    
+    /**
+     * @dev Reinvest claimable yield and idle base tokens, retained fees
+     *      included, in the tranche. Anyone may call it.
+     */
+    function harvest() external {
+        (, , , , , uint256 claimableYield, ) = pool.getUserPosition(tranche, address(this));
+        if (claimableYield > 0) {
+            pool.compoundYield(tranche);
+        }
+        
+        uint256 idle = IERC20(asset()).balanceOf(address(this));
+        if (idle > 0) {
+            IERC20(asset()).forceApprove(address(pool), idle);
+            pool.deposit(tranche, idle);
+        }
+        
+        emit Harvested(claimableYield, idle);
+    }
+    
+    function registry() public view returns (ComplianceRegistry) {
+        return ComplianceRegistry(pool.csvToken().complianceRegistry());
+    }
+    
+    function lockupExpiry(address holder) public view returns (uint256) {
+        (, , , , , uint256 lockupPeriod, ) = pool.getTrancheInfo(tranche);
+        return depositTimestamp[holder] + lockupPeriod;
+    }
+    
+    /**
+     * @dev Early withdrawal fee `holder` pays on redemptions now, in basis points
+     */
+    function withdrawalFeeRate(address holder) public view returns (uint256) {
+        if (block.timestamp >= lockupExpiry(holder)) return 0;
+        (, , , , uint256 feeRate, ) = pool.poolConfig();
+        return feeRate;
+    }
+    
+    /**
+     * @dev Highest fee any holder can pay now: the pool's early withdrawal fee
+     *      unless the tranche has no lockup
+     */
+    function _previewFeeRate() internal view returns (uint256) {
+        (, , , , , uint256 lockupPeriod, ) = pool.getTrancheInfo(tranche);
+        if (lockupPeriod == 0) return 0;
+        (, , , , uint256 feeRate, ) = pool.poolConfig();
+        return feeRate;
+    }
+    
+    function _previewRedeem(uint256 shares, uint256 feeRate) internal view returns (uint256) {
+        uint256 assets = _convertToAssets(shares, Math.Rounding.Floor);
+        return assets - assets.mulDiv(feeRate, BASIS_POINTS, Math.Rounding.Ceil);
+    }
+    
+    function _previewWithdraw(uint256 assets, uint256 feeRate) internal view returns (uint256) {
+        // A 100% fee leaves nothing to withdraw
+        if (feeRate >= BASIS_POINTS) return assets == 0 ? 0 : type(uint256).max;
+        uint256 gross = assets.mulDiv(BASIS_POINTS, BASIS_POINTS - feeRate, Math.Rounding.Ceil);
+        return _convertToShares(gross, Math.Rounding.Ceil);
+    }
+    
+    /**
+     * @dev Assets the wrapper can pay out now: idle base tokens, claimable
+     *      yield and as much of its position as the pool lets it withdraw
+     */
+    function _liquidAssets() internal view returns (uint256) {
+        (uint256 poolShares, , , , , uint256 claimableYield, ) = pool.getUserPosition(tranche, address(this));
+        uint256 liquid = IERC20(asset()).balanceOf(address(this)) + _netYield(claimableYield);
+        
+        (uint256 totalDeposits, uint256 totalShares, , , , , bool isActive) = pool.getTrancheInfo(tranche);
+        if (poolShares == 0 || totalDeposits == 0 || !isActive || block.timestamp < pool.impairedUntil()) {
+            return liquid;
+        }
+        
+        // The pool pays the senior queue, and for junior also the junior queue, first
+        uint256 liquidity = pool.availableLiquidity();
+        uint256 valueAhead = _queuedValue(CSVLiquidityPool.TrancheType.SENIOR);
+        if (tranche == CSVLiquidityPool.TrancheType.JUNIOR) valueAhead += _queuedValue(tranche);
+        if (valueAhead >= liquidity) return liquid;
+        
+        // Whole pool shares whose value fits in the liquidity left
+        uint256 withdrawable = Math.min(poolShares, (liquidity - valueAhead).mulDiv(totalShares, totalDeposits));
+        return liquid + withdrawable.mulDiv(totalDeposits, totalShares);
+    }
+    
+    /**
+     * @dev Current value of a tranche's queued withdrawals, rounded as the pool does
+     */
+    function _queuedValue(CSVLiquidityPool.TrancheType queueTranche) internal view returns (uint256) {
+        (, , uint256 queuedShares) = pool.getWithdrawalQueue(queueTranche);
+        if (queuedShares == 0) return 0;
+        (uint256 totalDeposits, uint256 totalShares, , , , , ) = pool.getTrancheInfo(queueTranche);
+        return queuedShares.mulDiv(totalDeposits, totalShares);
+    }
+    
+    function _netYield(uint256 yield) internal view returns (uint256) {
+        (, , , uint256 performanceFeeRate, , ) = pool.poolConfig();
+        return yield - (yield * performanceFeeRate) / BASIS_POINTS;
+    }
+    
+    function _deposit(address caller, address receiver, uint256 assets, uint256 shares) internal override {
+        super._deposit(caller, receiver, assets, shares);
+        
+        if (assets > 0) {
+            IERC20(asset()).forceApprove(address(pool), assets);
+            pool.deposit(tranche, assets);
+        }
+    }
+    
+    /**
+     * @dev Pay `assets` from idle base tokens first, then claimed yield, then
+     *      pool shares; what is left over stays idle until `harvest`
+     */
+    function _withdraw(
+        address caller,
+        address receiver,
+        address owner,
+        uint256 assets,
+        uint256 shares
+    ) internal override {
+        IERC20 baseToken = IERC20(asset());
+        uint256 idle = baseToken.balanceOf(address(this));
+        
+        if (idle < assets) {
+            (, , , , , uint256 claimableYield, ) = pool.getUserPosition(tranche, address(this));
+            if (claimableYield > 0) {
+                pool.claimYield(tranche);
+                idle = baseToken.balanceOf(address(this));
+            }
+        }
+        if (idle < assets) {
+            (uint256 totalDeposits, uint256 totalShares, , , , , ) = pool.getTrancheInfo(tranche);
+            pool.withdraw(tranche, (assets - idle).mulDiv(totalShares, totalDeposits, Math.Rounding.Ceil));
+        }
+        
+        super._withdraw(caller, receiver, owner, assets, shares);
+    }
+    
+    /**
+     * @dev Mints need a compliant receiver and transfers the registry's
+     *      approval; burns are always allowed. A mint restarts the
+     *      receiver's lockup; transferred shares bring the sender's deposit
+     *      time if it is later, so new money never inherits an old lockup.
+     */
+    function _update(address from, address to, uint256 value) internal override {
+        if (from == address(0)) {
+            require(registry().isCompliant(to), "CSVTrancheVault: Receiver not compliant");
+        } else if (to != address(0)) {
+            (bool allowed, string memory reason) = registry().isTransferAllowed(from, to);
+            require(allowed, string.concat("CSVTrancheVault: ", reason));
+        }
+        
+        if (to != address(0) && value > 0) {
+            uint256 incomingTimestamp = from == address(0) ? block.timestamp : depositTimestamp[from];
+            if (balanceOf(to) == 0 || incomingTimestamp > depositTimestamp[to]) {
+                depositTimestamp[to] = incomingTimestamp;
+            }
+        }
+        
+        super._update(from, to, value);
+    }
+}
@@ -7,6 +7,7 @@ import "@openzeppelin/contracts/utils/Pausable.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "./ERCRWACSV.sol";
+import "../compliance/ComplianceRegistry.sol";
 
 /**
  * @title CSVVault
@@ -41,6 +42,34 @@ contract CSVVault is ReentrancyGuard, AccessControl, Pausable {
         bool isEnabled;
     }
     
+    // Dutch auction of a liquidated vault's policy
+    struct Auction {
+        uint256 vaultId;
+        uint256 tokenId;
+        address owner; // Vault owner, receives any surplus
+        address liquidator; // Started the auction, receives the liquidator share
+        uint256 debt; // Repaid first out of the winning bid
+        uint256 penalty; // Liquidation penalty, split between liquidator and protocol
+        uint256 startPrice;
+        uint256 floorPrice;
+        uint256 startTime;
+        uint256 endTime;
+        bool isActive;
+        // `auctionConfig` when the auction started, used for its bids and restarts
+        uint256 startPriceBps;
+        uint256 floorPriceBps;
+        uint256 duration;
+        uint256 liquidatorShareBps;
+    }
+    
+    // Auction parameters, snapshotted into each auction when it starts
+    struct AuctionConfig {
+        uint256 startPriceBps; // Opening price as a share of collateral value (basis points)
+        uint256 floorPriceBps; // Price reached at the end of the auction (basis points)
+        uint256 duration; // Seconds for the price to fall from start to floor
+        uint256 liquidatorShareBps; // Liquidator's share of the penalty (basis points)
+    }
+    
     // Storage
     mapping(uint256 => VaultPosition) public vaultPositions;
     mapping(address => uint256[]) public userVaults;
@@ -53,9 +82,33 @@ contract CSVVault is ReentrancyGuard, AccessControl, Pausable {
     uint256 public liquidationReserve;
     uint256 private _nextVaultId = 1;
     
+    // Carrier concentration: outstanding debt against each carrier's policies,
+    // keyed by keccak256 of CSVMetadata.carrierName
+    mapping(bytes32 => uint256) public carrierExposure;
+    mapping(uint256 => bytes32) public vaultCarrier;
+    bytes32[] private _carriers;
+    mapping(bytes32 => bool) private _knownCarrier;
+    
+    uint256 public maxCarrierBps = BASIS_POINTS; // Max share of total debt per carrier
+    uint256 public carrierCapFloor; // Caps apply once total debt reaches this amount
+    uint256 public minPolicyVintage; // Minimum policy age (seconds) to mint against
+    
+    // Valuation staleness: minting and closing need a collateral valuation younger than maxValuationAge
+    mapping(uint256 => uint256) public collateralValuedAt; // vaultId => timestamp of its collateral valuation
+    uint256 public maxValuationAge = 90 days;
+    
+    // Liquidation auctions
+    AuctionConfig public auctionConfig;
+    mapping(uint256 => Auction) public auctions;
+    mapping(uint256 => uint256) public vaultAuction; // vaultId => auctionId
+    mapping(address => uint256) public proceeds; // CSV tokens owed to liquidators and vault owners
+    uint256 public badDebt; // Debt left unpaid by auctions that settled below it
+    uint256 private _nextAuctionId = 1;
+    
     // Constants
     uint256 public constant BASIS_POINTS = 10000;
     uint256 public constant SECONDS_PER_YEAR = 365 days;
+    uint256 public constant SECONDS_PER_MONTH = 30 days; // CSVMetadata.policyAge is in months
     
     // Events
     event VaultOpened(uint256 indexed vaultId, address indexed owner, uint256 collateralValue);
@@ -67,6 +120,25 @@ contract CSVVault is ReentrancyGuard, AccessControl, Pausable {
     event VaultLiquidated(uint256 indexed vaultId, address indexed liquidator, uint256 penalty);
     event CollateralValuationUpdated(uint256 indexed vaultId, uint256 oldValue, uint256 newValue);
     event StabilityFeeAccrued(uint256 indexed vaultId, uint256 feeAmount);
+    event CarrierExposureUpdated(bytes32 indexed carrier, uint256 exposure);
+    event MaxCarrierBpsUpdated(uint256 oldBps, uint256 newBps);
+    event CarrierCapFloorUpdated(uint256 oldFloor, uint256 newFloor);
+    event MinPolicyVintageUpdated(uint256 oldVintage, uint256 newVintage);
+    event MaxValuationAgeUpdated(uint256 oldAge, uint256 newAge);
+    event AuctionStarted(uint256 indexed auctionId, uint256 indexed vaultId, uint256 tokenId, uint256 debt, uint256 penalty, uint256 startPrice);
+    event AuctionRestarted(uint256 indexed auctionId, uint256 startPrice, uint256 endTime);
+    event AuctionSettled(
+        uint256 indexed auctionId,
+        address indexed bidder,
+        uint256 price,
+        uint256 debtRepaid,
+        uint256 liquidatorShare,
+        uint256 protocolShare,
+        uint256 surplus
+    );
+    event BadDebtRecorded(uint256 indexed auctionId, uint256 amount);
+    event ProceedsWithdrawn(address indexed account, uint256 amount);
+    event AuctionConfigUpdated(uint256 startPriceBps, uint256 floorPriceBps, uint256 duration, uint256 liquidatorShareBps);
     
     // Modifiers
     modifier vaultExists(uint256 vaultId) {
@@ -79,6 +151,11 @@ contract CSVVault is ReentrancyGuard, AccessControl, Pausable {
         _;
     }
     
+    modifier valuationFresh(uint256 vaultId) {
+        require(!isValuationStale(vaultId), "CSVVault: Valuation stale");
+        _;
+    }
+    
     constructor(
         address _csvToken,
         VaultConfig memory _config
@@ -87,6 +164,12 @@ contract CSVVault is ReentrancyGuard, AccessControl, Pausable {
         
         csvToken = ERCRWACSV(_csvToken);
         vaultConfig = _config;
+        auctionConfig = AuctionConfig({
+            startPriceBps: 12000,
+            floorPriceBps: 5000,
+            duration: 6 hours,
+            liquidatorShareBps: 5000
+        });
         
         _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
         _grantRole(VAULT_MANAGER_ROLE, msg.sender);
@@ -108,8 +191,10 @@ contract CSVVault is ReentrancyGuard, AccessControl, Pausable {
         ERCRWACSV.CSVMetadata memory metadata = csvToken.getCSVMetadata(tokenId);
         require(metadata.isActive, "CSVVault: CSV token not active");
         require(metadata.cashValue == collateralValue, "CSVVault: Collateral mismatch");
+        require(block.timestamp <= metadata.lastValuationTimestamp + maxValuationAge, "CSVVault: Valuation stale");
         
         vaultId = _nextVaultId++;
+        collateralValuedAt[vaultId] = metadata.lastValuationTimestamp;
         
         VaultPosition storage position = vaultPositions[vaultId];
         position.tokenId = tokenId;
@@ -120,6 +205,13 @@ contract CSVVault is ReentrancyGuard, AccessControl, Pausable {
         position.owner = msg.sender;
         position.isActive = true;
         
+        bytes32 carrier = carrierKey(metadata.carrierName);
+        vaultCarrier[vaultId] = carrier;
+        if (!_knownCarrier[carrier]) {
+            _knownCarrier[carrier] = true;
+            _carriers.push(carrier);
+        }
+        
         userVaults[msg.sender].push(vaultId);
         totalCollateralValue += collateralValue;
         
@@ -134,7 +226,7 @@ contract CSVVault is ReentrancyGuard, AccessControl, Pausable {
     function mintTokens(
         uint256 vaultId,
         uint256 amount
-    ) external vaultExists(vaultId) onlyVaultOwner(vaultId) nonReentrant {
+    ) external vaultExists(vaultId) onlyVaultOwner(vaultId) valuationFresh(vaultId) nonReentrant {
         VaultPosition storage position = vaultPositions[vaultId];
         _accrueStabilityFee(vaultId);
         
@@ -143,15 +235,19 @@ contract CSVVault is ReentrancyGuard, AccessControl, Pausable {
         
         require(currentLTV <= vaultConfig.maxLTV, "CSVVault: Exceeds maximum LTV");
         
+        ERCRWACSV.CSVMetadata memory metadata = csvToken.getCSVMetadata(position.tokenId);
+        bytes32 carrier = vaultCarrier[vaultId];
+        _enforceVintage(_policyIssueTimestamp(metadata));
+        if (totalDebt + amount >= carrierCapFloor) {
+            _preMintChecks(carrier, _carrierShareIncreaseBps(carrier, amount));
+        }
+        
         position.debtAmount = newDebt;
         totalDebt += amount;
+        _increaseCarrierExposure(carrier, amount);
         
         // Mint tokens to user
-        csvToken.mintCSVToken(
-            msg.sender,
-            amount,
-            csvToken.getCSVMetadata(position.tokenId)
-        );
+        csvToken.mintCSVToken(msg.sender, amount, metadata);
         
         emit TokensMinted(vaultId, amount);
     }
@@ -170,17 +266,18 @@ contract CSVVault is ReentrancyGuard, AccessControl, Pausable {
         
         position.debtAmount -= amount;
         totalDebt -= amount;
+        _decreaseCarrierExposure(vaultCarrier[vaultId], amount);
         
         // Burn tokens from user
-        csvToken.burnCSVToken(msg.sender, amount, position.tokenId);
+        csvToken.burnDebt(msg.sender, amount);
         
         emit TokensBurned(vaultId, amount);
     }
     
     /**
-     * @dev Close vault and withdraw collateral
+     * @dev Close vault and withdraw collateral; the valuation it is released at must be fresh
      */
-    function closeVault(uint256 vaultId) external vaultExists(vaultId) onlyVaultOwner(vaultId) nonReentrant {
+    function closeVault(uint256 vaultId) external vaultExists(vaultId) onlyVaultOwner(vaultId) valuationFresh(vaultId) nonReentrant {
         VaultPosition storage position = vaultPositions[vaultId];
         require(position.debtAmount == 0, "CSVVault: Outstanding debt exists");
         
@@ -206,15 +303,17 @@ contract CSVVault is ReentrancyGuard, AccessControl, Pausable {
         
         position.collateralValue = newValue;
         position.liquidationThreshold = (newValue * vaultConfig.maxLTV) / BASIS_POINTS;
+        collateralValuedAt[vaultId] = block.timestamp;
         totalCollateralValue = totalCollateralValue - oldValue + newValue;
         
         emit CollateralValuationUpdated(vaultId, oldValue, newValue);
     }
     
     /**
-     * @dev Liquidate undercollateralized vault
+     * @dev Liquidate undercollateralized vault: seize its policy and auction it
+     *      off to cover the debt and the liquidation penalty
      */
-    function liquidateVault(uint256 vaultId) external vaultExists(vaultId) onlyRole(LIQUIDATOR_ROLE) nonReentrant {
+    function liquidateVault(uint256 vaultId) external vaultExists(vaultId) onlyRole(LIQUIDATOR_ROLE) nonReentrant returns (uint256 auctionId) {
         VaultPosition storage position = vaultPositions[vaultId];
         _accrueStabilityFee(vaultId);
         
@@ -222,25 +321,107 @@ contract CSVVault is ReentrancyGuard, AccessControl, Pausable {
         require(currentLTV > vaultConfig.maxLTV, "CSVVault: Vault not liquidatable");
         
         uint256 liquidationPenalty = (position.collateralValue * vaultConfig.liquidationPenalty) / BASIS_POINTS;
-        uint256 liquidatorReward = liquidationPenalty / 2;
-        uint256 protocolFee = liquidationPenalty - liquidatorReward;
         
-        // Update state
+        // The debt moves from the vault to the auction
         totalDebt -= position.debtAmount;
+        _decreaseCarrierExposure(vaultCarrier[vaultId], position.debtAmount);
         totalCollateralValue -= position.collateralValue;
-        liquidationReserve += protocolFee;
         
         position.isActive = false;
         
         // Remove from user vaults
         _removeUserVault(position.owner, vaultId);
         
-        // Distribute rewards
-        if (liquidatorReward > 0) {
-            // Transfer liquidator reward (implementation would depend on reward token)
-        }
+        auctionId = _nextAuctionId++;
+        Auction storage auction = auctions[auctionId];
+        auction.vaultId = vaultId;
+        auction.tokenId = position.tokenId;
+        auction.owner = position.owner;
+        auction.liquidator = msg.sender;
+        auction.debt = position.debtAmount;
+        auction.penalty = liquidationPenalty;
+        auction.isActive = true;
+        auction.startPriceBps = auctionConfig.startPriceBps;
+        auction.floorPriceBps = auctionConfig.floorPriceBps;
+        auction.duration = auctionConfig.duration;
+        auction.liquidatorShareBps = auctionConfig.liquidatorShareBps;
+        _scheduleAuction(auction, position.collateralValue);
+        vaultAuction[vaultId] = auctionId;
+        
+        csvToken.transferCSVToken(position.tokenId, address(this));
         
         emit VaultLiquidated(vaultId, msg.sender, liquidationPenalty);
+        emit AuctionStarted(auctionId, vaultId, position.tokenId, auction.debt, liquidationPenalty, auction.startPrice);
+    }
+    
+    /**
+     * @dev Buy an auctioned policy at the current price, paid in CSV tokens.
+     *      Proceeds repay the debt, then the liquidator and protocol shares of
+     *      the penalty; the rest is owed to the vault owner. A price below the
+     *      debt repays it partially and the remainder is recorded as bad debt.
+     */
+    function bid(uint256 auctionId, uint256 maxPrice) external nonReentrant whenNotPaused {
+        Auction storage auction = auctions[auctionId];
+        require(auction.isActive, "CSVVault: Auction not active");
+        require(block.timestamp < auction.endTime, "CSVVault: Auction expired");
+        require(isEligibleBidder(msg.sender), "CSVVault: Bidder not compliant");
+        
+        uint256 price = getAuctionPrice(auctionId);
+        require(price <= maxPrice, "CSVVault: Price above limit");
+        
+        auction.isActive = false;
+        
+        uint256 remaining = price;
+        uint256 debtRepaid = _min(remaining, auction.debt);
+        remaining -= debtRepaid;
+        uint256 liquidatorShare = _min(remaining, (auction.penalty * auction.liquidatorShareBps) / BASIS_POINTS);
+        remaining -= liquidatorShare;
+        uint256 protocolShare = _min(remaining, auction.penalty - liquidatorShare);
+        uint256 surplus = remaining - protocolShare;
+        
+        proceeds[auction.liquidator] += liquidatorShare;
+        proceeds[auction.owner] += surplus;
+        liquidationReserve += protocolShare;
+        
+        IERC20(address(csvToken)).safeTransferFrom(msg.sender, address(this), price);
+        if (debtRepaid > 0) {
+            csvToken.burnDebt(address(this), debtRepaid);
+        }
+        csvToken.transferCSVToken(auction.tokenId, msg.sender);
+        
+        emit AuctionSettled(auctionId, msg.sender, price, debtRepaid, liquidatorShare, protocolShare, surplus);
+        
+        if (debtRepaid < auction.debt) {
+            badDebt += auction.debt - debtRepaid;
+            emit BadDebtRecorded(auctionId, auction.debt - debtRepaid);
+        }
+    }
+    
+    /**
+     * @dev Run an auction that expired without bids again from the start
+     *      price, on the terms it started with
+     */
+    function restartAuction(uint256 auctionId) external onlyRole(LIQUIDATOR_ROLE) {
+        Auction storage auction = auctions[auctionId];
+        require(auction.isActive, "CSVVault: Auction not active");
+        require(block.timestamp >= auction.endTime, "CSVVault: Auction not expired");
+        
+        _scheduleAuction(auction, vaultPositions[auction.vaultId].collateralValue);
+        
+        emit AuctionRestarted(auctionId, auction.startPrice, auction.endTime);
+    }
+    
+    /**
+     * @dev Withdraw CSV tokens owed from settled auctions
+     */
+    function withdrawProceeds() external nonReentrant {
+        uint256 amount = proceeds[msg.sender];
+        require(amount > 0, "CSVVault: No proceeds");
+        
+        proceeds[msg.sender] = 0;
+        IERC20(address(csvToken)).safeTransfer(msg.sender, amount);
+        
+        emit ProceedsWithdrawn(msg.sender, amount);
     }
     
     /**
@@ -264,12 +445,74 @@ contract CSVVault is ReentrancyGuard, AccessControl, Pausable {
         if (feeAmount > 0) {
             position.debtAmount += feeAmount;
             totalDebt += feeAmount;
+            _increaseCarrierExposure(vaultCarrier[vaultId], feeAmount);
             position.lastUpdateTimestamp = block.timestamp;
             
             emit StabilityFeeAccrued(vaultId, feeAmount);
         }
     }
     
+    /**
+     * @dev Require the policy to be at least minPolicyVintage old
+     */
+    function _enforceVintage(uint64 issueTimestamp) internal view {
+        require(issueTimestamp <= block.timestamp, "CSVVault: Invalid policy issue date");
+        require(block.timestamp - issueTimestamp >= minPolicyVintage, "CSVVault: Policy vintage too recent");
+    }
+    
+    /**
+     * @dev Require the carrier's share of total debt to stay within maxCarrierBps
+     *      after growing by addBps
+     */
+    function _preMintChecks(bytes32 carrier, uint256 addBps) internal view {
+        require(
+            getCarrierShareBps(carrier) + addBps <= maxCarrierBps,
+            "CSVVault: Carrier concentration cap exceeded"
+        );
+    }
+    
+    /**
+     * @dev Growth of the carrier's share of total debt if amount is minted against it
+     */
+    function _carrierShareIncreaseBps(bytes32 carrier, uint256 amount) internal view returns (uint256) {
+        uint256 newShare = ((carrierExposure[carrier] + amount) * BASIS_POINTS) / (totalDebt + amount);
+        uint256 currentShare = getCarrierShareBps(carrier);
+        return newShare > currentShare ? newShare - currentShare : 0;
+    }
+    
+    /**
+     * @dev Policy issue date, derived from its age in months at the last valuation
+     */
+    function _policyIssueTimestamp(ERCRWACSV.CSVMetadata memory metadata) internal view returns (uint64) {
+        uint256 valuedAt = metadata.lastValuationTimestamp == 0 ? block.timestamp : metadata.lastValuationTimestamp;
+        uint256 age = metadata.policyAge * SECONDS_PER_MONTH;
+        return age >= valuedAt ? 0 : uint64(valuedAt - age);
+    }
+    
+    /**
+     * @dev Price the auction off the collateral value and start its clock
+     */
+    function _scheduleAuction(Auction storage auction, uint256 collateralValue) internal {
+        auction.startPrice = (collateralValue * auction.startPriceBps) / BASIS_POINTS;
+        auction.floorPrice = (collateralValue * auction.floorPriceBps) / BASIS_POINTS;
+        auction.startTime = block.timestamp;
+        auction.endTime = block.timestamp + auction.duration;
+    }
+    
+    function _min(uint256 a, uint256 b) internal pure returns (uint256) {
+        return a < b ? a : b;
+    }
+    
+    function _increaseCarrierExposure(bytes32 carrier, uint256 amount) internal {
+        carrierExposure[carrier] += amount;
+        emit CarrierExposureUpdated(carrier, carrierExposure[carrier]);
+    }
+    
+    function _decreaseCarrierExposure(bytes32 carrier, uint256 amount) internal {
+        carrierExposure[carrier] -= amount;
+        emit CarrierExposureUpdated(carrier, carrierExposure[carrier]);
+    }
+    
     /**
      * @dev Remove vault from user's vault list
      */
@@ -293,6 +536,13 @@ contract CSVVault is ReentrancyGuard, AccessControl, Pausable {
         return userVaults[user];
     }
     
+    /**
+     * @dev True once the vault's collateral valuation is older than maxValuationAge
+     */
+    function isValuationStale(uint256 vaultId) public view returns (bool) {
+        return block.timestamp > collateralValuedAt[vaultId] + maxValuationAge;
+    }
+    
     function getVaultLTV(uint256 vaultId) external view returns (uint256) {
         VaultPosition storage position = vaultPositions[vaultId];
         if (position.collateralValue == 0) return 0;
@@ -307,6 +557,60 @@ contract CSVVault is ReentrancyGuard, AccessControl, Pausable {
         return currentLTV > vaultConfig.maxLTV;
     }
     
+    /**
+     * @dev Current price of an active auction, falling linearly from its start
+     *      price to its floor price and holding there once it has expired
+     */
+    function getAuctionPrice(uint256 auctionId) public view returns (uint256) {
+        Auction storage auction = auctions[auctionId];
+        require(auction.isActive, "CSVVault: Auction not active");
+        
+        if (block.timestamp >= auction.endTime) return auction.floorPrice;
+        uint256 elapsed = block.timestamp - auction.startTime;
+        uint256 drop = ((auction.startPrice - auction.floorPrice) * elapsed) / (auction.endTime - auction.startTime);
+        return auction.startPrice - drop;
+    }
+    
+    function getAuction(uint256 auctionId) external view returns (Auction memory) {
+        return auctions[auctionId];
+    }
+    
+    /**
+     * @dev Whether the account passes the compliance registry the CSV token points at
+     */
+    function isEligibleBidder(address bidder) public view returns (bool) {
+        address registry = csvToken.complianceRegistry();
+        if (registry.code.length == 0) return false;
+        return ComplianceRegistry(registry).isCompliant(bidder);
+    }
+    
+    function carrierKey(string memory carrierName) public pure returns (bytes32) {
+        return keccak256(bytes(carrierName));
+    }
+    
+    /**
+     * @dev Carrier's share of total debt in basis points
+     */
+    function getCarrierShareBps(bytes32 carrier) public view returns (uint256) {
+        if (totalDebt == 0) return 0;
+        return (carrierExposure[carrier] * BASIS_POINTS) / totalDebt;
+    }
+    
+    function getCarrierExposure(bytes32 carrier) external view returns (uint256 exposure, uint256 shareBps) {
+        return (carrierExposure[carrier], getCarrierShareBps(carrier));
+    }
+    
+    /**
+     * @dev Every carrier with a vault opened against its policies, and its current exposure
+     */
+    function getCarrierExposures() external view returns (bytes32[] memory carriers, uint256[] memory exposures) {
+        carriers = _carriers;
+        exposures = new uint256[](carriers.length);
+        for (uint256 i = 0; i < carriers.length; i++) {
+            exposures[i] = carrierExposure[carriers[i]];
+        }
+    }
+    
     // Admin functions
     function updateVaultConfig(VaultConfig memory newConfig) external onlyRole(DEFAULT_ADMIN_ROLE) {
         require(newConfig.maxLTV <= BASIS_POINTS, "CSVVault: Invalid max LTV");
@@ -315,6 +619,45 @@ contract CSVVault is ReentrancyGuard, AccessControl, Pausable {
         vaultConfig = newConfig;
     }
     
+    function setMaxCarrierBps(uint256 newMaxCarrierBps) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(newMaxCarrierBps > 0 && newMaxCarrierBps <= BASIS_POINTS, "CSVVault: Invalid carrier cap");
+        emit MaxCarrierBpsUpdated(maxCarrierBps, newMaxCarrierBps);
+        maxCarrierBps = newMaxCarrierBps;
+    }
+    
+    function setCarrierCapFloor(uint256 newFloor) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        emit CarrierCapFloorUpdated(carrierCapFloor, newFloor);
+        carrierCapFloor = newFloor;
+    }
+    
+    function setMinPolicyVintage(uint256 newMinPolicyVintage) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        emit MinPolicyVintageUpdated(minPolicyVintage, newMinPolicyVintage);
+        minPolicyVintage = newMinPolicyVintage;
+    }
+    
+    function setMaxValuationAge(uint256 newMaxValuationAge) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(newMaxValuationAge > 0, "CSVVault: Invalid max valuation age");
+        emit MaxValuationAgeUpdated(maxValuationAge, newMaxValuationAge);
+        maxValuationAge = newMaxValuationAge;
+    }
+    
+    function setAuctionConfig(AuctionConfig memory newConfig) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(
+            newConfig.floorPriceBps <= newConfig.startPriceBps &&
+                newConfig.duration > 0 &&
+                newConfig.liquidatorShareBps <= BASIS_POINTS,
+            "CSVVault: Invalid auction config"
+        );
+        
+        auctionConfig = newConfig;
+        emit AuctionConfigUpdated(
+            newConfig.startPriceBps,
+            newConfig.floorPriceBps,
+            newConfig.duration,
+            newConfig.liquidatorShareBps
+        );
+    }
+    
     function pause() external onlyRole(DEFAULT_ADMIN_ROLE) {
         _pause();
     }
@@ -326,6 +669,6 @@ contract CSVVault is ReentrancyGuard, AccessControl, Pausable {
     function withdrawLiquidationReserve(address to, uint256 amount) external onlyRole(DEFAULT_ADMIN_ROLE) {
         require(amount <= liquidationReserve, "CSVVault: Insufficient reserves");
         liquidationReserve -= amount;
-        // Implementation would transfer reserve funds
+        IERC20(address(csvToken)).safeTransfer(to, amount);
     }
 }
\ No newline at end of file
@@ -6,11 +6,14 @@ import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
 import "@openzeppelin/contracts/access/AccessControl.sol";
 import "@openzeppelin/contracts/utils/Pausable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "../compliance/ComplianceRegistry.sol";
 
 /**
  * @title ERCRWACSV
  * @dev ERC-RWA:CSV Token Standard for Insurance Cash Surrender Value tokenization
- * @notice This contract implements the first comprehensive token standard for insurance-backed securities
+ * @notice This contract implements the first comprehensive token standard for insurance-backed securities.
+ * Investor compliance lives in the ComplianceRegistry: mints, transfers and
+ * `updateCompliance` all read from or write to it.
  */
 contract ERCRWACSV is ERC20, ERC20Permit, AccessControl, Pausable, ReentrancyGuard {
     
@@ -20,6 +23,12 @@ contract ERCRWACSV is ERC20, ERC20Permit, AccessControl, Pausable, ReentrancyGua
     bytes32 public constant COMPLIANCE_ROLE = keccak256("COMPLIANCE_ROLE");
     bytes32 public constant ORACLE_ROLE = keccak256("ORACLE_ROLE");
     bytes32 public constant PAUSE_ROLE = keccak256("PAUSE_ROLE");
+    bytes32 public constant LIQUIDATOR_ROLE = keccak256("LIQUIDATOR_ROLE");
+    
+    // ERC-1404 restriction codes checked by the token itself; 0-15 are the registry's
+    uint8 public constant TRANSFERS_PAUSED = 16;
+    uint8 public constant INVALID_ADDRESS = 17;
+    uint8 public constant INSUFFICIENT_BALANCE = 18;
     
     // Token metadata
     struct CSVMetadata {
@@ -34,7 +43,7 @@ contract ERCRWACSV is ERC20, ERC20Permit, AccessControl, Pausable, ReentrancyGua
         bool isActive;
     }
     
-    // Compliance structure
+    // Token-level view of an account's registry status
     struct ComplianceData {
         bool isAccredited;
         bool isKYCVerified;
@@ -45,7 +54,6 @@ contract ERCRWACSV is ERC20, ERC20Permit, AccessControl, Pausable, ReentrancyGua
     
     // Storage
     mapping(uint256 => CSVMetadata) private _csvMetadata;
-    mapping(address => ComplianceData) private _complianceData;
     mapping(uint256 => address) private _tokenToOwner;
     mapping(address => uint256[]) private _ownerTokens;
     
@@ -58,20 +66,19 @@ contract ERCRWACSV is ERC20, ERC20Permit, AccessControl, Pausable, ReentrancyGua
     event CSVTokenMinted(uint256 indexed tokenId, address indexed to, uint256 csvValue);
     event CSVTokenBurned(uint256 indexed tokenId, address indexed from, uint256 csvValue);
     event CSVValuationUpdated(uint256 indexed tokenId, uint256 oldValue, uint256 newValue);
+    event CSVTokenTransferred(uint256 indexed tokenId, address indexed from, address indexed to);
     event ComplianceUpdated(address indexed account, bool kyc, bool accredited);
     event TransferRestricted(address indexed from, address indexed to, string reason);
     
     // Modifiers
     modifier onlyCompliant(address account) {
-        require(_complianceData[account].isKYCVerified, "ERCRWACSV: Account not KYC verified");
-        require(_complianceData[account].isAccredited, "ERCRWACSV: Account not accredited");
-        require(!_complianceData[account].isRestricted, "ERCRWACSV: Account restricted");
+        _requireCompliant(account);
         _;
     }
     
     modifier notUnderLockup(address account) {
         require(
-            block.timestamp >= _complianceData[account].lockupExpiry,
+            block.timestamp >= _registry().getComplianceStatus(account).lockupExpiry,
             "ERCRWACSV: Account under lockup period"
         );
         _;
@@ -89,6 +96,7 @@ contract ERCRWACSV is ERC20, ERC20Permit, AccessControl, Pausable, ReentrancyGua
         _grantRole(COMPLIANCE_ROLE, msg.sender);
         _grantRole(PAUSE_ROLE, msg.sender);
         
+        require(_complianceRegistry != address(0), "ERCRWACSV: Invalid compliance registry");
         complianceRegistry = _complianceRegistry;
         csvOracle = _csvOracle;
     }
@@ -140,6 +148,41 @@ contract ERCRWACSV is ERC20, ERC20Permit, AccessControl, Pausable, ReentrancyGua
         emit CSVTokenBurned(tokenId, from, metadata.cashValue);
     }
     
+    /**
+     * @dev Burn tokens repaid to a vault; unlike `burnCSVToken` the policy
+     *      they were minted against stays active as collateral
+     */
+    function burnDebt(address from, uint256 amount) external onlyRole(BURNER_ROLE) nonReentrant {
+        require(from != address(0), "ERCRWACSV: burn from zero address");
+        require(amount > 0, "ERCRWACSV: amount must be positive");
+        
+        _burn(from, amount);
+    }
+    
+    /**
+     * @dev Move a policy to a new owner, e.g. when a vault seizes it on
+     *      liquidation and when its auction is won
+     */
+    function transferCSVToken(uint256 tokenId, address to) external onlyRole(LIQUIDATOR_ROLE) {
+        require(to != address(0), "ERCRWACSV: transfer to zero address");
+        require(_csvMetadata[tokenId].isActive, "ERCRWACSV: token not active");
+        
+        address from = _tokenToOwner[tokenId];
+        _tokenToOwner[tokenId] = to;
+        _ownerTokens[to].push(tokenId);
+        
+        uint256[] storage fromTokens = _ownerTokens[from];
+        for (uint256 i = 0; i < fromTokens.length; i++) {
+            if (fromTokens[i] == tokenId) {
+                fromTokens[i] = fromTokens[fromTokens.length - 1];
+                fromTokens.pop();
+                break;
+            }
+        }
+        
+        emit CSVTokenTransferred(tokenId, from, to);
+    }
+    
     /**
      * @dev Update CSV valuation via oracle
      */
@@ -160,50 +203,83 @@ contract ERCRWACSV is ERC20, ERC20Permit, AccessControl, Pausable, ReentrancyGua
     }
     
     /**
-     * @dev Update compliance status
+     * @dev Update compliance status in the registry
+     * @notice Requires COMPLIANCE_OFFICER_ROLE on the registry. KYC and accreditation
+     * expire after the registry's validity periods; provider and KYC hash are kept.
      */
     function updateCompliance(
         address account,
         ComplianceData memory complianceData
     ) external onlyRole(COMPLIANCE_ROLE) {
-        _complianceData[account] = complianceData;
+        address[] memory accounts = new address[](1);
+        ComplianceData[] memory data = new ComplianceData[](1);
+        accounts[0] = account;
+        data[0] = complianceData;
+        _writeCompliance(accounts, data);
+    }
+    
+    /**
+     * @dev Batch `updateCompliance`, e.g. to migrate the records of a previous token deployment
+     */
+    function batchUpdateCompliance(
+        address[] memory accounts,
+        ComplianceData[] memory data
+    ) external onlyRole(COMPLIANCE_ROLE) {
+        require(accounts.length == data.length, "ERCRWACSV: Array length mismatch");
+        _writeCompliance(accounts, data);
+    }
+    
+    function _writeCompliance(address[] memory accounts, ComplianceData[] memory data) internal {
+        ComplianceRegistry registry = _registry();
+        uint256 kycExpiry = block.timestamp + registry.kycValidityPeriod();
+        uint256 accreditationExpiry = block.timestamp + registry.accreditationValidityPeriod();
         
-        emit ComplianceUpdated(
-            account,
-            complianceData.isKYCVerified,
-            complianceData.isAccredited
-        );
+        ComplianceRegistry.ComplianceStatus[] memory statuses = new ComplianceRegistry.ComplianceStatus[](accounts.length);
+        for (uint256 i = 0; i < accounts.length; i++) {
+            ComplianceRegistry.ComplianceStatus memory current = registry.getComplianceStatus(accounts[i]);
+            statuses[i] = ComplianceRegistry.ComplianceStatus({
+                isKYCVerified: data[i].isKYCVerified,
+                isAccredited: data[i].isAccredited,
+                accreditationExpiry: data[i].isAccredited ? accreditationExpiry : 0,
+                kycExpiry: data[i].isKYCVerified ? kycExpiry : 0,
+                jurisdictionCode: data[i].jurisdictionCode,
+                isRestricted: data[i].isRestricted,
+                lockupExpiry: data[i].lockupExpiry,
+                kycProvider: current.kycProvider == address(0) ? address(this) : current.kycProvider,
+                kycHash: current.kycHash,
+                lastUpdateTimestamp: block.timestamp
+            });
+        }
+        
+        registry.batchUpdateCompliance(accounts, statuses);
+        
+        for (uint256 i = 0; i < accounts.length; i++) {
+            emit ComplianceUpdated(accounts[i], data[i].isKYCVerified, data[i].isAccredited);
+        }
     }
     
     /**
-     * @dev Override transfer to include compliance checks
+     * @dev Override transfer to enforce the registry's transfer rules
      */
-    function _beforeTokenTransfer(
+    function _update(
         address from,
         address to,
         uint256 amount
     ) internal override whenNotPaused {
         if (from != address(0) && to != address(0)) {
-            // Check compliance for both parties
-            require(
-                _complianceData[from].isKYCVerified && _complianceData[to].isKYCVerified,
-                "ERCRWACSV: KYC verification required"
-            );
-            require(
-                _complianceData[from].isAccredited && _complianceData[to].isAccredited,
-                "ERCRWACSV: Accredited investor status required"
-            );
-            require(
-                block.timestamp >= _complianceData[from].lockupExpiry,
-                "ERCRWACSV: Sender under lockup period"
-            );
-            require(
-                !_complianceData[from].isRestricted && !_complianceData[to].isRestricted,
-                "ERCRWACSV: Account restricted"
-            );
+            (bool allowed, string memory reason) = _registry().isTransferAllowed(from, to);
+            require(allowed, string.concat("ERCRWACSV: ", reason));
         }
         
-        super._beforeTokenTransfer(from, to, amount);
+        super._update(from, to, amount);
+    }
+    
+    function _requireCompliant(address account) internal view {
+        require(_registry().isCompliant(account), "ERCRWACSV: Account not compliant");
+    }
+    
+    function _registry() internal view returns (ComplianceRegistry) {
+        return ComplianceRegistry(complianceRegistry);
     }
     
     // View functions
@@ -211,28 +287,63 @@ contract ERCRWACSV is ERC20, ERC20Permit, AccessControl, Pausable, ReentrancyGua
         return _csvMetadata[tokenId];
     }
     
+    /**
+     * @dev Registry status of an account; KYC and accreditation read as false once expired
+     */
     function getComplianceData(address account) external view returns (ComplianceData memory) {
-        return _complianceData[account];
+        ComplianceRegistry.ComplianceStatus memory status = _registry().getComplianceStatus(account);
+        return ComplianceData({
+            isAccredited: status.isAccredited && status.accreditationExpiry > block.timestamp,
+            isKYCVerified: status.isKYCVerified && status.kycExpiry > block.timestamp,
+            jurisdictionCode: status.jurisdictionCode,
+            lockupExpiry: status.lockupExpiry,
+            isRestricted: status.isRestricted
+        });
     }
     
     function getOwnerTokens(address owner) external view returns (uint256[] memory) {
         return _ownerTokens[owner];
     }
     
+    function getTokenOwner(uint256 tokenId) external view returns (address) {
+        return _tokenToOwner[tokenId];
+    }
+    
     function isTransferAllowed(address from, address to) external view returns (bool, string memory) {
-        if (!_complianceData[from].isKYCVerified || !_complianceData[to].isKYCVerified) {
-            return (false, "KYC verification required");
+        return _registry().isTransferAllowed(from, to);
+    }
+    
+    /**
+     * @dev ERC-1404: restriction code for transferring `value` from `from` to `to`;
+     * the registry's code unless the token itself would refuse first
+     */
+    function detectTransferRestriction(address from, address to, uint256 value) external view returns (uint8) {
+        if (paused()) {
+            return TRANSFERS_PAUSED;
         }
-        if (!_complianceData[from].isAccredited || !_complianceData[to].isAccredited) {
-            return (false, "Accredited investor status required");
+        if (from == address(0) || to == address(0)) {
+            return INVALID_ADDRESS;
         }
-        if (block.timestamp < _complianceData[from].lockupExpiry) {
-            return (false, "Sender under lockup period");
+        
+        uint8 code = _registry().detectTransferRestriction(from, to, value);
+        if (code != 0) {
+            return code;
         }
-        if (_complianceData[from].isRestricted || _complianceData[to].isRestricted) {
-            return (false, "Account restricted");
+        
+        if (balanceOf(from) < value) {
+            return INSUFFICIENT_BALANCE;
         }
-        return (true, "Transfer allowed");
+        return code;
+    }
+    
+    /**
+     * @dev ERC-1404: human-readable message for a code from `detectTransferRestriction`
+     */
+    function messageForTransferRestriction(uint8 restrictionCode) external view returns (string memory) {
+        if (restrictionCode == TRANSFERS_PAUSED) return "Token transfers paused";
+        if (restrictionCode == INVALID_ADDRESS) return "Transfer to or from the zero address";
+        if (restrictionCode == INSUFFICIENT_BALANCE) return "Insufficient balance";
+        return _registry().messageForTransferRestriction(restrictionCode);
     }
     
     // Admin functions
@@ -245,6 +356,7 @@ contract ERCRWACSV is ERC20, ERC20Permit, AccessControl, Pausable, ReentrancyGua
     }
     
     function setComplianceRegistry(address _complianceRegistry) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(_complianceRegistry != address(0), "ERCRWACSV: Invalid compliance registry");
         complianceRegistry = _complianceRegistry;
     }
     
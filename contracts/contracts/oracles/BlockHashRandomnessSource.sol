@@ -0,0 +1,45 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./IRandomnessSource.sol";
+
+/**
+ * @title BlockHashRandomnessSource
+ * @dev Block-hash commit source of CSVOracle selection seeds, for networks
+ *      without a VRF coordinator
+ * @notice Each draw commits to the block it lands in, and the next seed mixes
+ * that block's hash with the previous seed, the prevrandao of the block the
+ * request lands in and the request ID. A requester cannot know the
+ * prevrandao of the block their request is included in, and every seed
+ * chains into the next, so requesters cannot pick their oracles. The
+ * proposer of that block can still bias a draw by withholding the block, so
+ * point the oracle at a VRF adapter where that matters. Hashes of blocks more
+ * than 256 blocks old read as zero and leave the other inputs to the seed.
+ */
+contract BlockHashRandomnessSource is IRandomnessSource {
+    address public immutable consumer; // Oracle contract allowed to draw seeds
+    uint256 public committedBlock; // Block whose hash goes into the next seed
+    uint256 public lastSeed;
+    
+    event SeedDrawn(uint256 indexed requestId, uint256 seed, uint256 committedBlock);
+    
+    constructor(address _consumer) {
+        require(_consumer != address(0), "BlockHashRandomnessSource: Invalid consumer");
+        consumer = _consumer;
+        committedBlock = block.number;
+    }
+    
+    /**
+     * @dev Draws the seed for `requestId` and commits the next draw to the
+     *      current block; the event carries what the seed can be replayed from
+     */
+    function randomSeed(uint256 requestId) external returns (uint256 seed) {
+        require(msg.sender == consumer, "BlockHashRandomnessSource: Caller is not the consumer");
+        
+        seed = uint256(keccak256(abi.encode(lastSeed, blockhash(committedBlock), block.prevrandao, requestId)));
+        emit SeedDrawn(requestId, seed, committedBlock);
+        
+        lastSeed = seed;
+        committedBlock = block.number;
+    }
+}
@@ -4,11 +4,18 @@ pragma solidity ^0.8.20;
 import "@openzeppelin/contracts/access/AccessControl.sol";
 import "@openzeppelin/contracts/utils/Pausable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "./IRandomnessSource.sol";
+import "./IValuationConsumer.sol";
 
 /**
  * @title CSVOracle
  * @dev Proof-of-CSV™ multi-attestor system for valuation verification
- * @notice Manages CSV valuations through decentralized oracle consensus
+ * @notice Manages CSV valuations through decentralized oracle consensus.
+ * Oracles commit to a hash of their value during the response window and
+ * reveal it afterwards, so no oracle can copy another's answer. Each request
+ * is assigned a random, reputation- and stake-weighted set of oracles with no
+ * declared ties to the requester. Stake can be topped up, and is withdrawn
+ * after an unbonding period during which it can still be slashed.
  */
 contract CSVOracle is AccessControl, Pausable, ReentrancyGuard {
     
@@ -16,6 +23,7 @@ contract CSVOracle is AccessControl, Pausable, ReentrancyGuard {
     bytes32 public constant ORACLE_ROLE = keccak256("ORACLE_ROLE");
     bytes32 public constant ORACLE_MANAGER_ROLE = keccak256("ORACLE_MANAGER_ROLE");
     bytes32 public constant CONSUMER_ROLE = keccak256("CONSUMER_ROLE");
+    bytes32 public constant ARBITRATOR_ROLE = keccak256("ARBITRATOR_ROLE");
     
     // Oracle information
     struct OracleInfo {
@@ -64,22 +72,66 @@ contract CSVOracle is AccessControl, Pausable, ReentrancyGuard {
         uint256 responsePeriod;
     }
     
+    enum DisputeStatus { NONE, OPEN, UPHELD, OVERTURNED }
+    
+    // Stake on its way out; still slashable until withdrawn
+    struct Unbonding {
+        uint256 amount;
+        uint256 availableAt;
+    }
+    
+    // Challenge to a finalized valuation; at most one per request
+    struct Dispute {
+        address disputer;
+        uint256 bond;
+        string reason;
+        uint256 raisedAt;
+        DisputeStatus status;
+        uint256 correctedValue;
+        uint256 revaluationRequestId;
+    }
+    
     // Storage
     mapping(address => OracleInfo) public oracles;
     mapping(uint256 => ValuationRequest) public valuationRequests;
     mapping(uint256 => mapping(address => OracleResponse)) public responses;
     mapping(uint256 => address[]) public requestOracles;
     mapping(string => uint256) public policyToLatestRequest;
+    mapping(uint256 => uint256) public finalizedAt;
+    mapping(uint256 => mapping(address => uint256)) public rewardsPaid;
+    mapping(uint256 => Dispute) public disputes;
+    mapping(uint256 => mapping(address => bytes32)) public commitments;
+    mapping(uint256 => uint256) public commitCounts;
+    mapping(uint256 => uint256) public selectionSeeds;
+    mapping(address => mapping(address => bool)) public oracleConflicts; // oracle => party
+    mapping(address => Unbonding) public unbondings;
+    mapping(address => bool) public needsRemediation; // Deregistered for low reputation
     
     address[] public registeredOracles;
     uint256 public nextRequestId = 1;
     ConsensusConfig public consensusConfig;
+    IRandomnessSource public randomnessSource; // Requests revert until one is set
+    uint256 public totalStaked; // Bonded and unbonding stake, which protocol fee withdrawals leave alone
+    uint256 public totalOpenDisputeBonds; // Held until their dispute is resolved, so also left alone
+    uint256 public rewardPool; // Request fees net of the protocol's share, and top-ups, that pay oracle rewards
+    IValuationConsumer public valuationConsumer; // Notified of every finalized valuation
     
     // Fee structure
     uint256 public requestFee = 0.01 ether;
     uint256 public oracleReward = 0.002 ether;
     uint256 public protocolFeeRate = 1000; // 10% in basis points
     
+    // Dispute parameters
+    uint256 public disputeBond = 0.05 ether;
+    uint256 public disputeSlashRate = 1000; // 10% of stake, in basis points
+    
+    // Commit-reveal parameters
+    uint256 public revealPeriod = 12 hours; // After the request deadline
+    uint256 public missedRevealSlashRate = 500; // 5% of stake, in basis points
+    
+    // Staking parameters
+    uint256 public unbondingPeriod = 7 days; // Longer than the dispute period
+    
     // Constants
     uint256 public constant BASIS_POINTS = 10000;
     uint256 public constant MIN_REPUTATION_SCORE = 7500; // 75% accuracy required
@@ -95,6 +147,31 @@ contract CSVOracle is AccessControl, Pausable, ReentrancyGuard {
     event DisputeRaised(uint256 indexed requestId, address indexed disputer, string reason);
     event OracleSlashed(address indexed oracle, uint256 amount, string reason);
     event OracleRewarded(address indexed oracle, uint256 amount, uint256 requestId);
+    event DisputeResolved(uint256 indexed requestId, bool overturned, uint256 correctedValue, uint256 revaluationRequestId);
+    event RewardClawedBack(address indexed oracle, uint256 indexed requestId, uint256 amount);
+    event RewardPoolFunded(address indexed from, uint256 amount, uint256 rewardPool);
+    event DisputeConfigUpdated(uint256 disputeBond, uint256 disputeSlashRate);
+    event ValuationCommitted(uint256 indexed requestId, address indexed oracle, bytes32 commitment);
+    event RevealMissed(uint256 indexed requestId, address indexed oracle);
+    event RevealConfigUpdated(uint256 revealPeriod, uint256 missedRevealSlashRate);
+    event OraclesSelected(
+        uint256 indexed requestId,
+        uint256 seed,
+        address[] oracles,
+        uint256[] weights,
+        uint256 totalWeight,
+        uint256 excludedCount
+    );
+    event OracleConflictUpdated(address indexed oracle, address indexed party, bool conflicted);
+    event RandomnessSourceUpdated(address indexed source);
+    event StakeIncreased(address indexed oracle, uint256 amount, uint256 stakingAmount);
+    event UnbondRequested(address indexed oracle, uint256 amount, uint256 availableAt);
+    event StakeWithdrawn(address indexed oracle, uint256 amount);
+    event OracleRemediated(address indexed oracle);
+    event UnbondingPeriodUpdated(uint256 unbondingPeriod);
+    event ValuationConsumerUpdated(address indexed consumer);
+    event ValuationPropagationFailed(uint256 indexed requestId);
+    event ValuationFailed(uint256 indexed requestId, uint256 responseCount);
     
     // Modifiers
     modifier onlyRegisteredOracle() {
@@ -111,6 +188,7 @@ contract CSVOracle is AccessControl, Pausable, ReentrancyGuard {
     constructor() {
         _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
         _grantRole(ORACLE_MANAGER_ROLE, msg.sender);
+        _grantRole(ARBITRATOR_ROLE, msg.sender);
         
         // Initialize consensus parameters
         consensusConfig = ConsensusConfig({
@@ -124,7 +202,9 @@ contract CSVOracle is AccessControl, Pausable, ReentrancyGuard {
     }
     
     /**
-     * @dev Register as an oracle
+     * @dev Register as an oracle, or re-register after deregistration. A
+     *      re-registering oracle keeps its bonded stake and track record;
+     *      one deregistered for low reputation must be remediated first.
      */
     function registerOracle(
         string memory name,
@@ -134,23 +214,87 @@ contract CSVOracle is AccessControl, Pausable, ReentrancyGuard {
         require(msg.value >= stakingAmount, "CSVOracle: Insufficient staking amount");
         require(!oracles[msg.sender].isActive, "CSVOracle: Oracle already registered");
         require(bytes(name).length > 0, "CSVOracle: Name required");
+        require(!needsRemediation[msg.sender], "CSVOracle: Remediation required");
         
-        oracles[msg.sender] = OracleInfo({
-            name: name,
-            endpoint: endpoint,
-            isActive: true,
-            totalSubmissions: 0,
-            totalCorrectSubmissions: 0,
-            reputationScore: 10000, // Start with perfect score
-            operatorAddress: msg.sender,
-            stakingAmount: stakingAmount,
-            lastActiveTimestamp: block.timestamp
-        });
+        OracleInfo storage oracle = oracles[msg.sender];
+        if (oracle.operatorAddress == address(0)) {
+            oracles[msg.sender] = OracleInfo({
+                name: name,
+                endpoint: endpoint,
+                isActive: true,
+                totalSubmissions: 0,
+                totalCorrectSubmissions: 0,
+                reputationScore: 10000, // Start with perfect score
+                operatorAddress: msg.sender,
+                stakingAmount: stakingAmount,
+                lastActiveTimestamp: block.timestamp
+            });
+            registeredOracles.push(msg.sender);
+        } else {
+            oracle.name = name;
+            oracle.endpoint = endpoint;
+            oracle.isActive = true;
+            oracle.stakingAmount += stakingAmount;
+            oracle.lastActiveTimestamp = block.timestamp;
+        }
         
-        registeredOracles.push(msg.sender);
+        totalStaked += stakingAmount;
         _grantRole(ORACLE_ROLE, msg.sender);
         
-        emit OracleRegistered(msg.sender, name, stakingAmount);
+        emit OracleRegistered(msg.sender, name, oracle.stakingAmount);
+    }
+    
+    /**
+     * @dev Add to the sender's bonded stake
+     */
+    function increaseStake() external payable nonReentrant {
+        OracleInfo storage oracle = oracles[msg.sender];
+        require(oracle.operatorAddress == msg.sender, "CSVOracle: Oracle not registered");
+        require(msg.value > 0, "CSVOracle: Stake required");
+        
+        oracle.stakingAmount += msg.value;
+        totalStaked += msg.value;
+        
+        emit StakeIncreased(msg.sender, msg.value, oracle.stakingAmount);
+    }
+    
+    /**
+     * @dev Start unbonding part of the sender's stake. It stops counting for
+     *      selection at once, stays slashable for `unbondingPeriod` and is then
+     *      released by `withdrawStake`. A new request adds to the pending
+     *      amount and restarts the period; unbonding all stake deregisters.
+     */
+    function requestUnbond(uint256 amount) external nonReentrant {
+        OracleInfo storage oracle = oracles[msg.sender];
+        require(oracle.operatorAddress == msg.sender, "CSVOracle: Oracle not registered");
+        require(amount > 0 && amount <= oracle.stakingAmount, "CSVOracle: Invalid unbond amount");
+        
+        oracle.stakingAmount -= amount;
+        Unbonding storage unbonding = unbondings[msg.sender];
+        unbonding.amount += amount;
+        unbonding.availableAt = block.timestamp + unbondingPeriod;
+        
+        if (oracle.stakingAmount == 0 && oracle.isActive) {
+            _deactivate(msg.sender, "Stake unbonded");
+        }
+        
+        emit UnbondRequested(msg.sender, amount, unbonding.availableAt);
+    }
+    
+    /**
+     * @dev Withdraw the sender's unbonded stake once the unbonding period is over
+     */
+    function withdrawStake() external nonReentrant {
+        Unbonding storage unbonding = unbondings[msg.sender];
+        uint256 amount = unbonding.amount;
+        require(amount > 0, "CSVOracle: Nothing to withdraw");
+        require(block.timestamp >= unbonding.availableAt, "CSVOracle: Unbonding period not over");
+        
+        delete unbondings[msg.sender];
+        totalStaked -= amount;
+        payable(msg.sender).transfer(amount);
+        
+        emit StakeWithdrawn(msg.sender, amount);
     }
     
     /**
@@ -165,12 +309,25 @@ contract CSVOracle is AccessControl, Pausable, ReentrancyGuard {
         require(deadline > block.timestamp, "CSVOracle: Invalid deadline");
         require(bytes(policyNumber).length > 0, "CSVOracle: Policy number required");
         
+        rewardPool += msg.value - (msg.value * protocolFeeRate) / BASIS_POINTS;
+        return _createRequest(policyNumber, deadline, ipfsHash, msg.sender);
+    }
+    
+    /**
+     * @dev Open a valuation request and assign oracles to it
+     */
+    function _createRequest(
+        string memory policyNumber,
+        uint256 deadline,
+        string memory ipfsHash,
+        address requester
+    ) internal returns (uint256 requestId) {
         requestId = nextRequestId++;
         
         valuationRequests[requestId] = ValuationRequest({
             requestId: requestId,
             policyNumber: policyNumber,
-            requester: msg.sender,
+            requester: requester,
             timestamp: block.timestamp,
             deadline: deadline,
             isActive: true,
@@ -185,24 +342,50 @@ contract CSVOracle is AccessControl, Pausable, ReentrancyGuard {
         // Select oracles for this request
         _selectOraclesForRequest(requestId);
         
-        emit ValuationRequested(requestId, policyNumber, msg.sender);
+        emit ValuationRequested(requestId, policyNumber, requester);
+    }
+    
+    /**
+     * @dev Commit to a valuation before the request deadline
+     * @notice `commitment` is `computeCommitment(requestId, oracle, value, salt)`
+     * for the value revealed after the deadline
+     */
+    function commitValuation(
+        uint256 requestId,
+        bytes32 commitment
+    ) external validRequest(requestId) onlyRegisteredOracle nonReentrant {
+        require(block.timestamp <= valuationRequests[requestId].deadline, "CSVOracle: Deadline passed");
+        require(commitments[requestId][msg.sender] == bytes32(0), "CSVOracle: Already committed");
+        require(_isOracleAssigned(requestId, msg.sender), "CSVOracle: Oracle not assigned to request");
+        require(commitment != bytes32(0), "CSVOracle: Commitment required");
+        
+        commitments[requestId][msg.sender] = commitment;
+        commitCounts[requestId]++;
+        oracles[msg.sender].lastActiveTimestamp = block.timestamp;
         
-        return requestId;
+        emit ValuationCommitted(requestId, msg.sender, commitment);
     }
     
     /**
-     * @dev Submit valuation response
+     * @dev Reveal a committed valuation once the deadline has passed
+     * @notice Finalizes as soon as every committed oracle has revealed
      */
-    function submitValuation(
+    function revealValuation(
         uint256 requestId,
         uint256 value,
+        bytes32 salt,
         bytes32 proofHash,
         string memory documentationURI
     ) external validRequest(requestId) onlyRegisteredOracle nonReentrant {
         ValuationRequest storage request = valuationRequests[requestId];
-        require(block.timestamp <= request.deadline, "CSVOracle: Deadline passed");
+        require(block.timestamp > request.deadline, "CSVOracle: Reveal period not started");
+        require(block.timestamp <= request.deadline + revealPeriod, "CSVOracle: Reveal period over");
+        require(commitments[requestId][msg.sender] != bytes32(0), "CSVOracle: Not committed");
         require(responses[requestId][msg.sender].timestamp == 0, "CSVOracle: Already submitted");
-        require(_isOracleAssigned(requestId, msg.sender), "CSVOracle: Oracle not assigned to request");
+        require(
+            commitments[requestId][msg.sender] == computeCommitment(requestId, msg.sender, value, salt),
+            "CSVOracle: Commitment mismatch"
+        );
         require(value > 0, "CSVOracle: Value must be positive");
         
         responses[requestId][msg.sender] = OracleResponse({
@@ -221,21 +404,67 @@ contract CSVOracle is AccessControl, Pausable, ReentrancyGuard {
         emit ValuationSubmitted(requestId, msg.sender, value);
         
         // Check if we can finalize
-        if (request.responseCount >= consensusConfig.minOracles) {
+        if (request.responseCount == commitCounts[requestId] && request.responseCount >= consensusConfig.minOracles) {
             _attemptFinalization(requestId);
         }
     }
     
     /**
-     * @dev Finalize valuation request
+     * @dev Commitment an oracle submits for `value`, salted so it cannot be guessed
+     */
+    function computeCommitment(
+        uint256 requestId,
+        address oracleAddr,
+        uint256 value,
+        bytes32 salt
+    ) public pure returns (bytes32) {
+        return keccak256(abi.encode(requestId, oracleAddr, value, salt));
+    }
+    
+    /**
+     * @dev Finalize valuation request once the reveal period is over
+     * @notice Oracles that committed but did not reveal are penalized first. A
+     * request without enough reveals or without consensus is closed as failed,
+     * and the policy needs a new request.
      */
     function finalizeValuation(uint256 requestId) external validRequest(requestId) {
         ValuationRequest storage request = valuationRequests[requestId];
-        require(block.timestamp > request.deadline || request.responseCount >= consensusConfig.maxOracles, 
-                "CSVOracle: Cannot finalize yet");
+        require(block.timestamp > request.deadline + revealPeriod, "CSVOracle: Cannot finalize yet");
         require(!request.isFinalized, "CSVOracle: Already finalized");
         
+        _penalizeMissedReveals(requestId);
         _attemptFinalization(requestId);
+        
+        if (!request.isFinalized) {
+            request.isActive = false;
+            emit ValuationFailed(requestId, request.responseCount);
+        }
+    }
+    
+    /**
+     * @dev Slash oracles that committed but never revealed and count it as an
+     *      incorrect submission; their commitment is cleared so it happens once
+     */
+    function _penalizeMissedReveals(uint256 requestId) internal {
+        address[] storage assignedOracles = requestOracles[requestId];
+        
+        for (uint256 i = 0; i < assignedOracles.length; i++) {
+            address oracleAddr = assignedOracles[i];
+            if (commitments[requestId][oracleAddr] == bytes32(0)) continue;
+            if (responses[requestId][oracleAddr].timestamp > 0) continue;
+            
+            delete commitments[requestId][oracleAddr];
+            OracleInfo storage oracle = oracles[oracleAddr];
+            oracle.totalSubmissions++;
+            
+            uint256 amount = (_slashableStake(oracleAddr) * missedRevealSlashRate) / BASIS_POINTS;
+            if (amount > 0) {
+                _slash(oracleAddr, amount, "Valuation not revealed");
+            }
+            
+            _updateReputationScore(oracleAddr);
+            emit RevealMissed(requestId, oracleAddr);
+        }
     }
     
     /**
@@ -271,11 +500,18 @@ contract CSVOracle is AccessControl, Pausable, ReentrancyGuard {
                 request.agreedValue = consensusValue;
                 request.isFinalized = true;
                 request.isActive = false;
+                finalizedAt[requestId] = block.timestamp;
                 
                 _distributeRewards(requestId, values, respondingOracles, validResponses, consensusValue);
                 
                 emit ValuationFinalized(requestId, consensusValue, validResponses);
                 emit ConsensusReached(requestId, consensusValue);
+                
+                if (address(valuationConsumer) != address(0)) {
+                    try valuationConsumer.onValuationFinalized(requestId, request.policyNumber, consensusValue) {} catch {
+                        emit ValuationPropagationFailed(requestId);
+                    }
+                }
             }
         }
     }
@@ -289,14 +525,18 @@ contract CSVOracle is AccessControl, Pausable, ReentrancyGuard {
     ) internal view returns (uint256) {
         if (count == 0) return 0;
         
-        // Sort values to find median
-        _quickSort(values, 0, int256(count - 1));
+        // Sort a copy to find the median; callers pair `values` with their oracles by index
+        uint256[] memory sorted = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            sorted[i] = values[i];
+        }
+        _quickSort(sorted, 0, int256(count - 1));
         
         uint256 median;
         if (count % 2 == 0) {
-            median = (values[count / 2 - 1] + values[count / 2]) / 2;
+            median = (sorted[count / 2 - 1] + sorted[count / 2]) / 2;
         } else {
-            median = values[count / 2];
+            median = sorted[count / 2];
         }
         
         // Check consensus threshold
@@ -319,31 +559,34 @@ contract CSVOracle is AccessControl, Pausable, ReentrancyGuard {
     }
     
     /**
-     * @dev Distribute rewards to oracles
+     * @dev Distribute rewards to oracles out of `rewardPool`; once it runs
+     *      low, the remaining accurate oracles get what is left, or nothing
      */
     function _distributeRewards(
         uint256 requestId,
         uint256[] memory values,
-        address[] memory oracles,
+        address[] memory respondingOracles,
         uint256 count,
         uint256 consensusValue
     ) internal {
-        uint256 totalReward = oracleReward * count;
-        uint256 individualReward = oracleReward;
-        
         uint256 maxDeviation = (consensusValue * consensusConfig.maxDeviationPercent) / BASIS_POINTS;
         
         for (uint256 i = 0; i < count; i++) {
-            address oracleAddr = oracles[i];
+            address oracleAddr = respondingOracles[i];
             bool isAccurate = values[i] >= consensusValue - maxDeviation && 
                             values[i] <= consensusValue + maxDeviation;
             
             if (isAccurate) {
                 oracles[oracleAddr].totalCorrectSubmissions++;
                 
-                // Transfer reward
-                payable(oracleAddr).transfer(individualReward);
-                emit OracleRewarded(oracleAddr, individualReward, requestId);
+                // Transfer reward; recorded so an overturned dispute can claw it back
+                uint256 reward = oracleReward < rewardPool ? oracleReward : rewardPool;
+                if (reward > 0) {
+                    rewardPool -= reward;
+                    rewardsPaid[requestId][oracleAddr] = reward;
+                    payable(oracleAddr).transfer(reward);
+                    emit OracleRewarded(oracleAddr, reward, requestId);
+                }
             }
             
             // Update reputation score
@@ -351,6 +594,116 @@ contract CSVOracle is AccessControl, Pausable, ReentrancyGuard {
         }
     }
     
+    /**
+     * @dev Dispute a finalized valuation within the dispute period
+     * @notice The bond is refunded if the dispute is overturned and kept by the protocol if upheld
+     */
+    function raiseDispute(
+        uint256 requestId,
+        string memory reason
+    ) external payable nonReentrant whenNotPaused {
+        require(valuationRequests[requestId].isFinalized, "CSVOracle: Request not finalized");
+        require(block.timestamp <= finalizedAt[requestId] + consensusConfig.disputePeriod, "CSVOracle: Dispute period over");
+        require(disputes[requestId].status == DisputeStatus.NONE, "CSVOracle: Already disputed");
+        require(msg.value >= disputeBond, "CSVOracle: Insufficient bond");
+        require(bytes(reason).length > 0, "CSVOracle: Reason required");
+        
+        disputes[requestId] = Dispute({
+            disputer: msg.sender,
+            bond: msg.value,
+            reason: reason,
+            raisedAt: block.timestamp,
+            status: DisputeStatus.OPEN,
+            correctedValue: 0,
+            revaluationRequestId: 0
+        });
+        totalOpenDisputeBonds += msg.value;
+        
+        emit DisputeRaised(requestId, msg.sender, reason);
+    }
+    
+    /**
+     * @dev Resolve an open dispute
+     * @notice Overturning slashes the oracles that deviated from `correctedValue`,
+     * claws back their rewards and requests a fresh valuation of the policy. If
+     * too few oracles are left to select, the dispute is still resolved and
+     * `revaluationRequestId` is zero; the policy needs a new request later.
+     */
+    function resolveDispute(
+        uint256 requestId,
+        bool overturn,
+        uint256 correctedValue
+    ) external onlyRole(ARBITRATOR_ROLE) nonReentrant returns (uint256 revaluationRequestId) {
+        Dispute storage dispute = disputes[requestId];
+        require(dispute.status == DisputeStatus.OPEN, "CSVOracle: Dispute not open");
+        totalOpenDisputeBonds -= dispute.bond;
+        
+        if (!overturn) {
+            dispute.status = DisputeStatus.UPHELD;
+            emit DisputeResolved(requestId, false, 0, 0);
+            return 0;
+        }
+        
+        require(correctedValue > 0, "CSVOracle: Corrected value required");
+        dispute.status = DisputeStatus.OVERTURNED;
+        dispute.correctedValue = correctedValue;
+        
+        _penalizeDeviations(requestId, correctedValue);
+        
+        if (_canSelectOracles(dispute.disputer)) {
+            ValuationRequest storage request = valuationRequests[requestId];
+            revaluationRequestId = _createRequest(
+                request.policyNumber,
+                block.timestamp + consensusConfig.responsePeriod,
+                request.ipfsHash,
+                dispute.disputer
+            );
+            dispute.revaluationRequestId = revaluationRequestId;
+        }
+        
+        payable(dispute.disputer).transfer(dispute.bond);
+        
+        emit DisputeResolved(requestId, true, correctedValue, revaluationRequestId);
+    }
+    
+    /**
+     * @dev Slash and claw back rewards from oracles outside the deviation band around `correctedValue`
+     */
+    function _penalizeDeviations(uint256 requestId, uint256 correctedValue) internal {
+        uint256 maxDeviation = (correctedValue * consensusConfig.maxDeviationPercent) / BASIS_POINTS;
+        address[] storage assignedOracles = requestOracles[requestId];
+        
+        for (uint256 i = 0; i < assignedOracles.length; i++) {
+            address oracleAddr = assignedOracles[i];
+            OracleResponse storage response = responses[requestId][oracleAddr];
+            if (response.timestamp == 0 || !response.isValid) continue;
+            if (response.value + maxDeviation >= correctedValue && response.value <= correctedValue + maxDeviation) continue;
+            
+            response.isValid = false;
+            OracleInfo storage oracle = oracles[oracleAddr];
+            
+            uint256 reward = rewardsPaid[requestId][oracleAddr];
+            if (reward > 0) {
+                rewardsPaid[requestId][oracleAddr] = 0;
+                oracle.totalCorrectSubmissions--;
+                emit RewardClawedBack(oracleAddr, requestId, reward);
+            }
+            
+            uint256 stake = _slashableStake(oracleAddr);
+            uint256 amount = (stake * disputeSlashRate) / BASIS_POINTS + reward;
+            if (amount > stake) {
+                amount = stake;
+            }
+            if (amount > 0) {
+                _slash(oracleAddr, amount, "Valuation overturned in dispute");
+                // Clawed-back rewards go back to the pool that pays for the revaluation
+                rewardPool += reward < amount ? reward : amount;
+            }
+            
+            _updateReputationScore(oracleAddr);
+        }
+    }
+    
     /**
      * @dev Update oracle reputation score
      */
@@ -362,42 +715,113 @@ contract CSVOracle is AccessControl, Pausable, ReentrancyGuard {
             
             // Deactivate oracle if reputation drops too low
             if (oracle.reputationScore < MIN_REPUTATION_SCORE) {
-                oracle.isActive = false;
-                _revokeRole(ORACLE_ROLE, oracleAddr);
-                emit OracleDeregistered(oracleAddr, "Low reputation score");
+                needsRemediation[oracleAddr] = true;
+                if (oracle.isActive) {
+                    _deactivate(oracleAddr, "Low reputation score");
+                }
             }
         }
     }
     
     /**
-     * @dev Select oracles for a request
+     * @dev Select oracles for a request by weighted random sampling without
+     *      replacement. Each draw picks an eligible oracle with probability
+     *      proportional to its selection weight; oracles tied to the requester
+     *      are left out. The seed and weights are emitted so anyone can replay
+     *      the selection.
      */
     function _selectOraclesForRequest(uint256 requestId) internal {
-        uint256 availableOracles = 0;
+        address requester = valuationRequests[requestId].requester;
+        address[] memory candidates = new address[](registeredOracles.length);
+        uint256[] memory weights = new uint256[](registeredOracles.length);
+        uint256 candidateCount = 0;
+        uint256 totalWeight = 0;
+        uint256 excludedCount = 0;
         
-        // Count available oracles
         for (uint256 i = 0; i < registeredOracles.length; i++) {
-            if (oracles[registeredOracles[i]].isActive && 
-                oracles[registeredOracles[i]].reputationScore >= MIN_REPUTATION_SCORE) {
-                availableOracles++;
+            address oracleAddr = registeredOracles[i];
+            uint256 weight = getSelectionWeight(oracleAddr);
+            if (weight == 0) continue;
+            if (isConflicted(oracleAddr, requester)) {
+                excludedCount++;
+                continue;
             }
+            
+            candidates[candidateCount] = oracleAddr;
+            weights[candidateCount] = weight;
+            candidateCount++;
+            totalWeight += weight;
         }
         
-        require(availableOracles >= consensusConfig.minOracles, "CSVOracle: Insufficient active oracles");
+        require(candidateCount >= consensusConfig.minOracles, "CSVOracle: Insufficient active oracles");
+        
+        uint256 maxToSelect = candidateCount > consensusConfig.maxOracles ? 
+                            consensusConfig.maxOracles : candidateCount;
+        uint256 seed = _selectionSeed(requestId);
+        selectionSeeds[requestId] = seed;
+        
+        uint256[] memory selectedWeights = new uint256[](maxToSelect);
+        uint256 remainingWeight = totalWeight;
+        for (uint256 k = 0; k < maxToSelect; k++) {
+            uint256 draw = uint256(keccak256(abi.encode(seed, k))) % remainingWeight;
+            uint256 index = 0;
+            while (draw >= weights[index]) {
+                draw -= weights[index];
+                index++;
+            }
+            
+            requestOracles[requestId].push(candidates[index]);
+            selectedWeights[k] = weights[index];
+            remainingWeight -= weights[index];
+            weights[index] = 0;
+        }
         
-        // Select oracles (simplified selection - in production, use more sophisticated method)
-        uint256 selected = 0;
-        uint256 maxToSelect = availableOracles > consensusConfig.maxOracles ? 
-                            consensusConfig.maxOracles : availableOracles;
+        emit OraclesSelected(requestId, seed, requestOracles[requestId], selectedWeights, totalWeight, excludedCount);
+    }
+    
+    /**
+     * @dev Whether `_selectOraclesForRequest` would find enough oracles for
+     *      a request by `requester`
+     */
+    function _canSelectOracles(address requester) internal view returns (bool) {
+        if (address(randomnessSource) == address(0)) return false;
         
-        for (uint256 i = 0; i < registeredOracles.length && selected < maxToSelect; i++) {
+        uint256 candidateCount = 0;
+        for (uint256 i = 0; i < registeredOracles.length; i++) {
             address oracleAddr = registeredOracles[i];
-            if (oracles[oracleAddr].isActive && 
-                oracles[oracleAddr].reputationScore >= MIN_REPUTATION_SCORE) {
-                requestOracles[requestId].push(oracleAddr);
-                selected++;
+            if (getSelectionWeight(oracleAddr) > 0 && !isConflicted(oracleAddr, requester)) {
+                candidateCount++;
             }
         }
+        return candidateCount >= consensusConfig.minOracles;
+    }
+    
+    /**
+     * @dev Block values are known, or chosen, by whoever builds the block the
+     *      request lands in, so there is no fallback to them here; a
+     *      BlockHashRandomnessSource can be set where no VRF adapter exists
+     */
+    function _selectionSeed(uint256 requestId) internal returns (uint256) {
+        require(address(randomnessSource) != address(0), "CSVOracle: Randomness source required");
+        return randomnessSource.randomSeed(requestId);
+    }
+    
+    /**
+     * @dev Weight of an oracle in selection draws: reputation score times stake,
+     *      or zero if it is inactive, unstaked or below the minimum reputation
+     */
+    function getSelectionWeight(address oracleAddr) public view returns (uint256) {
+        OracleInfo storage oracle = oracles[oracleAddr];
+        if (!oracle.isActive || oracle.reputationScore < MIN_REPUTATION_SCORE) return 0;
+        return oracle.reputationScore * oracle.stakingAmount;
+    }
+    
+    /**
+     * @dev Whether `oracleAddr` is tied to `party`: the same address, or a
+     *      conflict declared by the oracle or recorded by an oracle manager
+     */
+    function isConflicted(address oracleAddr, address party) public view returns (bool) {
+        return oracleAddr == party || oracleConflicts[oracleAddr][party];
     }
     
     /**
@@ -460,16 +884,28 @@ contract CSVOracle is AccessControl, Pausable, ReentrancyGuard {
         }
     }
     
+    function getRegisteredOracles() external view returns (address[] memory) {
+        return registeredOracles;
+    }
+    
     function getOracleInfo(address oracleAddr) external view returns (OracleInfo memory) {
         return oracles[oracleAddr];
     }
     
-    function getLatestValuation(string memory policyNumber) external view returns (uint256, bool) {
+    function getDispute(uint256 requestId) external view returns (Dispute memory) {
+        return disputes[requestId];
+    }
+    
+    function isUnderDispute(uint256 requestId) public view returns (bool) {
+        return disputes[requestId].status == DisputeStatus.OPEN;
+    }
+    
+    function getLatestValuation(string memory policyNumber) external view returns (uint256, bool, bool) {
         uint256 requestId = policyToLatestRequest[policyNumber];
-        if (requestId == 0) return (0, false);
+        if (requestId == 0) return (0, false, false);
         
         ValuationRequest storage request = valuationRequests[requestId];
-        return (request.agreedValue, request.isFinalized);
+        return (request.agreedValue, request.isFinalized, isUnderDispute(requestId));
     }
     
     // Admin functions
@@ -477,6 +913,7 @@ contract CSVOracle is AccessControl, Pausable, ReentrancyGuard {
         require(newConfig.minOracles >= 2, "CSVOracle: Minimum oracles too low");
         require(newConfig.maxOracles >= newConfig.minOracles, "CSVOracle: Invalid oracle counts");
         require(newConfig.consensusThreshold <= BASIS_POINTS, "CSVOracle: Invalid consensus threshold");
+        require(newConfig.disputePeriod < unbondingPeriod, "CSVOracle: Unbonding period too short");
         
         consensusConfig = newConfig;
     }
@@ -486,27 +923,133 @@ contract CSVOracle is AccessControl, Pausable, ReentrancyGuard {
         uint256 _oracleReward,
         uint256 _protocolFeeRate
     ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(_protocolFeeRate <= BASIS_POINTS, "CSVOracle: Invalid fee rate");
+        
         requestFee = _requestFee;
         oracleReward = _oracleReward;
         protocolFeeRate = _protocolFeeRate;
     }
     
+    function updateDisputeConfig(
+        uint256 _disputeBond,
+        uint256 _disputeSlashRate
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(_disputeSlashRate <= BASIS_POINTS, "CSVOracle: Invalid slash rate");
+        
+        disputeBond = _disputeBond;
+        disputeSlashRate = _disputeSlashRate;
+        
+        emit DisputeConfigUpdated(_disputeBond, _disputeSlashRate);
+    }
+    
+    function updateRevealConfig(
+        uint256 _revealPeriod,
+        uint256 _missedRevealSlashRate
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(_revealPeriod > 0, "CSVOracle: Invalid reveal period");
+        require(_missedRevealSlashRate <= BASIS_POINTS, "CSVOracle: Invalid slash rate");
+        
+        revealPeriod = _revealPeriod;
+        missedRevealSlashRate = _missedRevealSlashRate;
+        
+        emit RevealConfigUpdated(_revealPeriod, _missedRevealSlashRate);
+    }
+    
+    /**
+     * @dev Set the unbonding period; it must exceed the dispute period so
+     *      stake stays slashable while its valuations can be disputed
+     */
+    function updateUnbondingPeriod(uint256 _unbondingPeriod) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(_unbondingPeriod > consensusConfig.disputePeriod, "CSVOracle: Unbonding period too short");
+        
+        unbondingPeriod = _unbondingPeriod;
+        emit UnbondingPeriodUpdated(_unbondingPeriod);
+    }
+    
+    /**
+     * @dev Clear an oracle deregistered for low reputation to register again,
+     *      with a fresh track record
+     */
+    function approveRemediation(address oracleAddr) external onlyRole(ORACLE_MANAGER_ROLE) {
+        require(needsRemediation[oracleAddr], "CSVOracle: Remediation not required");
+        
+        OracleInfo storage oracle = oracles[oracleAddr];
+        needsRemediation[oracleAddr] = false;
+        oracle.totalSubmissions = 0;
+        oracle.totalCorrectSubmissions = 0;
+        oracle.reputationScore = 10000;
+        
+        emit OracleRemediated(oracleAddr);
+    }
+    
+    function setRandomnessSource(IRandomnessSource source) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(address(source) != address(0), "CSVOracle: Invalid randomness source");
+        randomnessSource = source;
+        emit RandomnessSourceUpdated(address(source));
+    }
+    
+    function setValuationConsumer(IValuationConsumer consumer) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        valuationConsumer = consumer;
+        emit ValuationConsumerUpdated(address(consumer));
+    }
+    
+    /**
+     * @dev Record or clear a tie between an oracle and a party it must not value for
+     */
+    function setOracleConflict(
+        address oracleAddr,
+        address party,
+        bool conflicted
+    ) external onlyRole(ORACLE_MANAGER_ROLE) {
+        oracleConflicts[oracleAddr][party] = conflicted;
+        emit OracleConflictUpdated(oracleAddr, party, conflicted);
+    }
+    
+    /**
+     * @dev Declare a tie to `party`; only an oracle manager can clear it
+     */
+    function declareConflict(address party) external onlyRegisteredOracle {
+        oracleConflicts[msg.sender][party] = true;
+        emit OracleConflictUpdated(msg.sender, party, true);
+    }
+    
     function slashOracle(
         address oracleAddr,
         uint256 amount,
         string memory reason
     ) external onlyRole(ORACLE_MANAGER_ROLE) {
-        require(oracles[oracleAddr].stakingAmount >= amount, "CSVOracle: Insufficient stake");
+        _slash(oracleAddr, amount, reason);
+    }
+    
+    /**
+     * @dev Slash bonded stake first, then stake that is still unbonding
+     */
+    function _slash(address oracleAddr, uint256 amount, string memory reason) internal {
+        require(_slashableStake(oracleAddr) >= amount, "CSVOracle: Insufficient stake");
         
-        oracles[oracleAddr].stakingAmount -= amount;
-        if (oracles[oracleAddr].stakingAmount == 0) {
-            oracles[oracleAddr].isActive = false;
-            _revokeRole(ORACLE_ROLE, oracleAddr);
+        OracleInfo storage oracle = oracles[oracleAddr];
+        uint256 fromBonded = amount < oracle.stakingAmount ? amount : oracle.stakingAmount;
+        oracle.stakingAmount -= fromBonded;
+        unbondings[oracleAddr].amount -= amount - fromBonded;
+        totalStaked -= amount;
+        
+        if (oracle.stakingAmount == 0 && oracle.isActive) {
+            _deactivate(oracleAddr, "Stake depleted");
         }
         
         emit OracleSlashed(oracleAddr, amount, reason);
     }
     
+    function _slashableStake(address oracleAddr) internal view returns (uint256) {
+        return oracles[oracleAddr].stakingAmount + unbondings[oracleAddr].amount;
+    }
+    
+    function _deactivate(address oracleAddr, string memory reason) internal {
+        oracles[oracleAddr].isActive = false;
+        _revokeRole(ORACLE_ROLE, oracleAddr);
+        emit OracleDeregistered(oracleAddr, reason);
+    }
+    
     function pause() external onlyRole(DEFAULT_ADMIN_ROLE) {
         _pause();
     }
@@ -515,8 +1058,23 @@ contract CSVOracle is AccessControl, Pausable, ReentrancyGuard {
         _unpause();
     }
     
+    /**
+     * @dev Add to `rewardPool`, e.g. to pay for the fee-free revaluations
+     *      that overturned disputes request
+     */
+    function fundRewardPool() external payable {
+        require(msg.value > 0, "CSVOracle: No funds");
+        rewardPool += msg.value;
+        emit RewardPoolFunded(msg.sender, msg.value, rewardPool);
+    }
+    
+    /**
+     * @dev Withdraw the protocol's share of fees, slashed stake and kept
+     *      dispute bonds; bonded and unbonding stake, the bonds of open
+     *      disputes and the reward pool stay
+     */
     function withdrawProtocolFees() external onlyRole(DEFAULT_ADMIN_ROLE) {
-        uint256 balance = address(this).balance;
+        uint256 balance = address(this).balance - totalStaked - totalOpenDisputeBonds - rewardPool;
         if (balance > 0) {
             payable(msg.sender).transfer(balance);
         }
@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title IRandomnessSource
+ * @dev Source of the seed CSVOracle selects the oracles of a request with,
+ *      such as a VRF coordinator adapter
+ */
+interface IRandomnessSource {
+    /**
+     * @dev Seed for selecting the oracles of `requestId`; called once per
+     *      request by the oracle contract
+     */
+    function randomSeed(uint256 requestId) external returns (uint256);
+}
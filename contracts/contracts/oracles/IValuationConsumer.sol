@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title IValuationConsumer
+ * @dev Receiver CSVOracle notifies when a valuation request is finalized,
+ *      such as the ValuationRelay that writes it through to the token and vault
+ */
+interface IValuationConsumer {
+    /**
+     * @dev Called by the oracle contract once consensus on `requestId` is
+     *      reached; a revert is caught and does not block finalization
+     */
+    function onValuationFinalized(uint256 requestId, string calldata policyNumber, uint256 value) external;
+}
@@ -0,0 +1,244 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "../core/ERCRWACSV.sol";
+import "../core/CSVVault.sol";
+import "./CSVOracle.sol";
+import "./IValuationConsumer.sol";
+
+/**
+ * @title ValuationRelay
+ * @dev Writes finalized CSVOracle valuations through to the policy's token
+ *      and vault
+ * @notice Each policy number is bound to its ERCRWACSV token and, once one is
+ * opened, its CSVVault position. The oracle pushes every finalized valuation
+ * here, but it can still be disputed, so it is only announced; anyone applies
+ * it with `propagate` once the oracle's dispute period is over. A valuation
+ * updates the token's cash value and the vault's collateral value and
+ * liquidation threshold in the same transaction. Moves larger than
+ * `maxChangeBps` of the current cash value trip a circuit breaker and are
+ * held until a risk manager releases or rejects them. The relay needs
+ * ORACLE_ROLE on both the token and the vault.
+ */
+contract ValuationRelay is AccessControl, IValuationConsumer {
+    bytes32 public constant BINDING_MANAGER_ROLE = keccak256("BINDING_MANAGER_ROLE");
+    bytes32 public constant RISK_MANAGER_ROLE = keccak256("RISK_MANAGER_ROLE");
+    
+    struct Binding {
+        uint256 tokenId;
+        uint256 vaultId; // Zero while the policy is not vaulted
+        uint256 lastRequestId; // Latest valuation request applied or held
+        bool isActive;
+    }
+    
+    // Valuation held back by the circuit breaker
+    struct HeldValuation {
+        uint256 requestId;
+        uint256 value;
+    }
+    
+    CSVOracle public immutable oracle;
+    ERCRWACSV public immutable csvToken;
+    CSVVault public immutable vault;
+    
+    mapping(string => Binding) public bindings;
+    mapping(string => HeldValuation) public heldValuations;
+    
+    uint256 public maxChangeBps = 2000; // 20% of the current cash value
+    
+    uint256 public constant BASIS_POINTS = 10000;
+    
+    event PolicyBound(string policyNumber, uint256 indexed tokenId, uint256 indexed vaultId);
+    event PolicyUnbound(string policyNumber);
+    event ValuationPropagated(
+        string policyNumber,
+        uint256 indexed requestId,
+        uint256 indexed tokenId,
+        uint256 vaultId,
+        uint256 oldValue,
+        uint256 newValue
+    );
+    event CircuitBreakerTripped(string policyNumber, uint256 indexed requestId, uint256 currentValue, uint256 proposedValue);
+    event ValuationRejected(string policyNumber, uint256 indexed requestId);
+    event ValuationPending(string policyNumber, uint256 indexed requestId, uint256 applicableAt);
+    event MaxChangeUpdated(uint256 maxChangeBps);
+    
+    constructor(CSVOracle _oracle, ERCRWACSV _csvToken, CSVVault _vault) {
+        require(address(_oracle) != address(0), "ValuationRelay: Invalid oracle");
+        require(address(_csvToken) != address(0), "ValuationRelay: Invalid token");
+        require(address(_vault) != address(0), "ValuationRelay: Invalid vault");
+        
+        oracle = _oracle;
+        csvToken = _csvToken;
+        vault = _vault;
+        
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        _grantRole(BINDING_MANAGER_ROLE, msg.sender);
+        _grantRole(RISK_MANAGER_ROLE, msg.sender);
+    }
+    
+    /**
+     * @dev Bind a policy number to its token and, if `vaultId` is not zero,
+     *      the vault holding it; rebinding keeps the last applied request
+     */
+    function bindPolicy(
+        string calldata policyNumber,
+        uint256 tokenId,
+        uint256 vaultId
+    ) external onlyRole(BINDING_MANAGER_ROLE) {
+        ERCRWACSV.CSVMetadata memory metadata = csvToken.getCSVMetadata(tokenId);
+        require(metadata.isActive, "ValuationRelay: Token not active");
+        require(
+            keccak256(bytes(metadata.policyNumber)) == keccak256(bytes(policyNumber)),
+            "ValuationRelay: Policy number mismatch"
+        );
+        if (vaultId != 0) {
+            CSVVault.VaultPosition memory position = vault.getVaultPosition(vaultId);
+            require(position.isActive, "ValuationRelay: Vault not active");
+            require(position.tokenId == tokenId, "ValuationRelay: Vault holds another token");
+        }
+        
+        Binding storage binding = bindings[policyNumber];
+        binding.tokenId = tokenId;
+        binding.vaultId = vaultId;
+        binding.isActive = true;
+        
+        emit PolicyBound(policyNumber, tokenId, vaultId);
+    }
+    
+    function unbindPolicy(string calldata policyNumber) external onlyRole(BINDING_MANAGER_ROLE) {
+        require(bindings[policyNumber].isActive, "ValuationRelay: Policy not bound");
+        
+        delete bindings[policyNumber];
+        delete heldValuations[policyNumber];
+        
+        emit PolicyUnbound(policyNumber);
+    }
+    
+    /**
+     * @dev Push path: called by the oracle as a request is finalized. The
+     *      valuation is not applied until its dispute period is over; this
+     *      announces when `propagate` can apply it. Unbound policies and
+     *      requests older than the last one applied are ignored so
+     *      finalization never depends on the binding.
+     */
+    function onValuationFinalized(
+        uint256 requestId,
+        string calldata policyNumber,
+        uint256
+    ) external override {
+        require(msg.sender == address(oracle), "ValuationRelay: Caller is not the oracle");
+        
+        Binding storage binding = bindings[policyNumber];
+        if (!binding.isActive || requestId <= binding.lastRequestId) return;
+        
+        emit ValuationPending(policyNumber, requestId, _disputePeriodEnd(requestId) + 1);
+    }
+    
+    /**
+     * @dev Apply the policy's latest valuation request once it is finalized,
+     *      its dispute period is over and it was not overturned
+     */
+    function propagate(string calldata policyNumber) external {
+        Binding storage binding = bindings[policyNumber];
+        require(binding.isActive, "ValuationRelay: Policy not bound");
+        
+        uint256 requestId = oracle.policyToLatestRequest(policyNumber);
+        require(requestId > binding.lastRequestId, "ValuationRelay: Valuation already applied");
+        
+        CSVOracle.ValuationRequest memory request = oracle.getValuationRequest(requestId);
+        require(request.isFinalized, "ValuationRelay: Valuation not finalized");
+        require(block.timestamp > _disputePeriodEnd(requestId), "ValuationRelay: Dispute period not over");
+        require(_isUndisputed(requestId), "ValuationRelay: Valuation disputed");
+        
+        _route(policyNumber, binding, requestId, request.agreedValue);
+    }
+    
+    /**
+     * @dev Apply a valuation the circuit breaker held back
+     */
+    function releaseValuation(string calldata policyNumber) external onlyRole(RISK_MANAGER_ROLE) {
+        HeldValuation memory held = heldValuations[policyNumber];
+        require(held.requestId != 0, "ValuationRelay: No held valuation");
+        require(_isUndisputed(held.requestId), "ValuationRelay: Valuation disputed");
+        
+        delete heldValuations[policyNumber];
+        _apply(policyNumber, bindings[policyNumber], held.requestId, held.value);
+    }
+    
+    function rejectValuation(string calldata policyNumber) external onlyRole(RISK_MANAGER_ROLE) {
+        uint256 requestId = heldValuations[policyNumber].requestId;
+        require(requestId != 0, "ValuationRelay: No held valuation");
+        
+        delete heldValuations[policyNumber];
+        
+        emit ValuationRejected(policyNumber, requestId);
+    }
+    
+    function setMaxChangeBps(uint256 newMaxChangeBps) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(newMaxChangeBps > 0, "ValuationRelay: Invalid max change");
+        maxChangeBps = newMaxChangeBps;
+        emit MaxChangeUpdated(newMaxChangeBps);
+    }
+    
+    /**
+     * @dev Apply `value` or hold it if it moves the cash value by more than
+     *      `maxChangeBps`; a newer valuation supersedes one still held
+     */
+    function _route(
+        string calldata policyNumber,
+        Binding storage binding,
+        uint256 requestId,
+        uint256 value
+    ) internal {
+        delete heldValuations[policyNumber];
+        
+        uint256 currentValue = csvToken.getCSVMetadata(binding.tokenId).cashValue;
+        uint256 change = value > currentValue ? value - currentValue : currentValue - value;
+        if (change * BASIS_POINTS > currentValue * maxChangeBps) {
+            binding.lastRequestId = requestId;
+            heldValuations[policyNumber] = HeldValuation({requestId: requestId, value: value});
+            emit CircuitBreakerTripped(policyNumber, requestId, currentValue, value);
+            return;
+        }
+        
+        _apply(policyNumber, binding, requestId, value);
+    }
+    
+    function _apply(
+        string calldata policyNumber,
+        Binding storage binding,
+        uint256 requestId,
+        uint256 value
+    ) internal {
+        uint256 oldValue = csvToken.getCSVMetadata(binding.tokenId).cashValue;
+        binding.lastRequestId = requestId;
+        
+        csvToken.updateCSVValuation(binding.tokenId, value);
+        // A closed or liquidated vault keeps its last collateral value
+        if (binding.vaultId != 0 && vault.getVaultPosition(binding.vaultId).isActive) {
+            vault.updateCollateralValuation(binding.vaultId, value);
+        }
+        
+        emit ValuationPropagated(policyNumber, requestId, binding.tokenId, binding.vaultId, oldValue, value);
+    }
+    
+    function _disputePeriodEnd(uint256 requestId) internal view returns (uint256) {
+        (, , , uint256 disputePeriod, , ) = oracle.consensusConfig();
+        return oracle.finalizedAt(requestId) + disputePeriod;
+    }
+    
+    function _isUndisputed(uint256 requestId) internal view returns (bool) {
+        CSVOracle.DisputeStatus status = oracle.getDispute(requestId).status;
+        return status == CSVOracle.DisputeStatus.NONE || status == CSVOracle.DisputeStatus.UPHELD;
+    }
+    
+    function getBinding(string calldata policyNumber) external view returns (Binding memory) {
+        return bindings[policyNumber];
+    }
+    
+    function getHeldValuation(string calldata policyNumber) external view returns (HeldValuation memory) {
+        return heldValuations[policyNumber];
+    }
+}
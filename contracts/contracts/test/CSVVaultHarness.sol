@@ -0,0 +1,33 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../core/CSVVault.sol";
+
+/**
+ * @dev Test harness for CSVVault to expose internal pre-mint/vintage checks.
+ *      Only included in test builds!
+ */
+contract CSVVaultHarness is CSVVault {
+    constructor(address token)
+        CSVVault(
+            token,
+            VaultConfig({
+                maxLTV: 8000,
+                liquidationPenalty: 1000,
+                minCollateralValue: 1 ether,
+                stabilityFee: 0,
+                isEnabled: true
+            })
+        )
+    {}
+
+    function __test__preMint(bytes32 carrier, uint64 issueTs, uint256 addBps) external view {
+        _enforceVintage(issueTs);
+        _preMintChecks(carrier, addBps);
+    }
+
+    function __test__setExposure(bytes32 carrier, uint256 exposure, uint256 debt) external {
+        carrierExposure[carrier] = exposure;
+        totalDebt = debt;
+    }
+}
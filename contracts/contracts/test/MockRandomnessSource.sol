@@ -0,0 +1,27 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../oracles/IRandomnessSource.sol";
+
+/**
+ * @dev VRF-style randomness mock for local tests: seeds are derived from a
+ *      settable salt and the request ID, or fixed per request.
+ *      Only included in test builds!
+ */
+contract MockRandomnessSource is IRandomnessSource {
+    uint256 public salt;
+    mapping(uint256 => uint256) public fixedSeeds;
+    
+    function setSalt(uint256 _salt) external {
+        salt = _salt;
+    }
+    
+    function setSeed(uint256 requestId, uint256 seed) external {
+        fixedSeeds[requestId] = seed;
+    }
+    
+    function randomSeed(uint256 requestId) external view returns (uint256) {
+        uint256 seed = fixedSeeds[requestId];
+        return seed != 0 ? seed : uint256(keccak256(abi.encode(salt, requestId)));
+    }
+}
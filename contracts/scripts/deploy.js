@@ -49,6 +49,13 @@ async function main() {
   await csvVault.deployed();
   console.log("✅ CSVVault deployed to:", csvVault.address);
 
+  // Deploy ValuationRelay, which writes finalized valuations to the token and vault
+  console.log("\n📡 Deploying ValuationRelay...");
+  const ValuationRelay = await ethers.getContractFactory("ValuationRelay");
+  const valuationRelay = await ValuationRelay.deploy(csvOracle.address, csvToken.address, csvVault.address);
+  await valuationRelay.deployed();
+  console.log("✅ ValuationRelay deployed to:", valuationRelay.address);
+
   // Deploy mock USDC for testing (in production, use real USDC address)
   console.log("\n💵 Deploying Mock USDC...");
   const MockERC20 = await ethers.getContractFactory("MockERC20");
@@ -76,6 +83,16 @@ async function main() {
   await liquidityPool.deployed();
   console.log("✅ CSVLiquidityPool deployed to:", liquidityPool.address);
 
+  // Deploy one ERC-4626 wrapper per tranche
+  console.log("\n🎁 Deploying tranche wrappers...");
+  const CSVTrancheVault = await ethers.getContractFactory("CSVTrancheVault");
+  const seniorVault = await CSVTrancheVault.deploy(liquidityPool.address, 0, "iYield Senior Tranche", "iySNR");
+  await seniorVault.deployed();
+  const juniorVault = await CSVTrancheVault.deploy(liquidityPool.address, 1, "iYield Junior Tranche", "iyJNR");
+  await juniorVault.deployed();
+  console.log("✅ Senior tranche wrapper deployed to:", seniorVault.address);
+  console.log("✅ Junior tranche wrapper deployed to:", juniorVault.address);
+
   // Grant necessary roles
   console.log("\n🔐 Setting up roles and permissions...");
   
@@ -87,17 +104,57 @@ async function main() {
   await csvToken.grantRole(MINTER_ROLE, csvVault.address);
   await csvToken.grantRole(BURNER_ROLE, csvVault.address);
   await csvToken.grantRole(ORACLE_ROLE, csvOracle.address);
+  await csvToken.grantRole(ORACLE_ROLE, valuationRelay.address);
+  // The token keeps investor compliance in the registry
+  const COMPLIANCE_OFFICER_ROLE = await complianceRegistry.COMPLIANCE_OFFICER_ROLE();
+  await complianceRegistry.grantRole(COMPLIANCE_OFFICER_ROLE, csvToken.address);
+  // The vault seizes policies and takes auction payments in CSV tokens
+  await csvToken.grantRole(await csvToken.LIQUIDATOR_ROLE(), csvVault.address);
+  await csvToken.updateCompliance(csvVault.address, {
+    isAccredited: true,
+    isKYCVerified: true,
+    jurisdictionCode: 1,
+    lockupExpiry: 0,
+    isRestricted: false
+  });
   console.log("✅ CSV Token roles configured");
 
+  // Tranche wrappers deposit in the pool on behalf of their holders
+  for (const wrapper of [seniorVault, juniorVault]) {
+    await liquidityPool.setTrancheWrapper(wrapper.address, true);
+    await csvToken.updateCompliance(wrapper.address, {
+      isAccredited: true,
+      isKYCVerified: true,
+      jurisdictionCode: 1,
+      lockupExpiry: 0,
+      isRestricted: false
+    });
+  }
+  console.log("✅ Tranche wrappers registered");
+
   // Vault roles
   const VAULT_ORACLE_ROLE = await csvVault.ORACLE_ROLE();
   await csvVault.grantRole(VAULT_ORACLE_ROLE, csvOracle.address);
+  await csvVault.grantRole(VAULT_ORACLE_ROLE, valuationRelay.address);
   console.log("✅ CSV Vault roles configured");
 
   // Oracle roles
   const ORACLE_CONSUMER_ROLE = await csvOracle.CONSUMER_ROLE();
   await csvOracle.grantRole(ORACLE_CONSUMER_ROLE, csvToken.address);
   await csvOracle.grantRole(ORACLE_CONSUMER_ROLE, csvVault.address);
+  // Finalized valuations are announced to the relay and applied with `propagate` after the dispute period.
+  // Policies are not bound automatically: a binding manager calls `bindPolicy` for each token and vault.
+  await csvOracle.setValuationConsumer(valuationRelay.address);
+  // Selection seeds come from RANDOMNESS_SOURCE_ADDRESS, e.g. a VRF adapter, or else a block-hash commit source
+  let randomnessSourceAddress = process.env.RANDOMNESS_SOURCE_ADDRESS;
+  if (!randomnessSourceAddress) {
+    const BlockHashRandomnessSource = await ethers.getContractFactory("BlockHashRandomnessSource");
+    const randomnessSource = await BlockHashRandomnessSource.deploy(csvOracle.address);
+    await randomnessSource.deployed();
+    randomnessSourceAddress = randomnessSource.address;
+    console.log("✅ BlockHashRandomnessSource deployed to:", randomnessSourceAddress);
+  }
+  await csvOracle.setRandomnessSource(randomnessSourceAddress);
   console.log("✅ CSV Oracle roles configured");
 
   // Mint some mock USDC for testing
@@ -118,7 +175,11 @@ async function main() {
       CSVOracle: csvOracle.address,
       ERCRWACSV: csvToken.address,
       CSVVault: csvVault.address,
+      ValuationRelay: valuationRelay.address,
+      RandomnessSource: randomnessSourceAddress,
       CSVLiquidityPool: liquidityPool.address,
+      SeniorTrancheVault: seniorVault.address,
+      JuniorTrancheVault: juniorVault.address,
       MockUSDC: mockUSDC.address
     },
     verification: {
@@ -126,7 +187,13 @@ async function main() {
       CSVOracle: `npx hardhat verify --network ${hre.network.name} ${csvOracle.address}`,
       ERCRWACSV: `npx hardhat verify --network ${hre.network.name} ${csvToken.address} "iYield CSV Token" "iYCSV" ${complianceRegistry.address} ${csvOracle.address}`,
       CSVVault: `npx hardhat verify --network ${hre.network.name} ${csvVault.address} ${csvToken.address} '${JSON.stringify(vaultConfig)}'`,
+      ValuationRelay: `npx hardhat verify --network ${hre.network.name} ${valuationRelay.address} ${csvOracle.address} ${csvToken.address} ${csvVault.address}`,
+      ...(process.env.RANDOMNESS_SOURCE_ADDRESS ? {} : {
+        BlockHashRandomnessSource: `npx hardhat verify --network ${hre.network.name} ${randomnessSourceAddress} ${csvOracle.address}`
+      }),
       CSVLiquidityPool: `npx hardhat verify --network ${hre.network.name} ${liquidityPool.address} ${csvToken.address} ${mockUSDC.address} '${JSON.stringify(poolConfig)}'`,
+      SeniorTrancheVault: `npx hardhat verify --network ${hre.network.name} ${seniorVault.address} ${liquidityPool.address} 0 "iYield Senior Tranche" "iySNR"`,
+      JuniorTrancheVault: `npx hardhat verify --network ${hre.network.name} ${juniorVault.address} ${liquidityPool.address} 1 "iYield Junior Tranche" "iyJNR"`,
       MockUSDC: `npx hardhat verify --network ${hre.network.name} ${mockUSDC.address} "USD Coin" "USDC" 6`
     }
   };
@@ -0,0 +1,50 @@
+import { ethers } from "hardhat";
+
+/**
+ * Copies the compliance records of a previous ERCRWACSV deployment, which kept
+ * them in the token, into the ComplianceRegistry the current token reads.
+ *
+ *   LEGACY_TOKEN_ADDRESS=0x… TOKEN_ADDRESS=0x… npx hardhat run scripts/migrate-compliance.ts --network <network>
+ *
+ * Accounts are found from the legacy token's `ComplianceUpdated` events. The
+ * signer needs COMPLIANCE_ROLE on the current token, and the current token
+ * needs COMPLIANCE_OFFICER_ROLE on its registry. Legacy records carry no
+ * expiry, so migrated KYC and accreditation expire after the registry's
+ * validity periods from the time of migration.
+ */
+const BATCH_SIZE = Number(process.env.BATCH_SIZE || 50);
+
+async function main() {
+  const legacyAddress = process.env.LEGACY_TOKEN_ADDRESS;
+  const tokenAddress = process.env.TOKEN_ADDRESS;
+  if (!legacyAddress || !tokenAddress) {
+    throw new Error("Set LEGACY_TOKEN_ADDRESS and TOKEN_ADDRESS");
+  }
+
+  const legacy = await ethers.getContractAt("ERCRWACSV", legacyAddress);
+  const token = await ethers.getContractAt("ERCRWACSV", tokenAddress);
+
+  const events = await legacy.queryFilter(legacy.filters.ComplianceUpdated(), Number(process.env.FROM_BLOCK || 0));
+  const accounts = [...new Set(events.map((event) => event.args.account))];
+  console.log(`Found ${accounts.length} accounts with compliance records on ${legacyAddress}`);
+
+  for (let start = 0; start < accounts.length; start += BATCH_SIZE) {
+    const batch = accounts.slice(start, start + BATCH_SIZE);
+    const records = await Promise.all(
+      batch.map(async (account) => {
+        const { isAccredited, isKYCVerified, jurisdictionCode, lockupExpiry, isRestricted } =
+          await legacy.getComplianceData(account);
+        return { isAccredited, isKYCVerified, jurisdictionCode, lockupExpiry, isRestricted };
+      })
+    );
+
+    const tx = await token.batchUpdateCompliance(batch, records);
+    await tx.wait();
+    console.log(`Migrated accounts ${start + 1}-${start + batch.length} in ${tx.hash}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
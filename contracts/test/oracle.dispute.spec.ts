@@ -0,0 +1,288 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+
+const DAY = 24 * 60 * 60;
+const parse = (amount: string) => ethers.parseEther(amount);
+
+const STAKE = parse("1");
+const BOND = parse("0.05");
+const REWARD = parse("0.002");
+
+enum DisputeStatus {
+  NONE,
+  OPEN,
+  UPHELD,
+  OVERTURNED,
+}
+
+const commitment = (requestId: bigint, oracle: string, value: bigint, salt: string) =>
+  ethers.keccak256(
+    ethers.AbiCoder.defaultAbiCoder().encode(["uint256", "address", "uint256", "bytes32"], [requestId, oracle, value, salt])
+  );
+
+describe("CSVOracle — disputes", () => {
+  async function deployFinalizedValuation() {
+    const [gov, requester, disputer, outsider, ...operators] = await ethers.getSigners();
+    const oracleNodes = operators.slice(0, 6);
+
+    const Oracle = await ethers.getContractFactory("CSVOracle");
+    const oracle = await Oracle.deploy();
+    const Randomness = await ethers.getContractFactory("MockRandomnessSource");
+    await oracle.setRandomnessSource(await (await Randomness.deploy()).getAddress());
+
+    for (const [i, node] of oracleNodes.entries()) {
+      await oracle.connect(node).registerOracle(`Oracle ${i + 1}`, `https://oracle-${i + 1}.example`, STAKE, { value: STAKE });
+    }
+
+    const deadline = (await time.latest()) + DAY;
+    await oracle.connect(requester).requestValuation("POL-1", deadline, "ipfs://policy", { value: parse("0.01") });
+    const requestId = 1n;
+
+    // Commit every answer, then reveal them all once the deadline has passed
+    const respond = async (id: bigint, answers: [(typeof oracleNodes)[number], bigint][]) => {
+      for (const [node, value] of answers) {
+        await oracle.connect(node).commitValuation(id, commitment(id, node.address, value, ethers.id(node.address)));
+      }
+      await time.increaseTo((await oracle.getValuationRequest(id)).deadline + 1n);
+      for (const [node, value] of answers) {
+        await oracle.connect(node).revealValuation(id, value, ethers.id(node.address), ethers.ZeroHash, "ipfs://proof");
+      }
+    };
+
+    // All six are assigned; three commit, and the last reveal finalizes at the
+    // 100k median. The 115k response is outside the 10% band and earns no reward.
+    const [o1, o2, o3, o4, o5, o6] = oracleNodes;
+    await respond(requestId, [
+      [o1, parse("100000")],
+      [o2, parse("100000")],
+      [o3, parse("115000")],
+    ]);
+
+    return { gov, requester, disputer, outsider, oracle, requestId, respond, o1, o2, o3, o4, o5, o6 };
+  }
+
+
+  async function deployOpenDispute() {
+    const fixture = await deployFinalizedValuation();
+    await fixture.oracle.connect(fixture.disputer).raiseDispute(fixture.requestId, "Carrier statement shows 115k", { value: BOND });
+    return fixture;
+  }
+
+  describe("raising a dispute", () => {
+    it("holds the bond and reports the valuation as under dispute", async () => {
+      const { oracle, disputer, requestId } = await loadFixture(deployFinalizedValuation);
+      expect(await oracle.getLatestValuation("POL-1")).to.deep.equal([parse("100000"), true, false]);
+
+      const raise = oracle.connect(disputer).raiseDispute(requestId, "Carrier statement shows 115k", { value: BOND });
+      await expect(raise)
+        .to.emit(oracle, "DisputeRaised")
+        .withArgs(requestId, disputer.address, "Carrier statement shows 115k");
+      await expect(raise).to.changeEtherBalances([disputer, oracle], [-BOND, BOND]);
+
+      const dispute = await oracle.getDispute(requestId);
+      expect(dispute.status).to.equal(DisputeStatus.OPEN);
+      expect(dispute.bond).to.equal(BOND);
+      expect(await oracle.isUnderDispute(requestId)).to.equal(true);
+      expect(await oracle.getLatestValuation("POL-1")).to.deep.equal([parse("100000"), true, true]);
+    });
+
+    it("requires a finalized request, a bond and a reason", async () => {
+      const { oracle, disputer, requestId } = await loadFixture(deployFinalizedValuation);
+
+      await expect(oracle.connect(disputer).raiseDispute(99n, "Wrong", { value: BOND })).to.be.revertedWith(
+        "CSVOracle: Request not finalized"
+      );
+      await expect(oracle.connect(disputer).raiseDispute(requestId, "Wrong", { value: BOND - 1n })).to.be.revertedWith(
+        "CSVOracle: Insufficient bond"
+      );
+      await expect(oracle.connect(disputer).raiseDispute(requestId, "", { value: BOND })).to.be.revertedWith(
+        "CSVOracle: Reason required"
+      );
+    });
+
+    it("closes once the dispute period has passed", async () => {
+      const { oracle, disputer, requestId } = await loadFixture(deployFinalizedValuation);
+      await time.increaseTo((await oracle.finalizedAt(requestId)) + BigInt(DAY) + 1n);
+
+      await expect(oracle.connect(disputer).raiseDispute(requestId, "Too late", { value: BOND })).to.be.revertedWith(
+        "CSVOracle: Dispute period over"
+      );
+    });
+
+    it("allows one dispute per request", async () => {
+      const { oracle, outsider, requestId } = await loadFixture(deployOpenDispute);
+
+      await expect(oracle.connect(outsider).raiseDispute(requestId, "Me too", { value: BOND })).to.be.revertedWith(
+        "CSVOracle: Already disputed"
+      );
+    });
+  });
+
+  describe("resolving a dispute", () => {
+    it("keeps the bond and the valuation when upheld", async () => {
+      const { oracle, gov, disputer, requestId, o1 } = await loadFixture(deployOpenDispute);
+
+      const resolve = oracle.connect(gov).resolveDispute(requestId, false, 0);
+      await expect(resolve).to.emit(oracle, "DisputeResolved").withArgs(requestId, false, 0, 0);
+      await expect(resolve).to.changeEtherBalances([disputer, oracle], [0, 0]);
+      await expect(resolve).not.to.emit(oracle, "OracleSlashed");
+
+      expect((await oracle.getDispute(requestId)).status).to.equal(DisputeStatus.UPHELD);
+      expect(await oracle.getLatestValuation("POL-1")).to.deep.equal([parse("100000"), true, false]);
+      expect((await oracle.getOracleInfo(o1.address)).stakingAmount).to.equal(STAKE);
+    });
+
+    it("slashes and claws back rewards from the deviating oracles when overturned", async () => {
+      const { oracle, gov, requestId, o1, o2, o3 } = await loadFixture(deployOpenDispute);
+      const penalty = STAKE / 10n + REWARD;
+
+      await expect(oracle.connect(gov).resolveDispute(requestId, true, parse("115000")))
+        .to.emit(oracle, "RewardClawedBack")
+        .withArgs(o1.address, requestId, REWARD)
+        .and.to.emit(oracle, "RewardClawedBack")
+        .withArgs(o2.address, requestId, REWARD)
+        .and.to.emit(oracle, "OracleSlashed")
+        .withArgs(o1.address, penalty, "Valuation overturned in dispute")
+        .and.to.emit(oracle, "OracleSlashed")
+        .withArgs(o2.address, penalty, "Valuation overturned in dispute");
+
+      for (const node of [o1, o2]) {
+        const info = await oracle.getOracleInfo(node.address);
+        expect(info.stakingAmount).to.equal(STAKE - penalty);
+        expect(info.totalCorrectSubmissions).to.equal(0n);
+        expect(info.isActive).to.equal(false);
+        expect(await oracle.rewardsPaid(requestId, node.address)).to.equal(0n);
+        expect((await oracle.getOracleResponse(requestId, node.address)).isValid).to.equal(false);
+      }
+      // The 115k response agreed with the corrected value.
+      expect((await oracle.getOracleInfo(o3.address)).stakingAmount).to.equal(STAKE);
+      expect((await oracle.getOracleResponse(requestId, o3.address)).isValid).to.equal(true);
+    });
+
+    it("refunds the bond and requests a re-valuation from the remaining oracles", async () => {
+      const { oracle, gov, disputer, requestId, respond, o4, o5, o6 } = await loadFixture(deployOpenDispute);
+
+      const resolve = oracle.connect(gov).resolveDispute(requestId, true, parse("115000"));
+      await expect(resolve)
+        .to.emit(oracle, "DisputeResolved")
+        .withArgs(requestId, true, parse("115000"), 2n)
+        .and.to.emit(oracle, "ValuationRequested")
+        .withArgs(2n, "POL-1", disputer.address);
+      await expect(resolve).to.changeEtherBalance(disputer, BOND);
+
+      const dispute = await oracle.getDispute(requestId);
+      expect(dispute.status).to.equal(DisputeStatus.OVERTURNED);
+      expect(dispute.correctedValue).to.equal(parse("115000"));
+      expect(dispute.revaluationRequestId).to.equal(2n);
+      expect([...(await oracle.getAssignedOracles(2n))]).to.have.members([o4.address, o5.address, o6.address]);
+      expect(await oracle.getLatestValuation("POL-1")).to.deep.equal([0n, false, false]);
+
+      await respond(2n, [
+        [o4, parse("114000")],
+        [o5, parse("115000")],
+        [o6, parse("116000")],
+      ]);
+      expect(await oracle.getLatestValuation("POL-1")).to.deep.equal([parse("115000"), true, false]);
+    });
+
+    it("resolves an overturn when too few oracles are left to request a re-valuation", async () => {
+      const { oracle, gov, disputer, requestId } = await loadFixture(deployOpenDispute);
+      // Slashing o1 and o2 leaves four active oracles, one short of the minimum
+      await oracle.connect(gov).updateConsensusConfig({
+        minOracles: 5,
+        maxOracles: 7,
+        consensusThreshold: 6000,
+        disputePeriod: DAY,
+        maxDeviationPercent: 1000,
+        responsePeriod: DAY,
+      });
+
+      const resolve = oracle.connect(gov).resolveDispute(requestId, true, parse("115000"));
+      await expect(resolve)
+        .to.emit(oracle, "DisputeResolved")
+        .withArgs(requestId, true, parse("115000"), 0n)
+        .and.not.to.emit(oracle, "ValuationRequested");
+      await expect(resolve).to.changeEtherBalance(disputer, BOND);
+
+      const dispute = await oracle.getDispute(requestId);
+      expect(dispute.status).to.equal(DisputeStatus.OVERTURNED);
+      expect(dispute.revaluationRequestId).to.equal(0n);
+      expect(await oracle.totalOpenDisputeBonds()).to.equal(0n);
+      expect(await oracle.nextRequestId()).to.equal(2n);
+    });
+
+    it("keeps open dispute bonds out of protocol fee withdrawals", async () => {
+      const { oracle, gov, disputer, requestId } = await loadFixture(deployOpenDispute);
+      expect(await oracle.totalOpenDisputeBonds()).to.equal(BOND);
+
+      // Only the protocol's 10% of the request fee
+      await expect(oracle.connect(gov).withdrawProtocolFees()).to.changeEtherBalance(gov, parse("0.001"));
+      await expect(oracle.connect(gov).resolveDispute(requestId, true, parse("115000"))).to.changeEtherBalance(
+        disputer,
+        BOND
+      );
+      expect(await oracle.totalOpenDisputeBonds()).to.equal(0n);
+    });
+
+    it("pays the revaluation's rewards out of the reward pool, clawed-back rewards included", async () => {
+      const { oracle, gov, outsider, requestId, respond, o4, o5, o6 } = await loadFixture(deployOpenDispute);
+      // 90% of the request fee, less the two rewards paid
+      expect(await oracle.rewardPool()).to.equal(parse("0.009") - 2n * REWARD);
+
+      await oracle.connect(gov).resolveDispute(requestId, true, parse("115000"));
+      expect(await oracle.rewardPool()).to.equal(parse("0.009"));
+
+      // Rewards worth more than the pool: the last oracle gets what is left
+      await oracle.connect(gov).updateFees(parse("0.01"), parse("0.004"), 1000);
+      await respond(2n, [
+        [o4, parse("114000")],
+        [o5, parse("115000")],
+        [o6, parse("116000")],
+      ]);
+      const paid = await Promise.all([o4, o5, o6].map((node) => oracle.rewardsPaid(2n, node.address)));
+      expect(paid).to.deep.equal([parse("0.004"), parse("0.004"), parse("0.001")]);
+      expect(await oracle.rewardPool()).to.equal(0n);
+      // The slashes net of the clawed-back rewards and the protocol's 10% of the fee
+      await expect(oracle.connect(gov).withdrawProtocolFees()).to.changeEtherBalance(gov, parse("0.201"));
+      expect(await ethers.provider.getBalance(await oracle.getAddress())).to.equal(await oracle.totalStaked());
+
+      await expect(oracle.connect(outsider).fundRewardPool({ value: parse("1") }))
+        .to.emit(oracle, "RewardPoolFunded")
+        .withArgs(outsider.address, parse("1"), parse("1"));
+      await expect(oracle.connect(outsider).fundRewardPool()).to.be.revertedWith("CSVOracle: No funds");
+      await expect(oracle.connect(gov).updateFees(parse("0.01"), REWARD, 10001)).to.be.revertedWith(
+        "CSVOracle: Invalid fee rate"
+      );
+    });
+
+    it("is restricted to arbitrators and open disputes", async () => {
+      const { oracle, gov, outsider, requestId } = await loadFixture(deployOpenDispute);
+
+      await expect(oracle.connect(outsider).resolveDispute(requestId, false, 0)).to.be.revertedWithCustomError(
+        oracle,
+        "AccessControlUnauthorizedAccount"
+      );
+      await expect(oracle.connect(gov).resolveDispute(requestId, true, 0)).to.be.revertedWith(
+        "CSVOracle: Corrected value required"
+      );
+
+      await oracle.connect(gov).resolveDispute(requestId, false, 0);
+      await expect(oracle.connect(gov).resolveDispute(requestId, false, 0)).to.be.revertedWith(
+        "CSVOracle: Dispute not open"
+      );
+    });
+  });
+
+  it("validates the dispute config", async () => {
+    const { oracle, gov } = await loadFixture(deployFinalizedValuation);
+
+    await expect(oracle.connect(gov).updateDisputeConfig(parse("0.1"), 2500))
+      .to.emit(oracle, "DisputeConfigUpdated")
+      .withArgs(parse("0.1"), 2500);
+    expect(await oracle.disputeBond()).to.equal(parse("0.1"));
+    await expect(oracle.connect(gov).updateDisputeConfig(parse("0.1"), 10001)).to.be.revertedWith(
+      "CSVOracle: Invalid slash rate"
+    );
+  });
+});
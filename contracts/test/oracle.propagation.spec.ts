@@ -0,0 +1,296 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+
+const DAY = 24 * 60 * 60;
+const parse = (amount: string) => ethers.parseEther(amount);
+
+const POLICY = "POL-1";
+const STAKE = parse("1");
+const FEE = parse("0.01");
+
+describe("ValuationRelay — propagating finalized valuations", () => {
+  async function deployBoundPolicy() {
+    const [gov, user, requester, outsider, ...operators] = await ethers.getSigners();
+    const nodes = operators.slice(0, 3);
+
+    const Registry = await ethers.getContractFactory("ComplianceRegistry");
+    const registry = await Registry.deploy();
+    const Token = await ethers.getContractFactory("ERCRWACSV");
+    const token = await Token.deploy("iYield CSV Token", "iYCSV", await registry.getAddress(), gov.address);
+    await registry.grantRole(await registry.COMPLIANCE_OFFICER_ROLE(), await token.getAddress());
+    const Vault = await ethers.getContractFactory("CSVVault");
+    const vault = await Vault.deploy(await token.getAddress(), {
+      maxLTV: 8000,
+      liquidationPenalty: 1000,
+      minCollateralValue: parse("1"),
+      stabilityFee: 0,
+      isEnabled: true,
+    });
+    const vaultAddress = await vault.getAddress();
+    await token.grantRole(await token.MINTER_ROLE(), vaultAddress);
+    await token.grantRole(await token.BURNER_ROLE(), vaultAddress);
+    for (const account of [user.address, vaultAddress]) {
+      await token.updateCompliance(account, {
+        isAccredited: true,
+        isKYCVerified: true,
+        jurisdictionCode: 1,
+        lockupExpiry: 0,
+        isRestricted: false,
+      });
+    }
+
+    const Oracle = await ethers.getContractFactory("CSVOracle");
+    const oracle = await Oracle.deploy();
+    const Randomness = await ethers.getContractFactory("MockRandomnessSource");
+    await oracle.setRandomnessSource(await (await Randomness.deploy()).getAddress());
+    for (const [i, node] of nodes.entries()) {
+      await oracle.connect(node).registerOracle(`Oracle ${i + 1}`, `https://oracle-${i + 1}.example`, STAKE, { value: STAKE });
+    }
+
+    const Relay = await ethers.getContractFactory("ValuationRelay");
+    const relay = await Relay.deploy(await oracle.getAddress(), await token.getAddress(), vaultAddress);
+    const relayAddress = await relay.getAddress();
+    await token.grantRole(await token.ORACLE_ROLE(), relayAddress);
+    await vault.grantRole(await vault.ORACLE_ROLE(), relayAddress);
+    await oracle.setValuationConsumer(relayAddress);
+
+    // A 100k policy borrowed against for 60k: LTV 60%, liquidation threshold 80k.
+    await token.mintCSVToken(user.address, 1, {
+      policyNumber: POLICY,
+      carrierName: "ExampleLife",
+      cashValue: parse("100000"),
+      deathBenefit: parse("400000"),
+      premiumAmount: parse("1000"),
+      policyAge: 120,
+      creditRating: 4,
+      lastValuationTimestamp: await time.latest(),
+      isActive: true,
+    });
+    const [tokenId] = await token.getOwnerTokens(user.address);
+    const vaultId = await vault.connect(user).openVault.staticCall(tokenId, parse("100000"));
+    await vault.connect(user).openVault(tokenId, parse("100000"));
+    await vault.connect(user).mintTokens(vaultId, parse("60000"));
+    await relay.bindPolicy(POLICY, tokenId, vaultId);
+
+    /** Requests a valuation of `policyNumber` that every oracle answers with `value`. */
+    async function value(value: bigint, policyNumber = POLICY, reveal: HardhatEthersSigner[] = nodes) {
+      const requestId = await oracle.nextRequestId();
+      const deadline = (await time.latest()) + DAY;
+      await oracle.connect(requester).requestValuation(policyNumber, deadline, "ipfs://policy", { value: FEE });
+      for (const node of nodes) {
+        const commitment = await oracle.computeCommitment(requestId, node.address, value, ethers.id(node.address));
+        await oracle.connect(node).commitValuation(requestId, commitment);
+      }
+      await time.increaseTo(deadline + 1);
+      const revealFrom = (node: HardhatEthersSigner) =>
+        oracle.connect(node).revealValuation(requestId, value, ethers.id(node.address), ethers.id("proof"), "ipfs://proof");
+      for (const node of reveal.slice(0, -1)) await revealFrom(node);
+      // The last reveal finalizes the request; returned unawaited so its events can be asserted
+      return { requestId, finalized: revealFrom(reveal[reveal.length - 1]) };
+    }
+
+    /** Moves to the first second `requestId` can no longer be disputed. */
+    async function passDisputePeriod(requestId: bigint) {
+      const { disputePeriod } = await oracle.consensusConfig();
+      await time.increaseTo((await oracle.finalizedAt(requestId)) + disputePeriod + 1n);
+    }
+
+    return {
+      gov,
+      user,
+      requester,
+      outsider,
+      token,
+      vault,
+      oracle,
+      relay,
+      tokenId,
+      vaultId,
+      nodes,
+      value,
+      passDisputePeriod,
+    };
+  }
+
+  it("updates the token and vault once the dispute period is over", async () => {
+    const { token, vault, oracle, relay, tokenId, vaultId, value, passDisputePeriod } = await loadFixture(deployBoundPolicy);
+    expect(await vault.getVaultLTV(vaultId)).to.equal(6000n);
+
+    const { requestId, finalized } = await value(parse("90000"));
+    const tx = await finalized;
+    const { disputePeriod } = await oracle.consensusConfig();
+    await expect(tx)
+      .to.emit(oracle, "ValuationFinalized")
+      .and.to.emit(relay, "ValuationPending")
+      .withArgs(POLICY, requestId, (await oracle.finalizedAt(requestId)) + disputePeriod + 1n);
+    await expect(tx).not.to.emit(relay, "ValuationPropagated");
+    expect((await token.getCSVMetadata(tokenId)).cashValue).to.equal(parse("100000"));
+    await expect(relay.propagate(POLICY)).to.be.revertedWith("ValuationRelay: Dispute period not over");
+
+    await passDisputePeriod(requestId);
+    await expect(relay.propagate(POLICY))
+      .to.emit(relay, "ValuationPropagated")
+      .withArgs(POLICY, requestId, tokenId, vaultId, parse("100000"), parse("90000"))
+      .and.to.emit(token, "CSVValuationUpdated")
+      .and.to.emit(vault, "CollateralValuationUpdated");
+
+    const metadata = await token.getCSVMetadata(tokenId);
+    expect(metadata.cashValue).to.equal(parse("90000"));
+    expect(metadata.lastValuationTimestamp).to.equal(await time.latest());
+    const position = await vault.getVaultPosition(vaultId);
+    expect(position.collateralValue).to.equal(parse("90000"));
+    expect(position.liquidationThreshold).to.equal(parse("72000"));
+    expect(await vault.getVaultLTV(vaultId)).to.equal(6666n);
+    expect((await relay.getBinding(POLICY)).lastRequestId).to.equal(requestId);
+  });
+
+  it("holds large moves until a risk manager releases or rejects them", async () => {
+    const { outsider, token, vault, relay, tokenId, vaultId, value, passDisputePeriod } = await loadFixture(deployBoundPolicy);
+
+    const first = await value(parse("70000"));
+    await first.finalized;
+    await passDisputePeriod(first.requestId);
+    await expect(relay.propagate(POLICY))
+      .to.emit(relay, "CircuitBreakerTripped")
+      .withArgs(POLICY, first.requestId, parse("100000"), parse("70000"));
+    expect((await token.getCSVMetadata(tokenId)).cashValue).to.equal(parse("100000"));
+    expect((await relay.getHeldValuation(POLICY)).value).to.equal(parse("70000"));
+    await expect(relay.propagate(POLICY)).to.be.revertedWith("ValuationRelay: Valuation already applied");
+
+    await expect(relay.connect(outsider).releaseValuation(POLICY)).to.be.revertedWithCustomError(
+      relay,
+      "AccessControlUnauthorizedAccount"
+    );
+    await expect(relay.releaseValuation(POLICY))
+      .to.emit(relay, "ValuationPropagated")
+      .withArgs(POLICY, first.requestId, tokenId, vaultId, parse("100000"), parse("70000"));
+    expect((await vault.getVaultPosition(vaultId)).liquidationThreshold).to.equal(parse("56000"));
+    await expect(relay.releaseValuation(POLICY)).to.be.revertedWith("ValuationRelay: No held valuation");
+
+    const second = await value(parse("140000"));
+    await second.finalized;
+    await passDisputePeriod(second.requestId);
+    await expect(relay.propagate(POLICY)).to.emit(relay, "CircuitBreakerTripped");
+    await expect(relay.rejectValuation(POLICY))
+      .to.emit(relay, "ValuationRejected")
+      .withArgs(POLICY, second.requestId);
+    expect((await token.getCSVMetadata(tokenId)).cashValue).to.equal(parse("70000"));
+    expect((await relay.getHeldValuation(POLICY)).requestId).to.equal(0n);
+
+    // A wider band lets the next valuation through
+    await expect(relay.setMaxChangeBps(10000)).to.emit(relay, "MaxChangeUpdated").withArgs(10000);
+    const third = await value(parse("140000"));
+    await third.finalized;
+    await passDisputePeriod(third.requestId);
+    await expect(relay.propagate(POLICY)).to.emit(relay, "ValuationPropagated");
+    expect((await vault.getVaultPosition(vaultId)).collateralValue).to.equal(parse("140000"));
+  });
+
+  it("applies a valuation on a later pull once the relay can write it", async () => {
+    const { outsider, token, vault, oracle, relay, tokenId, vaultId, value, passDisputePeriod } =
+      await loadFixture(deployBoundPolicy);
+    await vault.revokeRole(await vault.ORACLE_ROLE(), await relay.getAddress());
+
+    // The relay cannot write to the vault; the valuation stays with the oracle until it can
+    const { requestId, finalized } = await value(parse("95000"));
+    await expect(finalized).to.emit(oracle, "ValuationFinalized");
+    await passDisputePeriod(requestId);
+    await expect(relay.propagate(POLICY)).to.be.revertedWithCustomError(vault, "AccessControlUnauthorizedAccount");
+    expect((await token.getCSVMetadata(tokenId)).cashValue).to.equal(parse("100000"));
+
+    await vault.grantRole(await vault.ORACLE_ROLE(), await relay.getAddress());
+    await expect(relay.connect(outsider).propagate(POLICY))
+      .to.emit(relay, "ValuationPropagated")
+      .withArgs(POLICY, requestId, tokenId, vaultId, parse("100000"), parse("95000"));
+    expect((await vault.getVaultPosition(vaultId)).collateralValue).to.equal(parse("95000"));
+    await expect(relay.propagate(POLICY)).to.be.revertedWith("ValuationRelay: Valuation already applied");
+  });
+
+  it("keeps binding and revaluing a policy after its vault is partly repaid", async () => {
+    const { user, vault, relay, tokenId, vaultId, value, passDisputePeriod } = await loadFixture(deployBoundPolicy);
+    await vault.connect(user).burnTokens(vaultId, parse("10000"));
+
+    await expect(relay.bindPolicy(POLICY, tokenId, vaultId)).to.emit(relay, "PolicyBound");
+    const { requestId, finalized } = await value(parse("90000"));
+    await finalized;
+    await passDisputePeriod(requestId);
+    await expect(relay.propagate(POLICY)).to.emit(relay, "ValuationPropagated");
+    expect((await vault.getVaultPosition(vaultId)).collateralValue).to.equal(parse("90000"));
+  });
+
+  it("does not pull valuations that are pending or disputed", async () => {
+    const { outsider, oracle, relay, nodes, value, passDisputePeriod } = await loadFixture(deployBoundPolicy);
+    await oracle.setValuationConsumer(ethers.ZeroAddress);
+
+    // Only two of three oracles reveal: not finalized until the reveal period is over
+    const pending = await value(parse("95000"), POLICY, nodes.slice(0, 2));
+    await pending.finalized;
+    await expect(relay.propagate(POLICY)).to.be.revertedWith("ValuationRelay: Valuation not finalized");
+
+    const { requestId, finalized } = await value(parse("95000"));
+    await finalized;
+    await oracle.connect(outsider).raiseDispute(requestId, "Stale statement", { value: await oracle.disputeBond() });
+    await passDisputePeriod(requestId);
+    await expect(relay.propagate(POLICY)).to.be.revertedWith("ValuationRelay: Valuation disputed");
+
+    await oracle.resolveDispute(requestId, false, 0);
+    await expect(relay.propagate(POLICY)).to.emit(relay, "ValuationPropagated");
+  });
+
+  it("ignores valuations of unbound policies", async () => {
+    const { outsider, token, oracle, relay, tokenId, value } = await loadFixture(deployBoundPolicy);
+
+    const { finalized } = await value(parse("90000"), "POL-2");
+    await expect(finalized).to.emit(oracle, "ValuationFinalized");
+    await expect(finalized).not.to.emit(relay, "ValuationPending");
+    await expect(relay.propagate("POL-2")).to.be.revertedWith("ValuationRelay: Policy not bound");
+
+    await expect(relay.connect(outsider).unbindPolicy(POLICY)).to.be.revertedWithCustomError(
+      relay,
+      "AccessControlUnauthorizedAccount"
+    );
+    await expect(relay.unbindPolicy(POLICY)).to.emit(relay, "PolicyUnbound").withArgs(POLICY);
+    await expect((await value(parse("90000"))).finalized).not.to.emit(relay, "ValuationPending");
+    expect((await token.getCSVMetadata(tokenId)).cashValue).to.equal(parse("100000"));
+  });
+
+  it("binds a policy only to its own token and vault", async () => {
+    const { user, outsider, token, vault, oracle, relay, tokenId, vaultId } = await loadFixture(deployBoundPolicy);
+
+    await expect(relay.bindPolicy("POL-2", tokenId, 0)).to.be.revertedWith("ValuationRelay: Policy number mismatch");
+    await expect(relay.bindPolicy(POLICY, 99, 0)).to.be.revertedWith("ValuationRelay: Token not active");
+    await expect(relay.bindPolicy(POLICY, tokenId, 99)).to.be.revertedWith("ValuationRelay: Vault not active");
+    await expect(relay.connect(outsider).bindPolicy(POLICY, tokenId, vaultId)).to.be.revertedWithCustomError(
+      relay,
+      "AccessControlUnauthorizedAccount"
+    );
+    await expect(relay.onValuationFinalized(1, POLICY, parse("1"))).to.be.revertedWith(
+      "ValuationRelay: Caller is not the oracle"
+    );
+
+    // A second policy in its own vault cannot be bound to the first vault
+    await token.mintCSVToken(user.address, 1, {
+      policyNumber: "POL-2",
+      carrierName: "ExampleLife",
+      cashValue: parse("50000"),
+      deathBenefit: parse("200000"),
+      premiumAmount: parse("1000"),
+      policyAge: 120,
+      creditRating: 4,
+      lastValuationTimestamp: await time.latest(),
+      isActive: true,
+    });
+    const tokens = await token.getOwnerTokens(user.address);
+    const otherToken = tokens[tokens.length - 1];
+    await expect(relay.bindPolicy("POL-2", otherToken, vaultId)).to.be.revertedWith(
+      "ValuationRelay: Vault holds another token"
+    );
+    await expect(relay.bindPolicy("POL-2", otherToken, 0))
+      .to.emit(relay, "PolicyBound")
+      .withArgs("POL-2", otherToken, 0);
+    expect(await oracle.valuationConsumer()).to.equal(await relay.getAddress());
+    expect((await vault.getVaultPosition(vaultId)).tokenId).to.equal(tokenId);
+  });
+});
@@ -0,0 +1,193 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+
+const DAY = 24 * 60 * 60;
+const REVEAL_PERIOD = 12 * 60 * 60;
+const parse = (amount: string) => ethers.parseEther(amount);
+
+const STAKE = parse("1");
+
+const commitment = (requestId: bigint, oracle: string, value: bigint, salt: string) =>
+  ethers.keccak256(
+    ethers.AbiCoder.defaultAbiCoder().encode(["uint256", "address", "uint256", "bytes32"], [requestId, oracle, value, salt])
+  );
+
+describe("CSVOracle — commit-reveal", () => {
+  async function deployCommittedRequest() {
+    const [gov, requester, outsider, ...operators] = await ethers.getSigners();
+    const [o1, o2, o3, o4] = operators;
+
+    const Oracle = await ethers.getContractFactory("CSVOracle");
+    const oracle = await Oracle.deploy();
+    const Randomness = await ethers.getContractFactory("MockRandomnessSource");
+    await oracle.setRandomnessSource(await (await Randomness.deploy()).getAddress());
+
+    for (const [i, node] of [o1, o2, o3, o4].entries()) {
+      await oracle.connect(node).registerOracle(`Oracle ${i + 1}`, `https://oracle-${i + 1}.example`, STAKE, { value: STAKE });
+    }
+
+    const deadline = BigInt((await time.latest()) + DAY);
+    await oracle.connect(requester).requestValuation("POL-1", deadline, "ipfs://policy", { value: parse("0.01") });
+    const requestId = 1n;
+
+    const answers = new Map([
+      [o1.address, parse("100000")],
+      [o2.address, parse("101000")],
+      [o3.address, parse("99000")],
+      [o4.address, parse("100500")],
+    ]);
+    const salt = (oracleAddress: string) => ethers.id(`salt:${oracleAddress}`);
+    for (const node of [o1, o2, o3, o4]) {
+      const value = answers.get(node.address)!;
+      await oracle.connect(node).commitValuation(requestId, commitment(requestId, node.address, value, salt(node.address)));
+    }
+
+    const reveal = (node: typeof o1) =>
+      oracle.connect(node).revealValuation(requestId, answers.get(node.address)!, salt(node.address), ethers.id("proof"), "ipfs://proof");
+
+    return { gov, outsider, oracle, requestId, deadline, answers, salt, reveal, o1, o2, o3, o4 };
+  }
+
+  it("keeps values off-chain until the deadline and finalizes once every commitment is revealed", async () => {
+    const { oracle, requestId, deadline, reveal, o1, o2, o3, o4 } = await loadFixture(deployCommittedRequest);
+    expect(await oracle.commitCounts(requestId)).to.equal(4n);
+    expect((await oracle.getOracleResponse(requestId, o1.address)).timestamp).to.equal(0n);
+
+    await expect(reveal(o1)).to.be.revertedWith("CSVOracle: Reveal period not started");
+
+    await time.increaseTo(deadline + 1n);
+    await expect(oracle.connect(o1).commitValuation(requestId, ethers.id("late"))).to.be.revertedWith(
+      "CSVOracle: Deadline passed"
+    );
+
+    await expect(reveal(o1)).to.emit(oracle, "ValuationSubmitted").withArgs(requestId, o1.address, parse("100000"));
+    await reveal(o2);
+    await reveal(o3);
+    // Three answers would do, but o4 may still reveal
+    expect((await oracle.getValuationRequest(requestId)).isFinalized).to.equal(false);
+
+    await expect(reveal(o4))
+      .to.emit(oracle, "ValuationFinalized")
+      .withArgs(requestId, parse("100250"), 4n);
+    expect(await oracle.getLatestValuation("POL-1")).to.deep.equal([parse("100250"), true, false]);
+  });
+
+  it("rejects reveals that do not match the commitment", async () => {
+    const { oracle, requestId, deadline, answers, salt, reveal, outsider, o1, o2 } = await loadFixture(deployCommittedRequest);
+    await expect(oracle.connect(o1).commitValuation(requestId, ethers.id("again"))).to.be.revertedWith(
+      "CSVOracle: Already committed"
+    );
+    await time.increaseTo(deadline + 1n);
+
+    const value = answers.get(o1.address)!;
+    await expect(
+      oracle.connect(o1).revealValuation(requestId, value, salt(o2.address), ethers.id("proof"), "ipfs://proof")
+    ).to.be.revertedWith("CSVOracle: Commitment mismatch");
+    await expect(
+      oracle.connect(o1).revealValuation(requestId, value + 1n, salt(o1.address), ethers.id("proof"), "ipfs://proof")
+    ).to.be.revertedWith("CSVOracle: Commitment mismatch");
+    // A copied value and salt do not open another oracle's commitment
+    await expect(
+      oracle.connect(o2).revealValuation(requestId, value, salt(o1.address), ethers.id("proof"), "ipfs://proof")
+    ).to.be.revertedWith("CSVOracle: Commitment mismatch");
+    await expect(
+      oracle.connect(outsider).revealValuation(requestId, value, salt(o1.address), ethers.id("proof"), "ipfs://proof")
+    ).to.be.revertedWith("CSVOracle: Oracle not registered or inactive");
+
+    await reveal(o1);
+    await expect(reveal(o1)).to.be.revertedWith("CSVOracle: Already submitted");
+  });
+
+  it("requires an assigned oracle and a non-empty commitment", async () => {
+    const { oracle, gov, outsider, o1, o2, o3, o4 } = await loadFixture(deployCommittedRequest);
+    await oracle.connect(outsider).registerOracle("Oracle 5", "https://oracle-5.example", STAKE, { value: STAKE });
+    await oracle.connect(gov).updateConsensusConfig({
+      minOracles: 3,
+      maxOracles: 3,
+      consensusThreshold: 6000,
+      disputePeriod: DAY,
+      maxDeviationPercent: 1000,
+      responsePeriod: DAY,
+    });
+    await oracle.requestValuation("POL-2", (await time.latest()) + DAY, "ipfs://policy-2", { value: parse("0.01") });
+
+    // Three of the five oracles are drawn
+    const assigned = await oracle.getAssignedOracles(2n);
+    const unassigned = [o1, o2, o3, o4, outsider].filter((node) => !assigned.includes(node.address));
+    expect(unassigned).to.have.length(2);
+
+    await expect(oracle.connect(unassigned[0]).commitValuation(2n, ethers.id("value"))).to.be.revertedWith(
+      "CSVOracle: Oracle not assigned to request"
+    );
+    await expect(
+      oracle.connect(await ethers.getSigner(assigned[0])).commitValuation(2n, ethers.ZeroHash)
+    ).to.be.revertedWith("CSVOracle: Commitment required");
+  });
+
+  it("slashes oracles that miss the reveal window and finalizes over the revealed values", async () => {
+    const { oracle, requestId, deadline, reveal, o1, o2, o3, o4 } = await loadFixture(deployCommittedRequest);
+    await time.increaseTo(deadline + 1n);
+    await reveal(o1);
+    await reveal(o2);
+    await reveal(o3);
+
+    await expect(oracle.finalizeValuation(requestId)).to.be.revertedWith("CSVOracle: Cannot finalize yet");
+    await time.increaseTo(deadline + BigInt(REVEAL_PERIOD) + 1n);
+    await expect(reveal(o4)).to.be.revertedWith("CSVOracle: Reveal period over");
+
+    const finalize = oracle.finalizeValuation(requestId);
+    await expect(finalize)
+      .to.emit(oracle, "RevealMissed")
+      .withArgs(requestId, o4.address)
+      .and.to.emit(oracle, "OracleSlashed")
+      .withArgs(o4.address, STAKE / 20n, "Valuation not revealed")
+      .and.to.emit(oracle, "ValuationFinalized")
+      .withArgs(requestId, parse("100000"), 3n);
+
+    const info = await oracle.getOracleInfo(o4.address);
+    expect(info.stakingAmount).to.equal(STAKE - STAKE / 20n);
+    expect(info.totalSubmissions).to.equal(1n);
+    expect(info.totalCorrectSubmissions).to.equal(0n);
+    expect(info.isActive).to.equal(false);
+    expect(await oracle.commitments(requestId, o4.address)).to.equal(ethers.ZeroHash);
+    expect((await oracle.getOracleInfo(o1.address)).stakingAmount).to.equal(STAKE);
+  });
+
+  it("closes a request with too few reveals as failed and penalizes each missed reveal once", async () => {
+    const { oracle, requestId, deadline, reveal, o1, o2, o3, o4 } = await loadFixture(deployCommittedRequest);
+    await time.increaseTo(deadline + 1n);
+    await reveal(o1);
+    await reveal(o2);
+    await time.increaseTo(deadline + BigInt(REVEAL_PERIOD) + 1n);
+
+    await expect(oracle.finalizeValuation(requestId))
+      .to.emit(oracle, "RevealMissed")
+      .withArgs(requestId, o4.address)
+      .and.to.emit(oracle, "ValuationFailed")
+      .withArgs(requestId, 2n);
+    const request = await oracle.getValuationRequest(requestId);
+    expect(request.isFinalized).to.equal(false);
+    expect(request.isActive).to.equal(false);
+    await expect(oracle.finalizeValuation(requestId)).to.be.revertedWith("CSVOracle: Request not active");
+    await expect(reveal(o3)).to.be.revertedWith("CSVOracle: Request not active");
+    expect((await oracle.getOracleInfo(o4.address)).stakingAmount).to.equal(STAKE - STAKE / 20n);
+  });
+
+  it("validates the reveal config", async () => {
+    const { oracle, gov, outsider } = await loadFixture(deployCommittedRequest);
+
+    await expect(oracle.connect(gov).updateRevealConfig(6 * 60 * 60, 2500))
+      .to.emit(oracle, "RevealConfigUpdated")
+      .withArgs(6 * 60 * 60, 2500);
+    expect(await oracle.revealPeriod()).to.equal(6 * 60 * 60);
+    await expect(oracle.connect(gov).updateRevealConfig(0, 2500)).to.be.revertedWith("CSVOracle: Invalid reveal period");
+    await expect(oracle.connect(gov).updateRevealConfig(REVEAL_PERIOD, 10001)).to.be.revertedWith(
+      "CSVOracle: Invalid slash rate"
+    );
+    await expect(oracle.connect(outsider).updateRevealConfig(REVEAL_PERIOD, 500)).to.be.revertedWithCustomError(
+      oracle,
+      "AccessControlUnauthorizedAccount"
+    );
+  });
+});
@@ -0,0 +1,248 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+
+const DAY = 24 * 60 * 60;
+const parse = (amount: string) => ethers.parseEther(amount);
+
+const FEE = parse("0.01");
+const FULL_REPUTATION = 10000n;
+
+/** Replays `_selectOraclesForRequest`: weighted draws without replacement from `keccak256(abi.encode(seed, k))`. */
+function replaySelection(seed: bigint, candidates: string[], weights: bigint[], count: number) {
+  const remaining = [...weights];
+  let remainingWeight = remaining.reduce((sum, weight) => sum + weight, 0n);
+  const selected: string[] = [];
+  for (let k = 0; k < count; k++) {
+    let draw = BigInt(ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(["uint256", "uint256"], [seed, k]))) % remainingWeight;
+    let index = 0;
+    while (draw >= remaining[index]) {
+      draw -= remaining[index];
+      index++;
+    }
+    selected.push(candidates[index]);
+    remainingWeight -= remaining[index];
+    remaining[index] = 0n;
+  }
+  return selected;
+}
+
+/** Probability that each candidate is among `count` weighted draws without replacement. */
+function inclusionProbabilities(weights: number[], count: number): number[] {
+  const probabilities = weights.map(() => 0);
+  const visit = (taken: number[], probability: number) => {
+    if (taken.length === count) {
+      for (const index of taken) probabilities[index] += probability;
+      return;
+    }
+    const remaining = weights.reduce((sum, weight, index) => (taken.includes(index) ? sum : sum + weight), 0);
+    weights.forEach((weight, index) => {
+      if (!taken.includes(index)) visit([...taken, index], (probability * weight) / remaining);
+    });
+  };
+  visit([], 1);
+  return probabilities;
+}
+
+describe("CSVOracle — oracle selection", () => {
+  async function deployOracles() {
+    const [gov, requester, outsider, ...operators] = await ethers.getSigners();
+    const nodes = operators.slice(0, 5);
+    // Four newcomers with 1 ETH and an established oracle with 4 ETH at stake
+    const stakes = [parse("1"), parse("1"), parse("1"), parse("1"), parse("4")];
+
+    const Oracle = await ethers.getContractFactory("CSVOracle");
+    const oracle = await Oracle.deploy();
+    const Randomness = await ethers.getContractFactory("MockRandomnessSource");
+    const randomness = await Randomness.deploy();
+    await oracle.setRandomnessSource(await randomness.getAddress());
+
+    for (const [i, node] of nodes.entries()) {
+      await oracle.connect(node).registerOracle(`Oracle ${i + 1}`, `https://oracle-${i + 1}.example`, stakes[i], {
+        value: stakes[i],
+      });
+    }
+    await oracle.updateConsensusConfig({
+      minOracles: 2,
+      maxOracles: 2,
+      consensusThreshold: 6000,
+      disputePeriod: DAY,
+      maxDeviationPercent: 1000,
+      responsePeriod: DAY,
+    });
+
+    const request = async (policyNumber: string, from = requester) => {
+      await oracle.connect(from).requestValuation(policyNumber, (await time.latest()) + DAY, "ipfs://policy", { value: FEE });
+      return (await oracle.nextRequestId()) - 1n;
+    };
+
+    return { gov, requester, outsider, oracle, randomness, nodes, stakes, request };
+  }
+
+  it("weights oracles by reputation score times stake", async () => {
+    const { oracle, nodes, stakes } = await loadFixture(deployOracles);
+
+    for (const [i, node] of nodes.entries()) {
+      expect(await oracle.getSelectionWeight(node.address)).to.equal(FULL_REPUTATION * stakes[i]);
+    }
+    // Slashing the whole stake deactivates the oracle and removes it from the draw
+    await oracle.slashOracle(nodes[0].address, stakes[0], "Test");
+    expect(await oracle.getSelectionWeight(nodes[0].address)).to.equal(0n);
+  });
+
+  it("draws oracles in proportion to their weight, so every oracle gets work", async () => {
+    const { oracle, nodes, request } = await loadFixture(deployOracles);
+    const runs = 150;
+
+    const counts = new Map(nodes.map((node) => [node.address, 0]));
+    for (let i = 0; i < runs; i++) {
+      const requestId = await request(`POL-${i}`);
+      for (const assigned of await oracle.getAssignedOracles(requestId)) {
+        counts.set(assigned, counts.get(assigned)! + 1);
+      }
+    }
+
+    const expected = inclusionProbabilities([1, 1, 1, 1, 4], 2);
+    for (const [i, node] of nodes.entries()) {
+      const count = counts.get(node.address)!;
+      const mean = runs * expected[i];
+      const deviation = Math.sqrt(runs * expected[i] * (1 - expected[i]));
+      expect(count, `Oracle ${i + 1}`).to.be.within(mean - 4 * deviation, mean + 4 * deviation);
+      expect(count, `Oracle ${i + 1}`).to.be.greaterThan(0);
+    }
+    // Not simply the first registered oracles every time
+    expect(counts.get(nodes[4].address)!).to.be.greaterThan(counts.get(nodes[0].address)!);
+  });
+
+  it("emits the seed and weights each selection can be replayed from", async () => {
+    const { oracle, randomness, nodes, stakes, request } = await loadFixture(deployOracles);
+    const candidates = nodes.map((node) => node.address);
+    const weights = stakes.map((stake) => FULL_REPUTATION * stake);
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0n);
+
+    await randomness.setSeed(1n, 42n);
+    const requestId = await request("POL-1");
+    const assigned = await oracle.getAssignedOracles(requestId);
+    expect(await oracle.selectionSeeds(requestId)).to.equal(42n);
+    expect(assigned).to.deep.equal(replaySelection(42n, candidates, weights, 2));
+
+    const [event] = await oracle.queryFilter(oracle.filters.OraclesSelected(requestId));
+    expect(event.args.seed).to.equal(42n);
+    expect(event.args.oracles).to.deep.equal(assigned);
+    expect(event.args.weights).to.deep.equal(assigned.map((address) => weights[candidates.indexOf(address)]));
+    expect(event.args.totalWeight).to.equal(totalWeight);
+    expect(event.args.excludedCount).to.equal(0n);
+
+    for (let i = 2; i <= 20; i++) {
+      const id = await request(`POL-${i}`);
+      const seed = await oracle.selectionSeeds(id);
+      expect(await oracle.getAssignedOracles(id)).to.deep.equal(replaySelection(seed, candidates, weights, 2));
+    }
+  });
+
+  it("leaves out oracles tied to the requester", async () => {
+    const { gov, requester, outsider, oracle, nodes, request } = await loadFixture(deployOracles);
+    const [o1, o2, o3, o4, o5] = nodes;
+
+    await expect(oracle.connect(gov).setOracleConflict(o1.address, requester.address, true))
+      .to.emit(oracle, "OracleConflictUpdated")
+      .withArgs(o1.address, requester.address, true);
+    await expect(oracle.connect(o2).declareConflict(requester.address))
+      .to.emit(oracle, "OracleConflictUpdated")
+      .withArgs(o2.address, requester.address, true);
+    expect(await oracle.isConflicted(o1.address, requester.address)).to.equal(true);
+    // An oracle requesting a valuation is tied to itself
+    expect(await oracle.isConflicted(o3.address, o3.address)).to.equal(true);
+
+    for (let i = 0; i < 10; i++) {
+      const requestId = await request(`POL-${i}`);
+      const assigned = await oracle.getAssignedOracles(requestId);
+      expect(assigned).not.to.include(o1.address);
+      expect(assigned).not.to.include(o2.address);
+      const [event] = await oracle.queryFilter(oracle.filters.OraclesSelected(requestId));
+      expect(event.args.excludedCount).to.equal(2n);
+    }
+    const ownRequest = await request("POL-OWN", o3);
+    expect(await oracle.getAssignedOracles(ownRequest)).not.to.include(o3.address);
+
+    for (const node of [o1, o2, o4]) {
+      await oracle.connect(gov).setOracleConflict(node.address, o3.address, true);
+    }
+    await expect(request("POL-NONE", o3)).to.be.revertedWith("CSVOracle: Insufficient active oracles");
+
+    await expect(oracle.connect(outsider).declareConflict(requester.address)).to.be.revertedWith(
+      "CSVOracle: Oracle not registered or inactive"
+    );
+    await expect(
+      oracle.connect(o2).setOracleConflict(o2.address, requester.address, false)
+    ).to.be.revertedWithCustomError(oracle, "AccessControlUnauthorizedAccount");
+  });
+
+  it("takes no requests without a randomness source", async () => {
+    const { gov, requester, outsider, oracle, nodes } = await loadFixture(deployOracles);
+
+    await expect(oracle.connect(outsider).setRandomnessSource(outsider.address)).to.be.revertedWithCustomError(
+      oracle,
+      "AccessControlUnauthorizedAccount"
+    );
+    await expect(oracle.connect(gov).setRandomnessSource(ethers.ZeroAddress)).to.be.revertedWith(
+      "CSVOracle: Invalid randomness source"
+    );
+
+    // Block hashes and prevrandao are never used as a fallback seed
+    const Oracle = await ethers.getContractFactory("CSVOracle");
+    const unseeded = await Oracle.deploy();
+    for (const node of nodes.slice(0, 3)) {
+      await unseeded.connect(node).registerOracle("Oracle", "https://oracle.example", parse("1"), { value: parse("1") });
+    }
+    await expect(
+      unseeded.connect(requester).requestValuation("POL-1", (await time.latest()) + DAY, "ipfs://policy", { value: FEE })
+    ).to.be.revertedWith("CSVOracle: Randomness source required");
+  });
+
+  it("seeds requests from a block-hash commit source that only the oracle draws from", async () => {
+    const { requester, outsider, nodes } = await loadFixture(deployOracles);
+    const Oracle = await ethers.getContractFactory("CSVOracle");
+    const oracle = await Oracle.deploy();
+    const Source = await ethers.getContractFactory("BlockHashRandomnessSource");
+    await expect(Source.deploy(ethers.ZeroAddress)).to.be.revertedWith("BlockHashRandomnessSource: Invalid consumer");
+    const source = await Source.deploy(await oracle.getAddress());
+    await oracle.setRandomnessSource(await source.getAddress());
+    for (const node of nodes.slice(0, 3)) {
+      await oracle.connect(node).registerOracle("Oracle", "https://oracle.example", parse("1"), { value: parse("1") });
+    }
+
+    await expect(source.connect(outsider).randomSeed(1n)).to.be.revertedWith(
+      "BlockHashRandomnessSource: Caller is not the consumer"
+    );
+
+    let lastSeed = 0n;
+    for (let requestId = 1n; requestId <= 3n; requestId++) {
+      const committedBlock = await source.committedBlock();
+      const tx = await oracle
+        .connect(requester)
+        .requestValuation(`POL-${requestId}`, (await time.latest()) + DAY, "ipfs://policy", { value: FEE });
+      const receipt = await tx.wait();
+      const committedHash = (await ethers.provider.getBlock(committedBlock))!.hash!;
+      // The provider reports a block's prevrandao as its mixHash
+      const { mixHash: prevRandao } = await ethers.provider.send("eth_getBlockByNumber", [
+        ethers.toQuantity(receipt!.blockNumber),
+        false,
+      ]);
+      const seed = BigInt(
+        ethers.keccak256(
+          ethers.AbiCoder.defaultAbiCoder().encode(
+            ["uint256", "bytes32", "uint256", "uint256"],
+            [lastSeed, committedHash, prevRandao, requestId]
+          )
+        )
+      );
+
+      await expect(tx).to.emit(source, "SeedDrawn").withArgs(requestId, seed, committedBlock);
+      expect(await oracle.selectionSeeds(requestId)).to.equal(seed);
+      expect(await oracle.getAssignedOracles(requestId)).to.have.lengthOf(3);
+      expect(await source.committedBlock()).to.equal(BigInt(receipt!.blockNumber));
+      lastSeed = seed;
+    }
+  });
+});
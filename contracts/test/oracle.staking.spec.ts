@@ -0,0 +1,209 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+
+const DAY = 24 * 60 * 60;
+const UNBONDING_PERIOD = 7 * DAY;
+const parse = (amount: string) => ethers.parseEther(amount);
+
+const STAKE = parse("1");
+
+describe("CSVOracle — staking", () => {
+  async function deployStakedOracles() {
+    const [gov, requester, outsider, ...operators] = await ethers.getSigners();
+    const [o1, o2, o3] = operators;
+
+    const Oracle = await ethers.getContractFactory("CSVOracle");
+    const oracle = await Oracle.deploy();
+    const Randomness = await ethers.getContractFactory("MockRandomnessSource");
+    await oracle.setRandomnessSource(await (await Randomness.deploy()).getAddress());
+
+    for (const [i, node] of [o1, o2, o3].entries()) {
+      await oracle.connect(node).registerOracle(`Oracle ${i + 1}`, `https://oracle-${i + 1}.example`, STAKE, { value: STAKE });
+    }
+
+    return { gov, requester, outsider, oracle, o1, o2, o3 };
+  }
+
+  it("tops up bonded stake", async () => {
+    const { oracle, outsider, o1 } = await loadFixture(deployStakedOracles);
+
+    await expect(oracle.connect(o1).increaseStake({ value: parse("0.5") }))
+      .to.emit(oracle, "StakeIncreased")
+      .withArgs(o1.address, parse("0.5"), parse("1.5"));
+    expect((await oracle.getOracleInfo(o1.address)).stakingAmount).to.equal(parse("1.5"));
+    expect(await oracle.totalStaked()).to.equal(parse("3.5"));
+
+    await expect(oracle.connect(o1).increaseStake()).to.be.revertedWith("CSVOracle: Stake required");
+    await expect(oracle.connect(outsider).increaseStake({ value: STAKE })).to.be.revertedWith(
+      "CSVOracle: Oracle not registered"
+    );
+  });
+
+  it("releases unbonded stake after the unbonding period", async () => {
+    const { oracle, o1 } = await loadFixture(deployStakedOracles);
+
+    await expect(oracle.connect(o1).requestUnbond(parse("2"))).to.be.revertedWith("CSVOracle: Invalid unbond amount");
+    await expect(oracle.connect(o1).withdrawStake()).to.be.revertedWith("CSVOracle: Nothing to withdraw");
+
+    const requested = oracle.connect(o1).requestUnbond(parse("0.4"));
+    await expect(requested)
+      .to.emit(oracle, "UnbondRequested")
+      .withArgs(o1.address, parse("0.4"), (await time.latest()) + 1 + UNBONDING_PERIOD);
+    const [amount, availableAt] = await oracle.unbondings(o1.address);
+    expect(amount).to.equal(parse("0.4"));
+    // Unbonding stake no longer counts for selection
+    expect((await oracle.getOracleInfo(o1.address)).stakingAmount).to.equal(parse("0.6"));
+    expect(await oracle.getSelectionWeight(o1.address)).to.equal(10000n * parse("0.6"));
+
+    await time.increaseTo(availableAt - 2n);
+    await expect(oracle.connect(o1).withdrawStake()).to.be.revertedWith("CSVOracle: Unbonding period not over");
+
+    await time.increaseTo(availableAt);
+    await expect(oracle.connect(o1).withdrawStake()).to.changeEtherBalance(o1, parse("0.4"));
+    expect((await oracle.unbondings(o1.address)).amount).to.equal(0n);
+    expect(await oracle.totalStaked()).to.equal(parse("2.6"));
+    expect((await oracle.getOracleInfo(o1.address)).isActive).to.equal(true);
+  });
+
+  it("restarts the unbonding period on a new request and deregisters once all stake is unbonding", async () => {
+    const { oracle, o1 } = await loadFixture(deployStakedOracles);
+    await oracle.connect(o1).requestUnbond(parse("0.4"));
+    await time.increase(3 * DAY);
+
+    await expect(oracle.connect(o1).requestUnbond(parse("0.6")))
+      .to.emit(oracle, "OracleDeregistered")
+      .withArgs(o1.address, "Stake unbonded");
+    const [amount, availableAt] = await oracle.unbondings(o1.address);
+    expect(amount).to.equal(STAKE);
+    expect(availableAt).to.equal((await time.latest()) + UNBONDING_PERIOD);
+    expect((await oracle.getOracleInfo(o1.address)).isActive).to.equal(false);
+    expect(await oracle.hasRole(await oracle.ORACLE_ROLE(), o1.address)).to.equal(false);
+  });
+
+  it("slashes bonded stake first, then stake that is unbonding", async () => {
+    const { oracle, o1 } = await loadFixture(deployStakedOracles);
+    await oracle.connect(o1).requestUnbond(parse("0.7"));
+
+    await expect(oracle.slashOracle(o1.address, parse("0.5"), "Test"))
+      .to.emit(oracle, "OracleSlashed")
+      .withArgs(o1.address, parse("0.5"), "Test")
+      .and.to.emit(oracle, "OracleDeregistered")
+      .withArgs(o1.address, "Stake depleted");
+    expect((await oracle.getOracleInfo(o1.address)).stakingAmount).to.equal(0n);
+    expect((await oracle.unbondings(o1.address)).amount).to.equal(parse("0.5"));
+    expect(await oracle.totalStaked()).to.equal(parse("2.5"));
+
+    await expect(oracle.slashOracle(o1.address, parse("0.6"), "Test")).to.be.revertedWith("CSVOracle: Insufficient stake");
+
+    await time.increase(UNBONDING_PERIOD);
+    await expect(oracle.connect(o1).withdrawStake()).to.changeEtherBalance(o1, parse("0.5"));
+  });
+
+  it("leaves staked funds out of protocol fee withdrawals", async () => {
+    const { gov, requester, oracle, o1 } = await loadFixture(deployStakedOracles);
+    await oracle.connect(requester).requestValuation("POL-1", (await time.latest()) + DAY, "ipfs://policy", {
+      value: parse("0.01"),
+    });
+    await oracle.slashOracle(o1.address, parse("0.1"), "Test");
+
+    // The slashed stake and the protocol's 10% of the fee; the rest funds rewards
+    await expect(oracle.connect(gov).withdrawProtocolFees()).to.changeEtherBalance(gov, parse("0.101"));
+    expect(await ethers.provider.getBalance(await oracle.getAddress())).to.equal(parse("2.909"));
+    expect(await oracle.rewardPool()).to.equal(parse("0.009"));
+  });
+
+  it("requires remediation before an oracle deregistered for low reputation registers again", async () => {
+    const { gov, requester, outsider, oracle, o1, o2, o3 } = await loadFixture(deployStakedOracles);
+    await oracle.updateConsensusConfig({
+      minOracles: 3,
+      maxOracles: 3,
+      consensusThreshold: 6000,
+      disputePeriod: DAY,
+      maxDeviationPercent: 1000,
+      responsePeriod: DAY,
+    });
+
+    // o3 commits and never reveals, which drops its reputation to zero
+    const deadline = (await time.latest()) + DAY;
+    await oracle.connect(requester).requestValuation("POL-1", deadline, "ipfs://policy", { value: parse("0.01") });
+    const answers = new Map([
+      [o1.address, parse("100000")],
+      [o2.address, parse("100000")],
+      [o3.address, parse("100000")],
+    ]);
+    for (const node of [o1, o2, o3]) {
+      const value = answers.get(node.address)!;
+      const commitment = await oracle.computeCommitment(1n, node.address, value, ethers.id(node.address));
+      await oracle.connect(node).commitValuation(1n, commitment);
+    }
+    await time.increaseTo(deadline + 1);
+    for (const node of [o1, o2]) {
+      const value = answers.get(node.address)!;
+      await oracle.connect(node).revealValuation(1n, value, ethers.id(node.address), ethers.id("proof"), "ipfs://proof");
+    }
+    await time.increase(await oracle.revealPeriod());
+    await expect(oracle.finalizeValuation(1n))
+      .to.emit(oracle, "OracleDeregistered")
+      .withArgs(o3.address, "Low reputation score");
+    expect(await oracle.needsRemediation(o3.address)).to.equal(true);
+
+    // A deregistered oracle still manages its stake
+    const remaining = (await oracle.getOracleInfo(o3.address)).stakingAmount;
+    await oracle.connect(o3).increaseStake({ value: parse("0.05") });
+    await expect(
+      oracle.connect(o3).registerOracle("Oracle 3", "https://oracle-3.example", 0n)
+    ).to.be.revertedWith("CSVOracle: Remediation required");
+
+    await expect(oracle.connect(outsider).approveRemediation(o3.address)).to.be.revertedWithCustomError(
+      oracle,
+      "AccessControlUnauthorizedAccount"
+    );
+    await expect(oracle.connect(gov).approveRemediation(o1.address)).to.be.revertedWith(
+      "CSVOracle: Remediation not required"
+    );
+    await expect(oracle.connect(gov).approveRemediation(o3.address))
+      .to.emit(oracle, "OracleRemediated")
+      .withArgs(o3.address);
+
+    await expect(oracle.connect(o3).registerOracle("Oracle 3b", "https://oracle-3b.example", 0n))
+      .to.emit(oracle, "OracleRegistered")
+      .withArgs(o3.address, "Oracle 3b", remaining + parse("0.05"));
+    const info = await oracle.getOracleInfo(o3.address);
+    expect(info.isActive).to.equal(true);
+    expect(info.reputationScore).to.equal(10000n);
+    expect(info.totalSubmissions).to.equal(0n);
+    expect(info.name).to.equal("Oracle 3b");
+    expect(await oracle.getRegisteredOracles()).to.deep.equal([o1.address, o2.address, o3.address]);
+    await expect(
+      oracle.connect(o3).registerOracle("Oracle 3b", "https://oracle-3b.example", 0n)
+    ).to.be.revertedWith("CSVOracle: Oracle already registered");
+  });
+
+  it("keeps the unbonding period longer than the dispute period", async () => {
+    const { gov, outsider, oracle } = await loadFixture(deployStakedOracles);
+    const config = {
+      minOracles: 3,
+      maxOracles: 7,
+      consensusThreshold: 6000,
+      disputePeriod: UNBONDING_PERIOD,
+      maxDeviationPercent: 1000,
+      responsePeriod: DAY,
+    };
+
+    await expect(oracle.connect(gov).updateConsensusConfig(config)).to.be.revertedWith(
+      "CSVOracle: Unbonding period too short"
+    );
+    await expect(oracle.connect(gov).updateUnbondingPeriod(DAY)).to.be.revertedWith(
+      "CSVOracle: Unbonding period too short"
+    );
+    await expect(oracle.connect(gov).updateUnbondingPeriod(14 * DAY))
+      .to.emit(oracle, "UnbondingPeriodUpdated")
+      .withArgs(14 * DAY);
+    await oracle.connect(gov).updateConsensusConfig(config);
+    await expect(oracle.connect(outsider).updateUnbondingPeriod(30 * DAY)).to.be.revertedWithCustomError(
+      oracle,
+      "AccessControlUnauthorizedAccount"
+    );
+  });
+});
@@ -0,0 +1,255 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+
+const DAY = 24 * 60 * 60;
+const usdc = (amount: string) => ethers.parseUnits(amount, 6);
+
+const SENIOR = 0;
+const JUNIOR = 1;
+
+describe("CSVTrancheVault — ERC-4626 tranche wrapper", () => {
+  async function deployVault() {
+    const [gov, alice, bob, carol, outsider] = await ethers.getSigners();
+
+    const Registry = await ethers.getContractFactory("ComplianceRegistry");
+    const registry = await Registry.deploy();
+    const Token = await ethers.getContractFactory("ERCRWACSV");
+    const token = await Token.deploy("iYield CSV Token", "iYCSV", await registry.getAddress(), gov.address);
+    await registry.grantRole(await registry.COMPLIANCE_OFFICER_ROLE(), await token.getAddress());
+    const USDC = await ethers.getContractFactory("MockERC20");
+    const baseToken = await USDC.deploy("USD Coin", "USDC", 6);
+    const Pool = await ethers.getContractFactory("CSVLiquidityPool");
+    const pool = await Pool.deploy(await token.getAddress(), await baseToken.getAddress(), {
+      seniorYieldRate: 500,
+      juniorYieldRate: 1500,
+      protocolFeeRate: 0,
+      performanceFeeRate: 1000,
+      withdrawalFeeRate: 100,
+      maxUtilization: 8000,
+    });
+    const Vault = await ethers.getContractFactory("CSVTrancheVault");
+    const vault = await Vault.deploy(await pool.getAddress(), SENIOR, "iYield Senior Tranche", "iySNR");
+    const vaultAddress = await vault.getAddress();
+    await pool.setTrancheWrapper(vaultAddress, true);
+
+    const compliant = { isAccredited: true, isKYCVerified: true, jurisdictionCode: 1, lockupExpiry: 0, isRestricted: false };
+    await token.updateCompliance(vaultAddress, compliant);
+    for (const account of [gov, alice, bob, carol]) {
+      await token.updateCompliance(account.address, compliant);
+      await baseToken.mint(account.address, usdc("1000000"));
+      await baseToken.connect(account).approve(vaultAddress, ethers.MaxUint256);
+      await baseToken.connect(account).approve(await pool.getAddress(), ethers.MaxUint256);
+    }
+
+    return { gov, alice, bob, carol, outsider, token, baseToken, pool, vault };
+  }
+
+  it("wraps the tranche position with previews that match what deposits and mints do", async () => {
+    const { alice, bob, baseToken, pool, vault } = await loadFixture(deployVault);
+    expect(await vault.asset()).to.equal(await baseToken.getAddress());
+    expect(await vault.decimals()).to.equal(6);
+
+    // Zero amounts are no-ops, not errors
+    expect(await vault.previewDeposit(0)).to.equal(0);
+    await expect(vault.connect(alice).deposit(0, alice.address))
+      .to.emit(vault, "Deposit")
+      .withArgs(alice.address, alice.address, 0, 0);
+    expect(await vault.connect(alice).redeem.staticCall(0, alice.address, alice.address)).to.equal(0);
+    expect(await vault.connect(alice).withdraw.staticCall(0, alice.address, alice.address)).to.equal(0);
+
+    // The wrapper is exempt from the pool minimum, so small deposits go straight in
+    const shares = await vault.previewDeposit(usdc("10"));
+    await expect(vault.connect(alice).deposit(usdc("10"), alice.address)).to.changeTokenBalance(vault, alice, shares);
+    expect((await pool.getUserPosition(SENIOR, await vault.getAddress())).currentValue).to.equal(usdc("10"));
+
+    const assets = await vault.previewMint(usdc("5000"));
+    const mint = vault.connect(bob).mint(usdc("5000"), bob.address);
+    await expect(mint).to.changeTokenBalance(baseToken, bob, -assets);
+    await expect(mint).to.changeTokenBalance(vault, bob, usdc("5000"));
+    expect(await vault.totalAssets()).to.equal(usdc("5010"));
+
+    // Rounding favours the wrapper both ways
+    expect(await vault.convertToShares(await vault.convertToAssets(1))).to.be.lte(1);
+    expect(await vault.previewMint(1)).to.be.gte(await vault.convertToAssets(1));
+  });
+
+  it("gates mints and transfers through the compliance registry", async () => {
+    const { alice, outsider, token, vault } = await loadFixture(deployVault);
+    await vault.connect(alice).deposit(usdc("1000"), alice.address);
+
+    expect(await vault.maxDeposit(outsider.address)).to.equal(0);
+    expect(await vault.maxMint(outsider.address)).to.equal(0);
+    await expect(vault.connect(alice).deposit(usdc("1000"), outsider.address)).to.be.revertedWithCustomError(
+      vault,
+      "ERC4626ExceededMaxDeposit"
+    );
+    await expect(vault.connect(alice).transfer(outsider.address, usdc("100"))).to.be.revertedWith(
+      "CSVTrancheVault: Receiver KYC verification required or expired"
+    );
+
+    // Redeeming burns shares, which lapsed holders may still do
+    await token.updateCompliance(alice.address, {
+      isAccredited: true,
+      isKYCVerified: true,
+      jurisdictionCode: 1,
+      lockupExpiry: 0,
+      isRestricted: true,
+    });
+    expect(await vault.maxDeposit(alice.address)).to.equal(0);
+    await expect(vault.connect(alice).transfer(outsider.address, usdc("100"))).to.be.revertedWith(
+      "CSVTrancheVault: Sender account restricted"
+    );
+    await expect(vault.connect(alice).redeem(usdc("100"), outsider.address, alice.address)).not.to.be.reverted;
+  });
+
+  it("charges the early withdrawal fee during the owner's lockup and leaves it to the other holders", async () => {
+    const { alice, bob, baseToken, vault } = await loadFixture(deployVault);
+    await vault.connect(alice).deposit(usdc("100000"), alice.address);
+    await vault.connect(bob).deposit(usdc("100000"), bob.address);
+    expect(await vault.withdrawalFeeRate(alice.address)).to.equal(100);
+
+    // convertToAssets ignores the fee; the previews charge it
+    expect(await vault.convertToAssets(usdc("100000"))).to.equal(usdc("100000"));
+    const redeemed = await vault.connect(alice).previewRedeem(usdc("100000"));
+    expect(redeemed).to.equal(usdc("99000"));
+    expect(await vault.connect(alice).previewWithdraw(redeemed)).to.equal(usdc("100000"));
+    expect(await vault.maxWithdraw(alice.address)).to.equal(redeemed);
+
+    await expect(vault.connect(alice).redeem(usdc("100000"), alice.address, alice.address)).to.changeTokenBalance(
+      baseToken,
+      alice,
+      redeemed
+    );
+    expect(await vault.convertToAssets(usdc("100000"))).to.be.closeTo(usdc("101000"), 1);
+
+    // The previews do not know the owner and keep charging the fee
+    await time.increase(90 * DAY);
+    expect(await vault.withdrawalFeeRate(bob.address)).to.equal(0);
+    const assets = await vault.convertToAssets(usdc("100000"));
+    expect(await vault.connect(bob).previewRedeem(usdc("100000"))).to.equal(assets - (assets + 99n) / 100n);
+    expect(await vault.maxWithdraw(bob.address)).to.equal(assets);
+    await expect(vault.connect(bob).redeem(usdc("100000"), bob.address, bob.address)).to.changeTokenBalance(
+      baseToken,
+      bob,
+      assets
+    );
+  });
+
+  it("restarts the lockup on a top-up deposit however many older shares the holder has", async () => {
+    const { alice, baseToken, vault } = await loadFixture(deployVault);
+    await vault.connect(alice).deposit(usdc("900000"), alice.address);
+    await time.increase(200 * DAY);
+    expect(await vault.withdrawalFeeRate(alice.address)).to.equal(0);
+
+    // Averaged with the old shares, the new ones would already be past the lockup
+    await vault.connect(alice).deposit(usdc("100000"), alice.address);
+    expect(await vault.depositTimestamp(alice.address)).to.equal(await time.latest());
+    expect(await vault.withdrawalFeeRate(alice.address)).to.equal(100);
+
+    const shares = await vault.balanceOf(alice.address);
+    const assets = await vault.convertToAssets(shares);
+    await expect(vault.connect(alice).redeem(shares, alice.address, alice.address)).to.changeTokenBalance(
+      baseToken,
+      alice,
+      assets - (assets + 99n) / 100n
+    );
+  });
+
+  it("carries the lockup with transferred shares and charges the owner's fee on delegated redemptions", async () => {
+    const { gov, alice, bob, carol, vault } = await loadFixture(deployVault);
+    await vault.connect(alice).deposit(usdc("100000"), alice.address);
+    await vault.connect(gov).deposit(usdc("100000"), gov.address);
+    await time.increase(100 * DAY);
+    expect(await vault.withdrawalFeeRate(alice.address)).to.equal(0);
+
+    await vault.connect(bob).deposit(usdc("100000"), bob.address);
+    await vault.connect(bob).transfer(carol.address, usdc("100000"));
+    expect(await vault.lockupExpiry(carol.address)).to.equal(await vault.lockupExpiry(bob.address));
+    expect(await vault.withdrawalFeeRate(carol.address)).to.equal(100);
+
+    // Fresh shares bring their later lockup to the receiver, whatever it already holds
+    const carolDeposit = await vault.depositTimestamp(carol.address);
+    await vault.connect(carol).transfer(alice.address, usdc("100000"));
+    expect(await vault.depositTimestamp(alice.address)).to.equal(carolDeposit);
+    expect(await vault.withdrawalFeeRate(alice.address)).to.equal(100);
+    // Older shares do not shorten it
+    await vault.connect(gov).transfer(alice.address, usdc("100000"));
+    expect(await vault.depositTimestamp(alice.address)).to.equal(carolDeposit);
+
+    // Alice may redeem for carol, but carol's lockup sets the fee, which alice's preview already charges
+    await vault.connect(bob).deposit(usdc("10000"), carol.address);
+    await vault.connect(carol).approve(alice.address, usdc("10000"));
+    expect(await vault.connect(alice).previewRedeem(usdc("10000"))).to.equal(usdc("9900"));
+    await expect(vault.connect(alice).redeem(usdc("10000"), alice.address, carol.address))
+      .to.emit(vault, "Withdraw")
+      .withArgs(alice.address, alice.address, carol.address, usdc("9900"), usdc("10000"));
+    await expect(vault.connect(bob).redeem(1, bob.address, alice.address)).to.be.revertedWithCustomError(
+      vault,
+      "ERC20InsufficientAllowance"
+    );
+  });
+
+  it("caps withdrawals at the pool's liquidity and stops them behind the queue and during impairment", async () => {
+    const { gov, alice, bob, pool, vault } = await loadFixture(deployVault);
+    await vault.connect(alice).deposit(usdc("200000"), alice.address);
+    await pool.connect(bob).deposit(SENIOR, usdc("100000"));
+    await pool.connect(gov).deposit(JUNIOR, usdc("100000"));
+    await time.increase(90 * DAY);
+
+    // Lend $240k out: at 80% max utilization that ties up $300k of the $400k pool
+    await pool.deployCapital(gov.address, usdc("240000"));
+    expect(await vault.maxWithdraw(alice.address)).to.equal(usdc("100000"));
+    const maxRedeem = await vault.maxRedeem(alice.address);
+    expect(await vault.connect(alice).previewRedeem(maxRedeem)).to.be.lte(usdc("100000"));
+    await expect(vault.connect(alice).withdraw(usdc("100000") + 1n, alice.address, alice.address))
+      .to.be.revertedWithCustomError(vault, "ERC4626ExceededMaxWithdraw")
+      .withArgs(alice.address, usdc("100000") + 1n, usdc("100000"));
+    await vault.connect(alice).withdraw(usdc("60000"), alice.address, alice.address);
+    expect(await vault.maxWithdraw(alice.address)).to.equal(usdc("40000"));
+
+    // Queued holders are paid first
+    await pool.connect(bob).requestWithdrawal(SENIOR, usdc("10000"));
+    expect(await vault.maxWithdraw(alice.address)).to.equal(usdc("30000"));
+    await pool.connect(bob).requestWithdrawal(SENIOR, usdc("90000"));
+    expect(await vault.maxWithdraw(alice.address)).to.equal(0);
+    expect(await vault.maxRedeem(alice.address)).to.equal(0);
+    await pool.processWithdrawals(10);
+    expect(await vault.maxWithdraw(alice.address)).to.equal(0);
+
+    // All but $1k of the capital comes back
+    await pool.returnCapital(usdc("239000"));
+    await pool.processWithdrawals(10);
+    expect(await vault.maxWithdraw(alice.address)).to.equal(usdc("140000"));
+
+    await pool.recordLoss(usdc("1000"), "Vault 2 auction shortfall");
+    expect(await vault.maxWithdraw(alice.address)).to.equal(0);
+    expect(await vault.maxRedeem(alice.address)).to.equal(0);
+  });
+
+  it("counts claimable yield net of the performance fee and pays redemptions out of it", async () => {
+    const { alice, baseToken, pool, vault } = await loadFixture(deployVault);
+    await vault.connect(alice).deposit(usdc("100000"), alice.address);
+    await time.increase(180 * DAY);
+    await pool.distributeYield(usdc("5000"));
+
+    // The pool keeps a 10% performance fee on the senior coupon
+    const { claimableYield } = await pool.getUserPosition(SENIOR, await vault.getAddress());
+    expect(claimableYield).to.be.gt(0);
+    expect(await vault.totalAssets()).to.equal(usdc("100000") + claimableYield - claimableYield / 10n);
+    const before = await vault.totalAssets();
+
+    // Redemptions draw on claimable yield before pool shares
+    const assets = await vault.convertToAssets(usdc("1000"));
+    await expect(vault.connect(alice).redeem(usdc("1000"), alice.address, alice.address))
+      .to.emit(pool, "YieldClaimed")
+      .and.to.emit(vault, "Withdraw");
+    expect(await vault.totalAssets()).to.equal(before - assets);
+    expect(await baseToken.balanceOf(await vault.getAddress())).to.be.gt(0);
+
+    // Harvest puts the idle balance back to work
+    await expect(vault.harvest()).to.emit(vault, "Harvested");
+    expect(await baseToken.balanceOf(await vault.getAddress())).to.equal(0);
+    expect(await vault.totalAssets()).to.be.closeTo(before - assets, 2);
+  });
+});
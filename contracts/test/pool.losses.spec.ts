@@ -0,0 +1,141 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+
+const DAY = 24 * 60 * 60;
+const usdc = (amount: string) => ethers.parseUnits(amount, 6);
+
+const SENIOR = 0;
+const JUNIOR = 1;
+
+describe("CSVLiquidityPool — loss absorption", () => {
+  async function deployPool() {
+    const [gov, alice, bob, reporter, outsider] = await ethers.getSigners();
+
+    const Registry = await ethers.getContractFactory("ComplianceRegistry");
+    const registry = await Registry.deploy();
+    const Token = await ethers.getContractFactory("ERCRWACSV");
+    const token = await Token.deploy("iYield CSV Token", "iYCSV", await registry.getAddress(), gov.address);
+    await registry.grantRole(await registry.COMPLIANCE_OFFICER_ROLE(), await token.getAddress());
+    const USDC = await ethers.getContractFactory("MockERC20");
+    const baseToken = await USDC.deploy("USD Coin", "USDC", 6);
+    const Pool = await ethers.getContractFactory("CSVLiquidityPool");
+    const pool = await Pool.deploy(await token.getAddress(), await baseToken.getAddress(), {
+      seniorYieldRate: 500,
+      juniorYieldRate: 1500,
+      protocolFeeRate: 0,
+      performanceFeeRate: 0,
+      withdrawalFeeRate: 0,
+      maxUtilization: 8000,
+    });
+    const poolAddress = await pool.getAddress();
+
+    for (const account of [alice, bob]) {
+      await token.updateCompliance(account.address, {
+        isAccredited: true,
+        isKYCVerified: true,
+        jurisdictionCode: 1,
+        lockupExpiry: 0,
+        isRestricted: false,
+      });
+      await baseToken.mint(account.address, usdc("1000000"));
+      await baseToken.connect(account).approve(poolAddress, ethers.MaxUint256);
+    }
+    await pool.grantRole(await pool.LOSS_REPORTER_ROLE(), reporter.address);
+
+    // Alice takes senior risk, Bob the first loss
+    await pool.connect(alice).deposit(SENIOR, usdc("300000"));
+    await pool.connect(bob).deposit(JUNIOR, usdc("100000"));
+    // Lent out up to the 80% max utilization; losses are written off against it
+    await pool.deployCapital(gov.address, usdc("320000"));
+
+    return { gov, alice, bob, reporter, outsider, baseToken, pool };
+  }
+
+  it("writes deployed capital off against junior before senior", async () => {
+    const { alice, bob, reporter, baseToken, pool } = await loadFixture(deployPool);
+    expect(await pool.getSubordination()).to.equal(2500);
+
+    await expect(pool.connect(reporter).recordLoss(usdc("40000"), "Vault 7 auction shortfall"))
+      .to.emit(pool, "TrancheLoss")
+      .withArgs(JUNIOR, usdc("40000"), usdc("60000"))
+      .and.to.emit(pool, "LossRecorded")
+      .withArgs(usdc("40000"), usdc("40000"), 0, "Vault 7 auction shortfall");
+    expect((await pool.getTrancheInfo(SENIOR)).totalDeposits).to.equal(usdc("300000"));
+    expect((await pool.getUserPosition(JUNIOR, bob.address)).currentValue).to.equal(usdc("60000"));
+    expect(await pool.getSubordination()).to.equal(1666);
+
+    // Junior cannot cover the next one alone
+    const recordLoss = pool.connect(reporter).recordLoss(usdc("90000"), "Carrier default");
+    await expect(recordLoss)
+      .to.emit(pool, "TrancheLoss")
+      .withArgs(JUNIOR, usdc("60000"), 0)
+      .and.to.emit(pool, "TrancheLoss")
+      .withArgs(SENIOR, usdc("30000"), usdc("270000"));
+    // Nothing is paid out: the loss was never in the pool to begin with
+    await expect(recordLoss).to.changeTokenBalances(baseToken, [pool, reporter], [0, 0]);
+    expect(await pool.deployedCapital()).to.equal(usdc("190000"));
+    expect((await pool.getUserPosition(SENIOR, alice.address)).currentValue).to.equal(usdc("270000"));
+    expect(await pool.getSubordination()).to.equal(0);
+    expect(await pool.totalPoolValue()).to.equal(usdc("270000"));
+
+    expect(await pool.getLossHistoryLength()).to.equal(2);
+    const [, totalLoss, juniorLoss, seniorLoss, reason] = await pool.getLossHistory(1);
+    expect([totalLoss, juniorLoss, seniorLoss, reason]).to.deep.equal([
+      usdc("90000"),
+      usdc("60000"),
+      usdc("30000"),
+      "Carrier default",
+    ]);
+  });
+
+  it("only lets loss reporters record losses the pool can absorb", async () => {
+    const { reporter, outsider, pool } = await loadFixture(deployPool);
+
+    await expect(pool.connect(outsider).recordLoss(usdc("1"), "")).to.be.revertedWithCustomError(
+      pool,
+      "AccessControlUnauthorizedAccount"
+    );
+    await expect(pool.connect(reporter).recordLoss(0, "")).to.be.revertedWith("CSVLiquidityPool: No loss to record");
+    await expect(pool.connect(reporter).recordLoss(usdc("320001"), "")).to.be.revertedWith(
+      "CSVLiquidityPool: Loss exceeds deployed capital"
+    );
+  });
+
+  it("suspends withdrawals for the impairment period after a loss", async () => {
+    const { gov, alice, bob, reporter, pool } = await loadFixture(deployPool);
+    await time.increase(180 * DAY);
+
+    await pool.connect(reporter).recordLoss(usdc("10000"), "Vault 3 auction shortfall");
+    await expect(pool.connect(alice).withdraw(SENIOR, usdc("1000"))).to.be.revertedWith(
+      "CSVLiquidityPool: Withdrawals suspended during impairment"
+    );
+    // New money comes in at the written-down price
+    await pool.connect(bob).deposit(JUNIOR, usdc("90000"));
+    expect((await pool.getUserPosition(JUNIOR, bob.address)).shares).to.equal(usdc("200000"));
+
+    await time.increaseTo((await pool.impairedUntil()) - 2n);
+    await expect(pool.connect(alice).withdraw(SENIOR, usdc("1000"))).to.be.reverted;
+    await time.increase(1);
+    await expect(pool.connect(alice).withdraw(SENIOR, usdc("1000"))).not.to.be.reverted;
+
+    await expect(pool.connect(gov).setImpairmentPeriod(DAY))
+      .to.emit(pool, "ImpairmentPeriodUpdated")
+      .withArgs(7 * DAY, DAY);
+    await expect(pool.setImpairmentPeriod(91 * DAY)).to.be.revertedWith("CSVLiquidityPool: Invalid impairment period");
+  });
+
+  it("keeps a written-off tranche closed to new money until its shares are gone", async () => {
+    const { bob, reporter, pool } = await loadFixture(deployPool);
+    await pool.setImpairmentPeriod(0);
+    await pool.connect(reporter).recordLoss(usdc("100000"), "Carrier default");
+
+    await expect(pool.connect(bob).deposit(JUNIOR, usdc("10000"))).to.be.revertedWith(
+      "CSVLiquidityPool: Tranche written off"
+    );
+
+    await pool.connect(bob).withdraw(JUNIOR, usdc("100000"));
+    await pool.connect(bob).deposit(JUNIOR, usdc("10000"));
+    expect((await pool.getUserPosition(JUNIOR, bob.address)).currentValue).to.equal(usdc("10000"));
+  });
+});
@@ -0,0 +1,195 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+
+const DAY = 24 * 60 * 60;
+const usdc = (amount: string) => ethers.parseUnits(amount, 6);
+const csv = (amount: string) => ethers.parseEther(amount);
+
+const SENIOR = 0;
+const JUNIOR = 1;
+
+describe("CSVLiquidityPool — withdrawal queue", () => {
+  async function deployPool() {
+    const [gov, alice, bob, carol, outsider] = await ethers.getSigners();
+
+    const Registry = await ethers.getContractFactory("ComplianceRegistry");
+    const registry = await Registry.deploy();
+    const Token = await ethers.getContractFactory("ERCRWACSV");
+    const token = await Token.deploy("iYield CSV Token", "iYCSV", await registry.getAddress(), gov.address);
+    await registry.grantRole(await registry.COMPLIANCE_OFFICER_ROLE(), await token.getAddress());
+    const USDC = await ethers.getContractFactory("MockERC20");
+    const baseToken = await USDC.deploy("USD Coin", "USDC", 6);
+    const Pool = await ethers.getContractFactory("CSVLiquidityPool");
+    const pool = await Pool.deploy(await token.getAddress(), await baseToken.getAddress(), {
+      seniorYieldRate: 500,
+      juniorYieldRate: 1500,
+      protocolFeeRate: 0,
+      performanceFeeRate: 0,
+      withdrawalFeeRate: 0,
+      maxUtilization: 8000,
+    });
+    const poolAddress = await pool.getAddress();
+
+    for (const account of [gov, alice, bob, carol]) {
+      await token.updateCompliance(account.address, {
+        isAccredited: true,
+        isKYCVerified: true,
+        jurisdictionCode: 1,
+        lockupExpiry: 0,
+        isRestricted: false,
+      });
+      await baseToken.mint(account.address, usdc("1000000"));
+      await baseToken.connect(account).approve(poolAddress, ethers.MaxUint256);
+    }
+
+    await pool.connect(alice).deposit(SENIOR, usdc("300000"));
+    await pool.connect(bob).deposit(SENIOR, usdc("100000"));
+    await pool.connect(carol).deposit(JUNIOR, usdc("100000"));
+    await time.increase(180 * DAY);
+
+    // Policies are valued in 18 decimals and tie up no liquidity until the pool lends against them
+    await token.mintCSVToken(gov.address, 1, {
+      policyNumber: "POL-1",
+      carrierName: "ExampleLife",
+      cashValue: csv("500000"),
+      deathBenefit: csv("2000000"),
+      premiumAmount: csv("1000"),
+      policyAge: 120,
+      creditRating: 4,
+      lastValuationTimestamp: await time.latest(),
+      isActive: true,
+    });
+    expect(await pool.availableLiquidity()).to.equal(usdc("500000"));
+
+    // Lend $320k out: at 80% max utilization that ties up $400k of the $500k pool
+    await pool.deployCapital(gov.address, usdc("320000"));
+    const repay = () => pool.returnCapital(usdc("320000"));
+
+    return { gov, alice, bob, carol, outsider, baseToken, pool, repay };
+  }
+
+  it("only counts capital deployed in base-token units against liquidity", async () => {
+    const { gov, outsider, baseToken, pool } = await loadFixture(deployPool);
+    expect(await pool.deployedCapital()).to.equal(usdc("320000"));
+    expect(await pool.getPoolUtilization()).to.equal(6400);
+
+    await expect(pool.deployCapital(gov.address, usdc("80001"))).to.be.revertedWith(
+      "CSVLiquidityPool: Exceeds max utilization"
+    );
+    await expect(pool.connect(outsider).deployCapital(outsider.address, 1)).to.be.revertedWithCustomError(
+      pool,
+      "AccessControlUnauthorizedAccount"
+    );
+    await expect(pool.returnCapital(usdc("320001"))).to.be.revertedWith("CSVLiquidityPool: Exceeds deployed capital");
+
+    const returned = pool.returnCapital(usdc("150000"));
+    await expect(returned)
+      .to.emit(pool, "CapitalReturned")
+      .withArgs(gov.address, usdc("150000"), usdc("170000"));
+    await expect(returned).to.changeTokenBalance(baseToken, pool, usdc("150000"));
+    // $170k deployed needs $212.5k of pool value at 80%
+    expect(await pool.availableLiquidity()).to.equal(usdc("287500"));
+  });
+
+  it("queues what the pool cannot pay and fills it partially as liquidity returns", async () => {
+    const { alice, carol, baseToken, pool, repay } = await loadFixture(deployPool);
+    expect(await pool.availableLiquidity()).to.equal(usdc("100000"));
+
+    await expect(pool.connect(alice).withdraw(SENIOR, usdc("150000"))).to.be.revertedWith(
+      "CSVLiquidityPool: Insufficient liquidity"
+    );
+    await expect(pool.connect(alice).requestWithdrawal(SENIOR, usdc("150000")))
+      .to.emit(pool, "WithdrawalRequested")
+      .withArgs(SENIOR, 0, alice.address, usdc("150000"));
+    // Nobody withdraws past the queue
+    await expect(pool.connect(carol).withdraw(JUNIOR, usdc("1000"))).to.be.revertedWith(
+      "CSVLiquidityPool: Withdrawal queue not empty"
+    );
+
+    const firstFill = pool.processWithdrawals(10);
+    await expect(firstFill)
+      .to.emit(pool, "WithdrawalFilled")
+      .withArgs(SENIOR, 0, alice.address, usdc("100000"), usdc("100000"), usdc("50000"));
+    await expect(firstFill).to.changeTokenBalance(baseToken, alice, usdc("100000"));
+    expect(await pool.availableLiquidity()).to.equal(0);
+    expect(await pool.getQueuedShares(SENIOR, alice.address)).to.equal(usdc("50000"));
+    expect(await pool.getWithdrawalQueue(SENIOR)).to.deep.equal([0n, 1n, usdc("50000")]);
+
+    await repay();
+    await expect(pool.processWithdrawals(10))
+      .to.emit(pool, "WithdrawalFilled")
+      .withArgs(SENIOR, 0, alice.address, usdc("50000"), usdc("50000"), 0);
+    expect((await pool.getUserPosition(SENIOR, alice.address)).shares).to.equal(usdc("150000"));
+    expect(await pool.getWithdrawalQueue(SENIOR)).to.deep.equal([1n, 1n, 0n]);
+
+    await expect(pool.connect(carol).withdraw(JUNIOR, usdc("1000"))).not.to.be.reverted;
+  });
+
+  it("lets withdrawals past the queue when liquidity covers both", async () => {
+    const { alice, bob, carol, pool } = await loadFixture(deployPool);
+    await pool.connect(alice).requestWithdrawal(SENIOR, usdc("60000"));
+
+    await expect(pool.connect(carol).withdraw(JUNIOR, 0)).to.be.revertedWith("CSVLiquidityPool: Invalid shares");
+    // $40,001 fits in the $100k available but not next to the $60k queued ahead
+    await expect(pool.connect(carol).withdraw(JUNIOR, usdc("40001"))).to.be.revertedWith(
+      "CSVLiquidityPool: Withdrawal queue not empty"
+    );
+    // A small request at the head does not hold up what the pool can pay anyway
+    await expect(pool.connect(bob).withdraw(SENIOR, usdc("40000"))).not.to.be.reverted;
+    expect(await pool.processWithdrawals.staticCall(10)).to.equal(1);
+  });
+
+  it("fills the senior queue before junior requests made earlier", async () => {
+    const { alice, bob, carol, pool, repay } = await loadFixture(deployPool);
+
+    await pool.connect(carol).requestWithdrawal(JUNIOR, usdc("50000"));
+    await pool.connect(alice).requestWithdrawal(SENIOR, usdc("60000"));
+    await pool.connect(bob).requestWithdrawal(SENIOR, usdc("60000"));
+
+    const fill = pool.processWithdrawals(10);
+    await expect(fill)
+      .to.emit(pool, "WithdrawalFilled")
+      .withArgs(SENIOR, 0, alice.address, usdc("60000"), usdc("60000"), 0);
+    await expect(fill)
+      .to.emit(pool, "WithdrawalFilled")
+      .withArgs(SENIOR, 1, bob.address, usdc("40000"), usdc("40000"), usdc("20000"));
+    expect(await pool.getQueuedShares(JUNIOR, carol.address)).to.equal(usdc("50000"));
+
+    await repay();
+    // One request at a time: Bob's remainder first, then Carol
+    await expect(pool.processWithdrawals(1))
+      .to.emit(pool, "WithdrawalFilled")
+      .withArgs(SENIOR, 1, bob.address, usdc("20000"), usdc("20000"), 0);
+    await expect(pool.processWithdrawals(1))
+      .to.emit(pool, "WithdrawalFilled")
+      .withArgs(JUNIOR, 0, carol.address, usdc("50000"), usdc("50000"), 0);
+    expect(await pool.processWithdrawals.staticCall(10)).to.equal(0);
+  });
+
+  it("lets the owner cancel the unfilled part and keeps queued shares locked", async () => {
+    const { alice, carol, outsider, pool } = await loadFixture(deployPool);
+
+    await pool.connect(carol).requestWithdrawal(JUNIOR, usdc("80000"));
+    await expect(pool.connect(carol).requestWithdrawal(JUNIOR, usdc("30000"))).to.be.revertedWith(
+      "CSVLiquidityPool: Insufficient shares"
+    );
+    await expect(pool.connect(outsider).cancelWithdrawal(JUNIOR, 0)).to.be.revertedWith(
+      "CSVLiquidityPool: Not request owner"
+    );
+
+    await expect(pool.connect(carol).cancelWithdrawal(JUNIOR, 0))
+      .to.emit(pool, "WithdrawalCancelled")
+      .withArgs(JUNIOR, 0, carol.address, usdc("80000"));
+    await expect(pool.connect(carol).cancelWithdrawal(JUNIOR, 0)).to.be.revertedWith("CSVLiquidityPool: Request closed");
+    expect(await pool.getQueuedShares(JUNIOR, carol.address)).to.equal(0);
+
+    // The cancelled request is skipped without using up liquidity
+    await pool.connect(alice).requestWithdrawal(SENIOR, usdc("10000"));
+    await expect(pool.processWithdrawals(10))
+      .to.emit(pool, "WithdrawalFilled")
+      .withArgs(SENIOR, 0, alice.address, usdc("10000"), usdc("10000"), 0);
+    expect((await pool.getUserPosition(JUNIOR, carol.address)).shares).to.equal(usdc("100000"));
+    expect(await pool.getWithdrawalQueue(JUNIOR)).to.deep.equal([1n, 1n, 0n]);
+  });
+});
@@ -0,0 +1,270 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import fc from "fast-check";
+
+const DAY = 24 * 60 * 60;
+const YEAR = 365 * DAY;
+const usdc = (amount: string) => ethers.parseUnits(amount, 6);
+
+const SENIOR = 0;
+const JUNIOR = 1;
+
+describe("CSVLiquidityPool — yield accrual", () => {
+  async function deployPool() {
+    const [gov, alice, bob, carol, outsider] = await ethers.getSigners();
+
+    const Registry = await ethers.getContractFactory("ComplianceRegistry");
+    const registry = await Registry.deploy();
+    const Token = await ethers.getContractFactory("ERCRWACSV");
+    const token = await Token.deploy("iYield CSV Token", "iYCSV", await registry.getAddress(), gov.address);
+    await registry.grantRole(await registry.COMPLIANCE_OFFICER_ROLE(), await token.getAddress());
+    const USDC = await ethers.getContractFactory("MockERC20");
+    const baseToken = await USDC.deploy("USD Coin", "USDC", 6);
+    const Pool = await ethers.getContractFactory("CSVLiquidityPool");
+    const pool = await Pool.deploy(await token.getAddress(), await baseToken.getAddress(), {
+      seniorYieldRate: 500,
+      juniorYieldRate: 1500,
+      protocolFeeRate: 1000,
+      performanceFeeRate: 0,
+      withdrawalFeeRate: 100,
+      maxUtilization: 8000,
+    });
+    const poolAddress = await pool.getAddress();
+
+    for (const account of [gov, alice, bob, carol]) {
+      await token.updateCompliance(account.address, {
+        isAccredited: true,
+        isKYCVerified: true,
+        jurisdictionCode: 1,
+        lockupExpiry: 0,
+        isRestricted: false,
+      });
+      await baseToken.mint(account.address, usdc("100000000"));
+      await baseToken.connect(account).approve(poolAddress, ethers.MaxUint256);
+    }
+
+    return { gov, alice, bob, carol, outsider, token, baseToken, pool };
+  }
+
+  async function timestampOf(tx: Promise<{ wait(): Promise<{ blockNumber: number } | null> }>) {
+    const receipt = await (await tx).wait();
+    return BigInt((await ethers.provider.getBlock(receipt!.blockNumber))!.timestamp);
+  }
+
+  it("pays each depositor only for the time it held shares", async () => {
+    const { alice, bob, carol, token, pool } = await loadFixture(deployPool);
+
+    const aliceJoined = await timestampOf(pool.connect(alice).deposit(SENIOR, usdc("100000")));
+    await time.increase(YEAR - DAY);
+    const bobJoined = await timestampOf(pool.connect(bob).deposit(SENIOR, usdc("100000")));
+    await time.increase(DAY);
+    const distributed = await timestampOf(pool.distributeYield(usdc("20000")));
+
+    // Senior is due 5% a year on what it held; junior has no holders, so its rest goes to the protocol.
+    const aliceShareSeconds = usdc("100000") * (distributed - aliceJoined);
+    const bobShareSeconds = usdc("100000") * (distributed - bobJoined);
+    const seniorYield = ((aliceShareSeconds + bobShareSeconds) * 500n) / (10000n * BigInt(YEAR));
+    const [distribution] = await pool.queryFilter(pool.filters.YieldDistributed());
+    expect(distribution.args.seniorYield).to.equal(seniorYield);
+    expect(await pool.protocolFeeReserve()).to.equal(usdc("20000") - seniorYield);
+
+    const alicePosition = await pool.getUserPosition(SENIOR, alice.address);
+    const bobPosition = await pool.getUserPosition(SENIOR, bob.address);
+    const total = aliceShareSeconds + bobShareSeconds;
+    expect(alicePosition.claimableYield).to.be.closeTo((seniorYield * aliceShareSeconds) / total, 1n);
+    expect(bobPosition.claimableYield).to.be.closeTo((seniorYield * bobShareSeconds) / total, 1n);
+    expect(bobPosition.claimableYield * 300n).to.be.lessThan(alicePosition.claimableYield);
+
+    // Joining after a distribution earns nothing from it. Carol's year-old KYC has lapsed, so renew it first.
+    await token.updateCompliance(carol.address, {
+      isAccredited: true,
+      isKYCVerified: true,
+      jurisdictionCode: 1,
+      lockupExpiry: 0,
+      isRestricted: false,
+    });
+    await pool.connect(carol).deposit(SENIOR, usdc("100000"));
+    expect((await pool.getUserPosition(SENIOR, carol.address)).claimableYield).to.equal(0n);
+  });
+
+  it("pulls the yield from the distributor", async () => {
+    const { gov, alice, outsider, baseToken, pool } = await loadFixture(deployPool);
+    await pool.connect(alice).deposit(JUNIOR, usdc("10000"));
+    await time.increase(DAY);
+
+    await expect(pool.distributeYield(usdc("100"))).to.changeTokenBalances(
+      baseToken,
+      [gov, pool],
+      [-usdc("100"), usdc("100")]
+    );
+    await pool.grantRole(await pool.YIELD_DISTRIBUTOR_ROLE(), outsider.address);
+    await expect(pool.connect(outsider).distributeYield(usdc("100"))).to.be.revertedWithCustomError(
+      baseToken,
+      "ERC20InsufficientAllowance"
+    );
+  });
+
+  it("keeps yield distributed twice in one second for the next epoch", async () => {
+    const { alice, pool } = await loadFixture(deployPool);
+    await pool.connect(alice).deposit(JUNIOR, usdc("10000"));
+    await time.increase(DAY);
+
+    await ethers.provider.send("evm_setAutomine", [false]);
+    await pool.distributeYield(usdc("100"));
+    await pool.distributeYield(usdc("100"));
+    await ethers.provider.send("evm_mine", []);
+    await ethers.provider.send("evm_setAutomine", [true]);
+    // Accrual rounds down, by at most a unit.
+    expect((await pool.getUserPosition(JUNIOR, alice.address)).claimableYield).to.be.closeTo(usdc("90"), 1n);
+
+    await time.increase(DAY);
+    await pool.distributeYield(usdc("100"));
+    expect((await pool.getUserPosition(JUNIOR, alice.address)).claimableYield).to.be.closeTo(usdc("270"), 2n);
+    expect(await pool.protocolFeeReserve()).to.equal(usdc("30"));
+  });
+
+  it("claims net of the performance fee and keeps yield claimable after a full withdrawal", async () => {
+    const { alice, baseToken, pool } = await loadFixture(deployPool);
+    const [seniorYieldRate, juniorYieldRate, protocolFeeRate, , withdrawalFeeRate, maxUtilization] =
+      await pool.poolConfig();
+    await pool.updatePoolConfig({
+      seniorYieldRate,
+      juniorYieldRate,
+      protocolFeeRate,
+      performanceFeeRate: 2000,
+      withdrawalFeeRate,
+      maxUtilization,
+    });
+
+    await pool.connect(alice).deposit(JUNIOR, usdc("10000"));
+    await time.increase(DAY);
+    await pool.distributeYield(usdc("1000"));
+    await time.increase(180 * DAY);
+    await pool.connect(alice).withdraw(JUNIOR, usdc("10000"));
+
+    const position = await pool.getUserPosition(JUNIOR, alice.address);
+    expect(position.shares).to.equal(0n);
+    expect(position.deposits).to.equal(0n);
+    expect(position.claimableYield).to.be.closeTo(usdc("900"), 1n);
+
+    const netYield = position.claimableYield - (position.claimableYield * 2000n) / 10000n;
+    const claim = pool.connect(alice).claimYield(JUNIOR);
+    await expect(claim).to.emit(pool, "YieldClaimed").withArgs(JUNIOR, alice.address, netYield);
+    await expect(claim).to.changeTokenBalance(baseToken, alice, netYield);
+    expect((await pool.getUserPosition(JUNIOR, alice.address)).claimableYield).to.equal(0n);
+    await expect(pool.connect(alice).claimYield(JUNIOR)).to.be.revertedWith("CSVLiquidityPool: No shares");
+  });
+
+  it("compounds yield into shares reported apart from deposits", async () => {
+    const { alice, bob, pool } = await loadFixture(deployPool);
+    await pool.connect(alice).deposit(JUNIOR, usdc("10000"));
+    await pool.connect(bob).deposit(JUNIOR, usdc("10000"));
+    await time.increase(DAY);
+    await pool.distributeYield(usdc("2000"));
+
+    const before = await pool.getUserPosition(JUNIOR, alice.address);
+    const bobBefore = await pool.getUserPosition(JUNIOR, bob.address);
+    await expect(pool.connect(alice).compoundYield(JUNIOR))
+      .to.emit(pool, "YieldCompounded")
+      .withArgs(JUNIOR, alice.address, before.claimableYield, before.claimableYield);
+
+    const after = await pool.getUserPosition(JUNIOR, alice.address);
+    expect(after.claimableYield).to.equal(0n);
+    expect(after.deposits).to.equal(usdc("10000"));
+    expect(after.compoundedYield).to.equal(before.claimableYield);
+    expect(after.currentValue).to.equal(usdc("10000") + before.claimableYield);
+    expect(after.lockupExpiry).to.equal(before.lockupExpiry);
+    await expect(pool.connect(alice).compoundYield(JUNIOR)).to.be.revertedWith(
+      "CSVLiquidityPool: No yield to compound"
+    );
+
+    // Compounded shares earn their part of the next distribution.
+    await time.increase(DAY);
+    await pool.distributeYield(usdc("2000"));
+    const aliceEarned = (await pool.getUserPosition(JUNIOR, alice.address)).claimableYield;
+    const bobEarned = (await pool.getUserPosition(JUNIOR, bob.address)).claimableYield - bobBefore.claimableYield;
+    expect(aliceEarned).to.be.greaterThan(bobEarned);
+  });
+
+  describe("properties", () => {
+    type Action =
+      | { kind: "deposit"; user: number; tranche: number; units: number }
+      | { kind: "withdraw"; user: number; tranche: number; bps: number }
+      | { kind: "claim" | "compound"; user: number; tranche: number }
+      | { kind: "wait"; seconds: number }
+      | { kind: "distribute"; amount: number };
+
+    const user = fc.integer({ min: 0, max: 2 });
+    const tranche = fc.constantFrom(SENIOR, JUNIOR);
+    const action: fc.Arbitrary<Action> = fc.oneof(
+      fc.record({ kind: fc.constant("deposit" as const), user, tranche, units: fc.integer({ min: 1, max: 20 }) }),
+      fc.record({ kind: fc.constant("withdraw" as const), user, tranche, bps: fc.integer({ min: 1, max: 10000 }) }),
+      fc.record({ kind: fc.constantFrom("claim" as const, "compound" as const), user, tranche }),
+      // At most 24 waits of 14 days keep every run inside the year the fixture's KYC lasts.
+      fc.record({ kind: fc.constant("wait" as const), seconds: fc.integer({ min: 1, max: 14 * DAY }) }),
+      fc.record({ kind: fc.constant("distribute" as const), amount: fc.integer({ min: 1, max: 50_000_000_000 }) })
+    );
+
+    it("never pays out more yield than was distributed, and stays solvent", async function () {
+      this.timeout(600_000);
+
+      await fc.assert(
+        fc.asyncProperty(fc.array(action, { minLength: 1, maxLength: 24 }), async (actions) => {
+          const { alice, bob, carol, baseToken, pool } = await loadFixture(deployPool);
+          const users = [alice, bob, carol];
+
+          for (const step of actions) {
+            if (step.kind === "wait") {
+              await time.increase(step.seconds);
+            } else if (step.kind === "distribute") {
+              await pool.distributeYield(step.amount);
+            } else {
+              const signer = users[step.user];
+              const position = await pool.getUserPosition(step.tranche, signer.address);
+              const [, , , , minDeposit] = await pool.getTrancheInfo(step.tranche);
+              if (step.kind === "deposit") {
+                await pool.connect(signer).deposit(step.tranche, minDeposit * BigInt(step.units));
+              } else if (step.kind === "withdraw" && position.shares > 0n) {
+                const shares = (position.shares * BigInt(step.bps) + 9999n) / 10000n;
+                await pool.connect(signer).withdraw(step.tranche, shares);
+              } else if (step.kind === "claim" && (position.shares > 0n || position.claimableYield > 0n)) {
+                await pool.connect(signer).claimYield(step.tranche);
+              } else if (step.kind === "compound" && position.claimableYield > 0n) {
+                await pool.connect(signer).compoundYield(step.tranche);
+              }
+            }
+          }
+
+          // Settle everyone, then compare what left the accumulators with what went in.
+          for (const signer of users) {
+            for (const trancheType of [SENIOR, JUNIOR]) {
+              const position = await pool.getUserPosition(trancheType, signer.address);
+              if (position.claimableYield > 0n) await pool.connect(signer).claimYield(trancheType);
+            }
+          }
+
+          for (const trancheType of [SENIOR, JUNIOR]) {
+            const distributions = await pool.queryFilter(pool.filters.YieldDistributed());
+            const distributed = distributions.reduce(
+              (sum, { args }) => sum + (trancheType === SENIOR ? args.seniorYield : args.juniorYield),
+              0n
+            );
+            const claims = await pool.queryFilter(pool.filters.YieldClaimed(trancheType));
+            const compounds = await pool.queryFilter(pool.filters.YieldCompounded(trancheType));
+            const paid =
+              claims.reduce((sum, { args }) => sum + args.amount, 0n) +
+              compounds.reduce((sum, { args }) => sum + args.amount, 0n);
+            expect(paid).to.be.lessThanOrEqual(distributed);
+          }
+
+          const [seniorDeposits] = await pool.getTrancheInfo(SENIOR);
+          const [juniorDeposits] = await pool.getTrancheInfo(JUNIOR);
+          const liabilities = seniorDeposits + juniorDeposits + (await pool.protocolFeeReserve());
+          expect(await baseToken.balanceOf(await pool.getAddress())).to.be.greaterThanOrEqual(liabilities);
+        }),
+        { numRuns: 25 }
+      );
+    });
+  });
+});
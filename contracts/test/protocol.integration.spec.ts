@@ -0,0 +1,214 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+
+const DAY = 24 * 60 * 60;
+const parse = (amount: string) => ethers.parseEther(amount);
+const usdc = (amount: string) => ethers.parseUnits(amount, 6);
+
+const POLICY = "POLICY-123456";
+const STAKE = parse("1");
+const SENIOR = 0;
+
+describe("iYield protocol — end to end", () => {
+  async function deployProtocol() {
+    const [gov, user1, user2, requester, ...operators] = await ethers.getSigners();
+    const nodes = operators.slice(0, 3);
+
+    const Registry = await ethers.getContractFactory("ComplianceRegistry");
+    const registry = await Registry.deploy();
+    const Token = await ethers.getContractFactory("ERCRWACSV");
+    const token = await Token.deploy("iYield CSV Token", "iYCSV", await registry.getAddress(), gov.address);
+    await registry.grantRole(await registry.COMPLIANCE_OFFICER_ROLE(), await token.getAddress());
+
+    const Vault = await ethers.getContractFactory("CSVVault");
+    const vault = await Vault.deploy(await token.getAddress(), {
+      maxLTV: 8000,
+      liquidationPenalty: 500,
+      minCollateralValue: parse("1000"),
+      stabilityFee: 300,
+      isEnabled: true,
+    });
+    const vaultAddress = await vault.getAddress();
+    await token.grantRole(await token.MINTER_ROLE(), vaultAddress);
+    await token.grantRole(await token.BURNER_ROLE(), vaultAddress);
+
+    const Oracle = await ethers.getContractFactory("CSVOracle");
+    const oracle = await Oracle.deploy();
+    const Randomness = await ethers.getContractFactory("MockRandomnessSource");
+    await oracle.setRandomnessSource(await (await Randomness.deploy()).getAddress());
+    for (const [i, node] of nodes.entries()) {
+      await oracle.connect(node).registerOracle(`Oracle ${i + 1}`, `https://oracle${i + 1}.example.com`, STAKE, { value: STAKE });
+    }
+    const Relay = await ethers.getContractFactory("ValuationRelay");
+    const relay = await Relay.deploy(await oracle.getAddress(), await token.getAddress(), vaultAddress);
+    const relayAddress = await relay.getAddress();
+    await token.grantRole(await token.ORACLE_ROLE(), relayAddress);
+    await vault.grantRole(await vault.ORACLE_ROLE(), relayAddress);
+    await oracle.setValuationConsumer(relayAddress);
+
+    const USDC = await ethers.getContractFactory("MockERC20");
+    const baseToken = await USDC.deploy("USD Coin", "USDC", 6);
+    const Pool = await ethers.getContractFactory("CSVLiquidityPool");
+    const pool = await Pool.deploy(await token.getAddress(), await baseToken.getAddress(), {
+      seniorYieldRate: 400,
+      juniorYieldRate: 800,
+      protocolFeeRate: 200,
+      performanceFeeRate: 1000,
+      withdrawalFeeRate: 100,
+      maxUtilization: 9000,
+    });
+    const poolAddress = await pool.getAddress();
+
+    for (const account of [gov.address, user1.address, user2.address, vaultAddress]) {
+      await token.updateCompliance(account, {
+        isAccredited: true,
+        isKYCVerified: true,
+        jurisdictionCode: 1,
+        lockupExpiry: 0,
+        isRestricted: false,
+      });
+    }
+    for (const account of [gov, user1, user2]) {
+      await baseToken.mint(account.address, usdc("1000000"));
+      await baseToken.connect(account).approve(poolAddress, ethers.MaxUint256);
+    }
+
+    /** Mints a policy token to `owner` and vaults it at its cash value. */
+    async function vaultPolicy(owner: typeof user1, policyNumber: string, cashValue: bigint) {
+      await token.mintCSVToken(owner.address, 1, {
+        policyNumber,
+        carrierName: "Test Insurance Co",
+        cashValue,
+        deathBenefit: cashValue * 5n,
+        premiumAmount: parse("2000"),
+        policyAge: 120,
+        creditRating: 5,
+        lastValuationTimestamp: await time.latest(),
+        isActive: true,
+      });
+      const tokenIds = await token.getOwnerTokens(owner.address);
+      const tokenId = tokenIds[tokenIds.length - 1];
+      const vaultId = await vault.connect(owner).openVault.staticCall(tokenId, cashValue);
+      await expect(vault.connect(owner).openVault(tokenId, cashValue)).to.emit(vault, "VaultOpened");
+      return { tokenId, vaultId };
+    }
+
+    /**
+     * Requests a valuation of `policyNumber` that the oracles commit to and
+     * reveal after the deadline, then applies it through the relay once the
+     * dispute period is over.
+     */
+    async function valuePolicy(policyNumber: string, values: bigint[]) {
+      const requestId = await oracle.nextRequestId();
+      const deadline = (await time.latest()) + DAY;
+      await expect(
+        oracle.connect(requester).requestValuation(policyNumber, deadline, "QmTestHash123", { value: await oracle.requestFee() })
+      )
+        .to.emit(oracle, "ValuationRequested")
+        .withArgs(requestId, policyNumber, requester.address);
+      const salt = (node: string) => ethers.id(`salt-${node}`);
+      for (const [i, node] of nodes.entries()) {
+        const commitment = await oracle.computeCommitment(requestId, node.address, values[i], salt(node.address));
+        await oracle.connect(node).commitValuation(requestId, commitment);
+      }
+      await time.increaseTo(deadline + 1);
+      for (const [i, node] of nodes.entries()) {
+        await oracle
+          .connect(node)
+          .revealValuation(requestId, values[i], salt(node.address), ethers.id("proof123"), `https://docs.oracle${i + 1}.com/proof`);
+      }
+      const { disputePeriod } = await oracle.consensusConfig();
+      await time.increaseTo((await oracle.finalizedAt(requestId)) + disputePeriod + 1n);
+      await expect(relay.propagate(policyNumber)).to.emit(relay, "ValuationPropagated");
+      return requestId;
+    }
+
+    return { gov, user1, user2, registry, token, vault, oracle, relay, baseToken, pool, vaultPolicy, valuePolicy };
+  }
+
+  it("registers compliance and allows transfers between verified accounts", async () => {
+    const { registry, user1, user2 } = await loadFixture(deployProtocol);
+
+    const status = await registry.getComplianceStatus(user1.address);
+    expect(status.isKYCVerified).to.equal(true);
+    expect(status.isAccredited).to.equal(true);
+    expect(status.isRestricted).to.equal(false);
+    expect(await registry.isCompliant(user1.address)).to.equal(true);
+    expect(await registry.isTransferAllowed(user1.address, user2.address)).to.deep.equal([true, "Transfer allowed"]);
+  });
+
+  it("finalizes a commit-reveal valuation and carries it to the vaulted policy", async () => {
+    const { user1, token, vault, oracle, relay, vaultPolicy, valuePolicy } = await loadFixture(deployProtocol);
+    const { tokenId, vaultId } = await vaultPolicy(user1, POLICY, parse("50000"));
+    await relay.bindPolicy(POLICY, tokenId, vaultId);
+
+    const requestId = await valuePolicy(POLICY, [parse("50000"), parse("51000"), parse("49500")]);
+
+    const request = await oracle.getValuationRequest(requestId);
+    expect(request.isFinalized).to.equal(true);
+    expect(request.agreedValue).to.equal(parse("50000"));
+    expect((await token.getCSVMetadata(tokenId)).cashValue).to.equal(request.agreedValue);
+    expect((await vault.getVaultPosition(vaultId)).collateralValue).to.equal(request.agreedValue);
+  });
+
+  it("mints against a vaulted policy", async () => {
+    const { user1, token, vault, vaultPolicy } = await loadFixture(deployProtocol);
+    const { vaultId } = await vaultPolicy(user1, POLICY, parse("50000"));
+
+    // 50% LTV
+    const mintAmount = parse("25000");
+    const before = await token.balanceOf(user1.address);
+    await vault.connect(user1).mintTokens(vaultId, mintAmount);
+
+    expect(await token.balanceOf(user1.address)).to.equal(before + mintAmount);
+    const position = await vault.getVaultPosition(vaultId);
+    expect(position.debtAmount).to.equal(mintAmount);
+    expect(position.isActive).to.equal(true);
+  });
+
+  it("takes pool deposits and distributes yield to the senior tranche", async () => {
+    const { user1, pool } = await loadFixture(deployProtocol);
+    const depositAmount = usdc("10000");
+
+    await pool.connect(user1).deposit(SENIOR, depositAmount);
+
+    const position = await pool.getUserPosition(SENIOR, user1.address);
+    expect(position.deposits).to.equal(depositAmount);
+    // 1:1 initial ratio
+    expect(position.shares).to.equal(depositAmount);
+    const tranche = await pool.getTrancheInfo(SENIOR);
+    expect(tranche.totalDeposits).to.equal(depositAmount);
+    expect(tranche.totalShares).to.equal(depositAmount);
+
+    await time.increase(30 * DAY);
+    const yieldAmount = usdc("800");
+    await pool.distributeYield(yieldAmount);
+
+    expect(await pool.getYieldHistoryLength()).to.equal(1n);
+    const distribution = await pool.getYieldHistory(0);
+    expect(distribution.totalYield).to.equal(yieldAmount);
+    expect(distribution.seniorYield).to.be.greaterThan(0n);
+  });
+
+  it("completes the tokenization workflow for a second policy", async () => {
+    const { user2, registry, token, vault, relay, vaultPolicy, valuePolicy } = await loadFixture(deployProtocol);
+    expect(await registry.isCompliant(user2.address)).to.equal(true);
+
+    const csvValue = parse("75000");
+    const { tokenId, vaultId } = await vaultPolicy(user2, "POLICY-789012", csvValue);
+    await relay.bindPolicy("POLICY-789012", tokenId, vaultId);
+    await valuePolicy("POLICY-789012", [csvValue, csvValue, csvValue]);
+
+    // 60% LTV on the oracle's value
+    const mintAmount = (csvValue * 6n) / 10n;
+    const before = await token.balanceOf(user2.address);
+    await vault.connect(user2).mintTokens(vaultId, mintAmount);
+
+    expect(await token.balanceOf(user2.address)).to.equal(before + mintAmount);
+    const position = await vault.getVaultPosition(vaultId);
+    expect(position.collateralValue).to.equal(csvValue);
+    expect(position.debtAmount).to.equal(mintAmount);
+    expect(position.isActive).to.equal(true);
+  });
+});
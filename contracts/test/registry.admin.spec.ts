@@ -0,0 +1,84 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+
+const DAY = 24 * 60 * 60;
+const US = 1;
+
+describe("ComplianceRegistry — administration", () => {
+  async function deployRegistry() {
+    const [admin, officer, alice, bob, stranger] = await ethers.getSigners();
+
+    const Registry = await ethers.getContractFactory("ComplianceRegistry");
+    const registry = await Registry.deploy();
+    await registry.grantRole(await registry.COMPLIANCE_OFFICER_ROLE(), officer.address);
+
+    const now = BigInt(await time.latest());
+    const record = {
+      isKYCVerified: true,
+      isAccredited: true,
+      accreditationExpiry: now + BigInt(365 * DAY),
+      kycExpiry: now + BigInt(180 * DAY),
+      jurisdictionCode: US,
+      isRestricted: false,
+      lockupExpiry: 0,
+      kycProvider: officer.address,
+      kycHash: "QmImported",
+      lastUpdateTimestamp: now,
+    };
+
+    return { admin, officer, alice, bob, stranger, registry, record };
+  }
+
+  it("logs the default jurisdictions at deployment", async () => {
+    const { registry } = await loadFixture(deployRegistry);
+
+    const events = await registry.queryFilter(registry.filters.JurisdictionUpdated());
+
+    expect(events.map(({ args }) => [args.code, args.countryCode, args.allowed])).to.deep.equal([
+      [1n, "US", true],
+      [2n, "CA", true],
+      [3n, "EU", true],
+      [999n, "XX", false],
+    ]);
+  });
+
+  it("logs each imported record and keeps the statistics in step", async () => {
+    const { registry, officer, alice, bob, record } = await loadFixture(deployRegistry);
+
+    await expect(
+      registry.connect(officer).batchUpdateCompliance([alice.address, bob.address], [record, { ...record, isRestricted: true }])
+    )
+      .to.emit(registry, "ComplianceStatusImported")
+      .withArgs(alice.address, true, true, false, US, record.kycExpiry, record.accreditationExpiry, 0, officer.address)
+      .and.to.emit(registry, "ComplianceStatusImported")
+      .withArgs(bob.address, true, true, true, US, record.kycExpiry, record.accreditationExpiry, 0, officer.address);
+
+    expect(await registry.isCompliant(alice.address)).to.equal(true);
+    expect((await registry.getComplianceStatus(alice.address)).kycHash).to.equal("QmImported");
+    expect(await registry.totalVerifiedUsers()).to.equal(2n);
+    expect(await registry.totalAccreditedInvestors()).to.equal(2n);
+    expect(await registry.totalRestrictedUsers()).to.equal(1n);
+
+    // Re-importing the same records changes nothing; revoking them counts down
+    await registry.connect(officer).batchUpdateCompliance([alice.address], [record]);
+    await registry
+      .connect(officer)
+      .batchUpdateCompliance([bob.address], [{ ...record, isKYCVerified: false, isAccredited: false, isRestricted: false }]);
+
+    expect(await registry.totalVerifiedUsers()).to.equal(1n);
+    expect(await registry.totalAccreditedInvestors()).to.equal(1n);
+    expect(await registry.totalRestrictedUsers()).to.equal(0n);
+  });
+
+  it("only lets compliance officers import", async () => {
+    const { registry, stranger, alice, record } = await loadFixture(deployRegistry);
+
+    await expect(
+      registry.connect(stranger).batchUpdateCompliance([alice.address], [record])
+    ).to.be.revertedWithCustomError(registry, "AccessControlUnauthorizedAccount");
+    await expect(
+      registry.batchUpdateCompliance([ethers.ZeroAddress], [record])
+    ).to.be.revertedWith("ComplianceRegistry: Invalid address");
+  });
+});
@@ -0,0 +1,170 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import type { Signer } from "ethers";
+
+const DAY = 24 * 60 * 60;
+const US = 1;
+const UK = 3;
+const FEE = ethers.parseEther("0.01");
+
+const types = {
+  KYCAttestation: [
+    { name: "user", type: "address" },
+    { name: "jurisdictionCode", type: "uint256" },
+    { name: "expiry", type: "uint256" },
+    { name: "kycHash", type: "string" },
+    { name: "nonce", type: "bytes32" },
+  ],
+};
+
+describe("ComplianceRegistry — KYC attestations", () => {
+  async function deployRegistry() {
+    const [admin, provider, relayer, alice, stranger] = await ethers.getSigners();
+
+    const Registry = await ethers.getContractFactory("ComplianceRegistry");
+    const registry = await Registry.deploy();
+    await registry.registerKYCProvider(provider.address, "MockKYC", "http://localhost:7070", FEE, [US]);
+
+    const domain = {
+      name: "ComplianceRegistry",
+      version: "1",
+      chainId: (await ethers.provider.getNetwork()).chainId,
+      verifyingContract: await registry.getAddress(),
+    };
+
+    let nonce = 0;
+    async function attest(signer: Signer, overrides: Partial<Record<string, unknown>> = {}) {
+      const attestation = {
+        user: alice.address,
+        jurisdictionCode: US,
+        expiry: BigInt(await time.latest()) + BigInt(180 * DAY),
+        kycHash: "QmAliceKycPacket",
+        nonce: ethers.id(`attestation-${nonce++}`),
+        ...overrides,
+      };
+      return { attestation, signature: await signer.signTypedData(domain, types, attestation) };
+    }
+
+    return { admin, provider, relayer, alice, stranger, registry, domain, attest };
+  }
+
+  it("records an attestation relayed by anyone and owes the fee to the provider", async () => {
+    const { admin, registry, provider, relayer, alice, attest } = await loadFixture(deployRegistry);
+    const { attestation, signature } = await attest(provider);
+
+    await expect(registry.connect(relayer).submitKYCAttestation(attestation, signature, { value: FEE }))
+      .to.emit(registry, "KYCAttestationSubmitted")
+      .withArgs(alice.address, provider.address, attestation.nonce, relayer.address)
+      .and.to.emit(registry, "UserKYCUpdated")
+      .withArgs(alice.address, true, attestation.expiry, provider.address);
+
+    const status = await registry.getComplianceStatus(alice.address);
+    expect(status.isKYCVerified).to.equal(true);
+    expect(status.kycExpiry).to.equal(attestation.expiry);
+    expect(status.kycHash).to.equal(attestation.kycHash);
+    expect(status.kycProvider).to.equal(provider.address);
+    expect(await registry.isNonceUsed(provider.address, attestation.nonce)).to.equal(true);
+    expect(await registry.isNonceUsed(admin.address, attestation.nonce)).to.equal(false);
+
+    expect(await registry.providerFees(provider.address)).to.equal(FEE);
+    await expect(registry.connect(provider).withdrawProviderFees()).to.changeEtherBalances(
+      [registry, provider],
+      [-FEE, FEE]
+    );
+    await expect(registry.connect(provider).withdrawProviderFees()).to.be.revertedWith("ComplianceRegistry: No fees");
+  });
+
+  it("hashes attestations the way EIP-712 signers do", async () => {
+    const { registry, provider, domain, attest } = await loadFixture(deployRegistry);
+    const { attestation } = await attest(provider);
+
+    expect(await registry.hashKYCAttestation(attestation)).to.equal(
+      ethers.TypedDataEncoder.hash(domain, types, attestation)
+    );
+  });
+
+  it("refuses to replay a provider's nonce", async () => {
+    const { registry, provider, alice, stranger, attest } = await loadFixture(deployRegistry);
+    const { attestation, signature } = await attest(provider);
+    await registry.submitKYCAttestation(attestation, signature, { value: FEE });
+
+    await expect(registry.submitKYCAttestation(attestation, signature, { value: FEE })).to.be.revertedWith(
+      "ComplianceRegistry: Nonce already used"
+    );
+    await expect(
+      registry.connect(provider).updateKYCStatus(alice.address, true, "QmAlice", US, attestation.nonce)
+    ).to.be.revertedWith("ComplianceRegistry: Nonce already used");
+
+    // Another provider's nonces are its own
+    await registry.registerKYCProvider(stranger.address, "OtherKYC", "", 0, [US]);
+    await registry.connect(stranger).updateKYCStatus(alice.address, true, "QmAlice", US, attestation.nonce);
+    expect(await registry.isNonceUsed(stranger.address, attestation.nonce)).to.equal(true);
+  });
+
+  it("only accepts signatures from active registered providers", async () => {
+    const { registry, provider, stranger, attest } = await loadFixture(deployRegistry);
+
+    const forged = await attest(stranger);
+    await expect(registry.submitKYCAttestation(forged.attestation, forged.signature, { value: FEE })).to.be.revertedWith(
+      "ComplianceRegistry: Unknown or inactive provider"
+    );
+
+    const tampered = await attest(provider);
+    await expect(
+      registry.submitKYCAttestation({ ...tampered.attestation, kycHash: "QmOther" }, tampered.signature, { value: FEE })
+    ).to.be.revertedWith("ComplianceRegistry: Unknown or inactive provider");
+
+    await registry.updateKYCProviderStatus(provider.address, false);
+    const { attestation, signature } = await attest(provider);
+    await expect(registry.submitKYCAttestation(attestation, signature, { value: FEE })).to.be.revertedWith(
+      "ComplianceRegistry: Unknown or inactive provider"
+    );
+  });
+
+  it("enforces the provider's supported jurisdictions", async () => {
+    const { admin, registry, provider, alice, attest } = await loadFixture(deployRegistry);
+    const { attestation, signature } = await attest(provider, { jurisdictionCode: UK });
+
+    await expect(registry.submitKYCAttestation(attestation, signature, { value: FEE })).to.be.revertedWith(
+      "ComplianceRegistry: Jurisdiction not supported by provider"
+    );
+    await expect(
+      registry.connect(provider).updateKYCStatus(alice.address, true, "QmAlice", UK, ethers.id("direct"))
+    ).to.be.revertedWith("ComplianceRegistry: Jurisdiction not supported by provider");
+
+    // The deployer holds KYC_PROVIDER_ROLE but supports no jurisdiction until registered
+    await expect(
+      registry.connect(admin).updateKYCStatus(alice.address, true, "QmAlice", US, ethers.id("unregistered"))
+    ).to.be.revertedWith("ComplianceRegistry: Jurisdiction not supported by provider");
+    await registry.connect(provider).updateKYCStatus(alice.address, true, "QmAlice", US, ethers.id("direct"));
+    await registry.connect(admin).updateKYCStatus(alice.address, false, "", US, ethers.id("revoke"));
+    expect((await registry.getComplianceStatus(alice.address)).isKYCVerified).to.equal(false);
+  });
+
+  it("requires the provider's verification fee", async () => {
+    const { registry, provider, attest } = await loadFixture(deployRegistry);
+    const { attestation, signature } = await attest(provider);
+
+    await expect(registry.submitKYCAttestation(attestation, signature)).to.be.revertedWith(
+      "ComplianceRegistry: Incorrect verification fee"
+    );
+  });
+
+  it("rejects expired attestations and expiries beyond the KYC validity period", async () => {
+    const { registry, provider, attest } = await loadFixture(deployRegistry);
+
+    const stale = await attest(provider);
+    await time.increaseTo(stale.attestation.expiry);
+    await expect(registry.submitKYCAttestation(stale.attestation, stale.signature, { value: FEE })).to.be.revertedWith(
+      "ComplianceRegistry: Attestation expired"
+    );
+
+    const { attestation, signature } = await attest(provider, {
+      expiry: BigInt(await time.latest()) + BigInt(400 * DAY),
+    });
+    await expect(registry.submitKYCAttestation(attestation, signature, { value: FEE })).to.be.revertedWith(
+      "ComplianceRegistry: Expiry beyond KYC validity period"
+    );
+  });
+});
@@ -0,0 +1,241 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+
+const DAY = 24 * 60 * 60;
+const parse = (amount: string) => ethers.parseEther(amount);
+
+const US = 1;
+const CANADA = 2; // 30-day jurisdiction lockup
+
+describe("ERCRWACSV — registry compliance", () => {
+  async function deployToken() {
+    const [gov, alice, bob, carol, outsider] = await ethers.getSigners();
+
+    const Registry = await ethers.getContractFactory("ComplianceRegistry");
+    const registry = await Registry.deploy();
+    const Token = await ethers.getContractFactory("ERCRWACSV");
+    const token = await Token.deploy("iYield CSV Token", "iYCSV", await registry.getAddress(), gov.address);
+    await registry.grantRole(await registry.COMPLIANCE_OFFICER_ROLE(), await token.getAddress());
+    await registry.registerKYCProvider(gov.address, "Test KYC", "", 0, [US, CANADA]);
+
+    // No default lockup, so only jurisdiction lockups apply; KYC lasts 60 days.
+    await registry.updateComplianceParameters(0, 60 * DAY, 365 * DAY, false);
+
+    let nonce = 0;
+    async function verify(account: string, jurisdictionCode = US) {
+      await registry.updateKYCStatus(account, true, `kyc-${account}`, jurisdictionCode, ethers.id(`nonce-${nonce++}`));
+      await registry.updateAccreditationStatus(account, true, 0);
+    }
+
+    await verify(alice.address);
+    await verify(bob.address);
+
+    const metadata = {
+      policyNumber: "POL-1",
+      carrierName: "ExampleLife",
+      cashValue: parse("100000"),
+      deathBenefit: parse("500000"),
+      premiumAmount: parse("5000"),
+      policyAge: 10,
+      creditRating: 5,
+      lastValuationTimestamp: 0,
+      isActive: true,
+    };
+    await token.mintCSVToken(alice.address, parse("1000"), metadata);
+
+    return { gov, alice, bob, carol, outsider, registry, token, metadata, verify };
+  }
+
+  describe("transfers", () => {
+    it("allows transfers between accounts the registry clears", async () => {
+      const { token, alice, bob } = await loadFixture(deployToken);
+
+      expect(await token.isTransferAllowed(alice.address, bob.address)).to.deep.equal([true, "Transfer allowed"]);
+      await expect(token.connect(alice).transfer(bob.address, parse("100"))).to.changeTokenBalances(
+        token,
+        [alice, bob],
+        [-parse("100"), parse("100")]
+      );
+    });
+
+    it("blocks a transfer once the sender's KYC has expired in the registry", async () => {
+      const { token, registry, alice, bob } = await loadFixture(deployToken);
+      await time.increaseTo((await registry.getComplianceStatus(alice.address)).kycExpiry);
+
+      expect(await token.isTransferAllowed(alice.address, bob.address)).to.deep.equal([
+        false,
+        "Sender KYC verification required or expired",
+      ]);
+      expect((await token.getComplianceData(alice.address)).isKYCVerified).to.equal(false);
+      await expect(token.connect(alice).transfer(bob.address, parse("100"))).to.be.revertedWith(
+        "ERCRWACSV: Sender KYC verification required or expired"
+      );
+    });
+
+    it("blocks a transfer to a receiver whose KYC has expired", async () => {
+      const { token, registry, alice, bob, verify } = await loadFixture(deployToken);
+      await time.increaseTo((await registry.getComplianceStatus(bob.address)).kycExpiry);
+      await verify(alice.address);
+
+      await expect(token.connect(alice).transfer(bob.address, parse("100"))).to.be.revertedWith(
+        "ERCRWACSV: Receiver KYC verification required or expired"
+      );
+    });
+
+    it("enforces the sender's jurisdiction lockup", async () => {
+      const { token, registry, alice, carol, verify } = await loadFixture(deployToken);
+      await verify(carol.address, CANADA);
+      await token.connect(alice).transfer(carol.address, parse("100"));
+
+      await expect(token.connect(carol).transfer(alice.address, parse("100"))).to.be.revertedWith(
+        "ERCRWACSV: Sender under lockup period"
+      );
+
+      await time.increaseTo((await registry.getComplianceStatus(carol.address)).lockupExpiry + 1n);
+      await expect(token.connect(carol).transfer(alice.address, parse("100"))).to.changeTokenBalance(
+        token,
+        alice,
+        parse("100")
+      );
+    });
+
+    it("blocks transfers to accounts the registry restricts", async () => {
+      const { token, registry, alice, bob } = await loadFixture(deployToken);
+      await registry.restrictUser(bob.address, "Sanctions screening");
+
+      await expect(token.connect(alice).transfer(bob.address, parse("100"))).to.be.revertedWith(
+        "ERCRWACSV: Receiver account restricted"
+      );
+    });
+  });
+
+  describe("restriction codes", () => {
+    it("reports the registry's code and message for each failed check", async () => {
+      const { token, registry, alice, bob, carol, verify } = await loadFixture(deployToken);
+
+      expect(await token.detectTransferRestriction(alice.address, bob.address, parse("100"))).to.equal(0n);
+      expect(await token.detectTransferRestriction(alice.address, carol.address, parse("100"))).to.equal(
+        await registry.RECEIVER_KYC_REQUIRED()
+      );
+      expect(await token.detectTransferRestriction(carol.address, alice.address, 0)).to.equal(
+        await registry.SENDER_KYC_REQUIRED()
+      );
+
+      await verify(carol.address, CANADA);
+      const lockup = await token.detectTransferRestriction(carol.address, alice.address, 0);
+      expect(lockup).to.equal(await registry.SENDER_UNDER_LOCKUP());
+      expect(await token.messageForTransferRestriction(lockup)).to.equal("Sender under lockup period");
+
+      await registry.restrictUser(bob.address, "Sanctions screening");
+      const restricted = await registry.detectTransferRestriction(alice.address, bob.address, 0);
+      expect(restricted).to.equal(await registry.RECEIVER_RESTRICTED());
+      expect(await registry.messageForTransferRestriction(restricted)).to.equal("Receiver account restricted");
+    });
+
+    it("matches the reason a reverted transfer gives", async () => {
+      const { token, registry, alice, bob } = await loadFixture(deployToken);
+      await registry.registerJurisdiction(US, "US", "United States", false, false, 0);
+
+      const code = await token.detectTransferRestriction(alice.address, bob.address, parse("100"));
+      expect(code).to.equal(await registry.JURISDICTION_NOT_ALLOWED());
+      await expect(token.connect(alice).transfer(bob.address, parse("100"))).to.be.revertedWith(
+        `ERCRWACSV: ${await token.messageForTransferRestriction(code)}`
+      );
+    });
+
+    it("adds token-level codes for pauses, zero addresses and balances", async () => {
+      const { token, alice, bob } = await loadFixture(deployToken);
+
+      const insufficient = await token.detectTransferRestriction(alice.address, bob.address, parse("1001"));
+      expect(insufficient).to.equal(await token.INSUFFICIENT_BALANCE());
+      expect(await token.messageForTransferRestriction(insufficient)).to.equal("Insufficient balance");
+      expect(await token.detectTransferRestriction(alice.address, ethers.ZeroAddress, 0)).to.equal(
+        await token.INVALID_ADDRESS()
+      );
+
+      await token.pause();
+      const paused = await token.detectTransferRestriction(alice.address, bob.address, parse("1"));
+      expect(paused).to.equal(await token.TRANSFERS_PAUSED());
+      expect(await token.messageForTransferRestriction(paused)).to.equal("Token transfers paused");
+      expect(await token.messageForTransferRestriction(99)).to.equal("Unknown restriction code");
+    });
+  });
+
+  describe("minting", () => {
+    it("refuses to mint to an account whose KYC has expired", async () => {
+      const { token, registry, alice, metadata } = await loadFixture(deployToken);
+      await time.increaseTo((await registry.getComplianceStatus(alice.address)).kycExpiry);
+
+      await expect(token.mintCSVToken(alice.address, parse("1"), metadata)).to.be.revertedWith(
+        "ERCRWACSV: Account not compliant"
+      );
+    });
+
+    it("refuses to mint to an account in a disallowed jurisdiction", async () => {
+      const { token, registry, bob, metadata } = await loadFixture(deployToken);
+      await registry.registerJurisdiction(US, "US", "United States", false, false, 0);
+
+      expect(await registry.isCompliant(bob.address)).to.equal(false);
+      await expect(token.mintCSVToken(bob.address, parse("1"), metadata)).to.be.revertedWith(
+        "ERCRWACSV: Account not compliant"
+      );
+    });
+  });
+
+  describe("updateCompliance", () => {
+    it("writes through to the registry and keeps the KYC provider and hash", async () => {
+      const { token, registry, alice, gov } = await loadFixture(deployToken);
+
+      await expect(
+        token.updateCompliance(alice.address, {
+          isAccredited: true,
+          isKYCVerified: true,
+          jurisdictionCode: CANADA,
+          lockupExpiry: 0,
+          isRestricted: false,
+        })
+      )
+        .to.emit(token, "ComplianceUpdated")
+        .withArgs(alice.address, true, true);
+
+      const now = BigInt(await time.latest());
+      const status = await registry.getComplianceStatus(alice.address);
+      expect(status.jurisdictionCode).to.equal(BigInt(CANADA));
+      expect(status.kycExpiry).to.equal(now + BigInt(60 * DAY));
+      expect(status.accreditationExpiry).to.equal(now + BigInt(365 * DAY));
+      expect(status.kycProvider).to.equal(gov.address);
+      expect(status.kycHash).to.equal(`kyc-${alice.address}`);
+      expect(await token.getComplianceData(alice.address)).to.deep.equal([true, true, BigInt(CANADA), 0n, false]);
+    });
+
+    it("migrates a batch of records", async () => {
+      const { token, registry, carol, outsider } = await loadFixture(deployToken);
+      const record = { isAccredited: true, isKYCVerified: true, jurisdictionCode: US, lockupExpiry: 0, isRestricted: false };
+
+      await token.batchUpdateCompliance([carol.address, outsider.address], [record, { ...record, isRestricted: true }]);
+
+      expect(await registry.isCompliant(carol.address)).to.equal(true);
+      expect((await registry.getComplianceStatus(carol.address)).kycProvider).to.equal(await token.getAddress());
+      expect(await registry.isCompliant(outsider.address)).to.equal(false);
+      await expect(token.batchUpdateCompliance([carol.address], [])).to.be.revertedWith(
+        "ERCRWACSV: Array length mismatch"
+      );
+    });
+
+    it("needs the compliance officer role on the registry", async () => {
+      const { token, registry, carol } = await loadFixture(deployToken);
+      await registry.revokeRole(await registry.COMPLIANCE_OFFICER_ROLE(), await token.getAddress());
+
+      await expect(
+        token.updateCompliance(carol.address, {
+          isAccredited: true,
+          isKYCVerified: true,
+          jurisdictionCode: US,
+          lockupExpiry: 0,
+          isRestricted: false,
+        })
+      ).to.be.revertedWithCustomError(registry, "AccessControlUnauthorizedAccount");
+    });
+  });
+});
@@ -0,0 +1,311 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+
+const HOUR = 60 * 60;
+const parse = (amount: string) => ethers.parseEther(amount);
+
+describe("CSVVault — liquidation auctions", () => {
+  async function deployLiquidatableVault() {
+    const [gov, user, bidder, keeper, outsider] = await ethers.getSigners();
+
+    const Registry = await ethers.getContractFactory("ComplianceRegistry");
+    const registry = await Registry.deploy();
+    const Token = await ethers.getContractFactory("ERCRWACSV");
+    const token = await Token.deploy("iYield CSV Token", "iYCSV", await registry.getAddress(), gov.address);
+    await registry.grantRole(await registry.COMPLIANCE_OFFICER_ROLE(), await token.getAddress());
+    const Vault = await ethers.getContractFactory("CSVVault");
+    const vault = await Vault.deploy(await token.getAddress(), {
+      maxLTV: 8000,
+      liquidationPenalty: 1000,
+      minCollateralValue: parse("1"),
+      stabilityFee: 0,
+      isEnabled: true,
+    });
+    const vaultAddress = await vault.getAddress();
+    await token.grantRole(await token.MINTER_ROLE(), vaultAddress);
+    await token.grantRole(await token.BURNER_ROLE(), vaultAddress);
+    await token.grantRole(await token.LIQUIDATOR_ROLE(), vaultAddress);
+    await vault.grantRole(await vault.LIQUIDATOR_ROLE(), keeper.address);
+
+    // The registry gates every CSV token transfer and auction bid, the vault's included.
+    for (const account of [gov.address, user.address, bidder.address, vaultAddress]) {
+      await token.updateCompliance(account, {
+        isAccredited: true,
+        isKYCVerified: true,
+        jurisdictionCode: 1,
+        lockupExpiry: 0,
+        isRestricted: false,
+      });
+    }
+
+    const metadata = async (cashValue: bigint) => ({
+      policyNumber: "POL-1",
+      carrierName: "ExampleLife",
+      cashValue,
+      deathBenefit: cashValue * 4n,
+      premiumAmount: parse("1000"),
+      policyAge: 120,
+      creditRating: 4,
+      lastValuationTimestamp: await time.latest(),
+      isActive: true,
+    });
+
+    // A 100k policy borrowed against up to 80k, then revalued to 90k: LTV 88.9%.
+    await token.mintCSVToken(user.address, 1, await metadata(parse("100000")));
+    const [tokenId] = await token.getOwnerTokens(user.address);
+    const vaultId = await vault.connect(user).openVault.staticCall(tokenId, parse("100000"));
+    await vault.connect(user).openVault(tokenId, parse("100000"));
+    await vault.connect(user).mintTokens(vaultId, parse("80000"));
+    await vault.updateCollateralValuation(vaultId, parse("90000"));
+
+    // The bidder pays in CSV tokens.
+    await token.mintCSVToken(bidder.address, parse("200000"), await metadata(parse("200000")));
+    await token.connect(bidder).approve(vaultAddress, ethers.MaxUint256);
+
+    return { gov, user, bidder, keeper, outsider, registry, token, vault, vaultId, tokenId };
+  }
+
+  async function deployAuction() {
+    const fixture = await deployLiquidatableVault();
+    const { vault, keeper, vaultId } = fixture;
+    const auctionId = await vault.connect(keeper).liquidateVault.staticCall(vaultId);
+    await vault.connect(keeper).liquidateVault(vaultId);
+    const auction = await vault.getAuction(auctionId);
+
+    /** Bids in the block mined `seconds` after the auction started. */
+    async function bidAt(seconds: number, maxPrice = ethers.MaxUint256) {
+      await time.setNextBlockTimestamp(auction.startTime + BigInt(seconds));
+      return vault.connect(fixture.bidder).bid(auctionId, maxPrice);
+    }
+
+    return { ...fixture, auctionId, auction, bidAt };
+  }
+
+  describe("starting an auction", () => {
+    it("seizes the policy and prices it off the collateral value", async () => {
+      const { vault, token, user, keeper, vaultId, tokenId } = await loadFixture(deployLiquidatableVault);
+
+      await expect(vault.connect(keeper).liquidateVault(vaultId))
+        .to.emit(vault, "VaultLiquidated")
+        .withArgs(vaultId, keeper.address, parse("9000"))
+        .and.to.emit(vault, "AuctionStarted")
+        .withArgs(1n, vaultId, tokenId, parse("80000"), parse("9000"), parse("108000"))
+        .and.to.emit(token, "CSVTokenTransferred");
+
+      const auction = await vault.getAuction(1n);
+      expect(auction.owner).to.equal(user.address);
+      expect(auction.liquidator).to.equal(keeper.address);
+      expect(auction.floorPrice).to.equal(parse("45000"));
+      expect(auction.endTime - auction.startTime).to.equal(BigInt(6 * HOUR));
+      expect(await vault.vaultAuction(vaultId)).to.equal(1n);
+      expect(await token.getTokenOwner(tokenId)).to.equal(await vault.getAddress());
+      expect(await vault.totalDebt()).to.equal(0n);
+    });
+
+    it("liquidates and sells a vault after a partial repayment", async () => {
+      const { vault, token, user, bidder, keeper, vaultId, tokenId } = await loadFixture(deployLiquidatableVault);
+
+      // Repaying 1k leaves 79k against 90k, still over the maximum LTV; the policy stays collateral.
+      await vault.connect(user).burnTokens(vaultId, parse("1000"));
+      expect((await token.getCSVMetadata(tokenId)).isActive).to.equal(true);
+      expect(await vault.isLiquidatable(vaultId)).to.equal(true);
+
+      await expect(vault.connect(keeper).liquidateVault(vaultId))
+        .to.emit(vault, "AuctionStarted")
+        .withArgs(1n, vaultId, tokenId, parse("79000"), parse("9000"), parse("108000"));
+      await vault.connect(bidder).bid(1n, ethers.MaxUint256);
+      expect(await token.getTokenOwner(tokenId)).to.equal(bidder.address);
+    });
+
+    it("lowers the price linearly and holds it at the floor", async () => {
+      const { vault, auctionId, auction } = await loadFixture(deployAuction);
+
+      await time.increaseTo(auction.startTime + BigInt(3 * HOUR));
+      expect(await vault.getAuctionPrice(auctionId)).to.equal(parse("76500"));
+
+      await time.increaseTo(auction.endTime + 1n);
+      expect(await vault.getAuctionPrice(auctionId)).to.equal(parse("45000"));
+    });
+  });
+
+  describe("bidding", () => {
+    it("repays the debt, pays both penalty shares and owes the surplus to the owner", async () => {
+      const { vault, token, user, bidder, keeper, auctionId, tokenId, bidAt } = await loadFixture(deployAuction);
+      const supplyBefore = await token.totalSupply();
+
+      // One hour in: 108k - 63k / 6 = 97.5k.
+      await expect(bidAt(HOUR))
+        .to.emit(vault, "AuctionSettled")
+        .withArgs(auctionId, bidder.address, parse("97500"), parse("80000"), parse("4500"), parse("4500"), parse("8500"));
+
+      expect(await token.getTokenOwner(tokenId)).to.equal(bidder.address);
+      expect(await token.totalSupply()).to.equal(supplyBefore - parse("80000"));
+      expect(await vault.proceeds(keeper.address)).to.equal(parse("4500"));
+      expect(await vault.proceeds(user.address)).to.equal(parse("8500"));
+      expect(await vault.liquidationReserve()).to.equal(parse("4500"));
+      expect(await vault.badDebt()).to.equal(0n);
+      expect((await vault.getAuction(auctionId)).isActive).to.equal(false);
+
+      await expect(vault.connect(user).withdrawProceeds()).to.changeTokenBalances(
+        token,
+        [vault, user],
+        [-parse("8500"), parse("8500")]
+      );
+      await expect(vault.connect(user).withdrawProceeds()).to.be.revertedWith("CSVVault: No proceeds");
+    });
+
+    it("fills the liquidator's share before the protocol's", async () => {
+      const { vault, user, keeper, bidAt } = await loadFixture(deployAuction);
+
+      // 8400s in: 108k - 24.5k = 83.5k, leaving 3.5k after the debt.
+      await bidAt(8400);
+
+      expect(await vault.proceeds(keeper.address)).to.equal(parse("3500"));
+      expect(await vault.liquidationReserve()).to.equal(0n);
+      expect(await vault.proceeds(user.address)).to.equal(0n);
+    });
+
+    it("partially fills the debt and records the rest as bad debt", async () => {
+      const { vault, token, keeper, auctionId, bidAt } = await loadFixture(deployAuction);
+      const supplyBefore = await token.totalSupply();
+
+      // Five hours in: 108k - 52.5k = 55.5k against 80k of debt.
+      await expect(bidAt(5 * HOUR))
+        .to.emit(vault, "BadDebtRecorded")
+        .withArgs(auctionId, parse("24500"));
+
+      expect(await token.totalSupply()).to.equal(supplyBefore - parse("55500"));
+      expect(await vault.badDebt()).to.equal(parse("24500"));
+      expect(await vault.proceeds(keeper.address)).to.equal(0n);
+      expect(await vault.liquidationReserve()).to.equal(0n);
+    });
+
+    it("only accepts bidders the compliance registry clears", async () => {
+      const { vault, registry, bidder, outsider, auctionId } = await loadFixture(deployAuction);
+
+      expect(await vault.isEligibleBidder(outsider.address)).to.equal(false);
+      await expect(vault.connect(outsider).bid(auctionId, ethers.MaxUint256)).to.be.revertedWith(
+        "CSVVault: Bidder not compliant"
+      );
+
+      await registry.restrictUser(bidder.address, "Sanctions screening");
+      await expect(vault.connect(bidder).bid(auctionId, ethers.MaxUint256)).to.be.revertedWith(
+        "CSVVault: Bidder not compliant"
+      );
+    });
+
+    it("rejects a bid when the price is above the bidder's limit", async () => {
+      const { bidAt } = await loadFixture(deployAuction);
+
+      await expect(bidAt(HOUR, parse("97499"))).to.be.revertedWith("CSVVault: Price above limit");
+    });
+
+    it("rejects bids on a settled auction", async () => {
+      const { vault, bidder, auctionId, bidAt } = await loadFixture(deployAuction);
+      await bidAt(HOUR);
+
+      await expect(vault.connect(bidder).bid(auctionId, ethers.MaxUint256)).to.be.revertedWith(
+        "CSVVault: Auction not active"
+      );
+      await expect(vault.getAuctionPrice(auctionId)).to.be.revertedWith("CSVVault: Auction not active");
+    });
+  });
+
+  describe("expiry", () => {
+    it("closes an auction that expires with no bids and keeps the policy in the vault", async () => {
+      const { vault, token, bidder, auctionId, auction, tokenId } = await loadFixture(deployAuction);
+
+      await time.increaseTo(auction.endTime);
+      await expect(vault.connect(bidder).bid(auctionId, ethers.MaxUint256)).to.be.revertedWith(
+        "CSVVault: Auction expired"
+      );
+
+      expect(await token.getTokenOwner(tokenId)).to.equal(await vault.getAddress());
+      expect((await vault.getAuction(auctionId)).isActive).to.equal(true);
+      expect(await vault.badDebt()).to.equal(0n);
+    });
+
+    it("restarts an expired auction from the start price", async () => {
+      const { vault, keeper, bidder, outsider, auctionId, auction } = await loadFixture(deployAuction);
+
+      await expect(vault.connect(keeper).restartAuction(auctionId)).to.be.revertedWith(
+        "CSVVault: Auction not expired"
+      );
+
+      await time.increaseTo(auction.endTime);
+      await expect(vault.connect(outsider).restartAuction(auctionId)).to.be.revertedWithCustomError(
+        vault,
+        "AccessControlUnauthorizedAccount"
+      );
+      await expect(vault.connect(keeper).restartAuction(auctionId)).to.emit(vault, "AuctionRestarted");
+
+      const restarted = await vault.getAuction(auctionId);
+      expect(restarted.startPrice).to.equal(parse("108000"));
+      expect(restarted.startTime).to.be.greaterThan(auction.startTime);
+      expect(await vault.getAuctionPrice(auctionId)).to.equal(parse("108000"));
+
+      await time.setNextBlockTimestamp(restarted.startTime + BigInt(HOUR));
+      await expect(vault.connect(bidder).bid(auctionId, ethers.MaxUint256))
+        .to.emit(vault, "AuctionSettled")
+        .withArgs(auctionId, bidder.address, parse("97500"), parse("80000"), parse("4500"), parse("4500"), parse("8500"));
+    });
+  });
+
+  describe("governance", () => {
+    it("snapshots the auction config when an auction starts and keeps it for bids and restarts", async () => {
+      const { vault, keeper, bidder, vaultId } = await loadFixture(deployLiquidatableVault);
+      await vault.setAuctionConfig({ startPriceBps: 10000, floorPriceBps: 8000, duration: HOUR, liquidatorShareBps: 2000 });
+
+      await vault.connect(keeper).liquidateVault(vaultId);
+      await vault.setAuctionConfig({ startPriceBps: 15000, floorPriceBps: 0, duration: 2 * HOUR, liquidatorShareBps: 0 });
+
+      const auction = await vault.getAuction(1n);
+      expect(auction.startPrice).to.equal(parse("90000"));
+      expect(auction.floorPrice).to.equal(parse("72000"));
+      expect(auction.endTime - auction.startTime).to.equal(BigInt(HOUR));
+      expect([auction.startPriceBps, auction.floorPriceBps, auction.duration, auction.liquidatorShareBps]).to.deep.equal([
+        10000n,
+        8000n,
+        BigInt(HOUR),
+        2000n,
+      ]);
+
+      await time.increaseTo(auction.endTime);
+      await vault.connect(keeper).restartAuction(1n);
+      const restarted = await vault.getAuction(1n);
+      expect(restarted.startPrice).to.equal(parse("90000"));
+      expect(restarted.endTime - restarted.startTime).to.equal(BigInt(HOUR));
+
+      // One second in: 90k - 18k / 3600; the liquidator gets 20% of the 9k penalty
+      await time.setNextBlockTimestamp(restarted.startTime + 1n);
+      await expect(vault.connect(bidder).bid(1n, ethers.MaxUint256))
+        .to.emit(vault, "AuctionSettled")
+        .withArgs(1n, bidder.address, parse("89995"), parse("80000"), parse("1800"), parse("7200"), parse("995"));
+    });
+
+    it("rejects an inverted price curve, zero duration or a share over 100%", async () => {
+      const { vault } = await loadFixture(deployLiquidatableVault);
+
+      for (const config of [
+        { startPriceBps: 5000, floorPriceBps: 6000, duration: HOUR, liquidatorShareBps: 5000 },
+        { startPriceBps: 12000, floorPriceBps: 5000, duration: 0, liquidatorShareBps: 5000 },
+        { startPriceBps: 12000, floorPriceBps: 5000, duration: HOUR, liquidatorShareBps: 10001 },
+      ]) {
+        await expect(vault.setAuctionConfig(config)).to.be.revertedWith("CSVVault: Invalid auction config");
+      }
+    });
+
+    it("pays the protocol share out of the liquidation reserve", async () => {
+      const { vault, token, gov, outsider, bidAt } = await loadFixture(deployAuction);
+      await bidAt(HOUR);
+
+      await expect(vault.withdrawLiquidationReserve(gov.address, parse("4500"))).to.changeTokenBalance(
+        token,
+        gov,
+        parse("4500")
+      );
+      await expect(vault.connect(outsider).withdrawLiquidationReserve(outsider.address, 1n)).to.be.reverted;
+    });
+  });
+});
@@ -0,0 +1,278 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+
+function bps(x: number){ return Math.floor(x * 100); }
+
+describe("CSVVault — carrier concentration caps", () => {
+  it("blocks mint if adding exposure breaches cap", async () => {
+    const [gov] = await ethers.getSigners();
+    const Oracle = await ethers.getContractFactory("CSVOracle");
+    const Harness = await ethers.getContractFactory("CSVVaultHarness");
+
+    const oracle = await Oracle.connect(gov).deploy();
+    const vault  = await Harness.connect(gov).deploy(await oracle.getAddress());
+
+    await vault.connect(gov).setMaxCarrierBps(3000); // 30%
+    // simulate internal state if needed, or assume 0 for test
+    const carrier = ethers.keccak256(ethers.toUtf8Bytes("ExampleLife"));
+    const now = Math.floor(Date.now()/1000) - 60*60*24*365*3; // 3y ago
+
+    // Should revert if cap would be breached (addBps > maxCarrierBps)
+    await expect(
+      vault.__test__preMint(carrier, now, 3500 /* 35% */)
+    ).to.be.reverted;
+  });
+});
+
+const EXAMPLE_LIFE = "ExampleLife";
+const OTHER_LIFE = "OtherLife";
+const MONTH = 30 * 24 * 60 * 60;
+
+describe("CSVVault — carrier exposure", () => {
+  async function deployVault() {
+    const [gov, user, outsider] = await ethers.getSigners();
+
+    const Registry = await ethers.getContractFactory("ComplianceRegistry");
+    const registry = await Registry.deploy();
+    await registry.registerJurisdiction(840, "US", "United States", true, false, 0);
+    const Token = await ethers.getContractFactory("ERCRWACSV");
+    const token = await Token.deploy("iYield CSV Token", "iYCSV", await registry.getAddress(), gov.address);
+    await registry.grantRole(await registry.COMPLIANCE_OFFICER_ROLE(), await token.getAddress());
+    const Vault = await ethers.getContractFactory("CSVVault");
+    const vault = await Vault.deploy(await token.getAddress(), {
+      maxLTV: 8000,
+      liquidationPenalty: 1000,
+      minCollateralValue: ethers.parseEther("1"),
+      stabilityFee: 0,
+      isEnabled: true,
+    });
+    await token.grantRole(await token.MINTER_ROLE(), await vault.getAddress());
+    await token.grantRole(await token.BURNER_ROLE(), await vault.getAddress());
+    await token.grantRole(await token.LIQUIDATOR_ROLE(), await vault.getAddress());
+    await token.updateCompliance(user.address, {
+      isAccredited: true,
+      isKYCVerified: true,
+      jurisdictionCode: 840,
+      lockupExpiry: 0,
+      isRestricted: false,
+    });
+
+    /** Tokenizes a policy for `user` and opens a vault against it; returns the vault ID. */
+    async function openVault(carrierName: string, cashValue: string, policyAgeMonths = 120) {
+      const value = ethers.parseEther(cashValue);
+      await token.mintCSVToken(user.address, 1, {
+        policyNumber: `POL-${carrierName}`,
+        carrierName,
+        cashValue: value,
+        deathBenefit: value * 4n,
+        premiumAmount: ethers.parseEther("1000"),
+        policyAge: policyAgeMonths,
+        creditRating: 4,
+        lastValuationTimestamp: await time.latest(),
+        isActive: true,
+      });
+      const tokens = await token.getOwnerTokens(user.address);
+      const vaultId = await vault.connect(user).openVault.staticCall(tokens[tokens.length - 1], value);
+      await vault.connect(user).openVault(tokens[tokens.length - 1], value);
+      return vaultId;
+    }
+
+    const mint = (vaultId: bigint, amount: string) => vault.connect(user).mintTokens(vaultId, ethers.parseEther(amount));
+
+    return { gov, user, outsider, token, vault, openVault, mint };
+  }
+
+  async function deployHarness() {
+    const [gov] = await ethers.getSigners();
+    const Harness = await ethers.getContractFactory("CSVVaultHarness");
+    const vault = await Harness.deploy(gov.address);
+    return { vault, carrier: ethers.id(EXAMPLE_LIFE) };
+  }
+
+  describe("exposure tracking", () => {
+    it("keys exposure by the hash of the token's carrier name", async () => {
+      const { vault, openVault, mint } = await loadFixture(deployVault);
+      const first = await openVault(EXAMPLE_LIFE, "100000");
+      const second = await openVault(OTHER_LIFE, "100000");
+      await mint(first, "50000");
+      await mint(second, "30000");
+
+      expect(await vault.carrierKey(EXAMPLE_LIFE)).to.equal(ethers.id(EXAMPLE_LIFE));
+      expect(await vault.vaultCarrier(first)).to.equal(ethers.id(EXAMPLE_LIFE));
+      expect(await vault.getCarrierExposure(ethers.id(EXAMPLE_LIFE))).to.deep.equal([ethers.parseEther("50000"), 6250n]);
+      expect(await vault.getCarrierShareBps(ethers.id(OTHER_LIFE))).to.equal(3750n);
+
+      const [carriers, exposures] = await vault.getCarrierExposures();
+      expect(carriers).to.deep.equal([ethers.id(EXAMPLE_LIFE), ethers.id(OTHER_LIFE)]);
+      expect(exposures).to.deep.equal([ethers.parseEther("50000"), ethers.parseEther("30000")]);
+    });
+
+    it("lists a carrier once however many vaults are opened against it", async () => {
+      const { vault, openVault } = await loadFixture(deployVault);
+      await openVault(EXAMPLE_LIFE, "100000");
+      await openVault(EXAMPLE_LIFE, "50000");
+
+      const [carriers, exposures] = await vault.getCarrierExposures();
+      expect(carriers).to.deep.equal([ethers.id(EXAMPLE_LIFE)]);
+      expect(exposures).to.deep.equal([0n]);
+    });
+
+    it("reports a zero share before any debt exists", async () => {
+      const { vault } = await loadFixture(deployVault);
+      expect(await vault.getCarrierShareBps(ethers.id(EXAMPLE_LIFE))).to.equal(0n);
+    });
+
+    it("follows mints and burns", async () => {
+      const { vault, openVault, mint, user } = await loadFixture(deployVault);
+      const vaultId = await openVault(EXAMPLE_LIFE, "100000");
+
+      await expect(mint(vaultId, "40000"))
+        .to.emit(vault, "CarrierExposureUpdated")
+        .withArgs(ethers.id(EXAMPLE_LIFE), ethers.parseEther("40000"));
+      await expect(vault.connect(user).burnTokens(vaultId, ethers.parseEther("15000")))
+        .to.emit(vault, "CarrierExposureUpdated")
+        .withArgs(ethers.id(EXAMPLE_LIFE), ethers.parseEther("25000"));
+      expect(await vault.carrierExposure(ethers.id(EXAMPLE_LIFE))).to.equal(ethers.parseEther("25000"));
+    });
+
+    it("includes accrued stability fees", async () => {
+      const { vault, openVault, mint, user } = await loadFixture(deployVault);
+      await vault.updateVaultConfig({
+        maxLTV: 8000,
+        liquidationPenalty: 1000,
+        minCollateralValue: ethers.parseEther("1"),
+        stabilityFee: 500,
+        isEnabled: true,
+      });
+      const vaultId = await openVault(EXAMPLE_LIFE, "100000");
+      await mint(vaultId, "40000");
+      await time.increase(365 * 24 * 60 * 60);
+      await vault.connect(user).burnTokens(vaultId, ethers.parseEther("1000"));
+
+      const position = await vault.getVaultPosition(vaultId);
+      expect(position.debtAmount).to.be.greaterThan(ethers.parseEther("39000"));
+      expect(await vault.carrierExposure(ethers.id(EXAMPLE_LIFE))).to.equal(position.debtAmount);
+      expect(await vault.totalDebt()).to.equal(position.debtAmount);
+    });
+
+    it("drops liquidated debt", async () => {
+      const { vault, openVault, mint } = await loadFixture(deployVault);
+      const vaultId = await openVault(EXAMPLE_LIFE, "100000");
+      await mint(vaultId, "80000");
+      await vault.updateCollateralValuation(vaultId, ethers.parseEther("90000"));
+      await vault.liquidateVault(vaultId);
+
+      expect(await vault.carrierExposure(ethers.id(EXAMPLE_LIFE))).to.equal(0n);
+    });
+  });
+
+  describe("concentration cap", () => {
+    it("allows a carrier exactly at the cap and blocks one basis point over", async () => {
+      const { vault, carrier } = await loadFixture(deployHarness);
+      const issued = (await time.latest()) - 365 * 24 * 60 * 60;
+      await vault.setMaxCarrierBps(5000);
+      await vault.__test__setExposure(carrier, ethers.parseEther("30"), ethers.parseEther("100"));
+
+      await vault.__test__preMint(carrier, issued, 2000);
+      await expect(vault.__test__preMint(carrier, issued, 2001)).to.be.revertedWith(
+        "CSVVault: Carrier concentration cap exceeded"
+      );
+    });
+
+    it("checks the carrier's share after the mint", async () => {
+      const { vault, openVault, mint } = await loadFixture(deployVault);
+      const first = await openVault(EXAMPLE_LIFE, "200000");
+      const second = await openVault(OTHER_LIFE, "200000");
+      await vault.setCarrierCapFloor(ethers.parseEther("100"));
+      await mint(first, "50");
+      await vault.setMaxCarrierBps(5000);
+
+      // 50 + 50: OtherLife at exactly 50%
+      await mint(second, "50");
+      // ExampleLife: 50.02 / 100.02 rounds down to 5000 bps; OtherLife: 50.041 / 100.061 is 5001 bps
+      await mint(first, "0.02");
+      await expect(mint(second, "0.041")).to.be.revertedWith("CSVVault: Carrier concentration cap exceeded");
+      await mint(second, "0.02");
+    });
+
+    it("is not enforced while total debt stays below the floor", async () => {
+      const { vault, openVault, mint } = await loadFixture(deployVault);
+      const vaultId = await openVault(EXAMPLE_LIFE, "200000");
+      await vault.setMaxCarrierBps(3000);
+      await vault.setCarrierCapFloor(ethers.parseEther("100"));
+
+      await mint(vaultId, "99.9");
+      await expect(mint(vaultId, "0.1")).to.be.revertedWith("CSVVault: Carrier concentration cap exceeded");
+    });
+
+    it("lets other carriers mint when one is over the cap", async () => {
+      const { vault, openVault, mint } = await loadFixture(deployVault);
+      const first = await openVault(EXAMPLE_LIFE, "200000");
+      const second = await openVault(OTHER_LIFE, "200000");
+      await mint(first, "100");
+      await vault.setMaxCarrierBps(4000);
+
+      await expect(mint(first, "1")).to.be.revertedWith("CSVVault: Carrier concentration cap exceeded");
+      await mint(second, "60");
+    });
+  });
+
+  describe("policy vintage", () => {
+    it("blocks mints against policies younger than the minimum", async () => {
+      const { vault, openVault, mint } = await loadFixture(deployVault);
+      const young = await openVault(EXAMPLE_LIFE, "100000", 23);
+      const seasoned = await openVault(OTHER_LIFE, "100000", 24);
+      await vault.setMinPolicyVintage(24 * MONTH);
+
+      await expect(mint(young, "1000")).to.be.revertedWith("CSVVault: Policy vintage too recent");
+      await mint(seasoned, "1000");
+    });
+
+    it("measures the vintage up to the exact issue date", async () => {
+      const { vault, carrier } = await loadFixture(deployHarness);
+      await vault.setMinPolicyVintage(24 * MONTH);
+      const now = await time.latest();
+
+      await vault.__test__preMint(carrier, now - 24 * MONTH, 0);
+      await expect(vault.__test__preMint(carrier, now - 24 * MONTH + 3600, 0)).to.be.revertedWith(
+        "CSVVault: Policy vintage too recent"
+      );
+      await expect(vault.__test__preMint(carrier, now + 3600, 0)).to.be.revertedWith(
+        "CSVVault: Invalid policy issue date"
+      );
+    });
+  });
+
+  describe("governance", () => {
+    it("emits an event for every parameter change", async () => {
+      const { vault } = await loadFixture(deployVault);
+
+      await expect(vault.setMaxCarrierBps(3000)).to.emit(vault, "MaxCarrierBpsUpdated").withArgs(10000, 3000);
+      await expect(vault.setMaxCarrierBps(2500)).to.emit(vault, "MaxCarrierBpsUpdated").withArgs(3000, 2500);
+      await expect(vault.setCarrierCapFloor(100)).to.emit(vault, "CarrierCapFloorUpdated").withArgs(0, 100);
+      await expect(vault.setMinPolicyVintage(MONTH)).to.emit(vault, "MinPolicyVintageUpdated").withArgs(0, MONTH);
+      expect(await vault.maxCarrierBps()).to.equal(2500n);
+    });
+
+    it("rejects caps of zero or above 100%", async () => {
+      const { vault } = await loadFixture(deployVault);
+
+      await expect(vault.setMaxCarrierBps(0)).to.be.revertedWith("CSVVault: Invalid carrier cap");
+      await expect(vault.setMaxCarrierBps(10001)).to.be.revertedWith("CSVVault: Invalid carrier cap");
+      await vault.setMaxCarrierBps(10000);
+    });
+
+    it("is restricted to the admin", async () => {
+      const { vault, outsider } = await loadFixture(deployVault);
+
+      for (const call of [
+        vault.connect(outsider).setMaxCarrierBps(3000),
+        vault.connect(outsider).setCarrierCapFloor(1),
+        vault.connect(outsider).setMinPolicyVintage(1),
+      ]) {
+        await expect(call).to.be.revertedWithCustomError(vault, "AccessControlUnauthorizedAccount");
+      }
+    });
+  });
+});
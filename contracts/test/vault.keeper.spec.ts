@@ -0,0 +1,194 @@
+import { expect } from "chai";
+import { ethers, network } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { createPublicClient, createWalletClient, custom, type Address } from "viem";
+import { LiquidationKeeper, type KeeperOptions } from "../../services/src/keeper";
+
+const YEAR = 365 * 24 * 60 * 60;
+const parse = (amount: string) => ethers.parseEther(amount);
+
+/**
+ * Runs the services liquidation keeper against the deployed CSVVault through
+ * viem clients on the Hardhat network, so its fee projection, ranking and
+ * liquidation calls are checked against the contract itself.
+ */
+describe("CSVVault — liquidation keeper", () => {
+  async function deployVaults() {
+    const [gov, user, keeper, outsider] = await ethers.getSigners();
+
+    const Registry = await ethers.getContractFactory("ComplianceRegistry");
+    const registry = await Registry.deploy();
+    const Token = await ethers.getContractFactory("ERCRWACSV");
+    const token = await Token.deploy("iYield CSV Token", "iYCSV", await registry.getAddress(), gov.address);
+    await registry.grantRole(await registry.COMPLIANCE_OFFICER_ROLE(), await token.getAddress());
+    const Vault = await ethers.getContractFactory("CSVVault");
+    const vault = await Vault.deploy(await token.getAddress(), {
+      maxLTV: 8000,
+      liquidationPenalty: 500,
+      minCollateralValue: parse("1"),
+      stabilityFee: 300,
+      isEnabled: true,
+    });
+    const vaultAddress = await vault.getAddress();
+    await token.grantRole(await token.MINTER_ROLE(), vaultAddress);
+    await token.grantRole(await token.BURNER_ROLE(), vaultAddress);
+    await token.grantRole(await token.LIQUIDATOR_ROLE(), vaultAddress);
+    await vault.grantRole(await vault.LIQUIDATOR_ROLE(), keeper.address);
+
+    for (const account of [gov.address, user.address, vaultAddress]) {
+      await token.updateCompliance(account, {
+        isAccredited: true,
+        isKYCVerified: true,
+        jurisdictionCode: 1,
+        lockupExpiry: 0,
+        isRestricted: false,
+      });
+    }
+
+    /** Vaults a new policy worth `cashValue` for the user and borrows `debt` against it. */
+    async function openVault(cashValue: bigint, debt: bigint) {
+      const policyNumber = `POL-${(await token.getOwnerTokens(user.address)).length + 1}`;
+      await token.mintCSVToken(user.address, 1, {
+        policyNumber,
+        carrierName: "ExampleLife",
+        cashValue,
+        deathBenefit: cashValue * 4n,
+        premiumAmount: parse("1000"),
+        policyAge: 120,
+        creditRating: 4,
+        lastValuationTimestamp: await time.latest(),
+        isActive: true,
+      });
+      const tokenIds = await token.getOwnerTokens(user.address);
+      const tokenId = tokenIds[tokenIds.length - 1];
+      const vaultId = await vault.connect(user).openVault.staticCall(tokenId, cashValue);
+      await vault.connect(user).openVault(tokenId, cashValue);
+      await vault.connect(user).mintTokens(vaultId, debt);
+      return vaultId;
+    }
+
+    // Reverts reach viem the way a JSON-RPC node reports them: code 3 with the revert data
+    const transport = custom({
+      request: (args: { method: string; params?: unknown[] }) =>
+        network.provider.request(args).catch((error: Error & { data?: string }) => {
+          throw Object.assign(new Error(error.message), error.data ? { code: 3, data: error.data } : {});
+        }),
+    });
+    const publicClient = createPublicClient({ transport, pollingInterval: 50 });
+    const createKeeper = (options: Partial<KeeperOptions> = {}) =>
+      new LiquidationKeeper({
+        publicClient,
+        walletClient: createWalletClient({ account: keeper.address as Address, transport }),
+        vaultAddress: vaultAddress as Address,
+        retryDelayMs: 1,
+        ...options,
+      });
+
+    return { gov, user, keeper, outsider, token, vault, transport, openVault, createKeeper };
+  }
+
+  it("liquidates a vault that a new valuation pushes over maxLTV", async () => {
+    const { keeper, vault, openVault, createKeeper } = await loadFixture(deployVaults);
+    const vaultId = await openVault(parse("100000"), parse("79000"));
+    const bot = createKeeper();
+
+    const idle = await bot.runOnce();
+    expect(idle.vaults).to.equal(1);
+    expect(idle.candidates).to.have.length(0);
+
+    await vault.updateCollateralValuation(vaultId, parse("90000"));
+    const report = await bot.runOnce();
+
+    expect(report.results).to.have.length(1);
+    expect(report.results[0]).to.deep.include({
+      vaultId,
+      status: "liquidated",
+      trigger: "valuation",
+      expectedPenalty: parse("4500"),
+      attempts: 1,
+    });
+    expect((await vault.getVaultPosition(vaultId)).isActive).to.equal(false);
+    const auction = await vault.getAuction(await vault.vaultAuction(vaultId));
+    expect(auction.liquidator).to.equal(keeper.address);
+    expect(auction.penalty).to.equal(parse("4500"));
+    expect((await bot.runOnce()).vaults).to.equal(0);
+  });
+
+  it("catches a vault that only stability fee accrual pushes over maxLTV", async () => {
+    const { vault, openVault, createKeeper } = await loadFixture(deployVaults);
+    const vaultId = await openVault(parse("100000"), parse("79000"));
+    const bot = createKeeper();
+
+    expect((await bot.runOnce()).candidates).to.have.length(0);
+
+    // Half a year at 3% adds 150 bps of debt: 79,000 * 1.015 = 80,185 > 80,000
+    await time.increase(YEAR / 2);
+    const report = await bot.runOnce();
+
+    expect(report.candidates[0]).to.deep.include({ vaultId, projectedDebt: parse("80185") });
+    expect(report.results[0]).to.deep.include({ vaultId, status: "liquidated", trigger: "stability-fee" });
+    expect((await vault.getAuction(await vault.vaultAuction(vaultId))).debt).to.equal(parse("80185"));
+  });
+
+  it("liquidates candidates in order of expected penalty", async () => {
+    const { vault, openVault, createKeeper } = await loadFixture(deployVaults);
+    const small = await openVault(parse("100000"), parse("79000"));
+    const large = await openVault(parse("300000"), parse("237000"));
+    const medium = await openVault(parse("200000"), parse("158000"));
+    for (const [vaultId, value] of [
+      [small, parse("90000")],
+      [large, parse("270000")],
+      [medium, parse("180000")],
+    ]) {
+      await vault.updateCollateralValuation(vaultId, value);
+    }
+
+    const report = await createKeeper().runOnce();
+
+    expect(report.results.map((result) => [result.vaultId, result.status])).to.deep.equal([
+      [large, "liquidated"],
+      [medium, "liquidated"],
+      [small, "liquidated"],
+    ]);
+    const auctionIds = await Promise.all([large, medium, small].map((vaultId) => vault.vaultAuction(vaultId)));
+    expect(auctionIds).to.deep.equal([1n, 2n, 3n]);
+  });
+
+  it("only simulates liquidations in dry-run mode", async () => {
+    const { keeper, vault, openVault, createKeeper } = await loadFixture(deployVaults);
+    const vaultId = await openVault(parse("100000"), parse("79000"));
+    await vault.updateCollateralValuation(vaultId, parse("90000"));
+
+    const report = await createKeeper({ dryRun: true, walletClient: undefined, account: keeper.address as Address }).runOnce();
+
+    expect(report.results[0]).to.deep.include({ vaultId, status: "simulated" });
+    expect((await vault.getVaultPosition(vaultId)).isActive).to.equal(true);
+    expect(await vault.vaultAuction(vaultId)).to.equal(0n);
+  });
+
+  it("skips vaults without retrying when its key lacks LIQUIDATOR_ROLE", async () => {
+    const { outsider, vault, transport, openVault, createKeeper } = await loadFixture(deployVaults);
+    const vaultId = await openVault(parse("100000"), parse("79000"));
+    await vault.updateCollateralValuation(vaultId, parse("90000"));
+
+    const walletClient = createWalletClient({ account: outsider.address as Address, transport });
+    const report = await createKeeper({ walletClient, maxAttempts: 3 }).runOnce();
+
+    expect(report.results[0]).to.deep.include({ vaultId, status: "skipped", attempts: 1, reason: "UNAUTHORIZED" });
+    expect((await vault.getVaultPosition(vaultId)).isActive).to.equal(true);
+  });
+
+  it("sends the configured gas limit and postpones liquidations above the fee cap", async () => {
+    const { vault, openVault, createKeeper } = await loadFixture(deployVaults);
+    const vaultId = await openVault(parse("100000"), parse("79000"));
+    await vault.updateCollateralValuation(vaultId, parse("90000"));
+
+    const capped = await createKeeper({ maxFeePerGas: 1n }).runOnce();
+    expect(capped.results[0]).to.deep.include({ vaultId, status: "skipped", reason: "GAS_PRICE_ABOVE_CAP" });
+    expect((await vault.getVaultPosition(vaultId)).isActive).to.equal(true);
+
+    const report = await createKeeper({ gasLimit: 600_000n }).runOnce();
+    expect(report.results[0]).to.deep.include({ vaultId, status: "liquidated" });
+    expect((await ethers.provider.getTransaction(report.results[0].hash!))!.gasLimit).to.equal(600_000n);
+  });
+});
@@ -0,0 +1,138 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+
+const DAY = 24 * 60 * 60;
+const parse = (amount: string) => ethers.parseEther(amount);
+
+describe("CSVVault — valuation staleness", () => {
+  async function deployVault() {
+    const [gov, user, outsider] = await ethers.getSigners();
+
+    const Registry = await ethers.getContractFactory("ComplianceRegistry");
+    const registry = await Registry.deploy();
+    const Token = await ethers.getContractFactory("ERCRWACSV");
+    const token = await Token.deploy("iYield CSV Token", "iYCSV", await registry.getAddress(), gov.address);
+    await registry.grantRole(await registry.COMPLIANCE_OFFICER_ROLE(), await token.getAddress());
+    const Vault = await ethers.getContractFactory("CSVVault");
+    const vault = await Vault.deploy(await token.getAddress(), {
+      maxLTV: 8000,
+      liquidationPenalty: 1000,
+      minCollateralValue: parse("1"),
+      stabilityFee: 0,
+      isEnabled: true,
+    });
+    const vaultAddress = await vault.getAddress();
+    await token.grantRole(await token.MINTER_ROLE(), vaultAddress);
+    await token.grantRole(await token.BURNER_ROLE(), vaultAddress);
+
+    for (const account of [gov.address, user.address, vaultAddress]) {
+      await token.updateCompliance(account, {
+        isAccredited: true,
+        isKYCVerified: true,
+        jurisdictionCode: 1,
+        lockupExpiry: 0,
+        isRestricted: false,
+      });
+    }
+
+    const metadata = (cashValue: bigint, lastValuationTimestamp: number) => ({
+      policyNumber: "POL-1",
+      carrierName: "ExampleLife",
+      cashValue,
+      deathBenefit: cashValue * 4n,
+      premiumAmount: parse("1000"),
+      policyAge: 120,
+      creditRating: 4,
+      lastValuationTimestamp,
+      isActive: true,
+    });
+
+    // A 100k policy valued now, vaulted and borrowed against for 40k.
+    await token.mintCSVToken(user.address, 1, metadata(parse("100000"), await time.latest()));
+    const [tokenId] = await token.getOwnerTokens(user.address);
+    const vaultId = await vault.connect(user).openVault.staticCall(tokenId, parse("100000"));
+    await vault.connect(user).openVault(tokenId, parse("100000"));
+    await vault.connect(user).mintTokens(vaultId, parse("40000"));
+    const maxValuationAge = await vault.maxValuationAge();
+
+    return { gov, user, outsider, token, vault, vaultId, tokenId, metadata, maxValuationAge };
+  }
+
+  it("records the token's valuation time when the vault opens", async () => {
+    const { vault, token, vaultId, tokenId, maxValuationAge } = await loadFixture(deployVault);
+
+    const { lastValuationTimestamp } = await token.getCSVMetadata(tokenId);
+    expect(await vault.collateralValuedAt(vaultId)).to.equal(lastValuationTimestamp);
+    expect(maxValuationAge).to.equal(90 * DAY);
+    expect(await vault.isValuationStale(vaultId)).to.equal(false);
+  });
+
+  it("blocks minting and closing once the valuation is older than the maximum age", async () => {
+    const { vault, user, vaultId, maxValuationAge } = await loadFixture(deployVault);
+
+    await time.increase(maxValuationAge + 1n);
+
+    expect(await vault.isValuationStale(vaultId)).to.equal(true);
+    await expect(vault.connect(user).mintTokens(vaultId, parse("1000"))).to.be.revertedWith(
+      "CSVVault: Valuation stale"
+    );
+    await vault.connect(user).burnTokens(vaultId, parse("40000"));
+    await expect(vault.connect(user).closeVault(vaultId)).to.be.revertedWith("CSVVault: Valuation stale");
+  });
+
+  it("lets repayments through while the valuation is stale", async () => {
+    const { vault, user, vaultId, maxValuationAge } = await loadFixture(deployVault);
+
+    await time.increase(maxValuationAge + 1n);
+
+    await expect(vault.connect(user).burnTokens(vaultId, parse("10000"))).to.emit(vault, "TokensBurned");
+    expect((await vault.getVaultPosition(vaultId)).debtAmount).to.equal(parse("30000"));
+  });
+
+  it("unblocks the vault once the collateral is revalued", async () => {
+    const { vault, user, vaultId, maxValuationAge } = await loadFixture(deployVault);
+
+    await time.increase(maxValuationAge + 1n);
+    await vault.updateCollateralValuation(vaultId, parse("95000"));
+
+    expect(await vault.collateralValuedAt(vaultId)).to.equal(await time.latest());
+    expect(await vault.isValuationStale(vaultId)).to.equal(false);
+    await vault.connect(user).mintTokens(vaultId, parse("1000"));
+    await vault.connect(user).burnTokens(vaultId, parse("41000"));
+    await expect(vault.connect(user).closeVault(vaultId)).to.emit(vault, "VaultClosed");
+  });
+
+  it("refuses to open a vault against a stale token valuation", async () => {
+    const { vault, token, gov, metadata, maxValuationAge } = await loadFixture(deployVault);
+
+    const valuedAt = (await time.latest()) - Number(maxValuationAge) - DAY;
+    await token.mintCSVToken(gov.address, 1, metadata(parse("50000"), valuedAt));
+    const [tokenId] = await token.getOwnerTokens(gov.address);
+
+    await expect(vault.openVault(tokenId, parse("50000"))).to.be.revertedWith("CSVVault: Valuation stale");
+  });
+
+  it("applies a new maximum age to existing vaults", async () => {
+    const { vault, user, vaultId } = await loadFixture(deployVault);
+
+    await time.increase(31 * DAY);
+    await expect(vault.setMaxValuationAge(30 * DAY))
+      .to.emit(vault, "MaxValuationAgeUpdated")
+      .withArgs(90 * DAY, 30 * DAY);
+
+    await expect(vault.connect(user).mintTokens(vaultId, parse("1000"))).to.be.revertedWith(
+      "CSVVault: Valuation stale"
+    );
+  });
+
+  it("restricts the maximum age to the admin and rejects zero", async () => {
+    const { vault, outsider } = await loadFixture(deployVault);
+
+    await expect(vault.connect(outsider).setMaxValuationAge(30 * DAY)).to.be.revertedWithCustomError(
+      vault,
+      "AccessControlUnauthorizedAccount"
+    );
+    await expect(vault.setMaxValuationAge(0)).to.be.revertedWith("CSVVault: Invalid max valuation age");
+  });
+});
@@ -0,0 +1,99 @@
+'use client'
+
+import { useState } from 'react'
+import { ExternalLink } from 'lucide-react'
+import { transactionUrl } from '../../../lib/wagmi'
+import { auditCategories, describeAuditEntry, formatAddress, type AuditCategory } from './audit'
+import type { AdminPanelProps } from './types'
+
+const PAGE_SIZE = 100
+
+/**
+ * Every registry event, newest first, with the account that sent it. Filter by
+ * category and by an address that either made the change or was its subject.
+ */
+export default function AuditTrail({ admin }: Pick<AdminPanelProps, 'admin'>) {
+  const [category, setCategory] = useState<AuditCategory | 'all'>('all')
+  const [address, setAddress] = useState('')
+  const [shown, setShown] = useState(PAGE_SIZE)
+
+  const term = address.trim().toLowerCase()
+  const entries = admin.audit.filter(({ eventName, args, actor }) => {
+    if (category !== 'all' && !(auditCategories[category] as readonly string[]).includes(eventName)) return false
+    if (!term) return true
+    return [actor, args.user, args.provider, args.account].some(
+      (value) => typeof value === 'string' && value.toLowerCase().includes(term)
+    )
+  })
+
+  return (
+    <div className="card p-6">
+      <div className="flex flex-wrap gap-3 mb-4">
+        <select
+          className="border border-gray-300 rounded px-3 py-2 text-sm"
+          value={category}
+          onChange={(event) => setCategory(event.target.value as AuditCategory | 'all')}
+        >
+          <option value="all">All events</option>
+          {Object.keys(auditCategories).map((name) => (
+            <option key={name} value={name}>
+              {name.charAt(0).toUpperCase() + name.slice(1)}
+            </option>
+          ))}
+        </select>
+        <input
+          className="flex-1 min-w-[16rem] border border-gray-300 rounded px-3 py-2 text-sm font-mono"
+          placeholder="Filter by address"
+          value={address}
+          onChange={(event) => setAddress(event.target.value)}
+        />
+      </div>
+
+      {entries.length === 0 && <p className="text-sm text-gray-500">No events match.</p>}
+      {entries.length > 0 && (
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              {['Time', 'Actor', 'Event', 'Transaction'].map((heading) => (
+                <th key={heading} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                  {heading}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {entries.slice(0, shown).map((entry) => {
+              const url = transactionUrl(entry.transactionHash)
+              return (
+                <tr key={`${entry.transactionHash}-${entry.logIndex}`}>
+                  <td className="px-3 py-2 whitespace-nowrap text-gray-500">
+                    {new Date(Number(entry.timestamp) * 1000).toLocaleString()}
+                  </td>
+                  <td className="px-3 py-2 font-mono" title={entry.actor}>
+                    {formatAddress(entry.actor)}
+                  </td>
+                  <td className="px-3 py-2 text-gray-900">{describeAuditEntry(entry)}</td>
+                  <td className="px-3 py-2 font-mono">
+                    {url ? (
+                      <a href={url} target="_blank" rel="noreferrer" className="text-blue-600 inline-flex items-center">
+                        {formatAddress(entry.transactionHash)}
+                        <ExternalLink className="h-3 w-3 ml-1" />
+                      </a>
+                    ) : (
+                      formatAddress(entry.transactionHash)
+                    )}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      )}
+      {entries.length > shown && (
+        <button className="btn btn-secondary text-sm mt-4" onClick={() => setShown(shown + PAGE_SIZE)}>
+          Show more ({entries.length - shown} older)
+        </button>
+      )}
+    </div>
+  )
+}
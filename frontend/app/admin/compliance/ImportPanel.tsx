@@ -0,0 +1,144 @@
+'use client'
+
+import { useState } from 'react'
+import { AlertCircle, Upload } from 'lucide-react'
+import { complianceCsvColumns, parseComplianceCsv, type ComplianceImport } from '@iyield/sdk'
+import { complianceRegistryAbi } from '../../../lib/contracts'
+import { formatAddress, formatDate } from './audit'
+import type { AdminPanelProps } from './types'
+
+/** Records per `batchUpdateCompliance` transaction, to stay well inside the block gas limit. */
+const BATCH_SIZE = 50
+
+/**
+ * Bulk import of compliance records from a CSV file into
+ * `batchUpdateCompliance`: the file is parsed and previewed in the browser,
+ * lines with errors are left out, and the rest are written in batches.
+ */
+export default function ImportPanel({ admin, registry, send, busy }: AdminPanelProps) {
+  const [filename, setFilename] = useState<string>()
+  const [parsed, setParsed] = useState<ComplianceImport>()
+  const [imported, setImported] = useState(0)
+
+  const load = async (file: File | undefined) => {
+    setImported(0)
+    if (!file) return setParsed(undefined)
+    setFilename(file.name)
+    setParsed(
+      parseComplianceCsv(await file.text(), {
+        now: BigInt(Math.floor(Date.now() / 1000)),
+        kycValidityPeriod: admin.parameters.kycValidityPeriod,
+        accreditationValidityPeriod: admin.parameters.accreditationValidityPeriod,
+      })
+    )
+  }
+
+  const submit = async () => {
+    if (!parsed) return
+    const batches = Math.ceil(parsed.rows.length / BATCH_SIZE)
+    for (let start = imported; start < parsed.rows.length; start += BATCH_SIZE) {
+      const batch = parsed.rows.slice(start, start + BATCH_SIZE)
+      const ok = await send({
+        label: `Import ${filename} (batch ${start / BATCH_SIZE + 1} of ${batches})`,
+        contract: 'ComplianceRegistry',
+        address: registry,
+        abi: complianceRegistryAbi,
+        functionName: 'batchUpdateCompliance',
+        args: [batch.map(({ user }) => user), batch.map(({ status }) => status)],
+      })
+      // A failed batch stops the import; sending again resumes from it.
+      if (!ok) return
+      setImported(start + batch.length)
+    }
+  }
+
+  if (!admin.roles.complianceOfficer) {
+    return <div className="card p-6 text-sm text-gray-600">Bulk imports need the compliance officer role.</div>
+  }
+
+  return (
+    <div className="card p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-1">Import compliance records</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        A CSV file with a header row. Required columns: <code>address</code>, <code>kycVerified</code>,{' '}
+        <code>accredited</code>, <code>jurisdictionCode</code>, <code>restricted</code>; optional:{' '}
+        {complianceCsvColumns.slice(5).map((column, index) => (
+          <span key={column}>
+            {index > 0 && ', '}
+            <code>{column}</code>
+          </span>
+        ))}
+        . Expiries are unix seconds or YYYY-MM-DD; blank KYC and accreditation expiries default to the registry&apos;s
+        validity periods. Imported records replace the existing ones.
+      </p>
+
+      <input type="file" accept=".csv,text/csv" className="block text-sm mb-4" onChange={(event) => load(event.target.files?.[0])} />
+
+      {parsed && parsed.errors.length > 0 && (
+        <div className="p-4 mb-4 rounded bg-red-50 border border-red-200">
+          <p className="flex items-center text-sm font-medium text-red-800 mb-2">
+            <AlertCircle className="h-4 w-4 mr-2" />
+            {parsed.errors.length} line(s) will not be imported
+          </p>
+          <ul className="text-sm text-red-700 space-y-1 max-h-40 overflow-y-auto">
+            {parsed.errors.map(({ line, message }) => (
+              <li key={line}>
+                Line {line}: {message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {parsed && parsed.rows.length > 0 && (
+        <>
+          <div className="overflow-x-auto max-h-96 mb-4">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['Line', 'Address', 'KYC', 'Accredited', 'Jurisdiction', 'Restricted', 'KYC expiry', 'Accreditation expiry', 'Lockup'].map(
+                    (heading) => (
+                      <th key={heading} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                        {heading}
+                      </th>
+                    )
+                  )}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {parsed.rows.map(({ line, user, status }, index) => (
+                  <tr key={line} className={index < imported ? 'text-gray-400' : 'text-gray-900'}>
+                    <td className="px-3 py-2">{line}</td>
+                    <td className="px-3 py-2 font-mono" title={user}>
+                      {formatAddress(user)}
+                    </td>
+                    <td className="px-3 py-2">{status.isKYCVerified ? 'Yes' : 'No'}</td>
+                    <td className="px-3 py-2">{status.isAccredited ? 'Yes' : 'No'}</td>
+                    <td className="px-3 py-2">{status.jurisdictionCode.toString()}</td>
+                    <td className="px-3 py-2">{status.isRestricted ? 'Yes' : 'No'}</td>
+                    <td className="px-3 py-2">{formatDate(status.kycExpiry)}</td>
+                    <td className="px-3 py-2">{formatDate(status.accreditationExpiry)}</td>
+                    <td className="px-3 py-2">{formatDate(status.lockupExpiry)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex items-center gap-4">
+            <button
+              className="btn btn-primary text-sm disabled:opacity-50"
+              disabled={busy || imported === parsed.rows.length}
+              onClick={submit}
+            >
+              <Upload className="h-4 w-4 mr-2 inline" />
+              {imported > 0 && imported < parsed.rows.length
+                ? `Resume import (${parsed.rows.length - imported} left)`
+                : `Import ${parsed.rows.length} record(s)`}
+            </button>
+            {imported === parsed.rows.length && <span className="text-sm text-green-600">All records imported.</span>}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,152 @@
+'use client'
+
+import { useState } from 'react'
+import { complianceRegistryAbi } from '../../../lib/contracts'
+import { formatDuration } from '../../liquidity/format'
+import type { AdminPanelProps } from './types'
+
+const DAY = 86_400
+
+const emptyForm = { code: '', countryCode: '', name: '', allowed: true, additionalKYC: false, lockupDays: '0' }
+
+/**
+ * The jurisdictions the registry has logged, and a form that registers a new
+ * one or overwrites an existing code (jurisdiction managers only).
+ */
+export default function JurisdictionsPanel({ admin, registry, send, busy }: AdminPanelProps) {
+  const [form, setForm] = useState(emptyForm)
+  const valid = /^\d+$/.test(form.code) && form.countryCode.trim() !== '' && /^\d+$/.test(form.lockupDays)
+
+  const submit = async () => {
+    const ok = await send({
+      label: `Register jurisdiction ${form.code} (${form.countryCode.trim()})`,
+      contract: 'ComplianceRegistry',
+      address: registry,
+      abi: complianceRegistryAbi,
+      functionName: 'registerJurisdiction',
+      args: [
+        BigInt(form.code),
+        form.countryCode.trim(),
+        form.name.trim(),
+        form.allowed,
+        form.additionalKYC,
+        BigInt(form.lockupDays) * BigInt(DAY),
+      ],
+    })
+    if (ok) setForm(emptyForm)
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="card p-6 overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              {['Code', 'Country', 'Name', 'Allowed', 'Additional KYC', 'Additional lockup', ''].map((heading) => (
+                <th key={heading} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                  {heading}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {admin.jurisdictions.map((jurisdiction) => (
+              <tr key={jurisdiction.code.toString()}>
+                <td className="px-3 py-2">{jurisdiction.code.toString()}</td>
+                <td className="px-3 py-2">{jurisdiction.countryCode}</td>
+                <td className="px-3 py-2">{jurisdiction.jurisdictionName}</td>
+                <td className={`px-3 py-2 ${jurisdiction.isAllowed ? 'text-green-600' : 'text-red-600'}`}>
+                  {jurisdiction.isAllowed ? 'Yes' : 'No'}
+                </td>
+                <td className="px-3 py-2">{jurisdiction.requiresAdditionalKYC ? 'Yes' : 'No'}</td>
+                <td className="px-3 py-2">
+                  {jurisdiction.additionalLockupPeriod > BigInt(0) ? formatDuration(jurisdiction.additionalLockupPeriod) : '—'}
+                </td>
+                <td className="px-3 py-2 text-right">
+                  {admin.roles.jurisdictionManager && (
+                    <button
+                      className="text-blue-600"
+                      onClick={() =>
+                        setForm({
+                          code: jurisdiction.code.toString(),
+                          countryCode: jurisdiction.countryCode,
+                          name: jurisdiction.jurisdictionName,
+                          allowed: jurisdiction.isAllowed,
+                          additionalKYC: jurisdiction.requiresAdditionalKYC,
+                          lockupDays: (jurisdiction.additionalLockupPeriod / BigInt(DAY)).toString(),
+                        })
+                      }
+                    >
+                      Edit
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {admin.roles.jurisdictionManager && (
+        <div className="card p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Register or update a jurisdiction</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4 text-sm">
+            <label className="block">
+              <span className="text-gray-600">Code</span>
+              <input
+                className="mt-1 w-full border border-gray-300 rounded px-3 py-2"
+                inputMode="numeric"
+                value={form.code}
+                onChange={(event) => setForm({ ...form, code: event.target.value })}
+              />
+            </label>
+            <label className="block">
+              <span className="text-gray-600">Country code</span>
+              <input
+                className="mt-1 w-full border border-gray-300 rounded px-3 py-2"
+                value={form.countryCode}
+                onChange={(event) => setForm({ ...form, countryCode: event.target.value })}
+              />
+            </label>
+            <label className="block">
+              <span className="text-gray-600">Name</span>
+              <input
+                className="mt-1 w-full border border-gray-300 rounded px-3 py-2"
+                value={form.name}
+                onChange={(event) => setForm({ ...form, name: event.target.value })}
+              />
+            </label>
+            <label className="block">
+              <span className="text-gray-600">Additional lockup (days)</span>
+              <input
+                className="mt-1 w-full border border-gray-300 rounded px-3 py-2"
+                inputMode="numeric"
+                value={form.lockupDays}
+                onChange={(event) => setForm({ ...form, lockupDays: event.target.value })}
+              />
+            </label>
+            <label className="flex items-center gap-2 mt-6">
+              <input
+                type="checkbox"
+                checked={form.allowed}
+                onChange={(event) => setForm({ ...form, allowed: event.target.checked })}
+              />
+              Allowed
+            </label>
+            <label className="flex items-center gap-2 mt-6">
+              <input
+                type="checkbox"
+                checked={form.additionalKYC}
+                onChange={(event) => setForm({ ...form, additionalKYC: event.target.checked })}
+              />
+              Requires additional KYC
+            </label>
+          </div>
+          <button className="btn btn-primary text-sm disabled:opacity-50" disabled={busy || !valid} onClick={submit}>
+            Save jurisdiction
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,82 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { complianceRegistryAbi } from '../../../lib/contracts'
+import type { AdminPanelProps } from './types'
+
+const DAY = BigInt(86_400)
+
+/** Registry-wide validity and lockup periods, edited in days (admin only). */
+export default function ParametersPanel({ admin, registry, send, busy }: AdminPanelProps) {
+  const { defaultLockupPeriod, kycValidityPeriod, accreditationValidityPeriod, autoRenewalEnabled } = admin.parameters
+  const current = useMemo(
+    () => ({
+      lockupDays: (defaultLockupPeriod / DAY).toString(),
+      kycDays: (kycValidityPeriod / DAY).toString(),
+      accreditationDays: (accreditationValidityPeriod / DAY).toString(),
+      autoRenewal: autoRenewalEnabled,
+    }),
+    [defaultLockupPeriod, kycValidityPeriod, accreditationValidityPeriod, autoRenewalEnabled]
+  )
+  const [form, setForm] = useState(current)
+
+  // Pick up changes made elsewhere once they are mined.
+  useEffect(() => {
+    setForm(current)
+  }, [current])
+
+  const valid = [form.lockupDays, form.kycDays, form.accreditationDays].every((days) => /^\d+$/.test(days))
+
+  const submit = () =>
+    send({
+      label: 'Update compliance parameters',
+      contract: 'ComplianceRegistry',
+      address: registry,
+      abi: complianceRegistryAbi,
+      functionName: 'updateComplianceParameters',
+      args: [
+        BigInt(form.lockupDays) * DAY,
+        BigInt(form.kycDays) * DAY,
+        BigInt(form.accreditationDays) * DAY,
+        form.autoRenewal,
+      ],
+    })
+
+  const field = (label: string, key: 'lockupDays' | 'kycDays' | 'accreditationDays') => (
+    <label className="block">
+      <span className="text-gray-600">{label} (days)</span>
+      <input
+        className="mt-1 w-full border border-gray-300 rounded px-3 py-2 disabled:bg-gray-50"
+        inputMode="numeric"
+        disabled={!admin.roles.admin}
+        value={form[key]}
+        onChange={(event) => setForm({ ...form, [key]: event.target.value })}
+      />
+    </label>
+  )
+
+  return (
+    <div className="card p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">Compliance parameters</h3>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4 text-sm">
+        {field('Default lockup', 'lockupDays')}
+        {field('KYC validity', 'kycDays')}
+        {field('Accreditation validity', 'accreditationDays')}
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            disabled={!admin.roles.admin}
+            checked={form.autoRenewal}
+            onChange={(event) => setForm({ ...form, autoRenewal: event.target.checked })}
+          />
+          Auto-renewal enabled
+        </label>
+      </div>
+      {admin.roles.admin && (
+        <button className="btn btn-primary text-sm disabled:opacity-50" disabled={busy || !valid} onClick={submit}>
+          Save parameters
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,162 @@
+'use client'
+
+import { useState } from 'react'
+import { formatEther, isAddress, parseEther, type Address } from 'viem'
+import { complianceRegistryAbi } from '../../../lib/contracts'
+import { formatAddress } from './audit'
+import type { AdminPanelProps } from './types'
+
+const emptyForm = { address: '', name: '', endpoint: '', fee: '0', jurisdictions: '' }
+
+/** Comma-separated jurisdiction codes, or undefined if there are none or any is not a number. */
+function parseCodes(value: string): bigint[] | undefined {
+  const codes = value
+    .split(',')
+    .map((code) => code.trim())
+    .filter(Boolean)
+  return codes.length > 0 && codes.every((code) => /^\d+$/.test(code)) ? codes.map(BigInt) : undefined
+}
+
+function parseFee(value: string): bigint | undefined {
+  try {
+    return parseEther(value.trim())
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Registered KYC providers with their fees, activation toggles and a
+ * registration form. Registering or toggling a provider grants or revokes
+ * its `KYC_PROVIDER_ROLE`, so both are admin only.
+ */
+export default function ProvidersPanel({ admin, registry, send, busy }: AdminPanelProps) {
+  const [form, setForm] = useState(emptyForm)
+  const codes = parseCodes(form.jurisdictions)
+  const fee = parseFee(form.fee)
+  const valid = isAddress(form.address.trim()) && form.name.trim() !== '' && !!codes && fee !== undefined
+
+  const write = (label: string, functionName: string, args: readonly unknown[]) =>
+    send({ label, contract: 'ComplianceRegistry', address: registry, abi: complianceRegistryAbi, functionName, args })
+
+  const register = async () => {
+    const address = form.address.trim() as Address
+    const ok = await write(`Register KYC provider ${form.name.trim()}`, 'registerKYCProvider', [
+      address,
+      form.name.trim(),
+      form.endpoint.trim(),
+      fee,
+      codes,
+    ])
+    if (ok) setForm(emptyForm)
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="card p-6 overflow-x-auto">
+        {admin.providers.length === 0 && <p className="text-sm text-gray-500">No KYC providers registered.</p>}
+        {admin.providers.length > 0 && (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                {['Provider', 'Name', 'Endpoint', 'Fee', 'Jurisdictions', 'Unwithdrawn fees', 'Status', ''].map(
+                  (heading) => (
+                    <th key={heading} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                      {heading}
+                    </th>
+                  )
+                )}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {admin.providers.map((provider) => (
+                <tr key={provider.address}>
+                  <td className="px-3 py-2 font-mono" title={provider.address}>
+                    {formatAddress(provider.address)}
+                  </td>
+                  <td className="px-3 py-2">{provider.name}</td>
+                  <td className="px-3 py-2 break-all">{provider.endpoint || '—'}</td>
+                  <td className="px-3 py-2">{formatEther(provider.verificationFee)} ETH</td>
+                  <td className="px-3 py-2">{provider.supportedJurisdictions.join(', ') || '—'}</td>
+                  <td className="px-3 py-2">{formatEther(provider.fees)} ETH</td>
+                  <td className={`px-3 py-2 ${provider.isActive ? 'text-green-600' : 'text-gray-500'}`}>
+                    {provider.isActive ? 'Active' : 'Inactive'}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {admin.roles.admin && (
+                      <button
+                        className="text-blue-600 disabled:opacity-50"
+                        disabled={busy}
+                        onClick={() =>
+                          write(
+                            `${provider.isActive ? 'Deactivate' : 'Activate'} ${provider.name}`,
+                            'updateKYCProviderStatus',
+                            [provider.address, !provider.isActive]
+                          )
+                        }
+                      >
+                        {provider.isActive ? 'Deactivate' : 'Activate'}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {admin.roles.admin && (
+        <div className="card p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Register a KYC provider</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4 text-sm">
+            <label className="block">
+              <span className="text-gray-600">Signing address</span>
+              <input
+                className="mt-1 w-full border border-gray-300 rounded px-3 py-2 font-mono"
+                value={form.address}
+                onChange={(event) => setForm({ ...form, address: event.target.value })}
+              />
+            </label>
+            <label className="block">
+              <span className="text-gray-600">Name</span>
+              <input
+                className="mt-1 w-full border border-gray-300 rounded px-3 py-2"
+                value={form.name}
+                onChange={(event) => setForm({ ...form, name: event.target.value })}
+              />
+            </label>
+            <label className="block">
+              <span className="text-gray-600">Endpoint</span>
+              <input
+                className="mt-1 w-full border border-gray-300 rounded px-3 py-2"
+                value={form.endpoint}
+                onChange={(event) => setForm({ ...form, endpoint: event.target.value })}
+              />
+            </label>
+            <label className="block">
+              <span className="text-gray-600">Verification fee (ETH)</span>
+              <input
+                className="mt-1 w-full border border-gray-300 rounded px-3 py-2"
+                inputMode="decimal"
+                value={form.fee}
+                onChange={(event) => setForm({ ...form, fee: event.target.value })}
+              />
+            </label>
+            <label className="block md:col-span-2">
+              <span className="text-gray-600">Supported jurisdiction codes (comma-separated)</span>
+              <input
+                className="mt-1 w-full border border-gray-300 rounded px-3 py-2"
+                value={form.jurisdictions}
+                onChange={(event) => setForm({ ...form, jurisdictions: event.target.value })}
+              />
+            </label>
+          </div>
+          <button className="btn btn-primary text-sm disabled:opacity-50" disabled={busy || !valid} onClick={register}>
+            Register provider
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,175 @@
+'use client'
+
+import { useState } from 'react'
+import { isAddress, type Address } from 'viem'
+import { Ban, CheckCircle, Search, XCircle } from 'lucide-react'
+import { complianceRegistryAbi } from '../../../lib/contracts'
+import { useComplianceStatus } from '../../../hooks/useComplianceStatus'
+import { describeAuditEntry, formatAddress, formatDate } from './audit'
+import type { AdminPanelProps } from './types'
+
+const Flag = ({ value, label }: { value: boolean; label: string }) => (
+  <span className="flex items-center text-sm">
+    {value ? <CheckCircle className="h-4 w-4 text-green-500 mr-1" /> : <XCircle className="h-4 w-4 text-gray-400 mr-1" />}
+    {label}
+  </span>
+)
+
+/**
+ * Search the users the registry knows of (or any address), view their full
+ * `ComplianceStatus`, and restrict, lift restrictions or change accreditation.
+ */
+export default function UserPanel({ admin, registry, send, busy }: AdminPanelProps) {
+  const [query, setQuery] = useState('')
+  const [selected, setSelected] = useState<Address>()
+  const [reason, setReason] = useState('')
+  const compliance = useComplianceStatus(selected)
+  const record = compliance.status === 'ready' ? compliance.compliance : undefined
+
+  const term = query.trim().toLowerCase()
+  const matches = admin.users.filter((user) => user.toLowerCase().includes(term)).slice(0, 50)
+  const history = selected ? admin.audit.filter(({ args }) => args.user === selected) : []
+  const canAct = admin.roles.complianceOfficer && !busy
+
+  const write = (label: string, functionName: string, args: readonly unknown[]) =>
+    send({ label, contract: 'ComplianceRegistry', address: registry, abi: complianceRegistryAbi, functionName, args })
+
+  const restrict = async () => {
+    if (selected && (await write(`Restrict ${formatAddress(selected)}`, 'restrictUser', [selected, reason.trim()]))) {
+      setReason('')
+    }
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="card p-6">
+        <div className="relative mb-4">
+          <Search className="h-4 w-4 text-gray-400 absolute left-3 top-3" />
+          <input
+            className="w-full border border-gray-300 rounded pl-9 pr-3 py-2 text-sm font-mono"
+            placeholder="Search by address"
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+          />
+        </div>
+        {isAddress(query.trim()) && !admin.users.some((user) => user.toLowerCase() === term) && (
+          <button className="text-sm text-blue-600 mb-3" onClick={() => setSelected(query.trim() as Address)}>
+            Look up {formatAddress(query.trim())}
+          </button>
+        )}
+        <ul className="divide-y divide-gray-100 max-h-96 overflow-y-auto">
+          {matches.map((user) => (
+            <li key={user}>
+              <button
+                onClick={() => setSelected(user)}
+                className={`w-full text-left px-2 py-2 text-sm font-mono ${
+                  user === selected ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {user}
+              </button>
+            </li>
+          ))}
+        </ul>
+        {matches.length === 0 && <p className="text-sm text-gray-500">No users match.</p>}
+      </div>
+
+      <div className="card p-6 lg:col-span-2">
+        {!selected && <p className="text-sm text-gray-500">Select a user to see their compliance record.</p>}
+        {selected && compliance.status === 'loading' && <div className="animate-pulse h-40 bg-gray-200 rounded"></div>}
+        {selected && compliance.status === 'error' && <p className="text-sm text-red-600">{compliance.error.message}</p>}
+        {selected && record && (
+          <>
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 font-mono break-all">{selected}</h3>
+                <p className={`text-sm ${record.isCompliant ? 'text-green-600' : 'text-red-600'}`}>
+                  {record.isCompliant ? 'Compliant' : 'Not compliant'}
+                </p>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-4 mb-4">
+              <Flag value={record.status.isKYCVerified} label="KYC verified" />
+              <Flag value={record.status.isAccredited} label="Accredited" />
+              <Flag value={!record.status.isRestricted} label="Unrestricted" />
+            </div>
+            <dl className="grid grid-cols-2 gap-x-6 gap-y-2 text-sm mb-6">
+              <dt className="text-gray-500">KYC expiry</dt>
+              <dd>{formatDate(record.status.kycExpiry)}</dd>
+              <dt className="text-gray-500">Accreditation expiry</dt>
+              <dd>{formatDate(record.status.accreditationExpiry)}</dd>
+              <dt className="text-gray-500">Jurisdiction</dt>
+              <dd>
+                {record.status.jurisdictionCode.toString()} {record.jurisdictionName && `(${record.jurisdictionName})`}
+              </dd>
+              <dt className="text-gray-500">Lockup expiry</dt>
+              <dd>{formatDate(record.status.lockupExpiry)}</dd>
+              <dt className="text-gray-500">KYC provider</dt>
+              <dd className="font-mono">{formatAddress(record.status.kycProvider)}</dd>
+              <dt className="text-gray-500">KYC hash</dt>
+              <dd className="font-mono break-all">{record.status.kycHash || '—'}</dd>
+              <dt className="text-gray-500">Last update</dt>
+              <dd>{formatDate(record.status.lastUpdateTimestamp)}</dd>
+            </dl>
+
+            {admin.roles.complianceOfficer && (
+              <div className="border-t border-gray-200 pt-4 space-y-3">
+                {record.status.isRestricted ? (
+                  <button
+                    className="btn btn-secondary text-sm"
+                    disabled={!canAct}
+                    onClick={() => write(`Lift restriction on ${formatAddress(selected)}`, 'unrestrictUser', [selected])}
+                  >
+                    Lift restriction
+                  </button>
+                ) : (
+                  <div className="flex gap-2">
+                    <input
+                      className="flex-1 border border-gray-300 rounded px-3 py-2 text-sm"
+                      placeholder="Reason for the restriction (logged on-chain)"
+                      value={reason}
+                      onChange={(event) => setReason(event.target.value)}
+                    />
+                    <button
+                      className="btn btn-primary text-sm bg-red-600 hover:bg-red-700 disabled:opacity-50"
+                      disabled={!canAct || !reason.trim()}
+                      onClick={restrict}
+                    >
+                      <Ban className="h-4 w-4 mr-1 inline" />
+                      Restrict
+                    </button>
+                  </div>
+                )}
+                <button
+                  className="btn btn-secondary text-sm"
+                  disabled={!canAct}
+                  onClick={() =>
+                    write(
+                      `${record.status.isAccredited ? 'Revoke' : 'Grant'} accreditation for ${formatAddress(selected)}`,
+                      'updateAccreditationStatus',
+                      [selected, !record.status.isAccredited, BigInt(0)]
+                    )
+                  }
+                >
+                  {record.status.isAccredited ? 'Revoke accreditation' : 'Grant accreditation'}
+                </button>
+              </div>
+            )}
+
+            <h4 className="text-sm font-semibold text-gray-900 mt-6 mb-2">History</h4>
+            {history.length === 0 && <p className="text-sm text-gray-500">No registry events for this user.</p>}
+            <ul className="space-y-1">
+              {history.map((entry) => (
+                <li key={`${entry.transactionHash}-${entry.logIndex}`} className="text-sm text-gray-700">
+                  <span className="text-gray-500 mr-2">{formatDate(entry.timestamp)}</span>
+                  {describeAuditEntry(entry)}
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
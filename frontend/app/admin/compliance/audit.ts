@@ -0,0 +1,81 @@
+import { formatEther } from 'viem'
+import { complianceRegistryRoles } from '@iyield/sdk'
+import type { AuditEntry } from '../../../hooks/useComplianceAdmin'
+import { formatDuration } from '../../liquidity/format'
+
+export const formatAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`
+
+export const formatDate = (timestamp: bigint) =>
+  timestamp > BigInt(0) ? new Date(Number(timestamp) * 1000).toLocaleDateString() : '—'
+
+const roleNames: Record<string, string> = Object.fromEntries(
+  Object.entries(complianceRegistryRoles).map(([name, role]) => [role, name])
+)
+
+/** Groups the audit trail can be filtered by. */
+export const auditCategories = {
+  users: [
+    'UserKYCUpdated',
+    'UserAccreditationUpdated',
+    'UserRestricted',
+    'UserUnrestricted',
+    'LockupPeriodUpdated',
+    'KYCAttestationSubmitted',
+    'ComplianceStatusImported',
+  ],
+  jurisdictions: ['JurisdictionUpdated'],
+  providers: ['KYCProviderRegistered', 'KYCProviderUpdated', 'ProviderFeesWithdrawn'],
+  administration: ['ComplianceParametersUpdated', 'RoleGranted', 'RoleRevoked', 'Paused', 'Unpaused'],
+} as const
+
+export type AuditCategory = keyof typeof auditCategories
+
+/** One-line description of a registry event for the audit trail. */
+export function describeAuditEntry({ eventName, args }: AuditEntry): string {
+  const user = typeof args.user === 'string' ? formatAddress(args.user) : ''
+  switch (eventName) {
+    case 'UserKYCUpdated':
+      return args.verified ? `KYC verified for ${user} until ${formatDate(args.expiry as bigint)}` : `KYC revoked for ${user}`
+    case 'UserAccreditationUpdated':
+      return args.accredited
+        ? `${user} accredited until ${formatDate(args.expiry as bigint)}`
+        : `Accreditation revoked for ${user}`
+    case 'UserRestricted':
+      return `${user} restricted: ${args.reason}`
+    case 'UserUnrestricted':
+      return `Restriction lifted for ${user}`
+    case 'LockupPeriodUpdated':
+      return `Lockup for ${user} set to ${formatDate(args.expiry as bigint)}`
+    case 'KYCAttestationSubmitted':
+      return `KYC attestation for ${user} by provider ${formatAddress(args.provider as string)}`
+    case 'ComplianceStatusImported':
+      return `Record imported for ${user}: ${[
+        args.kycVerified ? 'KYC' : 'no KYC',
+        args.accredited ? 'accredited' : 'not accredited',
+        args.restricted ? 'restricted' : 'unrestricted',
+        `jurisdiction ${args.jurisdictionCode}`,
+      ].join(', ')}`
+    case 'JurisdictionUpdated':
+      return `Jurisdiction ${args.code} (${args.countryCode}) ${args.allowed ? 'allowed' : 'disallowed'}`
+    case 'KYCProviderRegistered':
+      return `KYC provider ${args.name} registered at ${formatAddress(args.provider as string)}`
+    case 'KYCProviderUpdated':
+      return `KYC provider ${formatAddress(args.provider as string)} ${args.active ? 'activated' : 'deactivated'}`
+    case 'ProviderFeesWithdrawn':
+      return `Provider ${formatAddress(args.provider as string)} withdrew ${formatEther(args.amount as bigint)} ETH in fees`
+    case 'ComplianceParametersUpdated':
+      return `Parameters: lockup ${formatDuration(args.lockupPeriod as bigint)}, KYC valid ${formatDuration(
+        args.kycValidity as bigint
+      )}, accreditation valid ${formatDuration(args.accreditationValidity as bigint)}`
+    case 'RoleGranted':
+    case 'RoleRevoked': {
+      const role = roleNames[args.role as string] ?? `${(args.role as string).slice(0, 10)}…`
+      return `Role ${role} ${eventName === 'RoleGranted' ? 'granted to' : 'revoked from'} ${formatAddress(args.account as string)}`
+    }
+    case 'Paused':
+    case 'Unpaused':
+      return `Registry ${eventName.toLowerCase()}`
+    default:
+      return eventName
+  }
+}
@@ -0,0 +1,158 @@
+'use client'
+
+import { useState } from 'react'
+import { useAccount, useChainId } from 'wagmi'
+import { AlertCircle, Lock, Shield } from 'lucide-react'
+import ConnectWallet from '../../../components/ConnectWallet'
+import TransactionStatus from '../../../components/TransactionStatus'
+import { useComplianceAdmin } from '../../../hooks/useComplianceAdmin'
+import { useTransaction } from '../../../hooks/useTransaction'
+import { getContractAddresses } from '../../../lib/contracts'
+import AuditTrail from './AuditTrail'
+import ImportPanel from './ImportPanel'
+import JurisdictionsPanel from './JurisdictionsPanel'
+import ParametersPanel from './ParametersPanel'
+import ProvidersPanel from './ProvidersPanel'
+import UserPanel from './UserPanel'
+
+type Tab = 'users' | 'import' | 'jurisdictions' | 'providers' | 'audit'
+
+const tabs: { key: Tab; label: string }[] = [
+  { key: 'users', label: 'Users' },
+  { key: 'import', label: 'Bulk Import' },
+  { key: 'jurisdictions', label: 'Jurisdictions' },
+  { key: 'providers', label: 'Providers & Parameters' },
+  { key: 'audit', label: 'Audit Trail' },
+]
+
+const Notice = ({ title, message }: { title: string; message: string }) => (
+  <div className="card p-6 bg-red-50 border-red-200">
+    <div className="flex items-start">
+      <AlertCircle className="h-5 w-5 text-red-600 mt-0.5 mr-3 flex-shrink-0" />
+      <div>
+        <h3 className="text-sm font-medium text-red-800">{title}</h3>
+        <p className="text-sm text-red-700 mt-1 break-words">{message}</p>
+      </div>
+    </div>
+  </div>
+)
+
+export default function ComplianceAdminPage() {
+  const { address: account } = useAccount()
+  const chainId = useChainId()
+  const registry = getContractAddresses(chainId)?.complianceRegistry
+  const adminState = useComplianceAdmin(account)
+  const transaction = useTransaction()
+  const [activeTab, setActiveTab] = useState<Tab>('users')
+
+  const busy = transaction.state.status === 'signing' || transaction.state.status === 'pending'
+  const admin = adminState.status === 'ready' ? adminState.admin : undefined
+  const allowed = !!admin && (admin.roles.admin || admin.roles.complianceOfficer || admin.roles.jurisdictionManager)
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center">
+              <Shield className="h-6 w-6 text-blue-600 mr-3" />
+              <h1 className="text-2xl font-bold text-gray-900">Compliance Administration</h1>
+            </div>
+            <div className="flex items-center space-x-6">
+              {admin && (
+                <p className="text-sm text-gray-600">
+                  {[
+                    admin.roles.admin && 'Admin',
+                    admin.roles.complianceOfficer && 'Compliance officer',
+                    admin.roles.jurisdictionManager && 'Jurisdiction manager',
+                  ]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </p>
+              )}
+              <ConnectWallet />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {adminState.status === 'idle' && (
+          <div className="card p-6 text-sm text-gray-600">Connect a wallet holding a registry role to continue.</div>
+        )}
+        {adminState.status === 'not-deployed' && (
+          <Notice
+            title="Protocol not deployed on this network"
+            message={`No iYield contracts are configured for chain ${adminState.chainId}. Switch your wallet to the protocol network.`}
+          />
+        )}
+        {adminState.status === 'error' && <Notice title="Unable to load registry data" message={adminState.error.message} />}
+        {adminState.status === 'loading' && (
+          <div className="animate-pulse">
+            <div className="h-8 bg-gray-200 rounded w-1/3 mb-6"></div>
+            <div className="h-96 bg-gray-200 rounded"></div>
+          </div>
+        )}
+        {admin && !allowed && (
+          <div className="card p-6 flex items-start">
+            <Lock className="h-5 w-5 text-gray-500 mt-0.5 mr-3 flex-shrink-0" />
+            <div>
+              <h3 className="text-sm font-medium text-gray-900">Access restricted</h3>
+              <p className="text-sm text-gray-600 mt-1">
+                {account} holds no ComplianceRegistry role. The console is open to admins, compliance officers and
+                jurisdiction managers.
+              </p>
+            </div>
+          </div>
+        )}
+
+        {admin && allowed && registry && (
+          <>
+            <TransactionStatus state={transaction.state} onDismiss={transaction.reset} />
+
+            {/* Tabs */}
+            <div className="mb-8">
+              <div className="border-b border-gray-200">
+                <nav className="-mb-px flex space-x-8">
+                  {tabs.map(({ key, label }) => (
+                    <button
+                      key={key}
+                      onClick={() => setActiveTab(key)}
+                      className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                        activeTab === key
+                          ? 'border-blue-500 text-blue-600'
+                          : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </nav>
+              </div>
+            </div>
+
+            {/* Tab Content */}
+            {activeTab === 'users' && (
+              <UserPanel admin={admin} registry={registry} send={transaction.send} busy={busy} />
+            )}
+            {activeTab === 'import' && (
+              <ImportPanel admin={admin} registry={registry} send={transaction.send} busy={busy} />
+            )}
+            {activeTab === 'jurisdictions' && (
+              <JurisdictionsPanel admin={admin} registry={registry} send={transaction.send} busy={busy} />
+            )}
+            {activeTab === 'providers' && (
+              <div className="space-y-6">
+                <ProvidersPanel admin={admin} registry={registry} send={transaction.send} busy={busy} />
+                <ParametersPanel admin={admin} registry={registry} send={transaction.send} busy={busy} />
+              </div>
+            )}
+            {activeTab === 'audit' && <AuditTrail admin={admin} />}
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,12 @@
+import type { Address } from 'viem'
+import type { ComplianceAdminData } from '../../../hooks/useComplianceAdmin'
+import type { TransactionRequest } from '../../../hooks/useTransaction'
+
+/** What every console panel gets from the page. */
+export interface AdminPanelProps {
+  admin: ComplianceAdminData
+  registry: Address
+  send: (request: TransactionRequest) => Promise<boolean>
+  /** A transaction is being signed or mined. */
+  busy: boolean
+}
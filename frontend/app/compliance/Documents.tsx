@@ -0,0 +1,164 @@
+'use client'
+
+import { useState } from 'react'
+import type { Address } from 'viem'
+import { AlertCircle, CheckCircle, Clock, FileText, Upload, XCircle } from 'lucide-react'
+import { documentKinds, type ComplianceDocument, type DocumentKind } from '@iyield/sdk'
+import { useDocuments } from '../../hooks/useDocuments'
+
+const kindLabels: Record<DocumentKind, { title: string; description: string }> = {
+  kyc: { title: 'Identity Verification', description: 'Government-issued photo ID and proof of address' },
+  accreditation: { title: 'Accreditation Certificate', description: 'SEC accredited investor verification letter' },
+}
+
+const statusStyles: Record<ComplianceDocument['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  verified: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+}
+
+const StatusIcon = ({ status }: { status: ComplianceDocument['status'] }) =>
+  status === 'verified' ? (
+    <CheckCircle className="h-5 w-5 text-green-500" />
+  ) : status === 'rejected' ? (
+    <XCircle className="h-5 w-5 text-red-500" />
+  ) : (
+    <Clock className="h-5 w-5 text-yellow-500" />
+  )
+
+const formatBytes = (size: number) =>
+  size < 1024 ? `${size} B` : size < 1024 * 1024 ? `${(size / 1024).toFixed(1)} KB` : `${(size / 1024 / 1024).toFixed(1)} MB`
+
+interface DocumentsProps {
+  account: Address | undefined
+  /** The registry's `kycHash` for the account, to mark the document it points at. */
+  kycHash: string | undefined
+  /** Kind preselected for upload, e.g. by a "Renew KYC" button. */
+  kind: DocumentKind
+  onKindChange: (kind: DocumentKind) => void
+}
+
+/**
+ * Upload and review status of the account's KYC and accreditation documents.
+ * Files are signed by the wallet and pinned by the document service; a
+ * reviewer's decision shows up here, and a verified KYC document becomes the
+ * account's `kycHash` on the registry.
+ */
+export default function Documents({ account, kycHash, kind, onKindChange }: DocumentsProps) {
+  const { state, upload, submit } = useDocuments(account)
+  const [file, setFile] = useState<File>()
+
+  const busy = upload.status === 'signing' || upload.status === 'uploading'
+  const documents = state.status === 'ready' ? state.documents : []
+
+  const send = async () => {
+    if (file && (await submit(kind, file))) setFile(undefined)
+  }
+
+  return (
+    <div className="card p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">Documents</h3>
+
+      {state.status === 'idle' && <p className="text-sm text-gray-600">Connect a wallet to manage your documents.</p>}
+      {state.status === 'not-configured' && (
+        <p className="text-sm text-gray-600">
+          Document uploads are not available: set <code>NEXT_PUBLIC_DOCUMENTS_API_URL</code> to the document service.
+        </p>
+      )}
+      {state.status === 'error' && (
+        <p className="flex items-center text-sm text-red-600">
+          <AlertCircle className="h-4 w-4 mr-2" />
+          Could not load documents: {state.error.message}
+        </p>
+      )}
+      {state.status === 'loading' && <p className="text-sm text-gray-600">Loading documents…</p>}
+
+      {state.status === 'ready' && (
+        <>
+          <div className="p-4 border border-gray-200 rounded mb-6">
+            <div className="flex flex-wrap items-end gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Document</label>
+                <select
+                  className="border border-gray-300 rounded px-3 py-2 text-sm"
+                  value={kind}
+                  onChange={(event) => onKindChange(event.target.value as DocumentKind)}
+                >
+                  {documentKinds.map((option) => (
+                    <option key={option} value={option}>
+                      {kindLabels[option].title}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex-1 min-w-[12rem]">
+                <label className="block text-sm font-medium text-gray-700 mb-1">File</label>
+                <input
+                  type="file"
+                  accept="application/pdf,image/*"
+                  className="block w-full text-sm"
+                  onChange={(event) => setFile(event.target.files?.[0])}
+                />
+              </div>
+              <button onClick={send} disabled={!file || busy} className="btn btn-primary text-sm disabled:opacity-50">
+                <Upload className="h-4 w-4 mr-2 inline" />
+                {upload.status === 'signing' ? 'Sign in wallet…' : upload.status === 'uploading' ? 'Uploading…' : 'Upload'}
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">{kindLabels[kind].description}</p>
+            {upload.status === 'uploaded' && (
+              <p className="text-sm text-green-600 mt-2">
+                {upload.document.filename} submitted for review.
+              </p>
+            )}
+            {upload.status === 'failed' && (
+              <p className="text-sm text-red-600 mt-2">
+                Could not upload {upload.filename}: {upload.error.message}
+              </p>
+            )}
+          </div>
+
+          {documents.length === 0 && <p className="text-sm text-gray-600">No documents uploaded yet.</p>}
+          <div className="space-y-4">
+            {documents.map((document) => (
+              <div key={document.id} className="flex items-center justify-between p-4 border border-gray-200 rounded">
+                <div className="flex items-center space-x-3 min-w-0">
+                  <FileText className="h-5 w-5 text-blue-600 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900">
+                      {kindLabels[document.kind].title}
+                      <span className="text-gray-500 font-normal"> · {document.filename}</span>
+                    </p>
+                    <p className="text-xs text-gray-500 font-mono truncate" title={document.cid}>
+                      {document.cid}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {formatBytes(document.size)} · submitted {new Date(document.submittedAt * 1000).toLocaleDateString()}
+                      {document.reviewedAt && ` · reviewed ${new Date(document.reviewedAt * 1000).toLocaleDateString()}`}
+                    </p>
+                    {document.status === 'rejected' && document.note && (
+                      <p className="text-sm text-red-600 mt-1">{document.note}</p>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2 flex-shrink-0">
+                  {document.kind === 'kyc' && document.cid === kycHash && (
+                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                      On record
+                    </span>
+                  )}
+                  <StatusIcon status={document.status} />
+                  <span
+                    className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${statusStyles[document.status]}`}
+                  >
+                    {document.status}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,156 @@
+'use client'
+
+import { useState } from 'react'
+import type { Address } from 'viem'
+import { useChainId, useSignMessage } from 'wagmi'
+import { AlertCircle, Ban, CheckCircle, Clock, Download, ExternalLink, FileSignature, Shield, Unlock } from 'lucide-react'
+import {
+  complianceHistoryCsv,
+  complianceHistoryEvents,
+  complianceHistoryLabels,
+  complianceHistoryMessage,
+  complianceHistoryReport,
+  describeComplianceHistoryEntry,
+  type ComplianceHistoryEvent,
+  type SignedComplianceHistory,
+} from '@iyield/sdk'
+import { useComplianceHistory } from '../../hooks/useComplianceHistory'
+import { transactionUrl } from '../../lib/wagmi'
+
+const eventStyles: Record<ComplianceHistoryEvent, { icon: typeof Shield; background: string; color: string }> = {
+  UserKYCUpdated: { icon: CheckCircle, background: 'bg-green-50', color: 'text-green-600' },
+  UserAccreditationUpdated: { icon: Shield, background: 'bg-blue-50', color: 'text-blue-600' },
+  UserRestricted: { icon: Ban, background: 'bg-red-50', color: 'text-red-600' },
+  UserUnrestricted: { icon: Unlock, background: 'bg-green-50', color: 'text-green-600' },
+  LockupPeriodUpdated: { icon: Clock, background: 'bg-yellow-50', color: 'text-yellow-600' },
+  TransferRestricted: { icon: AlertCircle, background: 'bg-orange-50', color: 'text-orange-600' },
+}
+
+function download(filename: string, type: string, content: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * The account's compliance timeline from on-chain events, filterable by event
+ * type and exportable as CSV or as a JSON report the wallet signs, which
+ * auditors can check with the SDK's `recoverComplianceHistorySigner`.
+ */
+export default function History({ account }: { account: Address | undefined }) {
+  const chainId = useChainId()
+  const state = useComplianceHistory(account)
+  const { signMessageAsync } = useSignMessage()
+  const [hidden, setHidden] = useState<ComplianceHistoryEvent[]>([])
+  const [signing, setSigning] = useState(false)
+  const [signError, setSignError] = useState<string>()
+
+  const history = state.status === 'ready' ? state.history : []
+  const entries = history.filter(({ event }) => !hidden.includes(event))
+  const toggle = (event: ComplianceHistoryEvent) =>
+    setHidden(hidden.includes(event) ? hidden.filter((other) => other !== event) : [...hidden, event])
+  const filename = (extension: string) => `compliance-history-${account}-${new Date().toISOString().slice(0, 10)}.${extension}`
+
+  const exportSigned = async () => {
+    if (!account || state.status !== 'ready') return
+    setSigning(true)
+    setSignError(undefined)
+    try {
+      const report = complianceHistoryReport({ account, chainId, blockNumber: state.blockNumber, entries })
+      const signature = await signMessageAsync({ message: complianceHistoryMessage(report) })
+      const signed: SignedComplianceHistory = { report, signature }
+      download(filename('json'), 'application/json', JSON.stringify(signed, null, 2))
+    } catch (error) {
+      setSignError((error as { shortMessage?: string }).shortMessage ?? (error as Error).message)
+    } finally {
+      setSigning(false)
+    }
+  }
+
+  return (
+    <div className="card p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Compliance History</h3>
+        {account && (
+          <div className="flex gap-2">
+            <button
+              className="btn btn-secondary text-sm disabled:opacity-50"
+              disabled={entries.length === 0}
+              onClick={() => download(filename('csv'), 'text/csv', complianceHistoryCsv(entries, account))}
+            >
+              <Download className="h-4 w-4 mr-1 inline" />
+              Export CSV
+            </button>
+            <button
+              className="btn btn-primary text-sm disabled:opacity-50"
+              disabled={entries.length === 0 || signing}
+              onClick={exportSigned}
+            >
+              <FileSignature className="h-4 w-4 mr-1 inline" />
+              {signing ? 'Sign in your wallet…' : 'Export signed JSON'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-6">
+        {complianceHistoryEvents.map((event) => (
+          <button
+            key={event}
+            onClick={() => toggle(event)}
+            className={`px-3 py-1 rounded-full text-xs font-medium border ${
+              hidden.includes(event) ? 'border-gray-200 text-gray-400' : 'border-blue-200 bg-blue-50 text-blue-700'
+            }`}
+          >
+            {complianceHistoryLabels[event]}
+          </button>
+        ))}
+      </div>
+
+      {signError && <p className="text-sm text-red-600 mb-4">{signError}</p>}
+      {state.status === 'idle' && <p className="text-sm text-gray-500">Connect a wallet to see its compliance history.</p>}
+      {state.status === 'not-deployed' && (
+        <p className="text-sm text-gray-500">No iYield contracts are configured for chain {state.chainId}.</p>
+      )}
+      {state.status === 'error' && <p className="text-sm text-red-600 break-words">{state.error.message}</p>}
+      {state.status === 'loading' && <div className="animate-pulse h-40 bg-gray-200 rounded"></div>}
+      {state.status === 'ready' && entries.length === 0 && (
+        <p className="text-sm text-gray-500">{history.length ? 'No events of the selected types.' : 'No compliance events yet.'}</p>
+      )}
+
+      <div className="space-y-4">
+        {account &&
+          entries.map((entry) => {
+            const { icon: Icon, background, color } = eventStyles[entry.event]
+            const url = transactionUrl(entry.transactionHash)
+            return (
+              <div
+                key={`${entry.transactionHash}-${entry.logIndex}`}
+                className={`flex items-start space-x-3 p-4 rounded ${background}`}
+              >
+                <Icon className={`h-5 w-5 mt-0.5 ${color}`} />
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-gray-900">{complianceHistoryLabels[entry.event]}</p>
+                  <p className="text-sm text-gray-600 break-words">{describeComplianceHistoryEntry(entry, account)}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {new Date(Number(entry.timestamp) * 1000).toLocaleString()} · block {entry.blockNumber.toString()}
+                  </p>
+                </div>
+                {url ? (
+                  <a href={url} target="_blank" rel="noreferrer" className="text-xs text-blue-600 inline-flex items-center">
+                    {entry.transactionHash.slice(0, 10)}…
+                    <ExternalLink className="h-3 w-3 ml-1" />
+                  </a>
+                ) : (
+                  <span className="text-xs font-mono text-gray-500">{entry.transactionHash.slice(0, 10)}…</span>
+                )}
+              </div>
+            )
+          })}
+      </div>
+    </div>
+  )
+}
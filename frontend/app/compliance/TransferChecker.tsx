@@ -0,0 +1,143 @@
+'use client'
+
+import { useState } from 'react'
+import { isAddress, type Address } from 'viem'
+import { useAccount } from 'wagmi'
+import { AlertCircle, CheckCircle, Plus, Trash2, XCircle } from 'lucide-react'
+import type { TransferRequest } from '@iyield/sdk'
+import { CSV_DECIMALS } from '../../lib/contracts'
+import { useTransferCheck } from '../../hooks/useTransferCheck'
+import { parseAmount } from '../liquidity/format'
+
+interface Row {
+  to: string
+  amount: string
+}
+
+const emptyRow: Row = { to: '', amount: '' }
+
+const formatAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`
+
+/**
+ * "Can I transfer?": checks CSV token transfers from one account against the
+ * token's ERC-1404 `detectTransferRestriction` before anything is sent.
+ */
+export default function TransferChecker() {
+  const { address: account } = useAccount()
+  const [fromInput, setFromInput] = useState('')
+  const [rows, setRows] = useState<Row[]>([emptyRow])
+  const [transfers, setTransfers] = useState<TransferRequest[]>()
+  const state = useTransferCheck(transfers)
+
+  const from = fromInput.trim() || account || ''
+  const parsed = rows.map(({ to, amount }) => ({
+    to: to.trim(),
+    amount: parseAmount(amount, CSV_DECIMALS),
+  }))
+  const canCheck =
+    isAddress(from) && parsed.every(({ to, amount }) => isAddress(to) && amount !== undefined)
+
+  const updateRow = (index: number, update: Partial<Row>) =>
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...update } : row)))
+
+  const check = () =>
+    setTransfers(parsed.map(({ to, amount }) => ({ from: from as Address, to: to as Address, amount: amount! })))
+
+  return (
+    <div className="card p-6 mb-8">
+      <h2 className="text-lg font-semibold text-gray-900 mb-1">Can I transfer?</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Checks CSV token transfers against the compliance registry, pauses and balances without sending anything.
+      </p>
+
+      <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+      <input
+        className="w-full border border-gray-300 rounded px-3 py-2 text-sm font-mono mb-4"
+        placeholder={account ?? '0x…'}
+        value={fromInput}
+        onChange={(event) => setFromInput(event.target.value)}
+      />
+
+      <div className="space-y-2">
+        {rows.map((row, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input
+              className="flex-1 border border-gray-300 rounded px-3 py-2 text-sm font-mono"
+              placeholder="Recipient 0x…"
+              value={row.to}
+              onChange={(event) => updateRow(index, { to: event.target.value })}
+            />
+            <input
+              className="w-40 border border-gray-300 rounded px-3 py-2 text-sm"
+              inputMode="decimal"
+              placeholder="Amount"
+              value={row.amount}
+              onChange={(event) => updateRow(index, { amount: event.target.value })}
+            />
+            <button
+              className="p-2 text-gray-400 hover:text-red-600 disabled:opacity-30"
+              title="Remove"
+              disabled={rows.length === 1}
+              onClick={() => setRows(rows.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between mt-4">
+        <button
+          className="flex items-center text-sm text-blue-600 hover:text-blue-800"
+          onClick={() => setRows([...rows, emptyRow])}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add recipient
+        </button>
+        <button className="btn-primary" disabled={!canCheck} onClick={check}>
+          Check
+        </button>
+      </div>
+
+      {state.status === 'loading' && <div className="animate-pulse h-16 bg-gray-200 rounded mt-4"></div>}
+
+      {(state.status === 'not-deployed' || state.status === 'error') && (
+        <div className="flex items-start text-sm text-red-700 mt-4">
+          <AlertCircle className="h-5 w-5 text-red-600 mr-3 flex-shrink-0" />
+          <p className="break-words">
+            {state.status === 'error'
+              ? state.error.message
+              : `No iYield contracts are configured for chain ${state.chainId}.`}
+          </p>
+        </div>
+      )}
+
+      {state.status === 'ready' && (
+        <div className="mt-4 space-y-2">
+          {state.results.map((result, index) => (
+            <div
+              key={index}
+              className={`flex items-start space-x-3 p-3 rounded ${result.allowed ? 'bg-green-50' : 'bg-red-50'}`}
+            >
+              {result.allowed ? (
+                <CheckCircle className="h-5 w-5 text-green-600 mt-0.5" />
+              ) : (
+                <XCircle className="h-5 w-5 text-red-600 mt-0.5" />
+              )}
+              <div className="flex-1">
+                <p className="text-sm font-medium text-gray-900">
+                  {formatAddress(result.from)} → <span title={result.to}>{formatAddress(result.to)}</span>
+                </p>
+                <p className="text-sm text-gray-600">
+                  {result.message}
+                  {!result.allowed && <span className="text-xs text-gray-500 ml-2">code {result.code}</span>}
+                </p>
+              </div>
+            </div>
+          ))}
+          <p className="text-xs text-gray-500">As of block {state.blockNumber.toString()}.</p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,34 +1,30 @@
 'use client'
 
 import { useState } from 'react'
+import { useAccount } from 'wagmi'
 import { CheckCircle, XCircle, Clock, Shield, AlertTriangle, FileText, Users } from 'lucide-react'
+import type { DocumentKind } from '@iyield/sdk'
+import { useComplianceStatus } from '../../hooks/useComplianceStatus'
+import Documents from './Documents'
+import History from './History'
+import TransferChecker from './TransferChecker'
 
-interface ComplianceStatus {
-  isKYCVerified: boolean
-  isAccredited: boolean
-  kycExpiry: string
-  accreditationExpiry: string
-  jurisdictionCode: number
-  jurisdictionName: string
-  lockupExpiry: string
-  isRestricted: boolean
-  complianceScore: number
-}
+const DAY = 24 * 60 * 60
 
 export default function CompliancePage() {
-  const [userCompliance, setUserCompliance] = useState<ComplianceStatus>({
-    isKYCVerified: true,
-    isAccredited: true,
-    kycExpiry: '2024-12-15',
-    accreditationExpiry: '2025-03-20',
-    jurisdictionCode: 1,
-    jurisdictionName: 'United States',
-    lockupExpiry: '2024-10-15',
-    isRestricted: false,
-    complianceScore: 95
-  })
+  const { address: account } = useAccount()
+  const compliance = useComplianceStatus(account)
+  const record = compliance.status === 'ready' ? compliance.compliance : undefined
+  const status = record?.status
+  const now = record?.timestamp ?? BigInt(Math.floor(Date.now() / 1000))
 
   const [activeTab, setActiveTab] = useState<'status' | 'documents' | 'history'>('status')
+  const [documentKind, setDocumentKind] = useState<DocumentKind>('kyc')
+
+  const openDocuments = (kind: DocumentKind) => {
+    setDocumentKind(kind)
+    setActiveTab('documents')
+  }
 
   const StatusIcon = ({ status, className = "h-5 w-5" }) => {
     switch (status) {
@@ -56,22 +52,32 @@ export default function CompliancePage() {
     }
   }
 
-  const isDateExpired = (dateStr: string) => {
-    return new Date(dateStr) < new Date()
-  }
+  const isExpired = (timestamp: bigint) => timestamp <= now
+
+  /** Milliseconds for `Date`, or undefined for the registry's "never set" zero. */
+  const toDate = (timestamp: bigint | undefined) => (timestamp ? Number(timestamp) * 1000 : undefined)
 
   const getKYCStatus = () => {
-    if (!userCompliance.isKYCVerified) return 'not-verified'
-    if (isDateExpired(userCompliance.kycExpiry)) return 'expired'
+    if (!status?.isKYCVerified) return 'not-verified'
+    if (isExpired(status.kycExpiry)) return 'expired'
     return 'verified'
   }
 
   const getAccreditationStatus = () => {
-    if (!userCompliance.isAccredited) return 'not-verified'
-    if (isDateExpired(userCompliance.accreditationExpiry)) return 'expired'
+    if (!status?.isAccredited) return 'not-verified'
+    if (isExpired(status.accreditationExpiry)) return 'expired'
     return 'verified'
   }
 
+  const checks = [
+    getKYCStatus() === 'verified',
+    getAccreditationStatus() === 'verified',
+    !!status && status.jurisdictionCode > BigInt(0),
+    !!status && !status.isRestricted,
+  ]
+  const complianceScore = record ? Math.round((checks.filter(Boolean).length / checks.length) * 100) : undefined
+  const isLocked = !!status && status.lockupExpiry > now
+
   const ComplianceCard = ({ title, status, expiry, description, actionText, onAction }) => (
     <div className="card p-6">
       <div className="flex items-start justify-between">
@@ -122,7 +128,9 @@ export default function CompliancePage() {
             <div className="flex items-center space-x-4">
               <div className="text-right">
                 <p className="text-sm text-gray-600">Compliance Score</p>
-                <p className="text-lg font-bold text-green-600">{userCompliance.complianceScore}%</p>
+                <p className={`text-lg font-bold ${complianceScore === 100 ? 'text-green-600' : 'text-yellow-600'}`}>
+                  {complianceScore === undefined ? '—' : `${complianceScore}%`}
+                </p>
               </div>
             </div>
           </div>
@@ -131,7 +139,39 @@ export default function CompliancePage() {
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        
+        {compliance.status !== 'ready' && (
+          <div className="card p-4 mb-8 text-sm text-gray-600">
+            {compliance.status === 'idle' && 'Connect a wallet to see its compliance status.'}
+            {compliance.status === 'loading' && 'Loading compliance status…'}
+            {compliance.status === 'not-deployed' && `The protocol is not deployed on chain ${compliance.chainId}.`}
+            {compliance.status === 'error' && `Could not load compliance status: ${compliance.error.message}`}
+          </div>
+        )}
+
+        {/* Renewal reminders */}
+        {record?.reminders.map((reminder) => (
+          <div
+            key={reminder.kind}
+            className={`flex items-center justify-between p-4 mb-4 rounded border ${
+              reminder.expired ? 'bg-red-50 border-red-200' : 'bg-yellow-50 border-yellow-200'
+            }`}
+          >
+            <div className="flex items-center space-x-3">
+              <AlertTriangle className={`h-5 w-5 ${reminder.expired ? 'text-red-600' : 'text-yellow-600'}`} />
+              <p className="text-sm text-gray-900">
+                {reminder.kind === 'kyc' ? 'KYC verification' : 'Accredited investor status'}{' '}
+                {reminder.expired
+                  ? `expired on ${new Date(Number(reminder.expiresAt) * 1000).toLocaleDateString()}`
+                  : `expires in ${Math.max(1, Math.ceil(Number(reminder.secondsLeft) / DAY))} day(s)`}
+                . Upload a current document to renew it.
+              </p>
+            </div>
+            <button onClick={() => openDocuments(reminder.kind)} className="btn btn-primary text-sm">
+              Upload document
+            </button>
+          </div>
+        ))}
+
         {/* Compliance Overview */}
         <div className="card p-6 mb-8">
           <h2 className="text-lg font-semibold text-gray-900 mb-4">Compliance Overview</h2>
@@ -161,27 +201,29 @@ export default function CompliancePage() {
                 <FileText className="h-6 w-6 text-purple-600" />
               </div>
               <h4 className="font-semibold text-gray-900">Jurisdiction</h4>
-              <p className="text-sm text-gray-600 mt-1">{userCompliance.jurisdictionName}</p>
+              <p className="text-sm text-gray-600 mt-1">{record?.jurisdictionName || 'Not set'}</p>
             </div>
             
             <div className="text-center">
               <div className={`inline-flex items-center justify-center w-12 h-12 rounded-full mb-3 ${
-                userCompliance.isRestricted ? 'bg-red-100' : 'bg-green-100'
+                status?.isRestricted ? 'bg-red-100' : 'bg-green-100'
               }`}>
                 <AlertTriangle className={`h-6 w-6 ${
-                  userCompliance.isRestricted ? 'text-red-600' : 'text-green-600'
+                  status?.isRestricted ? 'text-red-600' : 'text-green-600'
                 }`} />
               </div>
               <h4 className="font-semibold text-gray-900">Account Status</h4>
               <p className={`text-sm mt-1 ${
-                userCompliance.isRestricted ? 'text-red-600' : 'text-green-600'
+                status?.isRestricted ? 'text-red-600' : 'text-green-600'
               }`}>
-                {userCompliance.isRestricted ? 'Restricted' : 'Active'}
+                {status?.isRestricted ? 'Restricted' : 'Active'}
               </p>
             </div>
           </div>
         </div>
 
+        <TransferChecker />
+
         {/* Tabs */}
         <div className="mb-8">
           <div className="border-b border-gray-200">
@@ -214,19 +256,19 @@ export default function CompliancePage() {
             <ComplianceCard
               title="KYC Verification"
               status={getKYCStatus()}
-              expiry={userCompliance.kycExpiry}
+              expiry={toDate(status?.kycExpiry)}
               description="Know Your Customer verification ensures regulatory compliance and user identity validation."
               actionText="Renew KYC"
-              onAction={() => console.log('Renew KYC')}
+              onAction={() => openDocuments('kyc')}
             />
             
             <ComplianceCard
               title="Accredited Investor Status"
               status={getAccreditationStatus()}
-              expiry={userCompliance.accreditationExpiry}
+              expiry={toDate(status?.accreditationExpiry)}
               description="Verification of accredited investor status as required by SEC regulations for security token investments."
               actionText="Update Status"
-              onAction={() => console.log('Update accreditation')}
+              onAction={() => openDocuments('accreditation')}
             />
             
             <div className="card p-6">
@@ -239,15 +281,17 @@ export default function CompliancePage() {
                       Securities holding period as required by Rule 144 for restricted securities transfers.
                     </p>
                     <p className="text-xs text-gray-500 mt-2">
-                      Lockup expires: {new Date(userCompliance.lockupExpiry).toLocaleDateString()}
+                      {status?.lockupExpiry
+                        ? `Lockup expires: ${new Date(toDate(status.lockupExpiry)!).toLocaleDateString()}`
+                        : 'No lockup recorded'}
                     </p>
                     <div className="flex items-center mt-2">
                       <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                        isDateExpired(userCompliance.lockupExpiry) 
-                          ? 'bg-green-100 text-green-800' 
-                          : 'bg-yellow-100 text-yellow-800'
+                        isLocked
+                          ? 'bg-yellow-100 text-yellow-800'
+                          : 'bg-green-100 text-green-800'
                       }`}>
-                        {isDateExpired(userCompliance.lockupExpiry) ? 'Unlocked' : 'Locked'}
+                        {isLocked ? 'Locked' : 'Unlocked'}
                       </span>
                     </div>
                   </div>
@@ -258,87 +302,10 @@ export default function CompliancePage() {
         )}
 
         {activeTab === 'documents' && (
-          <div className="card p-6">
-            <h3 className="text-lg font-semibold text-gray-900 mb-4">Required Documents</h3>
-            <div className="space-y-4">
-              <div className="flex items-center justify-between p-4 border border-gray-200 rounded">
-                <div className="flex items-center space-x-3">
-                  <FileText className="h-5 w-5 text-blue-600" />
-                  <div>
-                    <p className="font-medium text-gray-900">Identity Verification</p>
-                    <p className="text-sm text-gray-600">Government-issued photo ID</p>
-                  </div>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <CheckCircle className="h-5 w-5 text-green-500" />
-                  <span className="text-sm text-green-600">Verified</span>
-                </div>
-              </div>
-              
-              <div className="flex items-center justify-between p-4 border border-gray-200 rounded">
-                <div className="flex items-center space-x-3">
-                  <FileText className="h-5 w-5 text-blue-600" />
-                  <div>
-                    <p className="font-medium text-gray-900">Accreditation Certificate</p>
-                    <p className="text-sm text-gray-600">SEC accredited investor verification</p>
-                  </div>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <CheckCircle className="h-5 w-5 text-green-500" />
-                  <span className="text-sm text-green-600">Verified</span>
-                </div>
-              </div>
-              
-              <div className="flex items-center justify-between p-4 border border-gray-200 rounded">
-                <div className="flex items-center space-x-3">
-                  <FileText className="h-5 w-5 text-blue-600" />
-                  <div>
-                    <p className="font-medium text-gray-900">Address Verification</p>
-                    <p className="text-sm text-gray-600">Proof of residential address</p>
-                  </div>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <CheckCircle className="h-5 w-5 text-green-500" />
-                  <span className="text-sm text-green-600">Verified</span>
-                </div>
-              </div>
-            </div>
-          </div>
+          <Documents account={account} kycHash={status?.kycHash} kind={documentKind} onKindChange={setDocumentKind} />
         )}
 
-        {activeTab === 'history' && (
-          <div className="card p-6">
-            <h3 className="text-lg font-semibold text-gray-900 mb-4">Compliance History</h3>
-            <div className="space-y-4">
-              <div className="flex items-start space-x-3 p-4 bg-green-50 rounded">
-                <CheckCircle className="h-5 w-5 text-green-600 mt-0.5" />
-                <div className="flex-1">
-                  <p className="font-medium text-gray-900">KYC Verification Completed</p>
-                  <p className="text-sm text-gray-600">Identity and address verification approved</p>
-                  <p className="text-xs text-gray-500 mt-1">March 15, 2024</p>
-                </div>
-              </div>
-              
-              <div className="flex items-start space-x-3 p-4 bg-blue-50 rounded">
-                <Shield className="h-5 w-5 text-blue-600 mt-0.5" />
-                <div className="flex-1">
-                  <p className="font-medium text-gray-900">Accredited Investor Status Verified</p>
-                  <p className="text-sm text-gray-600">SEC accreditation confirmed through third-party verification</p>
-                  <p className="text-xs text-gray-500 mt-1">March 20, 2024</p>
-                </div>
-              </div>
-              
-              <div className="flex items-start space-x-3 p-4 bg-yellow-50 rounded">
-                <Clock className="h-5 w-5 text-yellow-600 mt-0.5" />
-                <div className="flex-1">
-                  <p className="font-medium text-gray-900">Rule 144 Lockup Period Started</p>
-                  <p className="text-sm text-gray-600">365-day holding period initiated for restricted securities</p>
-                  <p className="text-xs text-gray-500 mt-1">March 22, 2024</p>
-                </div>
-              </div>
-            </div>
-          </div>
-        )}
+        {activeTab === 'history' && <History account={account} />}
       </main>
     </div>
   )
@@ -0,0 +1,433 @@
+'use client'
+
+import { useState } from 'react'
+import { formatUnits, isAddressEqual } from 'viem'
+import { AlertTriangle, Clock, DollarSign, Hourglass, Minus, Plus, Repeat, TrendingUp } from 'lucide-react'
+import {
+  estimateWithdrawalWait,
+  previewWithdrawal,
+  sharesForAmount,
+  TrancheType,
+  type WithdrawalRequest,
+} from '@iyield/sdk'
+import { BASIS_POINTS, erc20Abi, liquidityPoolAbi } from '../../lib/contracts'
+import type { LiquidityPoolData } from '../../hooks/useLiquidityPool'
+import type { TransactionRequest } from '../../hooks/useTransaction'
+import { formatAmount, formatBps, formatDuration, parseAmount, trancheNames } from './format'
+
+interface TrancheCardProps {
+  tranche: TrancheType
+  pool: LiquidityPoolData
+  /** Latest block timestamp, against which lockups are measured. */
+  now: bigint
+  /** Whether a transaction is already in flight; actions are disabled until it settles. */
+  busy: boolean
+  send: (request: TransactionRequest) => Promise<boolean>
+}
+
+const ZERO = BigInt(0)
+
+export default function TrancheCard({ tranche, pool, now, busy, send }: TrancheCardProps) {
+  const [mode, setMode] = useState<'deposit' | 'withdraw' | null>(null)
+  const [amountInput, setAmountInput] = useState('')
+  const [withdrawAll, setWithdrawAll] = useState(false)
+
+  const info = pool.tranches[tranche]
+  const { account, baseToken } = pool
+  const position = account?.positions[tranche]
+  const hasPosition = !!position && position.shares > ZERO
+  // Yield stays claimable after the shares are gone, so a position can be all yield.
+  const earned = position?.claimableYield ?? ZERO
+  const claimable = earned - (earned * pool.config.performanceFeeRate) / BigInt(BASIS_POINTS)
+  const isSenior = tranche === TrancheType.SENIOR
+  const losses = pool.losses
+    .map((loss) => ({ ...loss, amount: isSenior ? loss.seniorLoss : loss.juniorLoss }))
+    .filter(({ amount }) => amount > ZERO)
+  const isImpaired = pool.impairedUntil > now
+  const format = (amount: bigint) => formatAmount(amount, baseToken.decimals)
+
+  const amount = parseAmount(amountInput, baseToken.decimals)
+
+  const open = (next: 'deposit' | 'withdraw') => {
+    setMode(mode === next ? null : next)
+    setAmountInput('')
+    setWithdrawAll(false)
+  }
+
+  const poolCall = { contract: 'CSVLiquidityPool', address: pool.address, abi: liquidityPoolAbi } as const
+
+  const deposit = async () => {
+    if (!account || amount === undefined) return
+    if (account.allowance < amount) {
+      const approved = await send({
+        label: `Approve ${baseToken.symbol}`,
+        contract: 'CSVLiquidityPool',
+        address: baseToken.address,
+        abi: erc20Abi,
+        functionName: 'approve',
+        args: [pool.address, amount],
+      })
+      if (!approved) return
+    }
+    if (await send({ ...poolCall, label: `Deposit to ${trancheNames[tranche]}`, functionName: 'deposit', args: [tranche, amount] })) {
+      setAmountInput('')
+      setMode(null)
+    }
+  }
+
+  const { requests } = pool.withdrawalQueue
+  const unfilled = (request: WithdrawalRequest) => request.shares - request.filled
+  const valueOf = (queueTranche: TrancheType, shares: bigint) => {
+    const { totalDeposits, totalShares } = pool.tranches[queueTranche]
+    return totalShares === ZERO ? ZERO : (shares * totalDeposits) / totalShares
+  }
+  const myRequests = account
+    ? requests[tranche].flatMap((request, index) => (isAddressEqual(request.user, account.address) ? [{ request, index }] : []))
+    : []
+  // Queued shares stay in the position but cannot be withdrawn again
+  const freeShares = position ? position.shares - myRequests.reduce((sum, { request }) => sum + unfilled(request), ZERO) : ZERO
+
+  const withdrawShares =
+    !position || (!withdrawAll && amount === undefined)
+      ? ZERO
+      : withdrawAll
+        ? freeShares
+        : [sharesForAmount(info, amount!), freeShares].reduce((a, b) => (a < b ? a : b))
+  const preview = position ? previewWithdrawal(info, position, withdrawShares, pool.config.withdrawalFeeRate, now) : undefined
+  // Liquidity goes to the queue first, and to the senior queue ahead of junior withdrawals
+  const queueTranches = isSenior ? [TrancheType.SENIOR] : [TrancheType.SENIOR, TrancheType.JUNIOR]
+  const queueValueAhead = queueTranches
+    .flatMap((queueTranche) => requests[queueTranche].map((request) => valueOf(queueTranche, unfilled(request))))
+    .reduce((sum, value) => sum + value, ZERO)
+  const exceedsLiquidity = !!preview && preview.grossAmount > pool.availableLiquidity
+  const mustQueue = !!preview && preview.grossAmount + queueValueAhead > pool.availableLiquidity
+
+  const withdraw = async () => {
+    if (withdrawShares === ZERO) return
+    const request = mustQueue
+      ? { label: `Request ${trancheNames[tranche]} withdrawal`, functionName: 'requestWithdrawal' as const }
+      : { label: `Withdraw from ${trancheNames[tranche]}`, functionName: 'withdraw' as const }
+    if (await send({ ...poolCall, ...request, args: [tranche, withdrawShares] })) {
+      setAmountInput('')
+      setMode(null)
+    }
+  }
+
+  const cancelWithdrawal = (requestId: bigint) =>
+    send({ ...poolCall, label: 'Cancel withdrawal request', functionName: 'cancelWithdrawal', args: [tranche, requestId] })
+
+  const processWithdrawals = () =>
+    send({ ...poolCall, label: 'Process withdrawal queue', functionName: 'processWithdrawals', args: [BigInt(20)] })
+
+  /** Queue position, counting the senior queue ahead of junior requests, and the estimated wait. */
+  const queueStatus = (index: number) => {
+    const ahead = [
+      ...(isSenior ? [] : requests[TrancheType.SENIOR].map((request) => valueOf(TrancheType.SENIOR, unfilled(request)))),
+      ...requests[tranche].slice(0, index).map((request) => valueOf(tranche, unfilled(request))),
+    ]
+    const wait = estimateWithdrawalWait({
+      valueAhead: ahead.reduce((sum, value) => sum + value, ZERO),
+      value: valueOf(tranche, unfilled(requests[tranche][index])),
+      availableLiquidity: pool.availableLiquidity,
+      filledValue: pool.withdrawalQueue.filledValue,
+      period: pool.withdrawalQueue.period,
+    })
+    return { position: ahead.length + 1, wait }
+  }
+
+  const claimYield = () =>
+    send({ ...poolCall, label: `Claim ${trancheNames[tranche]} yield`, functionName: 'claimYield', args: [tranche] })
+
+  const compoundYield = () =>
+    send({ ...poolCall, label: `Compound ${trancheNames[tranche]} yield`, functionName: 'compoundYield', args: [tranche] })
+
+  const depositProblem = (() => {
+    if (!account) return undefined
+    if (!account.isKYCVerified) return 'KYC verification is required to deposit.'
+    if (!account.isAccredited) return 'Accredited investor status is required to deposit.'
+    if (amount === undefined) return undefined
+    if (amount < info.minDeposit) return `The minimum deposit is ${format(info.minDeposit)}.`
+    if (amount > account.balance) return `Your wallet holds ${format(account.balance)} ${baseToken.symbol}.`
+    return undefined
+  })()
+
+  return (
+    <div className="card p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">{trancheNames[tranche]}</h3>
+          <p className={`text-sm ${isSenior ? 'text-blue-600' : 'text-purple-600'}`}>
+            {isSenior ? 'Lower Risk • Priority Returns' : 'Higher Risk • Excess Returns'}
+          </p>
+        </div>
+        <div className={`p-2 rounded-full ${isSenior ? 'bg-blue-100' : 'bg-purple-100'}`}>
+          <TrendingUp className={`h-5 w-5 ${isSenior ? 'text-blue-600' : 'text-purple-600'}`} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 mb-4">
+        <div>
+          <p className="text-xs text-gray-600">Total Deposits</p>
+          <p className="text-lg font-bold text-gray-900">{format(info.totalDeposits)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-600">Target APY</p>
+          <p className="text-lg font-bold text-green-600">{formatBps(info.yieldRate)}</p>
+        </div>
+      </div>
+
+      {hasPosition && (
+        <div className="bg-gray-50 rounded p-4 mb-4">
+          <p className="text-sm font-medium text-gray-900 mb-2">Your Position</p>
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <p className="text-gray-600">Deposited</p>
+              <p className="font-semibold">{format(position.deposits)}</p>
+            </div>
+            <div>
+              <p className="text-gray-600">Current Value</p>
+              <p className="font-semibold">{format(position.currentValue)}</p>
+            </div>
+            <div>
+              <p className="text-gray-600">Claimable Yield</p>
+              <p className="font-semibold text-green-600">{format(earned)}</p>
+            </div>
+            <div>
+              <p className="text-gray-600">Compounded Yield</p>
+              <p className="font-semibold text-green-600">{format(position.compoundedYield)}</p>
+            </div>
+          </div>
+          <p className="flex items-center text-xs text-gray-600 mt-3">
+            <Clock className="h-3 w-3 mr-1" />
+            {position.lockupExpiry > now
+              ? `Locked for another ${formatDuration(position.lockupExpiry - now)}`
+              : 'Lockup complete: withdrawals are fee-free'}
+          </p>
+        </div>
+      )}
+
+      {myRequests.length > 0 && (
+        <div className="bg-yellow-50 rounded p-4 mb-4">
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-sm font-medium text-gray-900">Withdrawal Requests</p>
+            {pool.availableLiquidity > ZERO && !isImpaired && (
+              <button className="text-xs text-blue-600 underline" disabled={busy} onClick={processWithdrawals}>
+                Process queue
+              </button>
+            )}
+          </div>
+          <div className="space-y-2 text-sm">
+            {myRequests.map(({ request, index }) => {
+              const { position: queuePosition, wait } = queueStatus(index)
+              return (
+                <div key={request.requestId.toString()} className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium">
+                      {format(valueOf(tranche, unfilled(request)))} left
+                      {request.filled > ZERO && ` of ${format(valueOf(tranche, request.shares))}`}
+                    </p>
+                    <p className="flex items-center text-xs text-gray-600">
+                      <Hourglass className="h-3 w-3 mr-1" />#{queuePosition} in queue ·{' '}
+                      {wait === undefined
+                        ? 'no recent fills to estimate from'
+                        : wait === ZERO
+                          ? 'fills on the next processing'
+                          : `about ${formatDuration(wait)}`}
+                    </p>
+                  </div>
+                  <button className="btn-secondary text-xs" disabled={busy} onClick={() => cancelWithdrawal(request.requestId)}>
+                    Cancel
+                  </button>
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2 text-sm text-gray-600 mb-4">
+        <div className="flex justify-between">
+          <span>Minimum Deposit:</span>
+          <span className="font-medium">{format(info.minDeposit)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Lockup Period:</span>
+          <span className="font-medium">{formatDuration(info.lockupPeriod)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Early Withdrawal Fee:</span>
+          <span className="font-medium">{formatBps(pool.config.withdrawalFeeRate)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Subordination:</span>
+          <span className="font-medium">
+            {isSenior ? `${formatBps(pool.subordination)} junior capital ahead` : 'First loss'}
+          </span>
+        </div>
+      </div>
+
+      {isImpaired && (
+        <p className="flex items-center text-xs text-yellow-700 mb-4">
+          <AlertTriangle className="h-3 w-3 mr-1" />
+          A loss is being absorbed; withdrawals resume in {formatDuration(pool.impairedUntil - now)}.
+        </p>
+      )}
+
+      {losses.length > 0 && (
+        <div className="mb-4">
+          <p className="text-sm font-medium text-gray-900 mb-2">Loss History</p>
+          <div className="space-y-1 text-sm">
+            {losses.map((loss, index) => (
+              <div key={index} className="flex justify-between">
+                <span className="text-gray-600 truncate mr-2" title={loss.reason}>
+                  {new Date(Number(loss.timestamp) * 1000).toLocaleDateString()} · {loss.reason || 'Unspecified'}
+                </span>
+                <span className="font-medium text-red-600">−{format(loss.amount)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {!account ? (
+        <p className="text-sm text-gray-500 text-center">Connect a wallet to deposit.</p>
+      ) : (
+        <div className="flex space-x-2">
+          <button className="btn btn-primary flex-1" disabled={busy || !info.isActive} onClick={() => open('deposit')}>
+            <Plus className="h-4 w-4 mr-1" />
+            Deposit
+          </button>
+          {hasPosition && (
+            <button
+              className="btn btn-secondary flex-1"
+              disabled={busy || isImpaired || freeShares === ZERO}
+              onClick={() => open('withdraw')}
+            >
+              <Minus className="h-4 w-4 mr-1" />
+              Withdraw
+            </button>
+          )}
+          {earned > ZERO && (
+            <button
+              className="btn btn-secondary flex-1"
+              disabled={busy}
+              title={`${formatBps(pool.config.performanceFeeRate)} performance fee is deducted`}
+              onClick={claimYield}
+            >
+              <DollarSign className="h-4 w-4 mr-1" />
+              Claim {format(claimable)}
+            </button>
+          )}
+          {earned > ZERO && (
+            <button
+              className="btn btn-secondary flex-1"
+              disabled={busy || !account.isKYCVerified || !account.isAccredited}
+              title={`Reinvests ${format(claimable)} as ${trancheNames[tranche]} shares without restarting the lockup`}
+              onClick={compoundYield}
+            >
+              <Repeat className="h-4 w-4 mr-1" />
+              Compound
+            </button>
+          )}
+        </div>
+      )}
+
+      {account && mode === 'deposit' && (
+        <div className="mt-4 border-t border-gray-200 pt-4 space-y-3">
+          <div className="flex items-center space-x-2">
+            <input
+              className="flex-1 border border-gray-300 rounded px-3 py-2 text-sm"
+              inputMode="decimal"
+              placeholder={`Amount in ${baseToken.symbol}`}
+              value={amountInput}
+              onChange={(event) => setAmountInput(event.target.value)}
+            />
+            <button
+              className="btn-secondary"
+              onClick={() => setAmountInput(formatUnits(account.balance, baseToken.decimals))}
+            >
+              Max
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">
+            Wallet balance: {format(account.balance)} {baseToken.symbol}
+          </p>
+          {depositProblem && <p className="text-sm text-red-600">{depositProblem}</p>}
+          {hasPosition && (
+            <p className="text-xs text-yellow-700">
+              Depositing restarts the {formatDuration(info.lockupPeriod)} lockup on your whole position in this tranche.
+            </p>
+          )}
+          {amount !== undefined && !depositProblem && account.allowance < amount && (
+            <p className="text-xs text-gray-600">
+              Your wallet will ask you to approve {format(amount)} {baseToken.symbol} for the pool first, then to deposit.
+            </p>
+          )}
+          <button className="btn-primary w-full" disabled={busy || amount === undefined || !!depositProblem} onClick={deposit}>
+            {amount !== undefined && account.allowance < amount ? 'Approve & Deposit' : 'Deposit'}
+          </button>
+        </div>
+      )}
+
+      {hasPosition && mode === 'withdraw' && preview && (
+        <div className="mt-4 border-t border-gray-200 pt-4 space-y-3">
+          <div className="flex items-center space-x-2">
+            <input
+              className="flex-1 border border-gray-300 rounded px-3 py-2 text-sm"
+              inputMode="decimal"
+              placeholder={`Amount in ${baseToken.symbol}`}
+              value={amountInput}
+              onChange={(event) => {
+                setAmountInput(event.target.value)
+                setWithdrawAll(false)
+              }}
+            />
+            <button
+              className="btn-secondary"
+              onClick={() => {
+                setAmountInput(formatUnits(valueOf(tranche, freeShares), baseToken.decimals))
+                setWithdrawAll(true)
+              }}
+            >
+              Max
+            </button>
+          </div>
+          {preview.shares > ZERO && (
+            <div className="bg-gray-50 rounded p-3 text-sm space-y-1">
+              <div className="flex justify-between">
+                <span className="text-gray-600">Withdrawal value</span>
+                <span>{format(preview.grossAmount)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Early withdrawal fee ({formatBps(pool.config.withdrawalFeeRate)})</span>
+                <span className={preview.fee > ZERO ? 'text-red-600' : ''}>−{format(preview.fee)}</span>
+              </div>
+              <div className="flex justify-between font-semibold">
+                <span>You receive</span>
+                <span>{format(preview.netAmount)}</span>
+              </div>
+            </div>
+          )}
+          {mustQueue && preview.shares > ZERO && (
+            <p className="text-xs text-yellow-700">
+              {exceedsLiquidity
+                ? `Only ${format(pool.availableLiquidity)} can be paid out now, so this withdrawal joins the queue.`
+                : 'Earlier withdrawal requests are waiting for the liquidity, so this one joins the queue.'}{' '}
+              It is paid at the share price of the day it fills.
+            </p>
+          )}
+          {preview.isEarlyWithdrawal ? (
+            <p className="text-xs text-yellow-700">
+              Your lockup ends in {formatDuration(preview.lockupRemaining)}. Withdraw after that to avoid the fee.
+            </p>
+          ) : (
+            <p className="text-xs text-gray-600">Your lockup has ended; no withdrawal fee applies.</p>
+          )}
+          <button className="btn-primary w-full" disabled={busy || isImpaired || preview.shares === ZERO} onClick={withdraw}>
+            {mustQueue ? 'Request Withdrawal' : 'Withdraw'}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+import { formatUnits, parseUnits } from 'viem'
+import { TrancheType } from '@iyield/sdk'
+import { BASIS_POINTS } from '../../lib/contracts'
+
+export const trancheNames: Record<TrancheType, string> = {
+  [TrancheType.SENIOR]: 'Senior Tranche',
+  [TrancheType.JUNIOR]: 'Junior Tranche',
+}
+
+/** A base-token amount as whole US dollars; the pool's base token is a dollar stablecoin. */
+export function formatAmount(amount: bigint, decimals: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 2,
+  }).format(Number(formatUnits(amount, decimals)))
+}
+
+export function formatBps(bps: bigint): string {
+  return `${(Number(bps) / BASIS_POINTS) * 100}%`
+}
+
+export function formatDuration(seconds: bigint): string {
+  const total = Number(seconds)
+  const days = Math.floor(total / 86400)
+  const hours = Math.floor((total % 86400) / 3600)
+  if (days > 0) return hours > 0 ? `${days}d ${hours}h` : `${days}d`
+  const minutes = Math.ceil((total % 3600) / 60)
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`
+}
+
+/** Parses user input into base-token units; undefined when it is not a positive amount. */
+export function parseAmount(value: string, decimals: number): bigint | undefined {
+  const trimmed = value.trim()
+  if (!/^(\d+\.?\d*|\.\d+)$/.test(trimmed)) return undefined
+  try {
+    const amount = parseUnits(trimmed, decimals)
+    return amount > BigInt(0) ? amount : undefined
+  } catch {
+    return undefined
+  }
+}
@@ -1,142 +1,86 @@
 'use client'
 
+import { TrendingUp, DollarSign, Percent, Info, ArrowUpDown, Plus, Minus, AlertCircle } from 'lucide-react'
 import { useState } from 'react'
-import { TrendingUp, DollarSign, Percent, Clock, Info, ArrowUpDown, Plus, Minus } from 'lucide-react'
+import { TrancheType } from '@iyield/sdk'
+import ConnectWallet from '../../components/ConnectWallet'
+import TransactionStatus from '../../components/TransactionStatus'
+import { TRANCHES, useLiquidityPool, type PoolActivity } from '../../hooks/useLiquidityPool'
+import { useTransaction } from '../../hooks/useTransaction'
+import { transactionUrl } from '../../lib/wagmi'
+import TrancheCard from './TrancheCard'
+import { formatAmount, formatBps, formatDuration, trancheNames } from './format'
 
-interface TrancheData {
-  type: 'senior' | 'junior'
-  name: string
-  totalDeposits: number
-  userDeposits: number
-  userShares: number
-  yieldRate: number
-  minDeposit: number
-  lockupPeriod: number
-  currentYield: number
-  isDeposited: boolean
-}
-
-interface PoolStats {
-  totalPoolValue: number
-  utilization: number
-  seniorTranche: TrancheData
-  juniorTranche: TrancheData
+const activityLabels: Record<PoolActivity['kind'], string> = {
+  deposit: 'Deposit',
+  withdrawal: 'Withdrawal',
+  'yield-claim': 'Yield Claim',
+  'yield-compound': 'Yield Compounded',
 }
 
 export default function LiquidityPage() {
   const [activeTab, setActiveTab] = useState<'overview' | 'senior' | 'junior' | 'history'>('overview')
-  const [depositAmount, setDepositAmount] = useState('')
-  const [withdrawAmount, setWithdrawAmount] = useState('')
-
-  const [poolStats] = useState<PoolStats>({
-    totalPoolValue: 8750000,
-    utilization: 67.3,
-    seniorTranche: {
-      type: 'senior',
-      name: 'Senior Tranche',
-      totalDeposits: 6250000,
-      userDeposits: 50000,
-      userShares: 50000,
-      yieldRate: 4.2,
-      minDeposit: 1000,
-      lockupPeriod: 90,
-      currentYield: 2100,
-      isDeposited: true
-    },
-    juniorTranche: {
-      type: 'junior', 
-      name: 'Junior Tranche',
-      totalDeposits: 2500000,
-      userDeposits: 25000,
-      userShares: 25000,
-      yieldRate: 8.7,
-      minDeposit: 10000,
-      lockupPeriod: 180,
-      currentYield: 2175,
-      isDeposited: true
-    }
-  })
-
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(amount)
-  }
-
-  const TrancheCard = ({ tranche }: { tranche: TrancheData }) => (
-    <div className="card p-6">
-      <div className="flex items-center justify-between mb-4">
-        <div>
-          <h3 className="text-lg font-semibold text-gray-900">{tranche.name}</h3>
-          <p className={`text-sm ${
-            tranche.type === 'senior' ? 'text-blue-600' : 'text-purple-600'
-          }`}>
-            {tranche.type === 'senior' ? 'Lower Risk • Priority Returns' : 'Higher Risk • Excess Returns'}
-          </p>
-        </div>
-        <div className={`p-2 rounded-full ${
-          tranche.type === 'senior' ? 'bg-blue-100' : 'bg-purple-100'
-        }`}>
-          <TrendingUp className={`h-5 w-5 ${
-            tranche.type === 'senior' ? 'text-blue-600' : 'text-purple-600'
-          }`} />
-        </div>
-      </div>
-
-      <div className="grid grid-cols-2 gap-4 mb-4">
-        <div>
-          <p className="text-xs text-gray-600">Total Deposits</p>
-          <p className="text-lg font-bold text-gray-900">{formatCurrency(tranche.totalDeposits)}</p>
-        </div>
-        <div>
-          <p className="text-xs text-gray-600">Current APY</p>
-          <p className="text-lg font-bold text-green-600">{tranche.yieldRate}%</p>
-        </div>
-      </div>
+  const liquidity = useLiquidityPool()
+  const transaction = useTransaction()
 
-      {tranche.isDeposited && (
-        <div className="bg-gray-50 rounded p-4 mb-4">
-          <p className="text-sm font-medium text-gray-900 mb-2">Your Position</p>
-          <div className="grid grid-cols-2 gap-4 text-sm">
-            <div>
-              <p className="text-gray-600">Deposited</p>
-              <p className="font-semibold">{formatCurrency(tranche.userDeposits)}</p>
-            </div>
-            <div>
-              <p className="text-gray-600">Earned</p>
-              <p className="font-semibold text-green-600">{formatCurrency(tranche.currentYield)}</p>
+  if (liquidity.status === 'not-deployed' || liquidity.status === 'error') {
+    return (
+      <div className="min-h-screen bg-gray-50 p-6">
+        <div className="max-w-7xl mx-auto">
+          <div className="flex justify-end mb-6">
+            <ConnectWallet />
+          </div>
+          <div className="card p-6 bg-red-50 border-red-200">
+            <div className="flex items-start">
+              <AlertCircle className="h-5 w-5 text-red-600 mt-0.5 mr-3 flex-shrink-0" />
+              <div>
+                <h3 className="text-sm font-medium text-red-800">
+                  {liquidity.status === 'not-deployed' ? 'Protocol not deployed on this network' : 'Unable to load pool data'}
+                </h3>
+                <p className="text-sm text-red-700 mt-1 break-words">
+                  {liquidity.status === 'not-deployed'
+                    ? `No iYield contracts are configured for chain ${liquidity.chainId}. Switch your wallet to the protocol network.`
+                    : liquidity.error.message}
+                </p>
+              </div>
             </div>
           </div>
         </div>
-      )}
+      </div>
+    )
+  }
 
-      <div className="space-y-2 text-sm text-gray-600 mb-4">
-        <div className="flex justify-between">
-          <span>Minimum Deposit:</span>
-          <span className="font-medium">{formatCurrency(tranche.minDeposit)}</span>
-        </div>
-        <div className="flex justify-between">
-          <span>Lockup Period:</span>
-          <span className="font-medium">{tranche.lockupPeriod} days</span>
+  if (liquidity.status === 'loading') {
+    return (
+      <div className="min-h-screen bg-gray-50 p-6">
+        <div className="max-w-7xl mx-auto animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-6"></div>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
+            {[...Array(4)].map((_, i) => (
+              <div key={i} className="h-24 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <div className="h-96 bg-gray-200 rounded"></div>
+            <div className="h-96 bg-gray-200 rounded"></div>
+          </div>
         </div>
       </div>
+    )
+  }
 
-      <div className="flex space-x-2">
-        <button className="btn btn-primary flex-1">
-          <Plus className="h-4 w-4 mr-1" />
-          Deposit
-        </button>
-        {tranche.isDeposited && (
-          <button className="btn btn-secondary flex-1">
-            <Minus className="h-4 w-4 mr-1" />
-            Withdraw
-          </button>
-        )}
-      </div>
-    </div>
+  const { pool, timestamp } = liquidity
+  const { account, baseToken } = pool
+  const format = (amount: bigint) => formatAmount(amount, baseToken.decimals)
+  const busy = transaction.state.status === 'signing' || transaction.state.status === 'pending'
+  const positions = account ? TRANCHES.map((tranche) => account.positions[tranche]) : []
+  const userDeposits = positions.reduce((sum, position) => sum + position.deposits, BigInt(0))
+  const unclaimedYield = positions.reduce((sum, position) => sum + position.claimableYield, BigInt(0))
+  const senior = pool.tranches[TrancheType.SENIOR]
+  const junior = pool.tranches[TrancheType.JUNIOR]
+
+  const trancheCard = (tranche: TrancheType) => (
+    <TrancheCard tranche={tranche} pool={pool} now={timestamp} busy={busy} send={transaction.send} />
   )
 
   return (
@@ -151,11 +95,12 @@ export default function LiquidityPage() {
                 Liquidity Pools
               </h1>
             </div>
-            <div className="flex items-center space-x-4">
+            <div className="flex items-center space-x-6">
               <div className="text-right">
                 <p className="text-sm text-gray-600">Pool Utilization</p>
-                <p className="text-lg font-bold text-blue-600">{poolStats.utilization}%</p>
+                <p className="text-lg font-bold text-blue-600">{formatBps(pool.utilization)}</p>
               </div>
+              <ConnectWallet />
             </div>
           </div>
         </div>
@@ -163,7 +108,8 @@ export default function LiquidityPage() {
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        
+        <TransactionStatus state={transaction.state} onDismiss={transaction.reset} />
+
         {/* Pool Overview Stats */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
           <div className="card p-6">
@@ -172,7 +118,7 @@ export default function LiquidityPage() {
               <div className="ml-4">
                 <p className="text-sm text-gray-600">Total Pool Value</p>
                 <p className="text-2xl font-bold text-gray-900">
-                  {formatCurrency(poolStats.totalPoolValue)}
+                  {format(pool.totalPoolValue)}
                 </p>
               </div>
             </div>
@@ -183,7 +129,7 @@ export default function LiquidityPage() {
               <Percent className="h-8 w-8 text-blue-500" />
               <div className="ml-4">
                 <p className="text-sm text-gray-600">Pool Utilization</p>
-                <p className="text-2xl font-bold text-blue-600">{poolStats.utilization}%</p>
+                <p className="text-2xl font-bold text-blue-600">{formatBps(pool.utilization)}</p>
               </div>
             </div>
           </div>
@@ -194,7 +140,7 @@ export default function LiquidityPage() {
               <div className="ml-4">
                 <p className="text-sm text-gray-600">Your Total Deposits</p>
                 <p className="text-2xl font-bold text-gray-900">
-                  {formatCurrency(poolStats.seniorTranche.userDeposits + poolStats.juniorTranche.userDeposits)}
+                  {account ? format(userDeposits) : '—'}
                 </p>
               </div>
             </div>
@@ -204,9 +150,9 @@ export default function LiquidityPage() {
             <div className="flex items-center">
               <DollarSign className="h-8 w-8 text-green-500" />
               <div className="ml-4">
-                <p className="text-sm text-gray-600">Total Yield Earned</p>
+                <p className="text-sm text-gray-600">Unclaimed Yield</p>
                 <p className="text-2xl font-bold text-green-600">
-                  {formatCurrency(poolStats.seniorTranche.currentYield + poolStats.juniorTranche.currentYield)}
+                  {account ? format(unclaimedYield) : '—'}
                 </p>
               </div>
             </div>
@@ -266,8 +212,8 @@ export default function LiquidityPage() {
                   <ul className="text-sm text-blue-700 space-y-1">
                     <li>• Receives yield distributions first</li>
                     <li>• Lower risk, stable returns</li>
-                    <li>• Target APY: {poolStats.seniorTranche.yieldRate}%</li>
-                    <li>• 90-day lockup period</li>
+                    <li>• Target APY: {formatBps(senior.yieldRate)}</li>
+                    <li>• {formatDuration(senior.lockupPeriod)} lockup period</li>
                   </ul>
                 </div>
                 
@@ -276,8 +222,8 @@ export default function LiquidityPage() {
                   <ul className="text-sm text-purple-700 space-y-1">
                     <li>• Receives remaining yield after senior</li>
                     <li>• Higher risk, variable returns</li>
-                    <li>• Current APY: {poolStats.juniorTranche.yieldRate}%</li>
-                    <li>• 180-day lockup period</li>
+                    <li>• Target APY: {formatBps(junior.yieldRate)}</li>
+                    <li>• {formatDuration(junior.lockupPeriod)} lockup period</li>
                   </ul>
                 </div>
               </div>
@@ -285,15 +231,15 @@ export default function LiquidityPage() {
 
             {/* Tranches Side by Side */}
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-              <TrancheCard tranche={poolStats.seniorTranche} />
-              <TrancheCard tranche={poolStats.juniorTranche} />
+              {trancheCard(TrancheType.SENIOR)}
+              {trancheCard(TrancheType.JUNIOR)}
             </div>
           </div>
         )}
 
         {activeTab === 'senior' && (
           <div className="space-y-6">
-            <TrancheCard tranche={poolStats.seniorTranche} />
+            {trancheCard(TrancheType.SENIOR)}
             
             <div className="card p-6">
               <h3 className="text-lg font-semibold text-gray-900 mb-4">Senior Tranche Performance</h3>
@@ -310,7 +256,7 @@ export default function LiquidityPage() {
 
         {activeTab === 'junior' && (
           <div className="space-y-6">
-            <TrancheCard tranche={poolStats.juniorTranche} />
+            {trancheCard(TrancheType.JUNIOR)}
             
             <div className="card p-6">
               <h3 className="text-lg font-semibold text-gray-900 mb-4">Junior Tranche Performance</h3>
@@ -328,55 +274,49 @@ export default function LiquidityPage() {
         {activeTab === 'history' && (
           <div className="card p-6">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">Transaction History</h3>
-            <div className="space-y-4">
-              <div className="flex items-center justify-between p-4 border border-gray-200 rounded">
-                <div className="flex items-center space-x-3">
-                  <div className="p-2 bg-green-100 rounded">
-                    <Plus className="h-4 w-4 text-green-600" />
-                  </div>
-                  <div>
-                    <p className="font-medium text-gray-900">Senior Tranche Deposit</p>
-                    <p className="text-sm text-gray-600">Deposited $50,000 to senior tranche</p>
-                  </div>
-                </div>
-                <div className="text-right">
-                  <p className="font-medium text-gray-900">+$50,000</p>
-                  <p className="text-sm text-gray-500">Mar 15, 2024</p>
-                </div>
+            {!account ? (
+              <p className="text-sm text-gray-500">Connect a wallet to see your deposits, withdrawals and yield claims.</p>
+            ) : account.activity.length === 0 ? (
+              <p className="text-sm text-gray-500">No pool activity for this account yet.</p>
+            ) : (
+              <div className="space-y-4">
+                {account.activity.map((entry) => {
+                  const url = transactionUrl(entry.transactionHash)
+                  const Icon = entry.kind === 'deposit' ? Plus : entry.kind === 'withdrawal' ? Minus : DollarSign
+                  return (
+                    <div
+                      key={`${entry.transactionHash}-${entry.kind}`}
+                      className="flex items-center justify-between p-4 border border-gray-200 rounded"
+                    >
+                      <div className="flex items-center space-x-3">
+                        <div className={`p-2 rounded ${entry.tranche === TrancheType.SENIOR ? 'bg-blue-100' : 'bg-purple-100'}`}>
+                          <Icon className={`h-4 w-4 ${entry.tranche === TrancheType.SENIOR ? 'text-blue-600' : 'text-purple-600'}`} />
+                        </div>
+                        <div>
+                          <p className="font-medium text-gray-900">
+                            {trancheNames[entry.tranche]} {activityLabels[entry.kind]}
+                          </p>
+                          <p className="text-sm text-gray-600">
+                            Block #{entry.blockNumber.toString()}
+                            {url && (
+                              <>
+                                {' • '}
+                                <a className="underline" href={url} target="_blank" rel="noreferrer">
+                                  View transaction
+                                </a>
+                              </>
+                            )}
+                          </p>
+                        </div>
+                      </div>
+                      <p className={`font-medium ${entry.kind === 'yield-claim' || entry.kind === 'yield-compound' ? 'text-green-600' : 'text-gray-900'}`}>
+                        {format(entry.amount)}
+                      </p>
+                    </div>
+                  )
+                })}
               </div>
-              
-              <div className="flex items-center justify-between p-4 border border-gray-200 rounded">
-                <div className="flex items-center space-x-3">
-                  <div className="p-2 bg-purple-100 rounded">
-                    <Plus className="h-4 w-4 text-purple-600" />
-                  </div>
-                  <div>
-                    <p className="font-medium text-gray-900">Junior Tranche Deposit</p>
-                    <p className="text-sm text-gray-600">Deposited $25,000 to junior tranche</p>
-                  </div>
-                </div>
-                <div className="text-right">
-                  <p className="font-medium text-gray-900">+$25,000</p>
-                  <p className="text-sm text-gray-500">Mar 20, 2024</p>
-                </div>
-              </div>
-              
-              <div className="flex items-center justify-between p-4 border border-gray-200 rounded">
-                <div className="flex items-center space-x-3">
-                  <div className="p-2 bg-green-100 rounded">
-                    <DollarSign className="h-4 w-4 text-green-600" />
-                  </div>
-                  <div>
-                    <p className="font-medium text-gray-900">Yield Distribution</p>
-                    <p className="text-sm text-gray-600">Monthly yield payment received</p>
-                  </div>
-                </div>
-                <div className="text-right">
-                  <p className="font-medium text-green-600">+$4,275</p>
-                  <p className="text-sm text-gray-500">Apr 1, 2024</p>
-                </div>
-              </div>
-            </div>
+            )}
           </div>
         )}
 
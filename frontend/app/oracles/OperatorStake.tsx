@@ -0,0 +1,142 @@
+'use client'
+
+import { useState } from 'react'
+import type { Address } from 'viem'
+import { Minus, Plus, ShieldCheck, Wallet } from 'lucide-react'
+import type { OracleOperator } from '../../hooks/useOracleOperators'
+import type { TransactionRequest } from '../../hooks/useTransaction'
+import { csvOracleAbi } from '../../lib/contracts'
+import { formatDuration } from '../liquidity/format'
+import { formatStake, parseStake, unbondingStatus } from './format'
+
+interface OperatorStakeProps {
+  /** The connected wallet's oracle. */
+  operator: OracleOperator
+  oracleAddress: Address
+  unbondingPeriod: bigint
+  /** Latest block timestamp, against which unbonding is measured. */
+  now: bigint
+  /** Whether a transaction is already in flight; actions are disabled until it settles. */
+  busy: boolean
+  send: (request: TransactionRequest) => Promise<boolean>
+}
+
+/** Top-up, unbonding and withdrawal of the connected operator's stake. */
+export default function OperatorStake({ operator, oracleAddress, unbondingPeriod, now, busy, send }: OperatorStakeProps) {
+  const [mode, setMode] = useState<'top-up' | 'unbond' | null>(null)
+  const [amountInput, setAmountInput] = useState('')
+
+  const amount = parseStake(amountInput)
+  const exceedsStake = mode === 'unbond' && amount !== undefined && amount > operator.stakingAmount
+  const unbonding = unbondingStatus(operator.unbonding, now)
+  const canWithdraw = operator.unbonding.amount > BigInt(0) && operator.unbonding.availableAt <= now
+  const oracleCall = { contract: 'CSVOracle' as const, address: oracleAddress, abi: csvOracleAbi }
+
+  const toggle = (next: 'top-up' | 'unbond') => {
+    setMode(mode === next ? null : next)
+    setAmountInput('')
+  }
+
+  const submit = async () => {
+    if (amount === undefined || exceedsStake) return
+    const request =
+      mode === 'top-up'
+        ? { ...oracleCall, label: 'Top up stake', functionName: 'increaseStake', args: [], value: amount }
+        : { ...oracleCall, label: 'Unbond stake', functionName: 'requestUnbond', args: [amount] }
+    if (await send(request)) {
+      setAmountInput('')
+      setMode(null)
+    }
+  }
+
+  const withdraw = () => send({ ...oracleCall, label: 'Withdraw stake', functionName: 'withdrawStake', args: [] })
+
+  return (
+    <div className="card p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <Wallet className="h-5 w-5 text-indigo-600 mr-2" />
+          <h3 className="text-lg font-semibold text-gray-900">Your Stake</h3>
+        </div>
+        <div className="flex space-x-2">
+          <button
+            onClick={() => toggle('top-up')}
+            disabled={busy}
+            className="flex items-center px-3 py-2 text-sm font-medium rounded border border-gray-200 hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Top Up
+          </button>
+          <button
+            onClick={() => toggle('unbond')}
+            disabled={busy || operator.stakingAmount === BigInt(0)}
+            className="flex items-center px-3 py-2 text-sm font-medium rounded border border-gray-200 hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Minus className="h-4 w-4 mr-1" />
+            Unbond
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <p className="text-sm text-gray-600">Bonded</p>
+          <p className="text-xl font-bold text-gray-900">{formatStake(operator.stakingAmount)}</p>
+        </div>
+        <div>
+          <p className="text-sm text-gray-600">Unbonding</p>
+          <p className="text-xl font-bold text-gray-900">{formatStake(operator.unbonding.amount)}</p>
+          {unbonding && <p className="text-xs text-gray-500">{unbonding}</p>}
+          {canWithdraw && (
+            <button
+              onClick={withdraw}
+              disabled={busy}
+              className="mt-2 px-3 py-1 text-sm font-medium rounded bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50"
+            >
+              Withdraw
+            </button>
+          )}
+        </div>
+      </div>
+
+      {mode && (
+        <div className="mt-4 flex flex-col md:flex-row md:items-start gap-3">
+          <div className="flex-1">
+            <input
+              type="text"
+              inputMode="decimal"
+              value={amountInput}
+              onChange={(event) => setAmountInput(event.target.value)}
+              placeholder="Amount in ETH"
+              className="w-full px-3 py-2 border border-gray-300 rounded text-sm"
+            />
+            {exceedsStake && <p className="text-xs text-red-600 mt-1">Exceeds your bonded stake.</p>}
+            {mode === 'unbond' && (
+              <p className="text-xs text-gray-500 mt-1">
+                Withdrawable {formatDuration(unbondingPeriod)} after the request and slashable until then. A new request
+                adds to the pending unbond and restarts the period; unbonding all stake deregisters the oracle.
+              </p>
+            )}
+          </div>
+          <button
+            onClick={submit}
+            disabled={busy || amount === undefined || exceedsStake}
+            className="px-4 py-2 text-sm font-medium rounded bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {mode === 'top-up' ? 'Top Up Stake' : 'Request Unbond'}
+          </button>
+        </div>
+      )}
+
+      {operator.needsRemediation && (
+        <div className="mt-4 flex items-start text-sm text-red-700">
+          <ShieldCheck className="h-5 w-5 text-red-600 mr-2 flex-shrink-0" />
+          <p>
+            This oracle was deregistered for low reputation. It can register again once an oracle manager approves its
+            remediation; the bonded stake carries over.
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
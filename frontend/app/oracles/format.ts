@@ -0,0 +1,32 @@
+import { formatEther, parseEther } from 'viem'
+import type { Unbonding } from '@iyield/sdk'
+import { BASIS_POINTS } from '../../lib/contracts'
+import { formatDuration } from '../liquidity/format'
+
+export const formatAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`
+
+export function formatStake(amount: bigint): string {
+  return `${Number(formatEther(amount)).toLocaleString('en-US', { maximumFractionDigits: 4 })} ETH`
+}
+
+export function formatReputation(score: bigint): string {
+  return `${((Number(score) / BASIS_POINTS) * 100).toFixed(2)}%`
+}
+
+/** When a pending unbond can be withdrawn, measured against chain time; null without one. */
+export function unbondingStatus(unbonding: Unbonding, now: bigint): string | null {
+  if (unbonding.amount === BigInt(0)) return null
+  return unbonding.availableAt <= now ? 'withdrawable now' : `withdrawable in ${formatDuration(unbonding.availableAt - now)}`
+}
+
+/** Parses user input into wei; undefined when it is not a positive amount. */
+export function parseStake(value: string): bigint | undefined {
+  const trimmed = value.trim()
+  if (!/^(\d+\.?\d*|\.\d+)$/.test(trimmed)) return undefined
+  try {
+    const amount = parseEther(trimmed)
+    return amount > BigInt(0) ? amount : undefined
+  } catch {
+    return undefined
+  }
+}
@@ -0,0 +1,213 @@
+'use client'
+
+import { isAddressEqual } from 'viem'
+import { useAccount } from 'wagmi'
+import { AlertCircle, Clock, Coins, Radio, Users } from 'lucide-react'
+import ConnectWallet from '../../components/ConnectWallet'
+import TransactionStatus from '../../components/TransactionStatus'
+import { useOracleOperators, type OracleOperator } from '../../hooks/useOracleOperators'
+import { useTransaction } from '../../hooks/useTransaction'
+import { formatDuration } from '../liquidity/format'
+import OperatorStake from './OperatorStake'
+import { formatAddress, formatReputation, formatStake, unbondingStatus } from './format'
+
+function operatorStatus(operator: OracleOperator) {
+  if (operator.isActive) return { label: 'Active', color: 'text-green-600 bg-green-100' }
+  if (operator.needsRemediation) return { label: 'Needs remediation', color: 'text-red-600 bg-red-100' }
+  return { label: 'Inactive', color: 'text-gray-600 bg-gray-100' }
+}
+
+export default function OracleOperatorsPage() {
+  const state = useOracleOperators()
+  const transaction = useTransaction()
+  const { address: account } = useAccount()
+
+  if (state.status === 'not-deployed' || state.status === 'error') {
+    return (
+      <div className="min-h-screen bg-gray-50 p-6">
+        <div className="max-w-7xl mx-auto">
+          <div className="flex justify-end mb-6">
+            <ConnectWallet />
+          </div>
+          <div className="card p-6 bg-red-50 border-red-200">
+            <div className="flex items-start">
+              <AlertCircle className="h-5 w-5 text-red-600 mt-0.5 mr-3 flex-shrink-0" />
+              <div>
+                <h3 className="text-sm font-medium text-red-800">
+                  {state.status === 'not-deployed' ? 'Protocol not deployed on this network' : 'Unable to load oracle operators'}
+                </h3>
+                <p className="text-sm text-red-700 mt-1 break-words">
+                  {state.status === 'not-deployed'
+                    ? `No iYield contracts are configured for chain ${state.chainId}. Switch your wallet to the protocol network.`
+                    : state.error.message}
+                </p>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (state.status === 'loading') {
+    return (
+      <div className="min-h-screen bg-gray-50 p-6">
+        <div className="max-w-7xl mx-auto animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-6"></div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-24 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+          <div className="h-96 bg-gray-200 rounded"></div>
+        </div>
+      </div>
+    )
+  }
+
+  const { data, timestamp } = state
+  const busy = transaction.state.status === 'signing' || transaction.state.status === 'pending'
+  const activeCount = data.operators.filter((operator) => operator.isActive).length
+  const mine = account ? data.operators.find((operator) => isAddressEqual(operator.address, account)) : undefined
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center">
+              <Radio className="h-6 w-6 text-indigo-600 mr-3" />
+              <h1 className="text-2xl font-bold text-gray-900">Oracle Operators</h1>
+            </div>
+            <ConnectWallet />
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <TransactionStatus state={transaction.state} onDismiss={transaction.reset} />
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+          <div className="card p-6">
+            <div className="flex items-center">
+              <Users className="h-8 w-8 text-indigo-500" />
+              <div className="ml-4">
+                <p className="text-sm text-gray-600">Active Operators</p>
+                <p className="text-2xl font-bold text-gray-900">
+                  {activeCount} <span className="text-base font-normal text-gray-500">of {data.operators.length}</span>
+                </p>
+              </div>
+            </div>
+          </div>
+          <div className="card p-6">
+            <div className="flex items-center">
+              <Coins className="h-8 w-8 text-green-500" />
+              <div className="ml-4">
+                <p className="text-sm text-gray-600">Total Staked</p>
+                <p className="text-2xl font-bold text-gray-900">{formatStake(data.totalStaked)}</p>
+              </div>
+            </div>
+          </div>
+          <div className="card p-6">
+            <div className="flex items-center">
+              <Clock className="h-8 w-8 text-orange-500" />
+              <div className="ml-4">
+                <p className="text-sm text-gray-600">Unbonding Period</p>
+                <p className="text-2xl font-bold text-gray-900">{formatDuration(data.unbondingPeriod)}</p>
+                <p className="text-xs text-gray-500">Dispute period {formatDuration(data.disputePeriod)}</p>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {mine && (
+          <OperatorStake
+            operator={mine}
+            oracleAddress={data.address}
+            unbondingPeriod={data.unbondingPeriod}
+            now={timestamp}
+            busy={busy}
+            send={transaction.send}
+          />
+        )}
+
+        <div className="card p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Operators</h3>
+          {data.operators.length === 0 ? (
+            <p className="text-sm text-gray-500">No oracles have registered yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Operator
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Status
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Reputation
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Bonded Stake
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Pending Unbond
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {data.operators.map((operator) => {
+                    const status = operatorStatus(operator)
+                    const unbonding = unbondingStatus(operator.unbonding, timestamp)
+                    return (
+                      <tr key={operator.address}>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {operator.name}
+                          <span className="block text-xs font-mono text-gray-500" title={operator.address}>
+                            {formatAddress(operator.address)}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${status.color}`}>
+                            {status.label}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {formatReputation(operator.reputationScore)}
+                          <span className="block text-xs text-gray-500">
+                            {operator.totalCorrectSubmissions.toString()} of {operator.totalSubmissions.toString()} accurate
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {formatStake(operator.stakingAmount)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {unbonding ? (
+                            <>
+                              {formatStake(operator.unbonding.amount)}
+                              <span className="block text-xs text-gray-500">{unbonding}</span>
+                            </>
+                          ) : (
+                            <span className="text-gray-400">None</span>
+                          )}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <p className="text-xs text-gray-500 mt-4">
+            Unbonding stake no longer counts towards selection but can still be slashed until it is withdrawn. Operators
+            deregistered for low reputation can register again once an oracle manager approves their remediation.
+          </p>
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -186,7 +186,7 @@ export default function HomePage() {
           <p className="text-gray-600 mb-6">
             Access comprehensive tools for CSV tokenization, compliance management, and risk monitoring.
           </p>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
             <a href="/dashboard" className="flex items-center justify-center px-6 py-3 bg-white rounded-lg border border-gray-200 hover:border-blue-300 hover:bg-blue-50 transition-colors">
               <div className="text-center">
                 <div className="text-2xl mb-2">📊</div>
@@ -215,6 +215,13 @@ export default function HomePage() {
                 <div className="text-sm text-gray-600">Portfolio Security</div>
               </div>
             </a>
+            <a href="/oracles" className="flex items-center justify-center px-6 py-3 bg-white rounded-lg border border-gray-200 hover:border-indigo-300 hover:bg-indigo-50 transition-colors">
+              <div className="text-center">
+                <div className="text-2xl mb-2">🔮</div>
+                <div className="font-semibold text-gray-900">Oracle Operators</div>
+                <div className="text-sm text-gray-600">Stake & Reputation</div>
+              </div>
+            </a>
           </div>
         </div>
 
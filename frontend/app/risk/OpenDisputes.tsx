@@ -0,0 +1,114 @@
+'use client'
+
+import { formatEther, formatUnits } from 'viem'
+import { AlertCircle, Scale } from 'lucide-react'
+import { CSV_DECIMALS } from '../../lib/contracts'
+import { useOracleDisputes } from '../../hooks/useOracleDisputes'
+
+const formatCurrency = (amount: bigint) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(Number(formatUnits(amount, CSV_DECIMALS)))
+
+const formatAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`
+
+/** Valuations challenged through `CSVOracle.raiseDispute` that an arbitrator has yet to rule on. */
+export default function OpenDisputes() {
+  const state = useOracleDisputes()
+
+  return (
+    <div className="card p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Open Valuation Disputes</h3>
+        {state.status === 'ready' && state.disputes.length > 0 && (
+          <span className="px-2 py-1 text-xs font-medium rounded-full text-orange-600 bg-orange-100">
+            {state.disputes.length} awaiting arbitration
+          </span>
+        )}
+      </div>
+
+      {state.status === 'loading' && <div className="animate-pulse h-24 bg-gray-200 rounded"></div>}
+
+      {(state.status === 'not-deployed' || state.status === 'error') && (
+        <div className="flex items-start text-sm text-red-700">
+          <AlertCircle className="h-5 w-5 text-red-600 mr-3 flex-shrink-0" />
+          <p className="break-words">
+            {state.status === 'error'
+              ? state.error.message
+              : `No iYield contracts are configured for chain ${state.chainId}.`}
+          </p>
+        </div>
+      )}
+
+      {state.status === 'ready' && state.disputes.length === 0 && (
+        <div className="flex items-center text-sm text-gray-500">
+          <Scale className="h-5 w-5 mr-2" />
+          No valuations are under dispute.
+        </div>
+      )}
+
+      {state.status === 'ready' && state.disputes.length > 0 && (
+        <>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Request
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Policy
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Disputed Value
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Reason
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Disputer
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Bond
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Raised
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {state.disputes.map((dispute) => (
+                  <tr key={dispute.requestId.toString()}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      #{dispute.requestId.toString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{dispute.policyNumber}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatCurrency(dispute.disputedValue)}
+                      <span className="block text-xs text-gray-500">{dispute.responseCount.toString()} responses</span>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700 max-w-xs break-words">{dispute.reason}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-700" title={dispute.disputer}>
+                      {formatAddress(dispute.disputer)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatEther(dispute.bond)} ETH</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {new Date(Number(dispute.raisedAt) * 1000).toLocaleString()}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-gray-500 mt-4">
+            Consumers should treat these values as provisional. Overturning a dispute slashes the oracles that deviated
+            from the corrected value, claws back their rewards and requests a new valuation.
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
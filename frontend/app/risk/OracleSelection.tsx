@@ -0,0 +1,121 @@
+'use client'
+
+import { formatEther, toHex } from 'viem'
+import { AlertCircle, Shuffle } from 'lucide-react'
+import { useOracleSelections } from '../../hooks/useOracleSelections'
+
+const formatAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`
+
+const formatBps = (bps: bigint) => `${(Number(bps) / 100).toFixed(2)}%`
+
+/**
+ * Why each oracle valued a recent request: `CSVOracle` draws them at random,
+ * weighted by reputation score times stake, leaving out oracles tied to the
+ * requester.
+ */
+export default function OracleSelection() {
+  const state = useOracleSelections()
+
+  return (
+    <div className="card p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Oracle Selection</h3>
+        <Shuffle className="h-5 w-5 text-gray-400" />
+      </div>
+
+      {state.status === 'loading' && <div className="animate-pulse h-24 bg-gray-200 rounded"></div>}
+
+      {(state.status === 'not-deployed' || state.status === 'error') && (
+        <div className="flex items-start text-sm text-red-700">
+          <AlertCircle className="h-5 w-5 text-red-600 mr-3 flex-shrink-0" />
+          <p className="break-words">
+            {state.status === 'error'
+              ? state.error.message
+              : `No iYield contracts are configured for chain ${state.chainId}.`}
+          </p>
+        </div>
+      )}
+
+      {state.status === 'ready' && state.selections.length === 0 && (
+        <p className="text-sm text-gray-500">No valuations have been requested yet.</p>
+      )}
+
+      {state.status === 'ready' && state.selections.length > 0 && (
+        <>
+          <div className="space-y-6">
+            {state.selections.map((selection) => (
+              <div key={selection.requestId.toString()}>
+                <div className="flex flex-wrap items-baseline justify-between gap-2 mb-2">
+                  <p className="text-sm font-medium text-gray-900">
+                    #{selection.requestId.toString()} · {selection.policyNumber}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Seed{' '}
+                    <span className="font-mono" title={toHex(selection.seed, { size: 32 })}>
+                      {formatAddress(toHex(selection.seed, { size: 32 }))}
+                    </span>
+                    {selection.excludedCount > BigInt(0) &&
+                      ` · ${selection.excludedCount.toString()} excluded for ties to the requester`}
+                  </p>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Oracle
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Reputation
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Stake
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Selection Weight
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {selection.oracles.map((oracle) => (
+                        <tr key={oracle.oracle}>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {oracle.name}
+                            <span className="block text-xs font-mono text-gray-500" title={oracle.oracle}>
+                              {formatAddress(oracle.oracle)}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {formatBps(oracle.reputationScore)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {formatEther(oracle.stakingAmount)} ETH
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="text-sm text-gray-900">{formatBps(oracle.share)} of the draw</div>
+                            <div className="w-full bg-gray-200 rounded-full h-2 mt-1">
+                              <div
+                                className="h-2 rounded-full bg-blue-500"
+                                style={{ width: formatBps(oracle.share) }}
+                              ></div>
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mt-4">
+            Each oracle is drawn with a chance proportional to its reputation score times its stake at the time of the
+            request. Reputation and stake are shown as they are now. The seed and weights are emitted in
+            the <code>OraclesSelected</code> event, so anyone can replay the draw with <code>selectOracles</code> from
+            the SDK.
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
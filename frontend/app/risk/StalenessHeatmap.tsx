@@ -0,0 +1,161 @@
+'use client'
+
+import { valuationStaleness } from '@iyield/sdk'
+import { AlertCircle, Clock } from 'lucide-react'
+import { useValuationStaleness, type VaultValuationAge } from '../../hooks/useValuationStaleness'
+import { CSV_DECIMALS } from '../../lib/contracts'
+import { formatAmount, formatDuration } from '../liquidity/format'
+
+/** Quarters of `maxValuationAge`, then stale. */
+const BUCKETS = [
+  { label: '0–25%', rgb: '34, 197, 94' },
+  { label: '25–50%', rgb: '132, 204, 22' },
+  { label: '50–75%', rgb: '234, 179, 8' },
+  { label: '75–100%', rgb: '249, 115, 22' },
+  { label: 'Stale', rgb: '239, 68, 68' },
+]
+const STALE = BUCKETS.length - 1
+const QUARTER_BPS = BigInt(2500)
+
+const ATTENTION_LIMIT = 8
+
+interface StaleVault extends VaultValuationAge {
+  stale: boolean
+  remaining: bigint
+  age: bigint
+  bucket: number
+}
+
+/**
+ * Open vaults by carrier and valuation age. `CSVVault` blocks minting and
+ * closing once a vault's valuation is older than `maxValuationAge`, until it
+ * is revalued.
+ */
+export default function StalenessHeatmap() {
+  const state = useValuationStaleness()
+
+  const vaults: StaleVault[] =
+    state.status === 'ready'
+      ? state.data.vaults.map((vault) => {
+          const { stale, remaining, age, ageBps } = valuationStaleness(
+            vault.valuedAt,
+            state.data.maxValuationAge,
+            state.timestamp
+          )
+          const bucket = stale ? STALE : Math.min(Number(ageBps / QUARTER_BPS), STALE - 1)
+          return { ...vault, stale, remaining, age, bucket }
+        })
+      : []
+  const carriers = Array.from(new Set(vaults.map((vault) => vault.carrierName))).sort()
+  const cells = carriers.map((carrier) =>
+    BUCKETS.map((_, bucket) => vaults.filter((vault) => vault.carrierName === carrier && vault.bucket === bucket))
+  )
+  const busiest = Math.max(1, ...cells.flat().map((cell) => cell.length))
+  const attention = vaults
+    .filter((vault) => vault.bucket >= STALE - 1)
+    .sort((a, b) => (a.remaining === b.remaining ? Number(b.age - a.age) : Number(a.remaining - b.remaining)))
+    .slice(0, ATTENTION_LIMIT)
+
+  return (
+    <div className="card p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Valuation Staleness</h3>
+        <Clock className="h-5 w-5 text-gray-400" />
+      </div>
+
+      {state.status === 'loading' && <div className="animate-pulse h-24 bg-gray-200 rounded"></div>}
+
+      {(state.status === 'not-deployed' || state.status === 'error') && (
+        <div className="flex items-start text-sm text-red-700">
+          <AlertCircle className="h-5 w-5 text-red-600 mr-3 flex-shrink-0" />
+          <p className="break-words">
+            {state.status === 'error'
+              ? state.error.message
+              : `No iYield contracts are configured for chain ${state.chainId}.`}
+          </p>
+        </div>
+      )}
+
+      {state.status === 'ready' && vaults.length === 0 && <p className="text-sm text-gray-500">No vaults are open.</p>}
+
+      {state.status === 'ready' && vaults.length > 0 && (
+        <>
+          <div className="overflow-x-auto">
+            <table className="min-w-full">
+              <thead>
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Carrier
+                  </th>
+                  {BUCKETS.map(({ label }) => (
+                    <th
+                      key={label}
+                      className="px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider"
+                    >
+                      {label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {carriers.map((carrier, row) => (
+                  <tr key={carrier}>
+                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">{carrier}</td>
+                    {cells[row].map((cell, bucket) => {
+                      const debt = cell.reduce((sum, vault) => sum + vault.debtAmount, BigInt(0))
+                      return (
+                        <td key={BUCKETS[bucket].label} className="p-1">
+                          <div
+                            className="rounded px-3 py-2 text-center"
+                            style={{
+                              backgroundColor: `rgba(${BUCKETS[bucket].rgb}, ${
+                                cell.length === 0 ? 0.05 : 0.2 + (0.7 * cell.length) / busiest
+                              })`,
+                            }}
+                            title={cell.map((vault) => `#${vault.vaultId.toString()} ${vault.policyNumber}`).join('\n')}
+                          >
+                            <p className="text-sm font-medium text-gray-900">{cell.length || '–'}</p>
+                            {cell.length > 0 && (
+                              <p className="text-xs text-gray-700">{formatAmount(debt, CSV_DECIMALS)} debt</p>
+                            )}
+                          </div>
+                        </td>
+                      )
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {attention.length > 0 && (
+            <div className="mt-6">
+              <h4 className="text-sm font-medium text-gray-900 mb-2">Needs Revaluation</h4>
+              <ul className="divide-y divide-gray-200">
+                {attention.map((vault) => (
+                  <li key={vault.vaultId.toString()} className="flex items-center justify-between py-2 text-sm">
+                    <span className="text-gray-900">
+                      #{vault.vaultId.toString()} · {vault.policyNumber}
+                      <span className="text-gray-500"> · {vault.carrierName}</span>
+                    </span>
+                    <span className={vault.stale ? 'font-medium text-red-600' : 'text-orange-600'}>
+                      {vault.stale
+                        ? `Stale for ${formatDuration(vault.age - state.data.maxValuationAge)}`
+                        : `Stale in ${formatDuration(vault.remaining)}`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <p className="text-xs text-gray-500 mt-4">
+            Columns are valuation age as a share of the {formatDuration(state.data.maxValuationAge)} maximum. Stale vaults
+            cannot mint or close until their collateral is revalued; repayments and liquidations still go through. The
+            valuation scheduler requests revaluations ahead of time.
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,362 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { formatUnits } from 'viem'
+import { AlertCircle, Plus, Save, Trash2, X } from 'lucide-react'
+import {
+  defaultStressScenarios,
+  runStressTest,
+  validateStressScenario,
+  type StressPortfolio,
+  type StressResult,
+  type StressScenario,
+  type StressShock,
+} from '@iyield/sdk'
+import { BASIS_POINTS, CSV_DECIMALS } from '../../lib/contracts'
+import { useStressPortfolio } from '../../hooks/useStressPortfolio'
+import { useStressScenarios } from '../../hooks/useStressScenarios'
+
+const RATINGS = [5, 4, 3, 2, 1]
+
+const formatCurrency = (amount: bigint) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    notation: 'compact',
+    maximumFractionDigits: 1,
+  }).format(Number(formatUnits(amount, CSV_DECIMALS)))
+
+const formatLTV = (ltv: bigint | null) => (ltv === null ? 'No collateral' : `${(Number(ltv) / 100).toFixed(1)}%`)
+
+const describeShock = (shock: StressShock) => {
+  switch (shock.type) {
+    case 'market':
+      return `All carriers -${shock.shockBps / 100}%`
+    case 'carrier':
+      return `${shock.carrier} -${shock.shockBps / 100}%`
+    case 'rating':
+      return `Rating ${shock.rating} -${shock.shockBps / 100}%`
+    case 'carrier-default':
+      return `${shock.carrier} defaults, ${shock.recoveryBps / 100}% recovery`
+  }
+}
+
+function newShock(type: StressShock['type'], carriers: string[]): StressShock {
+  switch (type) {
+    case 'market':
+      return { type, shockBps: 1000 }
+    case 'carrier':
+      return { type, carrier: carriers[0] ?? '', shockBps: 2000 }
+    case 'rating':
+      return { type, rating: 3, shockBps: 2000 }
+    case 'carrier-default':
+      return { type, carrier: carriers[0] ?? '', recoveryBps: 4000 }
+  }
+}
+
+const ScenarioSummary = ({ result }: { result: StressResult }) => (
+  <div className="space-y-2 text-sm">
+    <div className="flex justify-between">
+      <span>Liquidatable vaults:</span>
+      <span className={`font-medium ${result.liquidatableCount > 0 ? 'text-red-600' : 'text-green-600'}`}>
+        {result.liquidatableCount} / {result.vaults.length}
+      </span>
+    </div>
+    <div className="flex justify-between">
+      <span>Total losses:</span>
+      <span className="font-medium">{formatCurrency(result.totalLoss)}</span>
+    </div>
+    <div className="flex justify-between">
+      <span>Junior / senior loss:</span>
+      <span className="font-medium">
+        {formatCurrency(result.juniorLoss)} / {formatCurrency(result.seniorLoss)}
+      </span>
+    </div>
+    {result.uncoveredLoss > BigInt(0) && (
+      <div className="flex justify-between text-red-600">
+        <span>Beyond both tranches:</span>
+        <span className="font-medium">{formatCurrency(result.uncoveredLoss)}</span>
+      </div>
+    )}
+  </div>
+)
+
+function ScenarioBuilder({
+  portfolio,
+  onSave,
+}: {
+  portfolio: StressPortfolio
+  onSave: (scenario: StressScenario) => void
+}) {
+  const carriers = useMemo(
+    () => Array.from(new Set(portfolio.vaults.map((vault) => vault.carrierName))).sort(),
+    [portfolio.vaults]
+  )
+  const [name, setName] = useState('')
+  const [shocks, setShocks] = useState<StressShock[]>([newShock('carrier', carriers)])
+
+  const draft: StressScenario = { id: 'draft', name: name || 'Custom scenario', shocks }
+  const problems = validateStressScenario(draft)
+  const preview = problems.length === 0 ? runStressTest(portfolio, draft) : undefined
+
+  const updateShock = (index: number, shock: StressShock) =>
+    setShocks(shocks.map((existing, i) => (i === index ? shock : existing)))
+
+  const save = () => {
+    onSave({ ...draft, id: `custom-${Date.now()}`, name: name.trim(), description: shocks.map(describeShock).join(', ') })
+    setName('')
+    setShocks([newShock('carrier', carriers)])
+  }
+
+  return (
+    <div className="card p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">Build a Scenario</h3>
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-3">
+          <input
+            className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
+            placeholder="Scenario name"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+          />
+          {shocks.map((shock, index) => {
+            const percent = shock.type === 'carrier-default' ? shock.recoveryBps : shock.shockBps
+            const setPercent = (value: number) => {
+              const bps = Math.round(value * 100)
+              updateShock(index, shock.type === 'carrier-default' ? { ...shock, recoveryBps: bps } : { ...shock, shockBps: bps })
+            }
+            return (
+              <div key={index} className="flex items-center space-x-2">
+                <select
+                  className="border border-gray-300 rounded px-2 py-2 text-sm"
+                  value={shock.type}
+                  onChange={(event) => updateShock(index, newShock(event.target.value as StressShock['type'], carriers))}
+                >
+                  <option value="market">All carriers</option>
+                  <option value="carrier">Carrier</option>
+                  <option value="rating">Credit rating</option>
+                  <option value="carrier-default">Carrier default</option>
+                </select>
+                {(shock.type === 'carrier' || shock.type === 'carrier-default') && (
+                  <select
+                    className="flex-1 border border-gray-300 rounded px-2 py-2 text-sm"
+                    value={shock.carrier}
+                    onChange={(event) => updateShock(index, { ...shock, carrier: event.target.value })}
+                  >
+                    {carriers.length === 0 && <option value="">No carriers in open vaults</option>}
+                    {carriers.map((carrier) => (
+                      <option key={carrier} value={carrier}>
+                        {carrier}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                {shock.type === 'rating' && (
+                  <select
+                    className="flex-1 border border-gray-300 rounded px-2 py-2 text-sm"
+                    value={shock.rating}
+                    onChange={(event) => updateShock(index, { ...shock, rating: Number(event.target.value) })}
+                  >
+                    {RATINGS.map((rating) => (
+                      <option key={rating} value={rating}>
+                        Rating {rating}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                {shock.type === 'market' && <div className="flex-1" />}
+                <span className="text-sm text-gray-600">{shock.type === 'carrier-default' ? 'Recovery' : 'Drop'}</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step={0.5}
+                  className="w-20 border border-gray-300 rounded px-2 py-2 text-sm"
+                  value={percent / 100}
+                  onChange={(event) => setPercent(Number(event.target.value))}
+                />
+                <span className="text-sm text-gray-600">%</span>
+                <button
+                  className="p-1 text-gray-400 hover:text-red-600"
+                  onClick={() => setShocks(shocks.filter((_, i) => i !== index))}
+                  aria-label="Remove shock"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            )
+          })}
+          <div className="flex items-center justify-between">
+            <button
+              className="flex items-center text-sm text-blue-600 hover:text-blue-800"
+              onClick={() => setShocks([...shocks, newShock('market', carriers)])}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add shock
+            </button>
+            <button
+              className="btn-primary flex items-center disabled:opacity-50"
+              disabled={!name.trim() || shocks.length === 0 || problems.length > 0}
+              onClick={save}
+            >
+              <Save className="h-4 w-4 mr-2" />
+              Save scenario
+            </button>
+          </div>
+          {problems.map((problem) => (
+            <p key={problem} className="text-sm text-red-600">
+              {problem}
+            </p>
+          ))}
+        </div>
+        <div className="border border-gray-200 rounded p-4">
+          <h4 className="font-semibold text-gray-900 mb-2">Preview</h4>
+          {preview ? <ScenarioSummary result={preview} /> : <p className="text-sm text-gray-500">Fix the shocks to see results.</p>}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+const VaultResults = ({ result, maxLTV }: { result: StressResult; maxLTV: bigint }) => (
+  <div className="card p-6">
+    <h3 className="text-lg font-semibold text-gray-900 mb-1">{result.scenario.name}: Projected Vaults</h3>
+    <p className="text-sm text-gray-500 mb-4">
+      Liquidation above {formatLTV(maxLTV)} LTV. Collateral {formatCurrency(result.totalCollateralValue)} →{' '}
+      {formatCurrency(result.stressedCollateralValue)} against {formatCurrency(result.totalDebt)} of debt.
+    </p>
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            {['Vault', 'Carrier', 'Collateral', 'LTV', 'Status', 'Loss'].map((heading) => (
+              <th key={heading} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                {heading}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {result.vaults.map((vault) => (
+            <tr key={vault.vaultId.toString()}>
+              <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">#{vault.vaultId.toString()}</td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                {vault.carrierName}
+                <span className="text-gray-500"> · Rating {vault.creditRating}</span>
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                {formatCurrency(vault.collateralValue)} → {formatCurrency(vault.stressedCollateralValue)}
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                {formatLTV(vault.ltv)} → <span className={vault.liquidatable ? 'text-red-600 font-medium' : ''}>{formatLTV(vault.stressedLTV)}</span>
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap">
+                <span
+                  className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                    vault.liquidatable ? 'text-red-600 bg-red-100' : 'text-green-600 bg-green-100'
+                  }`}
+                >
+                  {vault.liquidatable ? 'Liquidatable' : 'Safe'}
+                </span>
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                {vault.loss > BigInt(0) ? formatCurrency(vault.loss) : '—'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {result.vaults.length === 0 && <p className="text-sm text-gray-500 mt-4">No open vaults.</p>}
+    </div>
+  </div>
+)
+
+/** The risk page's stress-testing tab: preset and saved scenarios run against the live vault set. */
+export default function StressTesting() {
+  const state = useStressPortfolio()
+  const { scenarios: saved, save, remove } = useStressScenarios()
+  const [selectedId, setSelectedId] = useState(defaultStressScenarios[1].id)
+
+  const scenarios = useMemo(() => [...defaultStressScenarios, ...saved], [saved])
+  const results = useMemo(
+    () => (state.status === 'ready' ? scenarios.map((scenario) => runStressTest(state.portfolio, scenario)) : []),
+    [state, scenarios]
+  )
+
+  if (state.status === 'not-deployed' || state.status === 'error') {
+    return (
+      <div className="card p-6 bg-red-50 border-red-200">
+        <div className="flex items-start">
+          <AlertCircle className="h-5 w-5 text-red-600 mt-0.5 mr-3 flex-shrink-0" />
+          <p className="text-sm text-red-700 break-words">
+            {state.status === 'error'
+              ? state.error.message
+              : `No iYield contracts are configured for chain ${state.chainId}.`}
+          </p>
+        </div>
+      </div>
+    )
+  }
+
+  if (state.status === 'loading') {
+    return <div className="animate-pulse h-64 bg-gray-200 rounded"></div>
+  }
+
+  const selected = results.find((result) => result.scenario.id === selectedId) ?? results[0]
+
+  return (
+    <div className="space-y-6">
+      <div className="card p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Stress Test Scenarios</h3>
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {results.map((result) => {
+            const isSaved = saved.some((scenario) => scenario.id === result.scenario.id)
+            return (
+              <div
+                key={result.scenario.id}
+                onClick={() => setSelectedId(result.scenario.id)}
+                className={`border rounded p-4 cursor-pointer ${
+                  result.scenario.id === selected.scenario.id ? 'border-red-400 bg-red-50' : 'border-gray-200'
+                }`}
+              >
+                <div className="flex items-start justify-between">
+                  <h4 className="font-semibold text-gray-900">{result.scenario.name}</h4>
+                  {isSaved && (
+                    <button
+                      className="text-gray-400 hover:text-red-600"
+                      onClick={(event) => {
+                        event.stopPropagation()
+                        remove(result.scenario.id)
+                      }}
+                      aria-label="Delete scenario"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 mb-2">{result.scenario.description}</p>
+                <ScenarioSummary result={result} />
+              </div>
+            )
+          })}
+        </div>
+      </div>
+
+      <VaultResults result={selected} maxLTV={state.portfolio.config.maxLTV} />
+
+      <ScenarioBuilder
+        portfolio={state.portfolio}
+        onSave={(scenario) => {
+          save(scenario)
+          setSelectedId(scenario.id)
+        }}
+      />
+
+      <p className="text-xs text-gray-500">
+        Junior deposits {formatCurrency(state.portfolio.juniorDeposits)} absorb losses before senior deposits{' '}
+        {formatCurrency(state.portfolio.seniorDeposits)}. Liquidation penalty{' '}
+        {Number(state.portfolio.config.liquidationPenalty) / (BASIS_POINTS / 100)}% is deducted from recovered collateral.
+      </p>
+    </div>
+  )
+}
@@ -2,6 +2,10 @@
 
 import { useState } from 'react'
 import { AlertTriangle, TrendingDown, Shield, Activity, Eye, Target, BarChart3, PieChart } from 'lucide-react'
+import OpenDisputes from './OpenDisputes'
+import OracleSelection from './OracleSelection'
+import StalenessHeatmap from './StalenessHeatmap'
+import StressTesting from './StressTesting'
 
 interface RiskMetrics {
   portfolioLTV: number
@@ -335,12 +339,18 @@ export default function RiskPage() {
 
             {/* High Risk Vaults */}
             <VaultRiskTable />
+
+            <OpenDisputes />
+
+            <OracleSelection />
           </div>
         )}
 
         {activeTab === 'vaults' && (
           <div className="space-y-6">
             <VaultRiskTable />
+
+            <StalenessHeatmap />
             
             <div className="card p-6">
               <h3 className="text-lg font-semibold text-gray-900 mb-4">Vault Risk Distribution</h3>
@@ -447,64 +457,7 @@ export default function RiskPage() {
 
         {activeTab === 'stress' && (
           <div className="space-y-6">
-            <div className="card p-6">
-              <h3 className="text-lg font-semibold text-gray-900 mb-4">Stress Test Scenarios</h3>
-              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-                <div className="border border-gray-200 rounded p-4">
-                  <h4 className="font-semibold text-gray-900 mb-2">Mild Stress (-10% CSV)</h4>
-                  <div className="space-y-2 text-sm">
-                    <div className="flex justify-between">
-                      <span>Vaults at risk:</span>
-                      <span className="font-medium text-yellow-600">12</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span>Potential losses:</span>
-                      <span className="font-medium">$125K</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span>Portfolio impact:</span>
-                      <span className="font-medium text-yellow-600">2.3%</span>
-                    </div>
-                  </div>
-                </div>
-
-                <div className="border border-orange-200 rounded p-4 bg-orange-50">
-                  <h4 className="font-semibold text-orange-900 mb-2">Moderate Stress (-20% CSV)</h4>
-                  <div className="space-y-2 text-sm">
-                    <div className="flex justify-between">
-                      <span>Vaults at risk:</span>
-                      <span className="font-medium text-orange-600">28</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span>Potential losses:</span>
-                      <span className="font-medium">$410K</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span>Portfolio impact:</span>
-                      <span className="font-medium text-orange-600">7.8%</span>
-                    </div>
-                  </div>
-                </div>
-
-                <div className="border border-red-200 rounded p-4 bg-red-50">
-                  <h4 className="font-semibold text-red-900 mb-2">Severe Stress (-35% CSV)</h4>
-                  <div className="space-y-2 text-sm">
-                    <div className="flex justify-between">
-                      <span>Vaults at risk:</span>
-                      <span className="font-medium text-red-600">67</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span>Potential losses:</span>
-                      <span className="font-medium">$1.2M</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span>Portfolio impact:</span>
-                      <span className="font-medium text-red-600">18.5%</span>
-                    </div>
-                  </div>
-                </div>
-              </div>
-            </div>
+            <StressTesting />
 
             <div className="card p-6">
               <h3 className="text-lg font-semibold text-gray-900 mb-4">Risk Mitigation Recommendations</h3>
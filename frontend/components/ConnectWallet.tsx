@@ -0,0 +1,61 @@
+'use client'
+
+import { useAccount, useConnect, useDisconnect, useSwitchChain } from 'wagmi'
+import { AlertCircle, LogOut, Wallet } from 'lucide-react'
+import { chains, defaultChainId } from '../lib/wagmi'
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`
+
+/**
+ * Connects the browser wallet through the injected connector, and offers to
+ * switch networks when the wallet is not on the chain the protocol is deployed on.
+ */
+export default function ConnectWallet() {
+  const { address, chainId, isConnected } = useAccount()
+  const { connect, connectors, isPending, error } = useConnect()
+  const { disconnect } = useDisconnect()
+  const { switchChain, isPending: isSwitching } = useSwitchChain()
+
+  if (!isConnected || !address) {
+    return (
+      <div className="flex items-center space-x-2">
+        {error && (
+          <span className="text-xs text-red-600 max-w-xs truncate" title={error.message}>
+            {error.name === 'UserRejectedRequestError' ? 'Connection rejected' : error.message}
+          </span>
+        )}
+        <button
+          className="btn-primary"
+          disabled={isPending || connectors.length === 0}
+          onClick={() => connect({ connector: connectors[0], chainId: defaultChainId })}
+        >
+          <Wallet className="h-4 w-4 mr-2" />
+          {isPending ? 'Connecting…' : 'Connect Wallet'}
+        </button>
+      </div>
+    )
+  }
+
+  if (chainId !== defaultChainId) {
+    const target = chains.find((chain) => chain.id === defaultChainId)
+    return (
+      <button
+        className="btn-secondary text-yellow-800"
+        disabled={isSwitching}
+        onClick={() => switchChain({ chainId: defaultChainId })}
+      >
+        <AlertCircle className="h-4 w-4 mr-2 text-yellow-600" />
+        {isSwitching ? 'Switching…' : `Switch to ${target?.name ?? `chain ${defaultChainId}`}`}
+      </button>
+    )
+  }
+
+  return (
+    <div className="flex items-center space-x-2">
+      <span className="text-sm font-mono text-gray-700">{shortAddress(address)}</span>
+      <button className="btn-secondary" title="Disconnect" onClick={() => disconnect()}>
+        <LogOut className="h-4 w-4" />
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,76 @@
+'use client'
+
+import { AlertCircle, CheckCircle, Loader2, X } from 'lucide-react'
+import type { TransactionState } from '../hooks/useTransaction'
+import { transactionUrl } from '../lib/wagmi'
+
+function TransactionLink({ hash }: { hash: string }) {
+  const url = transactionUrl(hash)
+  const label = `${hash.slice(0, 10)}…${hash.slice(-8)}`
+  return url ? (
+    <a className="font-mono underline" href={url} target="_blank" rel="noreferrer">
+      {label}
+    </a>
+  ) : (
+    <span className="font-mono">{label}</span>
+  )
+}
+
+/** Banner for the transaction tracked by `useTransaction`; renders nothing while idle. */
+export default function TransactionStatus({ state, onDismiss }: { state: TransactionState; onDismiss: () => void }) {
+  if (state.status === 'idle') return null
+
+  const settled = state.status === 'confirmed' || state.status === 'reverted' || state.status === 'failed'
+  const tone = {
+    signing: 'bg-blue-50 border-blue-200 text-blue-800',
+    pending: 'bg-blue-50 border-blue-200 text-blue-800',
+    confirmed: 'bg-green-50 border-green-200 text-green-800',
+    reverted: 'bg-red-50 border-red-200 text-red-800',
+    failed: 'bg-red-50 border-red-200 text-red-800',
+  }[state.status]
+
+  return (
+    <div className={`card p-4 mb-6 ${tone}`}>
+      <div className="flex items-start">
+        {state.status === 'confirmed' ? (
+          <CheckCircle className="h-5 w-5 mt-0.5 mr-3 flex-shrink-0" />
+        ) : settled ? (
+          <AlertCircle className="h-5 w-5 mt-0.5 mr-3 flex-shrink-0" />
+        ) : (
+          <Loader2 className="h-5 w-5 mt-0.5 mr-3 flex-shrink-0 animate-spin" />
+        )}
+        <div className="flex-1 text-sm">
+          <p className="font-medium">
+            {state.label}
+            {
+              {
+                signing: ': confirm in your wallet',
+                pending: ': waiting for confirmation',
+                confirmed: ': confirmed',
+                reverted: state.status === 'reverted' && state.hash ? ': reverted' : ': would revert',
+                failed: ': failed',
+              }[state.status]
+            }
+          </p>
+          {state.status === 'reverted' && (
+            <p className="mt-1">
+              {state.error.reason}
+              <span className="ml-2 font-mono text-xs opacity-75">{state.error.code}</span>
+            </p>
+          )}
+          {state.status === 'failed' && <p className="mt-1 break-words">{state.error.message}</p>}
+          {'hash' in state && state.hash && (
+            <p className="mt-1 text-xs">
+              Transaction <TransactionLink hash={state.hash} />
+            </p>
+          )}
+        </div>
+        {settled && (
+          <button className="ml-3" title="Dismiss" onClick={onDismiss}>
+            <X className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
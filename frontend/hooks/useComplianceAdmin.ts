@@ -0,0 +1,169 @@
+'use client'
+
+import { useEffect } from 'react'
+import type { Address, Hash } from 'viem'
+import { useBlockNumber, useChainId, usePublicClient } from 'wagmi'
+import { useQuery } from '@tanstack/react-query'
+import {
+  complianceRegistryRoles,
+  type ComplianceParameters,
+  type ComplianceRoles,
+  type JurisdictionInfo,
+  type KYCProvider,
+} from '@iyield/sdk'
+import { complianceRegistryAbi, deploymentBlock, getContractAddresses } from '../lib/contracts'
+
+/** A registry event with the account that sent its transaction. */
+export interface AuditEntry {
+  eventName: string
+  args: Record<string, unknown>
+  blockNumber: bigint
+  logIndex: number
+  transactionHash: Hash
+  actor: Address
+  timestamp: bigint
+}
+
+export interface RegistryJurisdiction extends JurisdictionInfo {
+  code: bigint
+}
+
+export interface RegistryProvider extends KYCProvider {
+  address: Address
+  /** Verification fees the provider has yet to withdraw. */
+  fees: bigint
+}
+
+export interface ComplianceAdminData {
+  roles: ComplianceRoles
+  parameters: ComplianceParameters
+  /** Every account the registry has logged a compliance change for. */
+  users: Address[]
+  jurisdictions: RegistryJurisdiction[]
+  providers: RegistryProvider[]
+  /** Newest first. */
+  audit: AuditEntry[]
+}
+
+export type ComplianceAdminState =
+  | { status: 'idle' }
+  | { status: 'loading' }
+  | { status: 'not-deployed'; chainId: number }
+  | { status: 'error'; error: Error }
+  | { status: 'ready'; admin: ComplianceAdminData; blockNumber: bigint }
+
+/**
+ * Everything the compliance console shows, rebuilt from the registry's
+ * events: known users, jurisdictions and providers with their current
+ * state, and an audit trail of every change with who made it. Also reads the
+ * registry roles of `account`, which decide the actions offered. Reloaded on
+ * every new block.
+ */
+export function useComplianceAdmin(account: Address | undefined): ComplianceAdminState {
+  const chainId = useChainId()
+  const addresses = getContractAddresses(chainId)
+  const publicClient = usePublicClient({ chainId })
+  const { data: blockNumber } = useBlockNumber({ chainId, watch: true })
+
+  const enabled = !!addresses && !!publicClient && !!account
+
+  const admin = useQuery({
+    queryKey: ['compliance', 'admin', chainId, addresses?.complianceRegistry, account],
+    enabled,
+    queryFn: async (): Promise<ComplianceAdminData> => {
+      const client = publicClient!
+      const registry = { address: addresses!.complianceRegistry, abi: complianceRegistryAbi } as const
+
+      const [events, admin, complianceOfficer, jurisdictionManager, lockup, kyc, accreditation, autoRenewal] =
+        await Promise.all([
+          client.getContractEvents({ ...registry, fromBlock: deploymentBlock, toBlock: 'latest' }),
+          client.readContract({ ...registry, functionName: 'hasRole', args: [complianceRegistryRoles.admin, account!] }),
+          client.readContract({
+            ...registry,
+            functionName: 'hasRole',
+            args: [complianceRegistryRoles.complianceOfficer, account!],
+          }),
+          client.readContract({
+            ...registry,
+            functionName: 'hasRole',
+            args: [complianceRegistryRoles.jurisdictionManager, account!],
+          }),
+          client.readContract({ ...registry, functionName: 'defaultLockupPeriod' }),
+          client.readContract({ ...registry, functionName: 'kycValidityPeriod' }),
+          client.readContract({ ...registry, functionName: 'accreditationValidityPeriod' }),
+          client.readContract({ ...registry, functionName: 'autoRenewalEnabled' }),
+        ])
+
+      const users = new Set<Address>()
+      const jurisdictionCodes = new Set<bigint>()
+      const providerAddresses = new Set<Address>()
+      for (const event of events) {
+        const args = event.args as Record<string, unknown>
+        if (typeof args.user === 'string') users.add(args.user as Address)
+        if (event.eventName === 'JurisdictionUpdated') jurisdictionCodes.add(args.code as bigint)
+        if (event.eventName === 'KYCProviderRegistered') providerAddresses.add(args.provider as Address)
+      }
+
+      // Actors and times come from the transactions and blocks the events were logged in.
+      const transactionHashes = Array.from(new Set(events.map((event) => event.transactionHash)))
+      const blockNumbers = Array.from(new Set(events.map((event) => event.blockNumber)))
+      const [transactions, blocks, jurisdictions, providers] = await Promise.all([
+        Promise.all(transactionHashes.map((hash) => client.getTransaction({ hash }))),
+        Promise.all(blockNumbers.map((number) => client.getBlock({ blockNumber: number }))),
+        Promise.all(
+          Array.from(jurisdictionCodes).map(async (code) => ({
+            code,
+            ...(await client.readContract({ ...registry, functionName: 'getJurisdictionInfo', args: [code] })),
+          }))
+        ),
+        Promise.all(
+          Array.from(providerAddresses).map(async (address) => {
+            const [provider, fees] = await Promise.all([
+              client.readContract({ ...registry, functionName: 'getKYCProvider', args: [address] }),
+              client.readContract({ ...registry, functionName: 'providerFees', args: [address] }),
+            ])
+            return { address, ...provider, fees }
+          })
+        ),
+      ])
+      const actors = new Map(transactions.map((transaction) => [transaction.hash, transaction.from]))
+      const timestamps = new Map(blocks.map((block) => [block.number, block.timestamp]))
+
+      return {
+        roles: { admin, complianceOfficer, jurisdictionManager },
+        parameters: {
+          defaultLockupPeriod: lockup,
+          kycValidityPeriod: kyc,
+          accreditationValidityPeriod: accreditation,
+          autoRenewalEnabled: autoRenewal,
+        },
+        users: Array.from(users).sort(),
+        jurisdictions: jurisdictions.sort((a, b) => (a.code < b.code ? -1 : 1)),
+        providers,
+        audit: events
+          .map((event) => ({
+            eventName: event.eventName,
+            args: event.args as Record<string, unknown>,
+            blockNumber: event.blockNumber,
+            logIndex: event.logIndex,
+            transactionHash: event.transactionHash,
+            actor: actors.get(event.transactionHash)!,
+            timestamp: timestamps.get(event.blockNumber)!,
+          }))
+          .reverse(),
+      }
+    },
+  })
+
+  const { refetch } = admin
+  useEffect(() => {
+    if (blockNumber === undefined || !enabled) return
+    refetch()
+  }, [blockNumber, enabled, refetch])
+
+  if (!account) return { status: 'idle' }
+  if (!addresses) return { status: 'not-deployed', chainId }
+  if (admin.error) return { status: 'error', error: admin.error }
+  if (!admin.data || blockNumber === undefined) return { status: 'loading' }
+  return { status: 'ready', admin: admin.data, blockNumber }
+}
@@ -0,0 +1,84 @@
+'use client'
+
+import { useEffect } from 'react'
+import type { Address } from 'viem'
+import { useBlockNumber, useChainId, usePublicClient } from 'wagmi'
+import { useQuery } from '@tanstack/react-query'
+import { sortComplianceHistory, type ComplianceHistoryEntry, type ComplianceHistoryEvent } from '@iyield/sdk'
+import { complianceRegistryAbi, deploymentBlock, ercRwaCsvAbi, getContractAddresses } from '../lib/contracts'
+
+export type ComplianceHistoryState =
+  | { status: 'idle' }
+  | { status: 'loading' }
+  | { status: 'not-deployed'; chainId: number }
+  | { status: 'error'; error: Error }
+  | { status: 'ready'; history: ComplianceHistoryEntry[]; blockNumber: bigint }
+
+/**
+ * The compliance timeline of `account`, newest first: its registry events and
+ * the token's `TransferRestricted` events it sent or received. Idle without an
+ * account; reloaded on every new block.
+ */
+export function useComplianceHistory(account: Address | undefined): ComplianceHistoryState {
+  const chainId = useChainId()
+  const addresses = getContractAddresses(chainId)
+  const publicClient = usePublicClient({ chainId })
+  const { data: blockNumber } = useBlockNumber({ chainId, watch: true })
+
+  const enabled = !!addresses && !!publicClient && !!account
+
+  const history = useQuery({
+    queryKey: ['compliance', 'history', chainId, addresses?.complianceRegistry, addresses?.csvToken, account],
+    enabled,
+    queryFn: async (): Promise<ComplianceHistoryEntry[]> => {
+      const client = publicClient!
+      const { complianceRegistry, csvToken } = addresses!
+      const user = account!
+      const range = { fromBlock: deploymentBlock, toBlock: 'latest' as const }
+      const registry = { ...range, address: complianceRegistry, abi: complianceRegistryAbi, args: { user } } as const
+      const token = { ...range, address: csvToken, abi: ercRwaCsvAbi, eventName: 'TransferRestricted' } as const
+
+      const events = (
+        await Promise.all([
+          client.getContractEvents({ ...registry, eventName: 'UserKYCUpdated' }),
+          client.getContractEvents({ ...registry, eventName: 'UserAccreditationUpdated' }),
+          client.getContractEvents({ ...registry, eventName: 'UserRestricted' }),
+          client.getContractEvents({ ...registry, eventName: 'UserUnrestricted' }),
+          client.getContractEvents({ ...registry, eventName: 'LockupPeriodUpdated' }),
+          client.getContractEvents({ ...token, args: { from: user } }),
+          client.getContractEvents({ ...token, args: { to: user } }),
+        ])
+      ).flat()
+
+      // A restricted transfer to oneself matches both token queries.
+      const unique = new Map(events.map((event) => [`${event.transactionHash}-${event.logIndex}`, event]))
+      const blockNumbers = Array.from(new Set(events.map((event) => event.blockNumber)))
+      const blocks = await Promise.all(blockNumbers.map((number) => client.getBlock({ blockNumber: number })))
+      const timestamps = new Map(blocks.map((block) => [block.number, block.timestamp]))
+
+      return sortComplianceHistory(
+        Array.from(unique.values()).map((event) => ({
+          event: event.eventName as ComplianceHistoryEvent,
+          contract: event.address,
+          args: event.args as Record<string, unknown>,
+          blockNumber: event.blockNumber,
+          logIndex: event.logIndex,
+          transactionHash: event.transactionHash,
+          timestamp: timestamps.get(event.blockNumber)!,
+        }))
+      )
+    },
+  })
+
+  const { refetch } = history
+  useEffect(() => {
+    if (blockNumber === undefined || !enabled) return
+    refetch()
+  }, [blockNumber, enabled, refetch])
+
+  if (!account) return { status: 'idle' }
+  if (!addresses) return { status: 'not-deployed', chainId }
+  if (history.error) return { status: 'error', error: history.error }
+  if (!history.data || blockNumber === undefined) return { status: 'loading' }
+  return { status: 'ready', history: history.data, blockNumber }
+}
@@ -0,0 +1,81 @@
+'use client'
+
+import { useEffect } from 'react'
+import type { Address } from 'viem'
+import { useBlockNumber, useChainId, usePublicClient } from 'wagmi'
+import { useQuery } from '@tanstack/react-query'
+import { renewalReminders, type ComplianceStatus, type RenewalReminder } from '@iyield/sdk'
+import { complianceRegistryAbi, getContractAddresses } from '../lib/contracts'
+
+export interface AccountCompliance {
+  status: ComplianceStatus
+  /** Name of the account's jurisdiction; empty when it has none. */
+  jurisdictionName: string
+  isCompliant: boolean
+  /** Timestamp of the block the status was read at, which expiries are compared to. */
+  timestamp: bigint
+  reminders: RenewalReminder[]
+}
+
+export type ComplianceStatusState =
+  | { status: 'idle' }
+  | { status: 'loading' }
+  | { status: 'not-deployed'; chainId: number }
+  | { status: 'error'; error: Error }
+  | { status: 'ready'; compliance: AccountCompliance; blockNumber: bigint }
+
+/**
+ * The registry's compliance record of `account` with renewal reminders for
+ * KYC and accreditation that expire within 30 days. Idle without an account;
+ * reloaded on every new block.
+ */
+export function useComplianceStatus(account: Address | undefined): ComplianceStatusState {
+  const chainId = useChainId()
+  const addresses = getContractAddresses(chainId)
+  const publicClient = usePublicClient({ chainId })
+  const { data: blockNumber } = useBlockNumber({ chainId, watch: true })
+
+  const enabled = !!addresses && !!publicClient && !!account
+
+  const compliance = useQuery({
+    queryKey: ['compliance', 'status', chainId, addresses?.complianceRegistry, account],
+    enabled,
+    queryFn: async (): Promise<AccountCompliance> => {
+      const client = publicClient!
+      const registry = { address: addresses!.complianceRegistry, abi: complianceRegistryAbi } as const
+      const block = await client.getBlock()
+      const [status, isCompliant] = await Promise.all([
+        client.readContract({ ...registry, functionName: 'getComplianceStatus', args: [account!], blockNumber: block.number }),
+        client.readContract({ ...registry, functionName: 'isCompliant', args: [account!], blockNumber: block.number }),
+      ])
+      const jurisdiction =
+        status.jurisdictionCode > BigInt(0)
+          ? await client.readContract({
+              ...registry,
+              functionName: 'getJurisdictionInfo',
+              args: [status.jurisdictionCode],
+              blockNumber: block.number,
+            })
+          : undefined
+      return {
+        status,
+        jurisdictionName: jurisdiction?.jurisdictionName ?? '',
+        isCompliant,
+        timestamp: block.timestamp,
+        reminders: renewalReminders(status, block.timestamp),
+      }
+    },
+  })
+
+  const { refetch } = compliance
+  useEffect(() => {
+    if (blockNumber === undefined || !enabled) return
+    refetch()
+  }, [blockNumber, enabled, refetch])
+
+  if (!account) return { status: 'idle' }
+  if (!addresses) return { status: 'not-deployed', chainId }
+  if (compliance.error) return { status: 'error', error: compliance.error }
+  if (!compliance.data || blockNumber === undefined) return { status: 'loading' }
+  return { status: 'ready', compliance: compliance.data, blockNumber }
+}
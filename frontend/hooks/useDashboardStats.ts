@@ -0,0 +1,248 @@
+'use client'
+
+import { useEffect, useMemo } from 'react'
+import { useBlockNumber, useChainId, usePublicClient, useReadContract, useReadContracts } from 'wagmi'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { formatUnits } from 'viem'
+import {
+  BASIS_POINTS,
+  CSV_DECIMALS,
+  complianceRegistryAbi,
+  csvOracleAbi,
+  csvVaultAbi,
+  deploymentBlock,
+  erc20Abi,
+  getContractAddresses,
+  liquidityPoolAbi,
+} from '../lib/contracts'
+
+export type OracleStatus = 'operational' | 'warning' | 'error'
+
+export interface DashboardStats {
+  totalValueLocked: number
+  totalCollateralValue: number
+  totalDebt: number
+  poolUtilization: number
+  activeVaults: number
+  totalUsers: number
+  restrictedUsers: number
+  yieldGenerated: number
+  yieldDistributions: number
+  activeOracles: number
+  minOracles: number
+  maxOracles: number
+  oracleStatus: OracleStatus
+  complianceRate: number | null
+}
+
+export type DashboardState =
+  | { status: 'loading' }
+  | { status: 'not-deployed'; chainId: number }
+  | { status: 'disconnected'; error: Error }
+  | { status: 'error'; error: Error }
+  | { status: 'ready'; stats: DashboardStats; blockNumber: bigint }
+
+/** Sum of the pool's yield distributions read so far. */
+interface YieldTotals {
+  distributions: number
+  totalYield: bigint
+}
+
+/** Open vaults counted from the vault's events up to `scannedBlock`. */
+interface VaultCount {
+  count: number
+  scannedBlock: bigint
+}
+
+function getOracleStatus(activeOracles: number, minOracles: number): OracleStatus {
+  if (activeOracles === 0) return 'error'
+  if (activeOracles < minOracles) return 'warning'
+  return 'operational'
+}
+
+/**
+ * Live protocol statistics for the dashboard, re-read on every new block.
+ * The yield history and vault events are read incrementally: each refresh
+ * only fetches the distributions and blocks added since the last one.
+ */
+export function useDashboardStats(): DashboardState {
+  const chainId = useChainId()
+  const addresses = getContractAddresses(chainId)
+  const publicClient = usePublicClient({ chainId })
+  const queryClient = useQueryClient()
+
+  const { data: blockNumber, error: blockError } = useBlockNumber({ chainId, watch: true })
+
+  const enabled = !!addresses && !blockError
+
+  const vault = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { address: addresses?.csvVault, abi: csvVaultAbi, functionName: 'totalCollateralValue' },
+      { address: addresses?.csvVault, abi: csvVaultAbi, functionName: 'totalDebt' },
+    ] as const,
+    query: { enabled },
+  })
+
+  const pool = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { address: addresses?.liquidityPool, abi: liquidityPoolAbi, functionName: 'totalPoolValue' },
+      { address: addresses?.liquidityPool, abi: liquidityPoolAbi, functionName: 'getPoolUtilization' },
+      { address: addresses?.liquidityPool, abi: liquidityPoolAbi, functionName: 'getYieldHistoryLength' },
+      { address: addresses?.liquidityPool, abi: liquidityPoolAbi, functionName: 'baseToken' },
+    ] as const,
+    query: { enabled },
+  })
+
+  const oracle = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { address: addresses?.csvOracle, abi: csvOracleAbi, functionName: 'getActiveOracleCount' },
+      { address: addresses?.csvOracle, abi: csvOracleAbi, functionName: 'consensusConfig' },
+    ] as const,
+    query: { enabled },
+  })
+
+  const compliance = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { address: addresses?.complianceRegistry, abi: complianceRegistryAbi, functionName: 'totalVerifiedUsers' },
+      { address: addresses?.complianceRegistry, abi: complianceRegistryAbi, functionName: 'totalRestrictedUsers' },
+    ] as const,
+    query: { enabled },
+  })
+
+  const yieldHistoryLength = pool.data?.[2]
+  const baseToken = pool.data?.[3]
+
+  const baseDecimals = useReadContract({
+    address: baseToken,
+    abi: erc20Abi,
+    functionName: 'decimals',
+    query: { enabled: enabled && !!baseToken },
+  })
+
+  // Distributions are append-only, so only the ones past the cached totals are read
+  const yieldHistoryKey = ['dashboard', 'yieldHistory', chainId, addresses?.liquidityPool]
+  const yieldHistory = useQuery({
+    queryKey: yieldHistoryKey,
+    enabled: enabled && !!publicClient && yieldHistoryLength !== undefined,
+    queryFn: async (): Promise<YieldTotals> => {
+      const length = Number(yieldHistoryLength)
+      const cached = queryClient.getQueryData<YieldTotals>(yieldHistoryKey)
+      const known = cached && cached.distributions <= length ? cached : { distributions: 0, totalYield: BigInt(0) }
+      const added = await Promise.all(
+        Array.from({ length: length - known.distributions }, (_, offset) =>
+          publicClient!.readContract({
+            address: addresses!.liquidityPool,
+            abi: liquidityPoolAbi,
+            functionName: 'getYieldHistory',
+            args: [BigInt(known.distributions + offset)],
+          })
+        )
+      )
+      return {
+        distributions: length,
+        totalYield: added.reduce((sum, distribution) => sum + distribution.totalYield, known.totalYield),
+      }
+    },
+  })
+
+  // The vault keeps no counter of open positions, so it is derived from its lifecycle events,
+  // scanning only the blocks since the last count.
+  const activeVaultsKey = ['dashboard', 'activeVaults', chainId, addresses?.csvVault]
+  const activeVaults = useQuery({
+    queryKey: activeVaultsKey,
+    enabled: enabled && !!publicClient && blockNumber !== undefined,
+    queryFn: async (): Promise<VaultCount> => {
+      const toBlock = blockNumber!
+      const cached = queryClient.getQueryData<VaultCount>(activeVaultsKey)
+      const known =
+        cached && cached.scannedBlock <= toBlock ? cached : { count: 0, scannedBlock: deploymentBlock - BigInt(1) }
+      if (known.scannedBlock === toBlock) return known
+
+      const range = { address: addresses!.csvVault, fromBlock: known.scannedBlock + BigInt(1), toBlock }
+      const [opened, closed, liquidated] = await Promise.all([
+        publicClient!.getContractEvents({ ...range, abi: csvVaultAbi, eventName: 'VaultOpened' }),
+        publicClient!.getContractEvents({ ...range, abi: csvVaultAbi, eventName: 'VaultClosed' }),
+        publicClient!.getContractEvents({ ...range, abi: csvVaultAbi, eventName: 'VaultLiquidated' }),
+      ])
+      return { count: known.count + opened.length - closed.length - liquidated.length, scannedBlock: toBlock }
+    },
+  })
+
+  const { refetch: refetchVault } = vault
+  const { refetch: refetchPool } = pool
+  const { refetch: refetchOracle } = oracle
+  const { refetch: refetchCompliance } = compliance
+  const { refetch: refetchActiveVaults } = activeVaults
+  const { refetch: refetchYieldHistory } = yieldHistory
+
+  useEffect(() => {
+    if (blockNumber === undefined || !enabled) return
+    refetchVault()
+    refetchPool()
+    refetchOracle()
+    refetchCompliance()
+    refetchActiveVaults()
+  }, [blockNumber, enabled, refetchVault, refetchPool, refetchOracle, refetchCompliance, refetchActiveVaults])
+
+  // A new distribution shows up as a longer history
+  useEffect(() => {
+    if (yieldHistoryLength === undefined || !enabled) return
+    refetchYieldHistory()
+  }, [yieldHistoryLength, enabled, refetchYieldHistory])
+
+  const reads = [vault, pool, oracle, compliance, baseDecimals, yieldHistory, activeVaults]
+
+  const stats = useMemo<DashboardStats | undefined>(() => {
+    if (
+      !vault.data ||
+      !pool.data ||
+      !oracle.data ||
+      !compliance.data ||
+      baseDecimals.data === undefined ||
+      !yieldHistory.data ||
+      activeVaults.data === undefined
+    ) {
+      return undefined
+    }
+
+    const [totalCollateralValue, totalDebt] = vault.data
+    const [totalPoolValue, poolUtilization] = pool.data
+    const [activeOracleCount, [minOracles, maxOracles]] = oracle.data
+    const [totalVerifiedUsers, totalRestrictedUsers] = compliance.data
+
+    const collateral = Number(formatUnits(totalCollateralValue, CSV_DECIMALS))
+    const poolValue = Number(formatUnits(totalPoolValue, baseDecimals.data))
+    const verified = Number(totalVerifiedUsers)
+    const restricted = Number(totalRestrictedUsers)
+
+    return {
+      totalValueLocked: collateral + poolValue,
+      totalCollateralValue: collateral,
+      totalDebt: Number(formatUnits(totalDebt, CSV_DECIMALS)),
+      poolUtilization: (Number(poolUtilization) / BASIS_POINTS) * 100,
+      activeVaults: activeVaults.data.count,
+      totalUsers: verified,
+      restrictedUsers: restricted,
+      yieldGenerated: Number(formatUnits(yieldHistory.data.totalYield, baseDecimals.data)),
+      yieldDistributions: yieldHistory.data.distributions,
+      activeOracles: Number(activeOracleCount),
+      minOracles: Number(minOracles),
+      maxOracles: Number(maxOracles),
+      oracleStatus: getOracleStatus(Number(activeOracleCount), Number(minOracles)),
+      complianceRate: verified > 0 ? ((verified - restricted) / verified) * 100 : null,
+    }
+  }, [vault.data, pool.data, oracle.data, compliance.data, baseDecimals.data, yieldHistory.data, activeVaults.data])
+
+  if (!addresses) return { status: 'not-deployed', chainId }
+  if (blockError) return { status: 'disconnected', error: blockError }
+
+  const error = reads.find((read) => read.error)?.error
+  if (error) return { status: 'error', error }
+
+  if (!stats || blockNumber === undefined) return { status: 'loading' }
+  return { status: 'ready', stats, blockNumber }
+}
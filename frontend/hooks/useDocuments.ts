@@ -0,0 +1,91 @@
+'use client'
+
+import { useCallback, useMemo, useState } from 'react'
+import { bytesToHex, type Address } from 'viem'
+import { useSignMessage } from 'wagmi'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { documentUploadMessage, type ComplianceDocument, type DocumentKind } from '@iyield/sdk'
+import { documentsApiUrl } from '../lib/contracts'
+
+export type DocumentsState =
+  | { status: 'idle' }
+  | { status: 'not-configured' }
+  | { status: 'loading' }
+  | { status: 'error'; error: Error }
+  | { status: 'ready'; documents: ComplianceDocument[] }
+
+export type UploadState =
+  | { status: 'idle' }
+  | { status: 'signing' | 'uploading'; filename: string }
+  | { status: 'uploaded'; document: ComplianceDocument }
+  | { status: 'failed'; filename: string; error: Error }
+
+async function readError(response: Response): Promise<Error> {
+  const body = await response.json().catch(() => undefined)
+  return new Error(body?.error ?? `Document service responded ${response.status}`)
+}
+
+/**
+ * An investor's compliance documents from the document service, and uploads:
+ * the file is hashed in the browser and the wallet signs the hash so the
+ * service can tell the upload came from the owner. Polled while any document
+ * is pending review.
+ */
+export function useDocuments(owner: Address | undefined) {
+  const queryClient = useQueryClient()
+  const { signMessageAsync } = useSignMessage()
+  const [upload, setUpload] = useState<UploadState>({ status: 'idle' })
+  const queryKey = useMemo(() => ['compliance', 'documents', documentsApiUrl, owner], [owner])
+
+  const documents = useQuery({
+    queryKey,
+    enabled: !!documentsApiUrl && !!owner,
+    queryFn: async (): Promise<ComplianceDocument[]> => {
+      const response = await fetch(`${documentsApiUrl}/api/v1/documents?owner=${owner}`)
+      if (!response.ok) throw await readError(response)
+      return response.json()
+    },
+    refetchInterval: (query) => (query.state.data?.some(({ status }) => status === 'pending') ? 15_000 : false),
+  })
+
+  const submit = useCallback(
+    async (kind: DocumentKind, file: File): Promise<boolean> => {
+      if (!documentsApiUrl || !owner) return false
+      try {
+        setUpload({ status: 'signing', filename: file.name })
+        const content = new Uint8Array(await file.arrayBuffer())
+        const sha256 = bytesToHex(new Uint8Array(await crypto.subtle.digest('SHA-256', content)))
+        const signature = await signMessageAsync({ message: documentUploadMessage({ owner, kind, sha256 }) })
+
+        setUpload({ status: 'uploading', filename: file.name })
+        const query = new URLSearchParams({ owner, kind, filename: file.name })
+        const response = await fetch(`${documentsApiUrl}/api/v1/documents?${query}`, {
+          method: 'POST',
+          headers: { 'content-type': file.type || 'application/octet-stream', 'x-signature': signature },
+          body: content,
+        })
+        if (!response.ok) throw await readError(response)
+
+        setUpload({ status: 'uploaded', document: await response.json() })
+        await queryClient.invalidateQueries({ queryKey })
+        return true
+      } catch (error) {
+        setUpload({ status: 'failed', filename: file.name, error: error as Error })
+        return false
+      }
+    },
+    [owner, signMessageAsync, queryClient, queryKey]
+  )
+
+  const state: DocumentsState = !owner
+    ? { status: 'idle' }
+    : !documentsApiUrl
+      ? { status: 'not-configured' }
+      : documents.error
+        ? { status: 'error', error: documents.error }
+        : !documents.data
+          ? { status: 'loading' }
+          : { status: 'ready', documents: documents.data }
+
+  return { state, upload, submit }
+}
@@ -0,0 +1,278 @@
+'use client'
+
+import { useEffect } from 'react'
+import { useAccount, useBlock, useChainId, usePublicClient } from 'wagmi'
+import { useQuery } from '@tanstack/react-query'
+import type { Address, Hash } from 'viem'
+import {
+  TrancheType,
+  type LossRecord,
+  type PoolConfig,
+  type TrancheInfo,
+  type UserPosition,
+  type WithdrawalRequest,
+} from '@iyield/sdk'
+import { deploymentBlock, erc20Abi, ercRwaCsvAbi, getContractAddresses, liquidityPoolAbi } from '../lib/contracts'
+
+export const TRANCHES = [TrancheType.SENIOR, TrancheType.JUNIOR] as const
+
+export interface BaseToken {
+  address: Address
+  symbol: string
+  decimals: number
+}
+
+export type PoolActivityKind = 'deposit' | 'withdrawal' | 'yield-claim' | 'yield-compound'
+
+export interface PoolActivity {
+  kind: PoolActivityKind
+  tranche: TrancheType
+  /** Base-token amount moved; for withdrawals, claims and compounds this is net of fees. */
+  amount: bigint
+  blockNumber: bigint
+  transactionHash: Hash
+}
+
+export interface LiquidityAccount {
+  address: Address
+  balance: bigint
+  /** Base-token allowance held by the pool. */
+  allowance: bigint
+  isKYCVerified: boolean
+  isAccredited: boolean
+  positions: Record<TrancheType, UserPosition>
+  activity: PoolActivity[]
+}
+
+/** Fills of the withdrawal queue this many back are used to estimate when new requests fill. */
+const RECENT_FILLS = 50
+
+export interface WithdrawalQueue {
+  /** Open requests of each tranche in the order they fill; the senior queue fills first. */
+  requests: Record<TrancheType, WithdrawalRequest[]>
+  /** Liquidity paid to the queue by recent fills, over `period` seconds up to now. */
+  filledValue: bigint
+  period: bigint
+}
+
+export interface LiquidityPoolData {
+  address: Address
+  baseToken: BaseToken
+  config: PoolConfig
+  totalPoolValue: bigint
+  /** Share of the pool lent out, in basis points. */
+  utilization: bigint
+  tranches: Record<TrancheType, TrancheInfo>
+  /** Junior deposits as a share of the pool's capital, in basis points. */
+  subordination: bigint
+  /** Losses written down so far, newest first. */
+  losses: LossRecord[]
+  /** Unix timestamp until which withdrawals are suspended after the latest loss. */
+  impairedUntil: bigint
+  /** Pool value that can be withdrawn now; larger withdrawals have to be queued. */
+  availableLiquidity: bigint
+  withdrawalQueue: WithdrawalQueue
+  /** Present while a wallet is connected. */
+  account?: LiquidityAccount
+}
+
+export type LiquidityPoolState =
+  | { status: 'loading' }
+  | { status: 'not-deployed'; chainId: number }
+  | { status: 'error'; error: Error }
+  | { status: 'ready'; pool: LiquidityPoolData; blockNumber: bigint; timestamp: bigint }
+
+/**
+ * The pool's tranches and, when a wallet is connected, the account's
+ * positions, base-token balance, allowance and pool history. Reloaded on every
+ * new block; the block timestamp is returned so lockups can be measured
+ * against chain time.
+ */
+export function useLiquidityPool(): LiquidityPoolState {
+  const chainId = useChainId()
+  const addresses = getContractAddresses(chainId)
+  const publicClient = usePublicClient({ chainId })
+  const { address: account } = useAccount()
+  const { data: block } = useBlock({ chainId, watch: true })
+
+  const enabled = !!addresses && !!publicClient
+
+  const pool = useQuery({
+    queryKey: ['liquidity', 'pool', chainId, addresses?.liquidityPool],
+    enabled,
+    queryFn: async () => {
+      const client = publicClient!
+      const address = addresses!.liquidityPool
+      const read = { address, abi: liquidityPoolAbi } as const
+
+      const [
+        baseToken,
+        config,
+        totalPoolValue,
+        utilization,
+        senior,
+        junior,
+        subordination,
+        impairedUntil,
+        lossCount,
+        availableLiquidity,
+        seniorQueue,
+        juniorQueue,
+        fills,
+      ] = await Promise.all([
+          client.readContract({ ...read, functionName: 'baseToken' }),
+          client.readContract({ ...read, functionName: 'poolConfig' }),
+          client.readContract({ ...read, functionName: 'totalPoolValue' }),
+          client.readContract({ ...read, functionName: 'getPoolUtilization' }),
+          client.readContract({ ...read, functionName: 'getTrancheInfo', args: [TrancheType.SENIOR] }),
+          client.readContract({ ...read, functionName: 'getTrancheInfo', args: [TrancheType.JUNIOR] }),
+          client.readContract({ ...read, functionName: 'getSubordination' }),
+          client.readContract({ ...read, functionName: 'impairedUntil' }),
+          client.readContract({ ...read, functionName: 'getLossHistoryLength' }),
+          client.readContract({ ...read, functionName: 'availableLiquidity' }),
+          client.readContract({ ...read, functionName: 'getWithdrawalQueue', args: [TrancheType.SENIOR] }),
+          client.readContract({ ...read, functionName: 'getWithdrawalQueue', args: [TrancheType.JUNIOR] }),
+          client.getContractEvents({ ...read, eventName: 'WithdrawalFilled', fromBlock: deploymentBlock, toBlock: 'latest' }),
+        ])
+      const openRequests = async (tranche: TrancheType, [head, length]: typeof seniorQueue) => {
+        const requests = await Promise.all(
+          Array.from({ length: Number(length - head) }, async (_, index) => {
+            const requestId = head + BigInt(index)
+            const request = await client.readContract({ ...read, functionName: 'getWithdrawalRequest', args: [tranche, requestId] })
+            return { requestId, ...request } satisfies WithdrawalRequest
+          })
+        )
+        return requests.filter((request) => !request.cancelled && request.filled < request.shares)
+      }
+      const recentFills = fills.slice(-RECENT_FILLS)
+
+      const [symbol, decimals, losses, seniorRequests, juniorRequests, latest, oldestFill] = await Promise.all([
+        client.readContract({ address: baseToken, abi: erc20Abi, functionName: 'symbol' }),
+        client.readContract({ address: baseToken, abi: erc20Abi, functionName: 'decimals' }),
+        Promise.all(
+          Array.from({ length: Number(lossCount) }, (_, index) =>
+            client.readContract({ ...read, functionName: 'getLossHistory', args: [BigInt(index)] })
+          )
+        ),
+        openRequests(TrancheType.SENIOR, seniorQueue),
+        openRequests(TrancheType.JUNIOR, juniorQueue),
+        client.getBlock(),
+        recentFills.length ? client.getBlock({ blockNumber: recentFills[0].blockNumber }) : undefined,
+      ])
+
+      const [seniorYieldRate, juniorYieldRate, protocolFeeRate, performanceFeeRate, withdrawalFeeRate, maxUtilization] =
+        config
+      const trancheInfo = ([totalDeposits, totalShares, yieldRate, priority, minDeposit, lockupPeriod, isActive]: typeof senior) =>
+        ({ totalDeposits, totalShares, yieldRate, priority, minDeposit, lockupPeriod, isActive }) satisfies TrancheInfo
+
+      return {
+        address,
+        baseToken: { address: baseToken, symbol, decimals },
+        config: { seniorYieldRate, juniorYieldRate, protocolFeeRate, performanceFeeRate, withdrawalFeeRate, maxUtilization },
+        totalPoolValue,
+        utilization,
+        tranches: { [TrancheType.SENIOR]: trancheInfo(senior), [TrancheType.JUNIOR]: trancheInfo(junior) },
+        subordination,
+        losses: [...losses].reverse(),
+        impairedUntil,
+        availableLiquidity,
+        withdrawalQueue: {
+          requests: { [TrancheType.SENIOR]: seniorRequests, [TrancheType.JUNIOR]: juniorRequests },
+          filledValue: recentFills.reduce((sum, fill) => sum + fill.args.value!, BigInt(0)),
+          period: oldestFill ? latest.timestamp - oldestFill.timestamp : BigInt(0),
+        },
+      } satisfies LiquidityPoolData
+    },
+  })
+
+  const baseToken = pool.data?.baseToken.address
+  const accountEnabled = enabled && !!account && !!baseToken
+
+  const accountData = useQuery({
+    queryKey: ['liquidity', 'account', chainId, addresses?.liquidityPool, account, baseToken],
+    enabled: accountEnabled,
+    queryFn: async (): Promise<LiquidityAccount> => {
+      const client = publicClient!
+      const { liquidityPool, csvToken } = addresses!
+      const user = account!
+      const read = { address: liquidityPool, abi: liquidityPoolAbi } as const
+      const range = { ...read, args: { user }, fromBlock: deploymentBlock, toBlock: 'latest' as const }
+
+      const [balance, allowance, compliance, senior, junior, deposits, withdrawals, claims, compounds] = await Promise.all([
+        client.readContract({ address: baseToken!, abi: erc20Abi, functionName: 'balanceOf', args: [user] }),
+        client.readContract({ address: baseToken!, abi: erc20Abi, functionName: 'allowance', args: [user, liquidityPool] }),
+        client.readContract({ address: csvToken, abi: ercRwaCsvAbi, functionName: 'getComplianceData', args: [user] }),
+        client.readContract({ ...read, functionName: 'getUserPosition', args: [TrancheType.SENIOR, user] }),
+        client.readContract({ ...read, functionName: 'getUserPosition', args: [TrancheType.JUNIOR, user] }),
+        client.getContractEvents({ ...range, eventName: 'TrancheDeposit' }),
+        client.getContractEvents({ ...range, eventName: 'TrancheWithdrawal' }),
+        client.getContractEvents({ ...range, eventName: 'YieldClaimed' }),
+        client.getContractEvents({ ...range, eventName: 'YieldCompounded' }),
+      ])
+
+      const userPosition = ([
+        shares,
+        deposits,
+        currentValue,
+        depositTimestamp,
+        lockupExpiry,
+        claimableYield,
+        compoundedYield,
+      ]: typeof senior) =>
+        ({ shares, deposits, currentValue, depositTimestamp, lockupExpiry, claimableYield, compoundedYield }) satisfies UserPosition
+      const activity = (
+        kind: PoolActivityKind,
+        events: { args: { tranche?: number; amount?: bigint }; blockNumber: bigint; transactionHash: Hash; logIndex: number }[]
+      ) =>
+        events.map((event) => ({
+          kind,
+          tranche: event.args.tranche as TrancheType,
+          amount: event.args.amount!,
+          blockNumber: event.blockNumber,
+          transactionHash: event.transactionHash,
+          logIndex: event.logIndex,
+        }))
+
+      return {
+        address: user,
+        balance,
+        allowance,
+        isKYCVerified: compliance.isKYCVerified,
+        isAccredited: compliance.isAccredited,
+        positions: { [TrancheType.SENIOR]: userPosition(senior), [TrancheType.JUNIOR]: userPosition(junior) },
+        // Newest first.
+        activity: [
+          ...activity('deposit', deposits),
+          ...activity('withdrawal', withdrawals),
+          ...activity('yield-claim', claims),
+          ...activity('yield-compound', compounds),
+        ]
+          .sort((a, b) => (a.blockNumber === b.blockNumber ? b.logIndex - a.logIndex : Number(b.blockNumber - a.blockNumber)))
+          .map(({ logIndex, ...entry }) => entry),
+      }
+    },
+  })
+
+  const blockNumber = block?.number
+  const { refetch: refetchPool } = pool
+  const { refetch: refetchAccount } = accountData
+  useEffect(() => {
+    if (blockNumber === undefined || !enabled) return
+    refetchPool()
+    if (accountEnabled) refetchAccount()
+  }, [blockNumber, enabled, accountEnabled, refetchPool, refetchAccount])
+
+  if (!addresses) return { status: 'not-deployed', chainId }
+  const error = pool.error ?? accountData.error
+  if (error) return { status: 'error', error }
+  if (!pool.data || !block || block.number === null) return { status: 'loading' }
+  // Without the account's data the page would briefly show a connected wallet with no positions.
+  if (account && !accountData.data) return { status: 'loading' }
+
+  return {
+    status: 'ready',
+    pool: { ...pool.data, account: account ? accountData.data : undefined },
+    blockNumber: block.number,
+    timestamp: block.timestamp,
+  }
+}
@@ -0,0 +1,94 @@
+'use client'
+
+import { useEffect } from 'react'
+import type { Address } from 'viem'
+import { useBlockNumber, useChainId, usePublicClient } from 'wagmi'
+import { useQuery } from '@tanstack/react-query'
+import { DisputeStatus } from '@iyield/sdk'
+import { csvOracleAbi, deploymentBlock, getContractAddresses } from '../lib/contracts'
+
+export interface OpenDispute {
+  requestId: bigint
+  policyNumber: string
+  /** Finalized value the dispute challenges. */
+  disputedValue: bigint
+  responseCount: bigint
+  disputer: Address
+  bond: bigint
+  reason: string
+  raisedAt: bigint
+}
+
+export type OracleDisputesState =
+  | { status: 'loading' }
+  | { status: 'not-deployed'; chainId: number }
+  | { status: 'error'; error: Error }
+  | { status: 'ready'; disputes: OpenDispute[]; blockNumber: bigint }
+
+/**
+ * Valuation disputes awaiting arbitration, oldest first, found from
+ * `DisputeRaised` events and filtered on their current status. Reloaded on
+ * every new block.
+ */
+export function useOracleDisputes(): OracleDisputesState {
+  const chainId = useChainId()
+  const addresses = getContractAddresses(chainId)
+  const publicClient = usePublicClient({ chainId })
+  const { data: blockNumber } = useBlockNumber({ chainId, watch: true })
+
+  const disputes = useQuery({
+    queryKey: ['risk', 'oracleDisputes', chainId, addresses?.csvOracle],
+    enabled: !!addresses && !!publicClient,
+    queryFn: async (): Promise<OpenDispute[]> => {
+      const client = publicClient!
+      const { csvOracle } = addresses!
+
+      const raised = await client.getContractEvents({
+        address: csvOracle,
+        abi: csvOracleAbi,
+        eventName: 'DisputeRaised',
+        fromBlock: deploymentBlock,
+        toBlock: 'latest',
+      })
+      const loaded = await Promise.all(
+        raised.map(async (event) => {
+          const requestId = event.args.requestId!
+          const [dispute, request] = await Promise.all([
+            client.readContract({ address: csvOracle, abi: csvOracleAbi, functionName: 'getDispute', args: [requestId] }),
+            client.readContract({
+              address: csvOracle,
+              abi: csvOracleAbi,
+              functionName: 'getValuationRequest',
+              args: [requestId],
+            }),
+          ])
+          return { requestId, dispute, request }
+        })
+      )
+
+      return loaded
+        .filter(({ dispute }) => dispute.status === DisputeStatus.OPEN)
+        .map(({ requestId, dispute, request }) => ({
+          requestId,
+          policyNumber: request.policyNumber,
+          disputedValue: request.agreedValue,
+          responseCount: request.responseCount,
+          disputer: dispute.disputer,
+          bond: dispute.bond,
+          reason: dispute.reason,
+          raisedAt: dispute.raisedAt,
+        }))
+    },
+  })
+
+  const { refetch } = disputes
+  useEffect(() => {
+    if (blockNumber === undefined || !addresses) return
+    refetch()
+  }, [blockNumber, addresses, refetch])
+
+  if (!addresses) return { status: 'not-deployed', chainId }
+  if (disputes.error) return { status: 'error', error: disputes.error }
+  if (!disputes.data || blockNumber === undefined) return { status: 'loading' }
+  return { status: 'ready', disputes: disputes.data, blockNumber }
+}
@@ -0,0 +1,97 @@
+'use client'
+
+import { useEffect } from 'react'
+import type { Address } from 'viem'
+import { useBlock, useChainId, usePublicClient } from 'wagmi'
+import { useQuery } from '@tanstack/react-query'
+import type { OracleInfo, Unbonding } from '@iyield/sdk'
+import { csvOracleAbi, getContractAddresses } from '../lib/contracts'
+
+export interface OracleOperator extends OracleInfo {
+  address: Address
+  unbonding: Unbonding
+  /** Deregistered for low reputation and waiting for an oracle manager to approve remediation. */
+  needsRemediation: boolean
+}
+
+export interface OracleOperatorsData {
+  /** `CSVOracle` address, which operators stake with. */
+  address: Address
+  operators: OracleOperator[]
+  /** Seconds unbonding stake stays slashable before it can be withdrawn. */
+  unbondingPeriod: bigint
+  disputePeriod: bigint
+  /** Bonded and unbonding stake across all operators. */
+  totalStaked: bigint
+}
+
+export type OracleOperatorsState =
+  | { status: 'loading' }
+  | { status: 'not-deployed'; chainId: number }
+  | { status: 'error'; error: Error }
+  | { status: 'ready'; data: OracleOperatorsData; blockNumber: bigint; timestamp: bigint }
+
+/**
+ * Every registered oracle operator with its stake, reputation and pending
+ * unbond, active operators first and then by bonded stake. Reloaded on every
+ * new block; the block timestamp is returned so unbonding can be measured
+ * against chain time.
+ */
+export function useOracleOperators(): OracleOperatorsState {
+  const chainId = useChainId()
+  const addresses = getContractAddresses(chainId)
+  const publicClient = usePublicClient({ chainId })
+  const { data: block } = useBlock({ chainId, watch: true })
+
+  const enabled = !!addresses && !!publicClient
+
+  const operators = useQuery({
+    queryKey: ['oracles', 'operators', chainId, addresses?.csvOracle],
+    enabled,
+    queryFn: async (): Promise<OracleOperatorsData> => {
+      const client = publicClient!
+      const read = { address: addresses!.csvOracle, abi: csvOracleAbi } as const
+
+      const [registered, unbondingPeriod, consensusConfig, totalStaked] = await Promise.all([
+        client.readContract({ ...read, functionName: 'getRegisteredOracles' }),
+        client.readContract({ ...read, functionName: 'unbondingPeriod' }),
+        client.readContract({ ...read, functionName: 'consensusConfig' }),
+        client.readContract({ ...read, functionName: 'totalStaked' }),
+      ])
+      const loaded = await Promise.all(
+        registered.map(async (address): Promise<OracleOperator> => {
+          const [info, [amount, availableAt], needsRemediation] = await Promise.all([
+            client.readContract({ ...read, functionName: 'getOracleInfo', args: [address] }),
+            client.readContract({ ...read, functionName: 'unbondings', args: [address] }),
+            client.readContract({ ...read, functionName: 'needsRemediation', args: [address] }),
+          ])
+          return { ...info, address, unbonding: { amount, availableAt }, needsRemediation }
+        })
+      )
+
+      return {
+        address: read.address,
+        operators: loaded.sort((a, b) =>
+          a.isActive !== b.isActive
+            ? Number(b.isActive) - Number(a.isActive)
+            : Number(b.stakingAmount > a.stakingAmount) - Number(a.stakingAmount > b.stakingAmount)
+        ),
+        unbondingPeriod,
+        disputePeriod: consensusConfig[3],
+        totalStaked,
+      }
+    },
+  })
+
+  const blockNumber = block?.number
+  const { refetch } = operators
+  useEffect(() => {
+    if (blockNumber === undefined || !enabled) return
+    refetch()
+  }, [blockNumber, enabled, refetch])
+
+  if (!addresses) return { status: 'not-deployed', chainId }
+  if (operators.error) return { status: 'error', error: operators.error }
+  if (!operators.data || !block || block.number === null) return { status: 'loading' }
+  return { status: 'ready', data: operators.data, blockNumber: block.number, timestamp: block.timestamp }
+}
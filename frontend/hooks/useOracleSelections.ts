@@ -0,0 +1,128 @@
+'use client'
+
+import { useEffect } from 'react'
+import type { Address } from 'viem'
+import { useBlockNumber, useChainId, usePublicClient } from 'wagmi'
+import { useQuery } from '@tanstack/react-query'
+import { selectionShare } from '@iyield/sdk'
+import { csvOracleAbi, deploymentBlock, getContractAddresses } from '../lib/contracts'
+
+const RECENT_SELECTIONS = 10
+
+export interface SelectedOracle {
+  oracle: Address
+  name: string
+  /** Current reputation score, in basis points. */
+  reputationScore: bigint
+  /** Current stake. */
+  stakingAmount: bigint
+  /** Reputation score times stake when the oracle was drawn. */
+  weight: bigint
+  /** Chance of winning the first draw, in basis points of the total weight. */
+  share: bigint
+}
+
+export interface OracleSelection {
+  requestId: bigint
+  policyNumber: string
+  seed: bigint
+  totalWeight: bigint
+  /** Eligible oracles left out for a tie to the requester. */
+  excludedCount: bigint
+  oracles: SelectedOracle[]
+}
+
+export type OracleSelectionsState =
+  | { status: 'loading' }
+  | { status: 'not-deployed'; chainId: number }
+  | { status: 'error'; error: Error }
+  | { status: 'ready'; selections: OracleSelection[]; blockNumber: bigint }
+
+/**
+ * Oracles drawn for the most recent valuation requests, newest first, from
+ * `OraclesSelected` events. Each oracle carries the weight it was drawn with
+ * and its current reputation and stake. Reloaded on every new block.
+ */
+export function useOracleSelections(): OracleSelectionsState {
+  const chainId = useChainId()
+  const addresses = getContractAddresses(chainId)
+  const publicClient = usePublicClient({ chainId })
+  const { data: blockNumber } = useBlockNumber({ chainId, watch: true })
+
+  const selections = useQuery({
+    queryKey: ['risk', 'oracleSelections', chainId, addresses?.csvOracle],
+    enabled: !!addresses && !!publicClient,
+    queryFn: async (): Promise<OracleSelection[]> => {
+      const client = publicClient!
+      const { csvOracle } = addresses!
+
+      const events = await client.getContractEvents({
+        address: csvOracle,
+        abi: csvOracleAbi,
+        eventName: 'OraclesSelected',
+        fromBlock: deploymentBlock,
+        toBlock: 'latest',
+      })
+      const recent = events.slice(-RECENT_SELECTIONS).reverse()
+
+      const oracleAddresses = Array.from(new Set(recent.flatMap((event) => event.args.oracles ?? [])))
+      const infos = new Map(
+        await Promise.all(
+          oracleAddresses.map(
+            async (oracle) =>
+              [
+                oracle,
+                await client.readContract({
+                  address: csvOracle,
+                  abi: csvOracleAbi,
+                  functionName: 'getOracleInfo',
+                  args: [oracle],
+                }),
+              ] as const
+          )
+        )
+      )
+
+      return Promise.all(
+        recent.map(async (event) => {
+          const { requestId, seed, oracles, weights, totalWeight, excludedCount } = event.args
+          const request = await client.readContract({
+            address: csvOracle,
+            abi: csvOracleAbi,
+            functionName: 'getValuationRequest',
+            args: [requestId!],
+          })
+          return {
+            requestId: requestId!,
+            policyNumber: request.policyNumber,
+            seed: seed!,
+            totalWeight: totalWeight!,
+            excludedCount: excludedCount!,
+            oracles: oracles!.map((oracle, i) => {
+              const info = infos.get(oracle)!
+              return {
+                oracle,
+                name: info.name,
+                reputationScore: info.reputationScore,
+                stakingAmount: info.stakingAmount,
+                weight: weights![i],
+                share: selectionShare(weights![i], totalWeight!),
+              }
+            }),
+          }
+        })
+      )
+    },
+  })
+
+  const { refetch } = selections
+  useEffect(() => {
+    if (blockNumber === undefined || !addresses) return
+    refetch()
+  }, [blockNumber, addresses, refetch])
+
+  if (!addresses) return { status: 'not-deployed', chainId }
+  if (selections.error) return { status: 'error', error: selections.error }
+  if (!selections.data || blockNumber === undefined) return { status: 'loading' }
+  return { status: 'ready', selections: selections.data, blockNumber }
+}
@@ -0,0 +1,100 @@
+'use client'
+
+import { useEffect } from 'react'
+import { useBlockNumber, useChainId, usePublicClient } from 'wagmi'
+import { useQuery } from '@tanstack/react-query'
+import { TrancheType, type StressPortfolio, type StressVault } from '@iyield/sdk'
+import { csvVaultAbi, deploymentBlock, ercRwaCsvAbi, getContractAddresses, liquidityPoolAbi } from '../lib/contracts'
+
+export type StressPortfolioState =
+  | { status: 'loading' }
+  | { status: 'not-deployed'; chainId: number }
+  | { status: 'error'; error: Error }
+  | { status: 'ready'; portfolio: StressPortfolio; blockNumber: bigint }
+
+/**
+ * The open vaults with their collateral's carrier and credit rating, the vault
+ * config and the tranche deposits: everything `runStressTest` needs. Reloaded
+ * on every new block.
+ */
+export function useStressPortfolio(): StressPortfolioState {
+  const chainId = useChainId()
+  const addresses = getContractAddresses(chainId)
+  const publicClient = usePublicClient({ chainId })
+  const { data: blockNumber } = useBlockNumber({ chainId, watch: true })
+
+  const portfolio = useQuery({
+    queryKey: ['risk', 'stressPortfolio', chainId, addresses?.csvVault],
+    enabled: !!addresses && !!publicClient,
+    queryFn: async (): Promise<StressPortfolio> => {
+      const client = publicClient!
+      const { csvVault, csvToken, liquidityPool } = addresses!
+
+      const opened = await client.getContractEvents({
+        address: csvVault,
+        abi: csvVaultAbi,
+        eventName: 'VaultOpened',
+        fromBlock: deploymentBlock,
+        toBlock: 'latest',
+      })
+      const positions = await Promise.all(
+        opened.map(async (event) => ({
+          vaultId: event.args.vaultId!,
+          position: await client.readContract({
+            address: csvVault,
+            abi: csvVaultAbi,
+            functionName: 'getVaultPosition',
+            args: [event.args.vaultId!],
+          }),
+        }))
+      )
+      const vaults = await Promise.all(
+        positions
+          .filter(({ position }) => position.isActive)
+          .map(async ({ vaultId, position }): Promise<StressVault> => {
+            const metadata = await client.readContract({
+              address: csvToken,
+              abi: ercRwaCsvAbi,
+              functionName: 'getCSVMetadata',
+              args: [position.tokenId],
+            })
+            return { vaultId, position, carrierName: metadata.carrierName, creditRating: metadata.creditRating }
+          })
+      )
+
+      const [[maxLTV, liquidationPenalty, minCollateralValue, stabilityFee, isEnabled], senior, junior] = await Promise.all([
+        client.readContract({ address: csvVault, abi: csvVaultAbi, functionName: 'vaultConfig' }),
+        client.readContract({
+          address: liquidityPool,
+          abi: liquidityPoolAbi,
+          functionName: 'getTrancheInfo',
+          args: [TrancheType.SENIOR],
+        }),
+        client.readContract({
+          address: liquidityPool,
+          abi: liquidityPoolAbi,
+          functionName: 'getTrancheInfo',
+          args: [TrancheType.JUNIOR],
+        }),
+      ])
+
+      return {
+        vaults,
+        config: { maxLTV, liquidationPenalty, minCollateralValue, stabilityFee, isEnabled },
+        seniorDeposits: senior[0],
+        juniorDeposits: junior[0],
+      }
+    },
+  })
+
+  const { refetch } = portfolio
+  useEffect(() => {
+    if (blockNumber === undefined || !addresses) return
+    refetch()
+  }, [blockNumber, addresses, refetch])
+
+  if (!addresses) return { status: 'not-deployed', chainId }
+  if (portfolio.error) return { status: 'error', error: portfolio.error }
+  if (!portfolio.data || blockNumber === undefined) return { status: 'loading' }
+  return { status: 'ready', portfolio: portfolio.data, blockNumber }
+}
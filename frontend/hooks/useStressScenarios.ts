@@ -0,0 +1,47 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { validateStressScenario, type StressScenario } from '@iyield/sdk'
+
+const STORAGE_KEY = 'iyield.risk.stressScenarios'
+
+function readSaved(): StressScenario[] {
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '[]')
+    // Drop anything a previous version stored that no longer validates.
+    return Array.isArray(saved)
+      ? saved.filter((scenario) => Array.isArray(scenario?.shocks) && validateStressScenario(scenario).length === 0)
+      : []
+  } catch {
+    return []
+  }
+}
+
+/** User-built stress scenarios, kept in this browser's local storage. */
+export function useStressScenarios() {
+  const [scenarios, setScenarios] = useState<StressScenario[]>([])
+
+  // Local storage is only available after hydration.
+  useEffect(() => setScenarios(readSaved()), [])
+
+  const persist = useCallback((next: StressScenario[]) => {
+    setScenarios(next)
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+  }, [])
+
+  /** Adds the scenario, or replaces the saved one with the same id. */
+  const save = useCallback(
+    (scenario: StressScenario) => {
+      const others = scenarios.filter((saved) => saved.id !== scenario.id)
+      persist([...others, scenario])
+    },
+    [scenarios, persist]
+  )
+
+  const remove = useCallback(
+    (id: string) => persist(scenarios.filter((saved) => saved.id !== id)),
+    [scenarios, persist]
+  )
+
+  return { scenarios, save, remove }
+}
@@ -0,0 +1,100 @@
+'use client'
+
+import { useCallback, useState } from 'react'
+import { useAccount, useChainId, usePublicClient, useWriteContract } from 'wagmi'
+import type { Abi, Address, Hash } from 'viem'
+import { ContractRevertError, IYieldError, parseContractError, type ContractName } from '@iyield/sdk'
+
+export interface TransactionRequest {
+  /** Shown to the user while the transaction is in flight, e.g. "Approve USDC". */
+  label: string
+  /** Contract blamed for reverts that carry no `"<Contract>: "` prefix. */
+  contract: ContractName
+  address: Address
+  abi: Abi
+  functionName: string
+  args: readonly unknown[]
+  /** Ether sent with a payable call. */
+  value?: bigint
+}
+
+export type TransactionState =
+  | { status: 'idle' }
+  | { status: 'signing'; label: string }
+  | { status: 'pending'; label: string; hash: Hash }
+  | { status: 'confirmed'; label: string; hash: Hash }
+  /** The call reverted, either in simulation (no hash) or on-chain. */
+  | { status: 'reverted'; label: string; hash?: Hash; error: ContractRevertError }
+  /** Anything else: the wallet rejected the request, the RPC failed. */
+  | { status: 'failed'; label: string; error: IYieldError }
+
+/**
+ * Sends contract writes from the connected wallet and tracks them until they
+ * are mined. Each write is simulated first so a revert is reported with its
+ * decoded reason before the wallet is asked to sign; a transaction that still
+ * reverts on-chain is replayed against the previous block to recover the
+ * reason, since receipts carry none.
+ */
+export function useTransaction() {
+  const chainId = useChainId()
+  const publicClient = usePublicClient({ chainId })
+  const { address: account } = useAccount()
+  const { writeContractAsync } = useWriteContract()
+  const [state, setState] = useState<TransactionState>({ status: 'idle' })
+
+  const fail = useCallback((request: TransactionRequest, error: unknown, hash?: Hash) => {
+    const parsed = parseContractError(error, request.contract)
+    setState(
+      parsed instanceof ContractRevertError
+        ? { status: 'reverted', label: request.label, hash, error: parsed }
+        : { status: 'failed', label: request.label, error: parsed }
+    )
+  }, [])
+
+  /** Resolves to whether the transaction was mined successfully. */
+  const send = useCallback(
+    async (request: TransactionRequest): Promise<boolean> => {
+      if (!publicClient || !account) {
+        setState({ status: 'failed', label: request.label, error: new IYieldError('Connect a wallet first') })
+        return false
+      }
+      const call = {
+        address: request.address,
+        abi: request.abi,
+        functionName: request.functionName,
+        args: request.args,
+        value: request.value,
+        account,
+      }
+
+      setState({ status: 'signing', label: request.label })
+      let hash: Hash
+      try {
+        const { request: simulated } = await publicClient.simulateContract(call)
+        hash = await writeContractAsync(simulated)
+      } catch (error) {
+        fail(request, error)
+        return false
+      }
+
+      setState({ status: 'pending', label: request.label, hash })
+      try {
+        const receipt = await publicClient.waitForTransactionReceipt({ hash })
+        if (receipt.status === 'success') {
+          setState({ status: 'confirmed', label: request.label, hash })
+          return true
+        }
+        await publicClient.simulateContract({ ...call, blockNumber: receipt.blockNumber - BigInt(1) })
+        fail(request, new ContractRevertError({ contract: request.contract, code: 'UNKNOWN', reason: 'execution reverted' }), hash)
+      } catch (error) {
+        fail(request, error, hash)
+      }
+      return false
+    },
+    [publicClient, account, writeContractAsync, fail]
+  )
+
+  const reset = useCallback(() => setState({ status: 'idle' }), [])
+
+  return { state, send, reset }
+}
@@ -0,0 +1,53 @@
+'use client'
+
+import { useEffect } from 'react'
+import { useBlockNumber, useChainId, usePublicClient } from 'wagmi'
+import { useQuery } from '@tanstack/react-query'
+import { checkTransfers, type TransferPreflight, type TransferRequest } from '@iyield/sdk'
+import { getContractAddresses, multicallAddress } from '../lib/contracts'
+
+export type TransferCheckState =
+  | { status: 'idle' }
+  | { status: 'loading' }
+  | { status: 'not-deployed'; chainId: number }
+  | { status: 'error'; error: Error }
+  | { status: 'ready'; results: TransferPreflight[]; blockNumber: bigint }
+
+/**
+ * ERC-1404 pre-flight of `transfers` against the CSV token, all read in one
+ * multicall at the same block. Idle until there is something to check;
+ * re-checked on every new block since expiries and lockups run on time.
+ */
+export function useTransferCheck(transfers: TransferRequest[] | undefined): TransferCheckState {
+  const chainId = useChainId()
+  const addresses = getContractAddresses(chainId)
+  const publicClient = usePublicClient({ chainId })
+  const { data: blockNumber } = useBlockNumber({ chainId, watch: true })
+
+  const enabled = !!addresses && !!publicClient && !!transfers?.length
+
+  const check = useQuery({
+    // Query keys are hashed as JSON, which has no bigint.
+    queryKey: [
+      'compliance',
+      'transferCheck',
+      chainId,
+      addresses?.csvToken,
+      transfers?.map(({ from, to, amount }) => [from, to, amount.toString()]),
+    ],
+    enabled,
+    queryFn: () => checkTransfers(publicClient!, addresses!.csvToken, transfers!, { multicallAddress }),
+  })
+
+  const { refetch } = check
+  useEffect(() => {
+    if (blockNumber === undefined || !enabled) return
+    refetch()
+  }, [blockNumber, enabled, refetch])
+
+  if (!transfers?.length) return { status: 'idle' }
+  if (!addresses) return { status: 'not-deployed', chainId }
+  if (check.error) return { status: 'error', error: check.error }
+  if (!check.data || blockNumber === undefined) return { status: 'loading' }
+  return { status: 'ready', results: check.data, blockNumber }
+}
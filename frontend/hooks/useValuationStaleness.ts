@@ -0,0 +1,116 @@
+'use client'
+
+import { useEffect } from 'react'
+import { useBlock, useChainId, usePublicClient } from 'wagmi'
+import { useQuery } from '@tanstack/react-query'
+import { csvVaultAbi, deploymentBlock, ercRwaCsvAbi, getContractAddresses } from '../lib/contracts'
+
+export interface VaultValuationAge {
+  vaultId: bigint
+  policyNumber: string
+  carrierName: string
+  collateralValue: bigint
+  debtAmount: bigint
+  /** `CSVVault.collateralValuedAt`: when the collateral was last valued. */
+  valuedAt: bigint
+}
+
+export interface ValuationStalenessData {
+  vaults: VaultValuationAge[]
+  /** Age in seconds past which a vault can no longer mint or close. */
+  maxValuationAge: bigint
+}
+
+export type ValuationStalenessState =
+  | { status: 'loading' }
+  | { status: 'not-deployed'; chainId: number }
+  | { status: 'error'; error: Error }
+  | { status: 'ready'; data: ValuationStalenessData; blockNumber: bigint; timestamp: bigint }
+
+/**
+ * When each open vault's collateral was last valued, with the policy and
+ * carrier of its token, and the vault's `maxValuationAge`. Reloaded on every
+ * new block; the block timestamp is returned so ages are measured against
+ * chain time.
+ */
+export function useValuationStaleness(): ValuationStalenessState {
+  const chainId = useChainId()
+  const addresses = getContractAddresses(chainId)
+  const publicClient = usePublicClient({ chainId })
+  const { data: block } = useBlock({ chainId, watch: true })
+
+  const enabled = !!addresses && !!publicClient
+
+  const staleness = useQuery({
+    queryKey: ['risk', 'valuationStaleness', chainId, addresses?.csvVault],
+    enabled,
+    queryFn: async (): Promise<ValuationStalenessData> => {
+      const client = publicClient!
+      const { csvVault, csvToken } = addresses!
+
+      const [opened, maxValuationAge] = await Promise.all([
+        client.getContractEvents({
+          address: csvVault,
+          abi: csvVaultAbi,
+          eventName: 'VaultOpened',
+          fromBlock: deploymentBlock,
+          toBlock: 'latest',
+        }),
+        client.readContract({ address: csvVault, abi: csvVaultAbi, functionName: 'maxValuationAge' }),
+      ])
+      const positions = await Promise.all(
+        opened.map(async (event) => ({
+          vaultId: event.args.vaultId!,
+          position: await client.readContract({
+            address: csvVault,
+            abi: csvVaultAbi,
+            functionName: 'getVaultPosition',
+            args: [event.args.vaultId!],
+          }),
+        }))
+      )
+      const vaults = await Promise.all(
+        positions
+          .filter(({ position }) => position.isActive)
+          .map(async ({ vaultId, position }): Promise<VaultValuationAge> => {
+            const [metadata, valuedAt] = await Promise.all([
+              client.readContract({
+                address: csvToken,
+                abi: ercRwaCsvAbi,
+                functionName: 'getCSVMetadata',
+                args: [position.tokenId],
+              }),
+              client.readContract({
+                address: csvVault,
+                abi: csvVaultAbi,
+                functionName: 'collateralValuedAt',
+                args: [vaultId],
+              }),
+            ])
+            return {
+              vaultId,
+              policyNumber: metadata.policyNumber,
+              carrierName: metadata.carrierName,
+              collateralValue: position.collateralValue,
+              debtAmount: position.debtAmount,
+              valuedAt,
+            }
+          })
+      )
+
+      return { vaults, maxValuationAge }
+    },
+  })
+
+  const blockNumber = block?.number
+  const { refetch } = staleness
+  useEffect(() => {
+    if (blockNumber === undefined || !enabled) return
+    refetch()
+  }, [blockNumber, enabled, refetch])
+
+  if (!addresses) return { status: 'not-deployed', chainId }
+  if (staleness.error) return { status: 'error', error: staleness.error }
+  if (!staleness.data || !block || block.number === null) return { status: 'loading' }
+  return { status: 'ready', data: staleness.data, blockNumber: block.number, timestamp: block.timestamp }
+}
@@ -0,0 +1,52 @@
+import type { Address } from 'viem'
+import type { IYieldAddresses } from '@iyield/sdk'
+import { defaultChainId } from './wagmi'
+
+export type ContractAddresses = IYieldAddresses
+
+/**
+ * Deployment addresses, populated from the output of `scripts/deploy.js`.
+ * The protocol is deployed on a single chain (NEXT_PUBLIC_CHAIN_ID); any other
+ * chain resolves to `undefined` so pages can show a "not deployed" state.
+ */
+const deployment: Partial<ContractAddresses> = {
+  complianceRegistry: process.env.NEXT_PUBLIC_COMPLIANCE_REGISTRY_ADDRESS as Address,
+  csvOracle: process.env.NEXT_PUBLIC_CSV_ORACLE_ADDRESS as Address,
+  csvToken: process.env.NEXT_PUBLIC_ERCRWACSV_ADDRESS as Address,
+  csvVault: process.env.NEXT_PUBLIC_CSV_VAULT_ADDRESS as Address,
+  liquidityPool: process.env.NEXT_PUBLIC_CSV_LIQUIDITY_POOL_ADDRESS as Address,
+}
+
+/**
+ * Multicall3 deployment for batched reads. viem knows the canonical one on
+ * public chains; a local node needs its own address here.
+ */
+export const multicallAddress = (process.env.NEXT_PUBLIC_MULTICALL_ADDRESS || undefined) as Address | undefined
+
+/** Base URL of the compliance document service (`services/src/documents`); uploads are disabled without it. */
+export const documentsApiUrl = process.env.NEXT_PUBLIC_DOCUMENTS_API_URL?.replace(/\/$/, '') || undefined
+
+/** Block the contracts were deployed at; event scans start here. */
+export const deploymentBlock = BigInt(process.env.NEXT_PUBLIC_DEPLOYMENT_BLOCK || 0)
+
+export function getContractAddresses(chainId: number | undefined): ContractAddresses | undefined {
+  if (chainId !== defaultChainId) return undefined
+  if (Object.values(deployment).some((address) => !address)) return undefined
+  return deployment as ContractAddresses
+}
+
+// ABIs come from the SDK so the frontend and scripts share one definition of each contract.
+export {
+  complianceRegistryAbi,
+  csvLiquidityPoolAbi as liquidityPoolAbi,
+  csvOracleAbi,
+  csvVaultAbi,
+  erc20Abi,
+  ercRwaCsvAbi,
+} from '@iyield/sdk'
+
+/** CSV values and vault debt are denominated in 18-decimal token units. */
+export const CSV_DECIMALS = 18
+
+/** Contract rates and ratios are expressed in basis points. */
+export const BASIS_POINTS = 10000
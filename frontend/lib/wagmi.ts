@@ -0,0 +1,43 @@
+import { createConfig, http } from 'wagmi'
+import { localhost, mainnet, sepolia } from 'wagmi/chains'
+import { injected } from 'wagmi/connectors'
+import type { Chain } from 'viem'
+
+/**
+ * Wagmi configuration shared by every page.
+ * The first chain is the one reads go to while no wallet is connected, so the
+ * chain the protocol is deployed on (NEXT_PUBLIC_CHAIN_ID) is always put first.
+ */
+const supportedChains: Chain[] = [localhost, sepolia, mainnet]
+
+export const defaultChainId = Number(process.env.NEXT_PUBLIC_CHAIN_ID || localhost.id)
+
+const defaultChain = supportedChains.find((chain) => chain.id === defaultChainId) ?? localhost
+
+export const chains: readonly [Chain, ...Chain[]] = [
+  defaultChain,
+  ...supportedChains.filter((chain) => chain.id !== defaultChain.id),
+]
+
+export const wagmiConfig = createConfig({
+  chains,
+  connectors: [injected()],
+  ssr: true,
+  transports: {
+    [localhost.id]: http(process.env.NEXT_PUBLIC_LOCALHOST_RPC_URL || 'http://127.0.0.1:8545'),
+    [sepolia.id]: http(process.env.NEXT_PUBLIC_SEPOLIA_RPC_URL),
+    [mainnet.id]: http(process.env.NEXT_PUBLIC_MAINNET_RPC_URL),
+  },
+})
+
+declare module 'wagmi' {
+  interface Register {
+    config: typeof wagmiConfig
+  }
+}
+
+/** Block explorer page of a transaction on the protocol chain; undefined on chains without an explorer. */
+export function transactionUrl(hash: string): string | undefined {
+  const explorer = defaultChain.blockExplorers?.default.url
+  return explorer ? `${explorer}/tx/${hash}` : undefined
+}
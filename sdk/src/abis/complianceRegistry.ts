@@ -0,0 +1,66 @@
+import { parseAbi } from 'viem'
+import {
+  accessControlFragments,
+  ecdsaFragments,
+  eip712Fragments,
+  pausableFragments,
+  reentrancyGuardFragments,
+} from './common'
+
+export const complianceRegistryAbi = parseAbi([
+  'struct ComplianceStatus { bool isKYCVerified; bool isAccredited; uint256 accreditationExpiry; uint256 kycExpiry; uint256 jurisdictionCode; bool isRestricted; uint256 lockupExpiry; address kycProvider; string kycHash; uint256 lastUpdateTimestamp; }',
+  'struct JurisdictionInfo { string countryCode; string jurisdictionName; bool isAllowed; bool requiresAdditionalKYC; uint256 additionalLockupPeriod; uint256[] restrictedSecurityTypes; }',
+  'struct KYCProvider { string name; string endpoint; bool isActive; uint256 verificationFee; uint256[] supportedJurisdictions; }',
+  'struct KYCAttestation { address user; uint256 jurisdictionCode; uint256 expiry; string kycHash; bytes32 nonce; }',
+  ...accessControlFragments,
+  ...pausableFragments,
+  ...reentrancyGuardFragments,
+  ...eip712Fragments,
+  ...ecdsaFragments,
+  'function COMPLIANCE_OFFICER_ROLE() view returns (bytes32)',
+  'function KYC_PROVIDER_ROLE() view returns (bytes32)',
+  'function JURISDICTION_MANAGER_ROLE() view returns (bytes32)',
+  'function KYC_ATTESTATION_TYPEHASH() view returns (bytes32)',
+  'function defaultLockupPeriod() view returns (uint256)',
+  'function kycValidityPeriod() view returns (uint256)',
+  'function accreditationValidityPeriod() view returns (uint256)',
+  'function autoRenewalEnabled() view returns (bool)',
+  'function totalVerifiedUsers() view returns (uint256)',
+  'function totalAccreditedInvestors() view returns (uint256)',
+  'function totalRestrictedUsers() view returns (uint256)',
+  'function providerFees(address provider) view returns (uint256)',
+  'function updateKYCStatus(address user, bool isVerified, string kycHash, uint256 jurisdictionCode, bytes32 nonce)',
+  'function submitKYCAttestation(KYCAttestation attestation, bytes signature) payable',
+  'function withdrawProviderFees()',
+  'function updateAccreditationStatus(address user, bool isAccredited, uint256 customExpiry)',
+  'function restrictUser(address user, string reason)',
+  'function unrestrictUser(address user)',
+  'function registerJurisdiction(uint256 code, string countryCode, string jurisdictionName, bool isAllowed, bool requiresAdditionalKYC, uint256 additionalLockupPeriod)',
+  'function registerKYCProvider(address provider, string name, string endpoint, uint256 verificationFee, uint256[] supportedJurisdictions)',
+  'function updateKYCProviderStatus(address provider, bool isActive)',
+  'function batchUpdateCompliance(address[] users, ComplianceStatus[] statuses)',
+  'function autoRenewStatus(address user)',
+  'function getComplianceStatus(address user) view returns (ComplianceStatus)',
+  'function isCompliant(address user) view returns (bool)',
+  'function isTransferAllowed(address from, address to) view returns (bool, string)',
+  'function detectTransferRestriction(address from, address to, uint256 value) view returns (uint8)',
+  'function messageForTransferRestriction(uint8 restrictionCode) pure returns (string)',
+  'function getJurisdictionInfo(uint256 code) view returns (JurisdictionInfo)',
+  'function getKYCProvider(address provider) view returns (KYCProvider)',
+  'function hashKYCAttestation(KYCAttestation attestation) view returns (bytes32)',
+  'function isNonceUsed(address provider, bytes32 nonce) view returns (bool)',
+  'function getUsersByJurisdiction(uint256 jurisdictionCode) pure returns (uint256 count)',
+  'function updateComplianceParameters(uint256 _defaultLockupPeriod, uint256 _kycValidityPeriod, uint256 _accreditationValidityPeriod, bool _autoRenewalEnabled)',
+  'event UserKYCUpdated(address indexed user, bool verified, uint256 expiry, address provider)',
+  'event UserAccreditationUpdated(address indexed user, bool accredited, uint256 expiry)',
+  'event UserRestricted(address indexed user, string reason)',
+  'event UserUnrestricted(address indexed user)',
+  'event JurisdictionUpdated(uint256 indexed code, string countryCode, bool allowed)',
+  'event KYCProviderRegistered(address indexed provider, string name)',
+  'event KYCProviderUpdated(address indexed provider, bool active)',
+  'event LockupPeriodUpdated(address indexed user, uint256 expiry)',
+  'event ComplianceParametersUpdated(uint256 lockupPeriod, uint256 kycValidity, uint256 accreditationValidity)',
+  'event KYCAttestationSubmitted(address indexed user, address indexed provider, bytes32 nonce, address relayer)',
+  'event ProviderFeesWithdrawn(address indexed provider, uint256 amount)',
+  'event ComplianceStatusImported(address indexed user, bool kycVerified, bool accredited, bool restricted, uint256 jurisdictionCode, uint256 kycExpiry, uint256 accreditationExpiry, uint256 lockupExpiry, address kycProvider)',
+])
@@ -0,0 +1,82 @@
+import { parseAbi } from 'viem'
+import {
+  accessControlFragments,
+  erc20ErrorFragments,
+  pausableFragments,
+  reentrancyGuardFragments,
+  safeErc20Fragments,
+} from './common'
+
+export const csvLiquidityPoolAbi = parseAbi([
+  'struct PoolConfig { uint256 seniorYieldRate; uint256 juniorYieldRate; uint256 protocolFeeRate; uint256 performanceFeeRate; uint256 withdrawalFeeRate; uint256 maxUtilization; }',
+  'struct YieldDistribution { uint256 timestamp; uint256 totalYield; uint256 seniorYield; uint256 juniorYield; uint256 protocolFee; }',
+  'struct WithdrawalRequest { address user; uint256 shares; uint256 filled; uint256 requestedAt; bool cancelled; }',
+  'struct LossRecord { uint256 timestamp; uint256 totalLoss; uint256 juniorLoss; uint256 seniorLoss; string reason; }',
+  ...accessControlFragments,
+  ...pausableFragments,
+  ...reentrancyGuardFragments,
+  ...safeErc20Fragments,
+  ...erc20ErrorFragments,
+  'function POOL_MANAGER_ROLE() view returns (bytes32)',
+  'function YIELD_DISTRIBUTOR_ROLE() view returns (bytes32)',
+  'function ORACLE_ROLE() view returns (bytes32)',
+  'function LOSS_REPORTER_ROLE() view returns (bytes32)',
+  'function BASIS_POINTS() view returns (uint256)',
+  'function SECONDS_PER_YEAR() view returns (uint256)',
+  'function PRECISION() view returns (uint256)',
+  'function csvToken() view returns (address)',
+  'function baseToken() view returns (address)',
+  'function poolConfig() view returns (uint256 seniorYieldRate, uint256 juniorYieldRate, uint256 protocolFeeRate, uint256 performanceFeeRate, uint256 withdrawalFeeRate, uint256 maxUtilization)',
+  'function totalPoolValue() view returns (uint256)',
+  'function protocolFeeReserve() view returns (uint256)',
+  'function lastYieldDistribution() view returns (uint256)',
+  'function yieldHistory(uint256 index) view returns (uint256 timestamp, uint256 totalYield, uint256 seniorYield, uint256 juniorYield, uint256 protocolFee)',
+  'function lossHistory(uint256 index) view returns (uint256 timestamp, uint256 totalLoss, uint256 juniorLoss, uint256 seniorLoss, string reason)',
+  'function impairmentPeriod() view returns (uint256)',
+  'function impairedUntil() view returns (uint256)',
+  'function deployedCapital() view returns (uint256)',
+  'function deposit(uint8 tranche, uint256 amount)',
+  'function withdraw(uint8 tranche, uint256 shares)',
+  'function distributeYield(uint256 totalYield)',
+  'function claimYield(uint8 tranche)',
+  'function compoundYield(uint8 tranche)',
+  'function requestWithdrawal(uint8 tranche, uint256 shares) returns (uint256 requestId)',
+  'function cancelWithdrawal(uint8 tranche, uint256 requestId)',
+  'function processWithdrawals(uint256 maxRequests) returns (uint256 processed)',
+  'function recordLoss(uint256 amount, string reason)',
+  'function getUserPosition(uint8 tranche, address user) view returns (uint256 shares, uint256 deposits, uint256 currentValue, uint256 depositTimestamp, uint256 lockupExpiry, uint256 claimableYield, uint256 compoundedYield)',
+  'function getTrancheInfo(uint8 tranche) view returns (uint256 totalDeposits, uint256 totalShares, uint256 yieldRate, uint256 priority, uint256 minDeposit, uint256 lockupPeriod, bool isActive)',
+  'function getPoolUtilization() view returns (uint256)',
+  'function availableLiquidity() view returns (uint256)',
+  'function getWithdrawalRequest(uint8 tranche, uint256 requestId) view returns (WithdrawalRequest)',
+  'function getWithdrawalQueue(uint8 tranche) view returns (uint256 head, uint256 length, uint256 queuedShares)',
+  'function getQueuedShares(uint8 tranche, address user) view returns (uint256)',
+  'function getYieldHistory(uint256 index) view returns (YieldDistribution)',
+  'function getYieldHistoryLength() view returns (uint256)',
+  'function getLossHistory(uint256 index) view returns (LossRecord)',
+  'function getLossHistoryLength() view returns (uint256)',
+  'function getSubordination() view returns (uint256)',
+  'function configureTrancheData(uint8 tranche, uint256 yieldRate, uint256 minDeposit, uint256 lockupPeriod)',
+  'function updatePoolConfig(PoolConfig newConfig)',
+  'function setImpairmentPeriod(uint256 newPeriod)',
+  'function trancheWrappers(address wrapper) view returns (bool)',
+  'function setTrancheWrapper(address wrapper, bool enabled)',
+  'function deployCapital(address to, uint256 amount)',
+  'function returnCapital(uint256 amount)',
+  'function withdrawProtocolFees(address to, uint256 amount)',
+  'event TrancheDeposit(uint8 indexed tranche, address indexed user, uint256 amount, uint256 shares)',
+  'event TrancheWithdrawal(uint8 indexed tranche, address indexed user, uint256 amount, uint256 shares)',
+  'event YieldDistributed(uint256 totalYield, uint256 seniorYield, uint256 juniorYield, uint256 protocolFee)',
+  'event YieldClaimed(uint8 indexed tranche, address indexed user, uint256 amount)',
+  'event YieldCompounded(uint8 indexed tranche, address indexed user, uint256 amount, uint256 shares)',
+  'event TrancheConfigured(uint8 indexed tranche, uint256 yieldRate, uint256 minDeposit, uint256 lockupPeriod)',
+  'event WithdrawalRequested(uint8 indexed tranche, uint256 indexed requestId, address indexed user, uint256 shares)',
+  'event WithdrawalCancelled(uint8 indexed tranche, uint256 indexed requestId, address indexed user, uint256 shares)',
+  'event WithdrawalFilled(uint8 indexed tranche, uint256 indexed requestId, address indexed user, uint256 shares, uint256 value, uint256 remainingShares)',
+  'event LossRecorded(uint256 totalLoss, uint256 juniorLoss, uint256 seniorLoss, string reason)',
+  'event TrancheLoss(uint8 indexed tranche, uint256 loss, uint256 remainingDeposits)',
+  'event ImpairmentPeriodUpdated(uint256 oldPeriod, uint256 newPeriod)',
+  'event TrancheWrapperUpdated(address indexed wrapper, bool enabled)',
+  'event CapitalDeployed(address indexed to, uint256 amount, uint256 deployedCapital)',
+  'event CapitalReturned(address indexed from, uint256 amount, uint256 deployedCapital)',
+])
@@ -0,0 +1,108 @@
+import { parseAbi } from 'viem'
+import { accessControlFragments, pausableFragments, reentrancyGuardFragments } from './common'
+
+export const csvOracleAbi = parseAbi([
+  'struct OracleInfo { string name; string endpoint; bool isActive; uint256 totalSubmissions; uint256 totalCorrectSubmissions; uint256 reputationScore; address operatorAddress; uint256 stakingAmount; uint256 lastActiveTimestamp; }',
+  'struct ValuationRequest { uint256 requestId; string policyNumber; address requester; uint256 timestamp; uint256 deadline; bool isActive; uint256 responseCount; uint256 agreedValue; bool isFinalized; string ipfsHash; }',
+  'struct OracleResponse { address oracle; uint256 value; uint256 timestamp; bytes32 proofHash; string documentationURI; bool isValid; }',
+  'struct ConsensusConfig { uint256 minOracles; uint256 maxOracles; uint256 consensusThreshold; uint256 disputePeriod; uint256 maxDeviationPercent; uint256 responsePeriod; }',
+  'struct Dispute { address disputer; uint256 bond; string reason; uint256 raisedAt; uint8 status; uint256 correctedValue; uint256 revaluationRequestId; }',
+  ...accessControlFragments,
+  ...pausableFragments,
+  ...reentrancyGuardFragments,
+  'function ORACLE_ROLE() view returns (bytes32)',
+  'function ORACLE_MANAGER_ROLE() view returns (bytes32)',
+  'function CONSUMER_ROLE() view returns (bytes32)',
+  'function ARBITRATOR_ROLE() view returns (bytes32)',
+  'function BASIS_POINTS() view returns (uint256)',
+  'function MIN_REPUTATION_SCORE() view returns (uint256)',
+  'function MAX_RESPONSE_TIME() view returns (uint256)',
+  'function requestOracles(uint256 requestId, uint256 index) view returns (address)',
+  'function policyToLatestRequest(string policyNumber) view returns (uint256)',
+  'function registeredOracles(uint256 index) view returns (address)',
+  'function nextRequestId() view returns (uint256)',
+  'function consensusConfig() view returns (uint256 minOracles, uint256 maxOracles, uint256 consensusThreshold, uint256 disputePeriod, uint256 maxDeviationPercent, uint256 responsePeriod)',
+  'function requestFee() view returns (uint256)',
+  'function oracleReward() view returns (uint256)',
+  'function protocolFeeRate() view returns (uint256)',
+  'function disputeBond() view returns (uint256)',
+  'function disputeSlashRate() view returns (uint256)',
+  'function finalizedAt(uint256 requestId) view returns (uint256)',
+  'function rewardsPaid(uint256 requestId, address oracle) view returns (uint256)',
+  'function commitments(uint256 requestId, address oracle) view returns (bytes32)',
+  'function commitCounts(uint256 requestId) view returns (uint256)',
+  'function revealPeriod() view returns (uint256)',
+  'function missedRevealSlashRate() view returns (uint256)',
+  'function selectionSeeds(uint256 requestId) view returns (uint256)',
+  'function oracleConflicts(address oracle, address party) view returns (bool)',
+  'function randomnessSource() view returns (address)',
+  'function valuationConsumer() view returns (address)',
+  'function unbondings(address oracle) view returns (uint256 amount, uint256 availableAt)',
+  'function needsRemediation(address oracle) view returns (bool)',
+  'function totalStaked() view returns (uint256)',
+  'function totalOpenDisputeBonds() view returns (uint256)',
+  'function rewardPool() view returns (uint256)',
+  'function unbondingPeriod() view returns (uint256)',
+  'function getSelectionWeight(address oracleAddr) view returns (uint256)',
+  'function isConflicted(address oracleAddr, address party) view returns (bool)',
+  'function computeCommitment(uint256 requestId, address oracleAddr, uint256 value, bytes32 salt) pure returns (bytes32)',
+  'function registerOracle(string name, string endpoint, uint256 stakingAmount) payable',
+  'function increaseStake() payable',
+  'function requestUnbond(uint256 amount)',
+  'function withdrawStake()',
+  'function requestValuation(string policyNumber, uint256 deadline, string ipfsHash) payable returns (uint256 requestId)',
+  'function commitValuation(uint256 requestId, bytes32 commitment)',
+  'function revealValuation(uint256 requestId, uint256 value, bytes32 salt, bytes32 proofHash, string documentationURI)',
+  'function finalizeValuation(uint256 requestId)',
+  'function raiseDispute(uint256 requestId, string reason) payable',
+  'function resolveDispute(uint256 requestId, bool overturn, uint256 correctedValue) returns (uint256 revaluationRequestId)',
+  'function getValuationRequest(uint256 requestId) view returns (ValuationRequest)',
+  'function getOracleResponse(uint256 requestId, address oracle) view returns (OracleResponse)',
+  'function getAssignedOracles(uint256 requestId) view returns (address[])',
+  'function getActiveOracleCount() view returns (uint256 count)',
+  'function getRegisteredOracles() view returns (address[])',
+  'function getOracleInfo(address oracleAddr) view returns (OracleInfo)',
+  'function getDispute(uint256 requestId) view returns (Dispute)',
+  'function isUnderDispute(uint256 requestId) view returns (bool)',
+  'function getLatestValuation(string policyNumber) view returns (uint256, bool, bool)',
+  'function updateConsensusConfig(ConsensusConfig newConfig)',
+  'function updateFees(uint256 _requestFee, uint256 _oracleReward, uint256 _protocolFeeRate)',
+  'function updateDisputeConfig(uint256 _disputeBond, uint256 _disputeSlashRate)',
+  'function updateRevealConfig(uint256 _revealPeriod, uint256 _missedRevealSlashRate)',
+  'function updateUnbondingPeriod(uint256 _unbondingPeriod)',
+  'function approveRemediation(address oracleAddr)',
+  'function setRandomnessSource(address source)',
+  'function setValuationConsumer(address consumer)',
+  'function setOracleConflict(address oracleAddr, address party, bool conflicted)',
+  'function declareConflict(address party)',
+  'function slashOracle(address oracleAddr, uint256 amount, string reason)',
+  'function fundRewardPool() payable',
+  'function withdrawProtocolFees()',
+  'event OracleRegistered(address indexed oracle, string name, uint256 stakingAmount)',
+  'event OracleDeregistered(address indexed oracle, string reason)',
+  'event ValuationRequested(uint256 indexed requestId, string policyNumber, address requester)',
+  'event ValuationSubmitted(uint256 indexed requestId, address indexed oracle, uint256 value)',
+  'event ValuationFinalized(uint256 indexed requestId, uint256 agreedValue, uint256 responseCount)',
+  'event ConsensusReached(uint256 indexed requestId, uint256 finalValue)',
+  'event DisputeRaised(uint256 indexed requestId, address indexed disputer, string reason)',
+  'event OracleSlashed(address indexed oracle, uint256 amount, string reason)',
+  'event OracleRewarded(address indexed oracle, uint256 amount, uint256 requestId)',
+  'event DisputeResolved(uint256 indexed requestId, bool overturned, uint256 correctedValue, uint256 revaluationRequestId)',
+  'event RewardClawedBack(address indexed oracle, uint256 indexed requestId, uint256 amount)',
+  'event RewardPoolFunded(address indexed from, uint256 amount, uint256 rewardPool)',
+  'event DisputeConfigUpdated(uint256 disputeBond, uint256 disputeSlashRate)',
+  'event ValuationCommitted(uint256 indexed requestId, address indexed oracle, bytes32 commitment)',
+  'event RevealMissed(uint256 indexed requestId, address indexed oracle)',
+  'event RevealConfigUpdated(uint256 revealPeriod, uint256 missedRevealSlashRate)',
+  'event OraclesSelected(uint256 indexed requestId, uint256 seed, address[] oracles, uint256[] weights, uint256 totalWeight, uint256 excludedCount)',
+  'event OracleConflictUpdated(address indexed oracle, address indexed party, bool conflicted)',
+  'event RandomnessSourceUpdated(address indexed source)',
+  'event StakeIncreased(address indexed oracle, uint256 amount, uint256 stakingAmount)',
+  'event UnbondRequested(address indexed oracle, uint256 amount, uint256 availableAt)',
+  'event StakeWithdrawn(address indexed oracle, uint256 amount)',
+  'event OracleRemediated(address indexed oracle)',
+  'event UnbondingPeriodUpdated(uint256 unbondingPeriod)',
+  'event ValuationConsumerUpdated(address indexed consumer)',
+  'event ValuationPropagationFailed(uint256 indexed requestId)',
+  'event ValuationFailed(uint256 indexed requestId, uint256 responseCount)',
+])
@@ -0,0 +1,39 @@
+import { parseAbi } from 'viem'
+import { erc20ErrorFragments, erc20Fragments, safeErc20Fragments } from './common'
+
+export const csvTrancheVaultAbi = parseAbi([
+  ...erc20Fragments,
+  ...erc20ErrorFragments,
+  ...safeErc20Fragments,
+  'function BASIS_POINTS() view returns (uint256)',
+  'function pool() view returns (address)',
+  'function tranche() view returns (uint8)',
+  'function registry() view returns (address)',
+  'function asset() view returns (address)',
+  'function totalAssets() view returns (uint256)',
+  'function convertToShares(uint256 assets) view returns (uint256)',
+  'function convertToAssets(uint256 shares) view returns (uint256)',
+  'function maxDeposit(address receiver) view returns (uint256)',
+  'function maxMint(address receiver) view returns (uint256)',
+  'function maxWithdraw(address owner) view returns (uint256)',
+  'function maxRedeem(address owner) view returns (uint256)',
+  'function previewDeposit(uint256 assets) view returns (uint256)',
+  'function previewMint(uint256 shares) view returns (uint256)',
+  'function previewWithdraw(uint256 assets) view returns (uint256)',
+  'function previewRedeem(uint256 shares) view returns (uint256)',
+  'function depositTimestamp(address holder) view returns (uint256)',
+  'function lockupExpiry(address holder) view returns (uint256)',
+  'function withdrawalFeeRate(address holder) view returns (uint256)',
+  'function deposit(uint256 assets, address receiver) returns (uint256 shares)',
+  'function mint(uint256 shares, address receiver) returns (uint256 assets)',
+  'function withdraw(uint256 assets, address receiver, address owner) returns (uint256 shares)',
+  'function redeem(uint256 shares, address receiver, address owner) returns (uint256 assets)',
+  'function harvest()',
+  'event Deposit(address indexed sender, address indexed owner, uint256 assets, uint256 shares)',
+  'event Withdraw(address indexed sender, address indexed receiver, address indexed owner, uint256 assets, uint256 shares)',
+  'event Harvested(uint256 yield, uint256 redeployed)',
+  'error ERC4626ExceededMaxDeposit(address receiver, uint256 assets, uint256 max)',
+  'error ERC4626ExceededMaxMint(address receiver, uint256 shares, uint256 max)',
+  'error ERC4626ExceededMaxWithdraw(address owner, uint256 assets, uint256 max)',
+  'error ERC4626ExceededMaxRedeem(address owner, uint256 shares, uint256 max)',
+])
@@ -0,0 +1,93 @@
+import { parseAbi } from 'viem'
+import {
+  accessControlFragments,
+  erc20ErrorFragments,
+  pausableFragments,
+  reentrancyGuardFragments,
+  safeErc20Fragments,
+} from './common'
+
+export const csvVaultAbi = parseAbi([
+  'struct VaultPosition { uint256 tokenId; uint256 collateralValue; uint256 debtAmount; uint256 liquidationThreshold; uint256 lastUpdateTimestamp; address owner; bool isActive; }',
+  'struct VaultConfig { uint256 maxLTV; uint256 liquidationPenalty; uint256 minCollateralValue; uint256 stabilityFee; bool isEnabled; }',
+  'struct Auction { uint256 vaultId; uint256 tokenId; address owner; address liquidator; uint256 debt; uint256 penalty; uint256 startPrice; uint256 floorPrice; uint256 startTime; uint256 endTime; bool isActive; uint256 startPriceBps; uint256 floorPriceBps; uint256 duration; uint256 liquidatorShareBps; }',
+  'struct AuctionConfig { uint256 startPriceBps; uint256 floorPriceBps; uint256 duration; uint256 liquidatorShareBps; }',
+  ...accessControlFragments,
+  ...pausableFragments,
+  ...reentrancyGuardFragments,
+  ...safeErc20Fragments,
+  ...erc20ErrorFragments,
+  'function VAULT_MANAGER_ROLE() view returns (bytes32)',
+  'function ORACLE_ROLE() view returns (bytes32)',
+  'function LIQUIDATOR_ROLE() view returns (bytes32)',
+  'function BASIS_POINTS() view returns (uint256)',
+  'function SECONDS_PER_YEAR() view returns (uint256)',
+  'function SECONDS_PER_MONTH() view returns (uint256)',
+  'function csvToken() view returns (address)',
+  'function vaultConfig() view returns (uint256 maxLTV, uint256 liquidationPenalty, uint256 minCollateralValue, uint256 stabilityFee, bool isEnabled)',
+  'function vaultPositions(uint256 vaultId) view returns (uint256 tokenId, uint256 collateralValue, uint256 debtAmount, uint256 liquidationThreshold, uint256 lastUpdateTimestamp, address owner, bool isActive)',
+  'function userVaults(address user, uint256 index) view returns (uint256)',
+  'function totalCollateralValue() view returns (uint256)',
+  'function totalDebt() view returns (uint256)',
+  'function liquidationReserve() view returns (uint256)',
+  'function carrierExposure(bytes32 carrier) view returns (uint256)',
+  'function vaultCarrier(uint256 vaultId) view returns (bytes32)',
+  'function maxCarrierBps() view returns (uint256)',
+  'function carrierCapFloor() view returns (uint256)',
+  'function minPolicyVintage() view returns (uint256)',
+  'function collateralValuedAt(uint256 vaultId) view returns (uint256)',
+  'function maxValuationAge() view returns (uint256)',
+  'function auctionConfig() view returns (uint256 startPriceBps, uint256 floorPriceBps, uint256 duration, uint256 liquidatorShareBps)',
+  'function auctions(uint256 auctionId) view returns (uint256 vaultId, uint256 tokenId, address owner, address liquidator, uint256 debt, uint256 penalty, uint256 startPrice, uint256 floorPrice, uint256 startTime, uint256 endTime, bool isActive, uint256 startPriceBps, uint256 floorPriceBps, uint256 duration, uint256 liquidatorShareBps)',
+  'function vaultAuction(uint256 vaultId) view returns (uint256)',
+  'function proceeds(address account) view returns (uint256)',
+  'function badDebt() view returns (uint256)',
+  'function openVault(uint256 tokenId, uint256 collateralValue) returns (uint256 vaultId)',
+  'function mintTokens(uint256 vaultId, uint256 amount)',
+  'function burnTokens(uint256 vaultId, uint256 amount)',
+  'function closeVault(uint256 vaultId)',
+  'function updateCollateralValuation(uint256 vaultId, uint256 newValue)',
+  'function liquidateVault(uint256 vaultId) returns (uint256 auctionId)',
+  'function bid(uint256 auctionId, uint256 maxPrice)',
+  'function restartAuction(uint256 auctionId)',
+  'function withdrawProceeds()',
+  'function getVaultPosition(uint256 vaultId) view returns (VaultPosition)',
+  'function getUserVaults(address user) view returns (uint256[])',
+  'function getVaultLTV(uint256 vaultId) view returns (uint256)',
+  'function isValuationStale(uint256 vaultId) view returns (bool)',
+  'function isLiquidatable(uint256 vaultId) view returns (bool)',
+  'function getAuctionPrice(uint256 auctionId) view returns (uint256)',
+  'function getAuction(uint256 auctionId) view returns (Auction)',
+  'function isEligibleBidder(address bidder) view returns (bool)',
+  'function carrierKey(string carrierName) pure returns (bytes32)',
+  'function getCarrierShareBps(bytes32 carrier) view returns (uint256)',
+  'function getCarrierExposure(bytes32 carrier) view returns (uint256 exposure, uint256 shareBps)',
+  'function getCarrierExposures() view returns (bytes32[] carriers, uint256[] exposures)',
+  'function updateVaultConfig(VaultConfig newConfig)',
+  'function withdrawLiquidationReserve(address to, uint256 amount)',
+  'function setMaxCarrierBps(uint256 newMaxCarrierBps)',
+  'function setCarrierCapFloor(uint256 newFloor)',
+  'function setMinPolicyVintage(uint256 newMinPolicyVintage)',
+  'function setMaxValuationAge(uint256 newMaxValuationAge)',
+  'function setAuctionConfig(AuctionConfig newConfig)',
+  'event VaultOpened(uint256 indexed vaultId, address indexed owner, uint256 collateralValue)',
+  'event VaultClosed(uint256 indexed vaultId, address indexed owner)',
+  'event CollateralDeposited(uint256 indexed vaultId, uint256 amount)',
+  'event CollateralWithdrawn(uint256 indexed vaultId, uint256 amount)',
+  'event TokensMinted(uint256 indexed vaultId, uint256 amount)',
+  'event TokensBurned(uint256 indexed vaultId, uint256 amount)',
+  'event VaultLiquidated(uint256 indexed vaultId, address indexed liquidator, uint256 penalty)',
+  'event CollateralValuationUpdated(uint256 indexed vaultId, uint256 oldValue, uint256 newValue)',
+  'event StabilityFeeAccrued(uint256 indexed vaultId, uint256 feeAmount)',
+  'event CarrierExposureUpdated(bytes32 indexed carrier, uint256 exposure)',
+  'event MaxCarrierBpsUpdated(uint256 oldBps, uint256 newBps)',
+  'event CarrierCapFloorUpdated(uint256 oldFloor, uint256 newFloor)',
+  'event MinPolicyVintageUpdated(uint256 oldVintage, uint256 newVintage)',
+  'event MaxValuationAgeUpdated(uint256 oldAge, uint256 newAge)',
+  'event AuctionStarted(uint256 indexed auctionId, uint256 indexed vaultId, uint256 tokenId, uint256 debt, uint256 penalty, uint256 startPrice)',
+  'event AuctionRestarted(uint256 indexed auctionId, uint256 startPrice, uint256 endTime)',
+  'event AuctionSettled(uint256 indexed auctionId, address indexed bidder, uint256 price, uint256 debtRepaid, uint256 liquidatorShare, uint256 protocolShare, uint256 surplus)',
+  'event BadDebtRecorded(uint256 indexed auctionId, uint256 amount)',
+  'event ProceedsWithdrawn(address indexed account, uint256 amount)',
+  'event AuctionConfigUpdated(uint256 startPriceBps, uint256 floorPriceBps, uint256 duration, uint256 liquidatorShareBps)',
+])
@@ -0,0 +1,5 @@
+import { parseAbi } from 'viem'
+import { erc20ErrorFragments, erc20Fragments } from './common'
+
+/** Standard ERC20 ABI, used for the pool's base token. */
+export const erc20Abi = parseAbi([...erc20Fragments, ...erc20ErrorFragments])
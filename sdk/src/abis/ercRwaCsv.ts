@@ -0,0 +1,51 @@
+import { parseAbi } from 'viem'
+import {
+  accessControlFragments,
+  erc20ErrorFragments,
+  erc20Fragments,
+  erc20PermitFragments,
+  pausableFragments,
+  reentrancyGuardFragments,
+} from './common'
+
+export const ercRwaCsvAbi = parseAbi([
+  'struct CSVMetadata { string policyNumber; string carrierName; uint256 cashValue; uint256 deathBenefit; uint256 premiumAmount; uint256 policyAge; uint8 creditRating; uint256 lastValuationTimestamp; bool isActive; }',
+  'struct ComplianceData { bool isAccredited; bool isKYCVerified; uint256 jurisdictionCode; uint256 lockupExpiry; bool isRestricted; }',
+  ...accessControlFragments,
+  ...pausableFragments,
+  ...reentrancyGuardFragments,
+  ...erc20Fragments,
+  ...erc20ErrorFragments,
+  ...erc20PermitFragments,
+  'function MINTER_ROLE() view returns (bytes32)',
+  'function BURNER_ROLE() view returns (bytes32)',
+  'function COMPLIANCE_ROLE() view returns (bytes32)',
+  'function ORACLE_ROLE() view returns (bytes32)',
+  'function PAUSE_ROLE() view returns (bytes32)',
+  'function LIQUIDATOR_ROLE() view returns (bytes32)',
+  'function totalCSVValue() view returns (uint256)',
+  'function complianceRegistry() view returns (address)',
+  'function csvOracle() view returns (address)',
+  'function mintCSVToken(address to, uint256 amount, CSVMetadata metadata)',
+  'function burnCSVToken(address from, uint256 amount, uint256 tokenId)',
+  'function burnDebt(address from, uint256 amount)',
+  'function transferCSVToken(uint256 tokenId, address to)',
+  'function updateCSVValuation(uint256 tokenId, uint256 newValue)',
+  'function updateCompliance(address account, ComplianceData complianceData)',
+  'function batchUpdateCompliance(address[] accounts, ComplianceData[] data)',
+  'function getCSVMetadata(uint256 tokenId) view returns (CSVMetadata)',
+  'function getComplianceData(address account) view returns (ComplianceData)',
+  'function getOwnerTokens(address owner) view returns (uint256[])',
+  'function getTokenOwner(uint256 tokenId) view returns (address)',
+  'function isTransferAllowed(address from, address to) view returns (bool, string)',
+  'function detectTransferRestriction(address from, address to, uint256 value) view returns (uint8)',
+  'function messageForTransferRestriction(uint8 restrictionCode) view returns (string)',
+  'function setComplianceRegistry(address _complianceRegistry)',
+  'function setCSVOracle(address _csvOracle)',
+  'event CSVTokenMinted(uint256 indexed tokenId, address indexed to, uint256 csvValue)',
+  'event CSVTokenBurned(uint256 indexed tokenId, address indexed from, uint256 csvValue)',
+  'event CSVValuationUpdated(uint256 indexed tokenId, uint256 oldValue, uint256 newValue)',
+  'event CSVTokenTransferred(uint256 indexed tokenId, address indexed from, address indexed to)',
+  'event ComplianceUpdated(address indexed account, bool kyc, bool accredited)',
+  'event TransferRestricted(address indexed from, address indexed to, string reason)',
+])
@@ -0,0 +1,8 @@
+export { complianceRegistryAbi } from './complianceRegistry'
+export { csvLiquidityPoolAbi } from './csvLiquidityPool'
+export { csvOracleAbi } from './csvOracle'
+export { csvTrancheVaultAbi } from './csvTrancheVault'
+export { csvVaultAbi } from './csvVault'
+export { erc20Abi } from './erc20'
+export { ercRwaCsvAbi } from './ercRwaCsv'
+export { valuationRelayAbi } from './valuationRelay'
@@ -0,0 +1,31 @@
+import { parseAbi } from 'viem'
+import { accessControlFragments } from './common'
+
+export const valuationRelayAbi = parseAbi([
+  'struct Binding { uint256 tokenId; uint256 vaultId; uint256 lastRequestId; bool isActive; }',
+  'struct HeldValuation { uint256 requestId; uint256 value; }',
+  ...accessControlFragments,
+  'function BINDING_MANAGER_ROLE() view returns (bytes32)',
+  'function RISK_MANAGER_ROLE() view returns (bytes32)',
+  'function BASIS_POINTS() view returns (uint256)',
+  'function oracle() view returns (address)',
+  'function csvToken() view returns (address)',
+  'function vault() view returns (address)',
+  'function maxChangeBps() view returns (uint256)',
+  'function getBinding(string policyNumber) view returns (Binding)',
+  'function getHeldValuation(string policyNumber) view returns (HeldValuation)',
+  'function bindPolicy(string policyNumber, uint256 tokenId, uint256 vaultId)',
+  'function unbindPolicy(string policyNumber)',
+  'function onValuationFinalized(uint256 requestId, string policyNumber, uint256 value)',
+  'function propagate(string policyNumber)',
+  'function releaseValuation(string policyNumber)',
+  'function rejectValuation(string policyNumber)',
+  'function setMaxChangeBps(uint256 newMaxChangeBps)',
+  'event PolicyBound(string policyNumber, uint256 indexed tokenId, uint256 indexed vaultId)',
+  'event PolicyUnbound(string policyNumber)',
+  'event ValuationPropagated(string policyNumber, uint256 indexed requestId, uint256 indexed tokenId, uint256 vaultId, uint256 oldValue, uint256 newValue)',
+  'event CircuitBreakerTripped(string policyNumber, uint256 indexed requestId, uint256 currentValue, uint256 proposedValue)',
+  'event ValuationRejected(string policyNumber, uint256 indexed requestId)',
+  'event ValuationPending(string policyNumber, uint256 indexed requestId, uint256 applicableAt)',
+  'event MaxChangeUpdated(uint256 maxChangeBps)',
+])
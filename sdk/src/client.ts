@@ -0,0 +1,44 @@
+import type { Address } from 'viem'
+import type { ContractClientConfig } from './clients/base'
+import { ComplianceRegistryClient } from './clients/complianceRegistry'
+import { CSVLiquidityPoolClient } from './clients/csvLiquidityPool'
+import { CSVOracleClient } from './clients/csvOracle'
+import { CSVVaultClient } from './clients/csvVault'
+import { ERCRWACSVClient } from './clients/ercRwaCsv'
+
+export interface IYieldAddresses {
+  complianceRegistry: Address
+  csvOracle: Address
+  csvToken: Address
+  csvVault: Address
+  liquidityPool: Address
+}
+
+export interface IYieldClientConfig extends Omit<ContractClientConfig, 'address'> {
+  addresses: IYieldAddresses
+}
+
+export interface IYieldClient {
+  addresses: IYieldAddresses
+  complianceRegistry: ComplianceRegistryClient
+  csvOracle: CSVOracleClient
+  csvToken: ERCRWACSVClient
+  csvVault: CSVVaultClient
+  liquidityPool: CSVLiquidityPoolClient
+}
+
+/**
+ * Builds a client for every protocol contract. Without a `walletClient` only
+ * reads and simulations (with an explicit `account`) are available.
+ */
+export function createIYieldClient({ addresses, publicClient, walletClient }: IYieldClientConfig): IYieldClient {
+  const config = { publicClient, walletClient }
+  return {
+    addresses,
+    complianceRegistry: new ComplianceRegistryClient({ ...config, address: addresses.complianceRegistry }),
+    csvOracle: new CSVOracleClient({ ...config, address: addresses.csvOracle }),
+    csvToken: new ERCRWACSVClient({ ...config, address: addresses.csvToken }),
+    csvVault: new CSVVaultClient({ ...config, address: addresses.csvVault }),
+    liquidityPool: new CSVLiquidityPoolClient({ ...config, address: addresses.liquidityPool }),
+  }
+}
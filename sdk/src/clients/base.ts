@@ -0,0 +1,177 @@
+import {
+  ContractFunctionRevertedError,
+  type Abi,
+  type Account,
+  type Address,
+  type Chain,
+  type ContractFunctionArgs,
+  type ContractFunctionName,
+  type ContractFunctionReturnType,
+  type Hash,
+  type PublicClient,
+  type RawContractError,
+  type TransactionReceipt,
+  type Transport,
+  type WalletClient,
+} from 'viem'
+import { ContractRevertError, IYieldError, parseContractError, type ContractName } from '../errors'
+
+/**
+ * Options accepted by every state-changing call.
+ *
+ * With `simulate: true` the call is only executed against the current state
+ * (`eth_call`): the decoded return value is returned and nothing is sent. This
+ * is how callers dry-run a transaction or surface its revert reason up front.
+ */
+export interface WriteOptions {
+  simulate?: boolean
+  /** Sender; defaults to the wallet client's account. Required to simulate without a wallet. */
+  account?: Account | Address
+  value?: bigint
+  gas?: bigint
+  maxFeePerGas?: bigint
+  maxPriorityFeePerGas?: bigint
+  nonce?: number
+}
+
+export interface WriteResult<T> {
+  /** Value returned by the function, as seen by the simulation. */
+  result: T
+  /** Transaction hash; `undefined` when simulating. */
+  hash: Hash | undefined
+}
+
+export interface ContractClientConfig {
+  address: Address
+  publicClient: PublicClient<Transport, Chain | undefined>
+  walletClient?: WalletClient<Transport, Chain | undefined, Account | undefined>
+}
+
+function findRawError(error: unknown): RawContractError | undefined {
+  let cause = error as { name?: string; cause?: unknown } | undefined
+  while (cause) {
+    if (cause.name === 'RawContractError') return cause as RawContractError
+    cause = cause.cause as typeof cause
+  }
+  return undefined
+}
+
+type ReadName<TAbi extends Abi> = ContractFunctionName<TAbi, 'pure' | 'view'>
+type WriteName<TAbi extends Abi> = ContractFunctionName<TAbi, 'nonpayable' | 'payable'>
+
+/**
+ * Shared plumbing of the per-contract clients: reads, simulated writes and
+ * sent writes, with every revert converted into the contract's error class.
+ */
+export abstract class ContractClient<TAbi extends Abi> {
+  abstract readonly abi: TAbi
+  abstract readonly contractName: ContractName
+
+  readonly address: Address
+  protected readonly publicClient: ContractClientConfig['publicClient']
+  protected readonly walletClient: ContractClientConfig['walletClient']
+
+  constructor({ address, publicClient, walletClient }: ContractClientConfig) {
+    this.address = address
+    this.publicClient = publicClient
+    this.walletClient = walletClient
+  }
+
+  protected async read<
+    F extends ReadName<TAbi>,
+    const A extends ContractFunctionArgs<TAbi, 'pure' | 'view', F>,
+  >(functionName: F, args: A): Promise<ContractFunctionReturnType<TAbi, 'pure' | 'view', F, A>> {
+    try {
+      return (await this.publicClient.readContract({
+        address: this.address,
+        abi: this.abi as Abi,
+        functionName: functionName as string,
+        args: args as readonly unknown[],
+      })) as ContractFunctionReturnType<TAbi, 'pure' | 'view', F, A>
+    } catch (error) {
+      throw parseContractError(error, this.contractName)
+    }
+  }
+
+  protected async write<
+    F extends WriteName<TAbi>,
+    const A extends ContractFunctionArgs<TAbi, 'nonpayable' | 'payable', F>,
+  >(
+    functionName: F,
+    args: A,
+    options: WriteOptions = {}
+  ): Promise<WriteResult<ContractFunctionReturnType<TAbi, 'nonpayable' | 'payable', F, A>>> {
+    const { simulate, account = this.walletClient?.account, ...overrides } = options
+    if (!account) {
+      throw new IYieldError(`${this.contractName}.${String(functionName)}: no account to send from`)
+    }
+
+    let simulation
+    try {
+      simulation = await this.publicClient.simulateContract({
+        address: this.address,
+        abi: this.abi as Abi,
+        functionName: functionName as string,
+        args: args as readonly unknown[],
+        account,
+        ...overrides,
+      })
+    } catch (error) {
+      throw parseContractError(error, this.contractName)
+    }
+
+    const result = simulation.result as ContractFunctionReturnType<TAbi, 'nonpayable' | 'payable', F, A>
+    if (simulate) return { result, hash: undefined }
+
+    if (!this.walletClient) {
+      throw new IYieldError(`${this.contractName}.${String(functionName)}: a wallet client is required to send`)
+    }
+    try {
+      const hash = await this.walletClient.writeContract({
+        ...simulation.request,
+        // A wallet without a configured chain sends on whatever chain its node is on.
+        chain: this.walletClient.chain ?? null,
+      } as Parameters<NonNullable<ContractClientConfig['walletClient']>['writeContract']>[0])
+      return { result, hash }
+    } catch (error) {
+      throw parseContractError(error, this.contractName)
+    }
+  }
+
+  /**
+   * Waits for a transaction sent through this client to be mined. A reverted
+   * transaction is replayed against the state before its block to recover the
+   * revert reason, which is thrown as the contract's error class.
+   */
+  async waitForTransaction(hash: Hash): Promise<TransactionReceipt> {
+    const receipt = await this.publicClient.waitForTransactionReceipt({ hash })
+    if (receipt.status === 'success') return receipt
+    throw await this.replayRevert(hash, receipt.blockNumber)
+  }
+
+  private async replayRevert(hash: Hash, blockNumber: bigint): Promise<IYieldError> {
+    const transaction = await this.publicClient.getTransaction({ hash })
+    try {
+      await this.publicClient.call({
+        account: transaction.from,
+        to: transaction.to,
+        data: transaction.input,
+        value: transaction.value,
+        gas: transaction.gas,
+        blockNumber: blockNumber - BigInt(1),
+      })
+    } catch (error) {
+      const raw = findRawError(error)
+      const data = typeof raw?.data === 'object' ? raw.data.data : raw?.data
+      const revert = new ContractFunctionRevertedError({
+        abi: this.abi,
+        data,
+        functionName: 'unknown',
+        cause: error instanceof Error ? error : undefined,
+      })
+      return parseContractError(revert, this.contractName)
+    }
+    // The call succeeds on replay when the revert depended on state changed earlier in the same block.
+    return new ContractRevertError({ contract: this.contractName, code: 'UNKNOWN', reason: 'execution reverted' })
+  }
+}
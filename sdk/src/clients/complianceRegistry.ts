@@ -0,0 +1,227 @@
+import { keccak256, toHex, zeroHash, type Address, type Hex, type TypedDataDomain } from 'viem'
+import { complianceRegistryAbi } from '../abis'
+import { recoverKYCAttestationSigner } from '../compliance/attestations'
+import type {
+  ComplianceStatus,
+  JurisdictionInfo,
+  KYCAttestation,
+  KYCProvider,
+  TransferCheck,
+  TransferRestriction,
+} from '../types'
+import { IYieldError } from '../errors'
+import { ContractClient, type WriteOptions } from './base'
+
+export interface ComplianceParameters {
+  defaultLockupPeriod: bigint
+  kycValidityPeriod: bigint
+  accreditationValidityPeriod: bigint
+  autoRenewalEnabled: boolean
+}
+
+export interface JurisdictionRegistration {
+  code: bigint
+  countryCode: string
+  jurisdictionName: string
+  isAllowed: boolean
+  requiresAdditionalKYC: boolean
+  additionalLockupPeriod: bigint
+}
+
+/** Role identifiers of the registry's access control. */
+export const complianceRegistryRoles = {
+  admin: zeroHash,
+  complianceOfficer: keccak256(toHex('COMPLIANCE_OFFICER_ROLE')),
+  jurisdictionManager: keccak256(toHex('JURISDICTION_MANAGER_ROLE')),
+} as const satisfies Record<keyof ComplianceRoles, Hex>
+
+/** Registry roles an account holds, e.g. to decide which admin actions to offer. */
+export interface ComplianceRoles {
+  /** `DEFAULT_ADMIN_ROLE`: providers, parameters, pausing. */
+  admin: boolean
+  /** `COMPLIANCE_OFFICER_ROLE`: accreditation, restrictions, bulk imports. */
+  complianceOfficer: boolean
+  /** `JURISDICTION_MANAGER_ROLE`: registering and updating jurisdictions. */
+  jurisdictionManager: boolean
+}
+
+export class ComplianceRegistryClient extends ContractClient<typeof complianceRegistryAbi> {
+  readonly abi = complianceRegistryAbi
+  readonly contractName = 'ComplianceRegistry' as const
+
+  async getComplianceStatus(user: Address): Promise<ComplianceStatus> {
+    return this.read('getComplianceStatus', [user])
+  }
+
+  async isCompliant(user: Address): Promise<boolean> {
+    return this.read('isCompliant', [user])
+  }
+
+  async isTransferAllowed(from: Address, to: Address): Promise<TransferCheck> {
+    const [allowed, reason] = await this.read('isTransferAllowed', [from, to])
+    return { allowed, reason }
+  }
+
+  /** ERC-1404 code for the registry's checks alone; the amount does not affect them. */
+  async detectTransferRestriction(from: Address, to: Address, amount = BigInt(0)): Promise<TransferRestriction> {
+    return this.read('detectTransferRestriction', [from, to, amount])
+  }
+
+  async messageForTransferRestriction(code: number): Promise<string> {
+    return this.read('messageForTransferRestriction', [code])
+  }
+
+  async getJurisdictionInfo(code: bigint): Promise<JurisdictionInfo> {
+    return this.read('getJurisdictionInfo', [code])
+  }
+
+  async getKYCProvider(provider: Address): Promise<KYCProvider> {
+    return this.read('getKYCProvider', [provider])
+  }
+
+  async getRoles(account: Address): Promise<ComplianceRoles> {
+    const [admin, complianceOfficer, jurisdictionManager] = await Promise.all([
+      this.read('hasRole', [complianceRegistryRoles.admin, account]),
+      this.read('hasRole', [complianceRegistryRoles.complianceOfficer, account]),
+      this.read('hasRole', [complianceRegistryRoles.jurisdictionManager, account]),
+    ])
+    return { admin, complianceOfficer, jurisdictionManager }
+  }
+
+  /** EIP-712 domain KYC attestations for this registry are signed under. */
+  async getAttestationDomain(): Promise<TypedDataDomain> {
+    const [, name, version, chainId, verifyingContract] = await this.read('eip712Domain', [])
+    return { name, version, chainId: Number(chainId), verifyingContract }
+  }
+
+  async hashKYCAttestation(attestation: KYCAttestation): Promise<Hex> {
+    return this.read('hashKYCAttestation', [attestation])
+  }
+
+  /** Nonces are single-use per provider. */
+  async isNonceUsed(provider: Address, nonce: Hex): Promise<boolean> {
+    return this.read('isNonceUsed', [provider, nonce])
+  }
+
+  /** Verification fees the provider's attestations have earned and it has not withdrawn. */
+  async getProviderFees(provider: Address): Promise<bigint> {
+    return this.read('providerFees', [provider])
+  }
+
+  async getComplianceParameters(): Promise<ComplianceParameters> {
+    const [defaultLockupPeriod, kycValidityPeriod, accreditationValidityPeriod, autoRenewalEnabled] = await Promise.all([
+      this.read('defaultLockupPeriod', []),
+      this.read('kycValidityPeriod', []),
+      this.read('accreditationValidityPeriod', []),
+      this.read('autoRenewalEnabled', []),
+    ])
+    return { defaultLockupPeriod, kycValidityPeriod, accreditationValidityPeriod, autoRenewalEnabled }
+  }
+
+  async getTotals(): Promise<{ verifiedUsers: bigint; accreditedInvestors: bigint; restrictedUsers: bigint }> {
+    const [verifiedUsers, accreditedInvestors, restrictedUsers] = await Promise.all([
+      this.read('totalVerifiedUsers', []),
+      this.read('totalAccreditedInvestors', []),
+      this.read('totalRestrictedUsers', []),
+    ])
+    return { verifiedUsers, accreditedInvestors, restrictedUsers }
+  }
+
+  updateKYCStatus(
+    user: Address,
+    isVerified: boolean,
+    kycHash: string,
+    jurisdictionCode: bigint,
+    nonce: Hex,
+    options?: WriteOptions
+  ) {
+    return this.write('updateKYCStatus', [user, isVerified, kycHash, jurisdictionCode, nonce], options)
+  }
+
+  /** Relays a provider-signed attestation; `options.value` must be the provider's verification fee. */
+  submitKYCAttestation(attestation: KYCAttestation, signature: Hex, options?: WriteOptions) {
+    return this.write('submitKYCAttestation', [attestation, signature], options)
+  }
+
+  /**
+   * Relays a provider-signed attestation, attaching the signer's verification
+   * fee. Fails before sending if the signer is not an active provider.
+   */
+  async relayKYCAttestation(attestation: KYCAttestation, signature: Hex, options: WriteOptions = {}) {
+    const provider = await recoverKYCAttestationSigner(await this.getAttestationDomain(), attestation, signature)
+    const { isActive, verificationFee } = await this.getKYCProvider(provider)
+    if (!isActive) {
+      throw new IYieldError(`ComplianceRegistry.relayKYCAttestation: ${provider} is not an active KYC provider`)
+    }
+    return this.submitKYCAttestation(attestation, signature, { ...options, value: verificationFee })
+  }
+
+  withdrawProviderFees(options?: WriteOptions) {
+    return this.write('withdrawProviderFees', [], options)
+  }
+
+  /** Pass `customExpiry` 0 to use the registry's accreditation validity period. */
+  updateAccreditationStatus(user: Address, isAccredited: boolean, customExpiry: bigint, options?: WriteOptions) {
+    return this.write('updateAccreditationStatus', [user, isAccredited, customExpiry], options)
+  }
+
+  restrictUser(user: Address, reason: string, options?: WriteOptions) {
+    return this.write('restrictUser', [user, reason], options)
+  }
+
+  unrestrictUser(user: Address, options?: WriteOptions) {
+    return this.write('unrestrictUser', [user], options)
+  }
+
+  registerJurisdiction(jurisdiction: JurisdictionRegistration, options?: WriteOptions) {
+    const { code, countryCode, jurisdictionName, isAllowed, requiresAdditionalKYC, additionalLockupPeriod } =
+      jurisdiction
+    return this.write(
+      'registerJurisdiction',
+      [code, countryCode, jurisdictionName, isAllowed, requiresAdditionalKYC, additionalLockupPeriod],
+      options
+    )
+  }
+
+  registerKYCProvider(
+    provider: Address,
+    details: Pick<KYCProvider, 'name' | 'endpoint' | 'verificationFee' | 'supportedJurisdictions'>,
+    options?: WriteOptions
+  ) {
+    const { name, endpoint, verificationFee, supportedJurisdictions } = details
+    return this.write(
+      'registerKYCProvider',
+      [provider, name, endpoint, verificationFee, supportedJurisdictions],
+      options
+    )
+  }
+
+  updateKYCProviderStatus(provider: Address, isActive: boolean, options?: WriteOptions) {
+    return this.write('updateKYCProviderStatus', [provider, isActive], options)
+  }
+
+  batchUpdateCompliance(users: readonly Address[], statuses: readonly ComplianceStatus[], options?: WriteOptions) {
+    return this.write('batchUpdateCompliance', [users, statuses], options)
+  }
+
+  autoRenewStatus(user: Address, options?: WriteOptions) {
+    return this.write('autoRenewStatus', [user], options)
+  }
+
+  updateComplianceParameters(parameters: ComplianceParameters, options?: WriteOptions) {
+    const { defaultLockupPeriod, kycValidityPeriod, accreditationValidityPeriod, autoRenewalEnabled } = parameters
+    return this.write(
+      'updateComplianceParameters',
+      [defaultLockupPeriod, kycValidityPeriod, accreditationValidityPeriod, autoRenewalEnabled],
+      options
+    )
+  }
+
+  pause(options?: WriteOptions) {
+    return this.write('pause', [], options)
+  }
+
+  unpause(options?: WriteOptions) {
+    return this.write('unpause', [], options)
+  }
+}
@@ -0,0 +1,248 @@
+import type { Address } from 'viem'
+import { csvLiquidityPoolAbi } from '../abis'
+import type {
+  LossRecord,
+  PoolConfig,
+  TrancheInfo,
+  TrancheType,
+  UserPosition,
+  WithdrawalPreview,
+  WithdrawalRequest,
+  YieldDistribution,
+} from '../types'
+import { ContractClient, type WriteOptions } from './base'
+
+const BASIS_POINTS = BigInt(10000)
+
+/**
+ * Shares to withdraw to receive `amount` before fees, rounded up so the
+ * withdrawal is worth at least `amount`. Callers should cap the result at the
+ * user's shares.
+ */
+export function sharesForAmount(tranche: TrancheInfo, amount: bigint): bigint {
+  if (tranche.totalDeposits === BigInt(0)) return BigInt(0)
+  return (amount * tranche.totalShares + tranche.totalDeposits - BigInt(1)) / tranche.totalDeposits
+}
+
+/**
+ * Mirrors the payout of `CSVLiquidityPool.withdraw`: the shares' value, less
+ * `withdrawalFeeRate` while the user's lockup is running. The lockup restarts
+ * on every deposit. `now` is a unix timestamp in seconds, normally the latest
+ * block's.
+ */
+export function previewWithdrawal(
+  tranche: TrancheInfo,
+  position: UserPosition,
+  shares: bigint,
+  withdrawalFeeRate: bigint,
+  now: bigint
+): WithdrawalPreview {
+  const grossAmount = tranche.totalShares === BigInt(0) ? BigInt(0) : (shares * tranche.totalDeposits) / tranche.totalShares
+  const isEarlyWithdrawal = now - position.depositTimestamp < tranche.lockupPeriod
+  const fee = isEarlyWithdrawal ? (grossAmount * withdrawalFeeRate) / BASIS_POINTS : BigInt(0)
+  const lockupRemaining = position.lockupExpiry > now ? position.lockupExpiry - now : BigInt(0)
+  return { shares, grossAmount, fee, netAmount: grossAmount - fee, isEarlyWithdrawal, lockupRemaining }
+}
+
+/**
+ * Seconds until a queued withdrawal is likely to fill: the liquidity still
+ * missing for it and everything ahead of it in the queue, at the pace
+ * liquidity was paid out to the queue recently (`filledValue` over `period`
+ * seconds). Zero when available liquidity already covers it; undefined when
+ * nothing was filled recently to extrapolate from.
+ */
+export function estimateWithdrawalWait({
+  valueAhead,
+  value,
+  availableLiquidity,
+  filledValue,
+  period,
+}: {
+  valueAhead: bigint
+  value: bigint
+  availableLiquidity: bigint
+  filledValue: bigint
+  period: bigint
+}): bigint | undefined {
+  const missing = valueAhead + value - availableLiquidity
+  if (missing <= BigInt(0)) return BigInt(0)
+  if (filledValue === BigInt(0) || period === BigInt(0)) return undefined
+  return (missing * period + filledValue - BigInt(1)) / filledValue
+}
+
+export class CSVLiquidityPoolClient extends ContractClient<typeof csvLiquidityPoolAbi> {
+  readonly abi = csvLiquidityPoolAbi
+  readonly contractName = 'CSVLiquidityPool' as const
+
+  async getBaseToken(): Promise<Address> {
+    return this.read('baseToken', [])
+  }
+
+  async getTotalPoolValue(): Promise<bigint> {
+    return this.read('totalPoolValue', [])
+  }
+
+  /** Share of the pool lent out, in basis points. */
+  async getPoolUtilization(): Promise<bigint> {
+    return this.read('getPoolUtilization', [])
+  }
+
+  /** Base tokens lent out through `deployCapital` and not yet returned. */
+  async getDeployedCapital(): Promise<bigint> {
+    return this.read('deployedCapital', [])
+  }
+
+  async getPoolConfig(): Promise<PoolConfig> {
+    const [seniorYieldRate, juniorYieldRate, protocolFeeRate, performanceFeeRate, withdrawalFeeRate, maxUtilization] =
+      await this.read('poolConfig', [])
+    return { seniorYieldRate, juniorYieldRate, protocolFeeRate, performanceFeeRate, withdrawalFeeRate, maxUtilization }
+  }
+
+  async getTrancheInfo(tranche: TrancheType): Promise<TrancheInfo> {
+    const [totalDeposits, totalShares, yieldRate, priority, minDeposit, lockupPeriod, isActive] = await this.read(
+      'getTrancheInfo',
+      [tranche]
+    )
+    return { totalDeposits, totalShares, yieldRate, priority, minDeposit, lockupPeriod, isActive }
+  }
+
+  async getUserPosition(tranche: TrancheType, user: Address): Promise<UserPosition> {
+    const [shares, deposits, currentValue, depositTimestamp, lockupExpiry, claimableYield, compoundedYield] =
+      await this.read('getUserPosition', [tranche, user])
+    return { shares, deposits, currentValue, depositTimestamp, lockupExpiry, claimableYield, compoundedYield }
+  }
+
+  /** Pool value that can be paid out now without exceeding `maxUtilization`. */
+  async getAvailableLiquidity(): Promise<bigint> {
+    return this.read('availableLiquidity', [])
+  }
+
+  /** Open requests of a tranche's withdrawal queue, in the order they will be filled. */
+  async getWithdrawalQueue(tranche: TrancheType): Promise<WithdrawalRequest[]> {
+    const [head, length] = await this.read('getWithdrawalQueue', [tranche])
+    const requests = await Promise.all(
+      Array.from({ length: Number(length - head) }, async (_, index) => {
+        const requestId = head + BigInt(index)
+        return { requestId, ...(await this.read('getWithdrawalRequest', [tranche, requestId])) }
+      })
+    )
+    return requests.filter((request) => !request.cancelled && request.filled < request.shares)
+  }
+
+  /** Shares of `user` waiting in the queue; they cannot be withdrawn or queued again. */
+  async getQueuedShares(tranche: TrancheType, user: Address): Promise<bigint> {
+    return this.read('getQueuedShares', [tranche, user])
+  }
+
+  async getYieldHistory(): Promise<YieldDistribution[]> {
+    const length = await this.read('getYieldHistoryLength', [])
+    return Promise.all(
+      Array.from({ length: Number(length) }, (_, index) => this.read('getYieldHistory', [BigInt(index)]))
+    )
+  }
+
+  async getLossHistory(): Promise<LossRecord[]> {
+    const length = await this.read('getLossHistoryLength', [])
+    return Promise.all(Array.from({ length: Number(length) }, (_, index) => this.read('getLossHistory', [BigInt(index)])))
+  }
+
+  /** Junior deposits as a share of the pool's capital, in basis points: what can be lost before senior is hit. */
+  async getSubordination(): Promise<bigint> {
+    return this.read('getSubordination', [])
+  }
+
+  /** Unix timestamp until which withdrawals are suspended after the latest loss. */
+  async getImpairedUntil(): Promise<bigint> {
+    return this.read('impairedUntil', [])
+  }
+
+  /** Deposits `amount` of the base token; the pool must already hold an allowance for it. */
+  deposit(tranche: TrancheType, amount: bigint, options?: WriteOptions) {
+    return this.write('deposit', [tranche, amount], options)
+  }
+
+  withdraw(tranche: TrancheType, shares: bigint, options?: WriteOptions) {
+    return this.write('withdraw', [tranche, shares], options)
+  }
+
+  /** Queues `shares` to be paid out by `processWithdrawals` once the pool has the liquidity. */
+  requestWithdrawal(tranche: TrancheType, shares: bigint, options?: WriteOptions) {
+    return this.write('requestWithdrawal', [tranche, shares], options)
+  }
+
+  cancelWithdrawal(tranche: TrancheType, requestId: bigint, options?: WriteOptions) {
+    return this.write('cancelWithdrawal', [tranche, requestId], options)
+  }
+
+  /** Fills up to `maxRequests` queued withdrawals, senior first; anyone may call it. */
+  processWithdrawals(maxRequests: bigint, options?: WriteOptions) {
+    return this.write('processWithdrawals', [maxRequests], options)
+  }
+
+  claimYield(tranche: TrancheType, options?: WriteOptions) {
+    return this.write('claimYield', [tranche], options)
+  }
+
+  /** Reinvests the claimable yield, less the performance fee, as shares of the same tranche. */
+  compoundYield(tranche: TrancheType, options?: WriteOptions) {
+    return this.write('compoundYield', [tranche], options)
+  }
+
+  distributeYield(totalYield: bigint, options?: WriteOptions) {
+    return this.write('distributeYield', [totalYield], options)
+  }
+
+  /** Writes `amount` of deployed capital off, junior first; requires `LOSS_REPORTER_ROLE`. */
+  recordLoss(amount: bigint, reason: string, options?: WriteOptions) {
+    return this.write('recordLoss', [amount, reason], options)
+  }
+
+  setImpairmentPeriod(period: bigint, options?: WriteOptions) {
+    return this.write('setImpairmentPeriod', [period], options)
+  }
+
+  async isTrancheWrapper(wrapper: Address): Promise<boolean> {
+    return this.read('trancheWrappers', [wrapper])
+  }
+
+  /** Exempts an ERC-4626 tranche wrapper from the minimum deposit and early withdrawal fee. */
+  setTrancheWrapper(wrapper: Address, enabled: boolean, options?: WriteOptions) {
+    return this.write('setTrancheWrapper', [wrapper, enabled], options)
+  }
+
+  configureTrancheData(
+    tranche: TrancheType,
+    yieldRate: bigint,
+    minDeposit: bigint,
+    lockupPeriod: bigint,
+    options?: WriteOptions
+  ) {
+    return this.write('configureTrancheData', [tranche, yieldRate, minDeposit, lockupPeriod], options)
+  }
+
+  updatePoolConfig(config: PoolConfig, options?: WriteOptions) {
+    return this.write('updatePoolConfig', [config], options)
+  }
+
+  /** Lends `amount` of the pool's capital to `to`, up to `maxUtilization`; requires `POOL_MANAGER_ROLE`. */
+  deployCapital(to: Address, amount: bigint, options?: WriteOptions) {
+    return this.write('deployCapital', [to, amount], options)
+  }
+
+  /** Repays deployed capital from the caller, who must have approved the pool; requires `POOL_MANAGER_ROLE`. */
+  returnCapital(amount: bigint, options?: WriteOptions) {
+    return this.write('returnCapital', [amount], options)
+  }
+
+  withdrawProtocolFees(to: Address, amount: bigint, options?: WriteOptions) {
+    return this.write('withdrawProtocolFees', [to, amount], options)
+  }
+
+  pause(options?: WriteOptions) {
+    return this.write('pause', [], options)
+  }
+
+  unpause(options?: WriteOptions) {
+    return this.write('unpause', [], options)
+  }
+}
@@ -0,0 +1,299 @@
+import type { Address, Hex } from 'viem'
+import { csvOracleAbi } from '../abis'
+import type {
+  ConsensusConfig,
+  Dispute,
+  DisputeStatus,
+  LatestValuation,
+  OracleInfo,
+  OracleResponse,
+  Unbonding,
+  ValuationRequest,
+} from '../types'
+import { ContractClient, type WriteOptions } from './base'
+
+export interface OracleFees {
+  requestFee: bigint
+  oracleReward: bigint
+  protocolFeeRate: bigint
+}
+
+export interface DisputeConfig {
+  disputeBond: bigint
+  /** Share of a deviating oracle's stake slashed when a dispute is overturned, in basis points. */
+  disputeSlashRate: bigint
+}
+
+export interface RevealConfig {
+  /** Seconds after a request's deadline during which committed values can be revealed. */
+  revealPeriod: bigint
+  /** Share of stake slashed from an oracle that commits but does not reveal, in basis points. */
+  missedRevealSlashRate: bigint
+}
+
+export class CSVOracleClient extends ContractClient<typeof csvOracleAbi> {
+  readonly abi = csvOracleAbi
+  readonly contractName = 'CSVOracle' as const
+
+  async getValuationRequest(requestId: bigint): Promise<ValuationRequest> {
+    return this.read('getValuationRequest', [requestId])
+  }
+
+  async getOracleResponse(requestId: bigint, oracle: Address): Promise<OracleResponse> {
+    return this.read('getOracleResponse', [requestId, oracle])
+  }
+
+  async getAssignedOracles(requestId: bigint): Promise<readonly Address[]> {
+    return this.read('getAssignedOracles', [requestId])
+  }
+
+  async getActiveOracleCount(): Promise<bigint> {
+    return this.read('getActiveOracleCount', [])
+  }
+
+  async getOracleInfo(oracle: Address): Promise<OracleInfo> {
+    return this.read('getOracleInfo', [oracle])
+  }
+
+  /** Every oracle that has ever registered, active or not. */
+  async getRegisteredOracles(): Promise<readonly Address[]> {
+    return this.read('getRegisteredOracles', [])
+  }
+
+  async getUnbonding(oracle: Address): Promise<Unbonding> {
+    const [amount, availableAt] = await this.read('unbondings', [oracle])
+    return { amount, availableAt }
+  }
+
+  /** True once `oracle` is deregistered for low reputation, until an oracle manager approves its remediation. */
+  async needsRemediation(oracle: Address): Promise<boolean> {
+    return this.read('needsRemediation', [oracle])
+  }
+
+  /** Seconds unbonding stake stays slashable before it can be withdrawn. */
+  async getUnbondingPeriod(): Promise<bigint> {
+    return this.read('unbondingPeriod', [])
+  }
+
+  /**
+   * Agreed value of the policy's most recent request; `isFinalized` is false
+   * until consensus and `isDisputed` is true while a dispute is open.
+   */
+  async getLatestValuation(policyNumber: string): Promise<LatestValuation> {
+    const [value, isFinalized, isDisputed] = await this.read('getLatestValuation', [policyNumber])
+    return { value, isFinalized, isDisputed }
+  }
+
+  /** ID of the policy's most recent valuation request; zero if it has never been valued. */
+  async getLatestRequestId(policyNumber: string): Promise<bigint> {
+    return this.read('policyToLatestRequest', [policyNumber])
+  }
+
+  async getDispute(requestId: bigint): Promise<Dispute> {
+    const dispute = await this.read('getDispute', [requestId])
+    return { ...dispute, status: dispute.status as DisputeStatus }
+  }
+
+  async getDisputeConfig(): Promise<DisputeConfig> {
+    const [disputeBond, disputeSlashRate] = await Promise.all([
+      this.read('disputeBond', []),
+      this.read('disputeSlashRate', []),
+    ])
+    return { disputeBond, disputeSlashRate }
+  }
+
+  /** Hash `oracle` committed to for the request; zero if it has not committed. */
+  async getCommitment(requestId: bigint, oracle: Address): Promise<Hex> {
+    return this.read('commitments', [requestId, oracle])
+  }
+
+  /** Seed the request's oracles were drawn from; replay the draw with `selectOracles`. */
+  async getSelectionSeed(requestId: bigint): Promise<bigint> {
+    return this.read('selectionSeeds', [requestId])
+  }
+
+  /** Reputation score times stake; zero while the oracle cannot be selected. */
+  async getSelectionWeight(oracle: Address): Promise<bigint> {
+    return this.read('getSelectionWeight', [oracle])
+  }
+
+  /** Whether `oracle` is left out of draws for requests by `party`. */
+  async isConflicted(oracle: Address, party: Address): Promise<boolean> {
+    return this.read('isConflicted', [oracle, party])
+  }
+
+  /** Zero address until one is set; valuation requests revert until then. */
+  async getRandomnessSource(): Promise<Address> {
+    return this.read('randomnessSource', [])
+  }
+
+  /** Contract notified of every finalized valuation, normally the ValuationRelay; zero address if none. */
+  async getValuationConsumer(): Promise<Address> {
+    return this.read('valuationConsumer', [])
+  }
+
+  async getRevealConfig(): Promise<RevealConfig> {
+    const [revealPeriod, missedRevealSlashRate] = await Promise.all([
+      this.read('revealPeriod', []),
+      this.read('missedRevealSlashRate', []),
+    ])
+    return { revealPeriod, missedRevealSlashRate }
+  }
+
+  async getConsensusConfig(): Promise<ConsensusConfig> {
+    const [minOracles, maxOracles, consensusThreshold, disputePeriod, maxDeviationPercent, responsePeriod] =
+      await this.read('consensusConfig', [])
+    return { minOracles, maxOracles, consensusThreshold, disputePeriod, maxDeviationPercent, responsePeriod }
+  }
+
+  async getFees(): Promise<OracleFees> {
+    const [requestFee, oracleReward, protocolFeeRate] = await Promise.all([
+      this.read('requestFee', []),
+      this.read('oracleReward', []),
+      this.read('protocolFeeRate', []),
+    ])
+    return { requestFee, oracleReward, protocolFeeRate }
+  }
+
+  /** Fees set aside for oracle rewards; rewards are capped at what is left in it. */
+  async getRewardPool(): Promise<bigint> {
+    return this.read('rewardPool', [])
+  }
+
+  /**
+   * Registers the sender as an oracle, or re-registers it on top of its bonded
+   * stake; `options.value` must cover `stakingAmount`.
+   */
+  registerOracle(name: string, endpoint: string, stakingAmount: bigint, options?: WriteOptions) {
+    return this.write('registerOracle', [name, endpoint, stakingAmount], options)
+  }
+
+  /** Adds `options.value` to the sender's bonded stake. */
+  increaseStake(options?: WriteOptions) {
+    return this.write('increaseStake', [], options)
+  }
+
+  /** Starts unbonding `amount` of the sender's stake; a new request restarts the unbonding period. */
+  requestUnbond(amount: bigint, options?: WriteOptions) {
+    return this.write('requestUnbond', [amount], options)
+  }
+
+  /** Withdraws the sender's unbonding stake once the unbonding period is over. */
+  withdrawStake(options?: WriteOptions) {
+    return this.write('withdrawStake', [], options)
+  }
+
+  /** Requests a valuation; `options.value` must cover the request fee. `result` is the request ID. */
+  requestValuation(policyNumber: string, deadline: bigint, ipfsHash: string, options?: WriteOptions) {
+    return this.write('requestValuation', [policyNumber, deadline, ipfsHash], options)
+  }
+
+  /**
+   * Commits the sender to a value before the deadline. Build `commitment`
+   * with `valuationCommitment` and keep its salt for `revealValuation`.
+   */
+  commitValuation(requestId: bigint, commitment: Hex, options?: WriteOptions) {
+    return this.write('commitValuation', [requestId, commitment], options)
+  }
+
+  /** Reveals a committed value after the deadline and before the reveal period ends. */
+  revealValuation(
+    requestId: bigint,
+    value: bigint,
+    salt: Hex,
+    proofHash: Hex,
+    documentationURI: string,
+    options?: WriteOptions
+  ) {
+    return this.write('revealValuation', [requestId, value, salt, proofHash, documentationURI], options)
+  }
+
+  /**
+   * Penalizes oracles that committed but did not reveal, then finalizes; only
+   * after the reveal period. A request that cannot reach consensus is closed
+   * with `ValuationFailed`.
+   */
+  finalizeValuation(requestId: bigint, options?: WriteOptions) {
+    return this.write('finalizeValuation', [requestId], options)
+  }
+
+  /** Disputes a finalized valuation; `options.value` must cover the dispute bond. */
+  raiseDispute(requestId: bigint, reason: string, options?: WriteOptions) {
+    return this.write('raiseDispute', [requestId, reason], options)
+  }
+
+  /**
+   * Upholds or overturns an open dispute. Overturning slashes the oracles that
+   * deviated from `correctedValue`; `result` is the re-valuation request ID,
+   * or zero when too few oracles are left to request one.
+   */
+  resolveDispute(requestId: bigint, overturn: boolean, correctedValue: bigint, options?: WriteOptions) {
+    return this.write('resolveDispute', [requestId, overturn, correctedValue], options)
+  }
+
+  /** Declares a tie between the sending oracle and `party`; only an oracle manager can clear it. */
+  declareConflict(party: Address, options?: WriteOptions) {
+    return this.write('declareConflict', [party], options)
+  }
+
+  setOracleConflict(oracle: Address, party: Address, conflicted: boolean, options?: WriteOptions) {
+    return this.write('setOracleConflict', [oracle, party, conflicted], options)
+  }
+
+  /** Lets an oracle deregistered for low reputation register again, with a fresh track record. */
+  approveRemediation(oracle: Address, options?: WriteOptions) {
+    return this.write('approveRemediation', [oracle], options)
+  }
+
+  updateUnbondingPeriod(unbondingPeriod: bigint, options?: WriteOptions) {
+    return this.write('updateUnbondingPeriod', [unbondingPeriod], options)
+  }
+
+  /** Sets the source of selection seeds, such as a VRF adapter; it cannot be unset. */
+  setRandomnessSource(source: Address, options?: WriteOptions) {
+    return this.write('setRandomnessSource', [source], options)
+  }
+
+  /** Pass the zero address to stop pushing finalized valuations. */
+  setValuationConsumer(consumer: Address, options?: WriteOptions) {
+    return this.write('setValuationConsumer', [consumer], options)
+  }
+
+  updateDisputeConfig(config: DisputeConfig, options?: WriteOptions) {
+    return this.write('updateDisputeConfig', [config.disputeBond, config.disputeSlashRate], options)
+  }
+
+  updateRevealConfig(config: RevealConfig, options?: WriteOptions) {
+    return this.write('updateRevealConfig', [config.revealPeriod, config.missedRevealSlashRate], options)
+  }
+
+  updateConsensusConfig(config: ConsensusConfig, options?: WriteOptions) {
+    return this.write('updateConsensusConfig', [config], options)
+  }
+
+  updateFees(fees: OracleFees, options?: WriteOptions) {
+    return this.write('updateFees', [fees.requestFee, fees.oracleReward, fees.protocolFeeRate], options)
+  }
+
+  slashOracle(oracle: Address, amount: bigint, reason: string, options?: WriteOptions) {
+    return this.write('slashOracle', [oracle, amount, reason], options)
+  }
+
+  /** Adds `options.value` to the reward pool, e.g. to pay for revaluations after overturned disputes. */
+  fundRewardPool(options?: WriteOptions) {
+    return this.write('fundRewardPool', [], options)
+  }
+
+  /** Sends the admin the contract's balance less staked funds, open dispute bonds and the reward pool. */
+  withdrawProtocolFees(options?: WriteOptions) {
+    return this.write('withdrawProtocolFees', [], options)
+  }
+
+  pause(options?: WriteOptions) {
+    return this.write('pause', [], options)
+  }
+
+  unpause(options?: WriteOptions) {
+    return this.write('unpause', [], options)
+  }
+}
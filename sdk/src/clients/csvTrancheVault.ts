@@ -0,0 +1,109 @@
+import type { Address } from 'viem'
+import { csvTrancheVaultAbi } from '../abis'
+import type { TrancheType } from '../types'
+import { ContractClient, type WriteOptions } from './base'
+
+const BASIS_POINTS = BigInt(10000)
+
+/**
+ * ERC-4626 wrapper of one pool tranche. Its `previewWithdraw`/`previewRedeem`
+ * charge the early withdrawal fee whether or not the owner's lockup has
+ * ended; use `previewRedeemFor` to preview a given owner's redemption.
+ */
+export class CSVTrancheVaultClient extends ContractClient<typeof csvTrancheVaultAbi> {
+  readonly abi = csvTrancheVaultAbi
+  readonly contractName = 'CSVTrancheVault' as const
+
+  async getPool(): Promise<Address> {
+    return this.read('pool', [])
+  }
+
+  async getTranche(): Promise<TrancheType> {
+    return this.read('tranche', [])
+  }
+
+  async balanceOf(account: Address): Promise<bigint> {
+    return this.read('balanceOf', [account])
+  }
+
+  async totalSupply(): Promise<bigint> {
+    return this.read('totalSupply', [])
+  }
+
+  /** Idle base tokens, the tranche position and its claimable yield net of the performance fee. */
+  async totalAssets(): Promise<bigint> {
+    return this.read('totalAssets', [])
+  }
+
+  async convertToShares(assets: bigint): Promise<bigint> {
+    return this.read('convertToShares', [assets])
+  }
+
+  /** Value of `shares` before the early withdrawal fee. */
+  async convertToAssets(shares: bigint): Promise<bigint> {
+    return this.read('convertToAssets', [shares])
+  }
+
+  /** Zero unless `receiver` is compliant and the tranche takes deposits. */
+  async maxDeposit(receiver: Address): Promise<bigint> {
+    return this.read('maxDeposit', [receiver])
+  }
+
+  /** Capped by the pool's liquidity; zero behind the withdrawal queue and during impairment. */
+  async maxWithdraw(owner: Address): Promise<bigint> {
+    return this.read('maxWithdraw', [owner])
+  }
+
+  async maxRedeem(owner: Address): Promise<bigint> {
+    return this.read('maxRedeem', [owner])
+  }
+
+  async previewDeposit(assets: bigint): Promise<bigint> {
+    return this.read('previewDeposit', [assets])
+  }
+
+  /** Assets `owner` would receive for `shares`, less the early withdrawal fee while their lockup runs. */
+  async previewRedeemFor(owner: Address, shares: bigint): Promise<bigint> {
+    const [assets, feeRate] = await Promise.all([
+      this.read('convertToAssets', [shares]),
+      this.read('withdrawalFeeRate', [owner]),
+    ])
+    return assets - (assets * feeRate + BASIS_POINTS - BigInt(1)) / BASIS_POINTS
+  }
+
+  /** Unix timestamp from which `holder` redeems without the early withdrawal fee. */
+  async getLockupExpiry(holder: Address): Promise<bigint> {
+    return this.read('lockupExpiry', [holder])
+  }
+
+  /** Early withdrawal fee `holder` would pay now, in basis points. */
+  async getWithdrawalFeeRate(holder: Address): Promise<bigint> {
+    return this.read('withdrawalFeeRate', [holder])
+  }
+
+  /** Deposits `assets` of the base token for `receiver`; the wrapper must already hold an allowance for it. */
+  deposit(assets: bigint, receiver: Address, options?: WriteOptions) {
+    return this.write('deposit', [assets, receiver], options)
+  }
+
+  mint(shares: bigint, receiver: Address, options?: WriteOptions) {
+    return this.write('mint', [shares, receiver], options)
+  }
+
+  withdraw(assets: bigint, receiver: Address, owner: Address, options?: WriteOptions) {
+    return this.write('withdraw', [assets, receiver, owner], options)
+  }
+
+  redeem(shares: bigint, receiver: Address, owner: Address, options?: WriteOptions) {
+    return this.write('redeem', [shares, receiver, owner], options)
+  }
+
+  transfer(to: Address, shares: bigint, options?: WriteOptions) {
+    return this.write('transfer', [to, shares], options)
+  }
+
+  /** Reinvests claimable yield and idle base tokens in the tranche; anyone may call it. */
+  harvest(options?: WriteOptions) {
+    return this.write('harvest', [], options)
+  }
+}
@@ -0,0 +1,189 @@
+import { keccak256, toBytes, type Address, type Hex } from 'viem'
+import { csvVaultAbi } from '../abis'
+import type { Auction, AuctionConfig, CarrierExposure, CarrierLimits, VaultConfig, VaultPosition } from '../types'
+import { ContractClient, type WriteOptions } from './base'
+
+/** CSVVault's key for a carrier: keccak256 of its `CSVMetadata.carrierName`. */
+export function carrierKey(carrierName: string): Hex {
+  return keccak256(toBytes(carrierName))
+}
+
+export class CSVVaultClient extends ContractClient<typeof csvVaultAbi> {
+  readonly abi = csvVaultAbi
+  readonly contractName = 'CSVVault' as const
+
+  async getVaultPosition(vaultId: bigint): Promise<VaultPosition> {
+    return this.read('getVaultPosition', [vaultId])
+  }
+
+  async getUserVaults(user: Address): Promise<readonly bigint[]> {
+    return this.read('getUserVaults', [user])
+  }
+
+  /** Loan-to-value ratio of a vault in basis points. */
+  async getVaultLTV(vaultId: bigint): Promise<bigint> {
+    return this.read('getVaultLTV', [vaultId])
+  }
+
+  async isLiquidatable(vaultId: bigint): Promise<boolean> {
+    return this.read('isLiquidatable', [vaultId])
+  }
+
+  async getVaultConfig(): Promise<VaultConfig> {
+    const [maxLTV, liquidationPenalty, minCollateralValue, stabilityFee, isEnabled] = await this.read('vaultConfig', [])
+    return { maxLTV, liquidationPenalty, minCollateralValue, stabilityFee, isEnabled }
+  }
+
+  async getTotals(): Promise<{ totalCollateralValue: bigint; totalDebt: bigint; liquidationReserve: bigint }> {
+    const [totalCollateralValue, totalDebt, liquidationReserve] = await Promise.all([
+      this.read('totalCollateralValue', []),
+      this.read('totalDebt', []),
+      this.read('liquidationReserve', []),
+    ])
+    return { totalCollateralValue, totalDebt, liquidationReserve }
+  }
+
+  async getCarrierExposure(carrier: Hex): Promise<CarrierExposure> {
+    const [exposure, shareBps] = await this.read('getCarrierExposure', [carrier])
+    return { carrier, exposure, shareBps }
+  }
+
+  /** Every carrier with a vault opened against its policies. */
+  async getCarrierExposures(): Promise<CarrierExposure[]> {
+    const [[carriers, exposures], totalDebt] = await Promise.all([
+      this.read('getCarrierExposures', []),
+      this.read('totalDebt', []),
+    ])
+    return carriers.map((carrier, index) => ({
+      carrier,
+      exposure: exposures[index],
+      shareBps: totalDebt === BigInt(0) ? BigInt(0) : (exposures[index] * BigInt(10000)) / totalDebt,
+    }))
+  }
+
+  async getCarrierLimits(): Promise<CarrierLimits> {
+    const [maxCarrierBps, carrierCapFloor, minPolicyVintage] = await Promise.all([
+      this.read('maxCarrierBps', []),
+      this.read('carrierCapFloor', []),
+      this.read('minPolicyVintage', []),
+    ])
+    return { maxCarrierBps, carrierCapFloor, minPolicyVintage }
+  }
+
+  /** Age in seconds past which a vault's valuation blocks minting and closing. */
+  async getMaxValuationAge(): Promise<bigint> {
+    return this.read('maxValuationAge', [])
+  }
+
+  /** When the vault's collateral was last valued, as a unix timestamp. */
+  async getCollateralValuedAt(vaultId: bigint): Promise<bigint> {
+    return this.read('collateralValuedAt', [vaultId])
+  }
+
+  /** Whether the vault needs a revaluation before it can mint or close. */
+  async isValuationStale(vaultId: bigint): Promise<boolean> {
+    return this.read('isValuationStale', [vaultId])
+  }
+
+  async getAuction(auctionId: bigint): Promise<Auction> {
+    return this.read('getAuction', [auctionId])
+  }
+
+  /** Current price of an active auction, in CSV tokens. */
+  async getAuctionPrice(auctionId: bigint): Promise<bigint> {
+    return this.read('getAuctionPrice', [auctionId])
+  }
+
+  async getAuctionConfig(): Promise<AuctionConfig> {
+    const [startPriceBps, floorPriceBps, duration, liquidatorShareBps] = await this.read('auctionConfig', [])
+    return { startPriceBps, floorPriceBps, duration, liquidatorShareBps }
+  }
+
+  /** Whether the compliance registry clears `bidder` to bid in auctions. */
+  async isEligibleBidder(bidder: Address): Promise<boolean> {
+    return this.read('isEligibleBidder', [bidder])
+  }
+
+  /** CSV tokens owed to `account` from settled auctions. */
+  async getProceeds(account: Address): Promise<bigint> {
+    return this.read('proceeds', [account])
+  }
+
+  /** Opens a vault against an ERCRWACSV token; `result` is the new vault ID. */
+  openVault(tokenId: bigint, collateralValue: bigint, options?: WriteOptions) {
+    return this.write('openVault', [tokenId, collateralValue], options)
+  }
+
+  mintTokens(vaultId: bigint, amount: bigint, options?: WriteOptions) {
+    return this.write('mintTokens', [vaultId, amount], options)
+  }
+
+  burnTokens(vaultId: bigint, amount: bigint, options?: WriteOptions) {
+    return this.write('burnTokens', [vaultId, amount], options)
+  }
+
+  closeVault(vaultId: bigint, options?: WriteOptions) {
+    return this.write('closeVault', [vaultId], options)
+  }
+
+  updateCollateralValuation(vaultId: bigint, newValue: bigint, options?: WriteOptions) {
+    return this.write('updateCollateralValuation', [vaultId, newValue], options)
+  }
+
+  /** Seizes the vault's policy and auctions it; `result` is the auction ID. */
+  liquidateVault(vaultId: bigint, options?: WriteOptions) {
+    return this.write('liquidateVault', [vaultId], options)
+  }
+
+  /**
+   * Buys an auctioned policy at the current price, paying at most `maxPrice`
+   * CSV tokens. The vault must hold an allowance for the price.
+   */
+  bid(auctionId: bigint, maxPrice: bigint, options?: WriteOptions) {
+    return this.write('bid', [auctionId, maxPrice], options)
+  }
+
+  restartAuction(auctionId: bigint, options?: WriteOptions) {
+    return this.write('restartAuction', [auctionId], options)
+  }
+
+  withdrawProceeds(options?: WriteOptions) {
+    return this.write('withdrawProceeds', [], options)
+  }
+
+  updateVaultConfig(config: VaultConfig, options?: WriteOptions) {
+    return this.write('updateVaultConfig', [config], options)
+  }
+
+  withdrawLiquidationReserve(to: Address, amount: bigint, options?: WriteOptions) {
+    return this.write('withdrawLiquidationReserve', [to, amount], options)
+  }
+
+  setMaxCarrierBps(maxCarrierBps: bigint, options?: WriteOptions) {
+    return this.write('setMaxCarrierBps', [maxCarrierBps], options)
+  }
+
+  setCarrierCapFloor(floor: bigint, options?: WriteOptions) {
+    return this.write('setCarrierCapFloor', [floor], options)
+  }
+
+  setMinPolicyVintage(seconds: bigint, options?: WriteOptions) {
+    return this.write('setMinPolicyVintage', [seconds], options)
+  }
+
+  setMaxValuationAge(seconds: bigint, options?: WriteOptions) {
+    return this.write('setMaxValuationAge', [seconds], options)
+  }
+
+  setAuctionConfig(config: AuctionConfig, options?: WriteOptions) {
+    return this.write('setAuctionConfig', [config], options)
+  }
+
+  pause(options?: WriteOptions) {
+    return this.write('pause', [], options)
+  }
+
+  unpause(options?: WriteOptions) {
+    return this.write('unpause', [], options)
+  }
+}
@@ -0,0 +1,95 @@
+import type { Address } from 'viem'
+import { ercRwaCsvAbi } from '../abis'
+import { checkTransfers, type CheckTransfersOptions, type TransferRequest } from '../compliance/transfers'
+import type { CSVMetadata, TokenComplianceData, TransferCheck, TransferRestriction } from '../types'
+import { ContractClient, type WriteOptions } from './base'
+
+export class ERCRWACSVClient extends ContractClient<typeof ercRwaCsvAbi> {
+  readonly abi = ercRwaCsvAbi
+  readonly contractName = 'ERCRWACSV' as const
+
+  async balanceOf(account: Address): Promise<bigint> {
+    return this.read('balanceOf', [account])
+  }
+
+  async getTotalCSVValue(): Promise<bigint> {
+    return this.read('totalCSVValue', [])
+  }
+
+  async getCSVMetadata(tokenId: bigint): Promise<CSVMetadata> {
+    return this.read('getCSVMetadata', [tokenId])
+  }
+
+  /** The account's compliance registry status; expired KYC or accreditation reads as false. */
+  async getComplianceData(account: Address): Promise<TokenComplianceData> {
+    return this.read('getComplianceData', [account])
+  }
+
+  async getOwnerTokens(owner: Address): Promise<readonly bigint[]> {
+    return this.read('getOwnerTokens', [owner])
+  }
+
+  async isTransferAllowed(from: Address, to: Address): Promise<TransferCheck> {
+    const [allowed, reason] = await this.read('isTransferAllowed', [from, to])
+    return { allowed, reason }
+  }
+
+  /** ERC-1404 code for the transfer: the registry's checks, then pauses and the sender's balance. */
+  async detectTransferRestriction(from: Address, to: Address, amount: bigint): Promise<TransferRestriction> {
+    return this.read('detectTransferRestriction', [from, to, amount])
+  }
+
+  async messageForTransferRestriction(code: number): Promise<string> {
+    return this.read('messageForTransferRestriction', [code])
+  }
+
+  /** Pre-flights a batch of transfers in one multicall; see `checkTransfers`. */
+  async checkTransfers(transfers: readonly TransferRequest[], options?: CheckTransfersOptions) {
+    return checkTransfers(this.publicClient, this.address, transfers, options)
+  }
+
+  transfer(to: Address, amount: bigint, options?: WriteOptions) {
+    return this.write('transfer', [to, amount], options)
+  }
+
+  approve(spender: Address, amount: bigint, options?: WriteOptions) {
+    return this.write('approve', [spender, amount], options)
+  }
+
+  mintCSVToken(to: Address, amount: bigint, metadata: CSVMetadata, options?: WriteOptions) {
+    return this.write('mintCSVToken', [to, amount, metadata], options)
+  }
+
+  burnCSVToken(from: Address, amount: bigint, tokenId: bigint, options?: WriteOptions) {
+    return this.write('burnCSVToken', [from, amount, tokenId], options)
+  }
+
+  updateCSVValuation(tokenId: bigint, newValue: bigint, options?: WriteOptions) {
+    return this.write('updateCSVValuation', [tokenId, newValue], options)
+  }
+
+  /** Writes the account's status to the compliance registry the token reads. */
+  updateCompliance(account: Address, data: TokenComplianceData, options?: WriteOptions) {
+    return this.write('updateCompliance', [account, data], options)
+  }
+
+  batchUpdateCompliance(accounts: readonly Address[], data: readonly TokenComplianceData[], options?: WriteOptions) {
+    return this.write('batchUpdateCompliance', [accounts, data], options)
+  }
+
+  setComplianceRegistry(registry: Address, options?: WriteOptions) {
+    return this.write('setComplianceRegistry', [registry], options)
+  }
+
+  setCSVOracle(oracle: Address, options?: WriteOptions) {
+    return this.write('setCSVOracle', [oracle], options)
+  }
+
+  pause(options?: WriteOptions) {
+    return this.write('pause', [], options)
+  }
+
+  unpause(options?: WriteOptions) {
+    return this.write('unpause', [], options)
+  }
+}
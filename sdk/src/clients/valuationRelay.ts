@@ -0,0 +1,69 @@
+import type { Address } from 'viem'
+import { valuationRelayAbi } from '../abis'
+import type { HeldValuation, PolicyBinding } from '../types'
+import { ContractClient, type WriteOptions } from './base'
+
+/**
+ * Writes finalized CSVOracle valuations through to the policy's token and
+ * vault. The oracle announces each finalized valuation to the relay;
+ * `propagate` applies it once its dispute period is over. Moves beyond
+ * `maxChangeBps` of the current cash value are held for a risk manager.
+ */
+export class ValuationRelayClient extends ContractClient<typeof valuationRelayAbi> {
+  readonly abi = valuationRelayAbi
+  readonly contractName = 'ValuationRelay' as const
+
+  async getOracle(): Promise<Address> {
+    return this.read('oracle', [])
+  }
+
+  async getCSVToken(): Promise<Address> {
+    return this.read('csvToken', [])
+  }
+
+  async getVault(): Promise<Address> {
+    return this.read('vault', [])
+  }
+
+  /** Largest move applied without review, in basis points of the current cash value. */
+  async getMaxChangeBps(): Promise<bigint> {
+    return this.read('maxChangeBps', [])
+  }
+
+  /** `isActive` is false for a policy that is not bound. */
+  async getBinding(policyNumber: string): Promise<PolicyBinding> {
+    return this.read('getBinding', [policyNumber])
+  }
+
+  /** The valuation the circuit breaker is holding for the policy, if any. */
+  async getHeldValuation(policyNumber: string): Promise<HeldValuation | undefined> {
+    const held = await this.read('getHeldValuation', [policyNumber])
+    return held.requestId === BigInt(0) ? undefined : held
+  }
+
+  /** Pass a `vaultId` of zero until the policy is vaulted, then bind it again with the vault. */
+  bindPolicy(policyNumber: string, tokenId: bigint, vaultId: bigint, options?: WriteOptions) {
+    return this.write('bindPolicy', [policyNumber, tokenId, vaultId], options)
+  }
+
+  unbindPolicy(policyNumber: string, options?: WriteOptions) {
+    return this.write('unbindPolicy', [policyNumber], options)
+  }
+
+  /** Applies the policy's latest finalized valuation once it can no longer be disputed; anyone may call it. */
+  propagate(policyNumber: string, options?: WriteOptions) {
+    return this.write('propagate', [policyNumber], options)
+  }
+
+  releaseValuation(policyNumber: string, options?: WriteOptions) {
+    return this.write('releaseValuation', [policyNumber], options)
+  }
+
+  rejectValuation(policyNumber: string, options?: WriteOptions) {
+    return this.write('rejectValuation', [policyNumber], options)
+  }
+
+  setMaxChangeBps(maxChangeBps: bigint, options?: WriteOptions) {
+    return this.write('setMaxChangeBps', [maxChangeBps], options)
+  }
+}
@@ -0,0 +1,63 @@
+import {
+  recoverTypedDataAddress,
+  type Account,
+  type Address,
+  type Chain,
+  type Hex,
+  type TypedDataDomain,
+  type Transport,
+  type WalletClient,
+} from 'viem'
+import { IYieldError } from '../errors'
+import type { KYCAttestation } from '../types'
+
+/** EIP-712 types of `ComplianceRegistry.KYC_ATTESTATION_TYPEHASH`. */
+export const kycAttestationTypes = {
+  KYCAttestation: [
+    { name: 'user', type: 'address' },
+    { name: 'jurisdictionCode', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' },
+    { name: 'kycHash', type: 'string' },
+    { name: 'nonce', type: 'bytes32' },
+  ],
+} as const
+
+/** Signing domain of the registry at `registry` on `chainId`; `ComplianceRegistryClient.getAttestationDomain` reads it on-chain. */
+export function kycAttestationDomain(chainId: number, registry: Address): TypedDataDomain {
+  return { name: 'ComplianceRegistry', version: '1', chainId, verifyingContract: registry }
+}
+
+/**
+ * Signs an attestation as a KYC provider. The signer must be registered on the
+ * registry, active, and support the attestation's jurisdiction for it to be accepted.
+ */
+export async function signKYCAttestation(
+  walletClient: WalletClient<Transport, Chain | undefined, Account | undefined>,
+  domain: TypedDataDomain,
+  attestation: KYCAttestation,
+  account: Account | Address | undefined = walletClient.account
+): Promise<Hex> {
+  if (!account) throw new IYieldError('signKYCAttestation: no account to sign with')
+  return walletClient.signTypedData({
+    account,
+    domain,
+    types: kycAttestationTypes,
+    primaryType: 'KYCAttestation',
+    message: attestation,
+  })
+}
+
+/** Provider that signed an attestation; relayers check it before paying the provider's fee. */
+export async function recoverKYCAttestationSigner(
+  domain: TypedDataDomain,
+  attestation: KYCAttestation,
+  signature: Hex
+): Promise<Address> {
+  return recoverTypedDataAddress({
+    domain,
+    types: kycAttestationTypes,
+    primaryType: 'KYCAttestation',
+    message: attestation,
+    signature,
+  })
+}
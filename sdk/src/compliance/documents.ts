@@ -0,0 +1,39 @@
+import type { Address, Hex } from 'viem'
+
+/** `kyc` documents back `ComplianceStatus.kycHash`; `accreditation` documents back accredited investor status. */
+export type DocumentKind = 'kyc' | 'accreditation'
+
+/** Review state: uploads start `pending` until a reviewer verifies or rejects them. */
+export type DocumentStatus = 'pending' | 'verified' | 'rejected'
+
+/** A compliance document as the document service reports it. */
+export interface ComplianceDocument {
+  id: number
+  owner: Address
+  kind: DocumentKind
+  filename: string
+  mimeType: string
+  size: number
+  /** SHA-256 of the content, which the owner signs when uploading. */
+  sha256: Hex
+  /** Content identifier the document is pinned under; what a verified KYC document's `kycHash` is set to. */
+  cid: string
+  status: DocumentStatus
+  submittedAt: number
+  reviewedAt: number | null
+  reviewer: string | null
+  /** Reviewer's note; the reason, for rejections. */
+  note: string | null
+  /** Transaction that recorded the verification on-chain, if any. */
+  transactionHash: Hex | null
+}
+
+export const documentKinds: readonly DocumentKind[] = ['kyc', 'accreditation']
+
+/**
+ * Message the owner signs (EIP-191) to upload a document, so nobody can file
+ * documents against someone else's account.
+ */
+export function documentUploadMessage({ owner, kind, sha256 }: { owner: Address; kind: DocumentKind; sha256: Hex }) {
+  return `iYield compliance document upload\nOwner: ${owner}\nKind: ${kind}\nSHA-256: ${sha256}`
+}
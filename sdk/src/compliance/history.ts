@@ -0,0 +1,175 @@
+import { keccak256, recoverMessageAddress, toBytes, type Address, type Hash, type Hex } from 'viem'
+
+/** Events that make up an account's compliance timeline; all but `TransferRestricted` are the registry's. */
+export const complianceHistoryEvents = [
+  'UserKYCUpdated',
+  'UserAccreditationUpdated',
+  'UserRestricted',
+  'UserUnrestricted',
+  'LockupPeriodUpdated',
+  'TransferRestricted',
+] as const
+
+export type ComplianceHistoryEvent = (typeof complianceHistoryEvents)[number]
+
+export const complianceHistoryLabels: Record<ComplianceHistoryEvent, string> = {
+  UserKYCUpdated: 'KYC',
+  UserAccreditationUpdated: 'Accreditation',
+  UserRestricted: 'Restriction',
+  UserUnrestricted: 'Restriction lifted',
+  LockupPeriodUpdated: 'Lockup',
+  TransferRestricted: 'Transfer restricted',
+}
+
+/** One event of an account's compliance timeline. */
+export interface ComplianceHistoryEntry {
+  event: ComplianceHistoryEvent
+  /** Contract that logged it: the ComplianceRegistry, or the ERCRWACSV token for `TransferRestricted`. */
+  contract: Address
+  /** Decoded event arguments. */
+  args: Record<string, unknown>
+  blockNumber: bigint
+  logIndex: number
+  transactionHash: Hash
+  /** Timestamp of the block. */
+  timestamp: bigint
+}
+
+const isoDate = (timestamp: bigint) => new Date(Number(timestamp) * 1000).toISOString()
+const isoDay = (timestamp: bigint) => isoDate(timestamp).slice(0, 10)
+
+/** What happened, from the point of view of `account`. */
+export function describeComplianceHistoryEntry({ event, args }: ComplianceHistoryEntry, account: Address): string {
+  switch (event) {
+    case 'UserKYCUpdated':
+      return args.verified ? `KYC verified until ${isoDay(args.expiry as bigint)}` : 'KYC verification revoked'
+    case 'UserAccreditationUpdated':
+      return args.accredited ? `Accredited until ${isoDay(args.expiry as bigint)}` : 'Accreditation revoked'
+    case 'UserRestricted':
+      return `Account restricted: ${args.reason}`
+    case 'UserUnrestricted':
+      return 'Restriction lifted'
+    case 'LockupPeriodUpdated':
+      return (args.expiry as bigint) > BigInt(0) ? `Locked up until ${isoDay(args.expiry as bigint)}` : 'Lockup cleared'
+    case 'TransferRestricted': {
+      const outgoing = (args.from as string).toLowerCase() === account.toLowerCase()
+      return `${outgoing ? `Transfer to ${args.to}` : `Transfer from ${args.from}`} blocked: ${args.reason}`
+    }
+  }
+}
+
+/** Newest first; ties broken by position in the block. */
+export function sortComplianceHistory(entries: readonly ComplianceHistoryEntry[]): ComplianceHistoryEntry[] {
+  return [...entries].sort((a, b) =>
+    a.blockNumber === b.blockNumber ? b.logIndex - a.logIndex : a.blockNumber > b.blockNumber ? -1 : 1
+  )
+}
+
+/** Quotes a CSV field when it holds a delimiter, quote or line break. */
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/** The timeline as CSV, one row per entry in the order given. */
+export function complianceHistoryCsv(entries: readonly ComplianceHistoryEntry[], account: Address): string {
+  const header = ['date', 'timestamp', 'event', 'description', 'contract', 'blockNumber', 'transactionHash']
+  const rows = entries.map((entry) => [
+    isoDate(entry.timestamp),
+    entry.timestamp.toString(),
+    entry.event,
+    describeComplianceHistoryEntry(entry, account),
+    entry.contract,
+    entry.blockNumber.toString(),
+    entry.transactionHash,
+  ])
+  return [header, ...rows].map((row) => row.map(csvField).join(',')).join('\n') + '\n'
+}
+
+/**
+ * A self-describing export of an account's timeline, ready to render as a
+ * document: integers are decimal strings, times are ISO 8601 and every entry
+ * carries its description.
+ */
+export interface ComplianceHistoryReport {
+  type: 'iyield-compliance-history'
+  version: 1
+  account: Address
+  chainId: number
+  /** Block the history was read up to. */
+  blockNumber: string
+  generatedAt: string
+  entries: {
+    date: string
+    event: ComplianceHistoryEvent
+    description: string
+    contract: Address
+    blockNumber: string
+    logIndex: number
+    transactionHash: Hash
+    args: Record<string, string | number | boolean>
+  }[]
+}
+
+/** A report with the account's signature over `complianceHistoryMessage(report)`. */
+export interface SignedComplianceHistory {
+  report: ComplianceHistoryReport
+  signature: Hex
+}
+
+export function complianceHistoryReport({
+  account,
+  chainId,
+  blockNumber,
+  entries,
+  generatedAt = new Date(),
+}: {
+  account: Address
+  chainId: number
+  blockNumber: bigint
+  entries: readonly ComplianceHistoryEntry[]
+  generatedAt?: Date
+}): ComplianceHistoryReport {
+  return {
+    type: 'iyield-compliance-history',
+    version: 1,
+    account,
+    chainId,
+    blockNumber: blockNumber.toString(),
+    generatedAt: generatedAt.toISOString(),
+    entries: entries.map((entry) => ({
+      date: isoDate(entry.timestamp),
+      event: entry.event,
+      description: describeComplianceHistoryEntry(entry, account),
+      contract: entry.contract,
+      blockNumber: entry.blockNumber.toString(),
+      logIndex: entry.logIndex,
+      transactionHash: entry.transactionHash,
+      args: Object.fromEntries(
+        Object.entries(entry.args).map(([name, value]) => [
+          name,
+          typeof value === 'bigint' ? value.toString() : (value as string | number | boolean),
+        ])
+      ),
+    })),
+  }
+}
+
+/**
+ * Message the account signs (EIP-191) to vouch for a report. It commits to the
+ * report's JSON by its keccak256, so any edit to the file breaks the signature.
+ */
+export function complianceHistoryMessage(report: ComplianceHistoryReport): string {
+  return [
+    'iYield compliance history',
+    `Account: ${report.account}`,
+    `Chain: ${report.chainId}`,
+    `Block: ${report.blockNumber}`,
+    `Entries: ${report.entries.length}`,
+    `Digest: ${keccak256(toBytes(JSON.stringify(report)))}`,
+  ].join('\n')
+}
+
+/** Address that signed a report; an auditor checks it is `report.account`. */
+export async function recoverComplianceHistorySigner({ report, signature }: SignedComplianceHistory): Promise<Address> {
+  return recoverMessageAddress({ message: complianceHistoryMessage(report), signature })
+}
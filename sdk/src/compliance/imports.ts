@@ -0,0 +1,167 @@
+import { getAddress, isAddress, zeroAddress, type Address } from 'viem'
+import type { ComplianceStatus } from '../types'
+
+/** Columns of a compliance import file; the first five are required. */
+export const complianceCsvColumns = [
+  'address',
+  'kycVerified',
+  'accredited',
+  'jurisdictionCode',
+  'restricted',
+  'kycExpiry',
+  'accreditationExpiry',
+  'lockupExpiry',
+  'kycProvider',
+  'kycHash',
+] as const
+
+const requiredColumns = complianceCsvColumns.slice(0, 5)
+
+export interface ComplianceImportRow {
+  /** 1-based line in the file, for error reporting. */
+  line: number
+  user: Address
+  status: ComplianceStatus
+}
+
+export interface ComplianceImportError {
+  line: number
+  message: string
+}
+
+export interface ComplianceImport {
+  rows: ComplianceImportRow[]
+  errors: ComplianceImportError[]
+}
+
+export interface ComplianceImportOptions {
+  /** Unix time the import is made at: the records' update time and the base of default expiries. */
+  now: bigint
+  /** Expiry given to verified records without one; the registry's `kycValidityPeriod`. */
+  kycValidityPeriod: bigint
+  /** Expiry given to accredited records without one; the registry's `accreditationValidityPeriod`. */
+  accreditationValidityPeriod: bigint
+}
+
+/** Splits one CSV line, honouring double-quoted fields with `""` escapes. */
+function splitLine(line: string): string[] {
+  const fields: string[] = []
+  let field = ''
+  let quoted = false
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      fields.push(field.trim())
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  fields.push(field.trim())
+  return fields
+}
+
+function parseBoolean(value: string, column: string): boolean {
+  if (/^(true|yes|1)$/i.test(value)) return true
+  if (/^(false|no|0|)$/i.test(value)) return false
+  throw new Error(`${column} must be true or false, got "${value}"`)
+}
+
+function parseUint(value: string, column: string): bigint {
+  if (!/^\d+$/.test(value)) throw new Error(`${column} must be a non-negative integer, got "${value}"`)
+  return BigInt(value)
+}
+
+/** Unix seconds, or an ISO date (midnight UTC); blank for none. */
+function parseTimestamp(value: string, column: string): bigint | undefined {
+  if (value === '') return undefined
+  if (/^\d+$/.test(value)) return BigInt(value)
+  const millis = /^\d{4}-\d{2}-\d{2}/.test(value) ? Date.parse(value) : NaN
+  if (Number.isNaN(millis)) throw new Error(`${column} must be unix seconds or a YYYY-MM-DD date, got "${value}"`)
+  return BigInt(Math.floor(millis / 1000))
+}
+
+/**
+ * Parses a CSV file of compliance records into arguments for
+ * `ComplianceRegistry.batchUpdateCompliance`. The header names the columns
+ * (`complianceCsvColumns`, any order). Expiries left blank default to the
+ * registry's validity periods for verified or accredited records and to zero
+ * otherwise; invalid lines and repeated addresses are reported, not imported.
+ */
+export function parseComplianceCsv(text: string, options: ComplianceImportOptions): ComplianceImport {
+  const lines = text.split(/\r?\n/)
+  const headerIndex = lines.findIndex((line) => line.trim() !== '')
+  if (headerIndex === -1) return { rows: [], errors: [{ line: 1, message: 'File is empty' }] }
+
+  const header = splitLine(lines[headerIndex])
+  const missing = requiredColumns.filter((column) => !header.includes(column))
+  const unknown = header.filter((column) => !(complianceCsvColumns as readonly string[]).includes(column))
+  if (missing.length || unknown.length) {
+    const problems = [
+      missing.length ? `missing ${missing.join(', ')}` : '',
+      unknown.length ? `unknown ${unknown.join(', ')}` : '',
+    ]
+    return { rows: [], errors: [{ line: headerIndex + 1, message: `Header: ${problems.filter(Boolean).join('; ')}` }] }
+  }
+
+  const rows: ComplianceImportRow[] = []
+  const errors: ComplianceImportError[] = []
+  const seen = new Map<Address, number>()
+
+  for (let index = headerIndex + 1; index < lines.length; index++) {
+    if (lines[index].trim() === '') continue
+    const line = index + 1
+    const fields = splitLine(lines[index])
+    const get = (column: (typeof complianceCsvColumns)[number]) => fields[header.indexOf(column)] ?? ''
+
+    try {
+      if (fields.length !== header.length) throw new Error(`Expected ${header.length} fields, got ${fields.length}`)
+      const address = get('address')
+      if (!isAddress(address, { strict: false }) || BigInt(address) === BigInt(0)) {
+        throw new Error(`Invalid address "${address}"`)
+      }
+      const user = getAddress(address)
+      if (seen.has(user)) throw new Error(`${user} already appears on line ${seen.get(user)}`)
+
+      const isKYCVerified = parseBoolean(get('kycVerified'), 'kycVerified')
+      const isAccredited = parseBoolean(get('accredited'), 'accredited')
+      const provider = get('kycProvider')
+      if (provider !== '' && !isAddress(provider, { strict: false })) throw new Error(`Invalid kycProvider "${provider}"`)
+
+      const status: ComplianceStatus = {
+        isKYCVerified,
+        isAccredited,
+        kycExpiry: isKYCVerified
+          ? parseTimestamp(get('kycExpiry'), 'kycExpiry') ?? options.now + options.kycValidityPeriod
+          : BigInt(0),
+        accreditationExpiry: isAccredited
+          ? parseTimestamp(get('accreditationExpiry'), 'accreditationExpiry') ??
+            options.now + options.accreditationValidityPeriod
+          : BigInt(0),
+        jurisdictionCode: parseUint(get('jurisdictionCode'), 'jurisdictionCode'),
+        isRestricted: parseBoolean(get('restricted'), 'restricted'),
+        lockupExpiry: parseTimestamp(get('lockupExpiry'), 'lockupExpiry') ?? BigInt(0),
+        kycProvider: provider === '' ? zeroAddress : getAddress(provider),
+        kycHash: get('kycHash'),
+        lastUpdateTimestamp: options.now,
+      }
+      seen.set(user, line)
+      rows.push({ line, user, status })
+    } catch (error) {
+      errors.push({ line, message: (error as Error).message })
+    }
+  }
+
+  return { rows, errors }
+}
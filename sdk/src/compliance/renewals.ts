@@ -0,0 +1,33 @@
+import type { ComplianceStatus } from '../types'
+
+/** How long before expiry renewals are suggested. */
+export const DEFAULT_RENEWAL_WINDOW = BigInt(30 * 24 * 60 * 60)
+
+export interface RenewalReminder {
+  kind: 'kyc' | 'accreditation'
+  expiresAt: bigint
+  /** Already expired, as opposed to expiring within the window. */
+  expired: boolean
+  /** Seconds until expiry; zero once expired. */
+  secondsLeft: bigint
+}
+
+/**
+ * KYC and accreditation that have expired or expire within `window` of `now`,
+ * soonest first. Statuses never granted have no expiry and need no renewal.
+ */
+export function renewalReminders(
+  status: Pick<ComplianceStatus, 'kycExpiry' | 'accreditationExpiry'>,
+  now: bigint,
+  window = DEFAULT_RENEWAL_WINDOW
+): RenewalReminder[] {
+  const reminders: RenewalReminder[] = []
+  const check = (kind: RenewalReminder['kind'], expiresAt: bigint) => {
+    if (expiresAt === BigInt(0) || expiresAt > now + window) return
+    const expired = expiresAt <= now
+    reminders.push({ kind, expiresAt, expired, secondsLeft: expired ? BigInt(0) : expiresAt - now })
+  }
+  check('kyc', status.kycExpiry)
+  check('accreditation', status.accreditationExpiry)
+  return reminders.sort((a, b) => (a.expiresAt < b.expiresAt ? -1 : a.expiresAt > b.expiresAt ? 1 : 0))
+}
@@ -0,0 +1,94 @@
+import type { Abi, Address } from 'viem'
+import { ercRwaCsvAbi } from '../abis'
+import { parseContractError } from '../errors'
+import { TransferRestriction } from '../types'
+
+/** `messageForTransferRestriction` of each code, so a batch needs no second round trip. */
+export const transferRestrictionMessages: Record<TransferRestriction, string> = {
+  [TransferRestriction.SUCCESS]: 'Transfer allowed',
+  [TransferRestriction.SENDER_KYC_REQUIRED]: 'Sender KYC verification required or expired',
+  [TransferRestriction.SENDER_ACCREDITATION_REQUIRED]: 'Sender accreditation required or expired',
+  [TransferRestriction.SENDER_RESTRICTED]: 'Sender account restricted',
+  [TransferRestriction.SENDER_UNDER_LOCKUP]: 'Sender under lockup period',
+  [TransferRestriction.RECEIVER_KYC_REQUIRED]: 'Receiver KYC verification required or expired',
+  [TransferRestriction.RECEIVER_ACCREDITATION_REQUIRED]: 'Receiver accreditation required or expired',
+  [TransferRestriction.RECEIVER_RESTRICTED]: 'Receiver account restricted',
+  [TransferRestriction.JURISDICTION_NOT_ALLOWED]: 'Jurisdiction not allowed',
+  [TransferRestriction.TRANSFERS_PAUSED]: 'Token transfers paused',
+  [TransferRestriction.INVALID_ADDRESS]: 'Transfer to or from the zero address',
+  [TransferRestriction.INSUFFICIENT_BALANCE]: 'Insufficient balance',
+}
+
+/** Message for a restriction code; codes this SDK predates read as unknown, like on-chain. */
+export function messageForTransferRestriction(code: number): string {
+  return transferRestrictionMessages[code as TransferRestriction] ?? 'Unknown restriction code'
+}
+
+export interface TransferRequest {
+  from: Address
+  to: Address
+  amount: bigint
+}
+
+export interface TransferPreflight extends TransferRequest {
+  allowed: boolean
+  code: TransferRestriction
+  message: string
+}
+
+/**
+ * The one public client action `checkTransfers` uses, typed structurally so a
+ * client from the app's own copy of viem fits.
+ */
+export interface MulticallClient {
+  multicall(parameters: {
+    contracts: readonly { address: Address; abi: Abi; functionName: string; args: readonly unknown[] }[]
+    allowFailure: false
+    multicallAddress?: Address
+    blockNumber?: bigint
+  }): Promise<readonly unknown[]>
+}
+
+export interface CheckTransfersOptions {
+  /** Multicall3 deployment; defaults to the client chain's. Needed on chains viem has none for, like a local node. */
+  multicallAddress?: Address
+  blockNumber?: bigint
+}
+
+/**
+ * Runs `ERCRWACSV.detectTransferRestriction` for every transfer in a single
+ * Multicall3 `eth_call`, so all results are read at the same block. Results
+ * are in the order of `transfers`.
+ */
+export async function checkTransfers(
+  publicClient: MulticallClient,
+  token: Address,
+  transfers: readonly TransferRequest[],
+  { multicallAddress, blockNumber }: CheckTransfersOptions = {}
+): Promise<TransferPreflight[]> {
+  if (transfers.length === 0) return []
+
+  let codes: number[]
+  try {
+    codes = (await publicClient.multicall({
+      contracts: transfers.map(({ from, to, amount }) => ({
+        address: token,
+        abi: ercRwaCsvAbi,
+        functionName: 'detectTransferRestriction',
+        args: [from, to, amount],
+      })),
+      allowFailure: false,
+      multicallAddress,
+      blockNumber,
+    })) as number[]
+  } catch (error) {
+    throw parseContractError(error, 'ERCRWACSV')
+  }
+
+  return transfers.map((transfer, index) => ({
+    ...transfer,
+    allowed: codes[index] === TransferRestriction.SUCCESS,
+    code: codes[index] as TransferRestriction,
+    message: messageForTransferRestriction(codes[index]),
+  }))
+}
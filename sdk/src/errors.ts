@@ -0,0 +1,404 @@
+import type { BaseError, ContractFunctionRevertedError } from 'viem'
+
+export type ContractName =
+  | 'ERCRWACSV'
+  | 'CSVVault'
+  | 'CSVLiquidityPool'
+  | 'CSVTrancheVault'
+  | 'ComplianceRegistry'
+  | 'CSVOracle'
+  | 'ValuationRelay'
+
+/**
+ * Revert strings of each contract, keyed by the text after the `"<Contract>: "`
+ * prefix, mapped to a stable error code. Keep in sync with the `require`
+ * messages in `contracts/contracts`.
+ */
+export const revertReasons = {
+  ERCRWACSV: {
+    'Account not compliant': 'ACCOUNT_NOT_COMPLIANT',
+    'Account under lockup period': 'ACCOUNT_UNDER_LOCKUP',
+    'Jurisdiction not allowed': 'JURISDICTION_NOT_ALLOWED',
+    'Sender KYC verification required or expired': 'SENDER_KYC_REQUIRED',
+    'Sender accreditation required or expired': 'SENDER_ACCREDITATION_REQUIRED',
+    'Sender account restricted': 'SENDER_RESTRICTED',
+    'Sender under lockup period': 'SENDER_UNDER_LOCKUP',
+    'Receiver KYC verification required or expired': 'RECEIVER_KYC_REQUIRED',
+    'Receiver accreditation required or expired': 'RECEIVER_ACCREDITATION_REQUIRED',
+    'Receiver account restricted': 'RECEIVER_RESTRICTED',
+    'Invalid compliance registry': 'INVALID_COMPLIANCE_REGISTRY',
+    'Array length mismatch': 'ARRAY_LENGTH_MISMATCH',
+    'mint to zero address': 'MINT_TO_ZERO_ADDRESS',
+    'burn from zero address': 'BURN_FROM_ZERO_ADDRESS',
+    'amount must be positive': 'AMOUNT_NOT_POSITIVE',
+    'CSV value must be positive': 'CSV_VALUE_NOT_POSITIVE',
+    'not token owner': 'NOT_TOKEN_OWNER',
+    'token not active': 'TOKEN_NOT_ACTIVE',
+    'transfer to zero address': 'TRANSFER_TO_ZERO_ADDRESS',
+  },
+  CSVVault: {
+    'Vault does not exist': 'VAULT_NOT_FOUND',
+    'Not vault owner': 'NOT_VAULT_OWNER',
+    'Invalid token address': 'INVALID_TOKEN_ADDRESS',
+    'Vault creation disabled': 'VAULT_CREATION_DISABLED',
+    'Insufficient collateral': 'INSUFFICIENT_COLLATERAL',
+    'CSV token not active': 'CSV_TOKEN_NOT_ACTIVE',
+    'Collateral mismatch': 'COLLATERAL_MISMATCH',
+    'Exceeds maximum LTV': 'EXCEEDS_MAX_LTV',
+    'Exceeds debt amount': 'EXCEEDS_DEBT',
+    'Outstanding debt exists': 'OUTSTANDING_DEBT',
+    'Vault not liquidatable': 'VAULT_NOT_LIQUIDATABLE',
+    'Invalid max LTV': 'INVALID_MAX_LTV',
+    'Invalid liquidation penalty': 'INVALID_LIQUIDATION_PENALTY',
+    'Insufficient reserves': 'INSUFFICIENT_RESERVES',
+    'Invalid policy issue date': 'INVALID_POLICY_ISSUE_DATE',
+    'Policy vintage too recent': 'POLICY_VINTAGE_TOO_RECENT',
+    'Carrier concentration cap exceeded': 'CARRIER_CAP_EXCEEDED',
+    'Invalid carrier cap': 'INVALID_CARRIER_CAP',
+    'Valuation stale': 'VALUATION_STALE',
+    'Invalid max valuation age': 'INVALID_MAX_VALUATION_AGE',
+    'Auction not active': 'AUCTION_NOT_ACTIVE',
+    'Auction expired': 'AUCTION_EXPIRED',
+    'Auction not expired': 'AUCTION_NOT_EXPIRED',
+    'Bidder not compliant': 'BIDDER_NOT_COMPLIANT',
+    'Price above limit': 'PRICE_ABOVE_LIMIT',
+    'No proceeds': 'NO_PROCEEDS',
+    'Invalid auction config': 'INVALID_AUCTION_CONFIG',
+  },
+  CSVLiquidityPool: {
+    'Tranche not active': 'TRANCHE_NOT_ACTIVE',
+    'Invalid CSV token': 'INVALID_CSV_TOKEN',
+    'Invalid base token': 'INVALID_BASE_TOKEN',
+    'Below minimum deposit': 'BELOW_MIN_DEPOSIT',
+    'KYC verification required': 'KYC_REQUIRED',
+    'Accredited investor required': 'ACCREDITATION_REQUIRED',
+    'Insufficient shares': 'INSUFFICIENT_SHARES',
+    'No yield to distribute': 'NO_YIELD_TO_DISTRIBUTE',
+    'No shares': 'NO_SHARES',
+    'No yield to compound': 'NO_YIELD_TO_COMPOUND',
+    'Invalid index': 'INVALID_INDEX',
+    'Invalid max utilization': 'INVALID_MAX_UTILIZATION',
+    'Invalid protocol fee': 'INVALID_PROTOCOL_FEE',
+    'Invalid performance fee': 'INVALID_PERFORMANCE_FEE',
+    'Invalid withdrawal fee': 'INVALID_WITHDRAWAL_FEE',
+    'Insufficient reserves': 'INSUFFICIENT_RESERVES',
+    'Withdrawals suspended during impairment': 'WITHDRAWALS_SUSPENDED',
+    'No loss to record': 'NO_LOSS_TO_RECORD',
+    'Loss exceeds deployed capital': 'LOSS_EXCEEDS_DEPLOYED_CAPITAL',
+    'Tranche written off': 'TRANCHE_WRITTEN_OFF',
+    'Invalid impairment period': 'INVALID_IMPAIRMENT_PERIOD',
+    'Withdrawal queue not empty': 'WITHDRAWAL_QUEUE_NOT_EMPTY',
+    'Insufficient liquidity': 'INSUFFICIENT_LIQUIDITY',
+    'Invalid shares': 'INVALID_SHARES',
+    'Invalid request': 'INVALID_REQUEST',
+    'Not request owner': 'NOT_REQUEST_OWNER',
+    'Request closed': 'REQUEST_CLOSED',
+    'Invalid wrapper': 'INVALID_WRAPPER',
+    'Invalid recipient': 'INVALID_RECIPIENT',
+    'Invalid amount': 'INVALID_AMOUNT',
+    'Exceeds max utilization': 'EXCEEDS_MAX_UTILIZATION',
+    'Exceeds deployed capital': 'EXCEEDS_DEPLOYED_CAPITAL',
+  },
+  CSVTrancheVault: {
+    'Receiver not compliant': 'RECEIVER_NOT_COMPLIANT',
+    'Sender KYC verification required or expired': 'SENDER_KYC_REQUIRED',
+    'Sender accreditation required or expired': 'SENDER_ACCREDITATION_REQUIRED',
+    'Sender account restricted': 'SENDER_RESTRICTED',
+    'Sender under lockup period': 'SENDER_UNDER_LOCKUP',
+    'Receiver KYC verification required or expired': 'RECEIVER_KYC_REQUIRED',
+    'Receiver accreditation required or expired': 'RECEIVER_ACCREDITATION_REQUIRED',
+    'Receiver account restricted': 'RECEIVER_RESTRICTED',
+    'Jurisdiction not allowed': 'JURISDICTION_NOT_ALLOWED',
+  },
+  ComplianceRegistry: {
+    'Invalid address': 'INVALID_ADDRESS',
+    'Nonce already used': 'NONCE_ALREADY_USED',
+    'Jurisdiction not allowed': 'JURISDICTION_NOT_ALLOWED',
+    'Invalid provider address': 'INVALID_PROVIDER_ADDRESS',
+    'Array length mismatch': 'ARRAY_LENGTH_MISMATCH',
+    'Auto-renewal disabled': 'AUTO_RENEWAL_DISABLED',
+    'Jurisdiction not supported by provider': 'JURISDICTION_NOT_SUPPORTED_BY_PROVIDER',
+    'Attestation expired': 'ATTESTATION_EXPIRED',
+    'Expiry beyond KYC validity period': 'EXPIRY_BEYOND_KYC_VALIDITY',
+    'Unknown or inactive provider': 'UNKNOWN_OR_INACTIVE_PROVIDER',
+    'Incorrect verification fee': 'INCORRECT_VERIFICATION_FEE',
+    'No fees': 'NO_FEES',
+    'Fee transfer failed': 'FEE_TRANSFER_FAILED',
+  },
+  CSVOracle: {
+    'Oracle not registered or inactive': 'ORACLE_NOT_REGISTERED',
+    'Invalid request ID': 'INVALID_REQUEST_ID',
+    'Request not active': 'REQUEST_NOT_ACTIVE',
+    'Insufficient staking amount': 'INSUFFICIENT_STAKING_AMOUNT',
+    'Oracle already registered': 'ORACLE_ALREADY_REGISTERED',
+    'Name required': 'NAME_REQUIRED',
+    'Insufficient fee': 'INSUFFICIENT_FEE',
+    'Invalid deadline': 'INVALID_DEADLINE',
+    'Policy number required': 'POLICY_NUMBER_REQUIRED',
+    'Deadline passed': 'DEADLINE_PASSED',
+    'Already committed': 'ALREADY_COMMITTED',
+    'Commitment required': 'COMMITMENT_REQUIRED',
+    'Reveal period not started': 'REVEAL_PERIOD_NOT_STARTED',
+    'Reveal period over': 'REVEAL_PERIOD_OVER',
+    'Not committed': 'NOT_COMMITTED',
+    'Commitment mismatch': 'COMMITMENT_MISMATCH',
+    'Already submitted': 'ALREADY_SUBMITTED',
+    'Oracle not assigned to request': 'ORACLE_NOT_ASSIGNED',
+    'Value must be positive': 'VALUE_NOT_POSITIVE',
+    'Cannot finalize yet': 'CANNOT_FINALIZE_YET',
+    'Already finalized': 'ALREADY_FINALIZED',
+    'Insufficient active oracles': 'INSUFFICIENT_ACTIVE_ORACLES',
+    'Minimum oracles too low': 'MIN_ORACLES_TOO_LOW',
+    'Invalid oracle counts': 'INVALID_ORACLE_COUNTS',
+    'Invalid consensus threshold': 'INVALID_CONSENSUS_THRESHOLD',
+    'Insufficient stake': 'INSUFFICIENT_STAKE',
+    'Request not finalized': 'REQUEST_NOT_FINALIZED',
+    'Dispute period over': 'DISPUTE_PERIOD_OVER',
+    'Already disputed': 'ALREADY_DISPUTED',
+    'Insufficient bond': 'INSUFFICIENT_BOND',
+    'Reason required': 'REASON_REQUIRED',
+    'Dispute not open': 'DISPUTE_NOT_OPEN',
+    'Corrected value required': 'CORRECTED_VALUE_REQUIRED',
+    'Invalid slash rate': 'INVALID_SLASH_RATE',
+    'Invalid reveal period': 'INVALID_REVEAL_PERIOD',
+    'Remediation required': 'REMEDIATION_REQUIRED',
+    'Remediation not required': 'REMEDIATION_NOT_REQUIRED',
+    'Oracle not registered': 'ORACLE_NOT_REGISTERED',
+    'Stake required': 'STAKE_REQUIRED',
+    'Invalid unbond amount': 'INVALID_UNBOND_AMOUNT',
+    'Nothing to withdraw': 'NOTHING_TO_WITHDRAW',
+    'Unbonding period not over': 'UNBONDING_PERIOD_NOT_OVER',
+    'Unbonding period too short': 'UNBONDING_PERIOD_TOO_SHORT',
+    'Invalid fee rate': 'INVALID_FEE_RATE',
+    'No funds': 'NO_FUNDS',
+    'Randomness source required': 'RANDOMNESS_SOURCE_REQUIRED',
+    'Invalid randomness source': 'INVALID_RANDOMNESS_SOURCE',
+  },
+  ValuationRelay: {
+    'Invalid oracle': 'INVALID_ORACLE',
+    'Invalid token': 'INVALID_TOKEN',
+    'Invalid vault': 'INVALID_VAULT',
+    'Token not active': 'TOKEN_NOT_ACTIVE',
+    'Policy number mismatch': 'POLICY_NUMBER_MISMATCH',
+    'Vault not active': 'VAULT_NOT_ACTIVE',
+    'Vault holds another token': 'VAULT_HOLDS_ANOTHER_TOKEN',
+    'Policy not bound': 'POLICY_NOT_BOUND',
+    'Caller is not the oracle': 'CALLER_NOT_ORACLE',
+    'Valuation already applied': 'VALUATION_ALREADY_APPLIED',
+    'Valuation not finalized': 'VALUATION_NOT_FINALIZED',
+    'Dispute period not over': 'DISPUTE_PERIOD_NOT_OVER',
+    'Valuation disputed': 'VALUATION_DISPUTED',
+    'No held valuation': 'NO_HELD_VALUATION',
+    'Invalid max change': 'INVALID_MAX_CHANGE',
+  },
+} as const satisfies Record<ContractName, Record<string, string>>
+
+/** OpenZeppelin custom errors shared by every contract, mapped to error codes. */
+export const customErrors = {
+  AccessControlUnauthorizedAccount: 'UNAUTHORIZED',
+  AccessControlBadConfirmation: 'BAD_CONFIRMATION',
+  EnforcedPause: 'PAUSED',
+  ExpectedPause: 'NOT_PAUSED',
+  ReentrancyGuardReentrantCall: 'REENTRANT_CALL',
+  SafeERC20FailedOperation: 'TOKEN_OPERATION_FAILED',
+  ERC20InsufficientBalance: 'INSUFFICIENT_BALANCE',
+  ERC20InsufficientAllowance: 'INSUFFICIENT_ALLOWANCE',
+  ERC20InvalidSender: 'INVALID_SENDER',
+  ERC20InvalidReceiver: 'INVALID_RECEIVER',
+  ERC20InvalidApprover: 'INVALID_APPROVER',
+  ERC20InvalidSpender: 'INVALID_SPENDER',
+  ERC2612ExpiredSignature: 'PERMIT_EXPIRED',
+  ERC2612InvalidSigner: 'INVALID_PERMIT_SIGNER',
+  InvalidAccountNonce: 'INVALID_NONCE',
+  ECDSAInvalidSignature: 'INVALID_SIGNATURE',
+  ECDSAInvalidSignatureLength: 'INVALID_SIGNATURE',
+  ECDSAInvalidSignatureS: 'INVALID_SIGNATURE',
+  ERC4626ExceededMaxDeposit: 'EXCEEDS_MAX_DEPOSIT',
+  ERC4626ExceededMaxMint: 'EXCEEDS_MAX_MINT',
+  ERC4626ExceededMaxWithdraw: 'EXCEEDS_MAX_WITHDRAW',
+  ERC4626ExceededMaxRedeem: 'EXCEEDS_MAX_REDEEM',
+} as const
+
+type ReasonCode<C extends ContractName> = C extends ContractName
+  ? (typeof revertReasons)[C][keyof (typeof revertReasons)[C]]
+  : never
+
+/** Codes for reverts that could not be matched to a known reason. */
+export type GenericRevertCode = 'PANIC' | 'UNKNOWN'
+
+export type RevertCode<C extends ContractName = ContractName> =
+  | ReasonCode<C>
+  | (typeof customErrors)[keyof typeof customErrors]
+  | GenericRevertCode
+
+/** Base class for every error thrown by the SDK. */
+export class IYieldError extends Error {
+  /** Underlying viem or RPC error. */
+  readonly cause?: unknown
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message)
+    this.name = 'IYieldError'
+    this.cause = options?.cause
+  }
+}
+
+export interface ContractRevertDetails<C extends ContractName> {
+  contract: C
+  code: RevertCode<C>
+  /** Revert string without the contract prefix, or the custom error name. */
+  reason: string
+  /** Arguments of a custom error, e.g. the account and role of `AccessControlUnauthorizedAccount`. */
+  args?: readonly unknown[]
+  cause?: unknown
+}
+
+/** A call reverted on-chain (or would revert, when simulated). */
+export class ContractRevertError<C extends ContractName = ContractName> extends IYieldError {
+  readonly contract: C
+  readonly code: RevertCode<C>
+  readonly reason: string
+  readonly args?: readonly unknown[]
+
+  constructor({ contract, code, reason, args, cause }: ContractRevertDetails<C>) {
+    super(`${contract}: ${reason}`, { cause })
+    this.name = 'ContractRevertError'
+    this.contract = contract
+    this.code = code
+    this.reason = reason
+    this.args = args
+  }
+}
+
+export class ERCRWACSVError extends ContractRevertError<'ERCRWACSV'> {
+  constructor(details: Omit<ContractRevertDetails<'ERCRWACSV'>, 'contract'>) {
+    super({ ...details, contract: 'ERCRWACSV' })
+    this.name = 'ERCRWACSVError'
+  }
+}
+
+export class CSVVaultError extends ContractRevertError<'CSVVault'> {
+  constructor(details: Omit<ContractRevertDetails<'CSVVault'>, 'contract'>) {
+    super({ ...details, contract: 'CSVVault' })
+    this.name = 'CSVVaultError'
+  }
+}
+
+export class CSVLiquidityPoolError extends ContractRevertError<'CSVLiquidityPool'> {
+  constructor(details: Omit<ContractRevertDetails<'CSVLiquidityPool'>, 'contract'>) {
+    super({ ...details, contract: 'CSVLiquidityPool' })
+    this.name = 'CSVLiquidityPoolError'
+  }
+}
+
+export class CSVTrancheVaultError extends ContractRevertError<'CSVTrancheVault'> {
+  constructor(details: Omit<ContractRevertDetails<'CSVTrancheVault'>, 'contract'>) {
+    super({ ...details, contract: 'CSVTrancheVault' })
+    this.name = 'CSVTrancheVaultError'
+  }
+}
+
+export class ComplianceRegistryError extends ContractRevertError<'ComplianceRegistry'> {
+  constructor(details: Omit<ContractRevertDetails<'ComplianceRegistry'>, 'contract'>) {
+    super({ ...details, contract: 'ComplianceRegistry' })
+    this.name = 'ComplianceRegistryError'
+  }
+}
+
+export class CSVOracleError extends ContractRevertError<'CSVOracle'> {
+  constructor(details: Omit<ContractRevertDetails<'CSVOracle'>, 'contract'>) {
+    super({ ...details, contract: 'CSVOracle' })
+    this.name = 'CSVOracleError'
+  }
+}
+
+export class ValuationRelayError extends ContractRevertError<'ValuationRelay'> {
+  constructor(details: Omit<ContractRevertDetails<'ValuationRelay'>, 'contract'>) {
+    super({ ...details, contract: 'ValuationRelay' })
+    this.name = 'ValuationRelayError'
+  }
+}
+
+const errorClasses = {
+  ERCRWACSV: ERCRWACSVError,
+  CSVVault: CSVVaultError,
+  CSVLiquidityPool: CSVLiquidityPoolError,
+  CSVTrancheVault: CSVTrancheVaultError,
+  ComplianceRegistry: ComplianceRegistryError,
+  CSVOracle: CSVOracleError,
+  ValuationRelay: ValuationRelayError,
+} as const
+
+function isContractName(value: string): value is ContractName {
+  return value in revertReasons
+}
+
+/**
+ * Splits a revert string such as `"CSVVault: Vault does not exist"` into the
+ * contract it came from and its error code. Strings without a known prefix are
+ * attributed to `fallback` with code `UNKNOWN`.
+ */
+export function decodeRevertReason<C extends ContractName>(
+  message: string,
+  fallback: C
+): { contract: ContractName; code: RevertCode; reason: string } {
+  const separator = message.indexOf(': ')
+  const prefix = separator === -1 ? '' : message.slice(0, separator)
+  const contract: ContractName = isContractName(prefix) ? prefix : fallback
+  const reason = isContractName(prefix) ? message.slice(separator + 2) : message
+  const reasons: Record<string, RevertCode> = revertReasons[contract]
+  return { contract, code: reasons[reason] ?? 'UNKNOWN', reason }
+}
+
+/**
+ * viem errors are matched by name rather than `instanceof`, so errors thrown by
+ * the application's own copy of viem are recognised too.
+ */
+function isViemError(error: unknown): error is BaseError {
+  return error instanceof Error && typeof (error as BaseError).walk === 'function'
+}
+
+function createRevertError(details: ContractRevertDetails<ContractName>): ContractRevertError {
+  const ErrorClass = errorClasses[details.contract] as new (
+    details: Omit<ContractRevertDetails<ContractName>, 'contract'>
+  ) => ContractRevertError
+  return new ErrorClass(details)
+}
+
+/**
+ * Converts an error thrown by viem into a typed SDK error.
+ *
+ * Reverts become a `ContractRevertError` subclass for the contract that raised
+ * them; `contract` is the contract that was called and is used when the revert
+ * carries no prefix (custom errors, panics). Any other failure is wrapped in an
+ * `IYieldError` with the original error as `cause`.
+ */
+export function parseContractError(error: unknown, contract: ContractName): IYieldError {
+  if (error instanceof IYieldError) return error
+  if (!isViemError(error)) {
+    return new IYieldError(error instanceof Error ? error.message : String(error), { cause: error })
+  }
+
+  const revert = error.walk((cause) => (cause as Error).name === 'ContractFunctionRevertedError') as
+    | ContractFunctionRevertedError
+    | null
+  if (!revert) {
+    return new IYieldError(error.shortMessage, { cause: error })
+  }
+
+  const errorName = revert.data?.errorName
+  if (errorName && errorName !== 'Error' && errorName !== 'Panic') {
+    const code: RevertCode = customErrors[errorName as keyof typeof customErrors] ?? 'UNKNOWN'
+    return createRevertError({ contract, code, reason: errorName, args: revert.data?.args, cause: error })
+  }
+
+  if (errorName === 'Panic') {
+    return createRevertError({ contract, code: 'PANIC', reason: revert.reason ?? 'Panic', cause: error })
+  }
+
+  if (revert.reason) {
+    return createRevertError({ ...decodeRevertReason(revert.reason, contract), cause: error })
+  }
+
+  return createRevertError({ contract, code: 'UNKNOWN', reason: 'execution reverted', cause: error })
+}
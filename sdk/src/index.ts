@@ -0,0 +1,22 @@
+export * from './abis'
+export * from './client'
+export * from './clients/base'
+export * from './clients/complianceRegistry'
+export * from './clients/csvLiquidityPool'
+export * from './clients/csvOracle'
+export * from './clients/csvTrancheVault'
+export * from './clients/csvVault'
+export * from './clients/ercRwaCsv'
+export * from './clients/valuationRelay'
+export * from './compliance/attestations'
+export * from './compliance/documents'
+export * from './compliance/history'
+export * from './compliance/imports'
+export * from './compliance/renewals'
+export * from './compliance/transfers'
+export * from './errors'
+export * from './oracle/commitments'
+export * from './oracle/selection'
+export * from './risk/staleness'
+export * from './risk/stress'
+export * from './types'
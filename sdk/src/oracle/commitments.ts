@@ -0,0 +1,42 @@
+import { encodeAbiParameters, keccak256, toHex, type Address, type Hex } from 'viem'
+
+export interface ValuationReveal {
+  requestId: bigint
+  /** Oracle that commits and reveals; part of the hash, so a copied commitment opens for nobody else. */
+  oracle: Address
+  value: bigint
+  salt: Hex
+}
+
+/**
+ * Hash an oracle submits with `commitValuation` before the deadline; the same
+ * value and salt must be passed to `revealValuation` afterwards. Equal to
+ * `CSVOracle.computeCommitment(requestId, oracle, value, salt)`.
+ */
+export function valuationCommitment({ requestId, oracle, value, salt }: ValuationReveal): Hex {
+  return keccak256(
+    encodeAbiParameters(
+      [
+        { name: 'requestId', type: 'uint256' },
+        { name: 'oracle', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'salt', type: 'bytes32' },
+      ],
+      [requestId, oracle, value, salt]
+    )
+  )
+}
+
+/**
+ * Random 32-byte salt for a commitment. Keep it with the value until the
+ * reveal: a commitment whose salt is lost cannot be revealed, and the oracle
+ * is slashed when the reveal period ends.
+ */
+export function generateSalt(): Hex {
+  return toHex(globalThis.crypto.getRandomValues(new Uint8Array(32)))
+}
+
+/** Whether `reveal` opens `commitment`; check this before sending `revealValuation`. */
+export function matchesCommitment(commitment: Hex, reveal: ValuationReveal): boolean {
+  return valuationCommitment(reveal).toLowerCase() === commitment.toLowerCase()
+}
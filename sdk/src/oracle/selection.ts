@@ -0,0 +1,64 @@
+import { encodeAbiParameters, keccak256, type Address } from 'viem'
+import type { OracleInfo } from '../types'
+
+const BASIS_POINTS = BigInt(10000)
+const MIN_REPUTATION_SCORE = BigInt(7500)
+
+/** An oracle eligible for a request and its weight in the draw. */
+export interface SelectionCandidate {
+  oracle: Address
+  weight: bigint
+}
+
+/**
+ * Weight of an oracle in selection draws, as `CSVOracle.getSelectionWeight`:
+ * reputation score times stake, or zero if it is inactive or below the
+ * minimum reputation.
+ */
+export function oracleSelectionWeight(
+  info: Pick<OracleInfo, 'isActive' | 'reputationScore' | 'stakingAmount'>
+): bigint {
+  if (!info.isActive || info.reputationScore < MIN_REPUTATION_SCORE) return BigInt(0)
+  return info.reputationScore * info.stakingAmount
+}
+
+/**
+ * Replays `CSVOracle._selectOraclesForRequest`: `count` weighted draws without
+ * replacement, draw `k` taking `keccak256(abi.encode(seed, k))` modulo the
+ * remaining weight. `candidates` must be in `registeredOracles` order with
+ * conflicted and zero-weight oracles removed.
+ */
+export function selectOracles(seed: bigint, candidates: readonly SelectionCandidate[], count: number): Address[] {
+  const weights = candidates.map((candidate) => candidate.weight)
+  let remainingWeight = weights.reduce((sum, weight) => sum + weight, BigInt(0))
+  const selected: Address[] = []
+
+  for (let k = 0; k < Math.min(count, candidates.length); k++) {
+    let draw =
+      BigInt(
+        keccak256(
+          encodeAbiParameters(
+            [
+              { name: 'seed', type: 'uint256' },
+              { name: 'k', type: 'uint256' },
+            ],
+            [seed, BigInt(k)]
+          )
+        )
+      ) % remainingWeight
+    let index = 0
+    while (draw >= weights[index]) {
+      draw -= weights[index]
+      index++
+    }
+    selected.push(candidates[index].oracle)
+    remainingWeight -= weights[index]
+    weights[index] = BigInt(0)
+  }
+  return selected
+}
+
+/** Chance of an oracle with `weight` winning the first draw, in basis points of `totalWeight`. */
+export function selectionShare(weight: bigint, totalWeight: bigint): bigint {
+  return totalWeight === BigInt(0) ? BigInt(0) : (weight * BASIS_POINTS) / totalWeight
+}
@@ -0,0 +1,33 @@
+const BASIS_POINTS = BigInt(10000)
+const ZERO = BigInt(0)
+
+/** How far a vault's collateral valuation is through `CSVVault.maxValuationAge`. */
+export interface ValuationStaleness {
+  /** Seconds since the valuation; zero if it is dated after `now`. */
+  age: bigint
+  /** Last timestamp at which the valuation is still fresh. */
+  freshUntil: bigint
+  /** Seconds until the valuation goes stale; zero once it has. */
+  remaining: bigint
+  /** Age as a share of the maximum age, in basis points; above 10000 once stale. */
+  ageBps: bigint
+  stale: boolean
+}
+
+/**
+ * Staleness of a valuation taken at `valuedAt` (`CSVVault.collateralValuedAt`)
+ * at time `now`. Stale matches `CSVVault.isValuationStale`: strictly older
+ * than `maxValuationAge`.
+ */
+export function valuationStaleness(valuedAt: bigint, maxValuationAge: bigint, now: bigint): ValuationStaleness {
+  if (maxValuationAge <= ZERO) throw new RangeError('maxValuationAge must be positive')
+  const age = now > valuedAt ? now - valuedAt : ZERO
+  const freshUntil = valuedAt + maxValuationAge
+  return {
+    age,
+    freshUntil,
+    remaining: now < freshUntil ? freshUntil - now : ZERO,
+    ageBps: (age * BASIS_POINTS) / maxValuationAge,
+    stale: now > freshUntil,
+  }
+}
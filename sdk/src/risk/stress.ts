@@ -0,0 +1,189 @@
+import type { VaultConfig, VaultPosition } from '../types'
+
+const BASIS_POINTS = BigInt(10000)
+
+/**
+ * A shock to vault collateral. Shocks are plain JSON (basis points as
+ * numbers) so scenarios can be stored and shared as-is.
+ *
+ * - `market`: every vault loses `shockBps` of its collateral value
+ * - `carrier`: vaults whose policy is written by `carrier` lose `shockBps`
+ * - `rating`: vaults whose token has credit rating `rating` lose `shockBps`
+ * - `carrier-default`: `carrier` defaults and its policies keep `recoveryBps`
+ *   of their value
+ */
+export type StressShock =
+  | { type: 'market'; shockBps: number }
+  | { type: 'carrier'; carrier: string; shockBps: number }
+  | { type: 'rating'; rating: number; shockBps: number }
+  | { type: 'carrier-default'; carrier: string; recoveryBps: number }
+
+export interface StressScenario {
+  id: string
+  name: string
+  description?: string
+  shocks: StressShock[]
+}
+
+/** An open vault with the carrier and rating of its collateral token (`ERCRWACSV.getCSVMetadata`). */
+export interface StressVault {
+  vaultId: bigint
+  position: VaultPosition
+  carrierName: string
+  creditRating: number
+}
+
+export interface StressPortfolio {
+  vaults: StressVault[]
+  config: VaultConfig
+  /** `CSVLiquidityPool.getTrancheInfo(...).totalDeposits` of each tranche, which absorb vault losses. */
+  seniorDeposits: bigint
+  juniorDeposits: bigint
+}
+
+export interface VaultStressResult {
+  vaultId: bigint
+  carrierName: string
+  creditRating: number
+  debtAmount: bigint
+  collateralValue: bigint
+  stressedCollateralValue: bigint
+  /** LTV in basis points before and after the shocks; `null` when there is no collateral left. */
+  ltv: bigint | null
+  stressedLTV: bigint | null
+  liquidatable: boolean
+  /** Debt not covered by the stressed collateral once the liquidation penalty is paid out of it. */
+  loss: bigint
+}
+
+export interface StressResult {
+  scenario: StressScenario
+  vaults: VaultStressResult[]
+  totalDebt: bigint
+  totalCollateralValue: bigint
+  stressedCollateralValue: bigint
+  /** Vaults over `maxLTV` after the shocks, and how many of them were not before. */
+  liquidatableCount: number
+  newlyLiquidatableCount: number
+  totalLoss: bigint
+  juniorLoss: bigint
+  seniorLoss: bigint
+  /** Losses beyond both tranches' deposits. */
+  uncoveredLoss: bigint
+}
+
+/** The three market-wide scenarios shown by default. */
+export const defaultStressScenarios: StressScenario[] = [
+  { id: 'mild', name: 'Mild Stress', description: '-10% CSV across all carriers', shocks: [{ type: 'market', shockBps: 1000 }] },
+  { id: 'moderate', name: 'Moderate Stress', description: '-20% CSV across all carriers', shocks: [{ type: 'market', shockBps: 2000 }] },
+  { id: 'severe', name: 'Severe Stress', description: '-35% CSV across all carriers', shocks: [{ type: 'market', shockBps: 3500 }] },
+]
+
+/** Returns a description of each invalid shock in the scenario; empty when the scenario can be run. */
+export function validateStressScenario(scenario: StressScenario): string[] {
+  const problems: string[] = []
+  const inRange = (bps: number) => Number.isInteger(bps) && bps >= 0 && bps <= 10000
+  scenario.shocks.forEach((shock, index) => {
+    const label = `Shock ${index + 1}`
+    if (shock.type === 'carrier-default') {
+      if (!inRange(shock.recoveryBps)) problems.push(`${label}: recovery must be between 0 and 10000 basis points`)
+    } else if (!inRange(shock.shockBps)) {
+      problems.push(`${label}: shock must be between 0 and 10000 basis points`)
+    }
+    if ((shock.type === 'carrier' || shock.type === 'carrier-default') && !shock.carrier.trim()) {
+      problems.push(`${label}: carrier is required`)
+    }
+  })
+  return problems
+}
+
+const sameCarrier = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase()
+
+function appliesTo(shock: StressShock, vault: StressVault): boolean {
+  switch (shock.type) {
+    case 'market':
+      return true
+    case 'carrier':
+    case 'carrier-default':
+      return sameCarrier(shock.carrier, vault.carrierName)
+    case 'rating':
+      return shock.rating === vault.creditRating
+  }
+}
+
+/** Collateral value after every shock that applies to the vault; overlapping shocks compound. */
+export function applyShocks(vault: StressVault, shocks: StressShock[]): bigint {
+  let value = vault.position.collateralValue
+  for (const shock of shocks) {
+    if (!appliesTo(shock, vault)) continue
+    const retainedBps = shock.type === 'carrier-default' ? shock.recoveryBps : 10000 - shock.shockBps
+    value = (value * BigInt(retainedBps)) / BASIS_POINTS
+  }
+  return value
+}
+
+/** LTV in basis points with CSVVault's rounding; `null` without collateral. */
+const ltvOf = (debt: bigint, collateral: bigint) => (collateral === BigInt(0) ? null : (debt * BASIS_POINTS) / collateral)
+
+/**
+ * Applies a scenario to the portfolio. A vault is liquidatable when its LTV
+ * is above `maxLTV`, as in `CSVVault.isLiquidatable`; one with debt and no
+ * collateral left counts as liquidatable. Liquidation losses are absorbed by
+ * the junior tranche first, then the senior tranche.
+ */
+export function runStressTest(portfolio: StressPortfolio, scenario: StressScenario): StressResult {
+  const problems = validateStressScenario(scenario)
+  if (problems.length > 0) throw new RangeError(`Invalid stress scenario "${scenario.name}": ${problems.join('; ')}`)
+
+  const { maxLTV, liquidationPenalty } = portfolio.config
+  const zero = BigInt(0)
+  const isOver = (ltv: bigint | null, debt: bigint) => (ltv === null ? debt > zero : ltv > maxLTV)
+
+  const vaults = portfolio.vaults
+    .filter((vault) => vault.position.isActive)
+    .map((vault): VaultStressResult => {
+      const { debtAmount, collateralValue } = vault.position
+      const stressedCollateralValue = applyShocks(vault, scenario.shocks)
+      const stressedLTV = ltvOf(debtAmount, stressedCollateralValue)
+      const liquidatable = isOver(stressedLTV, debtAmount)
+
+      let loss = zero
+      if (liquidatable) {
+        const recovered = stressedCollateralValue - (stressedCollateralValue * liquidationPenalty) / BASIS_POINTS
+        loss = debtAmount > recovered ? debtAmount - recovered : zero
+      }
+      return {
+        vaultId: vault.vaultId,
+        carrierName: vault.carrierName,
+        creditRating: vault.creditRating,
+        debtAmount,
+        collateralValue,
+        stressedCollateralValue,
+        ltv: ltvOf(debtAmount, collateralValue),
+        stressedLTV,
+        liquidatable,
+        loss,
+      }
+    })
+
+  const sum = (values: bigint[]) => values.reduce((total, value) => total + value, zero)
+  const totalLoss = sum(vaults.map((vault) => vault.loss))
+  const juniorLoss = totalLoss < portfolio.juniorDeposits ? totalLoss : portfolio.juniorDeposits
+  const remaining = totalLoss - juniorLoss
+  const seniorLoss = remaining < portfolio.seniorDeposits ? remaining : portfolio.seniorDeposits
+  const liquidatable = vaults.filter((vault) => vault.liquidatable)
+
+  return {
+    scenario,
+    vaults,
+    totalDebt: sum(vaults.map((vault) => vault.debtAmount)),
+    totalCollateralValue: sum(vaults.map((vault) => vault.collateralValue)),
+    stressedCollateralValue: sum(vaults.map((vault) => vault.stressedCollateralValue)),
+    liquidatableCount: liquidatable.length,
+    newlyLiquidatableCount: liquidatable.filter((vault) => !isOver(vault.ltv, vault.debtAmount)).length,
+    totalLoss,
+    juniorLoss,
+    seniorLoss,
+    uncoveredLoss: remaining - seniorLoss,
+  }
+}
@@ -0,0 +1,329 @@
+import type { Address, Hex } from 'viem'
+
+/**
+ * Decoded on-chain structs. Field names mirror the Solidity definitions; every
+ * token amount, timestamp and basis-point value is a `bigint`.
+ */
+
+export enum TrancheType {
+  SENIOR = 0,
+  JUNIOR = 1,
+}
+
+export interface CSVMetadata {
+  policyNumber: string
+  carrierName: string
+  cashValue: bigint
+  deathBenefit: bigint
+  premiumAmount: bigint
+  policyAge: bigint
+  creditRating: number
+  lastValuationTimestamp: bigint
+  isActive: boolean
+}
+
+export interface TokenComplianceData {
+  isAccredited: boolean
+  isKYCVerified: boolean
+  jurisdictionCode: bigint
+  lockupExpiry: bigint
+  isRestricted: boolean
+}
+
+export interface VaultPosition {
+  tokenId: bigint
+  collateralValue: bigint
+  debtAmount: bigint
+  liquidationThreshold: bigint
+  lastUpdateTimestamp: bigint
+  owner: Address
+  isActive: boolean
+}
+
+export interface VaultConfig {
+  maxLTV: bigint
+  liquidationPenalty: bigint
+  minCollateralValue: bigint
+  stabilityFee: bigint
+  isEnabled: boolean
+}
+
+/** Dutch auction of a liquidated vault's policy. */
+export interface Auction {
+  vaultId: bigint
+  tokenId: bigint
+  /** Vault owner; receives any surplus. */
+  owner: Address
+  /** Started the auction; receives the liquidator share of the penalty. */
+  liquidator: Address
+  debt: bigint
+  penalty: bigint
+  startPrice: bigint
+  floorPrice: bigint
+  startTime: bigint
+  endTime: bigint
+  isActive: boolean
+  /** `auctionConfig` when the auction started; bids and restarts use these. */
+  startPriceBps: bigint
+  floorPriceBps: bigint
+  duration: bigint
+  liquidatorShareBps: bigint
+}
+
+export interface AuctionConfig {
+  /** Opening price as a share of collateral value, in basis points. */
+  startPriceBps: bigint
+  /** Price reached at the end of the auction, in basis points. */
+  floorPriceBps: bigint
+  /** Seconds for the price to fall from start to floor. */
+  duration: bigint
+  /** Liquidator's share of the penalty, in basis points. */
+  liquidatorShareBps: bigint
+}
+
+/** Outstanding debt against one carrier's policies; `carrier` is keccak256 of `CSVMetadata.carrierName`. */
+export interface CarrierExposure {
+  carrier: Hex
+  exposure: bigint
+  shareBps: bigint
+}
+
+export interface CarrierLimits {
+  /** Max share of total debt per carrier, in basis points. */
+  maxCarrierBps: bigint
+  /** Total debt below which the carrier cap is not enforced. */
+  carrierCapFloor: bigint
+  /** Minimum policy age, in seconds, to mint against. */
+  minPolicyVintage: bigint
+}
+
+export interface PoolConfig {
+  seniorYieldRate: bigint
+  juniorYieldRate: bigint
+  protocolFeeRate: bigint
+  performanceFeeRate: bigint
+  withdrawalFeeRate: bigint
+  maxUtilization: bigint
+}
+
+export interface YieldDistribution {
+  timestamp: bigint
+  totalYield: bigint
+  seniorYield: bigint
+  juniorYield: bigint
+  protocolFee: bigint
+}
+
+/** A request in a tranche's withdrawal queue; its ID is its index in the queue. */
+export interface WithdrawalRequest {
+  requestId: bigint
+  user: Address
+  shares: bigint
+  /** Shares paid out so far; a request can be filled in several parts. */
+  filled: bigint
+  requestedAt: bigint
+  cancelled: boolean
+}
+
+/** A loss written down by `recordLoss`, junior first. */
+export interface LossRecord {
+  timestamp: bigint
+  totalLoss: bigint
+  juniorLoss: bigint
+  seniorLoss: bigint
+  reason: string
+}
+
+export interface UserPosition {
+  shares: bigint
+  deposits: bigint
+  currentValue: bigint
+  depositTimestamp: bigint
+  lockupExpiry: bigint
+  /** Yield accrued from distributions so far, before the performance fee. */
+  claimableYield: bigint
+  /** Part of `currentValue` that is yield reinvested with `compoundYield`. */
+  compoundedYield: bigint
+}
+
+/** What `withdraw(tranche, shares)` would pay out at a given time. */
+export interface WithdrawalPreview {
+  shares: bigint
+  /** Value of the shares before any fee. */
+  grossAmount: bigint
+  /** Early-withdrawal fee kept by the pool; zero once the lockup has passed. */
+  fee: bigint
+  /** Amount transferred to the user. */
+  netAmount: bigint
+  isEarlyWithdrawal: boolean
+  /** Seconds left until the lockup expires; zero once it has. */
+  lockupRemaining: bigint
+}
+
+export interface TrancheInfo {
+  totalDeposits: bigint
+  totalShares: bigint
+  yieldRate: bigint
+  priority: bigint
+  minDeposit: bigint
+  lockupPeriod: bigint
+  isActive: boolean
+}
+
+export interface ComplianceStatus {
+  isKYCVerified: boolean
+  isAccredited: boolean
+  accreditationExpiry: bigint
+  kycExpiry: bigint
+  jurisdictionCode: bigint
+  isRestricted: boolean
+  lockupExpiry: bigint
+  kycProvider: Address
+  kycHash: string
+  lastUpdateTimestamp: bigint
+}
+
+export interface JurisdictionInfo {
+  countryCode: string
+  jurisdictionName: string
+  isAllowed: boolean
+  requiresAdditionalKYC: boolean
+  additionalLockupPeriod: bigint
+  restrictedSecurityTypes: readonly bigint[]
+}
+
+export interface KYCProvider {
+  name: string
+  endpoint: string
+  isActive: boolean
+  verificationFee: bigint
+  supportedJurisdictions: readonly bigint[]
+}
+
+/** KYC verification a registered provider signs (EIP-712) for `submitKYCAttestation`. */
+export interface KYCAttestation {
+  user: Address
+  jurisdictionCode: bigint
+  /** Timestamp the user's KYC expires at; within the registry's KYC validity period. */
+  expiry: bigint
+  kycHash: string
+  nonce: Hex
+}
+
+export interface OracleInfo {
+  name: string
+  endpoint: string
+  isActive: boolean
+  totalSubmissions: bigint
+  totalCorrectSubmissions: bigint
+  reputationScore: bigint
+  operatorAddress: Address
+  stakingAmount: bigint
+  lastActiveTimestamp: bigint
+}
+
+export interface ValuationRequest {
+  requestId: bigint
+  policyNumber: string
+  requester: Address
+  timestamp: bigint
+  deadline: bigint
+  isActive: boolean
+  responseCount: bigint
+  agreedValue: bigint
+  isFinalized: boolean
+  ipfsHash: string
+}
+
+export interface OracleResponse {
+  oracle: Address
+  value: bigint
+  timestamp: bigint
+  proofHash: Hex
+  documentationURI: string
+  isValid: boolean
+}
+
+export interface ConsensusConfig {
+  minOracles: bigint
+  maxOracles: bigint
+  consensusThreshold: bigint
+  disputePeriod: bigint
+  maxDeviationPercent: bigint
+  responsePeriod: bigint
+}
+
+export enum DisputeStatus {
+  NONE = 0,
+  OPEN = 1,
+  UPHELD = 2,
+  OVERTURNED = 3,
+}
+
+/** Stake an oracle has asked to withdraw; slashable until it is withdrawn. */
+export interface Unbonding {
+  amount: bigint
+  /** Unix timestamp from which `withdrawStake` releases it; zero without a pending unbond. */
+  availableAt: bigint
+}
+
+/** Challenge to a finalized valuation, keyed by the request it disputes. */
+export interface Dispute {
+  disputer: Address
+  bond: bigint
+  reason: string
+  raisedAt: bigint
+  status: DisputeStatus
+  /** Value the arbitrator ruled correct; zero unless overturned. */
+  correctedValue: bigint
+  /** Request opened to re-value the policy; zero unless overturned. */
+  revaluationRequestId: bigint
+}
+
+/**
+ * ERC-1404 codes from `detectTransferRestriction`. 1-15 are the compliance
+ * registry's checks, 16 and up the token's own; the numbers are stable.
+ */
+export enum TransferRestriction {
+  SUCCESS = 0,
+  SENDER_KYC_REQUIRED = 1,
+  SENDER_ACCREDITATION_REQUIRED = 2,
+  SENDER_RESTRICTED = 3,
+  SENDER_UNDER_LOCKUP = 4,
+  RECEIVER_KYC_REQUIRED = 5,
+  RECEIVER_ACCREDITATION_REQUIRED = 6,
+  RECEIVER_RESTRICTED = 7,
+  JURISDICTION_NOT_ALLOWED = 8,
+  TRANSFERS_PAUSED = 16,
+  INVALID_ADDRESS = 17,
+  INSUFFICIENT_BALANCE = 18,
+}
+
+/** Result of a `isTransferAllowed` check; `reason` is the contract's message either way. */
+export interface TransferCheck {
+  allowed: boolean
+  reason: string
+}
+
+/** ValuationRelay binding of a policy number to its token and vault. */
+export interface PolicyBinding {
+  tokenId: bigint
+  /** Zero while the policy is not vaulted. */
+  vaultId: bigint
+  /** Latest valuation request applied or held by the circuit breaker. */
+  lastRequestId: bigint
+  isActive: boolean
+}
+
+/** Finalized valuation the circuit breaker held back for a risk manager to release or reject. */
+export interface HeldValuation {
+  requestId: bigint
+  value: bigint
+}
+
+export interface LatestValuation {
+  value: bigint
+  isFinalized: boolean
+  /** An open dispute challenges the value. */
+  isDisputed: boolean
+}
@@ -0,0 +1,85 @@
+import { expect } from 'chai'
+import { createWalletClient, custom, type Hex } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import {
+  ComplianceRegistryClient,
+  IYieldError,
+  complianceRegistryAbi,
+  kycAttestationDomain,
+  recoverKYCAttestationSigner,
+  signKYCAttestation,
+  type KYCAttestation,
+} from '../src'
+import { ALICE, CONTRACT, createFakeClient } from './helpers'
+
+const provider = privateKeyToAccount('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d')
+const walletClient = createWalletClient({
+  account: provider,
+  transport: custom({
+    async request({ method }) {
+      throw new Error(`Unexpected RPC method ${method}`)
+    },
+  }),
+})
+
+const domain = kycAttestationDomain(31337, CONTRACT)
+const attestation: KYCAttestation = {
+  user: ALICE,
+  jurisdictionCode: BigInt(1),
+  expiry: BigInt(1700000000),
+  kycHash: 'QmAliceKycPacket',
+  nonce: `0x${'11'.repeat(32)}` as Hex,
+}
+
+function fakeRegistry(isActive: boolean) {
+  const submitted: unknown[][] = []
+  const { publicClient } = createFakeClient(complianceRegistryAbi, (name, args) => {
+    switch (name) {
+      case 'eip712Domain':
+        return ['0x0f', 'ComplianceRegistry', '1', BigInt(31337), CONTRACT, `0x${'00'.repeat(32)}`, []]
+      case 'getKYCProvider':
+        expect(args).to.deep.equal([provider.address])
+        return { name: 'MockKYC', endpoint: '', isActive, verificationFee: BigInt(10), supportedJurisdictions: [BigInt(1)] }
+      case 'submitKYCAttestation':
+        submitted.push([...args])
+        return undefined
+      default:
+        throw new Error(`Unexpected call ${name}`)
+    }
+  })
+  return { registry: new ComplianceRegistryClient({ address: CONTRACT, publicClient }), submitted }
+}
+
+describe('KYC attestations', () => {
+  it('recovers the provider that signed an attestation', async () => {
+    const signature = await signKYCAttestation(walletClient, domain, attestation)
+
+    expect(await recoverKYCAttestationSigner(domain, attestation, signature)).to.equal(provider.address)
+    expect(await recoverKYCAttestationSigner(domain, { ...attestation, kycHash: 'QmOther' }, signature)).not.to.equal(
+      provider.address
+    )
+  })
+
+  it('relays a signed attestation under the domain read from the registry', async () => {
+    const { registry, submitted } = fakeRegistry(true)
+    const signature = await signKYCAttestation(walletClient, await registry.getAttestationDomain(), attestation)
+
+    await registry.relayKYCAttestation(attestation, signature, { simulate: true, account: ALICE })
+
+    expect(submitted).to.deep.equal([[attestation, signature]])
+  })
+
+  it('refuses to relay for an inactive provider', async () => {
+    const { registry, submitted } = fakeRegistry(false)
+    const signature = await signKYCAttestation(walletClient, domain, attestation)
+
+    try {
+      await registry.relayKYCAttestation(attestation, signature, { simulate: true, account: ALICE })
+      expect.fail('expected an error')
+    } catch (error) {
+      expect(error).to.be.instanceOf(IYieldError)
+      expect((error as Error).message).to.match(/not an active KYC provider/)
+    }
+    expect(submitted).to.deep.equal([])
+  })
+})
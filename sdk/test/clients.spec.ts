@@ -0,0 +1,412 @@
+import { expect } from 'chai'
+import {
+  ComplianceRegistryClient,
+  CSVLiquidityPoolClient,
+  CSVOracleClient,
+  CSVTrancheVaultClient,
+  CSVVaultClient,
+  CSVVaultError,
+  ERCRWACSVClient,
+  ERCRWACSVError,
+  IYieldError,
+  TrancheType,
+  TransferRestriction,
+  ValuationRelayClient,
+  ValuationRelayError,
+  carrierKey,
+  complianceRegistryAbi,
+  complianceRegistryRoles,
+  createIYieldClient,
+  csvLiquidityPoolAbi,
+  csvOracleAbi,
+  csvTrancheVaultAbi,
+  csvVaultAbi,
+  ercRwaCsvAbi,
+  estimateWithdrawalWait,
+  messageForTransferRestriction,
+  previewWithdrawal,
+  sharesForAmount,
+  valuationRelayAbi,
+  type TrancheInfo,
+  type UserPosition,
+  type VaultPosition,
+} from '../src'
+import { ALICE, BOB, CONTRACT, MULTICALL, createFakeClient, revertWith } from './helpers'
+
+const position: VaultPosition = {
+  tokenId: BigInt(7),
+  collateralValue: BigInt('100000000000000000000000'),
+  debtAmount: BigInt('50000000000000000000000'),
+  liquidationThreshold: BigInt(8000),
+  lastUpdateTimestamp: BigInt(1700000000),
+  owner: ALICE,
+  isActive: true,
+}
+
+describe('clients', () => {
+  describe('reads', () => {
+    it('decodes struct returns into typed objects', async () => {
+      const { publicClient } = createFakeClient(csvVaultAbi, (name, args) => {
+        expect(name).to.equal('getVaultPosition')
+        expect(args).to.deep.equal([BigInt(1)])
+        return position
+      })
+      const vault = new CSVVaultClient({ address: CONTRACT, publicClient })
+
+      expect(await vault.getVaultPosition(BigInt(1))).to.deep.equal(position)
+    })
+
+    it('decodes multi-value returns into named fields', async () => {
+      const { publicClient } = createFakeClient(csvLiquidityPoolAbi, (name, args) => {
+        expect(name).to.equal('getUserPosition')
+        expect(args).to.deep.equal([TrancheType.JUNIOR, ALICE])
+        return [BigInt(10), BigInt(20), BigInt(30), BigInt(40), BigInt(50), BigInt(60), BigInt(70)]
+      })
+      const pool = new CSVLiquidityPoolClient({ address: CONTRACT, publicClient })
+
+      expect(await pool.getUserPosition(TrancheType.JUNIOR, ALICE)).to.deep.equal({
+        shares: BigInt(10),
+        deposits: BigInt(20),
+        currentValue: BigInt(30),
+        depositTimestamp: BigInt(40),
+        lockupExpiry: BigInt(50),
+        claimableYield: BigInt(60),
+        compoundedYield: BigInt(70),
+      })
+    })
+
+    it('reads the full yield history', async () => {
+      const distribution = (index: number) => ({
+        timestamp: BigInt(index),
+        totalYield: BigInt(100 * index),
+        seniorYield: BigInt(60 * index),
+        juniorYield: BigInt(30 * index),
+        protocolFee: BigInt(10 * index),
+      })
+      const { publicClient } = createFakeClient(csvLiquidityPoolAbi, (name, args) => {
+        if (name === 'getYieldHistoryLength') return BigInt(3)
+        return distribution(Number(args[0]))
+      })
+      const pool = new CSVLiquidityPoolClient({ address: CONTRACT, publicClient })
+
+      expect(await pool.getYieldHistory()).to.deep.equal([0, 1, 2].map(distribution))
+    })
+
+    it('lists the open requests of a withdrawal queue', async () => {
+      const request = (shares: number, filled: number, cancelled = false) => ({
+        user: ALICE,
+        shares: BigInt(shares),
+        filled: BigInt(filled),
+        requestedAt: BigInt(1700000000),
+        cancelled,
+      })
+      // Requests 0 and 1 were filled before the head moved on; 2 is partly filled, 3 cancelled
+      const requests = [request(10, 10), request(20, 20), request(30, 12), request(40, 0, true), request(50, 0)]
+      const { publicClient } = createFakeClient(csvLiquidityPoolAbi, (name, args) => {
+        if (name === 'getWithdrawalQueue') return [BigInt(2), BigInt(5), BigInt(68)]
+        expect(args[0]).to.equal(TrancheType.JUNIOR)
+        return requests[Number(args[1])]
+      })
+      const pool = new CSVLiquidityPoolClient({ address: CONTRACT, publicClient })
+
+      const queue = await pool.getWithdrawalQueue(TrancheType.JUNIOR)
+      expect(queue.map(({ requestId, filled }) => [requestId, filled])).to.deep.equal([
+        [BigInt(2), BigInt(12)],
+        [BigInt(4), BigInt(0)],
+      ])
+    })
+
+    it("previews a holder's redemption with their early withdrawal fee, rounded up", async () => {
+      const { publicClient } = createFakeClient(csvTrancheVaultAbi, (name, args) => {
+        if (name === 'convertToAssets') return (args[0] as bigint) * BigInt(2)
+        return args[0] === ALICE ? BigInt(100) : BigInt(0)
+      })
+      const vault = new CSVTrancheVaultClient({ address: CONTRACT, publicClient })
+
+      expect(await vault.previewRedeemFor(ALICE, BigInt(5001))).to.equal(BigInt(9901))
+      expect(await vault.previewRedeemFor(BOB, BigInt(5001))).to.equal(BigInt(10002))
+    })
+
+    it('lists carrier exposures with their share of total debt', async () => {
+      const carriers = [carrierKey('ExampleLife'), carrierKey('OtherLife')]
+      const { publicClient } = createFakeClient(csvVaultAbi, (name) => {
+        if (name === 'totalDebt') return BigInt(800)
+        return [carriers, [BigInt(600), BigInt(200)]]
+      })
+      const vault = new CSVVaultClient({ address: CONTRACT, publicClient })
+
+      expect(await vault.getCarrierExposures()).to.deep.equal([
+        { carrier: carriers[0], exposure: BigInt(600), shareBps: BigInt(7500) },
+        { carrier: carriers[1], exposure: BigInt(200), shareBps: BigInt(2500) },
+      ])
+    })
+
+    it('reports whether the latest valuation is under dispute', async () => {
+      const { publicClient } = createFakeClient(csvOracleAbi, (name, args) => {
+        expect(name).to.equal('getLatestValuation')
+        expect(args).to.deep.equal(['POL-1'])
+        return [BigInt(100000), true, true]
+      })
+      const oracle = new CSVOracleClient({ address: CONTRACT, publicClient })
+
+      expect(await oracle.getLatestValuation('POL-1')).to.deep.equal({
+        value: BigInt(100000),
+        isFinalized: true,
+        isDisputed: true,
+      })
+    })
+
+    it("reads an oracle's pending unbond", async () => {
+      const { publicClient } = createFakeClient(csvOracleAbi, (name, args) => {
+        expect(name).to.equal('unbondings')
+        expect(args).to.deep.equal([ALICE])
+        return [BigInt(400), BigInt(1700604800)]
+      })
+      const oracle = new CSVOracleClient({ address: CONTRACT, publicClient })
+
+      expect(await oracle.getUnbonding(ALICE)).to.deep.equal({ amount: BigInt(400), availableAt: BigInt(1700604800) })
+    })
+
+    it('reports the valuation the circuit breaker holds, if any', async () => {
+      const { publicClient } = createFakeClient(valuationRelayAbi, (name, [policyNumber]) => {
+        expect(name).to.equal('getHeldValuation')
+        return policyNumber === 'POL-1'
+          ? { requestId: BigInt(4), value: BigInt(70000) }
+          : { requestId: BigInt(0), value: BigInt(0) }
+      })
+      const relay = new ValuationRelayClient({ address: CONTRACT, publicClient })
+
+      expect(await relay.getHeldValuation('POL-1')).to.deep.equal({ requestId: BigInt(4), value: BigInt(70000) })
+      expect(await relay.getHeldValuation('POL-2')).to.equal(undefined)
+    })
+
+    it('reads the registry roles an account holds', async () => {
+      const { publicClient } = createFakeClient(complianceRegistryAbi, (name, [role, account]) => {
+        expect(name).to.equal('hasRole')
+        expect(account).to.equal(ALICE)
+        return role === complianceRegistryRoles.complianceOfficer
+      })
+      const registry = new ComplianceRegistryClient({ address: CONTRACT, publicClient })
+
+      expect(await registry.getRoles(ALICE)).to.deep.equal({
+        admin: false,
+        complianceOfficer: true,
+        jurisdictionManager: false,
+      })
+    })
+
+    it('pre-flights a batch of transfers in a single multicall', async () => {
+      const { publicClient, methods } = createFakeClient(ercRwaCsvAbi, (name, args) => {
+        expect(name).to.equal('detectTransferRestriction')
+        const [, to, amount] = args as [string, string, bigint]
+        if (to === BOB) return TransferRestriction.RECEIVER_KYC_REQUIRED
+        return amount > BigInt(100) ? TransferRestriction.INSUFFICIENT_BALANCE : TransferRestriction.SUCCESS
+      })
+      const token = new ERCRWACSVClient({ address: CONTRACT, publicClient })
+
+      const results = await token.checkTransfers(
+        [
+          { from: ALICE, to: CONTRACT, amount: BigInt(100) },
+          { from: ALICE, to: BOB, amount: BigInt(1) },
+          { from: ALICE, to: CONTRACT, amount: BigInt(101) },
+        ],
+        { multicallAddress: MULTICALL }
+      )
+
+      expect(methods).to.deep.equal(['eth_call'])
+      expect(results.map(({ allowed, code, message }) => ({ allowed, code, message }))).to.deep.equal([
+        { allowed: true, code: TransferRestriction.SUCCESS, message: 'Transfer allowed' },
+        {
+          allowed: false,
+          code: TransferRestriction.RECEIVER_KYC_REQUIRED,
+          message: 'Receiver KYC verification required or expired',
+        },
+        { allowed: false, code: TransferRestriction.INSUFFICIENT_BALANCE, message: 'Insufficient balance' },
+      ])
+      expect(results[2].amount).to.equal(BigInt(101))
+      expect(messageForTransferRestriction(42)).to.equal('Unknown restriction code')
+    })
+
+    it('throws typed errors for reverted reads', async () => {
+      const { publicClient } = createFakeClient(csvOracleAbi, () => revertWith('CSVOracle: Invalid request ID'))
+      const oracle = new CSVOracleClient({ address: CONTRACT, publicClient })
+
+      try {
+        await oracle.getAssignedOracles(BigInt(99))
+        expect.fail('expected a revert')
+      } catch (error) {
+        expect(error).to.include({ contract: 'CSVOracle', code: 'INVALID_REQUEST_ID' })
+      }
+    })
+  })
+
+  describe('simulate mode', () => {
+    it('surfaces relay reverts as relay errors', async () => {
+      const { publicClient } = createFakeClient(valuationRelayAbi, () => revertWith('ValuationRelay: Valuation disputed'))
+      const relay = new ValuationRelayClient({ address: CONTRACT, publicClient })
+
+      try {
+        await relay.propagate('POL-1', { simulate: true, account: ALICE })
+        expect.fail('expected a revert')
+      } catch (error) {
+        expect(error).to.be.instanceOf(ValuationRelayError)
+        expect(error).to.include({ contract: 'ValuationRelay', code: 'VALUATION_DISPUTED' })
+      }
+    })
+
+
+    it('returns the decoded result without sending a transaction', async () => {
+      const { publicClient, methods } = createFakeClient(csvVaultAbi, (name, args) => {
+        expect(name).to.equal('openVault')
+        expect(args).to.deep.equal([BigInt(7), position.collateralValue])
+        return BigInt(12)
+      })
+      const vault = new CSVVaultClient({ address: CONTRACT, publicClient })
+
+      const { result, hash } = await vault.openVault(BigInt(7), position.collateralValue, {
+        simulate: true,
+        account: ALICE,
+      })
+
+      expect(result).to.equal(BigInt(12))
+      expect(hash).to.equal(undefined)
+      expect(methods).not.to.include('eth_sendTransaction')
+      expect(methods).not.to.include('eth_sendRawTransaction')
+    })
+
+    it('surfaces the revert reason of a write before it is sent', async () => {
+      const { publicClient } = createFakeClient(csvVaultAbi, () => revertWith('CSVVault: Exceeds maximum LTV'))
+      const vault = new CSVVaultClient({ address: CONTRACT, publicClient })
+
+      try {
+        await vault.mintTokens(BigInt(1), BigInt(1), { simulate: true, account: ALICE })
+        expect.fail('expected a revert')
+      } catch (error) {
+        expect(error).to.be.instanceOf(CSVVaultError)
+        expect(error).to.include({ code: 'EXCEEDS_MAX_LTV', reason: 'Exceeds maximum LTV' })
+      }
+    })
+
+    it('attributes reverts bubbled up from another contract to that contract', async () => {
+      const { publicClient } = createFakeClient(csvVaultAbi, () => revertWith('ERCRWACSV: Account not compliant'))
+      const vault = new CSVVaultClient({ address: CONTRACT, publicClient })
+
+      try {
+        await vault.openVault(BigInt(1), BigInt(1), { simulate: true, account: ALICE })
+        expect.fail('expected a revert')
+      } catch (error) {
+        expect(error).to.be.instanceOf(ERCRWACSVError)
+        expect(error).to.include({ code: 'ACCOUNT_NOT_COMPLIANT' })
+      }
+    })
+
+    it('requires an account when no wallet client is configured', async () => {
+      const { publicClient } = createFakeClient(csvVaultAbi, () => BigInt(0))
+      const vault = new CSVVaultClient({ address: CONTRACT, publicClient })
+
+      try {
+        await vault.closeVault(BigInt(1), { simulate: true })
+        expect.fail('expected an error')
+      } catch (error) {
+        expect(error).to.be.instanceOf(IYieldError)
+        expect((error as Error).message).to.match(/no account/)
+      }
+    })
+  })
+
+  describe('createIYieldClient', () => {
+    it('binds each contract client to its address', () => {
+      const { publicClient } = createFakeClient(csvVaultAbi, () => undefined)
+      const addresses = {
+        complianceRegistry: CONTRACT,
+        csvOracle: CONTRACT,
+        csvToken: CONTRACT,
+        csvVault: ALICE,
+        liquidityPool: CONTRACT,
+      }
+      const client = createIYieldClient({ publicClient, addresses })
+
+      expect(client.csvVault).to.be.instanceOf(CSVVaultClient)
+      expect(client.csvVault.address).to.equal(ALICE)
+      expect(client.liquidityPool.contractName).to.equal('CSVLiquidityPool')
+    })
+  })
+
+  describe('withdrawal previews', () => {
+    const DAY = BigInt(86400)
+    const tranche: TrancheInfo = {
+      totalDeposits: BigInt(1200),
+      totalShares: BigInt(1000),
+      yieldRate: BigInt(400),
+      priority: BigInt(1),
+      minDeposit: BigInt(100),
+      lockupPeriod: BigInt(90) * DAY,
+      isActive: true,
+    }
+    const depositTimestamp = BigInt(1700000000)
+    const userPosition: UserPosition = {
+      shares: BigInt(500),
+      deposits: BigInt(500),
+      currentValue: BigInt(600),
+      depositTimestamp,
+      lockupExpiry: depositTimestamp + tranche.lockupPeriod,
+      claimableYield: BigInt(0),
+      compoundedYield: BigInt(0),
+    }
+
+    it('charges the withdrawal fee while the lockup is running', () => {
+      const preview = previewWithdrawal(tranche, userPosition, BigInt(500), BigInt(250), depositTimestamp + DAY)
+
+      expect(preview).to.deep.equal({
+        shares: BigInt(500),
+        grossAmount: BigInt(600),
+        fee: BigInt(15),
+        netAmount: BigInt(585),
+        isEarlyWithdrawal: true,
+        lockupRemaining: BigInt(89) * DAY,
+      })
+    })
+
+    it('pays the full value once the lockup has expired', () => {
+      const preview = previewWithdrawal(tranche, userPosition, BigInt(500), BigInt(250), userPosition.lockupExpiry)
+
+      expect(preview.fee).to.equal(BigInt(0))
+      expect(preview.netAmount).to.equal(BigInt(600))
+      expect(preview.lockupRemaining).to.equal(BigInt(0))
+    })
+
+    it('rounds shares up so the withdrawal covers the requested amount', () => {
+      const shares = sharesForAmount(tranche, BigInt(100))
+
+      const { grossAmount } = previewWithdrawal(tranche, userPosition, shares, BigInt(0), depositTimestamp)
+      expect(shares).to.equal(BigInt(84))
+      expect(grossAmount).to.equal(BigInt(100))
+    })
+  })
+
+  describe('withdrawal queue estimates', () => {
+    const DAY = BigInt(86400)
+
+    it('extrapolates the wait from recent fills', () => {
+      // 300 missing at 100 a day
+      const wait = estimateWithdrawalWait({
+        valueAhead: BigInt(250),
+        value: BigInt(100),
+        availableLiquidity: BigInt(50),
+        filledValue: BigInt(3000),
+        period: BigInt(30) * DAY,
+      })
+      expect(wait).to.equal(BigInt(3) * DAY)
+    })
+
+    it('is zero when liquidity covers the queue and unknown without recent fills', () => {
+      const request = { valueAhead: BigInt(250), value: BigInt(100), period: BigInt(30) * DAY }
+      expect(estimateWithdrawalWait({ ...request, availableLiquidity: BigInt(350), filledValue: BigInt(0) })).to.equal(
+        BigInt(0)
+      )
+      expect(estimateWithdrawalWait({ ...request, availableLiquidity: BigInt(349), filledValue: BigInt(0) })).to.equal(
+        undefined
+      )
+    })
+  })
+})
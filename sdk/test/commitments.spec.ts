@@ -0,0 +1,66 @@
+import { expect } from 'chai'
+import { concat, keccak256, pad, toHex } from 'viem'
+import {
+  CSVOracleClient,
+  CSVOracleError,
+  csvOracleAbi,
+  generateSalt,
+  matchesCommitment,
+  valuationCommitment,
+} from '../src'
+import { ALICE, BOB, CONTRACT, createFakeClient, revertWith } from './helpers'
+
+const reveal = {
+  requestId: BigInt(7),
+  oracle: ALICE,
+  value: BigInt('100000000000000000000000'),
+  salt: pad('0x5a17', { size: 32 }),
+}
+
+describe('valuation commitments', () => {
+  it('hashes the ABI-encoded request, oracle, value and salt', () => {
+    const words = [toHex(reveal.requestId, { size: 32 }), pad(ALICE), toHex(reveal.value, { size: 32 }), reveal.salt]
+    expect(valuationCommitment(reveal)).to.equal(keccak256(concat(words)))
+  })
+
+  it('only opens with the committed value, salt and oracle', () => {
+    const commitment = valuationCommitment(reveal)
+
+    expect(matchesCommitment(commitment, reveal)).to.equal(true)
+    expect(matchesCommitment(commitment, { ...reveal, salt: pad('0x5a18', { size: 32 }) })).to.equal(false)
+    expect(matchesCommitment(commitment, { ...reveal, value: reveal.value + BigInt(1) })).to.equal(false)
+    expect(matchesCommitment(commitment, { ...reveal, oracle: BOB })).to.equal(false)
+  })
+
+  it('generates distinct 32-byte salts', () => {
+    const salts = new Set(Array.from({ length: 8 }, () => generateSalt()))
+
+    expect(salts.size).to.equal(8)
+    for (const salt of salts) expect(salt).to.match(/^0x[0-9a-f]{64}$/)
+  })
+
+  it('surfaces mismatched and late reveals as typed errors', async () => {
+    for (const [reason, code] of [
+      ['CSVOracle: Commitment mismatch', 'COMMITMENT_MISMATCH'],
+      ['CSVOracle: Reveal period over', 'REVEAL_PERIOD_OVER'],
+    ]) {
+      const { publicClient } = createFakeClient(csvOracleAbi, (name, args) => {
+        expect(name).to.equal('revealValuation')
+        expect(args.slice(0, 3)).to.deep.equal([reveal.requestId, reveal.value, reveal.salt])
+        return revertWith(reason)
+      })
+      const oracle = new CSVOracleClient({ address: CONTRACT, publicClient })
+
+      try {
+        await oracle.revealValuation(reveal.requestId, reveal.value, reveal.salt, reveal.salt, 'ipfs://proof', {
+          simulate: true,
+          account: ALICE,
+        })
+        expect.fail('expected a revert')
+      } catch (error) {
+        expect(error).to.be.instanceOf(CSVOracleError)
+        expect(error).to.include({ code })
+      }
+    }
+  })
+})
@@ -0,0 +1,99 @@
+import { expect } from 'chai'
+import { BaseError, ContractFunctionRevertedError, encodeErrorResult } from 'viem'
+import {
+  ComplianceRegistryError,
+  ContractRevertError,
+  CSVVaultError,
+  decodeRevertReason,
+  ERCRWACSVError,
+  IYieldError,
+  parseContractError,
+} from '../src'
+import { csvVaultAbi } from '../src/abis'
+import { ALICE, solidityErrorAbi } from './helpers'
+
+function revert(data: `0x${string}`) {
+  return new ContractFunctionRevertedError({ abi: [...csvVaultAbi, ...solidityErrorAbi], data, functionName: 'openVault' })
+}
+
+describe('errors', () => {
+  describe('decodeRevertReason', () => {
+    it('maps a prefixed revert string to its contract and code', () => {
+      expect(decodeRevertReason('CSVVault: Exceeds maximum LTV', 'CSVOracle')).to.deep.equal({
+        contract: 'CSVVault',
+        code: 'EXCEEDS_MAX_LTV',
+        reason: 'Exceeds maximum LTV',
+      })
+    })
+
+    it('distinguishes identical reasons raised by different contracts', () => {
+      expect(decodeRevertReason('ERCRWACSV: Jurisdiction not allowed', 'ComplianceRegistry').contract).to.equal(
+        'ERCRWACSV'
+      )
+      expect(decodeRevertReason('ComplianceRegistry: Jurisdiction not allowed', 'ERCRWACSV').contract).to.equal(
+        'ComplianceRegistry'
+      )
+    })
+
+    it('falls back to the called contract for unknown strings', () => {
+      expect(decodeRevertReason('something else', 'ComplianceRegistry')).to.deep.equal({
+        contract: 'ComplianceRegistry',
+        code: 'UNKNOWN',
+        reason: 'something else',
+      })
+    })
+  })
+
+  describe('parseContractError', () => {
+    it('raises the error class of the contract named in the revert string', () => {
+      const data = encodeErrorResult({
+        abi: solidityErrorAbi,
+        errorName: 'Error',
+        args: ['ERCRWACSV: Account not compliant'],
+      })
+      const error = parseContractError(revert(data), 'CSVVault')
+
+      expect(error).to.be.instanceOf(ERCRWACSVError)
+      expect(error).to.be.instanceOf(ContractRevertError)
+      expect(error).to.include({ contract: 'ERCRWACSV', code: 'ACCOUNT_NOT_COMPLIANT', reason: 'Account not compliant' })
+      expect(error.message).to.equal('ERCRWACSV: Account not compliant')
+    })
+
+    it('decodes OpenZeppelin custom errors with their arguments', () => {
+      const role = `0x${'11'.repeat(32)}` as const
+      const data = encodeErrorResult({
+        abi: csvVaultAbi,
+        errorName: 'AccessControlUnauthorizedAccount',
+        args: [ALICE, role],
+      })
+      const error = parseContractError(revert(data), 'CSVVault') as CSVVaultError
+
+      expect(error).to.be.instanceOf(CSVVaultError)
+      expect(error.code).to.equal('UNAUTHORIZED')
+      expect(error.reason).to.equal('AccessControlUnauthorizedAccount')
+      expect(error.args).to.deep.equal([ALICE, role])
+    })
+
+    it('reports panics', () => {
+      const data = encodeErrorResult({ abi: solidityErrorAbi, errorName: 'Panic', args: [BigInt(0x11)] })
+      const error = parseContractError(revert(data), 'ComplianceRegistry')
+
+      expect(error).to.be.instanceOf(ComplianceRegistryError)
+      expect((error as ComplianceRegistryError).code).to.equal('PANIC')
+    })
+
+    it('wraps failures that are not reverts', () => {
+      const cause = new BaseError('User rejected the request.')
+      const error = parseContractError(cause, 'CSVVault')
+
+      expect(error).to.be.instanceOf(IYieldError)
+      expect(error).not.to.be.instanceOf(ContractRevertError)
+      expect(error.cause).to.equal(cause)
+    })
+
+    it('returns SDK errors unchanged', () => {
+      const error = new IYieldError('already parsed')
+      expect(parseContractError(error, 'CSVOracle')).to.equal(error)
+    })
+  })
+})
@@ -0,0 +1,87 @@
+import {
+  createPublicClient,
+  custom,
+  decodeFunctionData,
+  encodeErrorResult,
+  encodeFunctionResult,
+  getAddress,
+  isAddressEqual,
+  multicall3Abi,
+  parseAbi,
+  type Abi,
+  type Address,
+  type Hex,
+} from 'viem'
+
+export const solidityErrorAbi = parseAbi(['error Error(string)', 'error Panic(uint256)'])
+
+export const ALICE: Address = getAddress('0x00000000000000000000000000000000000a11ce')
+export const BOB: Address = getAddress('0x0000000000000000000000000000000000000b0b')
+export const CONTRACT: Address = getAddress('0x000000000000000000000000000000000000c5f0')
+export const MULTICALL: Address = getAddress('0x0000000000000000000000000000000000ca11ca')
+
+export type CallHandler = (functionName: string, args: readonly unknown[]) => unknown
+
+/** Error thrown by a handler to make the fake node revert with the given data. */
+export class Revert extends Error {
+  constructor(readonly data: Hex) {
+    super('execution reverted')
+  }
+}
+
+export function revertWith(reason: string): never {
+  throw new Revert(encodeErrorResult({ abi: solidityErrorAbi, errorName: 'Error', args: [reason] }))
+}
+
+/**
+ * Public client backed by an in-memory node: `eth_call`s to `CONTRACT` are
+ * decoded against `abi` and answered by `handler`, and Multicall3
+ * `aggregate3` calls to `MULTICALL` are unpacked into the same handler. Every
+ * RPC method seen is recorded in `methods`.
+ */
+export function createFakeClient(abi: Abi, handler: CallHandler) {
+  const methods: string[] = []
+
+  function call(data: Hex): Hex {
+    const { functionName, args } = decodeFunctionData({ abi, data })
+    const result = handler(functionName, args ?? [])
+    return encodeFunctionResult({ abi, functionName, result } as never)
+  }
+
+  function aggregate3(data: Hex): Hex {
+    const { args } = decodeFunctionData({ abi: multicall3Abi, data })
+    const calls = args[0] as readonly { target: Address; callData: Hex }[]
+    const result = calls.map(({ target, callData }) => {
+      if (!isAddressEqual(target, CONTRACT)) throw new Error(`Unexpected multicall target ${target}`)
+      try {
+        return { success: true, returnData: call(callData) }
+      } catch (error) {
+        if (error instanceof Revert) return { success: false, returnData: error.data }
+        throw error
+      }
+    })
+    return encodeFunctionResult({ abi: multicall3Abi, functionName: 'aggregate3', result })
+  }
+
+  const transport = custom({
+    async request({ method, params = [] }: { method: string; params?: readonly unknown[] }) {
+      methods.push(method)
+      switch (method) {
+        case 'eth_call': {
+          const [{ to, data }] = params as [{ to: Address; data: Hex }]
+          try {
+            return isAddressEqual(to, MULTICALL) ? aggregate3(data) : call(data)
+          } catch (error) {
+            if (error instanceof Revert) {
+              throw Object.assign(new Error('execution reverted'), { code: 3, data: error.data })
+            }
+            throw error
+          }
+        }
+        default:
+          throw new Error(`Unexpected RPC method ${method}`)
+      }
+    },
+  }, { retryCount: 0 })
+  return { publicClient: createPublicClient({ transport }), methods }
+}
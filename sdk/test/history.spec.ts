@@ -0,0 +1,72 @@
+import { expect } from 'chai'
+import { privateKeyToAccount } from 'viem/accounts'
+import {
+  complianceHistoryCsv,
+  complianceHistoryMessage,
+  complianceHistoryReport,
+  recoverComplianceHistorySigner,
+  sortComplianceHistory,
+  type ComplianceHistoryEntry,
+} from '../src'
+import { BOB, CONTRACT } from './helpers'
+
+const account = privateKeyToAccount('0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a')
+const timestamp = BigInt(1_700_000_000)
+
+const entry = (event: ComplianceHistoryEntry['event'], args: Record<string, unknown>, blockNumber: number, logIndex = 0) =>
+  ({
+    event,
+    contract: CONTRACT,
+    args,
+    blockNumber: BigInt(blockNumber),
+    logIndex,
+    transactionHash: `0x${blockNumber.toString(16).padStart(64, '0')}`,
+    timestamp: timestamp + BigInt(blockNumber),
+  }) satisfies ComplianceHistoryEntry
+
+const history = sortComplianceHistory([
+  entry('UserKYCUpdated', { user: account.address, verified: true, expiry: timestamp + BigInt(86_400), provider: BOB }, 10),
+  entry('TransferRestricted', { from: account.address, to: BOB, reason: 'Recipient KYC verification required, or expired' }, 12),
+  entry('UserRestricted', { user: account.address, reason: 'Sanctions screening, "manual" review' }, 12, 3),
+])
+
+describe('compliance history', () => {
+  it('sorts newest first and exports CSV with quoted fields', () => {
+    expect(history.map(({ event }) => event)).to.deep.equal(['UserRestricted', 'TransferRestricted', 'UserKYCUpdated'])
+
+    const lines = complianceHistoryCsv(history, account.address).trimEnd().split('\n')
+    expect(lines[0]).to.equal('date,timestamp,event,description,contract,blockNumber,transactionHash')
+    expect(lines[1]).to.contain('"Account restricted: Sanctions screening, ""manual"" review"')
+    expect(lines[2]).to.contain(`"Transfer to ${BOB} blocked: Recipient KYC verification required, or expired"`)
+    expect(lines[3].split(',').slice(0, 4)).to.deep.equal([
+      '2023-11-14T22:13:30.000Z',
+      '1700000010',
+      'UserKYCUpdated',
+      'KYC verified until 2023-11-15',
+    ])
+  })
+
+  it('signs reports the account can be recovered from and that break when edited', async () => {
+    const report = complianceHistoryReport({
+      account: account.address,
+      chainId: 31337,
+      blockNumber: BigInt(12),
+      entries: history,
+      generatedAt: new Date('2024-01-01T00:00:00Z'),
+    })
+    expect(report.entries[2].args).to.deep.equal({
+      user: account.address,
+      verified: true,
+      expiry: (timestamp + BigInt(86_400)).toString(),
+      provider: BOB,
+    })
+
+    const signature = await account.signMessage({ message: complianceHistoryMessage(report) })
+    // Auditors get the report as a file, so check it survives a JSON round trip.
+    const signed = JSON.parse(JSON.stringify({ report, signature }))
+    expect(await recoverComplianceHistorySigner(signed)).to.equal(account.address)
+
+    signed.report.entries.splice(0, 1)
+    expect(await recoverComplianceHistorySigner(signed)).not.to.equal(account.address)
+  })
+})
@@ -0,0 +1,86 @@
+import { expect } from 'chai'
+import { getAddress, zeroAddress } from 'viem'
+import { parseComplianceCsv } from '../src'
+
+const DAY = BigInt(24 * 60 * 60)
+const options = { now: BigInt(1_700_000_000), kycValidityPeriod: BigInt(365) * DAY, accreditationValidityPeriod: BigInt(90) * DAY }
+const ALICE = getAddress('0x00000000000000000000000000000000000a11ce')
+const BOB = getAddress('0x0000000000000000000000000000000000000b0b')
+
+describe('compliance CSV imports', () => {
+  it('builds registry records, defaulting expiries to the validity periods', () => {
+    const csv = [
+      'address,kycVerified,accredited,jurisdictionCode,restricted,kycExpiry,lockupExpiry,kycHash',
+      `${ALICE.toLowerCase()},true,yes,1,false,2025-01-01,,"Qm,quoted"`,
+      `${BOB},false,no,2,1,,1800000000,`,
+      '',
+    ].join('\n')
+
+    const { rows, errors } = parseComplianceCsv(csv, options)
+
+    expect(errors).to.deep.equal([])
+    expect(rows).to.deep.equal([
+      {
+        line: 2,
+        user: ALICE,
+        status: {
+          isKYCVerified: true,
+          isAccredited: true,
+          kycExpiry: BigInt(1_735_689_600),
+          accreditationExpiry: options.now + options.accreditationValidityPeriod,
+          jurisdictionCode: BigInt(1),
+          isRestricted: false,
+          lockupExpiry: BigInt(0),
+          kycProvider: zeroAddress,
+          kycHash: 'Qm,quoted',
+          lastUpdateTimestamp: options.now,
+        },
+      },
+      {
+        line: 3,
+        user: BOB,
+        status: {
+          isKYCVerified: false,
+          isAccredited: false,
+          kycExpiry: BigInt(0),
+          accreditationExpiry: BigInt(0),
+          jurisdictionCode: BigInt(2),
+          isRestricted: true,
+          lockupExpiry: BigInt(1_800_000_000),
+          kycProvider: zeroAddress,
+          kycHash: '',
+          lastUpdateTimestamp: options.now,
+        },
+      },
+    ])
+  })
+
+  it('reports invalid lines and repeated addresses without importing them', () => {
+    const csv = [
+      'address,kycVerified,accredited,jurisdictionCode,restricted',
+      `${ALICE},true,true,1,false`,
+      'not-an-address,true,true,1,false',
+      `${BOB},maybe,true,1,false`,
+      `${BOB},true,true,-1,false`,
+      `${ALICE},true,true,1,false`,
+      `${BOB},true,true,1`,
+    ].join('\n')
+
+    const { rows, errors } = parseComplianceCsv(csv, options)
+
+    expect(rows.map(({ user }) => user)).to.deep.equal([ALICE])
+    expect(errors.map(({ line }) => line)).to.deep.equal([3, 4, 5, 6, 7])
+    expect(errors[0].message).to.match(/Invalid address/)
+    expect(errors[1].message).to.match(/kycVerified must be true or false/)
+    expect(errors[3].message).to.match(/already appears on line 2/)
+  })
+
+  it('rejects headers with missing or unknown columns', () => {
+    const { rows, errors } = parseComplianceCsv('address,kycVerified,country\n', options)
+
+    expect(rows).to.deep.equal([])
+    expect(errors).to.deep.equal([
+      { line: 1, message: 'Header: missing accredited, jurisdictionCode, restricted; unknown country' },
+    ])
+  })
+})
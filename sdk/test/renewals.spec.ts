@@ -0,0 +1,29 @@
+import { expect } from 'chai'
+import { DEFAULT_RENEWAL_WINDOW, renewalReminders } from '../src'
+
+const DAY = BigInt(24 * 60 * 60)
+const now = BigInt(1_700_000_000)
+
+describe('renewal reminders', () => {
+  it('reminds about statuses expiring within the window, soonest first', () => {
+    const reminders = renewalReminders({ kycExpiry: now + BigInt(20) * DAY, accreditationExpiry: now + DAY }, now)
+
+    expect(reminders).to.deep.equal([
+      { kind: 'accreditation', expiresAt: now + DAY, expired: false, secondsLeft: DAY },
+      { kind: 'kyc', expiresAt: now + BigInt(20) * DAY, expired: false, secondsLeft: BigInt(20) * DAY },
+    ])
+  })
+
+  it('flags expired statuses and skips those never granted or far from expiry', () => {
+    const reminders = renewalReminders({ kycExpiry: now, accreditationExpiry: now + DEFAULT_RENEWAL_WINDOW + DAY }, now)
+    expect(reminders).to.deep.equal([{ kind: 'kyc', expiresAt: now, expired: true, secondsLeft: BigInt(0) }])
+
+    expect(renewalReminders({ kycExpiry: BigInt(0), accreditationExpiry: BigInt(0) }, now)).to.deep.equal([])
+  })
+
+  it('honours a custom window', () => {
+    const status = { kycExpiry: now + BigInt(10) * DAY, accreditationExpiry: BigInt(0) }
+    expect(renewalReminders(status, now, BigInt(7) * DAY)).to.deep.equal([])
+    expect(renewalReminders(status, now, BigInt(14) * DAY)).to.have.length(1)
+  })
+})
@@ -0,0 +1,89 @@
+import { expect } from 'chai'
+import { concat, getAddress, keccak256, toHex, type Address } from 'viem'
+import {
+  CSVOracleClient,
+  csvOracleAbi,
+  oracleSelectionWeight,
+  selectOracles,
+  selectionShare,
+  type SelectionCandidate,
+} from '../src'
+import { ALICE, BOB, CONTRACT, createFakeClient } from './helpers'
+
+const STAKE = BigInt('1000000000000000000')
+const FULL_REPUTATION = BigInt(10000)
+
+const oracles: Address[] = [1, 2, 3, 4, 5].map((i) => getAddress(toHex(i, { size: 20 })))
+// Four newcomers with 1 ETH and an established oracle with 4 ETH at stake
+const candidates: SelectionCandidate[] = oracles.map((oracle, i) => ({
+  oracle,
+  weight: FULL_REPUTATION * STAKE * BigInt(i === 4 ? 4 : 1),
+}))
+
+describe('oracle selection', () => {
+  it('weights active oracles by reputation score times stake', () => {
+    const info = { isActive: true, reputationScore: BigInt(9000), stakingAmount: STAKE }
+
+    expect(oracleSelectionWeight(info)).to.equal(BigInt(9000) * STAKE)
+    expect(oracleSelectionWeight({ ...info, isActive: false })).to.equal(BigInt(0))
+    expect(oracleSelectionWeight({ ...info, reputationScore: BigInt(7499) })).to.equal(BigInt(0))
+    expect(selectionShare(candidates[4].weight, BigInt(8) * FULL_REPUTATION * STAKE)).to.equal(BigInt(5000))
+    expect(selectionShare(BigInt(1), BigInt(0))).to.equal(BigInt(0))
+  })
+
+  it('takes the first pick from keccak256(seed, 0) modulo the total weight', () => {
+    const seed = BigInt(42)
+    const totalWeight = BigInt(8) * FULL_REPUTATION * STAKE
+    let draw = BigInt(keccak256(concat([toHex(seed, { size: 32 }), toHex(0, { size: 32 })]))) % totalWeight
+    let index = 0
+    while (draw >= candidates[index].weight) draw -= candidates[index++].weight
+
+    const [first, second] = selectOracles(seed, candidates, 2)
+    expect(first).to.equal(oracles[index])
+    expect(second).not.to.equal(first)
+  })
+
+  it('draws distinct oracles in proportion to their weight', () => {
+    const runs = 2000
+    const counts = new Map(oracles.map((oracle) => [oracle, 0]))
+    for (let seed = 0; seed < runs; seed++) {
+      const selected = selectOracles(BigInt(seed), candidates, 2)
+      expect(new Set(selected).size).to.equal(2)
+      for (const oracle of selected) counts.set(oracle, counts.get(oracle)! + 1)
+    }
+
+    // Inclusion probabilities of two draws without replacement from weights [1, 1, 1, 1, 4]
+    const newcomer = 1 / 8 + (3 / 8) * (1 / 7) + (1 / 2) * (1 / 4)
+    const established = 1 / 2 + (4 / 8) * (4 / 7)
+    for (const [oracle, expected] of oracles.map((oracle, i) => [oracle, i === 4 ? established : newcomer] as const)) {
+      const deviation = Math.sqrt(runs * expected * (1 - expected))
+      expect(counts.get(oracle)).to.be.within(runs * expected - 4 * deviation, runs * expected + 4 * deviation)
+    }
+  })
+
+  it('selects every candidate when there are fewer than requested', () => {
+    expect(selectOracles(BigInt(7), candidates.slice(0, 2), 3)).to.have.members(oracles.slice(0, 2))
+  })
+
+  it('reads the seed, weight and conflicts of a request', async () => {
+    const { publicClient } = createFakeClient(csvOracleAbi, (name, args) => {
+      switch (name) {
+        case 'selectionSeeds':
+          expect(args).to.deep.equal([BigInt(3)])
+          return BigInt(42)
+        case 'getSelectionWeight':
+          return FULL_REPUTATION * STAKE
+        case 'isConflicted':
+          return args[0] === args[1]
+        default:
+          throw new Error(`unexpected call ${name}`)
+      }
+    })
+    const oracle = new CSVOracleClient({ address: CONTRACT, publicClient })
+
+    expect(await oracle.getSelectionSeed(BigInt(3))).to.equal(BigInt(42))
+    expect(await oracle.getSelectionWeight(ALICE)).to.equal(FULL_REPUTATION * STAKE)
+    expect(await oracle.isConflicted(ALICE, ALICE)).to.equal(true)
+    expect(await oracle.isConflicted(ALICE, BOB)).to.equal(false)
+  })
+})
@@ -0,0 +1,47 @@
+import { expect } from 'chai'
+import { CSVVaultClient, csvVaultAbi, valuationStaleness } from '../src'
+import { CONTRACT, createFakeClient } from './helpers'
+
+const DAY = BigInt(24 * 60 * 60)
+const MAX_AGE = BigInt(90) * DAY
+const VALUED_AT = BigInt(1700000000)
+
+describe('valuation staleness', () => {
+  it('measures a fresh valuation against the maximum age', () => {
+    const staleness = valuationStaleness(VALUED_AT, MAX_AGE, VALUED_AT + BigInt(45) * DAY)
+
+    expect(staleness.age).to.equal(BigInt(45) * DAY)
+    expect(staleness.freshUntil).to.equal(VALUED_AT + MAX_AGE)
+    expect(staleness.remaining).to.equal(BigInt(45) * DAY)
+    expect(staleness.ageBps).to.equal(BigInt(5000))
+    expect(staleness.stale).to.equal(false)
+  })
+
+  it('goes stale one second past the maximum age, as the vault does', () => {
+    expect(valuationStaleness(VALUED_AT, MAX_AGE, VALUED_AT + MAX_AGE).stale).to.equal(false)
+
+    const staleness = valuationStaleness(VALUED_AT, MAX_AGE, VALUED_AT + MAX_AGE + BigInt(1))
+    expect(staleness.stale).to.equal(true)
+    expect(staleness.remaining).to.equal(BigInt(0))
+    expect(valuationStaleness(VALUED_AT, MAX_AGE, VALUED_AT + MAX_AGE + BigInt(9) * DAY).ageBps).to.equal(BigInt(11000))
+  })
+
+  it('treats a valuation dated in the future as new and rejects a zero maximum age', () => {
+    expect(valuationStaleness(VALUED_AT, MAX_AGE, VALUED_AT - DAY).age).to.equal(BigInt(0))
+    expect(() => valuationStaleness(VALUED_AT, BigInt(0), VALUED_AT)).to.throw(RangeError)
+  })
+
+  it('reads the vault staleness settings', async () => {
+    const { publicClient } = createFakeClient(csvVaultAbi, (name, args) => {
+      if (name === 'maxValuationAge') return MAX_AGE
+      if (name === 'collateralValuedAt') return VALUED_AT + (args[0] as bigint)
+      if (name === 'isValuationStale') return true
+      throw new Error(`unexpected call ${name}`)
+    })
+    const client = new CSVVaultClient({ address: CONTRACT, publicClient })
+
+    expect(await client.getMaxValuationAge()).to.equal(MAX_AGE)
+    expect(await client.getCollateralValuedAt(BigInt(7))).to.equal(VALUED_AT + BigInt(7))
+    expect(await client.isValuationStale(BigInt(7))).to.equal(true)
+  })
+})
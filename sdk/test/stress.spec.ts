@@ -0,0 +1,129 @@
+import { expect } from 'chai'
+import { parseEther } from 'viem'
+import {
+  applyShocks,
+  defaultStressScenarios,
+  runStressTest,
+  validateStressScenario,
+  type StressPortfolio,
+  type StressScenario,
+  type StressVault,
+} from '../src'
+import { ALICE } from './helpers'
+
+function vault(vaultId: number, carrierName: string, creditRating: number, collateral: string, debt: string): StressVault {
+  return {
+    vaultId: BigInt(vaultId),
+    carrierName,
+    creditRating,
+    position: {
+      tokenId: BigInt(vaultId),
+      collateralValue: parseEther(collateral),
+      debtAmount: parseEther(debt),
+      liquidationThreshold: BigInt(8000),
+      lastUpdateTimestamp: BigInt(1700000000),
+      owner: ALICE,
+      isActive: true,
+    },
+  }
+}
+
+const portfolio: StressPortfolio = {
+  vaults: [
+    vault(1, 'MetLife Inc.', 4, '100000', '70000'),
+    vault(2, 'Prudential Financial', 5, '200000', '100000'),
+    vault(3, 'Lincoln Financial', 3, '50000', '42500'),
+  ],
+  config: {
+    maxLTV: BigInt(8000),
+    liquidationPenalty: BigInt(1000),
+    minCollateralValue: parseEther('10000'),
+    stabilityFee: BigInt(200),
+    isEnabled: true,
+  },
+  seniorDeposits: parseEther('500000'),
+  juniorDeposits: parseEther('20000'),
+}
+
+const scenario = (...shocks: StressScenario['shocks']): StressScenario => ({ id: 'test', name: 'Test', shocks })
+
+describe('stress', () => {
+  it('leaves the portfolio unchanged without shocks', () => {
+    const result = runStressTest(portfolio, scenario())
+
+    expect(result.stressedCollateralValue).to.equal(result.totalCollateralValue)
+    expect(result.vaults.map((v) => v.stressedLTV)).to.deep.equal([BigInt(7000), BigInt(5000), BigInt(8500)])
+    // Vault 3 is already over maxLTV.
+    expect(result.liquidatableCount).to.equal(1)
+    expect(result.newlyLiquidatableCount).to.equal(0)
+  })
+
+  it('applies carrier and rating shocks only to matching vaults', () => {
+    const result = runStressTest(
+      portfolio,
+      scenario({ type: 'carrier', carrier: 'metlife inc.', shockBps: 2000 }, { type: 'rating', rating: 5, shockBps: 5000 })
+    )
+
+    expect(result.vaults.map((v) => v.stressedCollateralValue)).to.deep.equal([
+      parseEther('80000'),
+      parseEther('100000'),
+      parseEther('50000'),
+    ])
+    expect(result.vaults.map((v) => v.stressedLTV)).to.deep.equal([BigInt(8750), BigInt(10000), BigInt(8500)])
+    expect(result.liquidatableCount).to.equal(3)
+    expect(result.newlyLiquidatableCount).to.equal(2)
+  })
+
+  it('compounds overlapping shocks', () => {
+    const shocked = applyShocks(portfolio.vaults[0], [
+      { type: 'market', shockBps: 1000 },
+      { type: 'carrier', carrier: 'MetLife Inc.', shockBps: 1000 },
+    ])
+    expect(shocked).to.equal(parseEther('81000'))
+  })
+
+  it('writes a defaulted carrier down to its recovery value', () => {
+    const result = runStressTest(portfolio, scenario({ type: 'carrier-default', carrier: 'Prudential Financial', recoveryBps: 0 }))
+
+    const prudential = result.vaults[1]
+    expect(prudential.stressedCollateralValue).to.equal(BigInt(0))
+    expect(prudential.stressedLTV).to.equal(null)
+    expect(prudential.liquidatable).to.equal(true)
+    expect(prudential.loss).to.equal(parseEther('100000'))
+  })
+
+  it('charges losses to the junior tranche before the senior tranche', () => {
+    const result = runStressTest(portfolio, scenario({ type: 'market', shockBps: 5000 }))
+
+    // Collateral recovered after the 10% penalty: 45k, 90k, 22.5k against 70k, 100k, 42.5k of debt.
+    expect(result.vaults.map((v) => v.loss)).to.deep.equal([parseEther('25000'), parseEther('10000'), parseEther('20000')])
+    expect(result.totalLoss).to.equal(parseEther('55000'))
+    expect(result.juniorLoss).to.equal(parseEther('20000'))
+    expect(result.seniorLoss).to.equal(parseEther('35000'))
+    expect(result.uncoveredLoss).to.equal(BigInt(0))
+  })
+
+  it('reports losses beyond both tranches as uncovered', () => {
+    const small = { ...portfolio, seniorDeposits: parseEther('30000') }
+    const result = runStressTest(small, scenario({ type: 'market', shockBps: 5000 }))
+
+    expect(result.seniorLoss).to.equal(parseEther('30000'))
+    expect(result.uncoveredLoss).to.equal(parseEther('5000'))
+  })
+
+  it('ignores closed vaults', () => {
+    const closed = { ...portfolio.vaults[2], position: { ...portfolio.vaults[2].position, isActive: false } }
+    const result = runStressTest({ ...portfolio, vaults: [portfolio.vaults[0], closed] }, scenario())
+
+    expect(result.vaults).to.have.length(1)
+    expect(result.liquidatableCount).to.equal(0)
+  })
+
+  it('rejects shocks outside 0-100%', () => {
+    const invalid = scenario({ type: 'market', shockBps: 12000 }, { type: 'carrier', carrier: ' ', shockBps: 100 })
+
+    expect(validateStressScenario(invalid)).to.have.length(2)
+    expect(() => runStressTest(portfolio, invalid)).to.throw(RangeError, 'Shock 1')
+    expect(defaultStressScenarios.flatMap(validateStressScenario)).to.deep.equal([])
+  })
+})
@@ -0,0 +1,64 @@
+import { createPublicClient, createWalletClient, http } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { envAddress, envNumber, envPrivateKey, getRpcUrl, optionalEnv } from '../shared/config'
+import { createLogger } from '../shared/logger'
+import { MockKYCProvider } from '../kyc-provider/provider'
+import { LocalContentStore } from './content'
+import { createDocumentServer } from './server'
+import { DEFAULT_MAX_DOCUMENT_SIZE, DocumentService, createRegistryVerifier } from './service'
+import { DocumentStore } from './store'
+
+async function main() {
+  const logger = createLogger('documents')
+  const transport = http(getRpcUrl())
+  const publicClient = createPublicClient({ transport })
+  const registryAddress = envAddress('COMPLIANCE_REGISTRY_ADDRESS')
+  const wallet = (name: string) =>
+    process.env[name] ? createWalletClient({ account: privateKeyToAccount(envPrivateKey(name)), transport }) : undefined
+
+  // Without these keys reviews can still be recorded, but verifying that kind of document fails.
+  const providerWallet = wallet('KYC_PROVIDER_PRIVATE_KEY')
+  const kycProvider = providerWallet
+    ? new MockKYCProvider({ publicClient, walletClient: providerWallet, registryAddress, logger })
+    : undefined
+
+  const maxSize = envNumber('DOCUMENTS_MAX_SIZE_BYTES', DEFAULT_MAX_DOCUMENT_SIZE)
+  const store = new DocumentStore(optionalEnv('DOCUMENTS_DB_PATH', 'iyield-documents.sqlite'))
+  const service = new DocumentService({
+    store,
+    content: new LocalContentStore(optionalEnv('DOCUMENTS_DIR', './documents')),
+    publicClient,
+    registryAddress,
+    verifier: createRegistryVerifier({
+      publicClient,
+      registryAddress,
+      kycProvider,
+      relayer: wallet('KYC_RELAYER_PRIVATE_KEY') ?? providerWallet,
+      complianceOfficer: wallet('COMPLIANCE_OFFICER_PRIVATE_KEY'),
+      defaultJurisdictionCode: process.env.DOCUMENTS_DEFAULT_JURISDICTION
+        ? BigInt(envNumber('DOCUMENTS_DEFAULT_JURISDICTION', 0))
+        : undefined,
+    }),
+    maxSize,
+    logger,
+  })
+  if (!process.env.DOCUMENTS_REVIEWER_TOKEN) logger.warn('DOCUMENTS_REVIEWER_TOKEN is not set; reviewer routes are disabled')
+
+  const port = envNumber('DOCUMENTS_PORT', 4100)
+  const server = createDocumentServer(service, {
+    reviewerToken: process.env.DOCUMENTS_REVIEWER_TOKEN,
+    maxBodySize: maxSize,
+  }).listen(port, () => logger.info(`API listening on :${port}`))
+
+  const shutdown = () => {
+    server.close()
+    store.close()
+  }
+  process.once('SIGINT', shutdown)
+  process.once('SIGTERM', shutdown)
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
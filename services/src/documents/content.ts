@@ -0,0 +1,65 @@
+import { createHash } from 'crypto'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { join } from 'path'
+
+const BASE32 = 'abcdefghijklmnopqrstuvwxyz234567'
+
+function base32(bytes: Uint8Array): string {
+  let output = ''
+  let buffer = 0
+  let bits = 0
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32[(buffer >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) output += BASE32[(buffer << (5 - bits)) & 31]
+  return output
+}
+
+/**
+ * CIDv1 of `content` as a single raw block with a SHA-256 multihash, base32
+ * encoded: what `ipfs add --cid-version 1 --raw-leaves` reports for content
+ * that fits in one block.
+ */
+export function computeCid(content: Uint8Array): string {
+  const digest = createHash('sha256').update(content).digest()
+  // version 1, raw codec (0x55), sha2-256 (0x12) of 32 bytes
+  return 'b' + base32(Buffer.concat([Buffer.from([0x01, 0x55, 0x12, 0x20]), digest]))
+}
+
+/** Content-addressed storage that documents are pinned to. */
+export interface ContentStore {
+  /** Stores `content` and returns its CID; storing the same content twice is a no-op. */
+  put(content: Uint8Array): Promise<string>
+  get(cid: string): Promise<Uint8Array | undefined>
+}
+
+/**
+ * IPFS stand-in for local networks and tests: blocks are files named by their
+ * CID, so the identifiers match what an IPFS node would pin the content under.
+ */
+export class LocalContentStore implements ContentStore {
+  constructor(private readonly directory: string) {
+    mkdirSync(directory, { recursive: true })
+  }
+
+  async put(content: Uint8Array): Promise<string> {
+    const cid = computeCid(content)
+    const path = join(this.directory, cid)
+    if (!existsSync(path)) writeFileSync(path, content)
+    return cid
+  }
+
+  async get(cid: string): Promise<Uint8Array | undefined> {
+    if (!/^b[a-z2-7]+$/.test(cid)) return undefined
+    const path = join(this.directory, cid)
+    if (!existsSync(path)) return undefined
+    const content = readFileSync(path)
+    if (computeCid(content) !== cid) throw new Error(`Stored content does not match ${cid}`)
+    return content
+  }
+}
@@ -0,0 +1,4 @@
+export * from './content'
+export * from './service'
+export * from './server'
+export * from './store'
@@ -0,0 +1,211 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http'
+import { timingSafeEqual } from 'crypto'
+import type { DocumentKind, DocumentStatus } from '@iyield/sdk'
+import { getAddress, isAddress, isHex } from 'viem'
+import { encodeJson } from '../indexer/events'
+import { DocumentError, type DocumentService, type ReviewDecision } from './service'
+
+interface Request {
+  params: string[]
+  query: URLSearchParams
+  headers: IncomingMessage['headers']
+  body: Buffer
+}
+
+interface Reply {
+  status: number
+  body: unknown
+  /** Raw content instead of JSON. */
+  content?: { data: Uint8Array; mimeType: string; filename: string }
+}
+
+type Route = (request: Request) => Promise<Reply>
+
+function parseId(value: string): number {
+  if (!/^\d+$/.test(value)) throw new DocumentError(400, `Invalid id "${value}"`)
+  return Number(value)
+}
+
+function parseAddress(value: string | null, what = 'owner'): `0x${string}` {
+  if (!value || !isAddress(value, { strict: false })) throw new DocumentError(400, `Invalid ${what} "${value ?? ''}"`)
+  return getAddress(value)
+}
+
+function parseJson(body: Buffer): Record<string, unknown> {
+  try {
+    const value = JSON.parse(body.toString('utf8'))
+    if (value && typeof value === 'object') return value
+  } catch {
+    // fall through
+  }
+  throw new DocumentError(400, 'Body must be a JSON object')
+}
+
+const ok = (body: unknown, status = 200): Reply => ({ status, body })
+
+export interface DocumentServerOptions {
+  /** Bearer token reviewers authenticate with; reviewer routes are disabled without one. */
+  reviewerToken?: string
+  /** Largest request body accepted, in bytes. */
+  maxBodySize?: number
+}
+
+/**
+ * JSON API of the document service. Investors upload with a signature over
+ * the content hash and can list their own documents; listing everyone's
+ * documents, downloading content, reviewing and reminders need the reviewer
+ * token.
+ */
+export function createDocumentServer(service: DocumentService, options: DocumentServerOptions = {}): Server {
+  const maxBodySize = options.maxBodySize ?? 12 * 1024 * 1024
+
+  const isReviewer = (headers: IncomingMessage['headers']) => {
+    const [scheme, token] = (headers.authorization ?? '').split(' ')
+    if (!options.reviewerToken || scheme !== 'Bearer' || !token) return false
+    const expected = Buffer.from(options.reviewerToken)
+    const given = Buffer.from(token)
+    return expected.length === given.length && timingSafeEqual(expected, given)
+  }
+  const requireReviewer = (headers: IncomingMessage['headers']) => {
+    if (!isReviewer(headers)) throw new DocumentError(401, 'Reviewer token required')
+  }
+
+  const routes: [string, RegExp, Route][] = [
+    [
+      'GET',
+      /^\/api\/v1\/documents$/,
+      async ({ query, headers }) => {
+        const owner = query.get('owner')
+        if (!owner) requireReviewer(headers)
+        return ok(
+          service.list({
+            owner: owner ? parseAddress(owner) : undefined,
+            kind: (query.get('kind') as DocumentKind) || undefined,
+            status: (query.get('status') as DocumentStatus) || undefined,
+          })
+        )
+      },
+    ],
+    [
+      'POST',
+      /^\/api\/v1\/documents$/,
+      async ({ query, headers, body }) => {
+        const signature = headers['x-signature']
+        if (typeof signature !== 'string' || !isHex(signature)) throw new DocumentError(400, 'Missing x-signature header')
+        const document = await service.upload({
+          owner: parseAddress(query.get('owner')),
+          kind: query.get('kind') as DocumentKind,
+          filename: query.get('filename') || 'document',
+          mimeType: headers['content-type'] || 'application/octet-stream',
+          content: body,
+          signature,
+        })
+        return ok(document, 201)
+      },
+    ],
+    [
+      'GET',
+      /^\/api\/v1\/documents\/([^/]+)$/,
+      async ({ params: [id], headers }) => {
+        requireReviewer(headers)
+        return ok(service.get(parseId(id)))
+      },
+    ],
+    [
+      'GET',
+      /^\/api\/v1\/documents\/([^/]+)\/content$/,
+      async ({ params: [id], headers }) => {
+        requireReviewer(headers)
+        const { document, content } = await service.getContent(parseId(id))
+        return { status: 200, body: null, content: { data: content, mimeType: document.mimeType, filename: document.filename } }
+      },
+    ],
+    [
+      'POST',
+      /^\/api\/v1\/documents\/([^/]+)\/review$/,
+      async ({ params: [id], headers, body }) => {
+        requireReviewer(headers)
+        const { decision, reviewer, note, jurisdictionCode } = parseJson(body)
+        if (decision !== 'verified' && decision !== 'rejected') {
+          throw new DocumentError(400, 'decision must be "verified" or "rejected"')
+        }
+        if (typeof reviewer !== 'string' || !reviewer) throw new DocumentError(400, 'reviewer is required')
+        const review: ReviewDecision = {
+          decision,
+          reviewer,
+          note: typeof note === 'string' ? note : undefined,
+          jurisdictionCode:
+            typeof jurisdictionCode === 'string' || typeof jurisdictionCode === 'number'
+              ? BigInt(parseId(String(jurisdictionCode)))
+              : undefined,
+        }
+        return ok(await service.review(parseId(id), review))
+      },
+    ],
+    [
+      'GET',
+      /^\/api\/v1\/reminders$/,
+      async ({ query, headers }) => {
+        requireReviewer(headers)
+        const days = query.get('withinDays')
+        return ok(await service.listReminders(days ? BigInt(parseId(days)) * BigInt(86400) : undefined))
+      },
+    ],
+  ]
+
+  const corsHeaders = {
+    'access-control-allow-origin': '*',
+    'access-control-allow-headers': 'authorization, content-type, x-signature',
+    'access-control-allow-methods': 'GET, POST, OPTIONS',
+  }
+
+  const send = (response: ServerResponse, reply: Reply) => {
+    if (reply.content) {
+      response.writeHead(reply.status, {
+        ...corsHeaders,
+        'content-type': reply.content.mimeType,
+        'content-disposition': `attachment; filename="${reply.content.filename.replace(/["\\\r\n]/g, '_')}"`,
+      })
+      return response.end(reply.content.data)
+    }
+    response.writeHead(reply.status, { ...corsHeaders, 'content-type': 'application/json' })
+    response.end(encodeJson(reply.body))
+  }
+
+  const readBody = (request: IncomingMessage) =>
+    new Promise<Buffer>((resolve, reject) => {
+      const chunks: Buffer[] = []
+      let size = 0
+      request.on('data', (chunk: Buffer) => {
+        size += chunk.length
+        if (size > maxBodySize) {
+          reject(new DocumentError(413, 'Request body too large'))
+          request.destroy()
+          return
+        }
+        chunks.push(chunk)
+      })
+      request.on('end', () => resolve(Buffer.concat(chunks)))
+      request.on('error', reject)
+    })
+
+  return createServer(async (request: IncomingMessage, response: ServerResponse) => {
+    const url = new URL(request.url ?? '/', 'http://localhost')
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204, corsHeaders)
+      return response.end()
+    }
+    for (const [method, pattern, route] of routes) {
+      const match = pattern.exec(url.pathname)
+      if (!match || method !== request.method) continue
+      try {
+        const body = method === 'POST' ? await readBody(request) : Buffer.alloc(0)
+        return send(response, await route({ params: match.slice(1), query: url.searchParams, headers: request.headers, body }))
+      } catch (error) {
+        if (error instanceof DocumentError) return send(response, { status: error.status, body: { error: error.message } })
+        return send(response, { status: 500, body: { error: 'Internal error' } })
+      }
+    }
+    send(response, { status: 404, body: { error: 'Not found' } })
+  })
+}
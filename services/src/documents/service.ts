@@ -0,0 +1,243 @@
+import { createHash } from 'crypto'
+import {
+  ComplianceRegistryClient,
+  DEFAULT_RENEWAL_WINDOW,
+  documentKinds,
+  documentUploadMessage,
+  renewalReminders,
+  type ComplianceDocument,
+  type DocumentKind,
+  type RenewalReminder,
+} from '@iyield/sdk'
+import {
+  getAddress,
+  toHex,
+  verifyMessage,
+  type Account,
+  type Address,
+  type Chain,
+  type Hex,
+  type PublicClient,
+  type Transport,
+  type WalletClient,
+} from 'viem'
+import { MockKYCProvider, relayKYCAttestation } from '../kyc-provider/provider'
+import { silentLogger, type Logger } from '../shared/logger'
+import type { ContentStore } from './content'
+import type { DocumentStore } from './store'
+
+/** Default upper bound on document size: 10 MiB. */
+export const DEFAULT_MAX_DOCUMENT_SIZE = 10 * 1024 * 1024
+
+/** Error for requests the service refuses, with the HTTP status the API reports. */
+export class DocumentError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message)
+    this.name = 'DocumentError'
+  }
+}
+
+export interface DocumentUpload {
+  owner: Address
+  kind: DocumentKind
+  filename: string
+  mimeType: string
+  content: Uint8Array
+  /** Owner's signature over `documentUploadMessage` for the content's SHA-256. */
+  signature: Hex
+}
+
+export interface ReviewDecision {
+  decision: 'verified' | 'rejected'
+  reviewer: string
+  /** Required when rejecting, so the investor knows what to fix. */
+  note?: string
+  /** Jurisdiction to verify a KYC document under. */
+  jurisdictionCode?: bigint
+}
+
+/**
+ * Records a verified document on-chain and returns the transaction hash, or
+ * null when there is nothing to record. Throwing leaves the document pending.
+ */
+export type DocumentVerifier = (document: ComplianceDocument, decision: ReviewDecision) => Promise<Hex | null>
+
+export interface OwnerReminders {
+  owner: Address
+  reminders: RenewalReminder[]
+}
+
+export interface DocumentServiceOptions {
+  store: DocumentStore
+  content: ContentStore
+  /** Reads compliance statuses for renewal reminders. */
+  publicClient?: PublicClient
+  registryAddress?: Address
+  verifier?: DocumentVerifier
+  maxSize?: number
+  logger?: Logger
+  /** Clock in unix seconds; overridable for tests. */
+  now?: () => number
+}
+
+/**
+ * Investor compliance documents: signed uploads pinned to a content store,
+ * a pending → verified / rejected review, and renewal reminders from the
+ * expiries on the ComplianceRegistry.
+ */
+export class DocumentService {
+  private readonly store: DocumentStore
+  private readonly content: ContentStore
+  private readonly registry: ComplianceRegistryClient | undefined
+  private readonly publicClient: PublicClient | undefined
+  private readonly verifier: DocumentVerifier | undefined
+  private readonly maxSize: number
+  private readonly logger: Logger
+  private readonly now: () => number
+
+  constructor(options: DocumentServiceOptions) {
+    this.store = options.store
+    this.content = options.content
+    this.publicClient = options.publicClient
+    this.registry =
+      options.publicClient && options.registryAddress
+        ? new ComplianceRegistryClient({ address: options.registryAddress, publicClient: options.publicClient })
+        : undefined
+    this.verifier = options.verifier
+    this.maxSize = options.maxSize ?? DEFAULT_MAX_DOCUMENT_SIZE
+    this.logger = options.logger ?? silentLogger
+    this.now = options.now ?? (() => Math.floor(Date.now() / 1000))
+  }
+
+  /**
+   * Pins a document and files it for review. Re-uploading content that is
+   * already pending or verified returns the existing document.
+   */
+  async upload(upload: DocumentUpload): Promise<ComplianceDocument> {
+    if (!documentKinds.includes(upload.kind)) throw new DocumentError(400, `Unknown document kind "${upload.kind}"`)
+    if (upload.content.length === 0) throw new DocumentError(400, 'Document is empty')
+    if (upload.content.length > this.maxSize) {
+      throw new DocumentError(413, `Document exceeds ${this.maxSize} bytes`)
+    }
+
+    const owner = getAddress(upload.owner)
+    const sha256 = toHex(createHash('sha256').update(upload.content).digest())
+    const message = documentUploadMessage({ owner, kind: upload.kind, sha256 })
+    const signed = await verifyMessage({ address: owner, message, signature: upload.signature }).catch(() => false)
+    if (!signed) throw new DocumentError(401, 'Signature does not match the owner and content')
+
+    const existing = this.store
+      .list({ owner, kind: upload.kind, sha256 })
+      .find(({ status }) => status !== 'rejected')
+    if (existing) return existing
+
+    const cid = await this.content.put(upload.content)
+    const document = this.store.insert({
+      owner,
+      kind: upload.kind,
+      filename: upload.filename,
+      mimeType: upload.mimeType,
+      size: upload.content.length,
+      sha256,
+      cid,
+      submittedAt: this.now(),
+    })
+    this.logger.info('Document uploaded', { id: document.id, owner, kind: document.kind, cid })
+    return document
+  }
+
+  get(id: number): ComplianceDocument {
+    const document = this.store.get(id)
+    if (!document) throw new DocumentError(404, 'Document not found')
+    return document
+  }
+
+  list(filter: Parameters<DocumentStore['list']>[0] = {}): ComplianceDocument[] {
+    return this.store.list(filter)
+  }
+
+  async getContent(id: number): Promise<{ document: ComplianceDocument; content: Uint8Array }> {
+    const document = this.get(id)
+    const content = await this.content.get(document.cid)
+    if (!content) throw new DocumentError(404, 'Document content not found')
+    return { document, content }
+  }
+
+  /**
+   * Verifies or rejects a pending document. Verification is recorded on-chain
+   * through the verifier first, so a failed transaction leaves it pending.
+   */
+  async review(id: number, decision: ReviewDecision): Promise<ComplianceDocument> {
+    const document = this.get(id)
+    if (document.status !== 'pending') throw new DocumentError(409, `Document is already ${document.status}`)
+    if (decision.decision === 'rejected' && !decision.note?.trim()) {
+      throw new DocumentError(400, 'A rejection needs a note')
+    }
+
+    const transactionHash =
+      decision.decision === 'verified' && this.verifier ? await this.verifier(document, decision) : null
+
+    const reviewed = this.store.review(id, {
+      status: decision.decision,
+      reviewer: decision.reviewer,
+      note: decision.note?.trim() || null,
+      reviewedAt: this.now(),
+      transactionHash,
+    })
+    if (!reviewed) throw new DocumentError(409, 'Document was reviewed concurrently')
+
+    this.logger.info('Document reviewed', { id, decision: decision.decision, reviewer: decision.reviewer, transactionHash })
+    return this.get(id)
+  }
+
+  /** Renewal reminders for every investor with documents on file, as of the latest block. */
+  async listReminders(window = DEFAULT_RENEWAL_WINDOW): Promise<OwnerReminders[]> {
+    if (!this.registry || !this.publicClient) throw new DocumentError(503, 'Registry is not configured')
+    const { timestamp } = await this.publicClient.getBlock()
+    const owners = this.store.owners()
+    const statuses = await Promise.all(owners.map((owner) => this.registry!.getComplianceStatus(owner)))
+    return owners
+      .map((owner, index) => ({ owner, reminders: renewalReminders(statuses[index], timestamp, window) }))
+      .filter(({ reminders }) => reminders.length > 0)
+  }
+}
+
+export interface RegistryVerifierOptions {
+  publicClient: PublicClient
+  registryAddress: Address
+  /** Signs KYC attestations for verified KYC documents. */
+  kycProvider?: MockKYCProvider
+  /** Relays the attestations and pays the provider fee. */
+  relayer?: WalletClient<Transport, Chain | undefined, Account>
+  /** Compliance officer that marks investors accredited. */
+  complianceOfficer?: WalletClient<Transport, Chain | undefined, Account>
+  /** Jurisdiction for KYC verifications when the reviewer does not pick one. */
+  defaultJurisdictionCode?: bigint
+}
+
+/**
+ * Verifier that records reviews on the ComplianceRegistry: a KYC document is
+ * attested with its CID as the `kycHash`, an accreditation document marks the
+ * owner accredited for the registry's default period.
+ */
+export function createRegistryVerifier(options: RegistryVerifierOptions): DocumentVerifier {
+  return async (document, decision) => {
+    if (document.kind === 'kyc') {
+      if (!options.kycProvider || !options.relayer) throw new DocumentError(503, 'KYC provider is not configured')
+      const jurisdictionCode = decision.jurisdictionCode ?? options.defaultJurisdictionCode
+      if (jurisdictionCode === undefined) throw new DocumentError(400, 'A KYC verification needs a jurisdiction')
+      const signed = await options.kycProvider.attest({ user: document.owner, jurisdictionCode, kycHash: document.cid })
+      return relayKYCAttestation(options.publicClient, options.relayer, options.registryAddress, signed)
+    }
+
+    if (!options.complianceOfficer) throw new DocumentError(503, 'Compliance officer is not configured')
+    const registry = new ComplianceRegistryClient({
+      address: options.registryAddress,
+      publicClient: options.publicClient,
+      walletClient: options.complianceOfficer,
+    })
+    const { hash } = await registry.updateAccreditationStatus(document.owner, true, BigInt(0))
+    await registry.waitForTransaction(hash!)
+    return hash!
+  }
+}
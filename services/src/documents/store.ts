@@ -0,0 +1,151 @@
+import Database from 'better-sqlite3'
+import type { ComplianceDocument, DocumentKind, DocumentStatus } from '@iyield/sdk'
+import type { Address, Hex } from 'viem'
+
+const schema = `
+CREATE TABLE IF NOT EXISTS documents (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  owner TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  filename TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  size INTEGER NOT NULL,
+  sha256 TEXT NOT NULL,
+  cid TEXT NOT NULL,
+  status TEXT NOT NULL,
+  submitted_at INTEGER NOT NULL,
+  reviewed_at INTEGER,
+  reviewer TEXT,
+  note TEXT,
+  transaction_hash TEXT
+);
+
+CREATE INDEX IF NOT EXISTS documents_owner ON documents (owner);
+CREATE INDEX IF NOT EXISTS documents_status ON documents (status);
+`
+
+interface DocumentRow {
+  id: number
+  owner: string
+  kind: string
+  filename: string
+  mime_type: string
+  size: number
+  sha256: string
+  cid: string
+  status: string
+  submitted_at: number
+  reviewed_at: number | null
+  reviewer: string | null
+  note: string | null
+  transaction_hash: string | null
+}
+
+function fromRow(row: DocumentRow): ComplianceDocument {
+  return {
+    id: row.id,
+    owner: row.owner as Address,
+    kind: row.kind as DocumentKind,
+    filename: row.filename,
+    mimeType: row.mime_type,
+    size: row.size,
+    sha256: row.sha256 as Hex,
+    cid: row.cid,
+    status: row.status as DocumentStatus,
+    submittedAt: row.submitted_at,
+    reviewedAt: row.reviewed_at,
+    reviewer: row.reviewer,
+    note: row.note,
+    transactionHash: row.transaction_hash as Hex | null,
+  }
+}
+
+export type NewDocument = Pick<ComplianceDocument, 'owner' | 'kind' | 'filename' | 'mimeType' | 'size' | 'sha256' | 'cid' | 'submittedAt'>
+
+export interface DocumentReview {
+  status: Exclude<DocumentStatus, 'pending'>
+  reviewer: string
+  note: string | null
+  reviewedAt: number
+  transactionHash: Hex | null
+}
+
+/** Document metadata and review state; the content itself lives in a `ContentStore`. */
+export class DocumentStore {
+  readonly db: Database.Database
+
+  constructor(filename = ':memory:') {
+    this.db = new Database(filename)
+    this.db.pragma('journal_mode = WAL')
+    this.db.exec(schema)
+  }
+
+  close(): void {
+    this.db.close()
+  }
+
+  insert(document: NewDocument): ComplianceDocument {
+    const { lastInsertRowid } = this.db
+      .prepare(
+        `INSERT INTO documents (owner, kind, filename, mime_type, size, sha256, cid, status, submitted_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, 'pending', ?)`
+      )
+      .run(
+        document.owner,
+        document.kind,
+        document.filename,
+        document.mimeType,
+        document.size,
+        document.sha256,
+        document.cid,
+        document.submittedAt
+      )
+    return this.get(Number(lastInsertRowid))!
+  }
+
+  get(id: number): ComplianceDocument | undefined {
+    const row = this.db.prepare('SELECT * FROM documents WHERE id = ?').get(id) as DocumentRow | undefined
+    return row ? fromRow(row) : undefined
+  }
+
+  /** Newest first. */
+  list(filter: { owner?: Address; kind?: DocumentKind; status?: DocumentStatus; sha256?: Hex } = {}): ComplianceDocument[] {
+    const conditions: string[] = []
+    const params: string[] = []
+    if (filter.owner) {
+      conditions.push('owner = ?')
+      params.push(filter.owner)
+    }
+    if (filter.kind) {
+      conditions.push('kind = ?')
+      params.push(filter.kind)
+    }
+    if (filter.status) {
+      conditions.push('status = ?')
+      params.push(filter.status)
+    }
+    if (filter.sha256) {
+      conditions.push('sha256 = ?')
+      params.push(filter.sha256)
+    }
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''
+    const rows = this.db.prepare(`SELECT * FROM documents ${where} ORDER BY id DESC`).all(...params) as DocumentRow[]
+    return rows.map(fromRow)
+  }
+
+  owners(): Address[] {
+    const rows = this.db.prepare('SELECT DISTINCT owner FROM documents ORDER BY owner').all() as { owner: string }[]
+    return rows.map(({ owner }) => owner as Address)
+  }
+
+  /** Records a review of a pending document; false if it was no longer pending. */
+  review(id: number, review: DocumentReview): boolean {
+    const { changes } = this.db
+      .prepare(
+        `UPDATE documents SET status = ?, reviewer = ?, note = ?, reviewed_at = ?, transaction_hash = ?
+         WHERE id = ? AND status = 'pending'`
+      )
+      .run(review.status, review.reviewer, review.note, review.reviewedAt, review.transactionHash, id)
+    return changes === 1
+  }
+}
@@ -0,0 +1,10 @@
+export * from './documents'
+export * from './indexer'
+export * from './keeper'
+export * from './kyc-provider'
+export * from './oracle-node'
+export * from './scheduler'
+export * from './shared/errors'
+export * from './shared/config'
+export * from './shared/logger'
+export * from './shared/retry'
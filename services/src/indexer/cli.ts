@@ -0,0 +1,38 @@
+import { createPublicClient, http } from 'viem'
+import { envNumber, getContractAddresses, getRpcUrl, optionalEnv } from '../shared/config'
+import { createLogger } from '../shared/logger'
+import { Indexer } from './indexer'
+import { createIndexerServer } from './server'
+import { IndexerStore } from './store'
+
+async function main() {
+  const logger = createLogger('indexer')
+  const store = new IndexerStore(optionalEnv('INDEXER_DB_PATH', 'iyield-index.sqlite'))
+  const indexer = new Indexer({
+    publicClient: createPublicClient({ transport: http(getRpcUrl()) }),
+    store,
+    addresses: getContractAddresses(),
+    startBlock: BigInt(envNumber('DEPLOYMENT_BLOCK', 0)),
+    batchSize: BigInt(envNumber('INDEXER_BATCH_SIZE', 2000)),
+    pollingInterval: envNumber('INDEXER_POLLING_INTERVAL_MS', 4000),
+    logger,
+  })
+
+  const port = envNumber('INDEXER_PORT', 0)
+  const server = port ? createIndexerServer(store).listen(port, () => logger.info(`API listening on :${port}`)) : undefined
+
+  const shutdown = () => {
+    indexer.stop()
+    server?.close()
+  }
+  process.once('SIGINT', shutdown)
+  process.once('SIGTERM', shutdown)
+
+  await indexer.start()
+  store.close()
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
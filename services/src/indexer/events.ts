@@ -0,0 +1,61 @@
+import {
+  complianceRegistryAbi,
+  csvLiquidityPoolAbi,
+  csvOracleAbi,
+  csvVaultAbi,
+  ercRwaCsvAbi,
+  type IYieldAddresses,
+} from '@iyield/sdk'
+import type { Abi, AbiEvent, Address, Hex } from 'viem'
+
+export type IndexedContract = keyof IYieldAddresses
+
+/** ABI used to decode the logs of each indexed contract. */
+export const contractAbis: Record<IndexedContract, Abi> = {
+  complianceRegistry: complianceRegistryAbi,
+  csvOracle: csvOracleAbi,
+  csvToken: ercRwaCsvAbi,
+  csvVault: csvVaultAbi,
+  liquidityPool: csvLiquidityPoolAbi,
+}
+
+/** A decoded contract event as stored by the indexer. */
+export interface IndexedEvent {
+  blockNumber: bigint
+  blockHash: Hex
+  logIndex: number
+  transactionHash: Hex
+  timestamp: bigint
+  contract: IndexedContract
+  address: Address
+  eventName: string
+  args: Record<string, unknown>
+  /** Contract state read at the event's block, for events that do not carry everything the projections need. */
+  extra?: Record<string, unknown>
+}
+
+function findEvent(contract: IndexedContract, eventName: string): AbiEvent | undefined {
+  return contractAbis[contract].find(
+    (item): item is AbiEvent => item.type === 'event' && item.name === eventName
+  )
+}
+
+export function encodeJson(value: unknown): string {
+  return JSON.stringify(value, (_, item) => (typeof item === 'bigint' ? item.toString() : item))
+}
+
+/**
+ * Restores `bigint` arguments after a JSON round trip, using the event's ABI
+ * to tell integer parameters from strings.
+ */
+export function decodeArgs(contract: IndexedContract, eventName: string, json: string): Record<string, unknown> {
+  const args = JSON.parse(json) as Record<string, unknown>
+  const event = findEvent(contract, eventName)
+  // Small integers (e.g. the uint8 tranche) are decoded by viem as numbers and survive JSON unchanged.
+  for (const input of event?.inputs ?? []) {
+    if (input.name && /^u?int\d*$/.test(input.type) && typeof args[input.name] === 'string') {
+      args[input.name] = BigInt(args[input.name] as string)
+    }
+  }
+  return args
+}
@@ -0,0 +1,5 @@
+export * from './events'
+export * from './indexer'
+export * from './server'
+export * from './store'
+export * from './types'
@@ -0,0 +1,226 @@
+import { complianceRegistryAbi, type IYieldAddresses } from '@iyield/sdk'
+import { decodeEventLog, getAddress, type Address, type Log, type PublicClient } from 'viem'
+import { silentLogger, type Logger } from '../shared/logger'
+import { sleep } from '../shared/retry'
+import { contractAbis, type IndexedContract, type IndexedEvent } from './events'
+import type { IndexerStore, StoredBlock } from './store'
+import type { Checkpoint } from './types'
+
+export interface IndexerOptions {
+  publicClient: PublicClient
+  store: IndexerStore
+  addresses: IYieldAddresses
+  /** First block to index when the store has no checkpoint, normally the deployment block. */
+  startBlock?: bigint
+  /** Blocks fetched per `eth_getLogs` call. */
+  batchSize?: bigint
+  /** Delay between polls of the chain head, in milliseconds. */
+  pollingInterval?: number
+  /** How many stored blocks are searched for a common ancestor before re-indexing from scratch. */
+  maxReorgDepth?: number
+  logger?: Logger
+}
+
+export interface SyncResult {
+  fromBlock: bigint
+  toBlock: bigint
+  events: number
+  reorged: boolean
+}
+
+/** Raised inside a sync pass when the chain changed under a batch that was being fetched. */
+class ReorgDuringBatch extends Error {}
+
+/**
+ * Copies every event of the protocol contracts into an `IndexerStore`.
+ *
+ * Each pass first checks that the checkpoint block is still canonical. If it
+ * is not, the indexer walks back through stored block hashes to the newest
+ * block the node still agrees with, rolls the store back to it, and re-indexes
+ * from there. Progress is checkpointed per batch, so a restarted indexer
+ * resumes where it stopped.
+ */
+export class Indexer {
+  private readonly publicClient: PublicClient
+  private readonly store: IndexerStore
+  private readonly contracts: Map<Address, IndexedContract>
+  private readonly startBlock: bigint
+  private readonly batchSize: bigint
+  private readonly pollingInterval: number
+  private readonly maxReorgDepth: number
+  private readonly logger: Logger
+  private running = false
+
+  constructor(options: IndexerOptions) {
+    this.publicClient = options.publicClient
+    this.store = options.store
+    this.contracts = new Map(
+      (Object.entries(options.addresses) as [IndexedContract, Address][]).map(([contract, address]) => [
+        getAddress(address),
+        contract,
+      ])
+    )
+    this.startBlock = options.startBlock ?? BigInt(0)
+    this.batchSize = options.batchSize ?? BigInt(2000)
+    this.pollingInterval = options.pollingInterval ?? 4000
+    this.maxReorgDepth = options.maxReorgDepth ?? 256
+    this.logger = options.logger ?? silentLogger
+  }
+
+  /** Indexes from the checkpoint up to the current head. */
+  async sync(): Promise<SyncResult> {
+    const head = await this.publicClient.getBlockNumber({ cacheTime: 0 })
+    let reorged = false
+    let checkpoint = this.store.getCheckpoint()
+    if (checkpoint) {
+      const reconciled = await this.reconcile(checkpoint)
+      reorged = reconciled !== checkpoint
+      checkpoint = reconciled
+    }
+
+    const fromBlock = checkpoint ? checkpoint.blockNumber + BigInt(1) : this.startBlock
+    let next = fromBlock
+    let events = 0
+    while (next <= head) {
+      const to = next + this.batchSize - BigInt(1) < head ? next + this.batchSize - BigInt(1) : head
+      try {
+        const batch = await this.indexRange(next, to, checkpoint)
+        events += batch.events
+        checkpoint = batch.checkpoint
+        next = to + BigInt(1)
+      } catch (error) {
+        if (!(error instanceof ReorgDuringBatch)) throw error
+        // Leave the rest to the next pass, which starts by reconciling the checkpoint.
+        reorged = true
+        break
+      }
+    }
+
+    return { fromBlock, toBlock: checkpoint?.blockNumber ?? fromBlock - BigInt(1), events, reorged }
+  }
+
+  /** Polls the chain until `stop()` is called. Errors are logged and retried on the next poll. */
+  async start(): Promise<void> {
+    this.running = true
+    this.logger.info('Indexer started', { checkpoint: this.store.getCheckpoint()?.blockNumber })
+    while (this.running) {
+      try {
+        const result = await this.sync()
+        if (result.events > 0 || result.reorged) this.logger.info('Indexed blocks', { ...result })
+      } catch (error) {
+        this.logger.error('Sync failed', { error: error instanceof Error ? error.message : String(error) })
+      }
+      if (this.running) await sleep(this.pollingInterval)
+    }
+  }
+
+  stop(): void {
+    this.running = false
+  }
+
+  /**
+   * Returns `checkpoint` if it is still on the canonical chain; otherwise rolls
+   * the store back to the newest stored block that is, and returns that.
+   */
+  private async reconcile(checkpoint: Checkpoint): Promise<Checkpoint | undefined> {
+    const current = await this.getBlockHash(checkpoint.blockNumber)
+    if (current === checkpoint.blockHash) return checkpoint
+
+    for (const stored of this.store.getBlocks(this.maxReorgDepth)) {
+      if ((await this.getBlockHash(stored.number)) === stored.hash) {
+        const ancestor = { blockNumber: stored.number, blockHash: stored.hash }
+        this.logger.warn('Reorg detected, rolling back', { from: checkpoint.blockNumber, to: ancestor.blockNumber })
+        this.store.rollback(ancestor)
+        return ancestor
+      }
+    }
+
+    this.logger.warn('Reorg deeper than the stored blocks, re-indexing from the start block', {
+      from: checkpoint.blockNumber,
+    })
+    this.store.rollback(undefined)
+    return undefined
+  }
+
+  private async getBlockHash(blockNumber: bigint) {
+    try {
+      return (await this.publicClient.getBlock({ blockNumber })).hash
+    } catch {
+      // The node no longer has a block at this height (the chain got shorter).
+      return undefined
+    }
+  }
+
+  private async indexRange(
+    fromBlock: bigint,
+    toBlock: bigint,
+    parent: Checkpoint | undefined
+  ): Promise<{ events: number; checkpoint: Checkpoint }> {
+    const logs = await this.publicClient.getLogs({ address: [...this.contracts.keys()], fromBlock, toBlock })
+
+    const numbers = new Set<bigint>([toBlock, ...logs.map((log) => log.blockNumber!)])
+    if (parent) numbers.add(fromBlock)
+    const blocks = new Map<bigint, StoredBlock & { parentHash: `0x${string}` }>()
+    for (const number of numbers) {
+      const block = await this.publicClient.getBlock({ blockNumber: number })
+      blocks.set(number, { number, hash: block.hash!, timestamp: block.timestamp, parentHash: block.parentHash })
+    }
+
+    if (parent && blocks.get(fromBlock)!.parentHash !== parent.blockHash) throw new ReorgDuringBatch()
+
+    const events: IndexedEvent[] = []
+    for (const log of logs) {
+      const block = blocks.get(log.blockNumber!)!
+      if (log.blockHash !== block.hash) throw new ReorgDuringBatch()
+      const event = this.decode(log, block)
+      if (event) events.push(await this.enrich(event))
+    }
+
+    // Keep hashes only for blocks with events plus the checkpoint; enough to find an ancestor after a reorg.
+    const stored = [...blocks.values()]
+      .filter((block) => block.number === toBlock || logs.some((log) => log.blockNumber === block.number))
+      .map(({ number, hash, timestamp }) => ({ number, hash, timestamp }))
+    const checkpoint = { blockNumber: toBlock, blockHash: blocks.get(toBlock)!.hash }
+    this.store.commitBatch(stored, events, checkpoint)
+    return { events: events.length, checkpoint }
+  }
+
+  private decode(log: Log, block: StoredBlock): IndexedEvent | undefined {
+    const address = getAddress(log.address)
+    const contract = this.contracts.get(address)!
+    try {
+      const { eventName, args } = decodeEventLog({ abi: contractAbis[contract], data: log.data, topics: log.topics })
+      return {
+        blockNumber: block.number,
+        blockHash: block.hash,
+        logIndex: log.logIndex!,
+        transactionHash: log.transactionHash!,
+        timestamp: block.timestamp,
+        contract,
+        address,
+        eventName: eventName as unknown as string,
+        args: { ...(args as unknown as Record<string, unknown>) },
+      }
+    } catch {
+      this.logger.warn('Skipping log that does not match the contract ABI', {
+        contract,
+        transactionHash: log.transactionHash,
+        topic: log.topics[0],
+      })
+      return undefined
+    }
+  }
+
+  /** Adds registry state that `UserKYCUpdated` does not carry: the user's jurisdiction. */
+  private async enrich(event: IndexedEvent): Promise<IndexedEvent> {
+    if (event.contract !== 'complianceRegistry' || event.eventName !== 'UserKYCUpdated') return event
+    const status = await this.publicClient.readContract({
+      address: event.address,
+      abi: complianceRegistryAbi,
+      functionName: 'getComplianceStatus',
+      args: [event.args.user as Address],
+      blockNumber: event.blockNumber,
+    })
+    return { ...event, extra: { jurisdictionCode: status.jurisdictionCode } }
+  }
+}
@@ -0,0 +1,275 @@
+import type Database from 'better-sqlite3'
+import type {
+  complianceRegistryAbi,
+  csvLiquidityPoolAbi,
+  csvOracleAbi,
+  csvVaultAbi,
+  TrancheType,
+} from '@iyield/sdk'
+import type { Address, ContractEventArgsFromTopics, ContractEventName } from 'viem'
+import type { IndexedEvent } from './events'
+import type { ComplianceUserRow, OracleRow, TranchePositionRow, VaultRow } from './schema'
+
+/** ABIs of the contracts whose events have projections. */
+interface ProjectedAbis {
+  csvVault: typeof csvVaultAbi
+  liquidityPool: typeof csvLiquidityPoolAbi
+  csvOracle: typeof csvOracleAbi
+  complianceRegistry: typeof complianceRegistryAbi
+}
+
+/** `<contract>.<event>` of every projectable event. */
+type EventKey = { [C in keyof ProjectedAbis]: `${C}.${ContractEventName<ProjectedAbis[C]>}` }[keyof ProjectedAbis]
+
+/** Decoded arguments of the event named by `K`. */
+type EventArgs<K extends EventKey> = K extends `${infer C extends keyof ProjectedAbis}.${infer E}`
+  ? ContractEventArgsFromTopics<ProjectedAbis[C], E & ContractEventName<ProjectedAbis[C]>>
+  : never
+
+const ZERO = '0'
+
+function add(a: string, b: bigint): string {
+  return (BigInt(a) + b).toString()
+}
+
+function sub(a: string, b: bigint): string {
+  const result = BigInt(a) - b
+  return (result < BigInt(0) ? BigInt(0) : result).toString()
+}
+
+/**
+ * Folds one event into the projection tables. Handlers mirror the state
+ * changes of the contract function that emitted the event; events with no
+ * projection (e.g. ERC20 transfers) are only kept in `events`.
+ */
+export function applyEvent(db: Database.Database, event: IndexedEvent): void {
+  const handler = handlers[`${event.contract}.${event.eventName}` as EventKey] as Handler<EventKey> | undefined
+  // The args were decoded with the ABI of the event the key names
+  if (handler) handler(db, event, event.args as EventArgs<EventKey>)
+}
+
+type Handler<K extends EventKey> = (db: Database.Database, event: IndexedEvent, args: EventArgs<K>) => void
+
+function updateVault(db: Database.Database, vaultId: bigint, block: bigint, change: (vault: VaultRow) => void) {
+  const vault = db.prepare<[number], VaultRow>('SELECT * FROM vaults WHERE vault_id = ?').get(Number(vaultId))
+  if (!vault) return
+  change(vault)
+  db.prepare(
+    `UPDATE vaults SET collateral_value = @collateral_value, debt_amount = @debt_amount, status = @status,
+       liquidator = @liquidator, liquidation_penalty = @liquidation_penalty, updated_block = @updated_block
+     WHERE vault_id = @vault_id`
+  ).run({ ...vault, updated_block: Number(block) })
+}
+
+function upsertTranchePosition(
+  db: Database.Database,
+  event: IndexedEvent,
+  tranche: TrancheType,
+  user: Address,
+  change: (position: TranchePositionRow) => void
+) {
+  const position = db
+    .prepare<[TrancheType, string], TranchePositionRow>('SELECT * FROM tranche_positions WHERE tranche = ? AND user = ?')
+    .get(tranche, user) ?? {
+    tranche,
+    user,
+    shares: ZERO,
+    deposited: ZERO,
+    withdrawn: ZERO,
+    yield_claimed: ZERO,
+    yield_compounded: ZERO,
+    first_deposit_at: Number(event.timestamp),
+    updated_block: Number(event.blockNumber),
+  }
+  change(position)
+  db.prepare(
+    `INSERT INTO tranche_positions (tranche, user, shares, deposited, withdrawn, yield_claimed, yield_compounded,
+       first_deposit_at, updated_block)
+     VALUES (@tranche, @user, @shares, @deposited, @withdrawn, @yield_claimed, @yield_compounded, @first_deposit_at,
+       @updated_block)
+     ON CONFLICT (tranche, user) DO UPDATE SET shares = @shares, deposited = @deposited, withdrawn = @withdrawn,
+       yield_claimed = @yield_claimed, yield_compounded = @yield_compounded, updated_block = @updated_block`
+  ).run({ ...position, updated_block: Number(event.blockNumber) })
+}
+
+function updateOracle(db: Database.Database, address: string, change: (oracle: OracleRow) => void) {
+  const oracle = db.prepare<[string], OracleRow>('SELECT * FROM oracles WHERE address = ?').get(address)
+  if (!oracle) return
+  change(oracle)
+  db.prepare(
+    `UPDATE oracles SET staking_amount = @staking_amount, rewards_earned = @rewards_earned,
+       slashed_amount = @slashed_amount, submissions = @submissions, is_active = @is_active
+     WHERE address = @address`
+  ).run(oracle)
+}
+
+function upsertComplianceUser(
+  db: Database.Database,
+  event: IndexedEvent,
+  user: Address,
+  change: (row: ComplianceUserRow) => void
+) {
+  const row = db.prepare<[string], ComplianceUserRow>('SELECT * FROM compliance_users WHERE user = ?').get(user) ?? {
+    user,
+    kyc_verified: 0,
+    kyc_expiry: 0,
+    kyc_provider: null,
+    jurisdiction_code: null,
+    accredited: 0,
+    accreditation_expiry: 0,
+    restricted: 0,
+    restriction_reason: null,
+    lockup_expiry: 0,
+    updated_block: Number(event.blockNumber),
+  }
+  change(row)
+  db.prepare(
+    `INSERT INTO compliance_users (user, kyc_verified, kyc_expiry, kyc_provider, jurisdiction_code, accredited,
+       accreditation_expiry, restricted, restriction_reason, lockup_expiry, updated_block)
+     VALUES (@user, @kyc_verified, @kyc_expiry, @kyc_provider, @jurisdiction_code, @accredited,
+       @accreditation_expiry, @restricted, @restriction_reason, @lockup_expiry, @updated_block)
+     ON CONFLICT (user) DO UPDATE SET kyc_verified = @kyc_verified, kyc_expiry = @kyc_expiry,
+       kyc_provider = @kyc_provider, jurisdiction_code = @jurisdiction_code, accredited = @accredited,
+       accreditation_expiry = @accreditation_expiry, restricted = @restricted,
+       restriction_reason = @restriction_reason, lockup_expiry = @lockup_expiry, updated_block = @updated_block`
+  ).run({ ...row, updated_block: Number(event.blockNumber) })
+}
+
+const handlers: { [K in EventKey]?: Handler<K> } = {
+  'csvVault.VaultOpened': (db, event, { vaultId, owner, collateralValue }) => {
+    db.prepare(
+      `INSERT INTO vaults (vault_id, owner, collateral_value, debt_amount, status, opened_block, opened_at, updated_block)
+       VALUES (?, ?, ?, '0', 'active', ?, ?, ?)`
+    ).run(
+      Number(vaultId),
+      owner,
+      collateralValue.toString(),
+      Number(event.blockNumber),
+      Number(event.timestamp),
+      Number(event.blockNumber)
+    )
+  },
+  'csvVault.TokensMinted': (db, event, { vaultId, amount }) =>
+    updateVault(db, vaultId, event.blockNumber, (vault) => (vault.debt_amount = add(vault.debt_amount, amount))),
+  'csvVault.StabilityFeeAccrued': (db, event, { vaultId, feeAmount }) =>
+    updateVault(db, vaultId, event.blockNumber, (vault) => (vault.debt_amount = add(vault.debt_amount, feeAmount))),
+  'csvVault.TokensBurned': (db, event, { vaultId, amount }) =>
+    updateVault(db, vaultId, event.blockNumber, (vault) => (vault.debt_amount = sub(vault.debt_amount, amount))),
+  'csvVault.CollateralValuationUpdated': (db, event, { vaultId, newValue }) =>
+    updateVault(db, vaultId, event.blockNumber, (vault) => (vault.collateral_value = newValue.toString())),
+  'csvVault.VaultClosed': (db, event, { vaultId }) =>
+    updateVault(db, vaultId, event.blockNumber, (vault) => (vault.status = 'closed')),
+  'csvVault.VaultLiquidated': (db, event, { vaultId, liquidator, penalty }) =>
+    updateVault(db, vaultId, event.blockNumber, (vault) => {
+      vault.status = 'liquidated'
+      vault.liquidator = liquidator
+      vault.liquidation_penalty = penalty.toString()
+    }),
+
+  'liquidityPool.TrancheDeposit': (db, event, { tranche, user, amount, shares }) =>
+    upsertTranchePosition(db, event, tranche, user, (position) => {
+      position.shares = add(position.shares, shares)
+      position.deposited = add(position.deposited, amount)
+    }),
+  'liquidityPool.TrancheWithdrawal': (db, event, { tranche, user, amount, shares }) =>
+    upsertTranchePosition(db, event, tranche, user, (position) => {
+      position.shares = sub(position.shares, shares)
+      position.withdrawn = add(position.withdrawn, amount)
+    }),
+  'liquidityPool.YieldClaimed': (db, event, { tranche, user, amount }) =>
+    upsertTranchePosition(db, event, tranche, user, (position) => {
+      position.yield_claimed = add(position.yield_claimed, amount)
+    }),
+  'liquidityPool.YieldCompounded': (db, event, { tranche, user, amount, shares }) =>
+    upsertTranchePosition(db, event, tranche, user, (position) => {
+      position.shares = add(position.shares, shares)
+      position.yield_compounded = add(position.yield_compounded, amount)
+    }),
+
+  'csvOracle.OracleRegistered': (db, event, { oracle, name, stakingAmount }) => {
+    db.prepare(
+      `INSERT INTO oracles (address, name, staking_amount, rewards_earned, slashed_amount, submissions, registered_block, is_active)
+       VALUES (?, ?, ?, '0', '0', 0, ?, 1)`
+    ).run(oracle, name, stakingAmount.toString(), Number(event.blockNumber))
+  },
+  'csvOracle.OracleDeregistered': (db, _event, { oracle }) =>
+    updateOracle(db, oracle, (row) => (row.is_active = 0)),
+  'csvOracle.OracleSlashed': (db, _event, { oracle, amount }) =>
+    updateOracle(db, oracle, (row) => {
+      row.staking_amount = sub(row.staking_amount, amount)
+      row.slashed_amount = add(row.slashed_amount, amount)
+      if (BigInt(row.staking_amount) === BigInt(0)) row.is_active = 0
+    }),
+  'csvOracle.OracleRewarded': (db, _event, { oracle, amount }) =>
+    updateOracle(db, oracle, (row) => (row.rewards_earned = add(row.rewards_earned, amount))),
+  'csvOracle.ValuationRequested': (db, event, { requestId, policyNumber, requester }) => {
+    db.prepare(
+      `INSERT INTO valuation_requests (request_id, policy_number, requester, requested_block, requested_at, response_count)
+       VALUES (?, ?, ?, ?, ?, 0)`
+    ).run(Number(requestId), policyNumber, requester, Number(event.blockNumber), Number(event.timestamp))
+  },
+  'csvOracle.ValuationSubmitted': (db, event, { requestId, oracle, value }) => {
+    db.prepare(
+      `INSERT OR REPLACE INTO oracle_responses (request_id, oracle, value, block_number, submitted_at, transaction_hash)
+       VALUES (?, ?, ?, ?, ?, ?)`
+    ).run(
+      Number(requestId),
+      oracle,
+      value.toString(),
+      Number(event.blockNumber),
+      Number(event.timestamp),
+      event.transactionHash
+    )
+    db.prepare('UPDATE valuation_requests SET response_count = response_count + 1 WHERE request_id = ?').run(
+      Number(requestId)
+    )
+    updateOracle(db, oracle, (row) => (row.submissions += 1))
+  },
+  'csvOracle.ValuationFinalized': (db, event, { requestId, agreedValue }) => {
+    db.prepare('UPDATE valuation_requests SET agreed_value = ?, finalized_block = ? WHERE request_id = ?').run(
+      agreedValue.toString(),
+      Number(event.blockNumber),
+      Number(requestId)
+    )
+  },
+
+  'complianceRegistry.UserKYCUpdated': (db, event, { user, verified, expiry, provider }) =>
+    upsertComplianceUser(db, event, user, (row) => {
+      row.kyc_verified = verified ? 1 : 0
+      row.kyc_expiry = Number(expiry)
+      row.kyc_provider = provider
+      // The event has no jurisdiction; the indexer reads it from the registry at the event's block.
+      const jurisdictionCode = event.extra?.jurisdictionCode
+      if (jurisdictionCode !== undefined) row.jurisdiction_code = Number(jurisdictionCode)
+    }),
+  'complianceRegistry.UserAccreditationUpdated': (db, event, { user, accredited, expiry }) =>
+    upsertComplianceUser(db, event, user, (row) => {
+      row.accredited = accredited ? 1 : 0
+      row.accreditation_expiry = Number(expiry)
+    }),
+  'complianceRegistry.UserRestricted': (db, event, { user, reason }) =>
+    upsertComplianceUser(db, event, user, (row) => {
+      row.restricted = 1
+      row.restriction_reason = reason
+    }),
+  'complianceRegistry.UserUnrestricted': (db, event, { user }) =>
+    upsertComplianceUser(db, event, user, (row) => {
+      row.restricted = 0
+      row.restriction_reason = null
+    }),
+  'complianceRegistry.ComplianceStatusImported': (db, event, args) =>
+    upsertComplianceUser(db, event, args.user, (row) => {
+      row.kyc_verified = args.kycVerified ? 1 : 0
+      row.kyc_expiry = Number(args.kycExpiry)
+      row.kyc_provider = args.kycProvider
+      row.jurisdiction_code = Number(args.jurisdictionCode)
+      row.accredited = args.accredited ? 1 : 0
+      row.accreditation_expiry = Number(args.accreditationExpiry)
+      row.restricted = args.restricted ? 1 : 0
+      // An import carries no reason; keep the last one while the user stays restricted.
+      if (!args.restricted) row.restriction_reason = null
+      row.lockup_expiry = Number(args.lockupExpiry)
+    }),
+  'complianceRegistry.LockupPeriodUpdated': (db, event, { user, expiry }) =>
+    upsertComplianceUser(db, event, user, (row) => (row.lockup_expiry = Number(expiry))),
+}
@@ -0,0 +1,214 @@
+import type { TrancheType } from '@iyield/sdk'
+import type { Address, Hex } from 'viem'
+import type { IndexedContract } from './events'
+import type { VaultStatus } from './types'
+
+/**
+ * SQLite schema of the indexer.
+ *
+ * `events` and `blocks` are the source of truth; every other table is a
+ * projection derived from `events` and can be rebuilt from it after a reorg.
+ * Token amounts are stored as decimal TEXT because they overflow SQLite's
+ * 64-bit integers; IDs and timestamps fit and are stored as INTEGER.
+ */
+export const SCHEMA_VERSION = 2
+
+export const schema = `
+CREATE TABLE IF NOT EXISTS meta (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS blocks (
+  number INTEGER PRIMARY KEY,
+  hash TEXT NOT NULL,
+  timestamp INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS events (
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  block_hash TEXT NOT NULL,
+  transaction_hash TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  contract TEXT NOT NULL,
+  address TEXT NOT NULL,
+  event_name TEXT NOT NULL,
+  args TEXT NOT NULL,
+  extra TEXT,
+  PRIMARY KEY (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS events_by_name ON events (contract, event_name);
+CREATE INDEX IF NOT EXISTS events_by_transaction ON events (transaction_hash);
+
+CREATE TABLE IF NOT EXISTS vaults (
+  vault_id INTEGER PRIMARY KEY,
+  owner TEXT NOT NULL,
+  collateral_value TEXT NOT NULL,
+  debt_amount TEXT NOT NULL,
+  status TEXT NOT NULL,
+  opened_block INTEGER NOT NULL,
+  opened_at INTEGER NOT NULL,
+  updated_block INTEGER NOT NULL,
+  liquidator TEXT,
+  liquidation_penalty TEXT
+);
+CREATE INDEX IF NOT EXISTS vaults_by_owner ON vaults (owner);
+
+CREATE TABLE IF NOT EXISTS tranche_positions (
+  tranche INTEGER NOT NULL,
+  user TEXT NOT NULL,
+  shares TEXT NOT NULL,
+  deposited TEXT NOT NULL,
+  withdrawn TEXT NOT NULL,
+  yield_claimed TEXT NOT NULL,
+  yield_compounded TEXT NOT NULL,
+  first_deposit_at INTEGER NOT NULL,
+  updated_block INTEGER NOT NULL,
+  PRIMARY KEY (tranche, user)
+);
+
+CREATE TABLE IF NOT EXISTS valuation_requests (
+  request_id INTEGER PRIMARY KEY,
+  policy_number TEXT NOT NULL,
+  requester TEXT NOT NULL,
+  requested_block INTEGER NOT NULL,
+  requested_at INTEGER NOT NULL,
+  response_count INTEGER NOT NULL,
+  agreed_value TEXT,
+  finalized_block INTEGER
+);
+CREATE INDEX IF NOT EXISTS valuation_requests_by_policy ON valuation_requests (policy_number);
+
+CREATE TABLE IF NOT EXISTS oracle_responses (
+  request_id INTEGER NOT NULL,
+  oracle TEXT NOT NULL,
+  value TEXT NOT NULL,
+  block_number INTEGER NOT NULL,
+  submitted_at INTEGER NOT NULL,
+  transaction_hash TEXT NOT NULL,
+  PRIMARY KEY (request_id, oracle)
+);
+CREATE INDEX IF NOT EXISTS oracle_responses_by_oracle ON oracle_responses (oracle);
+
+CREATE TABLE IF NOT EXISTS oracles (
+  address TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  staking_amount TEXT NOT NULL,
+  rewards_earned TEXT NOT NULL,
+  slashed_amount TEXT NOT NULL,
+  submissions INTEGER NOT NULL,
+  registered_block INTEGER NOT NULL,
+  is_active INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS compliance_users (
+  user TEXT PRIMARY KEY,
+  kyc_verified INTEGER NOT NULL,
+  kyc_expiry INTEGER NOT NULL,
+  kyc_provider TEXT,
+  jurisdiction_code INTEGER,
+  accredited INTEGER NOT NULL,
+  accreditation_expiry INTEGER NOT NULL,
+  restricted INTEGER NOT NULL,
+  restriction_reason TEXT,
+  lockup_expiry INTEGER NOT NULL,
+  updated_block INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS compliance_users_by_jurisdiction ON compliance_users (jurisdiction_code);
+`
+
+// Rows as better-sqlite3 returns them: INTEGER columns as numbers, booleans as 0 or 1.
+
+export interface EventRow {
+  block_number: number
+  log_index: number
+  block_hash: Hex
+  transaction_hash: Hex
+  timestamp: number
+  contract: IndexedContract
+  address: Address
+  event_name: string
+  args: string
+  extra: string | null
+}
+
+export interface VaultRow {
+  vault_id: number
+  owner: Address
+  collateral_value: string
+  debt_amount: string
+  status: VaultStatus
+  opened_block: number
+  opened_at: number
+  updated_block: number
+  liquidator: Address | null
+  liquidation_penalty: string | null
+}
+
+export interface TranchePositionRow {
+  tranche: TrancheType
+  user: Address
+  shares: string
+  deposited: string
+  withdrawn: string
+  yield_claimed: string
+  yield_compounded: string
+  first_deposit_at: number
+  updated_block: number
+}
+
+export interface ValuationRequestRow {
+  request_id: number
+  policy_number: string
+  requester: Address
+  requested_block: number
+  requested_at: number
+  response_count: number
+  agreed_value: string | null
+  finalized_block: number | null
+}
+
+export interface OracleResponseRow {
+  request_id: number
+  oracle: Address
+  value: string
+  block_number: number
+  submitted_at: number
+  transaction_hash: Hex
+}
+
+export interface OracleRow {
+  address: Address
+  name: string
+  staking_amount: string
+  rewards_earned: string
+  slashed_amount: string
+  submissions: number
+  registered_block: number
+  is_active: number
+}
+
+export interface ComplianceUserRow {
+  user: Address
+  kyc_verified: number
+  kyc_expiry: number
+  kyc_provider: Address | null
+  jurisdiction_code: number | null
+  accredited: number
+  accreditation_expiry: number
+  restricted: number
+  restriction_reason: string | null
+  lockup_expiry: number
+  updated_block: number
+}
+
+/** Projection tables, cleared and rebuilt from `events` after a reorg. */
+export const projectionTables = [
+  'vaults',
+  'tranche_positions',
+  'valuation_requests',
+  'oracle_responses',
+  'oracles',
+  'compliance_users',
+] as const
@@ -0,0 +1,125 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http'
+import { getAddress, isAddress, isHex } from 'viem'
+import { encodeJson, type IndexedContract } from './events'
+import type { IndexerStore } from './store'
+import type { VaultStatus } from './types'
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message)
+  }
+}
+
+type Route = (params: string[], query: URLSearchParams) => unknown
+
+function parseId(value: string): bigint {
+  if (!/^\d+$/.test(value)) throw new HttpError(400, `Invalid id "${value}"`)
+  return BigInt(value)
+}
+
+function parseAddress(value: string): `0x${string}` {
+  if (!isAddress(value, { strict: false })) throw new HttpError(400, `Invalid address "${value}"`)
+  return getAddress(value)
+}
+
+function parseTranche(value: string): number {
+  if (value === 'senior' || value === '0') return 0
+  if (value === 'junior' || value === '1') return 1
+  throw new HttpError(400, `Unknown tranche "${value}"`)
+}
+
+function found<T>(value: T | undefined, what: string): T {
+  if (value === undefined) throw new HttpError(404, `${what} not found`)
+  return value
+}
+
+/**
+ * Read-only JSON API over the index, for the frontend and reporting tools.
+ * Amounts are serialised as decimal strings.
+ */
+export function createIndexerServer(store: IndexerStore): Server {
+  const routes: [RegExp, Route][] = [
+    [/^\/api\/v1\/status$/, () => ({ checkpoint: store.getCheckpoint() ?? null })],
+    [
+      /^\/api\/v1\/vaults$/,
+      (_, query) =>
+        store.listVaults({
+          owner: query.get('owner') ? parseAddress(query.get('owner')!) : undefined,
+          status: (query.get('status') as VaultStatus) || undefined,
+        }),
+    ],
+    [/^\/api\/v1\/vaults\/([^/]+)$/, ([id]) => found(store.getVault(parseId(id)), 'Vault')],
+    [/^\/api\/v1\/tranches\/([^/]+)\/depositors$/, ([tranche]) => store.listTrancheDepositors(parseTranche(tranche))],
+    [/^\/api\/v1\/users\/([^/]+)\/positions$/, ([user]) => store.listUserTranchePositions(parseAddress(user))],
+    [/^\/api\/v1\/yield$/, () => store.listYieldDistributions()],
+    [
+      /^\/api\/v1\/valuations$/,
+      (_, query) => store.listValuationRequests({ policyNumber: query.get('policy') ?? undefined }),
+    ],
+    [/^\/api\/v1\/valuations\/([^/]+)$/, ([id]) => found(store.getValuationRequest(parseId(id)), 'Request')],
+    [
+      /^\/api\/v1\/valuations\/([^/]+)\/responses$/,
+      ([id]) => store.listOracleResponses({ requestId: parseId(id) }),
+    ],
+    [/^\/api\/v1\/oracles$/, () => store.listOracles()],
+    [
+      /^\/api\/v1\/oracles\/([^/]+)\/responses$/,
+      ([oracle]) => store.listOracleResponses({ oracle: parseAddress(oracle) }),
+    ],
+    [
+      /^\/api\/v1\/compliance\/users$/,
+      (_, query) =>
+        store.listComplianceUsers({
+          jurisdictionCode: query.get('jurisdiction') ? parseId(query.get('jurisdiction')!) : undefined,
+          restricted: query.has('restricted') ? query.get('restricted') === 'true' : undefined,
+        }),
+    ],
+    [
+      /^\/api\/v1\/compliance\/users\/([^/]+)$/,
+      ([user]) => found(store.getComplianceUser(parseAddress(user)), 'User'),
+    ],
+    [
+      /^\/api\/v1\/compliance\/jurisdictions\/([^/]+)$/,
+      ([code]) => ({ jurisdictionCode: code, verifiedUsers: store.countUsersByJurisdiction(parseId(code)) }),
+    ],
+    [
+      /^\/api\/v1\/events$/,
+      (_, query) => {
+        const transactionHash = query.get('tx') ?? undefined
+        if (transactionHash !== undefined && !isHex(transactionHash)) {
+          throw new HttpError(400, 'Invalid transaction hash')
+        }
+        return store.listEvents({
+          contract: (query.get('contract') as IndexedContract) || undefined,
+          eventName: query.getAll('event').length ? query.getAll('event') : undefined,
+          fromBlock: query.get('fromBlock') ? parseId(query.get('fromBlock')!) : undefined,
+          toBlock: query.get('toBlock') ? parseId(query.get('toBlock')!) : undefined,
+          transactionHash,
+          descending: query.get('order') === 'desc',
+          limit: Math.min(Number(query.get('limit') ?? 500), 5000),
+        })
+      },
+    ],
+  ]
+
+  const send = (response: ServerResponse, status: number, body: unknown) => {
+    response.writeHead(status, { 'content-type': 'application/json', 'access-control-allow-origin': '*' })
+    response.end(encodeJson(body))
+  }
+
+  return createServer((request: IncomingMessage, response: ServerResponse) => {
+    const url = new URL(request.url ?? '/', 'http://localhost')
+    if (request.method !== 'GET') return send(response, 405, { error: 'Method not allowed' })
+    for (const [pattern, route] of routes) {
+      const match = pattern.exec(url.pathname)
+      if (!match) continue
+      try {
+        return send(response, 200, route(match.slice(1), url.searchParams))
+      } catch (error) {
+        if (error instanceof HttpError) return send(response, error.status, { error: error.message })
+        return send(response, 500, { error: 'Internal error' })
+      }
+    }
+    send(response, 404, { error: 'Not found' })
+  })
+}
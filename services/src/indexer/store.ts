@@ -0,0 +1,401 @@
+import Database from 'better-sqlite3'
+import type { TrancheType } from '@iyield/sdk'
+import type { Address, Hex } from 'viem'
+import { decodeArgs, encodeJson, type IndexedContract, type IndexedEvent } from './events'
+import { applyEvent } from './projections'
+import {
+  projectionTables,
+  schema,
+  SCHEMA_VERSION,
+  type ComplianceUserRow,
+  type EventRow,
+  type OracleResponseRow,
+  type OracleRow,
+  type TranchePositionRow,
+  type ValuationRequestRow,
+  type VaultRow,
+} from './schema'
+import type {
+  Checkpoint,
+  ComplianceUserFilter,
+  EventFilter,
+  IndexedComplianceUser,
+  IndexedOracle,
+  IndexedOracleResponse,
+  IndexedTranchePosition,
+  IndexedValuationRequest,
+  IndexedVault,
+  IndexedYieldDistribution,
+  VaultFilter,
+} from './types'
+
+export interface StoredBlock {
+  number: bigint
+  hash: Hex
+  timestamp: bigint
+}
+
+const toBigInt = (value: number | string) => BigInt(value)
+const toOptionalBigInt = (value: number | string | null) => (value === null ? null : BigInt(value))
+
+/**
+ * SQLite store behind the indexer: raw events, the block hashes needed to
+ * detect reorgs, the checkpoint, and the projections the query API reads.
+ */
+export class IndexerStore {
+  readonly db: Database.Database
+
+  constructor(filename = ':memory:') {
+    this.db = new Database(filename)
+    this.db.pragma('journal_mode = WAL')
+    this.db.exec(schema)
+    const version = this.getMeta('schema_version')
+    if (version === undefined) {
+      this.setMeta('schema_version', String(SCHEMA_VERSION))
+    } else if (Number(version) !== SCHEMA_VERSION) {
+      throw new Error(`Index was built with schema v${version}, expected v${SCHEMA_VERSION}; delete it to re-index`)
+    }
+  }
+
+  close(): void {
+    this.db.close()
+  }
+
+  private getMeta(key: string): string | undefined {
+    const row = this.db.prepare('SELECT value FROM meta WHERE key = ?').get(key) as { value: string } | undefined
+    return row?.value
+  }
+
+  private setMeta(key: string, value: string): void {
+    this.db.prepare('INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = ?').run(
+      key,
+      value,
+      value
+    )
+  }
+
+  // --- Ingestion -----------------------------------------------------------
+
+  getCheckpoint(): Checkpoint | undefined {
+    const raw = this.getMeta('checkpoint')
+    if (!raw) return undefined
+    const { blockNumber, blockHash } = JSON.parse(raw) as { blockNumber: string; blockHash: Hex }
+    return { blockNumber: BigInt(blockNumber), blockHash }
+  }
+
+  /**
+   * Stores a processed block range atomically: its blocks and events, the
+   * projection updates and the new checkpoint. A crash mid-batch leaves the
+   * previous checkpoint in place, so the range is simply indexed again.
+   */
+  commitBatch(blocks: StoredBlock[], events: IndexedEvent[], checkpoint: Checkpoint): void {
+    const insertBlock = this.db.prepare(
+      'INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (?, ?, ?)'
+    )
+    const insertEvent = this.db.prepare(
+      `INSERT INTO events (block_number, log_index, block_hash, transaction_hash, timestamp, contract, address,
+         event_name, args, extra)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    this.db.transaction(() => {
+      for (const block of blocks) insertBlock.run(Number(block.number), block.hash, Number(block.timestamp))
+      for (const event of events) {
+        insertEvent.run(
+          Number(event.blockNumber),
+          event.logIndex,
+          event.blockHash,
+          event.transactionHash,
+          Number(event.timestamp),
+          event.contract,
+          event.address,
+          event.eventName,
+          encodeJson(event.args),
+          event.extra ? encodeJson(event.extra) : null
+        )
+        applyEvent(this.db, event)
+      }
+      this.setMeta(
+        'checkpoint',
+        JSON.stringify({ blockNumber: checkpoint.blockNumber.toString(), blockHash: checkpoint.blockHash })
+      )
+    })()
+  }
+
+  /** Stored block hashes, newest first; used to find the common ancestor after a reorg. */
+  getBlocks(limit: number): StoredBlock[] {
+    const rows = this.db.prepare('SELECT * FROM blocks ORDER BY number DESC LIMIT ?').all(limit) as {
+      number: number
+      hash: Hex
+      timestamp: number
+    }[]
+    return rows.map((row) => ({ number: BigInt(row.number), hash: row.hash, timestamp: BigInt(row.timestamp) }))
+  }
+
+  /**
+   * Drops everything above `checkpoint` (blocks orphaned by a reorg) and
+   * rebuilds the projections from the remaining events. Passing `undefined`
+   * clears the index entirely.
+   */
+  rollback(checkpoint: Checkpoint | undefined): void {
+    const above = checkpoint ? Number(checkpoint.blockNumber) : -1
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM events WHERE block_number > ?').run(above)
+      this.db.prepare('DELETE FROM blocks WHERE number > ?').run(above)
+      if (checkpoint) {
+        this.setMeta(
+          'checkpoint',
+          JSON.stringify({ blockNumber: checkpoint.blockNumber.toString(), blockHash: checkpoint.blockHash })
+        )
+      } else {
+        this.db.prepare("DELETE FROM meta WHERE key = 'checkpoint'").run()
+      }
+      for (const table of projectionTables) this.db.prepare(`DELETE FROM ${table}`).run()
+      for (const event of this.listEvents()) applyEvent(this.db, event)
+    })()
+  }
+
+  // --- Queries -------------------------------------------------------------
+
+  listEvents(filter: EventFilter = {}): IndexedEvent[] {
+    const conditions: string[] = []
+    const params: (string | number)[] = []
+    if (filter.contract) {
+      conditions.push('contract = ?')
+      params.push(filter.contract)
+    }
+    if (filter.eventName) {
+      const names = Array.isArray(filter.eventName) ? filter.eventName : [filter.eventName]
+      conditions.push(`event_name IN (${names.map(() => '?').join(', ')})`)
+      params.push(...names)
+    }
+    if (filter.fromBlock !== undefined) {
+      conditions.push('block_number >= ?')
+      params.push(Number(filter.fromBlock))
+    }
+    if (filter.toBlock !== undefined) {
+      conditions.push('block_number <= ?')
+      params.push(Number(filter.toBlock))
+    }
+    if (filter.transactionHash) {
+      conditions.push('transaction_hash = ?')
+      params.push(filter.transactionHash)
+    }
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''
+    const order = filter.descending ? 'DESC' : 'ASC'
+    const limit = filter.limit !== undefined ? `LIMIT ${Math.floor(filter.limit)}` : ''
+    const rows = this.db
+      .prepare<unknown[], EventRow>(
+        `SELECT * FROM events ${where} ORDER BY block_number ${order}, log_index ${order} ${limit}`
+      )
+      .all(...params)
+    return rows.map((row) => ({
+      blockNumber: BigInt(row.block_number),
+      blockHash: row.block_hash,
+      logIndex: row.log_index,
+      transactionHash: row.transaction_hash,
+      timestamp: BigInt(row.timestamp),
+      contract: row.contract as IndexedContract,
+      address: row.address,
+      eventName: row.event_name,
+      args: decodeArgs(row.contract, row.event_name, row.args),
+      ...(row.extra ? { extra: JSON.parse(row.extra) } : {}),
+    }))
+  }
+
+  listVaults(filter: VaultFilter = {}): IndexedVault[] {
+    const conditions: string[] = []
+    const params: string[] = []
+    if (filter.owner) {
+      conditions.push('owner = ?')
+      params.push(filter.owner)
+    }
+    if (filter.status) {
+      conditions.push('status = ?')
+      params.push(filter.status)
+    }
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''
+    const rows = this.db.prepare<unknown[], VaultRow>(`SELECT * FROM vaults ${where} ORDER BY vault_id`).all(...params)
+    return rows.map(mapVault)
+  }
+
+  getVault(vaultId: bigint): IndexedVault | undefined {
+    const row = this.db.prepare<[number], VaultRow>('SELECT * FROM vaults WHERE vault_id = ?').get(Number(vaultId))
+    return row ? mapVault(row) : undefined
+  }
+
+  /** Current holders of a tranche (positions with shares), largest first. */
+  listTrancheDepositors(tranche: TrancheType): IndexedTranchePosition[] {
+    const rows = this.db
+      .prepare<[TrancheType], TranchePositionRow>("SELECT * FROM tranche_positions WHERE tranche = ? AND shares != '0'")
+      .all(tranche)
+    return rows.map(mapTranchePosition).sort((a, b) => (a.shares === b.shares ? 0 : a.shares > b.shares ? -1 : 1))
+  }
+
+  listUserTranchePositions(user: Address): IndexedTranchePosition[] {
+    const rows = this.db
+      .prepare<[Address], TranchePositionRow>('SELECT * FROM tranche_positions WHERE user = ? ORDER BY tranche')
+      .all(user)
+    return rows.map(mapTranchePosition)
+  }
+
+  listYieldDistributions(): IndexedYieldDistribution[] {
+    return this.listEvents({ contract: 'liquidityPool', eventName: 'YieldDistributed' }).map((event) => ({
+      blockNumber: event.blockNumber,
+      timestamp: event.timestamp,
+      transactionHash: event.transactionHash,
+      totalYield: event.args.totalYield as bigint,
+      seniorYield: event.args.seniorYield as bigint,
+      juniorYield: event.args.juniorYield as bigint,
+      protocolFee: event.args.protocolFee as bigint,
+    }))
+  }
+
+  listValuationRequests(filter: { policyNumber?: string } = {}): IndexedValuationRequest[] {
+    const rows = filter.policyNumber
+      ? this.db
+          .prepare<[string], ValuationRequestRow>(
+            'SELECT * FROM valuation_requests WHERE policy_number = ? ORDER BY request_id'
+          )
+          .all(filter.policyNumber)
+      : this.db.prepare<[], ValuationRequestRow>('SELECT * FROM valuation_requests ORDER BY request_id').all()
+    return rows.map(mapValuationRequest)
+  }
+
+  getValuationRequest(requestId: bigint): IndexedValuationRequest | undefined {
+    const row = this.db
+      .prepare<[number], ValuationRequestRow>('SELECT * FROM valuation_requests WHERE request_id = ?')
+      .get(Number(requestId))
+    return row ? mapValuationRequest(row) : undefined
+  }
+
+  /** Oracle response history, oldest first, optionally for one request or one oracle. */
+  listOracleResponses(filter: { requestId?: bigint; oracle?: Address } = {}): IndexedOracleResponse[] {
+    const conditions: string[] = []
+    const params: (string | number)[] = []
+    if (filter.requestId !== undefined) {
+      conditions.push('request_id = ?')
+      params.push(Number(filter.requestId))
+    }
+    if (filter.oracle) {
+      conditions.push('oracle = ?')
+      params.push(filter.oracle)
+    }
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''
+    const rows = this.db
+      .prepare<unknown[], OracleResponseRow>(
+        `SELECT * FROM oracle_responses ${where} ORDER BY block_number, request_id`
+      )
+      .all(...params)
+    return rows.map((row) => ({
+      requestId: BigInt(row.request_id),
+      oracle: row.oracle,
+      value: BigInt(row.value),
+      blockNumber: BigInt(row.block_number),
+      submittedAt: BigInt(row.submitted_at),
+      transactionHash: row.transaction_hash,
+    }))
+  }
+
+  listOracles(): IndexedOracle[] {
+    const rows = this.db.prepare<[], OracleRow>('SELECT * FROM oracles ORDER BY registered_block, address').all()
+    return rows.map((row) => ({
+      address: row.address,
+      name: row.name,
+      stakingAmount: BigInt(row.staking_amount),
+      rewardsEarned: BigInt(row.rewards_earned),
+      slashedAmount: BigInt(row.slashed_amount),
+      submissions: row.submissions,
+      registeredBlock: BigInt(row.registered_block),
+      isActive: row.is_active === 1,
+    }))
+  }
+
+  listComplianceUsers(filter: ComplianceUserFilter = {}): IndexedComplianceUser[] {
+    const conditions: string[] = []
+    const params: number[] = []
+    if (filter.jurisdictionCode !== undefined) {
+      conditions.push('jurisdiction_code = ?')
+      params.push(Number(filter.jurisdictionCode))
+    }
+    if (filter.restricted !== undefined) {
+      conditions.push('restricted = ?')
+      params.push(filter.restricted ? 1 : 0)
+    }
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''
+    const rows = this.db
+      .prepare<unknown[], ComplianceUserRow>(`SELECT * FROM compliance_users ${where} ORDER BY user`)
+      .all(...params)
+    return rows.map(mapComplianceUser)
+  }
+
+  getComplianceUser(user: Address): IndexedComplianceUser | undefined {
+    const row = this.db.prepare<[Address], ComplianceUserRow>('SELECT * FROM compliance_users WHERE user = ?').get(user)
+    return row ? mapComplianceUser(row) : undefined
+  }
+
+  /** What `ComplianceRegistry.getUsersByJurisdiction` cannot compute on-chain: KYC-verified users per jurisdiction. */
+  countUsersByJurisdiction(jurisdictionCode: bigint): number {
+    const row = this.db
+      .prepare('SELECT COUNT(*) AS count FROM compliance_users WHERE jurisdiction_code = ? AND kyc_verified = 1')
+      .get(Number(jurisdictionCode)) as { count: number }
+    return row.count
+  }
+}
+
+function mapVault(row: VaultRow): IndexedVault {
+  return {
+    vaultId: toBigInt(row.vault_id),
+    owner: row.owner,
+    collateralValue: toBigInt(row.collateral_value),
+    debtAmount: toBigInt(row.debt_amount),
+    status: row.status,
+    openedBlock: toBigInt(row.opened_block),
+    openedAt: toBigInt(row.opened_at),
+    updatedBlock: toBigInt(row.updated_block),
+    liquidator: row.liquidator,
+    liquidationPenalty: toOptionalBigInt(row.liquidation_penalty),
+  }
+}
+
+function mapTranchePosition(row: TranchePositionRow): IndexedTranchePosition {
+  return {
+    tranche: row.tranche,
+    user: row.user,
+    shares: toBigInt(row.shares),
+    deposited: toBigInt(row.deposited),
+    withdrawn: toBigInt(row.withdrawn),
+    yieldClaimed: toBigInt(row.yield_claimed),
+    yieldCompounded: toBigInt(row.yield_compounded),
+    firstDepositAt: toBigInt(row.first_deposit_at),
+    updatedBlock: toBigInt(row.updated_block),
+  }
+}
+
+function mapValuationRequest(row: ValuationRequestRow): IndexedValuationRequest {
+  return {
+    requestId: toBigInt(row.request_id),
+    policyNumber: row.policy_number,
+    requester: row.requester,
+    requestedBlock: toBigInt(row.requested_block),
+    requestedAt: toBigInt(row.requested_at),
+    responseCount: row.response_count,
+    agreedValue: toOptionalBigInt(row.agreed_value),
+    finalizedBlock: toOptionalBigInt(row.finalized_block),
+  }
+}
+
+function mapComplianceUser(row: ComplianceUserRow): IndexedComplianceUser {
+  return {
+    user: row.user,
+    kycVerified: row.kyc_verified === 1,
+    kycExpiry: toBigInt(row.kyc_expiry),
+    kycProvider: row.kyc_provider,
+    jurisdictionCode: toOptionalBigInt(row.jurisdiction_code),
+    accredited: row.accredited === 1,
+    accreditationExpiry: toBigInt(row.accreditation_expiry),
+    restricted: row.restricted === 1,
+    restrictionReason: row.restriction_reason,
+    lockupExpiry: toBigInt(row.lockup_expiry),
+    updatedBlock: toBigInt(row.updated_block),
+  }
+}
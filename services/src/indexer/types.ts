@@ -0,0 +1,113 @@
+import type { TrancheType } from '@iyield/sdk'
+import type { Address, Hex } from 'viem'
+import type { IndexedContract } from './events'
+
+/** Last block the indexer has fully processed. */
+export interface Checkpoint {
+  blockNumber: bigint
+  blockHash: Hex
+}
+
+export type VaultStatus = 'active' | 'closed' | 'liquidated'
+
+export interface IndexedVault {
+  vaultId: bigint
+  owner: Address
+  collateralValue: bigint
+  debtAmount: bigint
+  status: VaultStatus
+  openedBlock: bigint
+  openedAt: bigint
+  updatedBlock: bigint
+  liquidator: Address | null
+  liquidationPenalty: bigint | null
+}
+
+export interface IndexedTranchePosition {
+  tranche: TrancheType
+  user: Address
+  shares: bigint
+  deposited: bigint
+  withdrawn: bigint
+  yieldClaimed: bigint
+  /** Yield reinvested as shares with `compoundYield`, after the performance fee. */
+  yieldCompounded: bigint
+  firstDepositAt: bigint
+  updatedBlock: bigint
+}
+
+export interface IndexedYieldDistribution {
+  blockNumber: bigint
+  timestamp: bigint
+  transactionHash: Hex
+  totalYield: bigint
+  seniorYield: bigint
+  juniorYield: bigint
+  protocolFee: bigint
+}
+
+export interface IndexedValuationRequest {
+  requestId: bigint
+  policyNumber: string
+  requester: Address
+  requestedBlock: bigint
+  requestedAt: bigint
+  responseCount: number
+  agreedValue: bigint | null
+  finalizedBlock: bigint | null
+}
+
+export interface IndexedOracleResponse {
+  requestId: bigint
+  oracle: Address
+  value: bigint
+  blockNumber: bigint
+  submittedAt: bigint
+  transactionHash: Hex
+}
+
+export interface IndexedOracle {
+  address: Address
+  name: string
+  stakingAmount: bigint
+  rewardsEarned: bigint
+  slashedAmount: bigint
+  submissions: number
+  registeredBlock: bigint
+  isActive: boolean
+}
+
+export interface IndexedComplianceUser {
+  user: Address
+  kycVerified: boolean
+  kycExpiry: bigint
+  kycProvider: Address | null
+  jurisdictionCode: bigint | null
+  accredited: boolean
+  accreditationExpiry: bigint
+  restricted: boolean
+  restrictionReason: string | null
+  lockupExpiry: bigint
+  updatedBlock: bigint
+}
+
+export interface EventFilter {
+  contract?: IndexedContract
+  eventName?: string | string[]
+  fromBlock?: bigint
+  toBlock?: bigint
+  transactionHash?: Hex
+  /** Newest first when true. */
+  descending?: boolean
+  limit?: number
+}
+
+export interface VaultFilter {
+  owner?: Address
+  status?: VaultStatus
+}
+
+export interface ComplianceUserFilter {
+  jurisdictionCode?: bigint
+  restricted?: boolean
+}
@@ -0,0 +1,37 @@
+import { createPublicClient, createWalletClient, http, parseGwei } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { envAddress, envFlag, envNumber, envPrivateKey, getRpcUrl, optionalEnv } from '../shared/config'
+import { createLogger } from '../shared/logger'
+import { LiquidationKeeper } from './keeper'
+
+async function main() {
+  const logger = createLogger('keeper')
+  const transport = http(getRpcUrl())
+  const account = privateKeyToAccount(envPrivateKey('KEEPER_PRIVATE_KEY'))
+  const maxFeeGwei = optionalEnv('KEEPER_MAX_FEE_GWEI', '')
+  const maxPriorityFeeGwei = optionalEnv('KEEPER_MAX_PRIORITY_FEE_GWEI', '')
+
+  const keeper = new LiquidationKeeper({
+    publicClient: createPublicClient({ transport }),
+    walletClient: createWalletClient({ account, transport }),
+    vaultAddress: envAddress('CSV_VAULT_ADDRESS'),
+    dryRun: envFlag('KEEPER_DRY_RUN'),
+    startBlock: BigInt(envNumber('DEPLOYMENT_BLOCK', 0)),
+    gasLimit: BigInt(envNumber('KEEPER_GAS_LIMIT', 1_000_000)),
+    maxFeePerGas: maxFeeGwei ? parseGwei(maxFeeGwei) : undefined,
+    maxPriorityFeePerGas: maxPriorityFeeGwei ? parseGwei(maxPriorityFeeGwei) : undefined,
+    maxAttempts: envNumber('KEEPER_MAX_ATTEMPTS', 3),
+    retryDelayMs: envNumber('KEEPER_RETRY_DELAY_MS', 2000),
+    pollingInterval: envNumber('KEEPER_POLLING_INTERVAL_MS', 12_000),
+    logger,
+  })
+
+  process.once('SIGINT', () => keeper.stop())
+  process.once('SIGTERM', () => keeper.stop())
+  await keeper.start()
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
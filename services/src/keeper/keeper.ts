@@ -0,0 +1,261 @@
+import { ContractRevertError, CSVVaultClient, csvVaultAbi } from '@iyield/sdk'
+import type { Account, Address, Chain, Hash, PublicClient, Transport, WalletClient } from 'viem'
+import { errorReason } from '../shared/errors'
+import { silentLogger, type Logger } from '../shared/logger'
+import { sleep, withRetry } from '../shared/retry'
+import { assessVault, classifyTrigger, rankCandidates, type LiquidationTrigger, type VaultAssessment } from './risk'
+
+export interface KeeperOptions {
+  publicClient: PublicClient
+  /** Wallet holding `LIQUIDATOR_ROLE`; not needed in dry-run mode when `account` is given. */
+  walletClient?: WalletClient<Transport, Chain | undefined, Account | undefined>
+  /** Liquidator address, used for dry-run simulations; defaults to the wallet account. */
+  account?: Address
+  vaultAddress: Address
+  /** Simulate liquidations instead of sending them. */
+  dryRun?: boolean
+  /** First block scanned for `VaultOpened`, normally the deployment block. */
+  startBlock?: bigint
+  /** Blocks per `eth_getLogs` request while scanning vault events. */
+  batchSize?: bigint
+  /** Gas limit sent with each liquidation. */
+  gasLimit?: bigint
+  /** Liquidations are postponed while the network's max fee per gas is above this. */
+  maxFeePerGas?: bigint
+  maxPriorityFeePerGas?: bigint
+  /** Attempts per liquidation, including the first. */
+  maxAttempts?: number
+  /** Delay before the first retry, doubled per attempt. */
+  retryDelayMs?: number
+  pollingInterval?: number
+  logger?: Logger
+}
+
+export type LiquidationStatus = 'liquidated' | 'simulated' | 'skipped' | 'failed'
+
+export interface LiquidationResult {
+  vaultId: bigint
+  status: LiquidationStatus
+  trigger: LiquidationTrigger
+  expectedPenalty: bigint
+  hash?: Hash
+  attempts: number
+  /** Revert code or error message for `skipped` and `failed` results. */
+  reason?: string
+}
+
+export interface KeeperReport {
+  blockNumber: bigint
+  timestamp: bigint
+  /** Active vaults that were assessed. */
+  vaults: number
+  /** Liquidatable vaults, highest expected penalty first. */
+  candidates: VaultAssessment[]
+  results: LiquidationResult[]
+}
+
+/** Revert codes that retrying the same liquidation cannot fix. */
+const PERMANENT_CODES = new Set(['VAULT_NOT_LIQUIDATABLE', 'VAULT_NOT_FOUND', 'UNAUTHORIZED'])
+
+const isPermanent = (error: unknown) => error instanceof ContractRevertError && PERMANENT_CODES.has(error.code)
+
+/**
+ * Liquidates undercollateralized CSVVault positions.
+ *
+ * The keeper follows the vault's events to know which vaults are open, then on
+ * every pass re-reads each one and projects the stability fee that
+ * `liquidateVault` accrues before its LTV check, so vaults pushed over `maxLTV`
+ * by fees alone are caught as well as those hit by a lower valuation.
+ * Candidates are liquidated in order of expected penalty.
+ */
+export class LiquidationKeeper {
+  private readonly publicClient: PublicClient
+  private readonly vault: CSVVaultClient
+  private readonly account: Address | undefined
+  private readonly dryRun: boolean
+  private readonly startBlock: bigint
+  private readonly batchSize: bigint
+  private readonly gasLimit: bigint
+  private readonly maxFeePerGas: bigint | undefined
+  private readonly maxPriorityFeePerGas: bigint | undefined
+  private readonly maxAttempts: number
+  private readonly retryDelayMs: number
+  private readonly pollingInterval: number
+  private readonly logger: Logger
+  private readonly activeVaults = new Set<bigint>()
+  private scannedBlock: bigint | undefined
+  private running = false
+
+  constructor(options: KeeperOptions) {
+    this.publicClient = options.publicClient
+    this.vault = new CSVVaultClient({
+      address: options.vaultAddress,
+      publicClient: options.publicClient,
+      walletClient: options.walletClient,
+    })
+    this.account = options.account ?? options.walletClient?.account?.address
+    this.dryRun = options.dryRun ?? false
+    this.startBlock = options.startBlock ?? BigInt(0)
+    this.batchSize = options.batchSize ?? BigInt(2000)
+    this.gasLimit = options.gasLimit ?? BigInt(1_000_000)
+    this.maxFeePerGas = options.maxFeePerGas
+    this.maxPriorityFeePerGas = options.maxPriorityFeePerGas
+    this.maxAttempts = options.maxAttempts ?? 3
+    this.retryDelayMs = options.retryDelayMs ?? 2000
+    this.pollingInterval = options.pollingInterval ?? 12_000
+    this.logger = options.logger ?? silentLogger
+
+    if (!this.account) throw new Error('LiquidationKeeper: a wallet client or an account is required')
+    if (!this.dryRun && !options.walletClient) {
+      throw new Error('LiquidationKeeper: a wallet client is required unless running in dry-run mode')
+    }
+  }
+
+  /** One pass: refresh the vault set, assess every open vault and liquidate the candidates. */
+  async runOnce(): Promise<KeeperReport> {
+    const block = await this.publicClient.getBlock({ blockTag: 'latest' })
+    const revalued = await this.scanVaultEvents(block.number!)
+    const config = await this.vault.getVaultConfig()
+
+    const assessments: VaultAssessment[] = []
+    for (const vaultId of [...this.activeVaults].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))) {
+      const position = await this.vault.getVaultPosition(vaultId)
+      if (!position.isActive) {
+        this.activeVaults.delete(vaultId)
+        continue
+      }
+      assessments.push(assessVault(vaultId, position, config, block.timestamp))
+    }
+
+    const candidates = rankCandidates(assessments)
+    const results: LiquidationResult[] = []
+    for (const candidate of candidates) {
+      const trigger = classifyTrigger(candidate, config, revalued.has(candidate.vaultId))
+      this.logger.info('Vault is liquidatable', {
+        vaultId: candidate.vaultId,
+        trigger,
+        ltv: candidate.ltv,
+        maxLTV: config.maxLTV,
+        expectedPenalty: candidate.expectedPenalty,
+      })
+      const result = await this.liquidate(candidate, trigger)
+      if (result.status === 'liquidated') this.activeVaults.delete(candidate.vaultId)
+      results.push(result)
+    }
+
+    return { blockNumber: block.number!, timestamp: block.timestamp, vaults: assessments.length, candidates, results }
+  }
+
+  /** Runs passes until `stop()` is called. Errors are logged and retried on the next pass. */
+  async start(): Promise<void> {
+    this.running = true
+    this.logger.info('Keeper started', { account: this.account, dryRun: this.dryRun })
+    while (this.running) {
+      try {
+        const report = await this.runOnce()
+        for (const result of report.results) this.logger.info('Liquidation result', { ...result })
+      } catch (error) {
+        this.logger.error('Keeper pass failed', { error: errorReason(error) })
+      }
+      if (this.running) await sleep(this.pollingInterval)
+    }
+  }
+
+  stop(): void {
+    this.running = false
+  }
+
+  /**
+   * Applies vault events up to `toBlock` to the set of open vaults. Returns the
+   * vaults whose collateral was revalued in the scanned range.
+   */
+  private async scanVaultEvents(toBlock: bigint): Promise<Set<bigint>> {
+    const revalued = new Set<bigint>()
+    let from = this.scannedBlock === undefined ? this.startBlock : this.scannedBlock + BigInt(1)
+    while (from <= toBlock) {
+      const to = from + this.batchSize - BigInt(1) < toBlock ? from + this.batchSize - BigInt(1) : toBlock
+      const events = await this.publicClient.getContractEvents({
+        address: this.vault.address,
+        abi: csvVaultAbi,
+        fromBlock: from,
+        toBlock: to,
+      })
+      for (const event of events) {
+        switch (event.eventName) {
+          case 'VaultOpened':
+            this.activeVaults.add(event.args.vaultId!)
+            break
+          case 'VaultClosed':
+          case 'VaultLiquidated':
+            this.activeVaults.delete(event.args.vaultId!)
+            break
+          case 'CollateralValuationUpdated':
+            revalued.add(event.args.vaultId!)
+            break
+        }
+      }
+      this.scannedBlock = to
+      from = to + BigInt(1)
+    }
+    return revalued
+  }
+
+  private async liquidate(candidate: VaultAssessment, trigger: LiquidationTrigger): Promise<LiquidationResult> {
+    const base = { vaultId: candidate.vaultId, trigger, expectedPenalty: candidate.expectedPenalty }
+
+    if (this.dryRun) {
+      try {
+        await this.vault.liquidateVault(candidate.vaultId, { simulate: true, account: this.account })
+        return { ...base, status: 'simulated', attempts: 1 }
+      } catch (error) {
+        return { ...base, status: isPermanent(error) ? 'skipped' : 'failed', attempts: 1, reason: errorReason(error) }
+      }
+    }
+
+    const fees = await this.publicClient.estimateFeesPerGas()
+    if (this.maxFeePerGas !== undefined && fees.maxFeePerGas > this.maxFeePerGas) {
+      this.logger.warn('Gas price above cap, postponing liquidation', {
+        vaultId: candidate.vaultId,
+        maxFeePerGas: fees.maxFeePerGas,
+        cap: this.maxFeePerGas,
+      })
+      return { ...base, status: 'skipped', attempts: 0, reason: 'GAS_PRICE_ABOVE_CAP' }
+    }
+    const maxPriorityFeePerGas =
+      this.maxPriorityFeePerGas !== undefined && fees.maxPriorityFeePerGas > this.maxPriorityFeePerGas
+        ? this.maxPriorityFeePerGas
+        : fees.maxPriorityFeePerGas
+
+    let attempts = 0
+    try {
+      const hash = await withRetry(
+        async (attempt) => {
+          attempts = attempt
+          const { hash } = await this.vault.liquidateVault(candidate.vaultId, {
+            gas: this.gasLimit,
+            maxFeePerGas: fees.maxFeePerGas,
+            maxPriorityFeePerGas,
+          })
+          await this.vault.waitForTransaction(hash!)
+          return hash!
+        },
+        {
+          attempts: this.maxAttempts,
+          baseDelayMs: this.retryDelayMs,
+          shouldRetry: (error) => !isPermanent(error),
+          onRetry: (error, attempt, delayMs) =>
+            this.logger.warn('Liquidation attempt failed, retrying', {
+              vaultId: candidate.vaultId,
+              attempt,
+              delayMs,
+              error: errorReason(error),
+            }),
+        }
+      )
+      return { ...base, status: 'liquidated', hash, attempts }
+    } catch (error) {
+      // A vault that is no longer liquidatable was usually taken by another keeper or topped up meanwhile.
+      return { ...base, status: isPermanent(error) ? 'skipped' : 'failed', attempts, reason: errorReason(error) }
+    }
+  }
+}
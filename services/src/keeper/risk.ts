@@ -0,0 +1,74 @@
+import type { VaultConfig, VaultPosition } from '@iyield/sdk'
+
+export const BASIS_POINTS = BigInt(10000)
+export const SECONDS_PER_YEAR = BigInt(365 * 24 * 60 * 60)
+
+/** Why a vault became liquidatable, as far as the keeper can tell. */
+export type LiquidationTrigger = 'valuation' | 'stability-fee' | 'debt'
+
+export interface VaultAssessment {
+  vaultId: bigint
+  owner: VaultPosition['owner']
+  collateralValue: bigint
+  /** Debt as stored on-chain. */
+  debtAmount: bigint
+  /** Debt after the stability fee `liquidateVault` would accrue at `timestamp`. */
+  projectedDebt: bigint
+  /** Loan-to-value after accrual, in basis points. */
+  ltv: bigint
+  liquidatable: boolean
+  /** Penalty `liquidateVault` would charge: `collateralValue * liquidationPenalty / BASIS_POINTS`. */
+  expectedPenalty: bigint
+  /** The liquidator's half of the penalty. */
+  liquidatorReward: bigint
+}
+
+/** Stability fee `CSVVault._accrueStabilityFee` would add at `timestamp`, with the contract's rounding. */
+export function accruedStabilityFee(position: VaultPosition, config: VaultConfig, timestamp: bigint): bigint {
+  if (position.debtAmount === BigInt(0) || config.stabilityFee === BigInt(0)) return BigInt(0)
+  if (timestamp <= position.lastUpdateTimestamp) return BigInt(0)
+  const feeRate = (config.stabilityFee * (timestamp - position.lastUpdateTimestamp)) / SECONDS_PER_YEAR
+  return (position.debtAmount * feeRate) / BASIS_POINTS
+}
+
+/** Mirrors the checks of `CSVVault.liquidateVault` for a vault at `timestamp`. */
+export function assessVault(
+  vaultId: bigint,
+  position: VaultPosition,
+  config: VaultConfig,
+  timestamp: bigint
+): VaultAssessment {
+  const projectedDebt = position.debtAmount + accruedStabilityFee(position, config, timestamp)
+  const hasCollateral = position.collateralValue > BigInt(0)
+  const ltv = hasCollateral ? (projectedDebt * BASIS_POINTS) / position.collateralValue : BigInt(0)
+  const expectedPenalty = (position.collateralValue * config.liquidationPenalty) / BASIS_POINTS
+  return {
+    vaultId,
+    owner: position.owner,
+    collateralValue: position.collateralValue,
+    debtAmount: position.debtAmount,
+    projectedDebt,
+    ltv,
+    liquidatable: position.isActive && hasCollateral && ltv > config.maxLTV,
+    expectedPenalty,
+    liquidatorReward: expectedPenalty / BigInt(2),
+  }
+}
+
+/** Attributes a liquidatable vault to a fresh valuation, fee accrual alone, or debt already over the limit. */
+export function classifyTrigger(assessment: VaultAssessment, config: VaultConfig, revalued: boolean): LiquidationTrigger {
+  if (revalued) return 'valuation'
+  const storedLtv = (assessment.debtAmount * BASIS_POINTS) / assessment.collateralValue
+  return storedLtv > config.maxLTV ? 'debt' : 'stability-fee'
+}
+
+/** Orders candidates by expected penalty, then by LTV, then by vault ID so runs are reproducible. */
+export function rankCandidates(assessments: VaultAssessment[]): VaultAssessment[] {
+  return assessments
+    .filter((assessment) => assessment.liquidatable)
+    .sort((a, b) => {
+      if (a.expectedPenalty !== b.expectedPenalty) return a.expectedPenalty > b.expectedPenalty ? -1 : 1
+      if (a.ltv !== b.ltv) return a.ltv > b.ltv ? -1 : 1
+      return a.vaultId < b.vaultId ? -1 : a.vaultId > b.vaultId ? 1 : 0
+    })
+}
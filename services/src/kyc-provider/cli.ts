@@ -0,0 +1,65 @@
+import { readFileSync } from 'fs'
+import { createPublicClient, createWalletClient, getAddress, http } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { ConfigError, envAddress, envPrivateKey, getRpcUrl } from '../shared/config'
+import { createLogger } from '../shared/logger'
+import { MockKYCProvider, parseAttestation, relayKYCAttestation, serializeAttestation } from './provider'
+
+const usage = `Usage:
+  kyc-provider sign <user> <jurisdictionCode> [kycHash]     print a signed attestation as JSON
+  kyc-provider relay <file | ->                              relay a signed attestation
+  kyc-provider attest <user> <jurisdictionCode> [kycHash]   sign and relay`
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2)
+  const logger = createLogger('kyc-provider')
+  const transport = http(getRpcUrl())
+  const publicClient = createPublicClient({ transport })
+  const registryAddress = envAddress('COMPLIANCE_REGISTRY_ADDRESS')
+  const providerWallet = createWalletClient({
+    account: privateKeyToAccount(envPrivateKey('KYC_PROVIDER_PRIVATE_KEY')),
+    transport,
+  })
+  // Relaying is permissionless; the provider relays its own attestations unless a relayer is configured.
+  const relayerWallet = process.env.KYC_RELAYER_PRIVATE_KEY
+    ? createWalletClient({ account: privateKeyToAccount(envPrivateKey('KYC_RELAYER_PRIVATE_KEY')), transport })
+    : providerWallet
+
+  const sign = () => {
+    const [user, jurisdictionCode, kycHash] = args
+    if (!user || !jurisdictionCode) throw new ConfigError(usage)
+    const provider = new MockKYCProvider({ publicClient, walletClient: providerWallet, registryAddress, logger })
+    return provider.attest({
+      user: getAddress(user),
+      jurisdictionCode: BigInt(jurisdictionCode),
+      kycHash: kycHash ?? `mock-kyc:${getAddress(user)}`,
+    })
+  }
+
+  switch (command) {
+    case 'sign':
+      console.log(JSON.stringify(serializeAttestation(await sign()), null, 2))
+      break
+    case 'relay': {
+      const [file] = args
+      if (!file) throw new ConfigError(usage)
+      const signed = parseAttestation(JSON.parse(readFileSync(file === '-' ? 0 : file, 'utf8')))
+      const hash = await relayKYCAttestation(publicClient, relayerWallet, registryAddress, signed)
+      logger.info('Relayed KYC attestation', { user: signed.attestation.user, hash })
+      break
+    }
+    case 'attest': {
+      const signed = await sign()
+      const hash = await relayKYCAttestation(publicClient, relayerWallet, registryAddress, signed)
+      logger.info('Relayed KYC attestation', { user: signed.attestation.user, hash })
+      break
+    }
+    default:
+      throw new ConfigError(usage)
+  }
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
@@ -0,0 +1,153 @@
+import { randomBytes } from 'crypto'
+import {
+  ComplianceRegistryClient,
+  signKYCAttestation,
+  type KYCAttestation,
+} from '@iyield/sdk'
+import {
+  getAddress,
+  toHex,
+  type Account,
+  type Address,
+  type Chain,
+  type Hex,
+  type PublicClient,
+  type Transport,
+  type TypedDataDomain,
+  type WalletClient,
+} from 'viem'
+import { silentLogger, type Logger } from '../shared/logger'
+
+export interface SignedKYCAttestation {
+  attestation: KYCAttestation
+  signature: Hex
+  /** Account that signed, i.e. the provider the registry will credit. */
+  provider: Address
+}
+
+/** An attestation as JSON: amounts and timestamps as decimal strings. */
+export interface SignedKYCAttestationJSON {
+  attestation: { user: string; jurisdictionCode: string; expiry: string; kycHash: string; nonce: string }
+  signature: string
+  provider: string
+}
+
+export interface AttestationRequest {
+  user: Address
+  jurisdictionCode: bigint
+  /** Reference to the user's KYC documents, e.g. an IPFS hash. */
+  kycHash: string
+  /** Defaults to the registry's KYC validity period from now. */
+  expiry?: bigint
+}
+
+export interface MockKYCProviderOptions {
+  publicClient: PublicClient
+  /** Wallet of the provider, registered with `ComplianceRegistry.registerKYCProvider`. */
+  walletClient: WalletClient<Transport, Chain | undefined, Account>
+  /** ComplianceRegistry contract. */
+  registryAddress: Address
+  /** Signs for these jurisdictions only, like a real provider; defaults to those registered on-chain. */
+  jurisdictions?: bigint[]
+  logger?: Logger
+}
+
+/**
+ * Stand-in for an off-chain KYC provider in local networks and tests. It
+ * "verifies" every user it is asked about and signs an EIP-712 attestation
+ * for `ComplianceRegistry.submitKYCAttestation`, which anyone can relay.
+ */
+export class MockKYCProvider {
+  readonly address: Address
+  private readonly publicClient: PublicClient
+  private readonly walletClient: MockKYCProviderOptions['walletClient']
+  private readonly registry: ComplianceRegistryClient
+  private readonly jurisdictions: bigint[] | undefined
+  private readonly logger: Logger
+  private domain: TypedDataDomain | undefined
+
+  constructor(options: MockKYCProviderOptions) {
+    this.publicClient = options.publicClient
+    this.walletClient = options.walletClient
+    this.address = getAddress(options.walletClient.account.address)
+    this.registry = new ComplianceRegistryClient({
+      address: options.registryAddress,
+      publicClient: options.publicClient,
+    })
+    this.jurisdictions = options.jurisdictions
+    this.logger = options.logger ?? silentLogger
+  }
+
+  /** Signs an attestation with a fresh random nonce. */
+  async attest(request: AttestationRequest): Promise<SignedKYCAttestation> {
+    const supported = this.jurisdictions ?? (await this.registry.getKYCProvider(this.address)).supportedJurisdictions
+    if (!supported.includes(request.jurisdictionCode)) {
+      throw new Error(`Provider ${this.address} does not support jurisdiction ${request.jurisdictionCode}`)
+    }
+
+    const attestation: KYCAttestation = {
+      user: getAddress(request.user),
+      jurisdictionCode: request.jurisdictionCode,
+      expiry: request.expiry ?? (await this.defaultExpiry()),
+      kycHash: request.kycHash,
+      nonce: toHex(randomBytes(32)),
+    }
+    this.domain ??= await this.registry.getAttestationDomain()
+    const signature = await signKYCAttestation(this.walletClient, this.domain, attestation)
+
+    this.logger.info('Signed KYC attestation', { user: attestation.user, nonce: attestation.nonce })
+    return { attestation, signature, provider: this.address }
+  }
+
+  private async defaultExpiry(): Promise<bigint> {
+    const [{ timestamp }, { kycValidityPeriod }] = await Promise.all([
+      this.publicClient.getBlock(),
+      this.registry.getComplianceParameters(),
+    ])
+    return timestamp + kycValidityPeriod
+  }
+}
+
+/**
+ * Relays a signed attestation from `walletClient`, paying the provider's
+ * verification fee, and waits for it to be mined.
+ */
+export async function relayKYCAttestation(
+  publicClient: PublicClient,
+  walletClient: WalletClient<Transport, Chain | undefined, Account>,
+  registryAddress: Address,
+  { attestation, signature }: SignedKYCAttestation
+): Promise<Hex> {
+  const registry = new ComplianceRegistryClient({ address: registryAddress, publicClient, walletClient })
+  const { hash } = await registry.relayKYCAttestation(attestation, signature)
+  const receipt = await publicClient.waitForTransactionReceipt({ hash: hash! })
+  if (receipt.status !== 'success') throw new Error(`Attestation relay ${hash} reverted`)
+  return hash!
+}
+
+export function serializeAttestation({ attestation, signature, provider }: SignedKYCAttestation): SignedKYCAttestationJSON {
+  return {
+    attestation: {
+      ...attestation,
+      jurisdictionCode: attestation.jurisdictionCode.toString(),
+      expiry: attestation.expiry.toString(),
+    },
+    signature,
+    provider,
+  }
+}
+
+export function parseAttestation(json: SignedKYCAttestationJSON): SignedKYCAttestation {
+  const { attestation, signature, provider } = json
+  return {
+    attestation: {
+      user: getAddress(attestation.user),
+      jurisdictionCode: BigInt(attestation.jurisdictionCode),
+      expiry: BigInt(attestation.expiry),
+      kycHash: attestation.kycHash,
+      nonce: attestation.nonce as Hex,
+    },
+    signature: signature as Hex,
+    provider: getAddress(provider),
+  }
+}
@@ -0,0 +1,98 @@
+import { readFile } from 'fs/promises'
+import { join, resolve } from 'path'
+import { parseUnits } from 'viem'
+
+/** What the oracle is asked to value, taken from the `ValuationRequested` event and request. */
+export interface StatementQuery {
+  requestId: bigint
+  policyNumber: string
+  /** IPFS hash the requester attached to the request, if any. */
+  ipfsHash: string
+}
+
+/** A carrier's cash surrender value statement for one policy. */
+export interface CarrierStatement {
+  policyNumber: string
+  carrier: string
+  /** Cash surrender value with 18 decimals, the unit `submitValuation` expects. */
+  cashSurrenderValue: bigint
+  /** Date the carrier issued the statement, `YYYY-MM-DD`. */
+  statementDate: string
+  /** The statement as received, hashed into the proof so the value can be checked against it later. */
+  document: Uint8Array
+  /** Where the document can be retrieved, when the source has a stable location for it. */
+  documentURI?: string
+}
+
+/**
+ * Source of carrier statements. Implementations wrap a carrier API, a data
+ * vendor or a document store; the node only needs the parsed value and the
+ * raw document.
+ */
+export interface CarrierStatementAdapter {
+  readonly name: string
+  /** Returns the latest statement for the policy, or throws if none can be obtained. */
+  getStatement(query: StatementQuery): Promise<CarrierStatement>
+}
+
+/** Raised by adapters when they have no statement for a policy. */
+export class StatementNotFoundError extends Error {
+  constructor(readonly policyNumber: string, source: string) {
+    super(`No carrier statement for policy ${policyNumber} in ${source}`)
+    this.name = 'StatementNotFoundError'
+  }
+}
+
+interface StatementFile {
+  policyNumber?: string
+  carrier: string
+  /** Decimal string in dollars, e.g. `"125000.50"`. */
+  cashSurrenderValue: string
+  statementDate: string
+}
+
+/**
+ * Reads statements from `<directory>/<policyNumber>.json`, for local testing
+ * and for operators who receive statements as files:
+ *
+ * ```json
+ * { "carrier": "Acme Life", "cashSurrenderValue": "125000.50", "statementDate": "2026-09-30" }
+ * ```
+ */
+export class FileStatementAdapter implements CarrierStatementAdapter {
+  readonly name = 'file'
+  private readonly directory: string
+
+  constructor(directory: string) {
+    this.directory = resolve(directory)
+  }
+
+  async getStatement({ policyNumber }: StatementQuery): Promise<CarrierStatement> {
+    if (!/^[\w.-]+$/.test(policyNumber)) throw new StatementNotFoundError(policyNumber, this.directory)
+    const path = join(this.directory, `${policyNumber}.json`)
+
+    let document: Buffer
+    try {
+      document = await readFile(path)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') throw new StatementNotFoundError(policyNumber, this.directory)
+      throw error
+    }
+
+    const parsed = JSON.parse(document.toString('utf8')) as StatementFile
+    if (parsed.policyNumber !== undefined && parsed.policyNumber !== policyNumber) {
+      throw new Error(`${path} is for policy ${parsed.policyNumber}, not ${policyNumber}`)
+    }
+    if (!parsed.carrier || !parsed.cashSurrenderValue || !/^\d{4}-\d{2}-\d{2}$/.test(parsed.statementDate ?? '')) {
+      throw new Error(`${path} must contain carrier, cashSurrenderValue and statementDate (YYYY-MM-DD)`)
+    }
+
+    return {
+      policyNumber,
+      carrier: parsed.carrier,
+      cashSurrenderValue: parseUnits(parsed.cashSurrenderValue, 18),
+      statementDate: parsed.statementDate,
+      document: new Uint8Array(document),
+    }
+  }
+}
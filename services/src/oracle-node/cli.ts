@@ -0,0 +1,45 @@
+import { createPublicClient, createWalletClient, http } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { envAddress, envNumber, envPrivateKey, getRpcUrl, optionalEnv, requireEnv } from '../shared/config'
+import { createLogger } from '../shared/logger'
+import { FileStatementAdapter } from './adapters'
+import { OracleNode } from './node'
+import { createHealthServer } from './server'
+import { SubmissionStore } from './state'
+
+async function main() {
+  const logger = createLogger('oracle-node')
+  const transport = http(getRpcUrl())
+  const store = new SubmissionStore(optionalEnv('ORACLE_STATE_PATH', 'oracle-node.sqlite'))
+  const node = new OracleNode({
+    publicClient: createPublicClient({ transport }),
+    walletClient: createWalletClient({ account: privateKeyToAccount(envPrivateKey('ORACLE_PRIVATE_KEY')), transport }),
+    contractAddress: envAddress('CSV_ORACLE_ADDRESS'),
+    adapter: new FileStatementAdapter(requireEnv('ORACLE_STATEMENTS_DIR')),
+    store,
+    documentBaseURI: requireEnv('ORACLE_DOCUMENT_BASE_URI'),
+    startBlock: BigInt(envNumber('DEPLOYMENT_BLOCK', 0)),
+    deadlineMarginSeconds: BigInt(envNumber('ORACLE_DEADLINE_MARGIN_SECONDS', 300)),
+    maxAttempts: envNumber('ORACLE_MAX_ATTEMPTS', 3),
+    pollingInterval: envNumber('ORACLE_POLLING_INTERVAL_MS', 12_000),
+    logger,
+  })
+
+  const port = envNumber('ORACLE_HEALTH_PORT', 0)
+  const server = port ? createHealthServer(node).listen(port, () => logger.info(`Health on :${port}`)) : undefined
+
+  const shutdown = () => {
+    node.stop()
+    server?.close()
+  }
+  process.once('SIGINT', shutdown)
+  process.once('SIGTERM', shutdown)
+
+  await node.start()
+  store.close()
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
@@ -0,0 +1,6 @@
+export * from './adapters'
+export * from './metrics'
+export * from './node'
+export * from './proof'
+export * from './server'
+export * from './state'
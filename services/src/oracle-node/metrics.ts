@@ -0,0 +1,95 @@
+import type { SubmissionStatus } from './state'
+
+export type Counter =
+  | 'requestsSeen'
+  | 'requestsAssigned'
+  | 'commitsSent'
+  | 'commitsConfirmed'
+  | 'submissionsSent'
+  | 'submissionsConfirmed'
+  | 'submissionsFailed'
+  | 'deadlinesMissed'
+  | 'revealsMissed'
+  | 'adapterErrors'
+  | 'pollErrors'
+
+export interface HealthReport {
+  /** `ok`: polling and submitting; `degraded`: polling, but the last pass had failures; `down`: not polling. */
+  status: 'ok' | 'degraded' | 'down'
+  oracle: string
+  oracleActive: boolean | null
+  lastBlock: string | null
+  lastPollAt: string | null
+  lastSubmissionAt: string | null
+  uptimeSeconds: number
+  counters: Record<Counter, number>
+  submissions: Record<SubmissionStatus, number>
+}
+
+const descriptions: Record<Counter, string> = {
+  requestsSeen: 'ValuationRequested events seen',
+  requestsAssigned: 'Requests this oracle was assigned to',
+  commitsSent: 'commitValuation transactions broadcast',
+  commitsConfirmed: 'Commitments confirmed on-chain',
+  submissionsSent: 'revealValuation transactions broadcast',
+  submissionsConfirmed: 'Reveals confirmed on-chain',
+  submissionsFailed: 'Commit or reveal attempts that failed',
+  deadlinesMissed: 'Assigned requests whose deadline passed without a commitment',
+  revealsMissed: 'Commitments not revealed before the reveal period ended',
+  adapterErrors: 'Carrier statement adapter failures',
+  pollErrors: 'Polling passes that failed',
+}
+
+const snakeCase = (name: string) => name.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`)
+
+/** Counters and timestamps the node updates as it works; read by the health endpoint. */
+export class OracleMetrics {
+  readonly startedAt = Date.now()
+  readonly counters: Record<Counter, number> = {
+    requestsSeen: 0,
+    requestsAssigned: 0,
+    commitsSent: 0,
+    commitsConfirmed: 0,
+    submissionsSent: 0,
+    submissionsConfirmed: 0,
+    submissionsFailed: 0,
+    deadlinesMissed: 0,
+    revealsMissed: 0,
+    adapterErrors: 0,
+    pollErrors: 0,
+  }
+  lastBlock: bigint | null = null
+  lastPollAt: number | null = null
+  lastSubmissionAt: number | null = null
+  /** Whether the last pass completed without submission or adapter failures. */
+  lastPassClean = true
+  oracleActive: boolean | null = null
+
+  increment(counter: Counter, by = 1): void {
+    this.counters[counter] += by
+  }
+
+  /** Prometheus text exposition of the counters and gauges. */
+  toPrometheus(submissions: Record<SubmissionStatus, number>): string {
+    const lines: string[] = []
+    for (const [counter, value] of Object.entries(this.counters) as [Counter, number][]) {
+      const name = `iyield_oracle_${snakeCase(counter)}_total`
+      lines.push(`# HELP ${name} ${descriptions[counter]}`, `# TYPE ${name} counter`, `${name} ${value}`)
+    }
+    lines.push('# HELP iyield_oracle_submissions Requests in the local state, by status')
+    lines.push('# TYPE iyield_oracle_submissions gauge')
+    for (const [status, count] of Object.entries(submissions)) {
+      lines.push(`iyield_oracle_submissions{status="${status}"} ${count}`)
+    }
+    const gauges: [string, string, number | null][] = [
+      ['last_block', 'Last block scanned', this.lastBlock === null ? null : Number(this.lastBlock)],
+      ['last_poll_timestamp_seconds', 'Time of the last completed pass', this.lastPollAt && this.lastPollAt / 1000],
+      ['active', 'Whether the oracle is registered and active', this.oracleActive === null ? null : +this.oracleActive],
+    ]
+    for (const [name, help, value] of gauges) {
+      if (value === null) continue
+      lines.push(`# HELP iyield_oracle_${name} ${help}`, `# TYPE iyield_oracle_${name} gauge`, `iyield_oracle_${name} ${value}`)
+    }
+    return lines.join('\n') + '\n'
+  }
+}
@@ -0,0 +1,388 @@
+import {
+  ContractRevertError,
+  CSVOracleClient,
+  csvOracleAbi,
+  generateSalt,
+  matchesCommitment,
+  valuationCommitment,
+  type ConsensusConfig,
+  type ValuationRequest,
+} from '@iyield/sdk'
+import {
+  getAddress,
+  zeroHash,
+  type Account,
+  type Address,
+  type Chain,
+  type Hex,
+  type PublicClient,
+  type Transport,
+  type WalletClient,
+} from 'viem'
+import { errorReason } from '../shared/errors'
+import { silentLogger, type Logger } from '../shared/logger'
+import { sleep } from '../shared/retry'
+import type { CarrierStatementAdapter } from './adapters'
+import { OracleMetrics, type HealthReport } from './metrics'
+import { buildDocumentationURI, buildProofHash } from './proof'
+import type { Submission, SubmissionStore } from './state'
+
+export interface OracleNodeOptions {
+  publicClient: PublicClient
+  /** Wallet of the registered oracle operator. */
+  walletClient: WalletClient<Transport, Chain | undefined, Account>
+  /** CSVOracle contract. */
+  contractAddress: Address
+  adapter: CarrierStatementAdapter
+  store: SubmissionStore
+  /** Base of the `documentationURI` for statements the adapter has no location for. */
+  documentBaseURI: string
+  /** First block scanned for `ValuationRequested` on an empty store, normally the deployment block. */
+  startBlock?: bigint
+  batchSize?: bigint
+  /** Commitments are not attempted when fewer than this many seconds remain before the deadline. */
+  deadlineMarginSeconds?: bigint
+  /** Attempts per request, across passes, before it is left as `failed`. */
+  maxAttempts?: number
+  gasLimit?: bigint
+  pollingInterval?: number
+  logger?: Logger
+}
+
+export interface PassReport {
+  blockNumber: bigint
+  newRequests: number
+  processed: number
+  /** Requests this pass committed to. */
+  committed: bigint[]
+  /** Requests this pass revealed, putting our response on-chain. */
+  submitted: bigint[]
+}
+
+interface PassContext {
+  timestamp: bigint
+  config: ConsensusConfig
+  revealPeriod: bigint
+}
+
+/**
+ * Reference oracle operator for CSVOracle.
+ *
+ * Each pass records new `ValuationRequested` events in the local store, then
+ * works through the open requests: skips those this oracle is not assigned to
+ * or that are closed, reads the carrier statement and commits to the value
+ * before the deadline, then reveals it with its proof once the deadline has
+ * passed. The value and salt are stored before the commitment is sent, and
+ * the commitment and response already on-chain and the transaction hash kept
+ * in the store are all checked before sending, so a request is never
+ * committed or revealed twice, including across restarts.
+ */
+export class OracleNode {
+  readonly metrics = new OracleMetrics()
+  private readonly publicClient: PublicClient
+  private readonly oracle: CSVOracleClient
+  /** The operator account, as registered with `registerOracle`. */
+  private readonly oracleAddress: Address
+  private readonly adapter: CarrierStatementAdapter
+  private readonly store: SubmissionStore
+  private readonly documentBaseURI: string
+  private readonly startBlock: bigint
+  private readonly batchSize: bigint
+  private readonly deadlineMarginSeconds: bigint
+  private readonly maxAttempts: number
+  private readonly gasLimit: bigint | undefined
+  private readonly pollingInterval: number
+  private readonly logger: Logger
+  private running = false
+
+  constructor(options: OracleNodeOptions) {
+    this.publicClient = options.publicClient
+    this.oracleAddress = getAddress(options.walletClient.account.address)
+    this.oracle = new CSVOracleClient({
+      address: options.contractAddress,
+      publicClient: options.publicClient,
+      walletClient: options.walletClient,
+    })
+    this.adapter = options.adapter
+    this.store = options.store
+    this.documentBaseURI = options.documentBaseURI
+    this.startBlock = options.startBlock ?? BigInt(0)
+    this.batchSize = options.batchSize ?? BigInt(2000)
+    this.deadlineMarginSeconds = options.deadlineMarginSeconds ?? BigInt(300)
+    this.maxAttempts = options.maxAttempts ?? 3
+    this.gasLimit = options.gasLimit
+    this.pollingInterval = options.pollingInterval ?? 12_000
+    this.logger = options.logger ?? silentLogger
+  }
+
+  async runOnce(): Promise<PassReport> {
+    const block = await this.publicClient.getBlock({ blockTag: 'latest' })
+    const newRequests = await this.scanRequests(block.number!)
+    const [config, { revealPeriod }] = await Promise.all([this.oracle.getConsensusConfig(), this.oracle.getRevealConfig()])
+    const context = { timestamp: block.timestamp, config, revealPeriod }
+    this.metrics.oracleActive = (await this.oracle.getOracleInfo(this.oracleAddress)).isActive
+
+    const open = this.store.listOpen().filter((item) => item.status !== 'failed' || item.attempts < this.maxAttempts)
+    const committed: bigint[] = []
+    const submitted: bigint[] = []
+    let clean = true
+    for (const submission of open) {
+      try {
+        const outcome = await this.process(submission, context)
+        if (outcome === 'committed') committed.push(submission.requestId)
+        if (outcome === 'revealed') submitted.push(submission.requestId)
+      } catch (error) {
+        clean = false
+        this.store.markFailed(submission.requestId, errorReason(error))
+        this.logger.error('Request failed', { requestId: submission.requestId, error: errorReason(error) })
+      }
+      if (this.store.get(submission.requestId)?.status === 'failed') clean = false
+    }
+
+    this.metrics.lastBlock = block.number!
+    this.metrics.lastPollAt = Date.now()
+    this.metrics.lastPassClean = clean
+    return { blockNumber: block.number!, newRequests, processed: open.length, committed, submitted }
+  }
+
+  async start(): Promise<void> {
+    this.running = true
+    this.logger.info('Oracle node started', { oracle: this.oracleAddress, adapter: this.adapter.name })
+    while (this.running) {
+      try {
+        const report = await this.runOnce()
+        if (report.newRequests > 0 || report.committed.length > 0 || report.submitted.length > 0) {
+          this.logger.info('Pass complete', { ...report })
+        }
+      } catch (error) {
+        this.metrics.increment('pollErrors')
+        this.logger.error('Pass failed', { error: errorReason(error) })
+      }
+      if (this.running) await sleep(this.pollingInterval)
+    }
+  }
+
+  stop(): void {
+    this.running = false
+  }
+
+  health(): HealthReport {
+    const { metrics } = this
+    const stale = metrics.lastPollAt === null || Date.now() - metrics.lastPollAt > 3 * this.pollingInterval
+    return {
+      status: stale ? 'down' : metrics.lastPassClean && metrics.oracleActive !== false ? 'ok' : 'degraded',
+      oracle: this.oracleAddress,
+      oracleActive: metrics.oracleActive,
+      lastBlock: metrics.lastBlock === null ? null : metrics.lastBlock.toString(),
+      lastPollAt: metrics.lastPollAt === null ? null : new Date(metrics.lastPollAt).toISOString(),
+      lastSubmissionAt: metrics.lastSubmissionAt === null ? null : new Date(metrics.lastSubmissionAt).toISOString(),
+      uptimeSeconds: Math.floor((Date.now() - metrics.startedAt) / 1000),
+      counters: { ...metrics.counters },
+      submissions: this.store.countByStatus(),
+    }
+  }
+
+  prometheus(): string {
+    return this.metrics.toPrometheus(this.store.countByStatus())
+  }
+
+  private async scanRequests(toBlock: bigint): Promise<number> {
+    const lastBlock = this.store.getLastBlock()
+    let from = lastBlock === undefined ? this.startBlock : lastBlock + BigInt(1)
+    let count = 0
+    while (from <= toBlock) {
+      const to = from + this.batchSize - BigInt(1) < toBlock ? from + this.batchSize - BigInt(1) : toBlock
+      const events = await this.publicClient.getContractEvents({
+        address: this.oracle.address,
+        abi: csvOracleAbi,
+        eventName: 'ValuationRequested',
+        fromBlock: from,
+        toBlock: to,
+      })
+      const requests = events.map((event) => ({
+        requestId: event.args.requestId!,
+        policyNumber: event.args.policyNumber!,
+        blockNumber: event.blockNumber!,
+      }))
+      this.store.recordRequests(requests, to)
+      this.metrics.increment('requestsSeen', requests.length)
+      count += requests.length
+      from = to + BigInt(1)
+    }
+    return count
+  }
+
+  /** Moves one request forward by at most one transaction: its commitment or its reveal. */
+  private async process(
+    submission: Submission,
+    { timestamp, config, revealPeriod }: PassContext
+  ): Promise<'committed' | 'revealed' | undefined> {
+    const { requestId } = submission
+
+    const response = await this.oracle.getOracleResponse(requestId, this.oracleAddress)
+    if (response.timestamp > BigInt(0)) {
+      this.store.markSubmitted(requestId)
+      return undefined
+    }
+
+    const commitment = await this.oracle.getCommitment(requestId, this.oracleAddress)
+    if (commitment === zeroHash) {
+      if (submission.status === 'sent' && !(await this.canResend(submission))) return undefined
+    } else if (submission.status === 'sent') {
+      this.store.markCommitted(requestId)
+    } else if (submission.status === 'revealing' && !(await this.canResend(submission))) {
+      return undefined
+    }
+
+    const request = await this.oracle.getValuationRequest(requestId)
+    if (request.requestId !== requestId || !request.isActive || request.isFinalized) {
+      this.store.markDone(requestId, 'closed', request.isFinalized ? 'finalized' : 'inactive')
+      return undefined
+    }
+
+    if (commitment !== zeroHash) {
+      return this.reveal(submission, request, commitment, timestamp, revealPeriod)
+    }
+
+    if (submission.attempts === 0) {
+      const assigned = await this.oracle.getAssignedOracles(requestId)
+      if (!assigned.some((oracle) => getAddress(oracle) === this.oracleAddress)) {
+        this.store.markDone(requestId, 'not-assigned')
+        return undefined
+      }
+      if (submission.status === 'new') this.metrics.increment('requestsAssigned')
+    }
+
+    const responseDeadline = request.timestamp + config.responsePeriod
+    const deadline = request.deadline < responseDeadline ? request.deadline : responseDeadline
+    if (timestamp + this.deadlineMarginSeconds > deadline) {
+      this.metrics.increment('deadlinesMissed')
+      this.store.markDone(requestId, 'expired', `deadline ${deadline}`)
+      this.logger.warn('Deadline too close, not committing', { requestId, deadline })
+      return undefined
+    }
+
+    let statement
+    try {
+      statement = await this.adapter.getStatement({ requestId, policyNumber: request.policyNumber, ipfsHash: request.ipfsHash })
+    } catch (error) {
+      this.metrics.increment('adapterErrors')
+      throw error
+    }
+    const value = statement.cashSurrenderValue
+    if (value <= BigInt(0)) throw new Error(`Statement for ${request.policyNumber} has no cash surrender value`)
+    const proofHash = buildProofHash(this.oracleAddress, requestId, value, statement)
+    const documentationURI = buildDocumentationURI(statement, proofHash, this.documentBaseURI)
+    const salt = generateSalt()
+
+    this.store.markAttempt(requestId, { value, proofHash, documentationURI, salt })
+    try {
+      const { hash } = await this.oracle.commitValuation(
+        requestId,
+        valuationCommitment({ requestId, oracle: this.oracleAddress, value, salt }),
+        { gas: this.gasLimit }
+      )
+      this.store.markSent(requestId, hash!)
+      this.metrics.increment('commitsSent')
+      this.logger.info('Valuation committed', { requestId, value, transactionHash: hash })
+      await this.oracle.waitForTransaction(hash!)
+    } catch (error) {
+      return this.handleSubmitError(requestId, error)
+    }
+
+    this.store.markCommitted(requestId)
+    this.metrics.increment('commitsConfirmed')
+    return 'committed'
+  }
+
+  /** Reveals the stored value and salt once the deadline has passed. */
+  private async reveal(
+    submission: Submission,
+    request: ValuationRequest,
+    commitment: Hex,
+    timestamp: bigint,
+    revealPeriod: bigint
+  ): Promise<'revealed' | undefined> {
+    const { requestId } = submission
+    if (timestamp <= request.deadline) return undefined
+    if (timestamp > request.deadline + revealPeriod) {
+      this.metrics.increment('revealsMissed')
+      this.store.markDone(requestId, 'expired', 'reveal period over')
+      this.logger.warn('Reveal period over, commitment not revealed', { requestId })
+      return undefined
+    }
+
+    const { value, salt, proofHash, documentationURI } = submission
+    if (
+      value === null ||
+      salt === null ||
+      !matchesCommitment(commitment, { requestId, oracle: this.oracleAddress, value, salt })
+    ) {
+      // Another process committed for this operator, or the local state was lost
+      this.metrics.increment('revealsMissed')
+      this.store.markDone(requestId, 'expired', 'commitment does not match the stored value and salt')
+      this.logger.error('Cannot reveal commitment', { requestId, commitment })
+      return undefined
+    }
+
+    this.store.markRevealAttempt(requestId)
+    try {
+      const { hash } = await this.oracle.revealValuation(requestId, value, salt, proofHash!, documentationURI!, {
+        gas: this.gasLimit,
+      })
+      this.store.markRevealing(requestId, hash!)
+      this.metrics.increment('submissionsSent')
+      this.logger.info('Valuation revealed', { requestId, value, proofHash, transactionHash: hash })
+      await this.oracle.waitForTransaction(hash!)
+    } catch (error) {
+      return this.handleSubmitError(requestId, error)
+    }
+
+    this.store.markSubmitted(requestId)
+    this.metrics.increment('submissionsConfirmed')
+    this.metrics.lastSubmissionAt = Date.now()
+    return 'revealed'
+  }
+
+  /**
+   * For a request whose transaction was broadcast but is not reflected
+   * on-chain: false while that transaction may still be mined, true once it
+   * has reverted or been dropped.
+   */
+  private async canResend(submission: Submission): Promise<boolean> {
+    const hash = submission.transactionHash!
+    const receipt = await this.publicClient.getTransactionReceipt({ hash }).catch(() => undefined)
+    if (receipt) return receipt.status === 'reverted'
+    const pending = await this.publicClient.getTransaction({ hash }).catch(() => undefined)
+    return pending === undefined
+  }
+
+  private handleSubmitError(requestId: bigint, error: unknown): undefined {
+    if (error instanceof ContractRevertError) {
+      switch (error.code) {
+        case 'ALREADY_SUBMITTED':
+          this.store.markSubmitted(requestId)
+          return undefined
+        case 'REVEAL_PERIOD_NOT_STARTED':
+          this.store.markCommitted(requestId)
+          return undefined
+        case 'DEADLINE_PASSED':
+          this.metrics.increment('deadlinesMissed')
+          this.store.markDone(requestId, 'expired', error.code)
+          return undefined
+        case 'REVEAL_PERIOD_OVER':
+          this.metrics.increment('revealsMissed')
+          this.store.markDone(requestId, 'expired', error.code)
+          return undefined
+        case 'ORACLE_NOT_ASSIGNED':
+          this.store.markDone(requestId, 'not-assigned')
+          return undefined
+        case 'REQUEST_NOT_ACTIVE':
+          this.store.markDone(requestId, 'closed', error.code)
+          return undefined
+      }
+    }
+    this.metrics.increment('submissionsFailed')
+    throw error
+  }
+}
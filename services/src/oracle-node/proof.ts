@@ -0,0 +1,34 @@
+import { encodeAbiParameters, keccak256, type Address, type Hex } from 'viem'
+import type { CarrierStatement } from './adapters'
+
+/**
+ * Commitment submitted as `proofHash`: binds the oracle, the request, the
+ * value and the exact statement document it was read from. Anyone holding the
+ * document can recompute it; a copied submission does not match another
+ * oracle's address.
+ */
+export function buildProofHash(oracle: Address, requestId: bigint, value: bigint, statement: CarrierStatement): Hex {
+  return keccak256(
+    encodeAbiParameters(
+      [
+        { name: 'oracle', type: 'address' },
+        { name: 'requestId', type: 'uint256' },
+        { name: 'policyNumber', type: 'string' },
+        { name: 'value', type: 'uint256' },
+        { name: 'statementDate', type: 'string' },
+        { name: 'documentHash', type: 'bytes32' },
+      ],
+      [oracle, requestId, statement.policyNumber, value, statement.statementDate, keccak256(statement.document)]
+    )
+  )
+}
+
+/**
+ * `documentationURI` for a submission: the adapter's location for the
+ * statement when it has one, otherwise `<baseURI>/<policyNumber>/<proofHash>`,
+ * where the operator publishes the documents it has hashed.
+ */
+export function buildDocumentationURI(statement: CarrierStatement, proofHash: Hex, baseURI: string): string {
+  if (statement.documentURI) return statement.documentURI
+  return `${baseURI.replace(/\/+$/, '')}/${encodeURIComponent(statement.policyNumber)}/${proofHash}`
+}
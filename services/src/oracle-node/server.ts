@@ -0,0 +1,23 @@
+import { createServer, type Server } from 'http'
+import type { OracleNode } from './node'
+
+/**
+ * `GET /health` (JSON; 503 while the node is down) and `GET /metrics`
+ * (Prometheus text) for the node's supervisor and monitoring.
+ */
+export function createHealthServer(node: OracleNode): Server {
+  return createServer((request, response) => {
+    const { pathname } = new URL(request.url ?? '/', 'http://localhost')
+    if (request.method === 'GET' && pathname === '/health') {
+      const health = node.health()
+      response.writeHead(health.status === 'down' ? 503 : 200, { 'content-type': 'application/json' })
+      response.end(JSON.stringify(health))
+    } else if (request.method === 'GET' && pathname === '/metrics') {
+      response.writeHead(200, { 'content-type': 'text/plain; version=0.0.4' })
+      response.end(node.prometheus())
+    } else {
+      response.writeHead(404, { 'content-type': 'application/json' })
+      response.end(JSON.stringify({ error: 'Not found' }))
+    }
+  })
+}
@@ -0,0 +1,243 @@
+import Database from 'better-sqlite3'
+import type { Hex } from 'viem'
+
+/**
+ * Where the node stands on a request:
+ * - `new`: seen, not yet acted on
+ * - `sent`: commitment broadcast, receipt pending
+ * - `committed`: commitment on-chain, waiting for the reveal period
+ * - `revealing`: reveal broadcast, receipt pending
+ * - `submitted`: our response is on-chain
+ * - `failed`: the last attempt failed; retried until the attempt limit
+ * - `not-assigned`, `expired`, `closed`: nothing (more) to do
+ */
+export type SubmissionStatus =
+  | 'new'
+  | 'sent'
+  | 'committed'
+  | 'revealing'
+  | 'submitted'
+  | 'failed'
+  | 'not-assigned'
+  | 'expired'
+  | 'closed'
+
+export interface Submission {
+  requestId: bigint
+  policyNumber: string
+  requestedBlock: bigint
+  status: SubmissionStatus
+  attempts: number
+  value: bigint | null
+  proofHash: Hex | null
+  documentationURI: string | null
+  /** Salt of the commitment; the value cannot be revealed without it. */
+  salt: Hex | null
+  transactionHash: Hex | null
+  error: string | null
+  updatedAt: number
+}
+
+const schema = `
+CREATE TABLE IF NOT EXISTS meta (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS submissions (
+  request_id INTEGER PRIMARY KEY,
+  policy_number TEXT NOT NULL,
+  requested_block INTEGER NOT NULL,
+  status TEXT NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  value TEXT,
+  proof_hash TEXT,
+  documentation_uri TEXT,
+  salt TEXT,
+  transaction_hash TEXT,
+  error TEXT,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS submissions_status ON submissions (status);
+`
+
+/** A `submissions` row as better-sqlite3 returns it. */
+interface SubmissionRow {
+  request_id: number
+  policy_number: string
+  requested_block: number
+  status: SubmissionStatus
+  attempts: number
+  value: string | null
+  proof_hash: Hex | null
+  documentation_uri: string | null
+  salt: Hex | null
+  transaction_hash: Hex | null
+  error: string | null
+  updated_at: number
+}
+
+const OPEN_STATUSES: SubmissionStatus[] = ['new', 'sent', 'committed', 'revealing', 'failed']
+
+/**
+ * The node's local record of every request it has seen and what it did about
+ * it. The value and salt are stored before a commitment is broadcast, so a
+ * restarted node can still reveal it, and a transaction hash as soon as one
+ * is broadcast, so it checks that transaction instead of sending another.
+ */
+export class SubmissionStore {
+  readonly db: Database.Database
+
+  constructor(filename = ':memory:') {
+    this.db = new Database(filename)
+    this.db.pragma('journal_mode = WAL')
+    this.db.exec(schema)
+    // Stores created before commit-reveal have no salt column
+    const columns = this.db.prepare('PRAGMA table_info(submissions)').all() as { name: string }[]
+    if (!columns.some((column) => column.name === 'salt')) this.db.exec('ALTER TABLE submissions ADD COLUMN salt TEXT')
+  }
+
+  close(): void {
+    this.db.close()
+  }
+
+  /** Last block scanned for `ValuationRequested`. */
+  getLastBlock(): bigint | undefined {
+    const row = this.db.prepare("SELECT value FROM meta WHERE key = 'last_block'").get() as { value: string } | undefined
+    return row ? BigInt(row.value) : undefined
+  }
+
+  /** Records newly seen requests together with the scanned block, atomically. */
+  recordRequests(requests: { requestId: bigint; policyNumber: string; blockNumber: bigint }[], lastBlock: bigint): void {
+    const insert = this.db.prepare(
+      `INSERT OR IGNORE INTO submissions (request_id, policy_number, requested_block, status, updated_at)
+       VALUES (?, ?, ?, 'new', ?)`
+    )
+    this.db.transaction(() => {
+      for (const request of requests) {
+        insert.run(Number(request.requestId), request.policyNumber, Number(request.blockNumber), Date.now())
+      }
+      this.db
+        .prepare("INSERT INTO meta (key, value) VALUES ('last_block', ?) ON CONFLICT (key) DO UPDATE SET value = ?")
+        .run(lastBlock.toString(), lastBlock.toString())
+    })()
+  }
+
+  get(requestId: bigint): Submission | undefined {
+    const row = this.db
+      .prepare<[number], SubmissionRow>('SELECT * FROM submissions WHERE request_id = ?')
+      .get(Number(requestId))
+    return row ? toSubmission(row) : undefined
+  }
+
+  /** Requests still needing work, oldest first. */
+  listOpen(): Submission[] {
+    const rows = this.db
+      .prepare<SubmissionStatus[], SubmissionRow>(
+        `SELECT * FROM submissions WHERE status IN (${OPEN_STATUSES.map(() => '?').join(', ')}) ORDER BY request_id`
+      )
+      .all(...OPEN_STATUSES)
+    return rows.map(toSubmission)
+  }
+
+  list(status?: SubmissionStatus): Submission[] {
+    const rows = status
+      ? this.db
+          .prepare<[SubmissionStatus], SubmissionRow>('SELECT * FROM submissions WHERE status = ? ORDER BY request_id')
+          .all(status)
+      : this.db.prepare<[], SubmissionRow>('SELECT * FROM submissions ORDER BY request_id').all()
+    return rows.map(toSubmission)
+  }
+
+  countByStatus(): Record<SubmissionStatus, number> {
+    const counts: Record<SubmissionStatus, number> = {
+      new: 0,
+      sent: 0,
+      committed: 0,
+      revealing: 0,
+      submitted: 0,
+      failed: 0,
+      'not-assigned': 0,
+      expired: 0,
+      closed: 0,
+    }
+    const rows = this.db.prepare('SELECT status, COUNT(*) AS count FROM submissions GROUP BY status').all() as {
+      status: SubmissionStatus
+      count: number
+    }[]
+    for (const row of rows) counts[row.status] = row.count
+    return counts
+  }
+
+  /**
+   * Saves the response about to be committed; called before sending so the
+   * attempt is counted, and the salt kept for the reveal, even on a crash.
+   */
+  markAttempt(
+    requestId: bigint,
+    details: { value: bigint; proofHash: Hex; documentationURI: string; salt: Hex }
+  ): void {
+    this.db
+      .prepare(
+        `UPDATE submissions SET attempts = attempts + 1, value = ?, proof_hash = ?, documentation_uri = ?, salt = ?,
+           error = NULL, updated_at = ? WHERE request_id = ?`
+      )
+      .run(details.value.toString(), details.proofHash, details.documentationURI, details.salt, Date.now(), Number(requestId))
+  }
+
+  /** Counts a reveal attempt against the same limit as commitments; called before sending. */
+  markRevealAttempt(requestId: bigint): void {
+    this.db
+      .prepare('UPDATE submissions SET attempts = attempts + 1, error = NULL, updated_at = ? WHERE request_id = ?')
+      .run(Date.now(), Number(requestId))
+  }
+
+  markSent(requestId: bigint, transactionHash: Hex): void {
+    this.update(requestId, 'sent', { transaction_hash: transactionHash })
+  }
+
+  markCommitted(requestId: bigint): void {
+    this.update(requestId, 'committed', {})
+  }
+
+  markRevealing(requestId: bigint, transactionHash: Hex): void {
+    this.update(requestId, 'revealing', { transaction_hash: transactionHash })
+  }
+
+  markSubmitted(requestId: bigint): void {
+    this.update(requestId, 'submitted', {})
+  }
+
+  markFailed(requestId: bigint, error: string): void {
+    this.update(requestId, 'failed', { error })
+  }
+
+  markDone(requestId: bigint, status: 'not-assigned' | 'expired' | 'closed', reason?: string): void {
+    this.update(requestId, status, { error: reason ?? null })
+  }
+
+  private update(requestId: bigint, status: SubmissionStatus, fields: Record<string, string | null>): void {
+    const assignments = Object.keys(fields).map((column) => `, ${column} = @${column}`).join('')
+    this.db
+      .prepare(`UPDATE submissions SET status = @status, updated_at = @updated_at${assignments} WHERE request_id = @id`)
+      .run({ ...fields, status, updated_at: Date.now(), id: Number(requestId) })
+  }
+}
+
+function toSubmission(row: SubmissionRow): Submission {
+  return {
+    requestId: BigInt(row.request_id),
+    policyNumber: row.policy_number,
+    requestedBlock: BigInt(row.requested_block),
+    status: row.status,
+    attempts: row.attempts,
+    value: row.value === null ? null : BigInt(row.value),
+    proofHash: row.proof_hash,
+    documentationURI: row.documentation_uri,
+    salt: row.salt,
+    transactionHash: row.transaction_hash,
+    error: row.error,
+    updatedAt: row.updated_at,
+  }
+}
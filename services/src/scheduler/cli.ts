@@ -0,0 +1,40 @@
+import { createPublicClient, createWalletClient, http, parseEther } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { envAddress, envFlag, envNumber, envPrivateKey, getRpcUrl, optionalEnv, requireEnv } from '../shared/config'
+import { createLogger } from '../shared/logger'
+import { ValuationScheduler } from './scheduler'
+
+const DAY = 24 * 60 * 60
+
+async function main() {
+  const logger = createLogger('scheduler')
+  const transport = http(getRpcUrl())
+  const account = privateKeyToAccount(envPrivateKey('SCHEDULER_PRIVATE_KEY'))
+  const responseWindow = optionalEnv('SCHEDULER_RESPONSE_WINDOW_SECONDS', '')
+
+  const scheduler = new ValuationScheduler({
+    publicClient: createPublicClient({ transport }),
+    walletClient: createWalletClient({ account, transport }),
+    vaultAddress: envAddress('CSV_VAULT_ADDRESS'),
+    tokenAddress: envAddress('ERCRWACSV_ADDRESS'),
+    oracleAddress: envAddress('CSV_ORACLE_ADDRESS'),
+    budget: parseEther(requireEnv('SCHEDULER_BUDGET_ETH')),
+    leadTime: BigInt(envNumber('SCHEDULER_LEAD_TIME_SECONDS', 14 * DAY)),
+    responseWindow: responseWindow ? BigInt(responseWindow) : undefined,
+    dryRun: envFlag('SCHEDULER_DRY_RUN'),
+    startBlock: BigInt(envNumber('DEPLOYMENT_BLOCK', 0)),
+    maxAttempts: envNumber('SCHEDULER_MAX_ATTEMPTS', 3),
+    retryDelayMs: envNumber('SCHEDULER_RETRY_DELAY_MS', 2000),
+    pollingInterval: envNumber('SCHEDULER_POLLING_INTERVAL_MS', 60_000),
+    logger,
+  })
+
+  process.once('SIGINT', () => scheduler.stop())
+  process.once('SIGTERM', () => scheduler.stop())
+  await scheduler.start()
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
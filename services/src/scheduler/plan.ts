@@ -0,0 +1,69 @@
+import { valuationStaleness, type ValuationRequest } from '@iyield/sdk'
+
+/** An open vault and when its collateral was last valued (`CSVVault.collateralValuedAt`). */
+export interface VaultValuation {
+  vaultId: bigint
+  tokenId: bigint
+  /** `CSVMetadata.policyNumber` of the vault's token, which revaluations are requested for. */
+  policyNumber: string
+  valuedAt: bigint
+}
+
+export interface RevaluationCandidate extends VaultValuation {
+  /** Last timestamp at which the vault can still mint and close. */
+  freshUntil: bigint
+  /** Seconds until the valuation goes stale; zero once it has. */
+  remaining: bigint
+  stale: boolean
+}
+
+/**
+ * Where the policy's latest oracle request stands relative to the vault's valuation:
+ *
+ * - `none`: no request since the vault was valued
+ * - `pending`: requested and still open for commits or reveals
+ * - `finalized`: agreed on, but not yet written to the vault (still in its
+ *   dispute period, held by the relay's circuit breaker, disputed, or the
+ *   policy is not bound)
+ * - `expired`: the reveal period ended without consensus
+ */
+export type RequestState = 'none' | 'pending' | 'finalized' | 'expired'
+
+/**
+ * Vaults whose valuation goes stale within `leadTime` of `now`, or already
+ * has, soonest first. A policy backs a single token, so each policy is
+ * listed once, for its most urgent vault.
+ */
+export function planRevaluations(
+  vaults: readonly VaultValuation[],
+  maxValuationAge: bigint,
+  leadTime: bigint,
+  now: bigint
+): RevaluationCandidate[] {
+  const byPolicy = new Map<string, RevaluationCandidate>()
+  for (const vault of vaults) {
+    const { freshUntil, remaining, stale } = valuationStaleness(vault.valuedAt, maxValuationAge, now)
+    if (remaining > leadTime) continue
+    const current = byPolicy.get(vault.policyNumber)
+    if (current && current.freshUntil <= freshUntil) continue
+    byPolicy.set(vault.policyNumber, { ...vault, freshUntil, remaining, stale })
+  }
+  return Array.from(byPolicy.values()).sort((a, b) =>
+    a.freshUntil !== b.freshUntil ? (a.freshUntil < b.freshUntil ? -1 : 1) : a.vaultId < b.vaultId ? -1 : 1
+  )
+}
+
+/**
+ * Classifies the policy's latest request. Requests made before `valuedAt`
+ * are already reflected in the vault's valuation and count as `none`.
+ */
+export function requestState(
+  request: ValuationRequest | undefined,
+  valuedAt: bigint,
+  revealPeriod: bigint,
+  now: bigint
+): RequestState {
+  if (!request || request.timestamp <= valuedAt) return 'none'
+  if (request.isFinalized) return 'finalized'
+  return now <= request.deadline + revealPeriod ? 'pending' : 'expired'
+}
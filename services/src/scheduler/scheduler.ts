@@ -0,0 +1,311 @@
+import {
+  ContractRevertError,
+  CSVOracleClient,
+  CSVVaultClient,
+  csvVaultAbi,
+  ERCRWACSVClient,
+  type ValuationRequest,
+} from '@iyield/sdk'
+import type { Account, Address, Chain, Hash, PublicClient, Transport, WalletClient } from 'viem'
+import { errorReason } from '../shared/errors'
+import { silentLogger, type Logger } from '../shared/logger'
+import { sleep, withRetry } from '../shared/retry'
+import { planRevaluations, requestState, type RevaluationCandidate, type VaultValuation } from './plan'
+
+export interface SchedulerOptions {
+  publicClient: PublicClient
+  /** Wallet paying the request fees; not needed in dry-run mode when `account` is given. */
+  walletClient?: WalletClient<Transport, Chain | undefined, Account | undefined>
+  /** Requester address, used for dry-run simulations; defaults to the wallet account. */
+  account?: Address
+  vaultAddress: Address
+  tokenAddress: Address
+  oracleAddress: Address
+  /** Total wei the scheduler may spend on request fees while it runs. */
+  budget: bigint
+  /** Seconds before a valuation goes stale that its revaluation is requested. */
+  leadTime?: bigint
+  /** Seconds oracles are given to respond; defaults to the oracle's `responsePeriod`. */
+  responseWindow?: bigint
+  /** Simulate requests instead of sending them. */
+  dryRun?: boolean
+  /** First block scanned for `VaultOpened`, normally the deployment block. */
+  startBlock?: bigint
+  /** Blocks per `eth_getLogs` request while scanning vault events. */
+  batchSize?: bigint
+  /** Attempts per request, including the first. */
+  maxAttempts?: number
+  /** Delay before the first retry, doubled per attempt. */
+  retryDelayMs?: number
+  pollingInterval?: number
+  logger?: Logger
+}
+
+export type RevaluationStatus = 'requested' | 'simulated' | 'skipped' | 'failed'
+
+export interface RevaluationResult {
+  vaultId: bigint
+  policyNumber: string
+  status: RevaluationStatus
+  freshUntil: bigint
+  /** Fee paid, or that would be paid in dry-run mode. */
+  fee: bigint
+  /** ID of the new oracle request for `requested` and `simulated` results. */
+  requestId?: bigint
+  hash?: Hash
+  attempts: number
+  /** Revert code or error message for `skipped` and `failed` results. */
+  reason?: string
+}
+
+export interface SchedulerReport {
+  blockNumber: bigint
+  timestamp: bigint
+  /** Active vaults that were checked. */
+  vaults: number
+  /** Vaults within the lead time of going stale, soonest first. */
+  candidates: RevaluationCandidate[]
+  results: RevaluationResult[]
+  /** Budget left after this pass. */
+  budgetRemaining: bigint
+}
+
+/** Revert codes that retrying the same request cannot fix. */
+const PERMANENT_CODES = new Set(['INSUFFICIENT_FEE', 'POLICY_NUMBER_REQUIRED', 'INSUFFICIENT_ACTIVE_ORACLES', 'PAUSED'])
+
+const isPermanent = (error: unknown) => error instanceof ContractRevertError && PERMANENT_CODES.has(error.code)
+
+/**
+ * Requests oracle revaluations of vaulted policies before CSVVault marks
+ * their valuation stale.
+ *
+ * The scheduler follows the vault's events to know which vaults are open and
+ * on every pass compares each vault's `collateralValuedAt` with
+ * `maxValuationAge`. A vault within `leadTime` of going stale gets a
+ * `CSVOracle.requestValuation` for its policy, unless a request made since
+ * the vault was valued is still open or is finalized and waiting to be
+ * applied. Request fees come out of a fixed budget; once it is spent,
+ * candidates are skipped with `BUDGET_EXHAUSTED`.
+ */
+export class ValuationScheduler {
+  private readonly publicClient: PublicClient
+  private readonly vault: CSVVaultClient
+  private readonly token: ERCRWACSVClient
+  private readonly oracle: CSVOracleClient
+  private readonly account: Address | undefined
+  private readonly budget: bigint
+  private readonly leadTime: bigint
+  private readonly responseWindow: bigint | undefined
+  private readonly dryRun: boolean
+  private readonly startBlock: bigint
+  private readonly batchSize: bigint
+  private readonly maxAttempts: number
+  private readonly retryDelayMs: number
+  private readonly pollingInterval: number
+  private readonly logger: Logger
+  private readonly activeVaults = new Set<bigint>()
+  private scannedBlock: bigint | undefined
+  private spent = BigInt(0)
+  private running = false
+
+  constructor(options: SchedulerOptions) {
+    const clients = { publicClient: options.publicClient, walletClient: options.walletClient }
+    this.publicClient = options.publicClient
+    this.vault = new CSVVaultClient({ address: options.vaultAddress, ...clients })
+    this.token = new ERCRWACSVClient({ address: options.tokenAddress, ...clients })
+    this.oracle = new CSVOracleClient({ address: options.oracleAddress, ...clients })
+    this.account = options.account ?? options.walletClient?.account?.address
+    this.budget = options.budget
+    this.leadTime = options.leadTime ?? BigInt(14 * 24 * 60 * 60)
+    this.responseWindow = options.responseWindow
+    this.dryRun = options.dryRun ?? false
+    this.startBlock = options.startBlock ?? BigInt(0)
+    this.batchSize = options.batchSize ?? BigInt(2000)
+    this.maxAttempts = options.maxAttempts ?? 3
+    this.retryDelayMs = options.retryDelayMs ?? 2000
+    this.pollingInterval = options.pollingInterval ?? 60_000
+    this.logger = options.logger ?? silentLogger
+
+    if (!this.account) throw new Error('ValuationScheduler: a wallet client or an account is required')
+    if (!this.dryRun && !options.walletClient) {
+      throw new Error('ValuationScheduler: a wallet client is required unless running in dry-run mode')
+    }
+    if (this.budget < BigInt(0)) throw new Error('ValuationScheduler: the budget cannot be negative')
+  }
+
+  /** Wei left to spend on request fees; dry-run passes draw on it as if they had sent. */
+  get budgetRemaining(): bigint {
+    return this.budget - this.spent
+  }
+
+  /** One pass: refresh the vault set, find valuations nearing staleness and request revaluations. */
+  async runOnce(): Promise<SchedulerReport> {
+    const block = await this.publicClient.getBlock({ blockTag: 'latest' })
+    await this.scanVaultEvents(block.number!)
+    const [maxValuationAge, fees, consensus, reveal] = await Promise.all([
+      this.vault.getMaxValuationAge(),
+      this.oracle.getFees(),
+      this.oracle.getConsensusConfig(),
+      this.oracle.getRevealConfig(),
+    ])
+
+    const valuations: VaultValuation[] = []
+    for (const vaultId of Array.from(this.activeVaults).sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))) {
+      const position = await this.vault.getVaultPosition(vaultId)
+      if (!position.isActive) {
+        this.activeVaults.delete(vaultId)
+        continue
+      }
+      const [valuedAt, metadata] = await Promise.all([
+        this.vault.getCollateralValuedAt(vaultId),
+        this.token.getCSVMetadata(position.tokenId),
+      ])
+      valuations.push({ vaultId, tokenId: position.tokenId, policyNumber: metadata.policyNumber, valuedAt })
+    }
+
+    const candidates = planRevaluations(valuations, maxValuationAge, this.leadTime, block.timestamp)
+    const deadline = block.timestamp + (this.responseWindow ?? consensus.responsePeriod)
+    const results: RevaluationResult[] = []
+    for (const candidate of candidates) {
+      const base = {
+        vaultId: candidate.vaultId,
+        policyNumber: candidate.policyNumber,
+        freshUntil: candidate.freshUntil,
+        fee: fees.requestFee,
+      }
+      const latestRequestId = await this.oracle.getLatestRequestId(candidate.policyNumber)
+      const latest = latestRequestId === BigInt(0) ? undefined : await this.oracle.getValuationRequest(latestRequestId)
+      const state = requestState(latest, candidate.valuedAt, reveal.revealPeriod, block.timestamp)
+
+      if (state === 'pending' || state === 'finalized') {
+        const reason = state === 'pending' ? 'REQUEST_PENDING' : 'AWAITING_PROPAGATION'
+        results.push({ ...base, fee: BigInt(0), status: 'skipped', attempts: 0, reason })
+        continue
+      }
+      if (fees.requestFee > this.budgetRemaining) {
+        this.logger.warn('Revaluation budget exhausted', {
+          vaultId: candidate.vaultId,
+          requestFee: fees.requestFee,
+          budgetRemaining: this.budgetRemaining,
+        })
+        results.push({ ...base, fee: BigInt(0), status: 'skipped', attempts: 0, reason: 'BUDGET_EXHAUSTED' })
+        continue
+      }
+
+      this.logger.info('Valuation nearing staleness', {
+        vaultId: candidate.vaultId,
+        policyNumber: candidate.policyNumber,
+        freshUntil: candidate.freshUntil,
+        stale: candidate.stale,
+      })
+      const result = await this.request(candidate, latest, deadline, base)
+      if (result.status === 'requested' || result.status === 'simulated') this.spent += result.fee
+      results.push(result)
+    }
+
+    return {
+      blockNumber: block.number!,
+      timestamp: block.timestamp,
+      vaults: valuations.length,
+      candidates,
+      results,
+      budgetRemaining: this.budgetRemaining,
+    }
+  }
+
+  /** Runs passes until `stop()` is called. Errors are logged and retried on the next pass. */
+  async start(): Promise<void> {
+    this.running = true
+    this.logger.info('Scheduler started', { account: this.account, dryRun: this.dryRun, budget: this.budget })
+    while (this.running) {
+      try {
+        const report = await this.runOnce()
+        for (const result of report.results) this.logger.info('Revaluation result', { ...result })
+      } catch (error) {
+        this.logger.error('Scheduler pass failed', { error: errorReason(error) })
+      }
+      if (this.running) await sleep(this.pollingInterval)
+    }
+  }
+
+  stop(): void {
+    this.running = false
+  }
+
+  /** Applies vault events up to `toBlock` to the set of open vaults. */
+  private async scanVaultEvents(toBlock: bigint): Promise<void> {
+    let from = this.scannedBlock === undefined ? this.startBlock : this.scannedBlock + BigInt(1)
+    while (from <= toBlock) {
+      const to = from + this.batchSize - BigInt(1) < toBlock ? from + this.batchSize - BigInt(1) : toBlock
+      const events = await this.publicClient.getContractEvents({
+        address: this.vault.address,
+        abi: csvVaultAbi,
+        fromBlock: from,
+        toBlock: to,
+      })
+      for (const event of events) {
+        switch (event.eventName) {
+          case 'VaultOpened':
+            this.activeVaults.add(event.args.vaultId!)
+            break
+          case 'VaultClosed':
+          case 'VaultLiquidated':
+            this.activeVaults.delete(event.args.vaultId!)
+            break
+        }
+      }
+      this.scannedBlock = to
+      from = to + BigInt(1)
+    }
+  }
+
+  /** Requests the policy's revaluation, reusing the documents of its previous request. */
+  private async request(
+    candidate: RevaluationCandidate,
+    previous: ValuationRequest | undefined,
+    deadline: bigint,
+    base: Omit<RevaluationResult, 'status' | 'attempts'>
+  ): Promise<RevaluationResult> {
+    const args = [candidate.policyNumber, deadline, previous?.ipfsHash ?? ''] as const
+
+    if (this.dryRun) {
+      try {
+        const { result } = await this.oracle.requestValuation(...args, {
+          simulate: true,
+          account: this.account,
+          value: base.fee,
+        })
+        return { ...base, status: 'simulated', requestId: result, attempts: 1 }
+      } catch (error) {
+        return { ...base, status: isPermanent(error) ? 'skipped' : 'failed', attempts: 1, reason: errorReason(error) }
+      }
+    }
+
+    let attempts = 0
+    try {
+      const { requestId, hash } = await withRetry(
+        async (attempt) => {
+          attempts = attempt
+          const { result, hash } = await this.oracle.requestValuation(...args, { value: base.fee })
+          await this.oracle.waitForTransaction(hash!)
+          return { requestId: result, hash: hash! }
+        },
+        {
+          attempts: this.maxAttempts,
+          baseDelayMs: this.retryDelayMs,
+          shouldRetry: (error) => !isPermanent(error),
+          onRetry: (error, attempt, delayMs) =>
+            this.logger.warn('Revaluation request failed, retrying', {
+              vaultId: candidate.vaultId,
+              attempt,
+              delayMs,
+              error: errorReason(error),
+            }),
+        }
+      )
+      return { ...base, status: 'requested', requestId, hash, attempts }
+    } catch (error) {
+      return { ...base, status: isPermanent(error) ? 'skipped' : 'failed', attempts, reason: errorReason(error) }
+    }
+  }
+}
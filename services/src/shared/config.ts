@@ -0,0 +1,75 @@
+import { config as loadEnv } from 'dotenv'
+import { getAddress, isHex, type Address, type Hex } from 'viem'
+import type { IYieldAddresses } from '@iyield/sdk'
+
+loadEnv()
+
+/** Error raised when required configuration is missing or malformed. */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ConfigError'
+  }
+}
+
+export function requireEnv(name: string): string {
+  const value = process.env[name]
+  if (!value) throw new ConfigError(`${name} is not set`)
+  return value
+}
+
+export function optionalEnv(name: string, fallback: string): string {
+  return process.env[name] || fallback
+}
+
+export function envNumber(name: string, fallback: number): number {
+  const raw = process.env[name]
+  if (!raw) return fallback
+  const value = Number(raw)
+  if (!Number.isFinite(value)) throw new ConfigError(`${name} must be a number, got "${raw}"`)
+  return value
+}
+
+export function envFlag(name: string, fallback = false): boolean {
+  const raw = process.env[name]
+  if (!raw) return fallback
+  if (/^(1|true|yes)$/i.test(raw)) return true
+  if (/^(0|false|no)$/i.test(raw)) return false
+  throw new ConfigError(`${name} must be true or false, got "${raw}"`)
+}
+
+/** A 32-byte hex private key, e.g. for a service's signing account. */
+export function envPrivateKey(name: string): Hex {
+  const raw = requireEnv(name)
+  const value = raw.startsWith('0x') ? raw : `0x${raw}`
+  if (!isHex(value) || value.length !== 66) throw new ConfigError(`${name} is not a 32-byte hex private key`)
+  return value
+}
+
+export function envAddress(name: string): Address {
+  const raw = requireEnv(name)
+  try {
+    return getAddress(raw)
+  } catch {
+    throw new ConfigError(`${name} is not a valid address: "${raw}"`)
+  }
+}
+
+/** Node RPC endpoint; defaults to a local Hardhat node. */
+export function getRpcUrl(): string {
+  return optionalEnv('RPC_URL', 'http://127.0.0.1:8545')
+}
+
+/**
+ * Contract addresses, using the variable names `contracts/.env.example`
+ * documents for the output of `scripts/deploy.js`.
+ */
+export function getContractAddresses(): IYieldAddresses {
+  return {
+    complianceRegistry: envAddress('COMPLIANCE_REGISTRY_ADDRESS'),
+    csvOracle: envAddress('CSV_ORACLE_ADDRESS'),
+    csvToken: envAddress('ERCRWACSV_ADDRESS'),
+    csvVault: envAddress('CSV_VAULT_ADDRESS'),
+    liquidityPool: envAddress('CSV_LIQUIDITY_POOL_ADDRESS'),
+  }
+}
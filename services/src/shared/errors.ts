@@ -0,0 +1,7 @@
+import { ContractRevertError } from '@iyield/sdk'
+
+/** Short description of an error for logs and stored state: the revert code when there is one. */
+export function errorReason(error: unknown): string {
+  if (error instanceof ContractRevertError) return error.code
+  return error instanceof Error ? error.message : String(error)
+}
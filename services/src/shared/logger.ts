@@ -0,0 +1,27 @@
+export interface Logger {
+  info(message: string, details?: Record<string, unknown>): void
+  warn(message: string, details?: Record<string, unknown>): void
+  error(message: string, details?: Record<string, unknown>): void
+}
+
+function format(details: Record<string, unknown> | undefined): string {
+  if (!details) return ''
+  return ' ' + JSON.stringify(details, (_, value) => (typeof value === 'bigint' ? value.toString() : value))
+}
+
+export function createLogger(service: string): Logger {
+  const log = (level: string, message: string, details?: Record<string, unknown>) =>
+    console.log(`${new Date().toISOString()} ${level.padEnd(5)} [${service}] ${message}${format(details)}`)
+  return {
+    info: (message, details) => log('INFO', message, details),
+    warn: (message, details) => log('WARN', message, details),
+    error: (message, details) => log('ERROR', message, details),
+  }
+}
+
+/** Logger that discards everything; the default in tests. */
+export const silentLogger: Logger = {
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+}
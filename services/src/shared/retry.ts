@@ -0,0 +1,27 @@
+export interface RetryOptions {
+  /** Total attempts, including the first. */
+  attempts: number
+  /** Delay before the first retry, doubled after each failure. */
+  baseDelayMs: number
+  maxDelayMs?: number
+  /** Return false for errors that will not go away by retrying (e.g. a revert). */
+  shouldRetry?: (error: unknown) => boolean
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void
+}
+
+export const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+/** Runs `task`, retrying failures with exponential backoff. The last error is rethrown. */
+export async function withRetry<T>(task: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> {
+  const { attempts, baseDelayMs, maxDelayMs = Infinity, shouldRetry = () => true, onRetry } = options
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task(attempt)
+    } catch (error) {
+      if (attempt >= attempts || !shouldRetry(error)) throw error
+      const delayMs = Math.min(baseDelayMs * 2 ** (attempt - 1), maxDelayMs)
+      onRetry?.(error, attempt, delayMs)
+      await sleep(delayMs)
+    }
+  }
+}
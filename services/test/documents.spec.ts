@@ -0,0 +1,276 @@
+import { expect } from 'chai'
+import { mkdtempSync, rmSync } from 'fs'
+import type { AddressInfo } from 'net'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import {
+  complianceRegistryAbi,
+  documentUploadMessage,
+  type ComplianceDocument,
+  type ComplianceStatus,
+  type DocumentKind,
+} from '@iyield/sdk'
+import { sha256, zeroAddress, type Address, type Hex } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import {
+  DocumentError,
+  DocumentService,
+  DocumentStore,
+  LocalContentStore,
+  computeCid,
+  createDocumentServer,
+  createRegistryVerifier,
+  type DocumentVerifier,
+} from '../src'
+import { BOB, FakeChain, addresses, revertWith } from './helpers'
+
+const DAY = BigInt(24 * 60 * 60)
+const investor = privateKeyToAccount('0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a')
+const stranger = privateKeyToAccount('0x7c852118294e51e653712a81e05800f419141751be58f605c371e15141b007a6')
+
+const emptyStatus: ComplianceStatus = {
+  isKYCVerified: false,
+  isAccredited: false,
+  accreditationExpiry: BigInt(0),
+  kycExpiry: BigInt(0),
+  jurisdictionCode: BigInt(0),
+  isRestricted: false,
+  lockupExpiry: BigInt(0),
+  kycProvider: zeroAddress,
+  kycHash: '',
+  lastUpdateTimestamp: BigInt(0),
+}
+
+/** The registry's accreditation bookkeeping and status reads. */
+class RegistryModel {
+  readonly statuses = new Map<Address, ComplianceStatus>()
+  rejectWrites = false
+
+  constructor(chain: FakeChain) {
+    chain.onCall = (name, args, { commit, timestamp }) => {
+      switch (name) {
+        case 'getComplianceStatus':
+          return this.statuses.get(args[0] as Address) ?? emptyStatus
+        case 'updateAccreditationStatus': {
+          if (this.rejectWrites) revertWith('AccessControl: missing role')
+          if (commit) {
+            const [user, isAccredited] = args as [Address, boolean]
+            this.statuses.set(user, {
+              ...(this.statuses.get(user) ?? emptyStatus),
+              isAccredited,
+              accreditationExpiry: timestamp + BigInt(365) * DAY,
+            })
+          }
+          return
+        }
+        default:
+          throw new Error(`Unexpected call ${name}`)
+      }
+    }
+  }
+}
+
+describe('compliance documents', () => {
+  let chain: FakeChain
+  let registry: RegistryModel
+  let store: DocumentStore
+  let directory: string
+
+  const content = (text: string) => new TextEncoder().encode(text)
+
+  const signUpload = (data: Uint8Array, kind: DocumentKind = 'kyc', account = investor) =>
+    account.signMessage({ message: documentUploadMessage({ owner: investor.address, kind, sha256: sha256(data) }) })
+
+  const createService = (verifier?: DocumentVerifier) =>
+    new DocumentService({
+      store,
+      content: new LocalContentStore(directory),
+      publicClient: chain.createClient(),
+      registryAddress: addresses.complianceRegistry,
+      verifier,
+      now: () => 1_700_000_000,
+    })
+
+  const upload = async (service: DocumentService, text: string, kind: DocumentKind = 'kyc') => {
+    const data = content(text)
+    return service.upload({
+      owner: investor.address,
+      kind,
+      filename: `${kind}.pdf`,
+      mimeType: 'application/pdf',
+      content: data,
+      signature: await signUpload(data, kind),
+    })
+  }
+
+  const rejects = async (promise: Promise<unknown>, status: number, message: RegExp) => {
+    try {
+      await promise
+      expect.fail('expected an error')
+    } catch (error) {
+      expect(error).to.be.instanceOf(DocumentError)
+      expect((error as DocumentError).status).to.equal(status)
+      expect((error as Error).message).to.match(message)
+    }
+  }
+
+  beforeEach(() => {
+    chain = new FakeChain(complianceRegistryAbi)
+    registry = new RegistryModel(chain)
+    store = new DocumentStore()
+    directory = mkdtempSync(join(tmpdir(), 'documents-'))
+  })
+
+  afterEach(() => {
+    store.close()
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('addresses content the way IPFS does', async () => {
+    expect(computeCid(content('hello world'))).to.equal('bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e')
+
+    const local = new LocalContentStore(directory)
+    const cid = await local.put(content('passport scan'))
+    expect(await local.put(content('passport scan'))).to.equal(cid)
+    expect(new TextDecoder().decode(await local.get(cid))).to.equal('passport scan')
+    expect(await local.get('../secrets')).to.equal(undefined)
+  })
+
+  it('files signed uploads as pending and deduplicates them', async () => {
+    const service = createService()
+
+    const document = await upload(service, 'passport scan')
+    const again = await upload(service, 'passport scan')
+
+    expect(document).to.include({
+      owner: investor.address,
+      kind: 'kyc',
+      status: 'pending',
+      sha256: sha256(content('passport scan')),
+      cid: computeCid(content('passport scan')),
+      submittedAt: 1_700_000_000,
+    })
+    expect(again.id).to.equal(document.id)
+    expect(service.list({ owner: investor.address })).to.have.length(1)
+    expect(new TextDecoder().decode((await service.getContent(document.id)).content)).to.equal('passport scan')
+  })
+
+  it('refuses uploads not signed by the owner for that content', async () => {
+    const service = createService()
+    const data = content('passport scan')
+    const base = { owner: investor.address, kind: 'kyc' as const, filename: 'kyc.pdf', mimeType: 'application/pdf', content: data }
+
+    await rejects(service.upload({ ...base, signature: await signUpload(data, 'kyc', stranger) }), 401, /Signature/)
+    await rejects(service.upload({ ...base, signature: await signUpload(content('other'), 'kyc') }), 401, /Signature/)
+    await rejects(service.upload({ ...base, signature: await signUpload(data, 'accreditation') }), 401, /Signature/)
+    expect(service.list()).to.deep.equal([])
+  })
+
+  it('moves documents from pending to verified or rejected once', async () => {
+    const calls: [ComplianceDocument, bigint | undefined][] = []
+    const service = createService(async (document, decision) => {
+      calls.push([document, decision.jurisdictionCode])
+      return `0x${'ab'.repeat(32)}` as Hex
+    })
+    const kyc = await upload(service, 'passport scan')
+    const accreditation = await upload(service, 'bank statement', 'accreditation')
+
+    await rejects(service.review(accreditation.id, { decision: 'rejected', reviewer: 'carol' }), 400, /note/)
+    const rejected = await service.review(accreditation.id, { decision: 'rejected', reviewer: 'carol', note: 'Statement is older than 90 days' })
+    const verified = await service.review(kyc.id, { decision: 'verified', reviewer: 'carol', jurisdictionCode: BigInt(840) })
+
+    expect(rejected).to.include({ status: 'rejected', reviewer: 'carol', note: 'Statement is older than 90 days', transactionHash: null })
+    expect(verified).to.include({ status: 'verified', reviewedAt: 1_700_000_000, transactionHash: `0x${'ab'.repeat(32)}` })
+    expect(calls).to.have.length(1)
+    expect(calls[0][0].cid).to.equal(kyc.cid)
+    expect(calls[0][1]).to.equal(BigInt(840))
+    await rejects(service.review(kyc.id, { decision: 'rejected', reviewer: 'dave', note: 'late' }), 409, /already verified/)
+
+    // A rejected document can be uploaded again
+    expect((await upload(service, 'bank statement', 'accreditation')).id).not.to.equal(accreditation.id)
+  })
+
+  it('records accreditation on the registry and stays pending when that fails', async () => {
+    const publicClient = chain.createClient()
+    const service = createService(
+      createRegistryVerifier({
+        publicClient,
+        registryAddress: addresses.complianceRegistry,
+        complianceOfficer: chain.createWalletClient(BOB),
+      })
+    )
+    const document = await upload(service, 'bank statement', 'accreditation')
+
+    registry.rejectWrites = true
+    try {
+      await service.review(document.id, { decision: 'verified', reviewer: 'carol' })
+      expect.fail('expected an error')
+    } catch {
+      expect(service.get(document.id).status).to.equal('pending')
+    }
+
+    registry.rejectWrites = false
+    const verified = await service.review(document.id, { decision: 'verified', reviewer: 'carol' })
+
+    expect(registry.statuses.get(investor.address)?.isAccredited).to.equal(true)
+    expect(verified.transactionHash).to.equal(chain.transactions[0].hash)
+    expect(chain.transactions[0].from).to.equal(BOB)
+  })
+
+  it('reminds investors whose KYC or accreditation is about to expire', async () => {
+    const service = createService()
+    await upload(service, 'passport scan')
+    const now = chain.latest.timestamp
+    registry.statuses.set(investor.address, {
+      ...emptyStatus,
+      isKYCVerified: true,
+      kycExpiry: now + BigInt(10) * DAY,
+      isAccredited: true,
+      accreditationExpiry: now + BigInt(200) * DAY,
+    })
+
+    const [entry] = await service.listReminders()
+
+    expect(entry.owner).to.equal(investor.address)
+    expect(entry.reminders).to.deep.equal([
+      { kind: 'kyc', expiresAt: now + BigInt(10) * DAY, expired: false, secondsLeft: BigInt(10) * DAY },
+    ])
+    expect(await service.listReminders(BigInt(5) * DAY)).to.deep.equal([])
+  })
+
+  it('serves uploads, reviews and reminders over HTTP', async () => {
+    const service = createService()
+    const server = createDocumentServer(service, { reviewerToken: 'secret' }).listen(0)
+    try {
+      await new Promise((resolve) => server.once('listening', resolve))
+      const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`
+      const data = content('passport scan')
+      const reviewer = { authorization: 'Bearer secret', 'content-type': 'application/json' }
+
+      const created = await fetch(`${base}/documents?owner=${investor.address}&kind=kyc&filename=passport.pdf`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/pdf', 'x-signature': await signUpload(data) },
+        body: data,
+      })
+      expect(created.status).to.equal(201)
+      const document = (await created.json()) as ComplianceDocument
+      expect(document).to.include({ filename: 'passport.pdf', mimeType: 'application/pdf', status: 'pending' })
+
+      expect(await (await fetch(`${base}/documents?owner=${investor.address}`)).json()).to.have.length(1)
+      expect((await fetch(`${base}/documents`)).status).to.equal(401)
+      expect((await fetch(`${base}/documents/${document.id}/content`)).status).to.equal(401)
+      const download = await fetch(`${base}/documents/${document.id}/content`, { headers: reviewer })
+      expect(await download.text()).to.equal('passport scan')
+
+      const review = await fetch(`${base}/documents/${document.id}/review`, {
+        method: 'POST',
+        headers: reviewer,
+        body: JSON.stringify({ decision: 'rejected', reviewer: 'carol', note: 'Blurry' }),
+      })
+      expect(await review.json()).to.include({ status: 'rejected', note: 'Blurry' })
+      expect(await (await fetch(`${base}/reminders`, { headers: reviewer })).json()).to.deep.equal([])
+    } finally {
+      server.close()
+    }
+  })
+})
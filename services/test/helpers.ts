@@ -0,0 +1,398 @@
+import type { IYieldAddresses } from '@iyield/sdk'
+import {
+  createPublicClient,
+  createWalletClient,
+  custom,
+  decodeFunctionData,
+  encodeEventTopics,
+  encodeAbiParameters,
+  encodeErrorResult,
+  encodeFunctionResult,
+  getAddress,
+  keccak256,
+  numberToHex,
+  parseAbi,
+  parseGwei,
+  toHex,
+  type Abi,
+  type Account,
+  type AbiEvent,
+  type Address,
+  type Hex,
+  type PublicClient,
+  type Transport,
+  type WalletClient,
+} from 'viem'
+
+export const ALICE: Address = getAddress('0x00000000000000000000000000000000000a11ce')
+export const BOB: Address = getAddress('0x0000000000000000000000000000000000000b0b')
+export const ORACLE: Address = getAddress('0x00000000000000000000000000000000000000c1')
+
+export const addresses: IYieldAddresses = {
+  complianceRegistry: getAddress('0x0000000000000000000000000000000000001001'),
+  csvOracle: getAddress('0x0000000000000000000000000000000000001002'),
+  csvToken: getAddress('0x0000000000000000000000000000000000001003'),
+  csvVault: getAddress('0x0000000000000000000000000000000000001004'),
+  liquidityPool: getAddress('0x0000000000000000000000000000000000001005'),
+}
+
+export const solidityErrorAbi = parseAbi(['error Error(string)', 'error Panic(uint256)'])
+
+/** Error thrown by a call or transaction handler to make the fake node revert with the given data. */
+export class Revert extends Error {
+  constructor(readonly data: Hex) {
+    super('execution reverted')
+  }
+}
+
+export function revertWith(reason: string): never {
+  throw new Revert(encodeErrorResult({ abi: solidityErrorAbi, errorName: 'Error', args: [reason] }))
+}
+
+interface FakeLog {
+  address: Address
+  topics: Hex[]
+  data: Hex
+  transactionHash: Hex
+}
+
+interface FakeBlock {
+  number: bigint
+  hash: Hex
+  parentHash: Hex
+  timestamp: bigint
+  logs: FakeLog[]
+}
+
+export interface FakeTransaction {
+  hash: Hex
+  from: Address
+  to: Address
+  data: Hex
+  value: bigint
+  gas: bigint
+  maxFeePerGas: bigint
+}
+
+/** `eth_sendTransaction` parameters as viem sends them. */
+interface TransactionRequest {
+  from: Address
+  to: Address
+  data: Hex
+  value?: Hex
+  gas?: Hex
+  maxFeePerGas?: Hex
+}
+
+interface FakeReceipt {
+  transaction: FakeTransaction
+  block: FakeBlock
+  status: 'success' | 'reverted'
+  logs: FakeLog[]
+}
+
+export interface CallContext {
+  to: Address
+  from: Address | undefined
+  blockNumber: bigint
+  /** Timestamp the call executes at: the block's for historical calls, the next block's otherwise. */
+  timestamp: bigint
+  /** True for sent transactions, whose state changes persist; false for `eth_call`. */
+  commit: boolean
+}
+
+export type CallHandler = (functionName: string, args: readonly unknown[], context: CallContext) => unknown
+
+/**
+ * In-memory chain for the services tests. Blocks are mined explicitly, with
+ * whatever events the test emits, and `reorg` replaces the tip with a fork.
+ *
+ * Calls and transactions are decoded against `callAbi` and answered by
+ * `onCall`; a sent transaction runs the same handler and is mined in its own
+ * block together with any events the handler emits. Throwing `Revert` from the
+ * handler reverts the call or transaction, any other error is returned as an
+ * RPC failure.
+ */
+export class FakeChain {
+  readonly blocks: FakeBlock[] = []
+  readonly transactions: FakeTransaction[] = []
+  onCall: CallHandler = () => {
+    throw new Error('Unexpected eth_call')
+  }
+  /** Inspected before a transaction is executed; throw to fail the `eth_sendTransaction` request. */
+  beforeSend: (transaction: FakeTransaction) => void = () => {}
+  baseFeePerGas = parseGwei('1')
+  maxPriorityFeePerGas = parseGwei('1')
+  /** When set, sent transactions wait in the mempool until `releaseTransactions()`. */
+  holdTransactions = false
+  /** Seconds between consecutive blocks. */
+  blockTime = BigInt(12)
+  private pending: FakeLog[] = []
+  private receipts = new Map<Hex, FakeReceipt>()
+  private mempool: FakeTransaction[] = []
+  private fork = 0
+
+  constructor(private readonly callAbi: Abi = []) {
+    this.mine()
+  }
+
+  get head(): bigint {
+    return BigInt(this.blocks.length - 1)
+  }
+
+  /** Queues an event for the next mined block. */
+  emit(address: Address, abi: Abi, eventName: string, args: Record<string, unknown>): this {
+    const event = abi.find((item): item is AbiEvent => item.type === 'event' && item.name === eventName)!
+    const topics = encodeEventTopics({ abi: [event], eventName, args } as never) as Hex[]
+    const nonIndexed = event.inputs.filter((input) => !input.indexed)
+    const data = encodeAbiParameters(nonIndexed, nonIndexed.map((input) => args[input.name!]))
+    const transactionHash = keccak256(toHex(`${this.fork}:${this.blocks.length}:${this.pending.length}`))
+    this.pending.push({ address, topics, data, transactionHash })
+    return this
+  }
+
+  get latest(): FakeBlock {
+    return this.blocks[this.blocks.length - 1]
+  }
+
+  /** Timestamp the next mined block will have. */
+  get nextTimestamp(): bigint {
+    return this.latest.timestamp + this.blockTime
+  }
+
+  mine(count = 1): this {
+    for (let i = 0; i < count; i++) {
+      const number = BigInt(this.blocks.length)
+      const parent = this.blocks[this.blocks.length - 1]
+      this.blocks.push({
+        number,
+        hash: keccak256(toHex(`block:${this.fork}:${number}`)),
+        parentHash: parent ? parent.hash : (`0x${'00'.repeat(32)}` as Hex),
+        timestamp: parent ? parent.timestamp + this.blockTime : BigInt(1_700_000_000),
+        logs: this.pending,
+      })
+      this.pending = []
+    }
+    return this
+  }
+
+  /** Moves time forward; the next block is mined `seconds` after the latest one. */
+  increaseTime(seconds: bigint): this {
+    const blockTime = this.blockTime
+    this.blockTime = seconds
+    this.mine()
+    this.blockTime = blockTime
+    return this
+  }
+
+  /** Mines the held transactions, each in its own block. */
+  releaseTransactions(): this {
+    const held = this.mempool
+    this.mempool = []
+    for (const transaction of held) this.execute(transaction)
+    return this
+  }
+
+  /** Drops the blocks above `ancestor`; blocks mined afterwards get new hashes. */
+  reorg(ancestor: bigint): this {
+    this.blocks.length = Number(ancestor) + 1
+    this.fork++
+    return this
+  }
+
+  createClient(): PublicClient {
+    return createPublicClient({ transport: this.transport(), pollingInterval: 10 })
+  }
+
+  /** Wallet for a node-managed account: transactions go through `eth_sendTransaction`. */
+  createWalletClient(account: Address): WalletClient<Transport, undefined, Account> {
+    return createWalletClient({ account, transport: this.transport(), pollingInterval: 10 })
+  }
+
+  private transport() {
+    return custom(
+      {
+        request: async ({ method, params }: { method: string; params?: readonly unknown[] }) =>
+          this.request(method, params ?? []),
+      },
+      { retryCount: 0 }
+    )
+  }
+
+  private request(method: string, params: readonly unknown[]): unknown {
+    switch (method) {
+      case 'eth_chainId':
+        return '0x7a69'
+      case 'eth_blockNumber':
+        return numberToHex(this.head)
+      case 'eth_getBlockByNumber': {
+        const [blockTag] = params as [string]
+        const block = blockTag.startsWith('0x') ? this.blocks[Number(BigInt(blockTag))] : this.latest
+        return block ? this.formatBlock(block) : null
+      }
+      case 'eth_maxPriorityFeePerGas':
+        return numberToHex(this.maxPriorityFeePerGas)
+      case 'eth_gasPrice':
+        return numberToHex(this.baseFeePerGas + this.maxPriorityFeePerGas)
+      case 'eth_getLogs': {
+        const filter = params[0] as { address: Address | Address[]; fromBlock: Hex; toBlock: Hex }
+        const { fromBlock, toBlock } = filter
+        const wanted = new Set([filter.address].flat().map((item) => getAddress(item)))
+        return this.blocks
+          .filter((block) => block.number >= BigInt(fromBlock) && block.number <= BigInt(toBlock))
+          .flatMap((block) =>
+            block.logs.map((log, index) => ({ log, index, block })).filter(({ log }) => wanted.has(log.address))
+          )
+          .map(({ log, index, block }) => ({
+            ...log,
+            blockNumber: numberToHex(block.number),
+            blockHash: block.hash,
+            logIndex: numberToHex(index),
+            transactionIndex: numberToHex(index),
+            removed: false,
+          }))
+      }
+      case 'eth_call': {
+        const [{ to, from, data }, blockTag] = params as [{ to: Address; from?: Address; data: Hex }, string?]
+        const historical = blockTag?.startsWith('0x') && BigInt(blockTag) < this.head
+        const block = historical ? this.blocks[Number(BigInt(blockTag!))] : undefined
+        const context = {
+          to: getAddress(to),
+          from: from ? getAddress(from) : undefined,
+          blockNumber: block ? block.number : this.head + BigInt(1),
+          timestamp: block ? block.timestamp : this.nextTimestamp,
+          commit: false,
+        }
+        const { functionName, args } = decodeFunctionData({ abi: this.callAbi, data })
+        try {
+          const result = this.onCall(functionName, args ?? [], context)
+          return encodeFunctionResult({ abi: this.callAbi, functionName, result } as never)
+        } catch (error) {
+          if (error instanceof Revert) {
+            throw Object.assign(new Error('execution reverted'), { code: 3, data: error.data })
+          }
+          throw error
+        }
+      }
+      case 'eth_estimateGas':
+        return numberToHex(BigInt(100_000))
+      case 'eth_sendTransaction':
+        return this.send(params[0] as TransactionRequest)
+      case 'eth_getTransactionReceipt': {
+        const receipt = this.receipts.get(params[0] as Hex)
+        return receipt ? this.formatReceipt(receipt) : null
+      }
+      case 'eth_getTransactionByHash': {
+        const hash = params[0] as Hex
+        const receipt = this.receipts.get(hash)
+        if (receipt) return this.formatTransaction(receipt.transaction, receipt.block)
+        const pending = this.mempool.find((transaction) => transaction.hash === hash)
+        return pending ? this.formatTransaction(pending, undefined) : null
+      }
+      default:
+        throw new Error(`Unexpected RPC method ${method}`)
+    }
+  }
+
+  private send(request: TransactionRequest): Hex {
+    const transaction: FakeTransaction = {
+      hash: keccak256(toHex(`tx:${this.fork}:${this.transactions.length}`)),
+      from: getAddress(request.from),
+      to: getAddress(request.to),
+      data: request.data,
+      value: request.value ? BigInt(request.value) : BigInt(0),
+      gas: request.gas ? BigInt(request.gas) : BigInt(0),
+      maxFeePerGas: request.maxFeePerGas ? BigInt(request.maxFeePerGas) : BigInt(0),
+    }
+    this.beforeSend(transaction)
+    this.transactions.push(transaction)
+    if (this.holdTransactions) {
+      this.mempool.push(transaction)
+    } else {
+      this.execute(transaction)
+    }
+    return transaction.hash
+  }
+
+  private execute(transaction: FakeTransaction): void {
+    const context = {
+      to: transaction.to,
+      from: transaction.from,
+      blockNumber: this.head + BigInt(1),
+      timestamp: this.nextTimestamp,
+      commit: true,
+    }
+    const { functionName, args } = decodeFunctionData({ abi: this.callAbi, data: transaction.data })
+    const queued = this.pending.length
+    let status: FakeReceipt['status'] = 'success'
+    try {
+      this.onCall(functionName, args ?? [], context)
+    } catch (error) {
+      if (!(error instanceof Revert)) throw error
+      status = 'reverted'
+      this.pending.length = queued
+    }
+    const logs = this.pending.slice(queued)
+    this.mine()
+    this.receipts.set(transaction.hash, { transaction, block: this.latest, status, logs })
+  }
+
+  private formatBlock(block: FakeBlock) {
+    return {
+      number: numberToHex(block.number),
+      hash: block.hash,
+      parentHash: block.parentHash,
+      timestamp: numberToHex(block.timestamp),
+      baseFeePerGas: numberToHex(this.baseFeePerGas),
+      gasLimit: numberToHex(BigInt(30_000_000)),
+      gasUsed: '0x0',
+      transactions: [],
+      logsBloom: null,
+      nonce: null,
+    }
+  }
+
+  private formatTransaction(transaction: FakeTransaction, block: FakeBlock | undefined) {
+    return {
+      hash: transaction.hash,
+      from: transaction.from,
+      to: transaction.to,
+      input: transaction.data,
+      gas: numberToHex(transaction.gas),
+      maxFeePerGas: numberToHex(transaction.maxFeePerGas),
+      maxPriorityFeePerGas: numberToHex(this.maxPriorityFeePerGas),
+      value: numberToHex(transaction.value),
+      nonce: '0x0',
+      type: '0x2',
+      blockHash: block ? block.hash : null,
+      blockNumber: block ? numberToHex(block.number) : null,
+      transactionIndex: block ? '0x0' : null,
+    }
+  }
+
+  private formatReceipt({ transaction, block, status, logs }: FakeReceipt) {
+    return {
+      transactionHash: transaction.hash,
+      transactionIndex: '0x0',
+      blockHash: block.hash,
+      blockNumber: numberToHex(block.number),
+      from: transaction.from,
+      to: transaction.to,
+      status: status === 'success' ? '0x1' : '0x0',
+      gasUsed: numberToHex(BigInt(100_000)),
+      cumulativeGasUsed: numberToHex(BigInt(100_000)),
+      effectiveGasPrice: numberToHex(this.baseFeePerGas + this.maxPriorityFeePerGas),
+      contractAddress: null,
+      logsBloom: `0x${'00'.repeat(256)}`,
+      type: '0x2',
+      logs: logs.map((log, index) => ({
+        ...log,
+        blockNumber: numberToHex(block.number),
+        blockHash: block.hash,
+        logIndex: numberToHex(index),
+        transactionIndex: '0x0',
+        removed: false,
+      })),
+    }
+  }
+}
@@ -0,0 +1,265 @@
+import {
+  complianceRegistryAbi,
+  csvLiquidityPoolAbi,
+  csvOracleAbi,
+  csvVaultAbi,
+  TrancheType,
+} from '@iyield/sdk'
+import { expect } from 'chai'
+import type { AddressInfo } from 'net'
+import { Indexer } from '../src/indexer/indexer'
+import { createIndexerServer } from '../src/indexer/server'
+import { IndexerStore } from '../src/indexer/store'
+import { addresses, ALICE, BOB, FakeChain, ORACLE } from './helpers'
+
+const US = BigInt(840)
+const DE = BigInt(276)
+
+describe('Indexer', () => {
+  let chain: FakeChain
+  let store: IndexerStore
+  const jurisdictions: Record<string, bigint> = { [ALICE]: US, [BOB]: DE }
+
+  const createIndexer = (batchSize = BigInt(2000)) =>
+    new Indexer({ publicClient: chain.createClient(), store, addresses, batchSize })
+
+  beforeEach(() => {
+    chain = new FakeChain(complianceRegistryAbi)
+    chain.onCall = (functionName, [user]) => {
+      expect(functionName).to.equal('getComplianceStatus')
+      return {
+        isKYCVerified: true,
+        isAccredited: false,
+        accreditationExpiry: BigInt(0),
+        kycExpiry: BigInt(0),
+        jurisdictionCode: jurisdictions[user as string],
+        isRestricted: false,
+        lockupExpiry: BigInt(0),
+        kycProvider: ORACLE,
+        kycHash: '',
+        lastUpdateTimestamp: BigInt(0),
+      }
+    }
+    store = new IndexerStore()
+  })
+
+  afterEach(() => store.close())
+
+  it('projects vault lifecycle events', async () => {
+    chain
+      .emit(addresses.csvVault, csvVaultAbi, 'VaultOpened', { vaultId: BigInt(1), owner: ALICE, collateralValue: BigInt(1000) })
+      .emit(addresses.csvVault, csvVaultAbi, 'TokensMinted', { vaultId: BigInt(1), amount: BigInt(600) })
+      .mine()
+      .emit(addresses.csvVault, csvVaultAbi, 'StabilityFeeAccrued', { vaultId: BigInt(1), feeAmount: BigInt(5) })
+      .emit(addresses.csvVault, csvVaultAbi, 'CollateralValuationUpdated', {
+        vaultId: BigInt(1),
+        oldValue: BigInt(1000),
+        newValue: BigInt(700),
+      })
+      .mine()
+      .emit(addresses.csvVault, csvVaultAbi, 'VaultLiquidated', { vaultId: BigInt(1), liquidator: BOB, penalty: BigInt(78) })
+      .mine()
+
+    const result = await createIndexer().sync()
+
+    expect(result).to.deep.include({ toBlock: BigInt(3), events: 5, reorged: false })
+    expect(store.getVault(BigInt(1))).to.deep.include({
+      owner: ALICE,
+      collateralValue: BigInt(700),
+      debtAmount: BigInt(605),
+      status: 'liquidated',
+      liquidator: BOB,
+      liquidationPenalty: BigInt(78),
+    })
+    expect(store.listVaults({ status: 'active' })).to.have.length(0)
+  })
+
+  it('tracks tranche depositors, yield and oracle responses', async () => {
+    chain
+      .emit(addresses.liquidityPool, csvLiquidityPoolAbi, 'TrancheDeposit', {
+        tranche: TrancheType.SENIOR,
+        user: ALICE,
+        amount: BigInt(500),
+        shares: BigInt(500),
+      })
+      .emit(addresses.liquidityPool, csvLiquidityPoolAbi, 'TrancheDeposit', {
+        tranche: TrancheType.SENIOR,
+        user: BOB,
+        amount: BigInt(800),
+        shares: BigInt(800),
+      })
+      .mine()
+      .emit(addresses.liquidityPool, csvLiquidityPoolAbi, 'YieldCompounded', {
+        tranche: TrancheType.SENIOR,
+        user: BOB,
+        amount: BigInt(40),
+        shares: BigInt(38),
+      })
+      .emit(addresses.liquidityPool, csvLiquidityPoolAbi, 'TrancheWithdrawal', {
+        tranche: TrancheType.SENIOR,
+        user: ALICE,
+        amount: BigInt(500),
+        shares: BigInt(500),
+      })
+      .emit(addresses.liquidityPool, csvLiquidityPoolAbi, 'YieldDistributed', {
+        totalYield: BigInt(100),
+        seniorYield: BigInt(60),
+        juniorYield: BigInt(30),
+        protocolFee: BigInt(10),
+      })
+      .emit(addresses.csvOracle, csvOracleAbi, 'ValuationRequested', {
+        requestId: BigInt(7),
+        policyNumber: 'POL-1',
+        requester: ALICE,
+      })
+      .mine()
+      .emit(addresses.csvOracle, csvOracleAbi, 'ValuationSubmitted', { requestId: BigInt(7), oracle: ORACLE, value: BigInt(990) })
+      .emit(addresses.csvOracle, csvOracleAbi, 'ValuationFinalized', {
+        requestId: BigInt(7),
+        agreedValue: BigInt(990),
+        responseCount: BigInt(1),
+      })
+      .mine()
+
+    await createIndexer().sync()
+
+    const depositors = store.listTrancheDepositors(TrancheType.SENIOR)
+    expect(depositors.map((position) => position.user)).to.deep.equal([BOB])
+    expect(depositors[0]).to.deep.include({ shares: BigInt(838), deposited: BigInt(800), yieldCompounded: BigInt(40) })
+    expect(store.listUserTranchePositions(ALICE)[0]).to.deep.include({ shares: BigInt(0), withdrawn: BigInt(500) })
+    expect(store.listYieldDistributions()).to.have.length(1)
+    expect(store.listYieldDistributions()[0].seniorYield).to.equal(BigInt(60))
+    expect(store.getValuationRequest(BigInt(7))).to.deep.include({
+      policyNumber: 'POL-1',
+      responseCount: 1,
+      agreedValue: BigInt(990),
+    })
+    expect(store.listOracleResponses({ oracle: ORACLE })[0].value).to.equal(BigInt(990))
+  })
+
+  it('counts verified users per jurisdiction from the registry state', async () => {
+    for (const user of [ALICE, BOB]) {
+      chain.emit(addresses.complianceRegistry, complianceRegistryAbi, 'UserKYCUpdated', {
+        user,
+        verified: true,
+        expiry: BigInt(2_000_000_000),
+        provider: ORACLE,
+      })
+    }
+    chain.mine()
+
+    await createIndexer().sync()
+
+    expect(store.countUsersByJurisdiction(US)).to.equal(1)
+    expect(store.countUsersByJurisdiction(DE)).to.equal(1)
+    expect(store.listComplianceUsers({ jurisdictionCode: US }).map((user) => user.user)).to.deep.equal([ALICE])
+  })
+
+  it('projects records imported with batchUpdateCompliance', async () => {
+    chain
+      .emit(addresses.complianceRegistry, complianceRegistryAbi, 'ComplianceStatusImported', {
+        user: ALICE,
+        kycVerified: true,
+        accredited: false,
+        restricted: true,
+        jurisdictionCode: US,
+        kycExpiry: BigInt(2_000_000_000),
+        accreditationExpiry: BigInt(0),
+        lockupExpiry: BigInt(1_900_000_000),
+        kycProvider: ORACLE,
+      })
+      .mine()
+
+    await createIndexer().sync()
+
+    expect(store.getComplianceUser(ALICE)).to.deep.include({
+      kycVerified: true,
+      kycExpiry: BigInt(2_000_000_000),
+      jurisdictionCode: US,
+      accredited: false,
+      restricted: true,
+      lockupExpiry: BigInt(1_900_000_000),
+    })
+  })
+
+  it('resumes from the stored checkpoint', async () => {
+    chain
+      .emit(addresses.csvVault, csvVaultAbi, 'VaultOpened', { vaultId: BigInt(1), owner: ALICE, collateralValue: BigInt(1000) })
+      .mine(3)
+    await createIndexer(BigInt(2)).sync()
+    expect(store.getCheckpoint()?.blockNumber).to.equal(BigInt(3))
+
+    chain
+      .emit(addresses.csvVault, csvVaultAbi, 'TokensMinted', { vaultId: BigInt(1), amount: BigInt(100) })
+      .mine()
+    const result = await createIndexer().sync()
+
+    expect(result).to.deep.include({ fromBlock: BigInt(4), toBlock: BigInt(4), events: 1 })
+    expect(store.listEvents()).to.have.length(2)
+    expect(store.getVault(BigInt(1))?.debtAmount).to.equal(BigInt(100))
+  })
+
+  it('rolls back orphaned blocks and re-indexes the new branch', async () => {
+    chain
+      .emit(addresses.csvVault, csvVaultAbi, 'VaultOpened', { vaultId: BigInt(1), owner: ALICE, collateralValue: BigInt(1000) })
+      .mine()
+      .emit(addresses.csvVault, csvVaultAbi, 'TokensMinted', { vaultId: BigInt(1), amount: BigInt(400) })
+      .mine(2)
+    const indexer = createIndexer()
+    await indexer.sync()
+    expect(store.getVault(BigInt(1))?.debtAmount).to.equal(BigInt(400))
+
+    chain
+      .reorg(BigInt(1))
+      .emit(addresses.csvVault, csvVaultAbi, 'TokensMinted', { vaultId: BigInt(1), amount: BigInt(250) })
+      .mine(3)
+    const result = await indexer.sync()
+
+    expect(result.reorged).to.equal(true)
+    expect(store.getCheckpoint()).to.deep.equal({ blockNumber: BigInt(4), blockHash: chain.blocks[4].hash })
+    expect(store.getVault(BigInt(1))?.debtAmount).to.equal(BigInt(250))
+    expect(store.listEvents({ eventName: 'TokensMinted' })).to.have.length(1)
+  })
+
+  it('re-indexes from the start block when no stored block survives the reorg', async () => {
+    chain
+      .mine()
+      .emit(addresses.csvVault, csvVaultAbi, 'VaultOpened', { vaultId: BigInt(1), owner: ALICE, collateralValue: BigInt(1000) })
+      .mine()
+    const indexer = createIndexer()
+    await indexer.sync()
+
+    chain.reorg(BigInt(0)).mine(2)
+    const result = await indexer.sync()
+
+    expect(result.reorged).to.equal(true)
+    expect(store.listVaults()).to.have.length(0)
+    expect(store.getCheckpoint()?.blockHash).to.equal(chain.blocks[2].hash)
+  })
+})
+
+describe('Indexer API', () => {
+  it('serves projections as JSON with amounts as strings', async () => {
+    const chain = new FakeChain()
+    const store = new IndexerStore()
+    chain
+      .emit(addresses.csvVault, csvVaultAbi, 'VaultOpened', { vaultId: BigInt(3), owner: ALICE, collateralValue: BigInt(10) ** BigInt(24) })
+      .mine()
+    await new Indexer({ publicClient: chain.createClient(), store, addresses }).sync()
+
+    const server = createIndexerServer(store).listen(0)
+    try {
+      await new Promise((resolve) => server.once('listening', resolve))
+      const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`
+
+      const vault = await (await fetch(`${base}/vaults/3`)).json()
+      expect(vault).to.deep.include({ owner: ALICE, collateralValue: '1000000000000000000000000', status: 'active' })
+      expect((await fetch(`${base}/vaults/4`)).status).to.equal(404)
+      expect((await fetch(`${base}/vaults/abc`)).status).to.equal(400)
+      expect(await (await fetch(`${base}/events?contract=csvVault`)).json()).to.have.length(1)
+    } finally {
+      server.close()
+      store.close()
+    }
+  })
+})
@@ -0,0 +1,283 @@
+import { csvVaultAbi, type VaultConfig, type VaultPosition } from '@iyield/sdk'
+import { expect } from 'chai'
+import { encodeErrorResult, getAddress, keccak256, parseEther, parseGwei, toHex, type Address } from 'viem'
+import { LiquidationKeeper, type KeeperOptions } from '../src/keeper/keeper'
+import { accruedStabilityFee, assessVault, rankCandidates } from '../src/keeper/risk'
+import { addresses, ALICE, BOB, FakeChain, Revert, revertWith, type CallContext } from './helpers'
+
+const KEEPER: Address = getAddress('0x000000000000000000000000000000000000cee9')
+const LIQUIDATOR_ROLE = keccak256(toHex('LIQUIDATOR_ROLE'))
+const YEAR = BigInt(365 * 24 * 60 * 60)
+const BPS = BigInt(10000)
+
+/**
+ * Minimal CSVVault: positions, config and `liquidateVault`, with the
+ * contract's fee accrual and LTV arithmetic.
+ */
+class VaultModel {
+  readonly positions = new Map<bigint, VaultPosition>()
+  readonly liquidators = new Set<Address>([KEEPER])
+  config: VaultConfig = {
+    maxLTV: BigInt(8000),
+    liquidationPenalty: BigInt(500),
+    minCollateralValue: BigInt(0),
+    stabilityFee: BigInt(0),
+    isEnabled: true,
+  }
+  private nextId = BigInt(1)
+  private nextAuctionId = BigInt(1)
+
+  constructor(private readonly chain: FakeChain) {
+    chain.onCall = (functionName, args, context) => this.handle(functionName, args, context)
+  }
+
+  open(owner: Address, collateralValue: bigint, debtAmount: bigint): bigint {
+    const vaultId = this.nextId++
+    this.positions.set(vaultId, {
+      tokenId: vaultId,
+      collateralValue,
+      debtAmount,
+      liquidationThreshold: (collateralValue * this.config.maxLTV) / BPS,
+      lastUpdateTimestamp: this.chain.nextTimestamp,
+      owner,
+      isActive: true,
+    })
+    this.emit('VaultOpened', { vaultId, owner, collateralValue })
+    if (debtAmount > BigInt(0)) this.emit('TokensMinted', { vaultId, amount: debtAmount })
+    this.chain.mine()
+    return vaultId
+  }
+
+  revalue(vaultId: bigint, newValue: bigint): void {
+    const position = this.positions.get(vaultId)!
+    this.emit('CollateralValuationUpdated', { vaultId, oldValue: position.collateralValue, newValue })
+    position.collateralValue = newValue
+    this.chain.mine()
+  }
+
+  private emit(eventName: string, args: Record<string, unknown>) {
+    this.chain.emit(addresses.csvVault, csvVaultAbi, eventName, args)
+  }
+
+  private handle(functionName: string, args: readonly unknown[], context: CallContext): unknown {
+    switch (functionName) {
+      case 'vaultConfig': {
+        const { maxLTV, liquidationPenalty, minCollateralValue, stabilityFee, isEnabled } = this.config
+        return [maxLTV, liquidationPenalty, minCollateralValue, stabilityFee, isEnabled]
+      }
+      case 'getVaultPosition':
+        return this.positions.get(args[0] as bigint)
+      case 'liquidateVault':
+        return this.liquidate(args[0] as bigint, context)
+      default:
+        throw new Error(`Unexpected call ${functionName}`)
+    }
+  }
+
+  private liquidate(vaultId: bigint, { from, timestamp, commit }: CallContext) {
+    if (!from || !this.liquidators.has(from)) {
+      throw new Revert(
+        encodeErrorResult({
+          abi: csvVaultAbi,
+          errorName: 'AccessControlUnauthorizedAccount',
+          args: [from ?? ALICE, LIQUIDATOR_ROLE],
+        })
+      )
+    }
+    const stored = this.positions.get(vaultId)
+    if (!stored) revertWith('CSVVault: Vault does not exist')
+    const position = { ...stored }
+    const elapsed = timestamp - position.lastUpdateTimestamp
+    const fee = (position.debtAmount * ((this.config.stabilityFee * elapsed) / YEAR)) / BPS
+    position.debtAmount += fee
+    if ((position.debtAmount * BPS) / position.collateralValue <= this.config.maxLTV) {
+      revertWith('CSVVault: Vault not liquidatable')
+    }
+    const auctionId = this.nextAuctionId
+    if (!commit) return auctionId
+    this.nextAuctionId++
+    if (fee > BigInt(0)) this.emit('StabilityFeeAccrued', { vaultId, feeAmount: fee })
+    position.isActive = false
+    this.positions.set(vaultId, position)
+    const penalty = (position.collateralValue * this.config.liquidationPenalty) / BPS
+    this.emit('VaultLiquidated', { vaultId, liquidator: from, penalty })
+    return auctionId
+  }
+}
+
+describe('Liquidation risk', () => {
+  const config: VaultConfig = {
+    maxLTV: BigInt(8000),
+    liquidationPenalty: BigInt(500),
+    minCollateralValue: BigInt(0),
+    stabilityFee: BigInt(300),
+    isEnabled: true,
+  }
+  const position = (collateralValue: bigint, debtAmount: bigint): VaultPosition => ({
+    tokenId: BigInt(1),
+    collateralValue,
+    debtAmount,
+    liquidationThreshold: BigInt(0),
+    lastUpdateTimestamp: BigInt(1000),
+    owner: ALICE,
+    isActive: true,
+  })
+
+  it('projects the stability fee with the contract rounding', () => {
+    // The fee rate is truncated to whole basis points: 300 bps * 1 day / 1 year rounds down to 0.
+    expect(accruedStabilityFee(position(BigInt(1000), BigInt(700)), config, BigInt(1000 + 86400))).to.equal(BigInt(0))
+    expect(accruedStabilityFee(position(BigInt(1000), BigInt(10_000)), config, BigInt(1000) + YEAR / BigInt(2))).to.equal(
+      BigInt(150)
+    )
+  })
+
+  it('ranks liquidatable vaults by expected penalty, then LTV, then ID', () => {
+    const assessments = [
+      assessVault(BigInt(1), position(BigInt(1000), BigInt(900)), config, BigInt(1000)),
+      assessVault(BigInt(2), position(BigInt(5000), BigInt(4100)), config, BigInt(1000)),
+      assessVault(BigInt(3), position(BigInt(1000), BigInt(950)), config, BigInt(1000)),
+      assessVault(BigInt(4), position(BigInt(1000), BigInt(900)), config, BigInt(1000)),
+      assessVault(BigInt(5), position(BigInt(9000), BigInt(100)), config, BigInt(1000)),
+    ]
+    expect(rankCandidates(assessments).map((assessment) => assessment.vaultId)).to.deep.equal([
+      BigInt(2),
+      BigInt(3),
+      BigInt(1),
+      BigInt(4),
+    ])
+  })
+})
+
+describe('LiquidationKeeper', () => {
+  let chain: FakeChain
+  let vault: VaultModel
+
+  const createKeeper = (options: Partial<KeeperOptions> = {}) =>
+    new LiquidationKeeper({
+      publicClient: chain.createClient(),
+      walletClient: chain.createWalletClient(KEEPER),
+      vaultAddress: addresses.csvVault,
+      retryDelayMs: 1,
+      ...options,
+    })
+
+  beforeEach(() => {
+    chain = new FakeChain(csvVaultAbi)
+    vault = new VaultModel(chain)
+  })
+
+  it('liquidates a vault pushed over maxLTV by a new valuation', async () => {
+    const vaultId = vault.open(ALICE, parseEther('1000'), parseEther('700'))
+    const keeper = createKeeper()
+
+    expect((await keeper.runOnce()).candidates).to.have.length(0)
+
+    vault.revalue(vaultId, parseEther('800'))
+    const report = await keeper.runOnce()
+
+    expect(report.results).to.have.length(1)
+    expect(report.results[0]).to.deep.include({
+      vaultId,
+      status: 'liquidated',
+      trigger: 'valuation',
+      expectedPenalty: parseEther('40'),
+      attempts: 1,
+    })
+    expect(vault.positions.get(vaultId)!.isActive).to.equal(false)
+    expect((await keeper.runOnce()).vaults).to.equal(0)
+  })
+
+  it('catches vaults that only stability fee accrual pushes over maxLTV', async () => {
+    vault.config.stabilityFee = BigInt(300)
+    const vaultId = vault.open(ALICE, parseEther('1000'), parseEther('790'))
+    const keeper = createKeeper()
+
+    expect((await keeper.runOnce()).candidates).to.have.length(0)
+
+    // Half a year at 3% adds 150 bps of debt: 790 * 1.015 = 801.85 > 800.
+    chain.increaseTime(YEAR / BigInt(2))
+    const report = await keeper.runOnce()
+
+    expect(report.candidates[0]).to.deep.include({ vaultId, projectedDebt: parseEther('801.85') })
+    expect(report.results[0]).to.deep.include({ status: 'liquidated', trigger: 'stability-fee' })
+  })
+
+  it('liquidates candidates in order of expected penalty', async () => {
+    vault.open(ALICE, parseEther('1000'), parseEther('700'))
+    vault.open(BOB, parseEther('3000'), parseEther('2000'))
+    vault.open(ALICE, parseEther('2000'), parseEther('1000'))
+    vault.config.maxLTV = BigInt(4000)
+
+    const report = await createKeeper().runOnce()
+
+    expect(report.results.map((result) => [result.vaultId, result.trigger, result.status])).to.deep.equal([
+      [BigInt(2), 'debt', 'liquidated'],
+      [BigInt(3), 'debt', 'liquidated'],
+      [BigInt(1), 'debt', 'liquidated'],
+    ])
+    expect(chain.transactions).to.have.length(3)
+  })
+
+  it('only simulates in dry-run mode', async () => {
+    const vaultId = vault.open(ALICE, parseEther('1000'), parseEther('700'))
+    vault.revalue(vaultId, parseEther('800'))
+
+    const report = await createKeeper({ dryRun: true, walletClient: undefined, account: KEEPER }).runOnce()
+
+    expect(report.results[0]).to.deep.include({ vaultId, status: 'simulated' })
+    expect(chain.transactions).to.have.length(0)
+    expect(vault.positions.get(vaultId)!.isActive).to.equal(true)
+  })
+
+  it('retries failed submissions with backoff', async () => {
+    const vaultId = vault.open(ALICE, parseEther('1000'), parseEther('900'))
+    let failures = 2
+    chain.beforeSend = () => {
+      if (failures-- > 0) throw new Error('nonce too low')
+    }
+
+    const report = await createKeeper({ maxAttempts: 3 }).runOnce()
+
+    expect(report.results[0]).to.deep.include({ vaultId, status: 'liquidated', attempts: 3 })
+  })
+
+  it('gives up after the last attempt', async () => {
+    vault.open(ALICE, parseEther('1000'), parseEther('900'))
+    chain.beforeSend = () => {
+      throw new Error('connection reset')
+    }
+
+    const report = await createKeeper({ maxAttempts: 2 }).runOnce()
+
+    expect(report.results[0]).to.deep.include({ status: 'failed', attempts: 2 })
+  })
+
+  it('does not retry reverts that cannot succeed', async () => {
+    vault.open(ALICE, parseEther('1000'), parseEther('900'))
+    vault.liquidators.clear()
+
+    const report = await createKeeper({ maxAttempts: 3 }).runOnce()
+
+    expect(report.results[0]).to.deep.include({ status: 'skipped', attempts: 1, reason: 'UNAUTHORIZED' })
+    expect(chain.transactions).to.have.length(0)
+  })
+
+  it('postpones liquidations while gas is above the cap', async () => {
+    vault.open(ALICE, parseEther('1000'), parseEther('900'))
+    chain.baseFeePerGas = parseGwei('80')
+
+    const report = await createKeeper({ maxFeePerGas: parseGwei('50') }).runOnce()
+
+    expect(report.results[0]).to.deep.include({ status: 'skipped', reason: 'GAS_PRICE_ABOVE_CAP' })
+    expect(chain.transactions).to.have.length(0)
+  })
+
+  it('sends the configured gas limit and fee caps', async () => {
+    vault.open(ALICE, parseEther('1000'), parseEther('900'))
+
+    await createKeeper({ gasLimit: BigInt(321_000), maxFeePerGas: parseGwei('50') }).runOnce()
+
+    expect(chain.transactions[0].gas).to.equal(BigInt(321_000))
+    expect(chain.transactions[0].maxFeePerGas <= parseGwei('50')).to.equal(true)
+  })
+})
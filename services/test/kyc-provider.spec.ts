@@ -0,0 +1,112 @@
+import { expect } from 'chai'
+import {
+  complianceRegistryAbi,
+  kycAttestationDomain,
+  recoverKYCAttestationSigner,
+  type KYCAttestation,
+} from '@iyield/sdk'
+import { createWalletClient, custom, type Address, type Hex } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { MockKYCProvider, parseAttestation, relayKYCAttestation, serializeAttestation } from '../src'
+import { ALICE, BOB, FakeChain, addresses, revertWith } from './helpers'
+
+const REGISTRY = addresses.complianceRegistry
+const FEE = BigInt(10_000)
+const KYC_VALIDITY = BigInt(365 * 24 * 60 * 60)
+const providerAccount = privateKeyToAccount('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d')
+
+/** The registry's attestation checks, enough to exercise signing and relaying. */
+class RegistryModel {
+  readonly verified = new Map<Address, KYCAttestation>()
+  readonly usedNonces = new Set<Hex>()
+  readonly domain = kycAttestationDomain(31337, REGISTRY)
+
+  constructor(private readonly chain: FakeChain, private readonly supportedJurisdictions = [BigInt(1)]) {
+    chain.onCall = (name, args, { commit }) => {
+      switch (name) {
+        case 'eip712Domain':
+          return ['0x0f', this.domain.name, this.domain.version, BigInt(31337), REGISTRY, `0x${'00'.repeat(32)}`, []]
+        case 'getKYCProvider':
+          return {
+            name: 'MockKYC',
+            endpoint: '',
+            isActive: true,
+            verificationFee: FEE,
+            supportedJurisdictions: this.supportedJurisdictions,
+          }
+        case 'defaultLockupPeriod':
+        case 'accreditationValidityPeriod':
+        case 'kycValidityPeriod':
+          return KYC_VALIDITY
+        case 'autoRenewalEnabled':
+          return false
+        case 'submitKYCAttestation':
+          return this.submit(args[0] as KYCAttestation, commit)
+        default:
+          throw new Error(`Unexpected call ${name}`)
+      }
+    }
+  }
+
+  private submit(attestation: KYCAttestation, commit: boolean) {
+    if (this.usedNonces.has(attestation.nonce)) revertWith('ComplianceRegistry: Nonce already used')
+    if (commit) {
+      this.usedNonces.add(attestation.nonce)
+      this.verified.set(attestation.user, attestation)
+    }
+  }
+}
+
+function setup(supportedJurisdictions?: bigint[]) {
+  const chain = new FakeChain(complianceRegistryAbi)
+  const registry = new RegistryModel(chain, supportedJurisdictions)
+  const publicClient = chain.createClient()
+  const provider = new MockKYCProvider({
+    publicClient,
+    walletClient: createWalletClient({
+      account: providerAccount,
+      transport: custom({ request: async () => Promise.reject(new Error('signing is local')) }),
+    }),
+    registryAddress: REGISTRY,
+  })
+  return { chain, registry, publicClient, provider }
+}
+
+describe('mock KYC provider', () => {
+  it('signs attestations the registry attributes to the provider', async () => {
+    const { chain, registry, provider } = setup()
+
+    const signed = await provider.attest({ user: ALICE, jurisdictionCode: BigInt(1), kycHash: 'QmAlice' })
+    const again = await provider.attest({ user: ALICE, jurisdictionCode: BigInt(1), kycHash: 'QmAlice' })
+
+    expect(signed.provider).to.equal(providerAccount.address)
+    expect(signed.attestation.expiry).to.equal(chain.latest.timestamp + KYC_VALIDITY)
+    expect(signed.attestation.nonce).not.to.equal(again.attestation.nonce)
+    expect(await recoverKYCAttestationSigner(registry.domain, signed.attestation, signed.signature)).to.equal(
+      providerAccount.address
+    )
+  })
+
+  it('only signs for jurisdictions the provider supports', async () => {
+    const { provider } = setup([BigInt(840)])
+
+    try {
+      await provider.attest({ user: ALICE, jurisdictionCode: BigInt(1), kycHash: 'QmAlice' })
+      expect.fail('expected an error')
+    } catch (error) {
+      expect((error as Error).message).to.match(/does not support jurisdiction 1/)
+    }
+  })
+
+  it('relays a serialized attestation from another account with the provider fee', async () => {
+    const { chain, registry, publicClient, provider } = setup()
+    const signed = await provider.attest({ user: ALICE, jurisdictionCode: BigInt(1), kycHash: 'QmAlice' })
+    const json = JSON.parse(JSON.stringify(serializeAttestation(signed)))
+
+    const hash = await relayKYCAttestation(publicClient, chain.createWalletClient(BOB), REGISTRY, parseAttestation(json))
+
+    expect(registry.verified.get(ALICE)).to.deep.equal(signed.attestation)
+    expect(chain.transactions).to.have.length(1)
+    expect(chain.transactions[0]).to.include({ hash, from: BOB, value: FEE })
+  })
+})
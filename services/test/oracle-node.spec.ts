@@ -0,0 +1,443 @@
+import { csvOracleAbi, valuationCommitment, type OracleResponse, type ValuationRequest } from '@iyield/sdk'
+import { expect } from 'chai'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import type { AddressInfo } from 'net'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { encodeFunctionData, getAddress, parseEther, zeroAddress, zeroHash, type Address, type Hex } from 'viem'
+import { FileStatementAdapter, type CarrierStatementAdapter } from '../src/oracle-node/adapters'
+import { OracleNode, type OracleNodeOptions } from '../src/oracle-node/node'
+import type { HealthReport } from '../src/oracle-node/metrics'
+import { buildProofHash } from '../src/oracle-node/proof'
+import { createHealthServer } from '../src/oracle-node/server'
+import { SubmissionStore } from '../src/oracle-node/state'
+import { addresses, ALICE, BOB, FakeChain, revertWith, type CallContext } from './helpers'
+
+const OPERATOR: Address = getAddress('0x00000000000000000000000000000000000000a1')
+const RESPONSE_PERIOD = BigInt(24 * 60 * 60)
+const REVEAL_PERIOD = BigInt(12 * 60 * 60)
+const SALT: Hex = `0x${'5a'.repeat(32)}`
+
+/** Minimal CSVOracle: requests with fixed oracle assignments and the commit and reveal checks. */
+class OracleModel {
+  readonly requests = new Map<bigint, ValuationRequest>()
+  readonly assignments = new Map<bigint, Address[]>()
+  readonly commitments = new Map<string, Hex>()
+  readonly responses = new Map<string, OracleResponse>()
+  active = true
+  private nextId = BigInt(1)
+
+  constructor(private readonly chain: FakeChain) {
+    chain.onCall = (functionName, args, context) => this.handle(functionName, args, context)
+  }
+
+  request(policyNumber: string, assigned: Address[], deadlineIn = BigInt(3600)): bigint {
+    const requestId = this.nextId++
+    const timestamp = this.chain.nextTimestamp
+    this.requests.set(requestId, {
+      requestId,
+      policyNumber,
+      requester: ALICE,
+      timestamp,
+      deadline: timestamp + deadlineIn,
+      isActive: true,
+      responseCount: BigInt(0),
+      agreedValue: BigInt(0),
+      isFinalized: false,
+      ipfsHash: '',
+    })
+    this.assignments.set(requestId, assigned)
+    this.chain.emit(addresses.csvOracle, csvOracleAbi, 'ValuationRequested', { requestId, policyNumber, requester: ALICE })
+    this.chain.mine()
+    return requestId
+  }
+
+  response(requestId: bigint, oracle: Address): OracleResponse | undefined {
+    return this.responses.get(`${requestId}:${oracle}`)
+  }
+
+  private handle(functionName: string, args: readonly unknown[], context: CallContext): unknown {
+    switch (functionName) {
+      case 'consensusConfig':
+        return [BigInt(3), BigInt(7), BigInt(6000), BigInt(3600), BigInt(1000), RESPONSE_PERIOD]
+      case 'revealPeriod':
+        return REVEAL_PERIOD
+      case 'missedRevealSlashRate':
+        return BigInt(500)
+      case 'commitments':
+        return this.commitments.get(`${args[0]}:${args[1]}`) ?? zeroHash
+      case 'getOracleInfo':
+        return {
+          name: 'Test oracle',
+          endpoint: '',
+          isActive: this.active,
+          totalSubmissions: BigInt(0),
+          totalCorrectSubmissions: BigInt(0),
+          reputationScore: BigInt(100),
+          operatorAddress: args[0],
+          stakingAmount: parseEther('10'),
+          lastActiveTimestamp: BigInt(0),
+        }
+      case 'getValuationRequest':
+        return (
+          this.requests.get(args[0] as bigint) ?? { ...this.requests.get(BigInt(1))!, requestId: BigInt(0), isActive: false }
+        )
+      case 'getAssignedOracles':
+        return this.assignments.get(args[0] as bigint) ?? []
+      case 'getOracleResponse':
+        return (
+          this.response(args[0] as bigint, args[1] as Address) ?? {
+            oracle: zeroAddress,
+            value: BigInt(0),
+            timestamp: BigInt(0),
+            proofHash: zeroHash,
+            documentationURI: '',
+            isValid: false,
+          }
+        )
+      case 'commitValuation':
+        return this.commit(args as [bigint, Hex], context)
+      case 'revealValuation':
+        return this.reveal(args as [bigint, bigint, Hex, Hex, string], context)
+      default:
+        throw new Error(`Unexpected call ${functionName}`)
+    }
+  }
+
+  private commit([requestId, commitment]: [bigint, Hex], context: CallContext) {
+    const request = this.requests.get(requestId)
+    if (!request?.isActive) revertWith('CSVOracle: Request not active')
+    if (context.timestamp > request.deadline) revertWith('CSVOracle: Deadline passed')
+    if (this.commitments.has(`${requestId}:${context.from}`)) revertWith('CSVOracle: Already committed')
+    if (!this.assignments.get(requestId)!.includes(context.from!)) revertWith('CSVOracle: Oracle not assigned to request')
+    if (!context.commit) return
+    this.commitments.set(`${requestId}:${context.from}`, commitment)
+    this.chain.emit(addresses.csvOracle, csvOracleAbi, 'ValuationCommitted', { requestId, oracle: context.from, commitment })
+  }
+
+  private reveal([requestId, value, salt, proofHash, documentationURI]: [bigint, bigint, Hex, Hex, string], context: CallContext) {
+    const request = this.requests.get(requestId)
+    if (!request?.isActive) revertWith('CSVOracle: Request not active')
+    if (context.timestamp <= request.deadline) revertWith('CSVOracle: Reveal period not started')
+    if (context.timestamp > request.deadline + REVEAL_PERIOD) revertWith('CSVOracle: Reveal period over')
+    const commitment = this.commitments.get(`${requestId}:${context.from}`)
+    if (!commitment) revertWith('CSVOracle: Not committed')
+    if (this.response(requestId, context.from!)) revertWith('CSVOracle: Already submitted')
+    if (commitment !== valuationCommitment({ requestId, oracle: context.from!, value, salt })) {
+      revertWith('CSVOracle: Commitment mismatch')
+    }
+    if (!context.commit) return
+    this.responses.set(`${requestId}:${context.from}`, {
+      oracle: context.from!,
+      value,
+      timestamp: context.timestamp,
+      proofHash,
+      documentationURI,
+      isValid: true,
+    })
+    request.responseCount++
+    this.chain.emit(addresses.csvOracle, csvOracleAbi, 'ValuationSubmitted', { requestId, oracle: context.from, value })
+  }
+}
+
+describe('OracleNode', () => {
+  let chain: FakeChain
+  let oracle: OracleModel
+  let store: SubmissionStore
+  let statements: string
+
+  const writeStatement = (policyNumber: string, cashSurrenderValue: string) =>
+    writeFileSync(
+      join(statements, `${policyNumber}.json`),
+      JSON.stringify({ carrier: 'Acme Life', cashSurrenderValue, statementDate: '2026-09-30' })
+    )
+
+  const createNode = (options: Partial<OracleNodeOptions> = {}) =>
+    new OracleNode({
+      publicClient: chain.createClient(),
+      walletClient: chain.createWalletClient(OPERATOR),
+      contractAddress: addresses.csvOracle,
+      adapter: new FileStatementAdapter(statements),
+      store,
+      documentBaseURI: 'https://docs.oracle.test/statements/',
+      ...options,
+    })
+
+  beforeEach(() => {
+    chain = new FakeChain(csvOracleAbi)
+    oracle = new OracleModel(chain)
+    store = new SubmissionStore()
+    statements = mkdtempSync(join(tmpdir(), 'statements-'))
+  })
+
+  afterEach(() => {
+    store.close()
+    rmSync(statements, { recursive: true, force: true })
+  })
+
+  /** Runs a pass after the deadline of a one-hour request, when the commitment can be revealed. */
+  const revealPass = (node = createNode()) => {
+    chain.increaseTime(BigInt(3600))
+    return node.runOnce()
+  }
+
+  it('commits to the statement value and reveals it with its proof after the deadline', async () => {
+    writeStatement('POL-1', '125000.50')
+    const requestId = oracle.request('POL-1', [BOB, OPERATOR])
+
+    const report = await createNode().runOnce()
+
+    expect(report).to.deep.include({ committed: [requestId], submitted: [] })
+    expect(oracle.response(requestId, OPERATOR)).to.equal(undefined)
+    const { salt } = store.get(requestId)!
+    expect(oracle.commitments.get(`${requestId}:${OPERATOR}`)).to.equal(
+      valuationCommitment({ requestId, oracle: OPERATOR, value: parseEther('125000.5'), salt: salt! })
+    )
+    expect(store.get(requestId)!.status).to.equal('committed')
+
+    // Nothing to do until the deadline has passed
+    await createNode().runOnce()
+    expect(chain.transactions).to.have.length(1)
+
+    expect((await revealPass()).submitted).to.deep.equal([requestId])
+    const response = oracle.response(requestId, OPERATOR)!
+    expect(response.value).to.equal(parseEther('125000.5'))
+
+    const statement = await new FileStatementAdapter(statements).getStatement({ requestId, policyNumber: 'POL-1', ipfsHash: '' })
+    const proofHash = buildProofHash(OPERATOR, requestId, response.value, statement)
+    expect(response.proofHash).to.equal(proofHash)
+    expect(response.documentationURI).to.equal(`https://docs.oracle.test/statements/POL-1/${proofHash}`)
+    expect(store.get(requestId)).to.deep.include({ status: 'submitted', attempts: 2, proofHash })
+  })
+
+  it('ignores requests it is not assigned to', async () => {
+    writeStatement('POL-1', '1000')
+    const requestId = oracle.request('POL-1', [BOB])
+
+    const node = createNode()
+    await node.runOnce()
+
+    expect(chain.transactions).to.have.length(0)
+    expect(store.get(requestId)!.status).to.equal('not-assigned')
+    expect(node.metrics.counters).to.deep.include({ requestsSeen: 1, requestsAssigned: 0 })
+  })
+
+  it('never commits or reveals the same request twice', async () => {
+    writeStatement('POL-1', '1000')
+    oracle.request('POL-1', [OPERATOR])
+
+    await createNode().runOnce()
+    await createNode().runOnce()
+    expect(chain.transactions).to.have.length(1)
+    await revealPass()
+    await createNode().runOnce()
+    expect(chain.transactions).to.have.length(2)
+
+    // A node that lost its state still sees the response on-chain.
+    store.close()
+    store = new SubmissionStore()
+    await createNode().runOnce()
+    expect(chain.transactions).to.have.length(2)
+    expect(store.list('submitted')).to.have.length(1)
+  })
+
+  it('waits on a broadcast commitment instead of sending another, then reveals it', async () => {
+    writeStatement('POL-1', '1000')
+    const requestId = oracle.request('POL-1', [OPERATOR])
+    store.recordRequests([{ requestId, policyNumber: 'POL-1', blockNumber: chain.head }], chain.head)
+
+    // Broadcast by an earlier run that stopped before seeing the receipt.
+    chain.holdTransactions = true
+    const value = parseEther('1000')
+    const data = encodeFunctionData({
+      abi: csvOracleAbi,
+      functionName: 'commitValuation',
+      args: [requestId, valuationCommitment({ requestId, oracle: OPERATOR, value, salt: SALT })],
+    })
+    const hash = await chain.createWalletClient(OPERATOR).sendTransaction({ to: addresses.csvOracle, data, chain: null })
+    store.markAttempt(requestId, { value, proofHash: zeroHash, documentationURI: '', salt: SALT })
+    store.markSent(requestId, hash)
+
+    await createNode().runOnce()
+    expect(chain.transactions).to.have.length(1)
+    expect(store.get(requestId)!.status).to.equal('sent')
+
+    chain.holdTransactions = false
+    chain.releaseTransactions()
+    await createNode().runOnce()
+    expect(chain.transactions).to.have.length(1)
+    expect(store.get(requestId)!.status).to.equal('committed')
+
+    expect((await revealPass()).submitted).to.deep.equal([requestId])
+    expect(oracle.response(requestId, OPERATOR)!.value).to.equal(value)
+  })
+
+  it('commits again when the broadcast transaction was dropped', async () => {
+    writeStatement('POL-1', '1000')
+    const requestId = oracle.request('POL-1', [OPERATOR])
+    store.recordRequests([{ requestId, policyNumber: 'POL-1', blockNumber: chain.head }], chain.head)
+    store.markAttempt(requestId, { value: parseEther('1000'), proofHash: zeroHash, documentationURI: '', salt: SALT })
+    store.markSent(requestId, `0x${'11'.repeat(32)}`)
+
+    const report = await createNode().runOnce()
+
+    expect(report.committed).to.deep.equal([requestId])
+    expect(store.get(requestId)).to.deep.include({ status: 'committed', attempts: 2 })
+    expect(store.get(requestId)!.salt).not.to.equal(SALT)
+  })
+
+  it('does not start a commitment too close to the deadline', async () => {
+    writeStatement('POL-1', '1000')
+    const requestId = oracle.request('POL-1', [OPERATOR], BigInt(120))
+
+    const node = createNode({ deadlineMarginSeconds: BigInt(300) })
+    await node.runOnce()
+
+    expect(chain.transactions).to.have.length(0)
+    expect(store.get(requestId)!.status).to.equal('expired')
+    expect(node.metrics.counters.deadlinesMissed).to.equal(1)
+  })
+
+  it('uses the response period when it ends before the request deadline', async () => {
+    writeStatement('POL-1', '1000')
+    const requestId = oracle.request('POL-1', [OPERATOR], BigInt(7 * 24 * 60 * 60))
+    chain.increaseTime(RESPONSE_PERIOD)
+
+    await createNode().runOnce()
+
+    expect(store.get(requestId)!.status).to.equal('expired')
+  })
+
+  it('gives up on a commitment once the reveal period is over', async () => {
+    writeStatement('POL-1', '1000')
+    const requestId = oracle.request('POL-1', [OPERATOR])
+    const node = createNode()
+    await node.runOnce()
+
+    chain.increaseTime(BigInt(3600) + REVEAL_PERIOD)
+    await node.runOnce()
+
+    expect(chain.transactions).to.have.length(1)
+    expect(store.get(requestId)).to.deep.include({ status: 'expired', error: 'reveal period over' })
+    expect(node.metrics.counters.revealsMissed).to.equal(1)
+  })
+
+  it('does not reveal a commitment its stored salt does not open', async () => {
+    writeStatement('POL-1', '1000')
+    const requestId = oracle.request('POL-1', [OPERATOR])
+    const node = createNode()
+    await node.runOnce()
+    store.db.prepare('UPDATE submissions SET salt = ? WHERE request_id = ?').run(SALT, Number(requestId))
+
+    await revealPass(node)
+
+    expect(chain.transactions).to.have.length(1)
+    expect(oracle.response(requestId, OPERATOR)).to.equal(undefined)
+    expect(store.get(requestId)!.status).to.equal('expired')
+    expect(node.metrics.counters.revealsMissed).to.equal(1)
+  })
+
+  it('retries adapter failures up to the attempt limit', async () => {
+    const requestId = oracle.request('POL-404', [OPERATOR])
+    let calls = 0
+    const adapter: CarrierStatementAdapter = {
+      name: 'flaky',
+      getStatement: async (query) => {
+        calls++
+        throw new Error(`carrier API unavailable for ${query.policyNumber}`)
+      },
+    }
+    const node = createNode({ adapter, maxAttempts: 2 })
+
+    await node.runOnce()
+    expect(store.get(requestId)).to.deep.include({ status: 'failed', attempts: 0 })
+    expect(node.health().status).to.equal('degraded')
+
+    writeStatement('POL-404', '1000')
+    await createNode({ maxAttempts: 2 }).runOnce()
+    expect(store.get(requestId)!.status).to.equal('committed')
+    expect(calls).to.equal(1)
+    expect(node.metrics.counters.adapterErrors).to.equal(1)
+  })
+
+  it('gives up on a request after the attempt limit', async () => {
+    writeStatement('POL-1', '1000')
+    const requestId = oracle.request('POL-1', [OPERATOR])
+    chain.beforeSend = () => {
+      throw new Error('insufficient funds for gas')
+    }
+    const node = createNode({ maxAttempts: 2 })
+
+    await node.runOnce()
+    await node.runOnce()
+    await node.runOnce()
+
+    expect(store.get(requestId)).to.deep.include({ status: 'failed', attempts: 2 })
+    expect(node.metrics.counters.submissionsFailed).to.equal(2)
+  })
+
+  it('marks requests finalized or withdrawn elsewhere as closed', async () => {
+    writeStatement('POL-1', '1000')
+    const requestId = oracle.request('POL-1', [OPERATOR])
+    oracle.requests.get(requestId)!.isFinalized = true
+
+    await createNode().runOnce()
+
+    expect(store.get(requestId)!.status).to.equal('closed')
+    expect(chain.transactions).to.have.length(0)
+  })
+
+  it('resumes scanning from the last block it recorded', async () => {
+    writeStatement('POL-1', '1000')
+    writeStatement('POL-2', '2000')
+    oracle.request('POL-1', [OPERATOR])
+    await createNode().runOnce()
+
+    oracle.request('POL-2', [OPERATOR])
+    const report = await createNode().runOnce()
+
+    expect(report.newRequests).to.equal(1)
+    expect(store.list('committed').map((item) => item.policyNumber)).to.deep.equal(['POL-1', 'POL-2'])
+  })
+
+  it('adds the salt column to stores created before commit-reveal', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'oracle-store-'))
+    try {
+      const filename = join(dir, 'oracle.db')
+      const legacy = new SubmissionStore(filename)
+      legacy.db.exec('ALTER TABLE submissions DROP COLUMN salt')
+      legacy.recordRequests([{ requestId: BigInt(1), policyNumber: 'POL-1', blockNumber: BigInt(10) }], BigInt(10))
+      legacy.close()
+
+      const migrated = new SubmissionStore(filename)
+      expect(migrated.get(BigInt(1))).to.deep.include({ status: 'new', salt: null })
+      migrated.close()
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('serves health and Prometheus metrics', async () => {
+    writeStatement('POL-1', '1000')
+    oracle.request('POL-1', [OPERATOR])
+    const node = createNode()
+    await node.runOnce()
+    await revealPass(node)
+
+    const server = createHealthServer(node).listen(0)
+    try {
+      await new Promise((resolve) => server.once('listening', resolve))
+      const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+      const health = (await (await fetch(`${base}/health`)).json()) as HealthReport
+      expect(health).to.deep.include({ status: 'ok', oracle: OPERATOR, oracleActive: true })
+      expect(health.counters).to.deep.include({ commitsConfirmed: 1, submissionsConfirmed: 1 })
+
+      const metrics = await (await fetch(`${base}/metrics`)).text()
+      expect(metrics).to.contain('iyield_oracle_submissions_confirmed_total 1')
+      expect(metrics).to.contain('iyield_oracle_submissions{status="submitted"} 1')
+    } finally {
+      server.close()
+    }
+  })
+})
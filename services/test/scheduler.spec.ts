@@ -0,0 +1,317 @@
+import { csvOracleAbi, csvVaultAbi, ercRwaCsvAbi, type ValuationRequest, type VaultPosition } from '@iyield/sdk'
+import { expect } from 'chai'
+import { decodeFunctionData, encodeErrorResult, getAddress, parseEther, type Abi, type Address } from 'viem'
+import { planRevaluations, requestState, type VaultValuation } from '../src/scheduler/plan'
+import { ValuationScheduler, type SchedulerOptions } from '../src/scheduler/scheduler'
+import { addresses, ALICE, BOB, FakeChain, Revert, revertWith, type CallContext } from './helpers'
+
+const SCHEDULER: Address = getAddress('0x0000000000000000000000000000000000005ced')
+const DAY = BigInt(24 * 60 * 60)
+const MAX_AGE = BigInt(90) * DAY
+const FEE = parseEther('0.01')
+
+const callAbi = [...csvVaultAbi, ...ercRwaCsvAbi, ...csvOracleAbi] as Abi
+
+/**
+ * Minimal CSVVault, ERCRWACSV and CSVOracle: vault positions and their
+ * valuation times, token policy numbers and `requestValuation`.
+ */
+class ProtocolModel {
+  readonly positions = new Map<bigint, VaultPosition>()
+  readonly valuedAt = new Map<bigint, bigint>()
+  readonly policies = new Map<bigint, string>()
+  readonly requests: ValuationRequest[] = []
+  readonly latestRequest = new Map<string, bigint>()
+  maxValuationAge = MAX_AGE
+  requestFee = FEE
+  responsePeriod = DAY
+  revealPeriod = BigInt(12 * 60 * 60)
+  paused = false
+  private nextId = BigInt(1)
+
+  constructor(private readonly chain: FakeChain) {
+    chain.onCall = (functionName, args, context) => this.handle(functionName, args, context)
+  }
+
+  /** Opens a vault against a new token for `policyNumber`, valued `age` seconds ago. */
+  open(owner: Address, policyNumber: string, age: bigint): bigint {
+    const vaultId = this.nextId++
+    this.positions.set(vaultId, {
+      tokenId: vaultId,
+      collateralValue: parseEther('1000'),
+      debtAmount: BigInt(0),
+      liquidationThreshold: parseEther('800'),
+      lastUpdateTimestamp: this.chain.nextTimestamp,
+      owner,
+      isActive: true,
+    })
+    this.valuedAt.set(vaultId, this.chain.nextTimestamp - age)
+    this.policies.set(vaultId, policyNumber)
+    this.emit('VaultOpened', { vaultId, owner, collateralValue: parseEther('1000') })
+    this.chain.mine()
+    return vaultId
+  }
+
+  close(vaultId: bigint): void {
+    this.positions.get(vaultId)!.isActive = false
+    this.emit('VaultClosed', { vaultId, owner: this.positions.get(vaultId)!.owner })
+    this.chain.mine()
+  }
+
+  /** A request for the policy made `age` seconds ago, as another requester might. */
+  addRequest(policyNumber: string, age: bigint, fields: Partial<ValuationRequest> = {}): ValuationRequest {
+    const timestamp = this.chain.latest.timestamp - age
+    const request: ValuationRequest = {
+      requestId: BigInt(this.requests.length + 1),
+      policyNumber,
+      requester: BOB,
+      timestamp,
+      deadline: timestamp + this.responsePeriod,
+      isActive: true,
+      responseCount: BigInt(0),
+      agreedValue: BigInt(0),
+      isFinalized: false,
+      ipfsHash: 'ipfs://policy',
+      ...fields,
+    }
+    this.requests.push(request)
+    this.latestRequest.set(policyNumber, request.requestId)
+    return request
+  }
+
+  private emit(eventName: string, args: Record<string, unknown>) {
+    this.chain.emit(addresses.csvVault, csvVaultAbi, eventName, args)
+  }
+
+  private handle(functionName: string, args: readonly unknown[], context: CallContext): unknown {
+    switch (functionName) {
+      case 'maxValuationAge':
+        return this.maxValuationAge
+      case 'getVaultPosition':
+        return this.positions.get(args[0] as bigint)
+      case 'collateralValuedAt':
+        return this.valuedAt.get(args[0] as bigint)
+      case 'getCSVMetadata':
+        return {
+          policyNumber: this.policies.get(args[0] as bigint),
+          carrierName: 'ExampleLife',
+          cashValue: parseEther('1000'),
+          deathBenefit: parseEther('4000'),
+          premiumAmount: parseEther('10'),
+          policyAge: BigInt(120),
+          creditRating: 4,
+          lastValuationTimestamp: BigInt(0),
+          isActive: true,
+        }
+      case 'requestFee':
+        return this.requestFee
+      case 'oracleReward':
+        return parseEther('0.005')
+      case 'protocolFeeRate':
+        return BigInt(1000)
+      case 'consensusConfig':
+        return [BigInt(3), BigInt(10), BigInt(6600), DAY, BigInt(1000), this.responsePeriod]
+      case 'revealPeriod':
+        return this.revealPeriod
+      case 'missedRevealSlashRate':
+        return BigInt(500)
+      case 'policyToLatestRequest':
+        return this.latestRequest.get(args[0] as string) ?? BigInt(0)
+      case 'getValuationRequest':
+        return this.requests[Number(args[0] as bigint) - 1]
+      case 'requestValuation':
+        return this.requestValuation(args as [string, bigint, string], context)
+      default:
+        throw new Error(`Unexpected call ${functionName}`)
+    }
+  }
+
+  private requestValuation([policyNumber, deadline, ipfsHash]: [string, bigint, string], context: CallContext) {
+    if (this.paused) throw new Revert(encodeErrorResult({ abi: csvOracleAbi, errorName: 'EnforcedPause' }))
+    if (deadline <= context.timestamp) revertWith('CSVOracle: Invalid deadline')
+    const requestId = BigInt(this.requests.length + 1)
+    if (!context.commit) return requestId
+    this.requests.push({
+      requestId,
+      policyNumber,
+      requester: context.from!,
+      timestamp: context.timestamp,
+      deadline,
+      isActive: true,
+      responseCount: BigInt(0),
+      agreedValue: BigInt(0),
+      isFinalized: false,
+      ipfsHash,
+    })
+    this.latestRequest.set(policyNumber, requestId)
+    return requestId
+  }
+}
+
+describe('Revaluation planning', () => {
+  const NOW = BigInt(1_700_000_000)
+  const valuation = (vaultId: number, policyNumber: string, age: bigint): VaultValuation => ({
+    vaultId: BigInt(vaultId),
+    tokenId: BigInt(vaultId),
+    policyNumber,
+    valuedAt: NOW - age,
+  })
+
+  it('lists valuations within the lead time of going stale, soonest first and once per policy', () => {
+    const candidates = planRevaluations(
+      [
+        valuation(1, 'POL-1', BigInt(80) * DAY),
+        valuation(2, 'POL-2', BigInt(30) * DAY),
+        valuation(3, 'POL-3', BigInt(100) * DAY),
+        valuation(4, 'POL-1', BigInt(85) * DAY),
+      ],
+      MAX_AGE,
+      BigInt(14) * DAY,
+      NOW
+    )
+
+    expect(candidates.map((candidate) => [candidate.vaultId, candidate.stale])).to.deep.equal([
+      [BigInt(3), true],
+      [BigInt(4), false],
+    ])
+    expect(candidates[1].remaining).to.equal(BigInt(5) * DAY)
+  })
+
+  it('classifies the latest request against the vault valuation', () => {
+    const request = (timestamp: bigint, isFinalized = false) =>
+      ({ timestamp, deadline: timestamp + DAY, isFinalized }) as ValuationRequest
+    const valuedAt = NOW - BigInt(80) * DAY
+    const reveal = BigInt(12 * 60 * 60)
+
+    expect(requestState(undefined, valuedAt, reveal, NOW)).to.equal('none')
+    expect(requestState(request(valuedAt - DAY), valuedAt, reveal, NOW)).to.equal('none')
+    expect(requestState(request(NOW - DAY / BigInt(2)), valuedAt, reveal, NOW)).to.equal('pending')
+    expect(requestState(request(NOW - BigInt(2) * DAY, true), valuedAt, reveal, NOW)).to.equal('finalized')
+    expect(requestState(request(NOW - BigInt(2) * DAY), valuedAt, reveal, NOW)).to.equal('expired')
+  })
+})
+
+describe('ValuationScheduler', () => {
+  let chain: FakeChain
+  let protocol: ProtocolModel
+
+  const createScheduler = (options: Partial<SchedulerOptions> = {}) =>
+    new ValuationScheduler({
+      publicClient: chain.createClient(),
+      walletClient: chain.createWalletClient(SCHEDULER),
+      vaultAddress: addresses.csvVault,
+      tokenAddress: addresses.csvToken,
+      oracleAddress: addresses.csvOracle,
+      budget: parseEther('1'),
+      retryDelayMs: 1,
+      ...options,
+    })
+
+  const sentArgs = (index: number) => decodeFunctionData({ abi: csvOracleAbi, data: chain.transactions[index].data }).args
+
+  beforeEach(() => {
+    chain = new FakeChain(callAbi)
+    protocol = new ProtocolModel(chain)
+  })
+
+  it('requests a revaluation for a vault nearing staleness and pays the fee', async () => {
+    protocol.open(ALICE, 'POL-FRESH', BigInt(10) * DAY)
+    const vaultId = protocol.open(ALICE, 'POL-AGED', BigInt(80) * DAY)
+    protocol.addRequest('POL-AGED', BigInt(81) * DAY, { isFinalized: true, isActive: false })
+    const scheduler = createScheduler()
+
+    const report = await scheduler.runOnce()
+
+    expect(report.vaults).to.equal(2)
+    expect(report.results).to.have.length(1)
+    expect(report.results[0]).to.deep.include({
+      vaultId,
+      policyNumber: 'POL-AGED',
+      status: 'requested',
+      fee: FEE,
+      requestId: BigInt(2),
+      attempts: 1,
+    })
+    expect(chain.transactions).to.have.length(1)
+    expect(chain.transactions[0]).to.deep.include({ to: addresses.csvOracle, value: FEE })
+    expect(sentArgs(0)).to.deep.equal(['POL-AGED', report.timestamp + DAY, 'ipfs://policy'])
+    expect(report.budgetRemaining).to.equal(parseEther('1') - FEE)
+  })
+
+  it('waits on a request that is still open and requests again once it expires', async () => {
+    protocol.open(ALICE, 'POL-1', BigInt(85) * DAY)
+    const scheduler = createScheduler()
+
+    expect((await scheduler.runOnce()).results[0].status).to.equal('requested')
+    expect((await scheduler.runOnce()).results[0]).to.deep.include({ status: 'skipped', reason: 'REQUEST_PENDING' })
+
+    chain.increaseTime(BigInt(2) * DAY)
+    expect((await scheduler.runOnce()).results[0].status).to.equal('requested')
+    expect(chain.transactions).to.have.length(2)
+  })
+
+  it('does not request again while a finalized valuation awaits propagation', async () => {
+    protocol.open(ALICE, 'POL-1', BigInt(85) * DAY)
+    protocol.addRequest('POL-1', DAY, { isFinalized: true, isActive: false, agreedValue: parseEther('900') })
+
+    const report = await createScheduler().runOnce()
+
+    expect(report.results[0]).to.deep.include({ status: 'skipped', reason: 'AWAITING_PROPAGATION', fee: BigInt(0) })
+    expect(chain.transactions).to.have.length(0)
+  })
+
+  it('requests the most urgent valuations first and stops when the budget is spent', async () => {
+    protocol.open(ALICE, 'POL-1', BigInt(80) * DAY)
+    protocol.open(BOB, 'POL-2', BigInt(95) * DAY)
+
+    const report = await createScheduler({ budget: FEE + FEE / BigInt(2) }).runOnce()
+
+    expect(report.results.map((result) => [result.policyNumber, result.status, result.reason])).to.deep.equal([
+      ['POL-2', 'requested', undefined],
+      ['POL-1', 'skipped', 'BUDGET_EXHAUSTED'],
+    ])
+    expect(report.budgetRemaining).to.equal(FEE / BigInt(2))
+  })
+
+  it('only simulates in dry-run mode', async () => {
+    protocol.open(ALICE, 'POL-1', BigInt(85) * DAY)
+
+    const report = await createScheduler({ dryRun: true, walletClient: undefined, account: SCHEDULER }).runOnce()
+
+    expect(report.results[0]).to.deep.include({ status: 'simulated', requestId: BigInt(1) })
+    expect(report.budgetRemaining).to.equal(parseEther('1') - FEE)
+    expect(chain.transactions).to.have.length(0)
+    expect(protocol.requests).to.have.length(0)
+  })
+
+  it('does not retry reverts that cannot succeed', async () => {
+    protocol.open(ALICE, 'POL-1', BigInt(85) * DAY)
+    protocol.paused = true
+
+    const report = await createScheduler({ maxAttempts: 3 }).runOnce()
+
+    expect(report.results[0]).to.deep.include({ status: 'skipped', attempts: 1, reason: 'PAUSED' })
+    expect(report.budgetRemaining).to.equal(parseEther('1'))
+    expect(chain.transactions).to.have.length(0)
+  })
+
+  it('stops following closed vaults', async () => {
+    const vaultId = protocol.open(ALICE, 'POL-1', BigInt(85) * DAY)
+    const scheduler = createScheduler({ dryRun: true })
+    expect((await scheduler.runOnce()).vaults).to.equal(1)
+
+    protocol.close(vaultId)
+
+    expect((await scheduler.runOnce()).vaults).to.equal(0)
+  })
+
+  it('honours a configured lead time and response window', async () => {
+    protocol.open(ALICE, 'POL-1', BigInt(60) * DAY)
+    const scheduler = createScheduler({ leadTime: BigInt(30) * DAY, responseWindow: BigInt(3) * DAY })
+
+    const report = await scheduler.runOnce()
+
+    expect(report.results[0].status).to.equal('requested')
+    expect(sentArgs(0)).to.deep.equal(['POL-1', report.timestamp + BigInt(3) * DAY, ''])
+  })
+})